@@ -7,11 +7,13 @@
  *   - rsi-reversal.adjustPosition condition checks
  *   - LiveExecutor.checkDcaTranches (mock)
  *   - dcaCount / profitRatio / holdMs correctly passed
+ *   - applyStrategyAdjustment (paper) / LiveExecutor.applyStrategyAdjustment: per-symbol add/reduce
+ *     outside DCA tranche management
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import * as accountModule from "../paper/account.js";
-import { checkDcaTranches } from "../paper/engine.js";
+import { checkDcaTranches, applyStrategyAdjustment } from "../paper/engine.js";
 import { rsiReversalStrategy } from "../strategies/rsi-reversal.js";
 import type { Strategy, StrategyContext } from "../strategies/types.js";
 import type { PaperAccount, PaperPosition } from "../paper/account.js";
@@ -674,6 +676,9 @@ async function makeMockLiveExecutor(cfg: RuntimeConfig): Promise<{
     marketBuy: ReturnType<typeof vi.fn>;
     marketSell: ReturnType<typeof vi.fn>;
     getUsdtBalance: ReturnType<typeof vi.fn>;
+    cancelOrder: ReturnType<typeof vi.fn>;
+    placeStopLossOrder: ReturnType<typeof vi.fn>;
+    placeTakeProfitOrder: ReturnType<typeof vi.fn>;
   };
 }> {
   const { LiveExecutor } = await import("../live/executor.js");
@@ -685,6 +690,10 @@ async function makeMockLiveExecutor(cfg: RuntimeConfig): Promise<{
     marketBuy: vi.fn(),
     marketSell: vi.fn(),
     getUsdtBalance: vi.fn().mockResolvedValue(5000),
+    cancelOrder: vi.fn().mockResolvedValue(undefined),
+    // orderId=-1: LOCAL_ONLY (local polling SL/TP)
+    placeStopLossOrder: vi.fn().mockResolvedValue({ orderId: -1 }),
+    placeTakeProfitOrder: vi.fn().mockResolvedValue({ orderId: -1 }),
   };
 
   // Inject private properties (bypassing TypeScript access checks)
@@ -782,3 +791,187 @@ describe("live executor integration (mock)", () => {
     expect(result[0]?.side).toBe("reduce");
   });
 });
+
+// ─────────────────────────────────────────────────────
+// 11. applyStrategyAdjustment (per-symbol, no DCA state required)
+// ─────────────────────────────────────────────────────
+
+function plainPosition(entryPrice: number, quantity: number): PaperPosition {
+  const { dcaState: _dca, ...pos } = makePosition("BTCUSDT", entryPrice, quantity);
+  return pos;
+}
+
+function fixedStrategy(amount: number | null): Strategy {
+  return { id: "fixed", name: "Fixed", populateSignal: () => "none", adjustPosition: () => amount, adjustEveryCycle: true };
+}
+
+describe("applyStrategyAdjustment (paper)", () => {
+  let account: PaperAccount;
+
+  beforeEach(() => {
+    account = makeAccount(5000, { BTCUSDT: plainPosition(50000, 0.02) });
+    vi.spyOn(accountModule, "loadAccount").mockReturnValue(account);
+    vi.spyOn(accountModule, "saveAccount").mockImplementation(() => {});
+  });
+
+  afterEach(() => vi.restoreAllMocks());
+
+  it("adds to a position without dcaState and counts the add", () => {
+    const trade = applyStrategyAdjustment("BTCUSDT", 48000, makeCfg(false), fixedStrategy(200), makeCtx());
+    expect(trade?.side).toBe("buy");
+    expect(account.usdt).toBeCloseTo(4800, 6);
+    expect(account.positions["BTCUSDT"]?.adjustCount).toBe(1);
+  });
+
+  it("passes adjustCount to the hook as dcaCount", () => {
+    account.positions["BTCUSDT"]!.adjustCount = 2;
+    const adjustPosition = vi.fn().mockReturnValue(null);
+    const strategy: Strategy = { id: "spy", name: "Spy", populateSignal: () => "none", adjustPosition, adjustEveryCycle: true };
+    applyStrategyAdjustment("BTCUSDT", 48000, makeCfg(false), strategy, makeCtx());
+    expect(adjustPosition.mock.calls[0]?.[0]).toMatchObject({ dcaCount: 2, costBasis: 1000, side: "long" });
+  });
+
+  it("reduces part of the position", () => {
+    const trade = applyStrategyAdjustment("BTCUSDT", 50000, makeCfg(false), fixedStrategy(-250), makeCtx());
+    expect(trade?.side).toBe("sell");
+    expect(trade?.quantity).toBeCloseTo(0.005, 8);
+    expect(account.positions["BTCUSDT"]?.quantity).toBeCloseTo(0.015, 8);
+  });
+
+  it("reducing the whole position value closes it", () => {
+    const trade = applyStrategyAdjustment("BTCUSDT", 50000, makeCfg(false), fixedStrategy(-1000), makeCtx());
+    expect(trade?.quantity).toBeCloseTo(0.02, 8);
+    expect(account.positions["BTCUSDT"]).toBeUndefined();
+  });
+
+  it("null / below min_order_usdt -> no trade", () => {
+    expect(applyStrategyAdjustment("BTCUSDT", 50000, makeCfg(false), fixedStrategy(null), makeCtx())).toBeNull();
+    expect(applyStrategyAdjustment("BTCUSDT", 50000, makeCfg(false), fixedStrategy(5), makeCtx())).toBeNull();
+  });
+
+  it("leaves DCA-managed positions to checkDcaTranches", () => {
+    account.positions["BTCUSDT"] = makePosition("BTCUSDT", 50000, 0.02);
+    expect(applyStrategyAdjustment("BTCUSDT", 48000, makeCfg(true), fixedStrategy(200), makeCtx())).toBeNull();
+  });
+
+  it("ignores short positions", () => {
+    account.positions["BTCUSDT"] = { ...plainPosition(50000, 0.02), side: "short" };
+    expect(applyStrategyAdjustment("BTCUSDT", 48000, makeCfg(false), fixedStrategy(200), makeCtx())).toBeNull();
+  });
+
+  it("skips strategies without adjustEveryCycle (rsi-reversal only adjusts inside DCA)", () => {
+    const spy = vi.spyOn(rsiReversalStrategy, "adjustPosition");
+    expect(applyStrategyAdjustment("BTCUSDT", 40000, makeCfg(false), rsiReversalStrategy, makeCtx(15))).toBeNull();
+    expect(spy).not.toHaveBeenCalled();
+    expect(account.positions["BTCUSDT"]?.quantity).toBe(0.02);
+  });
+});
+
+describe("LiveExecutor.applyStrategyAdjustment (mock)", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it("adds via marketBuy and reduces via marketSell", async () => {
+    const cfg = makeCfg(false);
+    const account = makeAccount(5000, { BTCUSDT: plainPosition(50000, 0.02) });
+    vi.spyOn(accountModule, "loadAccount").mockReturnValue(account);
+    vi.spyOn(accountModule, "saveAccount").mockImplementation(() => {});
+
+    const { executor, mockClient } = await makeMockLiveExecutor(cfg);
+    mockClient.marketBuy.mockResolvedValue({
+      orderId: 3, symbol: "BTCUSDT", status: "FILLED", executedQty: "0.0025", price: "0",
+      fills: [{ price: "48000", qty: "0.0025", commission: "0" }], transactTime: Date.now(),
+    });
+    mockClient.marketSell.mockResolvedValue({
+      orderId: 4, symbol: "BTCUSDT", status: "FILLED", executedQty: "0.002", price: "0",
+      fills: [{ price: "50000", qty: "0.002", commission: "0" }], transactTime: Date.now(),
+    });
+
+    executor.strategy = fixedStrategy(120);
+    const added = await executor.applyStrategyAdjustment("BTCUSDT", 48000, makeCtx());
+    expect(mockClient.marketBuy).toHaveBeenCalledWith("BTCUSDT", 120);
+    expect(added?.side).toBe("add");
+    expect(account.positions["BTCUSDT"]?.quantity).toBeCloseTo(0.0225, 8);
+
+    executor.strategy = fixedStrategy(-100);
+    const reduced = await executor.applyStrategyAdjustment("BTCUSDT", 50000, makeCtx());
+    expect(mockClient.marketSell).toHaveBeenCalledWith("BTCUSDT", expect.closeTo(0.002, 6));
+    expect(reduced?.side).toBe("reduce");
+    expect(account.positions["BTCUSDT"]?.quantity).toBeCloseTo(0.0205, 8);
+  });
+
+  it("re-places native SL/TP for the new quantity and books the add at the fill price", async () => {
+    const cfg = makeCfg(false);
+    const pos = { ...plainPosition(50000, 0.02), exchangeSlOrderId: 11, stopLossOrderId: 11, exchangeSlPrice: 47500, takeProfitOrderId: 12 };
+    const account = makeAccount(5000, { BTCUSDT: pos });
+    vi.spyOn(accountModule, "loadAccount").mockReturnValue(account);
+    vi.spyOn(accountModule, "saveAccount").mockReturnValue(undefined);
+
+    const { executor, mockClient } = await makeMockLiveExecutor(cfg);
+    // Requested $120 at 48000, but the fill came in at 40000
+    mockClient.marketBuy.mockResolvedValue({
+      orderId: 3, symbol: "BTCUSDT", status: "FILLED", executedQty: "0.0025", price: "0",
+      fills: [{ price: "40000", qty: "0.0025", commission: "0" }], transactTime: Date.now(),
+    });
+    mockClient.placeStopLossOrder.mockResolvedValue({ orderId: 21 });
+    mockClient.placeTakeProfitOrder.mockResolvedValue({ orderId: 22 });
+
+    executor.strategy = fixedStrategy(120);
+    const added = await executor.applyStrategyAdjustment("BTCUSDT", 48000, makeCtx());
+    const held = account.positions["BTCUSDT"];
+    expect(added?.usdtAmount).toBeCloseTo(100, 6);
+    expect(mockClient.cancelOrder).toHaveBeenCalledWith("BTCUSDT", 11);
+    expect(mockClient.cancelOrder).toHaveBeenCalledWith("BTCUSDT", 12);
+    expect(mockClient.placeStopLossOrder).toHaveBeenCalledWith("BTCUSDT", "SELL", expect.closeTo(0.0225, 8), expect.closeTo(47500, 6));
+    expect(mockClient.placeTakeProfitOrder).toHaveBeenCalledWith("BTCUSDT", "SELL", expect.closeTo(0.0225, 8), expect.closeTo(57500, 6));
+    expect(held?.exchangeSlOrderId).toBe(21);
+    expect(held?.takeProfitOrderId).toBe(22);
+    expect(held?.entryPrice).toBeCloseTo(1100 / 0.0225, 4);
+    expect(account.usdt).toBeCloseTo(4900, 6);
+  });
+
+  it("keeps a zero-fill add registered as a pending order", async () => {
+    const cfg = makeCfg(false);
+    const account = makeAccount(5000, { BTCUSDT: plainPosition(50000, 0.02) });
+    vi.spyOn(accountModule, "loadAccount").mockReturnValue(account);
+    vi.spyOn(accountModule, "saveAccount").mockReturnValue(undefined);
+
+    const { executor, mockClient } = await makeMockLiveExecutor(cfg);
+    mockClient.marketBuy.mockResolvedValue({
+      orderId: 5, symbol: "BTCUSDT", status: "NEW", executedQty: "0", price: "0", transactTime: Date.now(),
+    });
+
+    executor.strategy = fixedStrategy(120);
+    expect(await executor.applyStrategyAdjustment("BTCUSDT", 48000, makeCtx())).toBeNull();
+    expect(account.openOrders?.[5]).toMatchObject({ side: "buy", status: "pending" });
+    expect(account.positions["BTCUSDT"]?.quantity).toBe(0.02);
+  });
+
+  it("re-places SL/TP for the unchanged quantity when the adjustment fails", async () => {
+    const cfg = makeCfg(false);
+    const account = makeAccount(5000, { BTCUSDT: { ...plainPosition(50000, 0.02), exchangeSlOrderId: 11 } });
+    vi.spyOn(accountModule, "loadAccount").mockReturnValue(account);
+    vi.spyOn(accountModule, "saveAccount").mockReturnValue(undefined);
+
+    const { executor, mockClient } = await makeMockLiveExecutor(cfg);
+    mockClient.marketSell.mockRejectedValue(new Error("insufficient balance"));
+    mockClient.placeStopLossOrder.mockResolvedValue({ orderId: 31 });
+
+    executor.strategy = fixedStrategy(-100);
+    expect(await executor.applyStrategyAdjustment("BTCUSDT", 50000, makeCtx())).toBeNull();
+    expect(mockClient.cancelOrder).toHaveBeenCalledWith("BTCUSDT", 11);
+    expect(mockClient.placeStopLossOrder).toHaveBeenCalledWith("BTCUSDT", "SELL", 0.02, expect.closeTo(47500, 6));
+    expect(account.positions["BTCUSDT"]?.exchangeSlOrderId).toBe(31);
+  });
+
+  it("does not average down with rsi-reversal (no adjustEveryCycle)", async () => {
+    const cfg = makeCfg(false);
+    const account = makeAccount(5000, { BTCUSDT: plainPosition(50000, 0.02) });
+    vi.spyOn(accountModule, "loadAccount").mockReturnValue(account);
+    vi.spyOn(accountModule, "saveAccount").mockReturnValue(undefined);
+
+    const { executor, mockClient } = await makeMockLiveExecutor(cfg);
+    executor.strategy = rsiReversalStrategy;
+    expect(await executor.applyStrategyAdjustment("BTCUSDT", 40000, makeCtx(15))).toBeNull();
+    expect(mockClient.marketBuy).not.toHaveBeenCalled();
+  });
+});
@@ -14,6 +14,7 @@ import fs from "fs";
 import type { Kline, StrategyConfig } from "../types.js";
 import type { ParamSet } from "../optimization/param-space.js";
 import type { EvalResult } from "../optimization/objective.js";
+import type { EquityPoint } from "../backtest/metrics.js";
 import { splitKlines } from "../optimization/bayesian.js";
 
 // ─────────────────────────────────────────────────────
@@ -109,7 +110,7 @@ function makeBaseCfg(): StrategyConfig {
   } as unknown as StrategyConfig;
 }
 
-function makeEvalResult(sharpe: number, score?: number): EvalResult {
+function makeEvalResult(sharpe: number, score?: number, equityCurve: EquityPoint[] = []): EvalResult {
   return {
     score: score ?? sharpe,
     metrics: {
@@ -136,18 +137,45 @@ function makeEvalResult(sharpe: number, score?: number): EvalResult {
       bestTradePct: 8,
       worstTradePct: -3,
       calmarRatio: 1.5,
-      equityCurve: [],
+      equityCurve,
     },
   };
 }
 
+/** Hourly equity curve over the 100 fixture bars: `drift` per bar plus a deterministic wobble */
+function makeCurve(drift: number): EquityPoint[] {
+  let equity = 1000;
+  return makeKlines(100).map((k, i) => {
+    if (i > 0) equity *= 1 + drift + 0.01 * Math.sin(i * 1.7);
+    return { time: k.openTime, equity };
+  });
+}
+
+/**
+ * evaluateParams by data set: test split (30 bars) → currentOos then newOos Sharpe;
+ * full history (100 bars) → flat curve for the current params, a steady edge for every trial,
+ * so CPCV / PBO / DSR all favour the trials.
+ */
+function mockEvalScenario(currentOos: number, newOos: number): void {
+  let testRuns = 0;
+  let fullRuns = 0;
+  mockEval.mockReset();
+  mockEval.mockImplementation((_params, symbol, _cfg, cache) => {
+    const bars = cache.get(symbol)?.length ?? 0;
+    if (bars === 100) return Promise.resolve(makeEvalResult(1, 1, makeCurve(fullRuns++ === 0 ? 0 : 0.004)));
+    if (bars === 30) return Promise.resolve(makeEvalResult(testRuns++ === 0 ? currentOos : newOos));
+    return Promise.resolve(makeEvalResult(1.0));
+  });
+}
+
 function makeDefaultCfg() {
   return {
     symbols: ["BTCUSDT"],
     days: 90,
     trials: 2, // fewer iterations to speed up tests
     trainRatio: 0.7,
-    minImprovementPct: 5,
+    maxPbo: 0.5,
+    minDeflatedSharpe: 0.95,
     dryRun: true, // default dryRun=true to avoid file writes
     seed: 42,
   };
@@ -179,9 +207,9 @@ afterEach(() => {
 // ─────────────────────────────────────────────────────
 
 describe("runAutoWalkForward core logic", () => {
-  it("1. updated=true when improvement exceeds threshold", async () => {
-    // currentSharpe=0.8, newSharpe=1.1 -> improvement=37.5% > 5%
+  it("1. updated=true when the trials pass the CPCV / PBO / DSR checks", async () => {
     // dryRun=false is needed for actual update (need to mock fs for config write)
+    mockEvalScenario(0.8, 1.1);
     const readSpy = vi.spyOn(fs, "readFileSync").mockReturnValue(
       "strategy:\n  ma:\n    short: 20\n    long: 60\n  rsi:\n    period: 14\n    overbought: 70\n    oversold: 30\nrisk:\n  stop_loss_percent: 3\n  take_profit_percent: 8\n  position_ratio: 0.2\n"
     );
@@ -193,35 +221,32 @@ describe("runAutoWalkForward core logic", () => {
       dryRun: false,
     }, makeBaseCfg());
     expect(report.results[0]?.updated).toBe(true);
+    expect(report.results[0]?.rejectReasons).toEqual([]);
+    expect(report.results[0]?.validation).toMatchObject({ splits: 15, pbo: 0 });
+    expect(report.results[0]?.validation?.deflatedSharpe).toBeGreaterThan(0.95);
     readSpy.mockRestore();
     writeSpy.mockRestore();
     renameSpy.mockRestore();
     mkdirSpy.mockRestore();
   });
 
-  it("2. updated=false when improvement is below threshold", async () => {
-    // currentSharpe=1.0, newSharpe=1.02 -> improvement=2% < 5%
-    mockEval.mockReset();
-    mockEval
-      .mockResolvedValueOnce(makeEvalResult(1.0))   // current
-      .mockResolvedValue(makeEvalResult(1.02));      // optimizer + new
+  it("2. a large raw OOS Sharpe gain alone does not update (no edge over the full history)", async () => {
+    // currentSharpe=0.8, newSharpe=1.1 (+37.5%), but every full-history backtest is flat
     const report = await runAutoWalkForward(makeDefaultCfg(), makeBaseCfg());
+    expect(report.results[0]?.improvementPct).toBeCloseTo(37.5);
     expect(report.results[0]?.updated).toBe(false);
+    expect(report.results[0]?.rejectReasons?.join(" ")).toContain("PBO 100% > 50%");
+    expect(report.results[0]?.rejectReasons?.join(" ")).toContain("CPCV Sharpe not above current params");
   });
 
-  it("3. no update when newSharpe <= 0 (even if improvement exceeds threshold)", async () => {
-    // currentSharpe=-0.2 (negative), newSharpe=-0.1 -> improvement=50% > 5%, but newSharpe<=0
-    mockEval.mockReset();
-    mockEval
-      .mockResolvedValueOnce(makeEvalResult(-0.2))  // current (negative)
-      .mockResolvedValueOnce(makeEvalResult(1.0))   // optimizer iter 1
-      .mockResolvedValueOnce(makeEvalResult(1.0))   // optimizer iter 2
-      .mockResolvedValueOnce(makeEvalResult(-0.1)); // new test (negative)
+  it("3. no update when newSharpe <= 0 (even if the overfitting checks pass)", async () => {
+    mockEvalScenario(-0.2, -0.1);
     const report = await runAutoWalkForward({
       ...makeDefaultCfg(),
       dryRun: false,
     }, makeBaseCfg());
     expect(report.results[0]?.updated).toBe(false);
+    expect(report.results[0]?.rejectReasons).toEqual(["OOS Sharpe -0.100 ≤ 0"]);
   });
 
   it("4. dryRun=true does not write config file", async () => {
@@ -269,10 +294,8 @@ describe("runAutoWalkForward core logic", () => {
     mockFetch
       .mockResolvedValueOnce(makeKlines(100))        // BTCUSDT success
       .mockRejectedValueOnce(new Error("fail"));     // ETHUSDT fails
-    mockEval
-      .mockResolvedValueOnce(makeEvalResult(0.8))    // BTCUSDT current
-      .mockResolvedValue(makeEvalResult(1.1));       // BTCUSDT optimizer + new
-    // dryRun=false, BTCUSDT improvement > threshold, should be updated=true
+    mockEvalScenario(0.8, 1.1);
+    // dryRun=false, BTCUSDT passes every check, should be updated=true
     // ETHUSDT fetch fails, failedCount=1
     const readSpy = vi.spyOn(fs, "readFileSync").mockReturnValue(
       "strategy:\n  ma:\n    short: 20\n    long: 60\n  rsi:\n    period: 14\n    overbought: 70\n    oversold: 30\nrisk:\n  stop_loss_percent: 3\n  take_profit_percent: 8\n  position_ratio: 0.2\n"
@@ -318,12 +341,8 @@ describe("runAutoWalkForward core logic", () => {
     expect(mockLoadCfg).toHaveBeenCalledTimes(1);
   });
 
-  it("11. calls writeFileSync for config when improvement exceeds threshold and dryRun=false", async () => {
-    // Setup: improvement > threshold, newSharpe > 0
-    mockEval.mockReset();
-    mockEval
-      .mockResolvedValueOnce(makeEvalResult(0.8))
-      .mockResolvedValue(makeEvalResult(1.5));
+  it("11. calls writeFileSync for config when every check passes and dryRun=false", async () => {
+    mockEvalScenario(0.8, 1.5);
     // mock fs.readFileSync to return a valid yaml string
     const readSpy = vi.spyOn(fs, "readFileSync").mockReturnValue(
       "strategy:\n  ma:\n    short: 20\n    long: 60\n  rsi:\n    period: 14\n    overbought: 70\n    oversold: 30\nrisk:\n  stop_loss_percent: 3\n  take_profit_percent: 8\n  position_ratio: 0.2\n"
@@ -341,13 +360,36 @@ describe("runAutoWalkForward core logic", () => {
     mkdirSpy.mockRestore();
   });
 
+  it("11b. tunes a declared hyperopt_space and writes its config paths", async () => {
+    const baseCfg = {
+      ...makeBaseCfg(),
+      hyperopt_space: [{ path: "risk.take_profit_percent", type: "float", min: 5, max: 30 }],
+    } as StrategyConfig;
+    mockApplyParams.mockImplementation((_p, cfg) => ({ ...cfg, risk: { ...cfg.risk, take_profit_percent: 12 } }));
+    mockEvalScenario(0.8, 1.1);
+    vi.spyOn(fs, "readFileSync").mockReturnValue("risk:\n  take_profit_percent: 8\n  stop_loss_percent: 3\n");
+    const writeSpy = vi.spyOn(fs, "writeFileSync").mockImplementation(() => undefined);
+    vi.spyOn(fs, "renameSync").mockImplementation(() => undefined);
+    vi.spyOn(fs, "mkdirSync").mockImplementation(() => undefined);
+
+    await runAutoWalkForward({ ...makeDefaultCfg(), dryRun: false }, baseCfg);
+
+    const [currentParams, , , , options] = mockEval.mock.calls[0] ?? [];
+    expect(currentParams).toEqual({ "risk.take_profit_percent": 8 });
+    expect(options?.space?.map((d) => d.name)).toEqual(["risk.take_profit_percent"]);
+    const written = writeSpy.mock.calls.find((c) => String(c[0]).includes("strategy.yaml"))?.[1];
+    expect(written).toContain("take_profit_percent: 12");
+    expect(written).toContain("stop_loss_percent: 3");
+  });
+
   it("12. SymbolWfResult contains correct currentSharpe and newSharpe", async () => {
     mockEval.mockReset();
     mockEval
       .mockResolvedValueOnce(makeEvalResult(1.2))  // current
       .mockResolvedValueOnce(makeEvalResult(1.0))  // optimizer iter 1
       .mockResolvedValueOnce(makeEvalResult(0.9))  // optimizer iter 2
-      .mockResolvedValueOnce(makeEvalResult(1.8)); // new test
+      .mockResolvedValueOnce(makeEvalResult(1.8))  // new test
+      .mockResolvedValue(makeEvalResult(0));       // full-history backtests
     const report = await runAutoWalkForward(makeDefaultCfg(), makeBaseCfg());
     expect(report.results[0]?.currentSharpe).toBeCloseTo(1.2);
     expect(report.results[0]?.newSharpe).toBeCloseTo(1.8);
@@ -360,7 +402,8 @@ describe("runAutoWalkForward core logic", () => {
       .mockResolvedValueOnce(makeEvalResult(1.0))
       .mockResolvedValueOnce(makeEvalResult(1.0))
       .mockResolvedValueOnce(makeEvalResult(1.0))
-      .mockResolvedValueOnce(makeEvalResult(1.5));
+      .mockResolvedValueOnce(makeEvalResult(1.5))
+      .mockResolvedValue(makeEvalResult(0)); // full-history backtests
     const report = await runAutoWalkForward(makeDefaultCfg(), makeBaseCfg());
     expect(report.results[0]?.improvementPct).toBeCloseTo(50);
   });
@@ -505,6 +548,23 @@ describe("formatAutoWfReport", () => {
     expect(text).toMatch(/⏭|Skipped/);
   });
 
+  it("21b. shows the overfitting checks and why an update was rejected", () => {
+    const report = makeReport([
+      { symbol: "BTCUSDT", updated: false, currentSharpe: 1.0, newSharpe: 1.4, improvementPct: 40 },
+    ]);
+    const [result] = report.results;
+    const text = formatAutoWfReport({
+      ...report,
+      results: result ? [{
+        ...result,
+        validation: { splits: 15, pbo: 0.6, deflatedSharpe: 0.41, bestCpcvSharpe: 1.25, currentCpcvSharpe: 0.9, positiveSplitPct: 60 },
+        rejectReasons: ["PBO 60% > 50%", "DSR 0.41 < 0.95"],
+      }] : [],
+    });
+    expect(text).toContain("PBO 60% | DSR 0.41 | CPCV Sharpe 0.90 → 1.25 (60% of 15 splits positive)");
+    expect(text).toContain("Rejected: PBO 60% > 50%; DSR 0.41 < 0.95");
+  });
+
   it("22. contains error indicator when error occurs", () => {
     const report = makeReport([
       {
@@ -546,26 +606,11 @@ describe("formatAutoWfReport", () => {
 // ─────────────────────────────────────────────────────
 
 describe("AutoWfConfig interface defaults", () => {
-  it("25. minImprovementPct=5 (required default value)", () => {
-    // Test that threshold of exactly 4.9% (below 5%) does not update
-    mockEval.mockReset();
-    // current=1.0, new=1.049 -> improvement=4.9% < 5%
-    mockEval
-      .mockResolvedValueOnce(makeEvalResult(1.0))   // current
-      .mockResolvedValueOnce(makeEvalResult(1.0))   // optimizer iter 1
-      .mockResolvedValueOnce(makeEvalResult(1.0))   // optimizer iter 2
-      .mockResolvedValueOnce(makeEvalResult(1.049)); // new (4.9% improvement)
-    return runAutoWalkForward({
-      symbols: ["BTCUSDT"],
-      days: 90,
-      trials: 2,
-      trainRatio: 0.7,
-      minImprovementPct: 5,
-      dryRun: true,
-      seed: 1,
-    }, makeBaseCfg()).then((report) => {
-      expect(report.results[0]?.updated).toBe(false);
-    });
+  it("25. minDeflatedSharpe / maxPbo thresholds gate the update", async () => {
+    mockEvalScenario(1.0, 1.5);
+    const strict = await runAutoWalkForward({ ...makeDefaultCfg(), minDeflatedSharpe: 1.01, maxPbo: -0.01 }, makeBaseCfg());
+    expect(strict.results[0]?.updated).toBe(false);
+    expect(strict.results[0]?.rejectReasons).toEqual(["PBO 0% > -1%", "DSR 1.00 < 1.01"]);
   });
 
   it("26. trainRatio=0.7 (required default value)", async () => {
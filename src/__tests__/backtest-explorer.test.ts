@@ -0,0 +1,247 @@
+/**
+ * Dashboard backtest explorer: saved report listing, report views, candles with trade
+ * markers, job parameter validation and the job queue
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { calculateMetrics } from "../backtest/metrics.js";
+import type { BacktestTrade } from "../backtest/metrics.js";
+import type { BacktestResult } from "../backtest/runner.js";
+import { saveReport, listReports, loadReport, redirectReportDir } from "../backtest/report.js";
+import {
+  buildReportView,
+  buildReportCandles,
+  equityWithDrawdown,
+  mergeCandles,
+} from "../web/backtest-explorer.js";
+import { BacktestJobs, BacktestJobError, parseJobParams } from "../web/backtest-jobs.js";
+import type { BacktestJob, JobProgress } from "../web/backtest-jobs.js";
+import type { Kline } from "../types.js";
+
+// ─────────────────────────────────────────────────────
+// Fixtures
+// ─────────────────────────────────────────────────────
+
+const H = 3_600_000;
+const T0 = Date.parse("2026-01-01T00:00:00Z");
+
+function kline(i: number, close: number): Kline {
+  return { openTime: T0 + i * H, open: close - 1, high: close + 2, low: close - 3, close, volume: 10, closeTime: T0 + (i + 1) * H - 1 };
+}
+
+function trade(over: Partial<BacktestTrade>): BacktestTrade {
+  return {
+    symbol: "BTCUSDT", side: "sell", entryTime: T0, exitTime: T0 + H, entryPrice: 100, exitPrice: 110,
+    quantity: 1, cost: 100, proceeds: 110, pnl: 10, pnlPercent: 0.1, exitReason: "take_profit", ...over,
+  };
+}
+
+function result(strategy: string, trades: BacktestTrade[]): BacktestResult {
+  const equityCurve = [1000, 1100, 990, 1050].map((equity, i) => ({ time: T0 + i * H, equity }));
+  return {
+    metrics: calculateMetrics(trades, 1000, equityCurve),
+    trades,
+    totalFundingPaid: 0,
+    perSymbol: {
+      BTCUSDT: { trades: 2, wins: 1, losses: 1, pnl: 5, winRate: 0.5, fundingPaid: 0 },
+      ETHUSDT: { trades: 1, wins: 1, losses: 0, pnl: 8, winRate: 1, fundingPaid: 0 },
+    },
+    config: {
+      strategy, symbols: ["BTCUSDT", "ETHUSDT"], timeframe: "1h", startDate: "2026-01-01", endDate: "2026-01-01",
+      days: 1, initialUsdt: 1000, fundingEnabled: false, signalToNextOpen: true,
+    },
+  };
+}
+
+const TRADES = [
+  trade({ side: "buy" }),
+  trade({}),
+  trade({ side: "cover", entryTime: T0 + 2 * H, exitTime: T0 + 5 * H, pnl: -5, exitReason: "stop_loss" }),
+  trade({ symbol: "ETHUSDT", pnl: 8 }),
+];
+
+let tmpDir: string;
+let restoreReports: () => void;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "bt-explorer-"));
+  restoreReports = redirectReportDir(tmpDir);
+});
+
+afterEach(() => {
+  restoreReports();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ─────────────────────────────────────────────────────
+// Saved reports
+// ─────────────────────────────────────────────────────
+
+describe("saved backtest reports", () => {
+  it("lists saved reports newest first and skips foreign files", () => {
+    const older = path.basename(saveReport(result("Trend", TRADES), "a"));
+    fs.utimesSync(path.join(tmpDir, older), T0 / 1000, T0 / 1000);
+    const newer = path.basename(saveReport(result("RSI Pure", TRADES), "b"));
+    fs.writeFileSync(path.join(tmpDir, "notes.json"), JSON.stringify({ hello: 1 }));
+    fs.writeFileSync(path.join(tmpDir, "broken.json"), "{");
+
+    const list = listReports();
+    expect(list.map((r) => r.name)).toEqual([newer, older]);
+    expect(list[0]).toMatchObject({ strategy: "RSI Pure", timeframe: "1h", totalTrades: 3, portfolio: false });
+  });
+
+  it("only loads plain file names inside the report directory", () => {
+    const name = path.basename(saveReport(result("Trend", TRADES)));
+    expect(loadReport(name)?.config.strategy).toBe("Trend");
+    expect(loadReport("../package.json")).toBeNull();
+    expect(loadReport(".hidden.json")).toBeNull();
+    expect(loadReport("missing.json")).toBeNull();
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Report view + candles
+// ─────────────────────────────────────────────────────
+
+describe("buildReportView()", () => {
+  it("adds drawdown, sorts symbols by PnL and breaks exits down by reason", () => {
+    const view = buildReportView("r.json", result("Trend", TRADES));
+
+    expect(view.equity.map((p) => Number(p.drawdownPct.toFixed(2)))).toEqual([0, 0, 10, 4.55]);
+    expect(view.perSymbol.map((s) => s.symbol)).toEqual(["ETHUSDT", "BTCUSDT"]);
+    expect(view.trades).toHaveLength(3);
+    expect(view.exitReasons).toEqual([
+      { reason: "take_profit", count: 2, share: 2 / 3, pnl: 18, winRate: 1 },
+      { reason: "stop_loss", count: 1, share: 1 / 3, pnl: -5, winRate: 0 },
+    ]);
+    expect(view.metrics).not.toHaveProperty("equityCurve");
+  });
+
+  it("treats a curve that never rises as a drawdown from its first point", () => {
+    expect(equityWithDrawdown([{ time: 0, equity: 100 }, { time: 1, equity: 80 }]).map((p) => p.drawdownPct)).toEqual([0, 20]);
+  });
+});
+
+describe("buildReportCandles()", () => {
+  const klines = Array.from({ length: 24 }, (_, i) => kline(i, 100 + i));
+
+  it("returns the report's candles with entry / exit markers on their bars", async () => {
+    const fetchKlines = vi.fn(() => Promise.resolve(klines));
+    const out = await buildReportCandles(result("Trend", TRADES), "BTCUSDT", fetchKlines);
+
+    expect(fetchKlines).toHaveBeenCalledWith("BTCUSDT", "1h", T0, T0 + 24 * H);
+    expect(out.candles).toHaveLength(24);
+    expect(out.barsPerCandle).toBe(1);
+    expect(out.markers.map((m) => `${m.kind}:${m.side}:${m.index}`)).toEqual([
+      "entry:long:0", "exit:long:1", "entry:short:2", "exit:short:5",
+    ]);
+  });
+
+  it("merges bars when the range is longer than the chart limit", async () => {
+    const out = await buildReportCandles(result("Trend", TRADES), "BTCUSDT", () => Promise.resolve(klines), 10);
+    expect(out.barsPerCandle).toBe(3);
+    expect(out.candles).toHaveLength(8);
+    expect(out.candles[0]).toEqual({ time: T0, open: 99, high: 104, low: 97, close: 102 });
+    expect(out.markers.find((m) => m.kind === "exit" && m.side === "short")?.index).toBe(1);
+  });
+
+  it("rejects symbols outside the report", async () => {
+    await expect(buildReportCandles(result("Trend", TRADES), "SOLUSDT", () => Promise.resolve([]))).rejects.toThrow(/not part/);
+    expect(mergeCandles([], 10)).toEqual({ candles: [], barsPerCandle: 1 });
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Jobs
+// ─────────────────────────────────────────────────────
+
+describe("parseJobParams()", () => {
+  it("applies backtest CLI defaults and normalizes symbols", () => {
+    expect(parseJobParams({}, [])).toEqual({
+      days: 90, initialUsdt: 1000, spreadBps: 0, signalToNextOpen: false, replay: false,
+    });
+    expect(parseJobParams({ strategy: "trend", days: "30", timeframe: "4h", symbols: "btcusdt, ethusdt,btcusdt", volumeCapPercent: 5 }, ["trend"]))
+      .toMatchObject({ strategy: "trend", days: 30, timeframe: "4h", symbols: ["BTCUSDT", "ETHUSDT"], volumeCapPercent: 5 });
+  });
+
+  it("rejects unknown strategies and out-of-range values with 400", () => {
+    const bad = [
+      { strategy: "nope" },
+      { days: 0 },
+      { days: 5000 },
+      { timeframe: "2h" },
+      { symbols: ["BTC/USDT"] },
+      { replay: "yes" },
+      { replay: true, volumeCapPercent: 5 },
+    ];
+    for (const body of bad) {
+      expect(() => parseJobParams(body, ["trend"])).toThrow(BacktestJobError);
+    }
+    expect(() => parseJobParams([], [])).toThrow(/JSON object/);
+  });
+});
+
+describe("BacktestJobs", () => {
+  const params = parseJobParams({}, []);
+
+  /** Runner whose jobs finish when the test says so */
+  function controlledRunner(): {
+    runner: (job: { id: string }, onProgress: (p: JobProgress) => void) => Promise<string>;
+    finish: (i: number, report?: string) => void;
+    progress: (i: number, p: JobProgress) => void;
+    started: () => number;
+  } {
+    const runs: { resolve: (r: string) => void; reject: (e: Error) => void; onProgress: (p: JobProgress) => void }[] = [];
+    return {
+      runner: (_job, onProgress) => new Promise((resolve, reject) => { runs.push({ resolve, reject, onProgress }); }),
+      finish: (i, report) => {
+        const run = runs[i];
+        if (report !== undefined) run?.resolve(report);
+        else run?.reject(new Error("boom"));
+      },
+      progress: (i, p) => { runs[i]?.onProgress(p); },
+      started: () => runs.length,
+    };
+  }
+
+  it("runs one job at a time and reports progress and results", async () => {
+    const ctl = controlledRunner();
+    const changes: BacktestJob[] = [];
+    const jobs = new BacktestJobs(ctl.runner, (job) => changes.push(job));
+
+    const a = jobs.submit(params, "alice");
+    const b = jobs.submit(params, "alice");
+    expect(ctl.started()).toBe(1);
+    expect(jobs.get(a.id)?.status).toBe("running");
+    expect(jobs.get(b.id)?.status).toBe("queued");
+
+    ctl.progress(0, { phase: "run", done: 50, total: 100, detail: "Running backtest" });
+    expect(jobs.get(a.id)?.progress.done).toBe(50);
+
+    ctl.finish(0, "backtest-a.json");
+    await vi.waitFor(() => { expect(ctl.started()).toBe(2); });
+    expect(jobs.get(a.id)).toMatchObject({ status: "done", report: "backtest-a.json" });
+
+    ctl.finish(1);
+    await vi.waitFor(() => { expect(jobs.get(b.id)?.status).toBe("failed"); });
+    expect(jobs.get(b.id)?.error).toBe("boom");
+    expect(jobs.list().map((j) => j.id)).toEqual([b.id, a.id]);
+    expect(changes.filter((j) => j.id === a.id).map((j) => j.status)).toEqual(["queued", "running", "running", "done"]);
+  });
+
+  it("refuses new jobs once the queue is full", () => {
+    const jobs = new BacktestJobs(controlledRunner().runner);
+    for (let i = 0; i < 6; i++) jobs.submit(params, "alice");
+    let err: unknown;
+    try {
+      jobs.submit(params, "alice");
+    } catch (e) {
+      err = e;
+    }
+    expect(err).toBeInstanceOf(BacktestJobError);
+    expect((err as BacktestJobError).status).toBe(429);
+  });
+});
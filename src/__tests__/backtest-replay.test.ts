@@ -0,0 +1,227 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import path from "path";
+import { SimulatedClock, ReplayDataProvider, runReplay } from "../backtest/replay.js";
+import { runBacktest } from "../backtest/runner.js";
+import { parseBacktestArgs } from "../backtest/cli-args.js";
+import type { BacktestTrade } from "../backtest/metrics.js";
+import type { Kline, StrategyConfig } from "../types.js";
+
+// ─────────────────────────────────────────────────────
+// Test helpers
+// ─────────────────────────────────────────────────────
+
+const BASE_TIME = 1_700_002_800_000; // 2023-11-14 23:00 UTC (hour aligned)
+const HOUR = 3600_000;
+
+function makeKlines(closes: number[]): Kline[] {
+  return closes.map((close, i) => ({
+    openTime: BASE_TIME + i * HOUR,
+    open: i > 0 ? (closes[i - 1] ?? close) : close,
+    high: close * 1.001,
+    low: close * 0.999,
+    close,
+    volume: 1000,
+    closeTime: BASE_TIME + (i + 1) * HOUR - 1,
+  }));
+}
+
+/** 30 flat bars, a +1% bar (entry signal), then `tail` */
+function withEntry(tail: number[]): number[] {
+  return [...Array.from({ length: 30 }, () => 100), 101, ...tail];
+}
+
+function makeConfig(overrides: Partial<StrategyConfig["risk"]> = {}): StrategyConfig {
+  return {
+    symbols: ["BTCUSDT"],
+    timeframe: "1h",
+    strategy: {
+      name: "replay-test",
+      enabled: true,
+      ma: { short: 5, long: 10 },
+      rsi: { period: 14, oversold: 30, overbought: 70 },
+      macd: { enabled: false, fast: 12, slow: 26, signal: 9 },
+    },
+    signals: { buy: ["close > prev(close) * 1.005"], sell: [] },
+    risk: {
+      stop_loss_percent: 5,
+      take_profit_percent: 10,
+      trailing_stop: { enabled: false, activation_percent: 5, callback_percent: 2 },
+      max_total_loss_percent: 50,
+      position_ratio: 0.2,
+      max_positions: 4,
+      max_position_per_symbol: 0.5,
+      daily_loss_limit_percent: 50,
+      ...overrides,
+    },
+    execution: {
+      order_type: "market",
+      limit_order_offset_percent: 0.1,
+      min_order_usdt: 10,
+      limit_order_timeout_seconds: 300,
+    },
+    notify: {
+      on_signal: true,
+      on_trade: true,
+      on_stop_loss: true,
+      on_take_profit: true,
+      on_error: true,
+      on_daily_summary: true,
+      min_interval_minutes: 30,
+    },
+    news: { enabled: false, interval_hours: 4, price_alert_threshold: 5, fear_greed_alert: 15 },
+    schedule: {},
+    mode: "paper",
+  };
+}
+
+const entries = (trades: BacktestTrade[]): BacktestTrade[] => trades.filter((t) => t.side === "buy" || t.side === "short");
+const exits = (trades: BacktestTrade[]): BacktestTrade[] => trades.filter((t) => t.side === "sell" || t.side === "cover");
+
+// ─────────────────────────────────────────────────────
+// SimulatedClock / ReplayDataProvider
+// ─────────────────────────────────────────────────────
+
+describe("SimulatedClock", () => {
+  it("drives Date.now() and new Date() while installed, then restores the real Date", () => {
+    const RealDate = Date;
+    const clock = new SimulatedClock(BASE_TIME);
+    clock.install();
+    try {
+      expect(Date.now()).toBe(BASE_TIME);
+      clock.set(BASE_TIME + HOUR);
+      expect(new Date().getTime()).toBe(BASE_TIME + HOUR);
+      expect(new Date(0).toISOString()).toBe("1970-01-01T00:00:00.000Z");
+      expect(new Date(2024, 0, 2).getFullYear()).toBe(2024);
+      expect(new Date() instanceof RealDate).toBe(true);
+    } finally {
+      clock.uninstall();
+    }
+    expect(Date).toBe(RealDate);
+    expect(Math.abs(Date.now() - new RealDate().getTime())).toBeLessThan(5000);
+  });
+});
+
+describe("ReplayDataProvider", () => {
+  it("serves the last `limit` klines closed before the clock, never a network fetch", async () => {
+    const klines = makeKlines([1, 2, 3, 4, 5, 6]);
+    const clock = new SimulatedClock(BASE_TIME + 4 * HOUR);
+    const provider = new ReplayDataProvider(clock);
+    provider.load("BTCUSDT", "1h", klines);
+
+    expect(provider.get("BTCUSDT", "1h")).toBeUndefined();
+    await provider.refresh(["BTCUSDT", "ETHUSDT"], "1h", 3);
+    expect(provider.get("BTCUSDT", "1h")?.map((k) => k.close)).toEqual([2, 3, 4]);
+    expect(provider.get("ETHUSDT", "1h")).toBeUndefined();
+    expect(provider.isStale("BTCUSDT", "1h")).toBe(false);
+
+    clock.set(BASE_TIME + 6 * HOUR);
+    await provider.refresh(["BTCUSDT"], "1h", 100);
+    expect(provider.get("BTCUSDT", "1h")?.map((k) => k.close)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// runReplay
+// ─────────────────────────────────────────────────────
+
+describe("runReplay() - paper engine on a simulated clock", () => {
+  it("returns a BacktestResult and cleans up its scenario files", async () => {
+    const logsDir = path.resolve(__dirname, "../../logs");
+    const before = fs.existsSync(logsDir) ? fs.readdirSync(logsDir).filter((f) => f.startsWith("paper-replay-")) : [];
+
+    const result = await runReplay({ BTCUSDT: makeKlines(withEntry(Array.from({ length: 10 }, () => 101.5))) }, makeConfig());
+
+    expect(result.config.replay).toBe(true);
+    expect(result.config.strategy).toBe("replay-test");
+    expect(entries(result.trades)).toHaveLength(1);
+    const [exit] = exits(result.trades);
+    expect(exit?.exitReason).toBe("end_of_data");
+    expect(exit?.signalConditions).toEqual(["close > prev(close) * 1.005"]);
+    expect(result.metrics.totalTrades).toBe(1);
+    expect(result.perSymbol["BTCUSDT"]?.trades).toBe(1);
+    expect(result.metrics.equityCurve).toHaveLength(41);
+
+    const after = fs.existsSync(logsDir) ? fs.readdirSync(logsDir).filter((f) => f.startsWith("paper-replay-")) : [];
+    expect(after).toEqual(before);
+    expect(Math.abs(Date.now() - new Date().getTime())).toBeLessThan(5000);
+  });
+
+  it("ROI table exits on simulated hold time", async () => {
+    const klines = makeKlines(withEntry(Array.from({ length: 10 }, () => 101.5)));
+    const result = await runReplay({ BTCUSDT: klines }, makeConfig({ minimal_roi: { "0": 0.5, "180": 0.001 } }));
+
+    const [exit] = exits(result.trades);
+    expect(exit?.exitReason).toBe("take_profit");
+    expect((exit?.exitTime ?? 0) - (exit?.entryTime ?? 0)).toBe(3 * HOUR);
+  });
+
+  it("break-even moves the stop once the profit threshold is reached", async () => {
+    // +3% then back to entry: the original 5% stop would hold, the break-even stop closes the trade
+    const tail = [104.5, 104.5, 100.9, 100.9, 100.9];
+    const klines = makeKlines(withEntry(tail));
+    const plain = await runReplay({ BTCUSDT: klines }, makeConfig());
+    const be = await runReplay({ BTCUSDT: klines }, makeConfig({ break_even_profit: 0.03, break_even_stop: 0.001 }));
+
+    expect(exits(plain.trades)[0]?.exitReason).toBe("end_of_data");
+    expect(exits(be.trades)[0]?.exitReason).toBe("stop_loss");
+    expect(exits(be.trades)[0]?.exitTime).toBe(BASE_TIME + 34 * HOUR);
+  });
+
+  it("DCA tranches add to the position as price drops", async () => {
+    const klines = makeKlines(withEntry([99.9, 98.9, 97.5, 96.8, 96.8, 100, 100]));
+    const result = await runReplay(
+      { BTCUSDT: klines },
+      makeConfig({ dca: { enabled: true, tranches: 3, drop_pct: 2, max_hours: 48 } })
+    );
+
+    const buys = entries(result.trades);
+    expect(buys).toHaveLength(3);
+    const [exit] = exits(result.trades);
+    expect(exit?.quantity).toBeCloseTo(buys.reduce((s, t) => s + t.quantity, 0), 9);
+    expect(exit?.cost).toBeCloseTo(buys.reduce((s, t) => s + t.cost, 0), 6);
+  });
+
+  it("cooldown protection blocks re-entry after a stop loss, counted in candles", async () => {
+    // Entry at 101, stop loss at 98, then a fresh +1% signal every bar
+    const tail = [98, 99, 100, 101, 102, 103, 104, 105, 106];
+    const klines = makeKlines(withEntry(tail));
+    const base = makeConfig({ stop_loss_percent: 2 });
+    const free = await runReplay({ BTCUSDT: klines }, base);
+    const guarded = await runReplay({ BTCUSDT: klines }, {
+      ...base,
+      protections: { cooldown: { enabled: true, stop_duration_candles: 3 } },
+    });
+
+    const stopAt = exits(free.trades).find((t) => t.exitReason === "stop_loss")?.exitTime ?? 0;
+    expect(stopAt).toBeGreaterThan(0);
+    const reentry = (trades: BacktestTrade[]): number => entries(trades).find((t) => t.entryTime > stopAt)?.entryTime ?? 0;
+    expect(reentry(free.trades)).toBe(stopAt + HOUR);
+    expect(reentry(guarded.trades)).toBeGreaterThan(stopAt + 3 * HOUR);
+  });
+
+  it("agrees with runBacktest on entries and exit reasons for a plain close-only strategy", async () => {
+    const closes = withEntry([101.5, 99, 96, 95.5, 97, 99, 100.8, 102, 103]);
+    const cfg = makeConfig({ stop_loss_percent: 4 });
+    const klines = makeKlines(closes);
+    const replay = await runReplay({ BTCUSDT: klines }, cfg);
+    const engine = runBacktest({ BTCUSDT: klines }, cfg, { intracandle: false });
+
+    const summary = (trades: BacktestTrade[]): [string, number][] => exits(trades).map((t) => [t.exitReason, t.entryPrice]);
+    const r = summary(replay.trades);
+    const e = summary(engine.trades);
+    expect(r.map((t) => t[0])).toEqual(e.map((t) => t[0]));
+    r.forEach((t, i) => { expect(t[1]).toBeCloseTo(e[i]?.[1] ?? NaN, 6); });
+    // The paper engine fills a stop at the candle close, the backtest engine at the stop level
+    const stop = exits(replay.trades).find((t) => t.exitReason === "stop_loss");
+    expect(stop?.exitPrice).toBeCloseTo(96 * (1 - 0.0005), 6);
+  });
+});
+
+describe("parseBacktestArgs() --replay", () => {
+  it("sets replay and rejects engine-only flags", () => {
+    expect(parseBacktestArgs(["--replay"]).replay).toBe(true);
+    expect(parseBacktestArgs([]).replay).toBe(false);
+    expect(() => parseBacktestArgs(["--replay", "--next-open"])).toThrow("--replay cannot be combined");
+  });
+});
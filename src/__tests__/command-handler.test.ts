@@ -15,6 +15,26 @@ vi.mock("../paper/account.js", () => ({
   saveAccount: vi.fn(),
   paperSell: vi.fn(),
   paperCoverShort: vi.fn(),
+  paperBuy: vi.fn(),
+  paperOpenShort: vi.fn(),
+}));
+
+vi.mock("../config/loader.js", () => ({
+  loadStrategyConfig: vi.fn(),
+  loadPaperConfig: vi.fn(),
+  loadRuntimeConfigs: vi.fn(),
+  loadEnabledPaperRuntimes: vi.fn(),
+}));
+
+vi.mock("../health/kill-switch.js", () => ({
+  activateKillSwitch: vi.fn(),
+  deactivateKillSwitch: vi.fn(),
+  readKillSwitch: vi.fn(() => ({ active: false, reason: "", triggeredAt: 0 })),
+}));
+
+vi.mock("../paper/scenario-state.js", () => ({
+  loadScenarioState: vi.fn(() => ({ lastSignals: {}, lastReportAt: 0, paused: false })),
+  setScenarioPaused: vi.fn(),
 }));
 
 import {
@@ -26,6 +46,14 @@ import {
   handlePositions,
   handleStatus,
   handleForceSell,
+  handlePerformance,
+  handleDaily,
+  handlePause,
+  handleKillSwitch,
+  handleStopLoss,
+  handleOpen,
+  needsConfirmation,
+  previewCommand,
   _setPriceFetcher,
   _resetPriceFetcher,
 } from "../telegram/command-handler.js";
@@ -35,13 +63,19 @@ import {
   saveAccount,
   paperSell,
   paperCoverShort,
+  paperBuy,
 } from "../paper/account.js";
+import { loadPaperConfig, loadEnabledPaperRuntimes } from "../config/loader.js";
+import { activateKillSwitch, readKillSwitch } from "../health/kill-switch.js";
+import { setScenarioPaused } from "../paper/scenario-state.js";
+import type { PaperFileConfig, RuntimeConfig } from "../types.js";
 
 // -- Typed mocks --
 const mockLoadAccount = vi.mocked(loadAccount);
 const mockSaveAccount = vi.mocked(saveAccount);
 const mockPaperSell = vi.mocked(paperSell);
 const mockPaperCoverShort = vi.mocked(paperCoverShort);
+const mockPaperBuy = vi.mocked(paperBuy);
 
 // -- Test helper: build mock account --
 
@@ -692,3 +726,136 @@ describe("Boundary and format tests", () => {
     expect(result).toContain("No data available");
   });
 });
+
+// ===============================================
+// Read commands: /performance /daily
+// ===============================================
+
+describe("handlePerformance() / handleDaily()", () => {
+  function closed(symbol: string, pnl: number, timestamp = Date.now()): PaperAccount["trades"][number] {
+    return { id: `T${pnl}`, symbol, side: "sell", quantity: 1, price: 100, usdtAmount: 100, fee: 0, slippage: 0, timestamp, reason: "tp", pnl, pnlPercent: pnl / 100 };
+  }
+
+  beforeEach(() => {
+    vi.mocked(fs.readdirSync).mockReturnValue(["paper-a.json"] as unknown as ReturnType<typeof fs.readdirSync>);
+    mockLoadAccount.mockReturnValue(makeAccount({
+      trades: [closed("BTCUSDT", 10), closed("BTCUSDT", -4), closed("ETHUSDT", 20, Date.now() - 2 * 86_400_000)],
+    }));
+  });
+
+  it("ranks symbols by realized PnL", () => {
+    const result = handlePerformance([], MOCK_LOGS_DIR);
+    expect(result.indexOf("ETHUSDT")).toBeLessThan(result.indexOf("BTCUSDT"));
+    expect(result).toContain("BTCUSDT：+$6.00 | 2 trades | Win 50%");
+    expect(result).toContain("Total: +$26.00");
+  });
+
+  it("tabulates realized PnL per UTC day", () => {
+    const result = handleDaily(["3"], MOCK_LOGS_DIR);
+    const today = new Date().toISOString().slice(0, 10);
+    expect(result).toContain("last 3 days");
+    expect(result).toMatch(new RegExp(`${today}\\s+2\\s+\\+\\$6\\.00`));
+    expect(result).toContain("Total: +$26.00");
+    expect(handleDaily(["zero"], MOCK_LOGS_DIR)).toContain("❌");
+  });
+});
+
+// ===============================================
+// Control commands: /pause /killswitch
+// ===============================================
+
+describe("control commands", () => {
+  it("pauses known scenarios only", () => {
+    vi.mocked(loadPaperConfig).mockReturnValue({ scenarios: [{ id: "default" }] } as unknown as PaperFileConfig);
+    expect(handlePause(["default"], true)).toContain("Scenario Paused");
+    expect(vi.mocked(setScenarioPaused)).toHaveBeenCalledWith("default", true);
+    expect(handlePause(["nope"], false)).toContain("Unknown scenario");
+    expect(handlePause([], false)).toContain("Usage");
+  });
+
+  it("toggles the kill switch with a reason", () => {
+    vi.mocked(readKillSwitch).mockReturnValue({ active: true, reason: "news", triggeredAt: 0 });
+    expect(handleKillSwitch(["on", "news"])).toContain("Reason: news");
+    expect(vi.mocked(activateKillSwitch)).toHaveBeenCalledWith("news");
+    expect(handleKillSwitch(["maybe"])).toContain("Usage");
+  });
+});
+
+// ===============================================
+// Trade commands: /stoploss /buy + previews
+// ===============================================
+
+describe("trade commands", () => {
+  const runtime = {
+    symbols: ["BTCUSDT"],
+    risk: { stop_loss_percent: 5, take_profit_percent: 10 },
+    execution: { min_order_usdt: 10 },
+    exchange: { market: "spot" },
+    paper: { scenarioId: "default", initial_usdt: 1000, fee_rate: 0.001, slippage_percent: 0.05, report_interval_hours: 0 },
+  } as unknown as RuntimeConfig;
+
+  beforeEach(() => {
+    vi.mocked(fs.readdirSync).mockReturnValue(["paper-default.json"] as unknown as ReturnType<typeof fs.readdirSync>);
+    vi.mocked(loadEnabledPaperRuntimes).mockReturnValue([runtime]);
+    _setPriceFetcher(() => Promise.resolve(51000));
+  });
+
+  it("marks only position-changing commands for confirmation", () => {
+    expect(needsConfirmation({ command: "/buy", args: [], rawText: "/buy" })).toBe(true);
+    expect(needsConfirmation({ command: "/forcesell", args: [], rawText: "/forcesell" })).toBe(true);
+    expect(needsConfirmation({ command: "/killswitch", args: [], rawText: "/killswitch" })).toBe(false);
+    expect(parseCommand("/daily@TraderBot 3")).toMatchObject({ command: "/daily", args: ["3"] });
+  });
+
+  it("moves a long's stop-loss only below the market", async () => {
+    const account = makeAccount({ positions: { BTCUSDT: makeLongPosition("BTCUSDT") } });
+    mockLoadAccount.mockReturnValue(account);
+
+    expect(await handleStopLoss(["BTCUSDT", "52000"], MOCK_LOGS_DIR)).toContain("must be below");
+    expect(mockSaveAccount).not.toHaveBeenCalled();
+
+    const result = await handleStopLoss(["btcusdt", "49000"], MOCK_LOGS_DIR);
+    expect(result).toContain("$47500.0000 → $49000.0000");
+    expect(account.positions["BTCUSDT"]?.stopLoss).toBe(49000);
+    expect(mockSaveAccount).toHaveBeenCalledWith(account, "default");
+  });
+
+  it("previews an entry without trading, then opens it with the scenario's risk settings", async () => {
+    mockLoadAccount.mockReturnValue(makeAccount());
+    const cmd = parseCommand("/buy ETHUSDT 200");
+    expect(cmd).not.toBeNull();
+
+    const preview = await previewCommand(cmd!, MOCK_LOGS_DIR);
+    expect(preview.ok).toBe(true);
+    expect(preview.text).toContain("Confirm Long Entry");
+    expect(mockPaperBuy).not.toHaveBeenCalled();
+
+    mockPaperBuy.mockImplementation((account, symbol) => {
+      account.positions[symbol] = makeLongPosition(symbol, { stopLoss: 48450, takeProfit: 56100 });
+      return { id: "B1", symbol, side: "buy", quantity: 0.004, price: 51000, usdtAmount: 200, fee: 0.2, slippage: 0, timestamp: 0, reason: "telegram_buy" };
+    });
+    const result = await handleOpen(["ETHUSDT", "200"], "long");
+    expect(result).toContain("Long Opened");
+    expect(mockPaperBuy).toHaveBeenCalledWith(expect.anything(), "ETHUSDT", 51000, "telegram_buy", expect.objectContaining({
+      overridePositionUsdt: 200, stopLossPercent: 5, takeProfitPercent: 10,
+    }));
+  });
+
+  it("refuses entries that cannot be filled", async () => {
+    mockLoadAccount.mockReturnValue(makeAccount({ usdt: 100 }));
+    expect((await previewCommand(parseCommand("/buy ETHUSDT 200")!, MOCK_LOGS_DIR)).text).toContain("exceeds the free balance");
+    expect(await handleOpen(["ETHUSDT", "50"], "short")).toContain("spot market");
+    expect(await handleOpen(["ETHUSDT"], "long")).toContain("Usage");
+
+    vi.mocked(readKillSwitch).mockReturnValueOnce({ active: true, reason: "crash", triggeredAt: 0 });
+    expect(await handleOpen(["ETHUSDT", "50"], "long")).toContain("Kill Switch is on");
+  });
+
+  it("previews a force close with its estimated PnL", async () => {
+    mockLoadAccount.mockReturnValue(makeAccount({ positions: { BTCUSDT: makeLongPosition("BTCUSDT") } }));
+    const preview = await previewCommand(parseCommand("/forcesell BTCUSDT")!, MOCK_LOGS_DIR);
+    expect(preview).toMatchObject({ ok: true });
+    expect(preview.text).toContain("≈ +$500.00");
+    expect((await previewCommand(parseCommand("/forcesell SOLUSDT")!, MOCK_LOGS_DIR)).ok).toBe(false);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Config hot-reload: per-scenario diff of running vs reloaded runtimes, apply / refuse / reject
+ * decisions, the config/ watcher, and live resubscription of the kline WebSocket
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ConfigHotReloader, diffRuntimes, formatChange } from "../config/hot-reload.js";
+import type { HotReloadOptions } from "../config/hot-reload.js";
+import { BinanceWsManager } from "../exchange/ws.js";
+import type { Logger } from "../logger.js";
+import type { RuntimeConfig } from "../types.js";
+
+// ─────────────────────────────────────────────────────
+// Fixtures
+// ─────────────────────────────────────────────────────
+
+function makeCfg(scenarioId: string, symbols = ["BTCUSDT", "ETHUSDT"]): RuntimeConfig {
+  return {
+    symbols,
+    timeframe: "1h",
+    strategy: {
+      name: "test",
+      enabled: true,
+      ma: { short: 5, long: 10 },
+      rsi: { period: 14, oversold: 30, overbought: 70 },
+      macd: { enabled: false, fast: 12, slow: 26, signal: 9 },
+    },
+    signals: { buy: ["ma_bullish"], sell: ["ma_bearish"] },
+    risk: {
+      stop_loss_percent: 5,
+      take_profit_percent: 15,
+      trailing_stop: { enabled: false, activation_percent: 5, callback_percent: 2 },
+      position_ratio: 0.2,
+      max_positions: 4,
+      max_position_per_symbol: 0.5,
+      max_total_loss_percent: 20,
+      daily_loss_limit_percent: 8,
+    },
+    execution: { order_type: "market", limit_order_offset_percent: 0.1, min_order_usdt: 10, limit_order_timeout_seconds: 300 },
+    notify: {
+      on_signal: true,
+      on_trade: true,
+      on_stop_loss: true,
+      on_take_profit: true,
+      on_error: true,
+      on_daily_summary: false,
+      min_interval_minutes: 60,
+    },
+    news: { enabled: false, interval_hours: 24, price_alert_threshold: 5, fear_greed_alert: 20 },
+    mode: "paper",
+    exchange: { market: "spot" },
+    paper: { scenarioId, initial_usdt: 1000, fee_rate: 0.001, slippage_percent: 0.05, report_interval_hours: 24 },
+  };
+}
+
+const warn = vi.fn();
+const silentLog: Logger = { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() };
+
+function reloader(running: RuntimeConfig[], next: () => RuntimeConfig[], extra: Partial<HotReloadOptions> = {}) {
+  const apply = vi.fn();
+  const notify = vi.fn();
+  const r = new ConfigHotReloader(running, { name: "test-monitor", load: next, apply, notify, validate: () => [], log: silentLog, ...extra });
+  return { r, apply, notify };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// ─────────────────────────────────────────────────────
+// Diff
+// ─────────────────────────────────────────────────────
+
+describe("diffRuntimes()", () => {
+  it("treats risk, signals, notify and symbols as hot-reloadable", () => {
+    const next = makeCfg("a", ["BTCUSDT", "SOLUSDT"]);
+    next.risk.stop_loss_percent = 4;
+    next.signals.buy = ["ma_bullish", "rsi_oversold"];
+    next.notify.on_trade = false;
+
+    const diff = diffRuntimes([makeCfg("a")], [next]);
+    expect(diff.unsafe).toEqual([]);
+    expect(diff.safe.map(formatChange)).toEqual([
+      "[a] symbols: +SOLUSDT −ETHUSDT",
+      '[a] signals.buy: ["ma_bullish"] → ["ma_bullish","rsi_oversold"]',
+      "[a] risk.stop_loss_percent: 5 → 4",
+      "[a] notify.on_trade: true → false",
+    ]);
+  });
+
+  it("flags timeframe, indicator periods, market and new keys outside those sections as restart-only", () => {
+    const next = makeCfg("a");
+    next.timeframe = "4h";
+    next.strategy.ma.long = 20;
+    next.exchange = { market: "futures" };
+    next.risk.position_ratio = 0.1;
+
+    const diff = diffRuntimes([makeCfg("a")], [next]);
+    expect(diff.safe.map((c) => c.path)).toEqual(["risk.position_ratio"]);
+    expect(diff.unsafe.map(formatChange)).toEqual([
+      '[a] timeframe: "1h" → "4h"',
+      "[a] strategy.ma.long: 10 → 20",
+      '[a] exchange.market: "spot" → "futures"',
+    ]);
+  });
+
+  it("reports scenarios added or removed as restart-only", () => {
+    const diff = diffRuntimes([makeCfg("a"), makeCfg("b")], [makeCfg("a"), makeCfg("c")]);
+    expect(diff.safe).toEqual([]);
+    expect(diff.unsafe.map(formatChange)).toEqual(["[b] scenario removed", "[c] scenario added"]);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Reloader
+// ─────────────────────────────────────────────────────
+
+describe("ConfigHotReloader.reload()", () => {
+  it("applies safe changes, swaps the runtimes and notifies the change list", async () => {
+    const next = makeCfg("a");
+    next.risk.stop_loss_percent = 3;
+    const { r, apply, notify } = reloader([makeCfg("a")], () => [next]);
+
+    const result = await r.reload();
+    expect(result.status).toBe("applied");
+    expect(apply).toHaveBeenCalledWith([next], expect.objectContaining({ unsafe: [] }));
+    expect(r.runtimes).toEqual([next]);
+    expect(notify).toHaveBeenCalledWith("test-monitor", ["[a] risk.stop_loss_percent: 5 → 3"]);
+  });
+
+  it("refuses the whole reload when any change needs a restart", async () => {
+    const running = [makeCfg("a")];
+    const next = makeCfg("a");
+    next.risk.stop_loss_percent = 3;
+    next.timeframe = "15m";
+    const { r, apply, notify } = reloader(running, () => [next]);
+
+    const result = await r.reload();
+    expect(result.status).toBe("refused");
+    expect(apply).not.toHaveBeenCalled();
+    expect(notify).not.toHaveBeenCalled();
+    expect(r.runtimes).toBe(running);
+    expect(warn.mock.calls.at(-1)?.[0]).toContain('[a] timeframe: "1h" → "15m"');
+  });
+
+  it("keeps the running config when validation, loading or apply fails", async () => {
+    const running = [makeCfg("a")];
+    const changed = makeCfg("a", ["BTCUSDT"]);
+
+    const invalid = reloader(running, () => [changed], {
+      validate: () => [{ file: "config/strategy.yaml", path: "risk.stop_loss_pct", line: 7, message: "unknown key" }],
+    });
+    const rejected = await invalid.r.reload();
+    expect(rejected).toMatchObject({ status: "invalid" });
+    expect(rejected.status === "invalid" && rejected.message).toContain("config/strategy.yaml:7 risk.stop_loss_pct: unknown key");
+    expect(invalid.apply).not.toHaveBeenCalled();
+
+    const failing = reloader(running, () => [changed], { apply: () => Promise.reject(new Error("preload failed")) });
+    expect(await failing.r.reload()).toEqual({ status: "failed", message: "preload failed" });
+    expect(failing.r.runtimes).toBe(running);
+    expect(failing.notify).not.toHaveBeenCalled();
+  });
+
+  it("does nothing when the effective config is unchanged", async () => {
+    const { r, apply, notify } = reloader([makeCfg("a")], () => [makeCfg("a")]);
+    expect(await r.reload()).toEqual({ status: "unchanged" });
+    expect(apply).not.toHaveBeenCalled();
+    expect(notify).not.toHaveBeenCalled();
+  });
+});
+
+describe("ConfigHotReloader.watch()", () => {
+  it("reloads once after a burst of YAML writes and ignores other files", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hot-reload-"));
+    const load = vi.fn(() => [makeCfg("a")]);
+    const { r } = reloader([makeCfg("a")], load);
+    try {
+      r.watch(dir, 50);
+      fs.writeFileSync(path.join(dir, "notes.txt"), "x");
+      fs.writeFileSync(path.join(dir, "strategy.yaml"), "a: 1\n");
+      fs.writeFileSync(path.join(dir, "strategy.yaml"), "a: 2\n");
+      await vi.waitFor(() => { expect(load).toHaveBeenCalled(); }, { timeout: 2000 });
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      expect(load).toHaveBeenCalledOnce();
+    } finally {
+      r.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// WebSocket resubscription
+// ─────────────────────────────────────────────────────
+
+class FakeWebSocket {
+  static readonly OPEN = 1;
+  static last: FakeWebSocket | undefined;
+  readyState = 0;
+  readonly sent: unknown[] = [];
+  private readonly listeners = new Map<string, (event: unknown) => void>();
+
+  constructor(readonly url: string) {
+    FakeWebSocket.last = this;
+  }
+
+  addEventListener(type: string, fn: (event: unknown) => void): void {
+    this.listeners.set(type, fn);
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.readyState = 3;
+  }
+
+  open(): void {
+    this.readyState = FakeWebSocket.OPEN;
+    this.listeners.get("open")?.({});
+  }
+}
+
+describe("BinanceWsManager.updateSymbols()", () => {
+  it("subscribes and unsubscribes streams on the open connection", () => {
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    const mgr = new BinanceWsManager(["BTCUSDT", "ETHUSDT"], "1h", () => undefined);
+    mgr.start();
+    const ws = FakeWebSocket.last;
+    ws?.open();
+
+    mgr.updateSymbols(["BTCUSDT", "SOLUSDT"]);
+    expect(ws?.sent).toEqual([
+      { method: "SUBSCRIBE", params: ["solusdt@kline_1h"], id: 1 },
+      { method: "UNSUBSCRIBE", params: ["ethusdt@kline_1h"], id: 2 },
+    ]);
+    expect(mgr.subscribedSymbols).toEqual(["BTCUSDT", "SOLUSDT"]);
+    mgr.stop();
+  });
+
+  it("only records the list while disconnected, so the next connect uses it", () => {
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    const mgr = new BinanceWsManager(["BTCUSDT"], "1h", () => undefined);
+    mgr.updateSymbols(["BTCUSDT", "SOLUSDT"]);
+    mgr.start();
+    expect(FakeWebSocket.last?.url).toBe("wss://stream.binance.com:9443/stream?streams=btcusdt@kline_1h/solusdt@kline_1h");
+    expect(FakeWebSocket.last?.sent).toEqual([]);
+    mgr.stop();
+  });
+});
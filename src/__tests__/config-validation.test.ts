@@ -0,0 +1,232 @@
+/**
+ * Config schema validation: unknown keys, types / ranges, cross-field rules and
+ * file:line reporting for strategy.yaml, strategy profiles, paper.yaml and live.yaml
+ */
+
+import fs from "fs";
+import path from "path";
+import { describe, it, expect } from "vitest";
+import { validateAllConfig } from "../config/loader.js";
+import { ConfigValidationError, closestKey, formatIssue, parseYamlSource } from "../config/schema.js";
+import type { ConfigIssue } from "../config/schema.js";
+import {
+  validateLiveConfig,
+  validateLiveShortMarket,
+  validatePaperConfig,
+  validatePaperShortMarkets,
+  validateStrategyConfig,
+  validateStrategyProfile,
+} from "../config/validate.js";
+import type { StrategyConfig, StrategyProfile } from "../types.js";
+
+const CONFIG_DIR = path.resolve(import.meta.dirname, "../../config");
+const STRATEGY_YAML = fs.readFileSync(path.join(CONFIG_DIR, "strategy.yaml"), "utf-8");
+
+/** The shipped strategy.yaml with one line replaced; returns the issues and that line's number */
+function strategyWith(from: string, to: string): { issues: ConfigIssue[]; line: number } {
+  expect(STRATEGY_YAML).toContain(from);
+  const text = STRATEGY_YAML.replace(from, to);
+  const line = text.slice(0, text.indexOf(to)).split("\n").length;
+  return { issues: validateStrategyConfig(parseYamlSource(text, "config/strategy.yaml")), line };
+}
+
+function profile(text: string): ConfigIssue[] {
+  return validateStrategyProfile(parseYamlSource(text, "config/strategies/x.yaml"));
+}
+
+const MINIMAL_PROFILE = `name: test
+strategy:
+  ma: { short: 10, long: 30 }
+`;
+
+// ─────────────────────────────────────────────────────
+// Shipped configs
+// ─────────────────────────────────────────────────────
+
+describe("validateAllConfig()", () => {
+  it("accepts every shipped config file", () => {
+    expect(validateAllConfig().map(formatIssue)).toEqual([]);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// strategy.yaml
+// ─────────────────────────────────────────────────────
+
+describe("validateStrategyConfig()", () => {
+  it("rejects an unknown key with a suggestion and its line", () => {
+    const { issues, line } = strategyWith("  stop_loss_percent: 5\n", "  stop_loss_pct: 5\n");
+    expect(issues.map(formatIssue)).toEqual([
+      `config/strategy.yaml:${line} risk.stop_loss_pct: unknown key (did you mean "stop_loss_percent"?)`,
+    ]);
+  });
+
+  it("checks types, enums and ranges", () => {
+    expect(strategyWith("  position_ratio: 0.2", "  position_ratio: 2").issues[0]?.message).toBe("must be ≤ 1, got 2");
+    expect(strategyWith("  max_positions: 4", "  max_positions: 2.5").issues[0]?.message).toBe("must be an integer, got 2.5");
+    expect(strategyWith('timeframe: "1h"', 'timeframe: "2h"').issues[0]?.message).toMatch(/^must be one of "1m", "5m"/);
+    expect(strategyWith("  on_trade: true", '  on_trade: "yes"').issues[0]).toMatchObject({
+      path: "notify.on_trade",
+      message: 'expected true or false, got string "yes"',
+    });
+  });
+
+  it("requires ma.short < ma.long", () => {
+    const { issues } = strategyWith("    short: 20\n    long: 60", "    short: 60\n    long: 20");
+    expect(issues).toEqual([expect.objectContaining({ path: "strategy.ma", message: "short (60) must be less than long (20)" })]);
+  });
+
+  it("reports every unknown signal condition at its list item", () => {
+    const { issues, line } = strategyWith("    - macd_bullish ", "    - macd_bulish ");
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ path: "signals.buy[1]", line });
+    expect(issues[0]?.message).toContain('"macd_bulish"');
+  });
+
+  it("limits take_profit_stages close ratios to a total of 1", () => {
+    const { issues } = strategyWith(
+      "  daily_loss_limit_percent: 8\n",
+      "  daily_loss_limit_percent: 8\n  take_profit_stages:\n    - { at_percent: 5, close_ratio: 0.6 }\n    - { at_percent: 10, close_ratio: 0.5 }\n"
+    );
+    expect(issues).toEqual([expect.objectContaining({ path: "risk.take_profit_stages", message: "close_ratio values sum to 1.1, must be ≤ 1" })]);
+  });
+
+  it("checks regime overrides as partial risk sections", () => {
+    const { issues } = strategyWith(
+      'mode: "paper"',
+      'mode: "paper"\nregime_overrides:\n  reduced_size:\n    stop_loss_percent: 2\n    take_profit_pct: 4'
+    );
+    expect(issues.map((i) => `${i.path}: ${i.message}`)).toEqual([
+      'regime_overrides.reduced_size.take_profit_pct: unknown key (did you mean "take_profit_percent"?)',
+    ]);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Strategy profiles
+// ─────────────────────────────────────────────────────
+
+describe("validateStrategyProfile()", () => {
+  it("accepts a partial profile", () => {
+    expect(profile(MINIMAL_PROFILE)).toEqual([]);
+  });
+
+  it("requires a registered strategy plugin", () => {
+    const issues = profile(`${MINIMAL_PROFILE}strategy_id: rsi-reversl\n`);
+    expect(issues[0]).toMatchObject({ path: "strategy_id", line: 4 });
+    expect(issues[0]?.message).toMatch(/^unknown strategy plugin "rsi-reversl" \(registered: .*rsi-reversal/);
+  });
+
+  it("checks ensemble members and pair legs", () => {
+    const issues = profile(`${MINIMAL_PROFILE}ensemble:
+  strategies:
+    - { id: breakout, weight: 0.5 }
+    - { id: ensemble, weight: 0.5 }
+pairs:
+  legs: [ETHUSDT]
+`);
+    expect(issues.map((i) => `${i.path}: ${i.message}`)).toEqual([
+      "ensemble.strategies[1].id: an ensemble cannot contain itself",
+      "pairs.legs: needs at least 2 item(s), got 1",
+    ]);
+  });
+
+  it("rejects strategy.yaml-only sections in a profile", () => {
+    expect(profile(`${MINIMAL_PROFILE}mode: paper\n`)).toEqual([
+      { file: "config/strategies/x.yaml", path: "mode", line: 4, message: "unknown key" },
+    ]);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// paper.yaml / live.yaml
+// ─────────────────────────────────────────────────────
+
+const BASE = { signals: { buy: ["ma_bullish"], sell: ["ma_bearish"] } } as StrategyConfig;
+
+function paperYaml(scenarios: string): string {
+  return `report_interval_hours: 24\nscenarios:\n${scenarios}`;
+}
+
+function scenario(id: string, strategyId: string, market: string): string {
+  return `  - id: ${id}
+    name: ${id}
+    enabled: true
+    strategy_id: ${strategyId}
+    initial_usdt: 1000
+    fee_rate: 0.001
+    slippage_percent: 0.05
+    exchange:
+      market: ${market}
+`;
+}
+
+describe("validatePaperConfig()", () => {
+  it("requires existing profiles and unique scenario ids", () => {
+    const source = parseYamlSource(paperYaml(scenario("a", "trend", "spot") + scenario("a", "nope", "spot")), "config/paper.yaml");
+    expect(validatePaperConfig(source, ["trend"]).map(formatIssue)).toEqual([
+      "config/paper.yaml:15 scenarios[1].strategy_id: no strategy profile config/strategies/nope.yaml (available: trend)",
+      'config/paper.yaml:12 scenarios[1].id: duplicate scenario id "a"',
+    ]);
+  });
+
+  it("allows short conditions only on futures / margin scenarios", () => {
+    const source = parseYamlSource(paperYaml(scenario("s", "short", "spot") + scenario("f", "short", "futures")), "config/paper.yaml");
+    const profiles = new Map<string, StrategyProfile>([
+      ["short", { name: "short", signals: { buy: [], sell: [], short: ["ma_bearish"] } }],
+    ]);
+    expect(validatePaperShortMarkets(source, BASE, profiles).map(formatIssue)).toEqual([
+      'config/paper.yaml:11 scenarios[0].exchange.market: short/cover conditions (from config/strategies/short.yaml) need a futures or margin market, got "spot"',
+    ]);
+  });
+
+  it("lets a profile's empty short list override strategy.yaml's", () => {
+    const source = parseYamlSource(paperYaml(scenario("s", "long", "spot")), "config/paper.yaml");
+    const base = { signals: { ...BASE.signals, short: ["ma_bearish"] } } as StrategyConfig;
+    const profiles = new Map<string, StrategyProfile>([["long", { name: "long", signals: { short: [] } }]]);
+    expect(validatePaperShortMarkets(source, base, profiles)).toEqual([]);
+  });
+});
+
+describe("validateLiveConfig()", () => {
+  const live = (market: string) => parseYamlSource(`exchange:
+  name: binance
+  credentials_path: .secrets/binance.json
+  market: ${market}
+`, "config/live.yaml");
+
+  it("requires the exchange name and credentials", () => {
+    const source = parseYamlSource("exchange:\n  market: spot\n", "config/live.yaml");
+    expect(validateLiveConfig(source).map((i) => i.path)).toEqual(["exchange.name", "exchange.credentials_path"]);
+    expect(validateLiveConfig(live("spot"))).toEqual([]);
+  });
+
+  it("refuses strategy.yaml short conditions on a spot market", () => {
+    const base = { signals: { ...BASE.signals, short: ["ma_bearish"] } } as StrategyConfig;
+    expect(validateLiveShortMarket(live("spot"), base)[0]).toMatchObject({ path: "exchange.market", line: 4 });
+    expect(validateLiveShortMarket(live("futures"), base)).toEqual([]);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Schema primitives
+// ─────────────────────────────────────────────────────
+
+describe("schema primitives", () => {
+  it("raises YAML syntax errors as a ConfigValidationError with the line", () => {
+    let err: unknown;
+    try {
+      parseYamlSource("risk:\n  a: 1\n b: 2\n", "config/strategy.yaml");
+    } catch (e: unknown) {
+      err = e;
+    }
+    expect(err).toBeInstanceOf(ConfigValidationError);
+    expect((err as ConfigValidationError).issues[0]).toMatchObject({ file: "config/strategy.yaml", line: 3 });
+    expect((err as Error).message).toMatch(/^Invalid configuration \(1 issue\):\n {2}config\/strategy\.yaml:3: YAML syntax error: All mapping items must start at the same column$/);
+  });
+
+  it("suggests only close keys", () => {
+    expect(closestKey("stop_loss_pct", ["stop_loss_percent", "take_profit_percent"])).toBe("stop_loss_percent");
+    expect(closestKey("leverage", ["stop_loss_percent", "take_profit_percent"])).toBeUndefined();
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  simulateCounterfactual,
+  summarizeFilterImpact,
+  formatFilterImpactReport,
+} from "../analysis/counterfactual.js";
+import {
+  logRejectedSignal,
+  logSignal,
+  getRejectedSignals,
+  recordCounterfactuals,
+  getSignalStats,
+  redirectSignalHistory,
+} from "../strategy/signal-history.js";
+import type { RejectionFilter, SignalRecord } from "../strategy/signal-history.js";
+import type { Kline } from "../types.js";
+
+// ─────────────────────────────────────────────────────
+// Test helpers
+// ─────────────────────────────────────────────────────
+
+const HOUR = 3600_000;
+const T0 = Date.UTC(2024, 0, 1);
+
+function makeRejected(overrides: Partial<SignalRecord> & { filter?: RejectionFilter; pnl?: number } = {}): SignalRecord {
+  const { filter = "mtf", pnl, ...rest } = overrides;
+  return {
+    id: `sig_${Math.random().toString(36).slice(2)}`,
+    symbol: "BTCUSDT",
+    type: "buy",
+    entryPrice: 100,
+    entryTime: T0,
+    entryConditions: { triggeredRules: ["ma_bullish"] },
+    status: "rejected",
+    source: "paper",
+    rejection: {
+      filter,
+      reason: "test",
+      inputs: {},
+      stopLossPercent: 2,
+      takeProfitPercent: 4,
+      timeframe: "1h",
+      ...(pnl !== undefined && {
+        counterfactual: { exitPrice: 100 * (1 + pnl), exitTime: T0 + HOUR, exitReason: "time_stop", pnlPercent: pnl, holdingHours: 1 },
+      }),
+    },
+    ...rest,
+  };
+}
+
+/** One hourly bar per [low, high, close] starting at `start` */
+function bars(start: number, ohlc: [number, number, number][]): Kline[] {
+  return ohlc.map(([low, high, close], i) => ({
+    openTime: start + i * HOUR,
+    open: close,
+    high,
+    low,
+    close,
+    volume: 1,
+    closeTime: start + (i + 1) * HOUR - 1,
+  }));
+}
+
+// ─────────────────────────────────────────────────────
+// simulateCounterfactual()
+// ─────────────────────────────────────────────────────
+
+describe("simulateCounterfactual()", () => {
+  it("long hits take-profit / stop-loss at the configured levels", () => {
+    const rec = makeRejected();
+    const tp = simulateCounterfactual(rec, bars(T0, [[99, 101, 100], [100, 104.5, 104]]));
+    expect(tp).toMatchObject({ exitReason: "take_profit", exitPrice: 104 });
+    expect(tp?.pnlPercent).toBeCloseTo(0.04, 9);
+    expect(tp?.holdingHours).toBeCloseTo(2, 3);
+
+    const sl = simulateCounterfactual(rec, bars(T0, [[97.5, 101, 98]]));
+    expect(sl).toMatchObject({ exitReason: "stop_loss", exitPrice: 98 });
+    expect(sl?.pnlPercent).toBeCloseTo(-0.02, 9);
+  });
+
+  it("short mirrors the levels; a bar touching both counts as a stop-loss", () => {
+    const rec = makeRejected({ type: "short" });
+    expect(simulateCounterfactual(rec, bars(T0, [[95.5, 101, 96]]))).toMatchObject({ exitReason: "take_profit", exitPrice: 96 });
+    const both = simulateCounterfactual(rec, bars(T0, [[95, 103, 100]]));
+    expect(both).toMatchObject({ exitReason: "stop_loss", exitPrice: 102 });
+    expect(both?.pnlPercent).toBeCloseTo(-0.02, 9);
+  });
+
+  it("ignores bars before the rejection, times out at the deadline, stays pending without data", () => {
+    const rec = makeRejected({ entryTime: T0 + HOUR });
+    // The first bar (before the rejection) would have stopped out
+    const flat = bars(T0, [[90, 101, 100], [99, 101, 100.5], [99, 101, 101]]);
+    expect(simulateCounterfactual(rec, flat, { maxHoldingHours: 1 })).toMatchObject({ exitReason: "time_stop", exitPrice: 101 });
+    expect(simulateCounterfactual(rec, flat, { maxHoldingHours: 72 })).toBeNull();
+    const { rejection: _unused, ...untagged } = rec;
+    expect(simulateCounterfactual(untagged, flat)).toBeNull();
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Per-filter impact
+// ─────────────────────────────────────────────────────
+
+describe("summarizeFilterImpact() / formatFilterImpactReport()", () => {
+  it("totals saved / cost PnL per filter, most helpful first", () => {
+    const impacts = summarizeFilterImpact([
+      makeRejected({ filter: "mtf", pnl: -0.02 }),
+      makeRejected({ filter: "mtf", pnl: -0.02 }),
+      makeRejected({ filter: "mtf", pnl: 0.04 }),
+      makeRejected({ filter: "mtf" }),
+      makeRejected({ filter: "sentiment", pnl: 0.04 }),
+      makeRejected({ filter: "regime" }),
+      makeRejected({ status: "closed", filter: "rr", pnl: -0.5 }),
+    ]);
+    expect(impacts.map((f) => f.filter)).toEqual(["mtf", "regime", "sentiment"]);
+
+    const mtf = impacts[0];
+    expect(mtf).toMatchObject({ rejected: 4, resolved: 3, pending: 1, wins: 1, losses: 2 });
+    expect(mtf?.savedPct).toBeCloseTo(0, 9);
+    expect(impacts[2]?.savedPct).toBeCloseTo(-0.04, 9);
+
+    const report = formatFilterImpactReport(impacts);
+    expect(report).toContain("sentiment       ❌ cost -4.00%");
+    expect(report).toContain("regime          ⏳");
+    expect(report).toContain("Net across filters: -4.00% cost over 4 resolved rejections");
+    expect(formatFilterImpactReport([])).toContain("No rejected signals logged yet");
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Signal history storage
+// ─────────────────────────────────────────────────────
+
+describe("rejected signals in the signal history", () => {
+  let tmpDir: string;
+  let restore: () => void;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rejected-"));
+    restore = redirectSignalHistory(path.join(tmpDir, "history.jsonl"), path.join(tmpDir, "index.json"));
+  });
+
+  afterEach(() => {
+    restore();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const rejection = {
+    filter: "mtf" as const,
+    reason: "4h bearish",
+    inputs: { trendTimeframe: "4h", trendBull: false },
+    stopLossPercent: 2,
+    takeProfitPercent: 4,
+    timeframe: "1h",
+  };
+
+  it("logs once per symbol / filter within the dedup window", () => {
+    const params = { symbol: "BTCUSDT", type: "buy" as const, entryPrice: 100, rejection, dedupWindowMs: HOUR, scenarioId: "s1" };
+    expect(logRejectedSignal(params)).toMatch(/^sig_/);
+    expect(logRejectedSignal(params)).toBeNull();
+    expect(logRejectedSignal({ ...params, rejection: { ...rejection, filter: "sentiment" } })).not.toBeNull();
+    expect(logRejectedSignal({ ...params, scenarioId: "s2" })).not.toBeNull();
+    expect(logRejectedSignal({ ...params, dedupWindowMs: 0 })).not.toBeNull();
+
+    const stored = getRejectedSignals();
+    expect(stored).toHaveLength(4);
+    expect(stored[0]?.rejection?.inputs).toEqual({ trendTimeframe: "4h", trendBull: false });
+  });
+
+  it("stores counterfactual outcomes and keeps rejections out of trade stats", () => {
+    const id = logRejectedSignal({ symbol: "ETHUSDT", type: "short", entryPrice: 100, rejection, dedupWindowMs: HOUR }) ?? "";
+    logSignal({ symbol: "BTCUSDT", type: "buy", entryPrice: 100 });
+
+    expect(getRejectedSignals(true)).toHaveLength(1);
+    const outcome = { exitPrice: 96, exitTime: Date.now(), exitReason: "take_profit" as const, pnlPercent: 0.04, holdingHours: 3 };
+    expect(recordCounterfactuals(new Map([[id, outcome]]))).toBe(1);
+    expect(getRejectedSignals(true)).toHaveLength(0);
+    expect(getRejectedSignals()[0]?.rejection?.counterfactual).toEqual(outcome);
+
+    const stats = getSignalStats();
+    expect(stats.total).toBe(1);
+    expect(stats.open).toBe(1);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalCdf,
+  normalQuantile,
+  alignedReturns,
+  sharpeOf,
+  combinations,
+  cpcvSplits,
+  runCpcv,
+  probabilisticSharpe,
+  expectedMaxSharpe,
+  deflatedSharpe,
+} from "../backtest/cpcv.js";
+
+// ─────────────────────────────────────────────────────
+// Test helpers
+// ─────────────────────────────────────────────────────
+
+/** Deterministic pseudo-noise in roughly [-0.01, 0.01] */
+function noise(i: number, seed: number): number {
+  return 0.01 * Math.sin(i * 12.9898 + seed * 78.233) * Math.cos(i * 4.1414 + seed);
+}
+
+function series(n: number, drift: (i: number) => number, seed: number): number[] {
+  return Array.from({ length: n }, (_, i) => drift(i) + noise(i, seed));
+}
+
+// ─────────────────────────────────────────────────────
+// Statistics helpers
+// ─────────────────────────────────────────────────────
+
+describe("normal distribution", () => {
+  it("CDF and quantile match reference values and invert each other", () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 7);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 4);
+    expect(normalCdf(-1)).toBeCloseTo(0.158655, 5);
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalQuantile(0.01)).toBeCloseTo(-2.326348, 5);
+    for (const p of [0.001, 0.2, 0.5, 0.9, 0.999]) expect(normalCdf(normalQuantile(p))).toBeCloseTo(p, 6);
+    expect(normalQuantile(0)).toBe(-Infinity);
+  });
+});
+
+describe("alignedReturns() / sharpeOf()", () => {
+  it("forward-fills warm-up bars and gaps on the kline grid", () => {
+    const times = [0, 1, 2, 3, 4];
+    const curve = [{ time: 2, equity: 100 }, { time: 4, equity: 110 }];
+    expect(alignedReturns(curve, times)).toEqual([0, 0, 0, expect.closeTo(0.1, 9)]);
+    expect(alignedReturns([], times)).toEqual([0, 0, 0, 0]);
+  });
+
+  it("per-bar Sharpe is mean / sample stddev, 0 without variance", () => {
+    expect(sharpeOf([0.01, 0.03])).toBeCloseTo(0.02 / Math.sqrt(0.0002), 9);
+    expect(sharpeOf([0.01, 0.01, 0.01])).toBe(0);
+    expect(sharpeOf([0.5])).toBe(0);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// CPCV splits
+// ─────────────────────────────────────────────────────
+
+describe("cpcvSplits()", () => {
+  it("enumerates C(N, k) test sets covering each group equally", () => {
+    expect(combinations(6, 2)).toHaveLength(15);
+    expect(combinations(4, 2)[0]).toEqual([0, 1]);
+
+    const splits = cpcvSplits(60, { groups: 6, testGroups: 2, purgeBars: 0, embargoBars: 0 });
+    expect(splits).toHaveLength(15);
+    const timesTested = new Array<number>(60).fill(0);
+    for (const s of splits) {
+      expect(s.train.length + s.test.length).toBe(60);
+      for (const i of s.test) timesTested[i] = (timesTested[i] ?? 0) + 1;
+    }
+    // Each group is in C(5,1) = 5 test sets
+    expect(new Set(timesTested)).toEqual(new Set([5]));
+  });
+
+  it("purges before and embargoes after each test block, not between adjacent test groups", () => {
+    const [first] = cpcvSplits(40, { groups: 4, testGroups: 1, purgeBars: 2, embargoBars: 3 }).slice(1);
+    // Test group 1 = bars 10..19: purge 8, 9; embargo 20, 21, 22
+    expect(first?.test).toEqual(Array.from({ length: 10 }, (_, i) => 10 + i));
+    expect(first?.train).not.toContain(8);
+    expect(first?.train).not.toContain(22);
+    expect(first?.train).toContain(7);
+    expect(first?.train).toContain(23);
+
+    const adjacent = cpcvSplits(40, { groups: 4, testGroups: 2, purgeBars: 2, embargoBars: 3 })
+      .find((s) => s.testGroups.join() === "1,2");
+    expect(adjacent?.train).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 33, 34, 35, 36, 37, 38, 39]);
+  });
+
+  it("rejects bad settings and too little data", () => {
+    expect(() => cpcvSplits(100, { groups: 4, testGroups: 4 })).toThrow("groups > testGroups");
+    expect(() => cpcvSplits(10, { groups: 6, testGroups: 2 })).toThrow("at least 12 observations");
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// PBO
+// ─────────────────────────────────────────────────────
+
+describe("runCpcv() / PBO", () => {
+  const opts = { groups: 6, testGroups: 3, purgeBars: 0, embargoBars: 0 };
+
+  it("a candidate with a persistent edge gives PBO 0", () => {
+    const returns = [
+      series(600, () => 0.002, 1),
+      series(600, () => 0, 2),
+      series(600, () => -0.001, 3),
+    ];
+    const result = runCpcv(returns, opts);
+    expect(result.splits).toBe(20);
+    expect(result.selected.every((c) => c === 0)).toBe(true);
+    expect(result.pbo).toBe(0);
+    expect(result.selectedOosSharpe.every((s) => s > 0)).toBe(true);
+  });
+
+  it("candidates whose edge flips between regimes are flagged as overfit", () => {
+    // Each candidate is great in "its" groups and bad elsewhere: the IS winner is an OOS loser
+    const returns = [0, 1, 2, 3, 4, 5].map((g) =>
+      series(600, (i) => (Math.floor(i / 100) === g ? 0.004 : -0.0005), g)
+    );
+    const result = runCpcv(returns, opts);
+    expect(result.pbo).toBeGreaterThan(0.5);
+    expect(result.oosSharpe).toHaveLength(6);
+    expect(result.oosSharpe[0]).toHaveLength(20);
+  });
+
+  it("requires equal-length series", () => {
+    expect(() => runCpcv([[0.1, 0.2], [0.1]], opts)).toThrow("equal length");
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Deflated Sharpe
+// ─────────────────────────────────────────────────────
+
+describe("deflated Sharpe", () => {
+  const strong = series(500, () => 0.002, 7);
+
+  it("probabilistic Sharpe is high for a clear edge and ~0.5 at its own Sharpe", () => {
+    expect(probabilisticSharpe(strong)).toBeGreaterThan(0.99);
+    expect(probabilisticSharpe(strong, sharpeOf(strong))).toBeCloseTo(0.5, 6);
+    expect(probabilisticSharpe([0.1, 0.2])).toBe(0);
+  });
+
+  it("the expected max Sharpe of noise grows with the number of trials", () => {
+    expect(expectedMaxSharpe(1, 0.01)).toBe(0);
+    const few = expectedMaxSharpe(10, 0.01);
+    const many = expectedMaxSharpe(1000, 0.01);
+    expect(few).toBeGreaterThan(0);
+    expect(many).toBeGreaterThan(few);
+    // E[max of 1000 N(0, 0.1²)] ≈ 0.1 × 3.25
+    expect(many).toBeCloseTo(0.325, 1);
+  });
+
+  it("more dispersed trials deflate the same track record more", () => {
+    const tight = deflatedSharpe(strong, [0.01, 0.02, 0.015, 0.012]);
+    const wide = deflatedSharpe(strong, [-0.2, 0.3, 0.05, 0.25]);
+    expect(tight.sharpe).toBeCloseTo(sharpeOf(strong), 12);
+    expect(wide.benchmark).toBeGreaterThan(tight.benchmark);
+    expect(wide.dsr).toBeLessThan(tight.dsr);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Web dashboard authentication, operator actions and audit log
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type http from "http";
+import type { AddressInfo } from "net";
+import {
+  DashboardAuth,
+  hashPassword,
+  verifyPassword,
+  generateToken,
+  hashToken,
+  parseCookies,
+  hasRole,
+  SESSION_COOKIE,
+} from "../web/auth.js";
+import type { Principal } from "../web/auth.js";
+import {
+  runOperatorAction,
+  readAuditLog,
+  redirectAuditLog,
+  OperatorActionError,
+} from "../web/operator-actions.js";
+import { startDashboardServer, stopDashboardServer } from "../web/dashboard-server.js";
+import { redirectReportDir } from "../backtest/report.js";
+import type * as AccountModule from "../paper/account.js";
+import type { PaperAccount } from "../paper/account.js";
+import type { DashboardConfig } from "../types.js";
+
+// ─────────────────────────────────────────────────────
+// Mock modules
+// ─────────────────────────────────────────────────────
+
+const mem = vi.hoisted(() => ({
+  accounts: new Map<string, unknown>(),
+  paused: new Map<string, boolean>(),
+  killSwitch: { active: false, reason: "", triggeredAt: 0 },
+}));
+
+vi.mock("../config/loader.js", () => ({
+  loadPaperConfig: vi.fn(() => ({
+    report_interval_hours: 4,
+    scenarios: [
+      { id: "paper", name: "Paper", enabled: true, strategy_id: "default", initial_usdt: 1000, fee_rate: 0, slippage_percent: 0, exchange: { market: "futures" } },
+      { id: "tn", name: "Testnet", enabled: true, strategy_id: "default", initial_usdt: 1000, fee_rate: 0, slippage_percent: 0, exchange: { market: "spot", testnet: true } },
+    ],
+  })),
+  loadStrategyConfig: vi.fn(() => ({})),
+  listStrategyProfiles: vi.fn(() => ["trend"]),
+}));
+
+vi.mock("../health/kill-switch.js", () => ({
+  readKillSwitch: vi.fn(() => ({ ...mem.killSwitch })),
+  activateKillSwitch: vi.fn((reason: string) => { mem.killSwitch = { active: true, reason, triggeredAt: Date.now() }; }),
+  deactivateKillSwitch: vi.fn(() => { mem.killSwitch = { active: false, reason: "", triggeredAt: 0 }; }),
+}));
+
+vi.mock("../paper/scenario-state.js", () => ({
+  loadScenarioState: vi.fn((sid: string) => ({ lastSignals: {}, lastReportAt: 0, paused: mem.paused.get(sid) ?? false })),
+  setScenarioPaused: vi.fn((sid: string, paused: boolean) => { mem.paused.set(sid, paused); }),
+}));
+
+vi.mock("../paper/account.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof AccountModule>()),
+  loadAccount: vi.fn((initialUsdt: number, sid: string) =>
+    structuredClone(mem.accounts.get(sid) ?? { initialUsdt, usdt: initialUsdt, positions: {}, trades: [], createdAt: 0, updatedAt: 0, dailyLoss: { date: "", loss: 0 } })
+  ),
+  saveAccount: vi.fn((account: unknown, sid: string) => { mem.accounts.set(sid, structuredClone(account)); }),
+}));
+
+vi.mock("../strategy/signal-history.js", () => ({ closeSignal: vi.fn() }));
+
+// ─────────────────────────────────────────────────────
+// Test helpers
+// ─────────────────────────────────────────────────────
+
+function paperAccount(positions: PaperAccount["positions"]): PaperAccount {
+  return { initialUsdt: 1000, usdt: 500, positions, trades: [], createdAt: 0, updatedAt: 0, dailyLoss: { date: "", loss: 0 } };
+}
+
+const longPos = { symbol: "BTCUSDT", side: "long" as const, quantity: 0.01, entryPrice: 50000, entryTime: 0, stopLoss: 48000, takeProfit: 55000 };
+
+const operator: Principal = { name: "alice", role: "operator", via: "session" };
+const deps = { priceOf: vi.fn((_symbol: string) => Promise.resolve<number | null>(51000)) };
+
+let tmpDir: string;
+let restoreAudit: () => void;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "dash-auth-"));
+  restoreAudit = redirectAuditLog(path.join(tmpDir, "audit.jsonl"));
+  mem.accounts.clear();
+  mem.paused.clear();
+  mem.killSwitch = { active: false, reason: "", triggeredAt: 0 };
+});
+
+afterEach(() => {
+  restoreAudit();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ─────────────────────────────────────────────────────
+// Credentials and sessions
+// ─────────────────────────────────────────────────────
+
+describe("password / token hashing", () => {
+  it("verifies scrypt hashes and rejects wrong or malformed ones", () => {
+    const stored = hashPassword("s3cret");
+    expect(stored).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+    expect(verifyPassword("s3cret", stored)).toBe(true);
+    expect(verifyPassword("S3cret", stored)).toBe(false);
+    expect(verifyPassword("s3cret", "sha256$abc")).toBe(false);
+    expect(hashPassword("s3cret")).not.toBe(stored);
+
+    const token = generateToken();
+    expect(hashToken(token)).toMatch(/^sha256\$[0-9a-f]{64}$/);
+  });
+
+  it("parses cookies and ranks roles", () => {
+    expect(parseCookies("a=1; oc_session=abc%20d;bad")).toEqual({ a: "1", oc_session: "abc d" });
+    expect(parseCookies(undefined)).toEqual({});
+    expect(hasRole(operator, "viewer")).toBe(true);
+    expect(hasRole({ ...operator, role: "viewer" }, "operator")).toBe(false);
+  });
+});
+
+describe("DashboardAuth", () => {
+  const cfg: DashboardConfig = {
+    users: [{ username: "alice", password_hash: hashPassword("pw"), role: "operator" }],
+    tokens: [{ name: "ci", token_hash: hashToken("tok-123"), role: "viewer" }],
+    session_ttl_hours: 1,
+  };
+  const req = (headers: http.IncomingHttpHeaders): http.IncomingMessage => ({ headers }) as http.IncomingMessage;
+
+  it("issues sessions that authenticate until they expire", () => {
+    let now = 1_000_000;
+    const auth = new DashboardAuth(cfg, () => now);
+    const result = auth.login("alice", "pw", "1.2.3.4");
+    if (!result.ok) throw new Error("login failed");
+
+    const cookie = `${SESSION_COOKIE}=${result.session.id}`;
+    expect(auth.sessionCookie(result.session)).toContain("HttpOnly; SameSite=Strict; Max-Age=3600");
+    expect(auth.authenticate(req({ cookie }))).toMatchObject({ name: "alice", role: "operator", via: "session" });
+    expect(auth.authenticate(req({}))).toBeNull();
+
+    now += 3600_000;
+    expect(auth.authenticate(req({ cookie }))).toBeNull();
+  });
+
+  it("checks bearer tokens and exempts them from CSRF", () => {
+    const auth = new DashboardAuth(cfg);
+    const principal = auth.authenticate(req({ authorization: "Bearer tok-123" }));
+    expect(principal).toMatchObject({ name: "ci", role: "viewer", via: "token" });
+    expect(auth.authenticate(req({ authorization: "Bearer nope" }))).toBeNull();
+    if (principal) expect(auth.checkCsrf(principal, req({}))).toBe(true);
+
+    const login = auth.login("alice", "pw", "ip");
+    if (!login.ok) throw new Error("login failed");
+    const session = auth.authenticate(req({ cookie: `${SESSION_COOKIE}=${login.session.id}` }));
+    if (!session) throw new Error("no session");
+    expect(auth.checkCsrf(session, req({}))).toBe(false);
+    expect(auth.checkCsrf(session, req({ "x-csrf-token": "wrong" }))).toBe(false);
+    expect(auth.checkCsrf(session, req({ "x-csrf-token": login.session.csrfToken }))).toBe(true);
+  });
+
+  it("locks a client out after repeated failures", () => {
+    const auth = new DashboardAuth(cfg);
+    for (let i = 0; i < 5; i++) expect(auth.login("alice", "bad", "ip")).toEqual({ ok: false, reason: "invalid" });
+    expect(auth.login("alice", "pw", "ip")).toEqual({ ok: false, reason: "locked" });
+    expect(auth.login("alice", "pw", "other-ip").ok).toBe(true);
+    expect(auth.login("mallory", "pw", "x")).toEqual({ ok: false, reason: "invalid" });
+  });
+
+  it("without users or tokens every request is an anonymous viewer", () => {
+    const auth = new DashboardAuth({});
+    expect(auth.enabled).toBe(false);
+    expect(auth.authenticate(req({}))).toEqual({ name: "anonymous", role: "viewer", via: "anonymous" });
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Operator actions
+// ─────────────────────────────────────────────────────
+
+describe("runOperatorAction()", () => {
+  const actor = { principal: operator, ip: "127.0.0.1" };
+
+  it("force-exits a paper position at market and audits it", async () => {
+    mem.accounts.set("paper", paperAccount({ BTCUSDT: longPos }));
+    const result = await runOperatorAction("force_exit", { scenarioId: "paper", symbol: "btcusdt" }, actor, deps);
+    expect(result).toMatchObject({ symbol: "BTCUSDT", side: "long", price: 51000 });
+    expect((mem.accounts.get("paper") as PaperAccount).positions).toEqual({});
+
+    const [entry] = readAuditLog();
+    expect(entry).toMatchObject({ actor: "alice", action: "force_exit", ok: true, params: { scenarioId: "paper" } });
+  });
+
+  it("moves SL/TP only to levels on the right side of the market", async () => {
+    mem.accounts.set("paper", paperAccount({ BTCUSDT: longPos }));
+    await expect(runOperatorAction("sl_tp", { scenarioId: "paper", symbol: "BTCUSDT", stopLoss: 52000 }, actor, deps))
+      .rejects.toThrow("Long needs stopLoss < price (51000) < takeProfit");
+    await runOperatorAction("sl_tp", { scenarioId: "paper", symbol: "BTCUSDT", stopLoss: 50500 }, actor, deps);
+    expect((mem.accounts.get("paper") as PaperAccount).positions["BTCUSDT"]).toMatchObject({ stopLoss: 50500, takeProfit: 55000 });
+
+    expect(readAuditLog().map((e) => e.ok)).toEqual([true, false]);
+  });
+
+  it("rejects bad input, unknown scenarios and exchange-backed positions", async () => {
+    const expectStatus = async (body: unknown, action: "pause" | "force_exit", status: number): Promise<void> => {
+      const err = await runOperatorAction(action, body, actor, deps).catch((e: unknown) => e);
+      expect(err).toBeInstanceOf(OperatorActionError);
+      expect((err as OperatorActionError).status).toBe(status);
+    };
+    await expectStatus({ scenarioId: "paper", paused: "yes" }, "pause", 400);
+    await expectStatus({ scenarioId: "nope", paused: true }, "pause", 404);
+    await expectStatus({ scenarioId: "tn", symbol: "BTCUSDT" }, "force_exit", 409);
+    await expectStatus({ scenarioId: "paper", symbol: "ETHUSDT" }, "force_exit", 404);
+    expect(readAuditLog()).toHaveLength(4);
+  });
+
+  it("toggles the kill switch and scenario pause", async () => {
+    await runOperatorAction("kill_switch", { active: true, reason: "maintenance" }, actor, deps);
+    expect(mem.killSwitch).toMatchObject({ active: true, reason: "maintenance" });
+    await runOperatorAction("kill_switch", { active: false }, actor, deps);
+    expect(mem.killSwitch.active).toBe(false);
+
+    await runOperatorAction("pause", { scenarioId: "tn", paused: true }, actor, deps);
+    expect(mem.paused.get("tn")).toBe(true);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// HTTP routes
+// ─────────────────────────────────────────────────────
+
+describe("dashboard HTTP auth", () => {
+  const access: DashboardConfig = {
+    users: [
+      { username: "alice", password_hash: hashPassword("pw"), role: "operator" },
+      { username: "bob", password_hash: hashPassword("pw"), role: "viewer" },
+    ],
+    tokens: [{ name: "bot", token_hash: hashToken("op-token"), role: "operator" }],
+  };
+  let base = "";
+
+  async function start(cfg: DashboardConfig): Promise<void> {
+    const srv = startDashboardServer(0, cfg);
+    if (!srv.listening) await new Promise((r) => srv.once("listening", r));
+    base = `http://127.0.0.1:${(srv.address() as AddressInfo).port}`;
+  }
+
+  const post = (p: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> =>
+    fetch(base + p, { method: "POST", headers: { "Content-Type": "application/json", ...headers }, body: JSON.stringify(body) });
+
+  async function login(username: string): Promise<{ cookie: string; csrf: string }> {
+    const res = await post("/api/login", { username, password: "pw" });
+    expect(res.status).toBe(200);
+    const cookie = (res.headers.get("set-cookie") ?? "").split(";")[0] ?? "";
+    const { csrfToken } = (await res.json()) as { csrfToken: string };
+    return { cookie, csrf: csrfToken };
+  }
+
+  afterEach(() => {
+    stopDashboardServer();
+  });
+
+  it("requires a login for pages and data, but not for the health check", async () => {
+    await start(access);
+    expect((await fetch(base + "/api/data")).status).toBe(401);
+    expect(await (await fetch(base + "/")).text()).toContain("Log in");
+    expect((await fetch(base + "/api/health")).status).toBe(200);
+    expect((await post("/api/login", { username: "alice", password: "nope" })).status).toBe(401);
+
+    const { cookie } = await login("bob");
+    const session = (await (await fetch(base + "/api/session", { headers: { cookie } })).json()) as { role: string };
+    expect(session.role).toBe("viewer");
+    expect((await fetch(base + "/api/data", { headers: { cookie } })).status).toBe(200);
+  });
+
+  it("operator POSTs need the operator role and, for sessions, the CSRF token", async () => {
+    await start(access);
+    const body = { scenarioId: "paper", paused: true };
+
+    const viewer = await login("bob");
+    expect((await post("/api/actions/pause", body, { cookie: viewer.cookie, "X-CSRF-Token": viewer.csrf })).status).toBe(403);
+
+    const op = await login("alice");
+    expect((await post("/api/actions/pause", body, { cookie: op.cookie })).status).toBe(403);
+    const ok = await post("/api/actions/pause", body, { cookie: op.cookie, "X-CSRF-Token": op.csrf });
+    expect(ok.status).toBe(200);
+    expect(mem.paused.get("paper")).toBe(true);
+
+    const viaToken = await post("/api/actions/kill-switch", { active: true }, { Authorization: "Bearer op-token" });
+    expect(viaToken.status).toBe(200);
+    expect(mem.killSwitch.active).toBe(true);
+
+    const bad = await post("/api/actions/pause", { scenarioId: "nope", paused: true }, { Authorization: "Bearer op-token" });
+    expect(bad.status).toBe(404);
+    expect(readAuditLog().map((e) => `${e.actor}:${e.action}:${String(e.ok)}`)).toEqual([
+      "bot:pause:false", "bot:kill_switch:true", "alice:pause:true", "alice:login:true", "bob:login:true",
+    ]);
+  });
+
+  it("backtest reports are readable by viewers, new backtest jobs need an operator", async () => {
+    const restoreReports = redirectReportDir(tmpDir);
+    try {
+      await start(access);
+      const viewer = await login("bob");
+      const list = await fetch(base + "/api/backtests", { headers: { cookie: viewer.cookie } });
+      expect(list.status).toBe(200);
+      expect(await list.json()).toEqual([]);
+      expect((await fetch(base + "/api/backtests/report?name=../x.json", { headers: { cookie: viewer.cookie } })).status).toBe(404);
+      expect((await post("/api/backtests/jobs", {}, { cookie: viewer.cookie, "X-CSRF-Token": viewer.csrf })).status).toBe(403);
+
+      const bad = await post("/api/backtests/jobs", { strategy: "nope" }, { Authorization: "Bearer op-token" });
+      expect(bad.status).toBe(400);
+      expect(readAuditLog()[0]).toMatchObject({ actor: "bot", action: "backtest", ok: false });
+    } finally {
+      restoreReports();
+    }
+  });
+
+  it("without configured users the dashboard is read-only", async () => {
+    await start({});
+    expect((await fetch(base + "/api/data")).status).toBe(200);
+    expect((await post("/api/actions/kill-switch", { active: true })).status).toBe(403);
+    expect((await fetch(base + "/api/actions/kill-switch", { method: "POST", body: "{}" })).status).toBe(415);
+    expect(mem.killSwitch.active).toBe(false);
+  });
+});
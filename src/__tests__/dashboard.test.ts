@@ -255,6 +255,7 @@ describe("buildEquityCurve", () => {
     tradeCount: 4,
     winRate: 0.75,
     positionCount: 0,
+    paused: false,
   };
 
   it("returns empty array when no accounts", () => {
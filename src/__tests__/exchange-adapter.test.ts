@@ -0,0 +1,244 @@
+/**
+ * Exchange adapter factory + LiveExecutor running against a non-Binance adapter
+ *
+ * The executor is driven through the OKX adapter replaying recorded fixtures,
+ * account I/O is kept in memory.
+ */
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { store } = vi.hoisted(() => ({
+  store: { account: null as unknown },
+}));
+
+vi.mock("../paper/account.js", async (importOriginal) => {
+  const actual = await importOriginal<Record<string, unknown>>();
+  return {
+    ...actual,
+    loadAccount: vi.fn(() => store.account),
+    saveAccount: vi.fn(),
+  };
+});
+
+vi.mock("../notify/openclaw.js", () => ({
+  sendTelegramMessage: vi.fn(),
+}));
+
+import { createExchangeAdapter } from "../exchange/adapter.js";
+import { BinanceClient } from "../exchange/binance-client.js";
+import { OkxClient } from "../exchange/okx-client.js";
+import { createFixtureTransport, type FixtureEntry } from "../exchange/fixture-transport.js";
+import { LiveExecutor } from "../live/executor.js";
+import { reconcilePositions } from "../live/reconcile.js";
+import type { PaperAccount } from "../paper/account.js";
+import type { RuntimeConfig } from "../types.js";
+
+const FIXTURE = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures/okx-v5.json");
+const CREDS = { apiKey: "k", secretKey: "s", passphrase: "p" };
+
+function makeAccount(): PaperAccount {
+  return {
+    initialUsdt: 10000,
+    usdt: 10000,
+    positions: {},
+    trades: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    dailyLoss: { date: new Date().toISOString().slice(0, 10), loss: 0 },
+  };
+}
+
+function makeConfig(): RuntimeConfig {
+  return {
+    exchange: { name: "okx", market: "futures", testnet: true },
+    symbols: ["BTCUSDT"],
+    timeframe: "1h",
+    strategy: {
+      name: "test",
+      enabled: true,
+      ma: { short: 20, long: 60 },
+      rsi: { period: 14, oversold: 35, overbought: 65 },
+      macd: { enabled: false, fast: 12, slow: 26, signal: 9 },
+    },
+    signals: { buy: [], sell: [] },
+    risk: {
+      stop_loss_percent: 4,
+      take_profit_percent: 10,
+      trailing_stop: { enabled: false, activation_percent: 5, callback_percent: 2 },
+      position_ratio: 0.06,
+      max_positions: 4,
+      max_position_per_symbol: 0.3,
+      max_total_loss_percent: 20,
+      daily_loss_limit_percent: 8,
+    },
+    execution: {
+      order_type: "market",
+      limit_order_offset_percent: 0.1,
+      min_order_usdt: 10,
+      limit_order_timeout_seconds: 300,
+    },
+    notify: {
+      on_signal: false,
+      on_trade: false,
+      on_stop_loss: false,
+      on_take_profit: false,
+      on_error: false,
+      on_daily_summary: false,
+      min_interval_minutes: 30,
+    },
+    news: { enabled: false, interval_hours: 24, price_alert_threshold: 5, fear_greed_alert: 20 },
+    mode: "testnet",
+    paper: {
+      scenarioId: "test-okx-adapter",
+      initial_usdt: 10000,
+      fee_rate: 0.0005,
+      slippage_percent: 0,
+      report_interval_hours: 24,
+    },
+  };
+}
+
+// ─── Factory ────────────────────────────────
+
+describe("createExchangeAdapter()", () => {
+  it("rejects unknown exchange names", () => {
+    expect(() => createExchangeAdapter({ name: "kraken", market: "spot" })).toThrow(/Unsupported exchange "kraken"/);
+  });
+
+  it("builds an OKX adapter when name=okx", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "okx-creds-"));
+    const credsPath = path.join(dir, "okx.json");
+    fs.writeFileSync(credsPath, JSON.stringify(CREDS));
+    const adapter = createExchangeAdapter({ name: "okx", market: "futures", credentials_path: credsPath });
+    expect(adapter).toBeInstanceOf(OkxClient);
+    expect(adapter.name).toBe("okx");
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("defaults to Binance", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "bn-creds-"));
+    const credsPath = path.join(dir, "binance.json");
+    fs.writeFileSync(credsPath, JSON.stringify({ apiKey: "a", secretKey: "b" }));
+    const adapter = createExchangeAdapter({ market: "spot", credentials_path: credsPath });
+    expect(adapter).toBeInstanceOf(BinanceClient);
+    expect(adapter.name).toBe("binance");
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("rejects OKX credentials without passphrase", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "okx-creds-"));
+    const credsPath = path.join(dir, "okx.json");
+    fs.writeFileSync(credsPath, JSON.stringify({ apiKey: "a", secretKey: "b" }));
+    expect(() => createExchangeAdapter({ name: "okx", market: "spot", credentials_path: credsPath })).toThrow(/passphrase/);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+// ─── LiveExecutor on OKX ────────────────────────────────
+
+describe("LiveExecutor with OKX adapter (recorded fixtures)", () => {
+  beforeEach(() => {
+    store.account = makeAccount();
+  });
+
+  it("handleBuy() opens a position and places native SL/TP through the adapter", async () => {
+    const transport = createFixtureTransport(FIXTURE);
+    const adapter = new OkxClient(CREDS, { market: "futures", demo: true, transport });
+    const executor = new LiveExecutor(makeConfig(), adapter);
+    expect(executor.exchangeName).toBe("okx");
+
+    const result = await executor.handleBuy({
+      symbol: "BTCUSDT",
+      type: "buy",
+      price: 60000,
+      indicators: { maShort: 0, maLong: 0, rsi: 50, price: 60000, volume: 0, avgVolume: 0 },
+      reason: ["test"],
+      timestamp: Date.now(),
+    });
+
+    expect(result.skipped).toBeUndefined();
+    expect(result.trade?.price).toBe(60010);
+    const pos = (store.account as PaperAccount).positions["BTCUSDT"];
+    expect(pos?.quantity).toBeCloseTo(0.01, 10);
+    expect(pos?.stopLoss).toBeCloseTo(60010 * 0.96, 6);
+    expect(pos?.exchangeSlOrderId).toBeDefined();
+    expect((pos?.exchangeSlOrderId ?? 0) % 2).toBe(1);
+    expect(pos?.takeProfitOrderId).toBeDefined();
+
+    const algoBodies = transport.calls
+      .filter((c) => c.path === "/api/v5/trade/order-algo")
+      .map((c) => c.body as Record<string, string>);
+    expect(algoBodies[0]).toMatchObject({ side: "sell", slTriggerPx: "57609.6", reduceOnly: "true" });
+    expect(algoBodies[1]).toMatchObject({ side: "sell", tpTriggerPx: "66011" });
+  });
+
+  it("handleBuy() records no position when the order is still unfilled after polling", async () => {
+    const entries = (JSON.parse(fs.readFileSync(FIXTURE, "utf-8")) as FixtureEntry[]).filter(
+      (e) => !(e.method === "GET" && e.path === "/api/v5/trade/order")
+    );
+    const live = {
+      code: "0",
+      msg: "",
+      data: [{
+        instId: "BTC-USDT-SWAP", ordId: "1", clOrdId: "oc2", side: "buy", ordType: "market", px: "", sz: "1",
+        avgPx: "", accFillSz: "0", state: "live", fee: "0", feeCcy: "USDT", cTime: "1", uTime: "2",
+      }],
+    };
+    entries.push({ method: "GET", path: "/api/v5/trade/order", persist: true, response: live });
+    const adapter = new OkxClient(CREDS, { market: "futures", transport: createFixtureTransport(entries), orderPollMs: 0 });
+    const executor = new LiveExecutor(makeConfig(), adapter);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    const result = await executor.handleBuy({
+      symbol: "BTCUSDT",
+      type: "buy",
+      price: 60000,
+      indicators: { maShort: 0, maLong: 0, rsi: 50, price: 60000, volume: 0, avgVolume: 0 },
+      reason: ["test"],
+      timestamp: Date.now(),
+    });
+
+    expect(result.trade).toBeNull();
+    expect(result.skipped).toMatch(/0 fill/);
+    const account = store.account as PaperAccount;
+    expect(account.positions["BTCUSDT"]).toBeUndefined();
+    // Left pending for the order timeout / orphan scan
+    expect(Object.values(account.openOrders ?? {})[0]?.status).toBe("pending");
+  });
+
+  it("getExchangePositions() feeds adapter-normalized positions to reconcilePositions()", async () => {
+    const adapter = new OkxClient(CREDS, { market: "futures", transport: createFixtureTransport(FIXTURE) });
+    const executor = new LiveExecutor(makeConfig(), adapter);
+    const positions = await executor.getExchangePositions();
+    expect(positions[0]).toMatchObject({ symbol: "BTCUSDT", side: "short" });
+
+    const result = reconcilePositions(makeAccount(), positions);
+    expect(result.discrepancies[0]?.issue).toBe("missing_local");
+  });
+
+  it("scanOpenOrders() queries timed-out orders through the adapter", async () => {
+    const account = makeAccount();
+    account.openOrders = {
+      1760860800000005: {
+        orderId: 1760860800000005,
+        symbol: "BTCUSDT",
+        side: "sell",
+        placedAt: Date.now() - 120_000,
+        requestedQty: 0.01,
+        filledQty: 0,
+        status: "pending",
+        timeoutMs: 30_000,
+      },
+    };
+    store.account = account;
+    const adapter = new OkxClient(CREDS, { market: "futures", transport: createFixtureTransport(FIXTURE) });
+    const executor = new LiveExecutor(makeConfig(), adapter);
+    const cancelled = await executor.scanOpenOrders();
+    // Recorded algo order is "effective" -> treated as filled, nothing to cancel
+    expect(cancelled).toBe(0);
+    expect(account.openOrders[1760860800000005]).toBeUndefined();
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Backtest fill model tests
+ *
+ *  1. createVolumeFillModel(): volume cap, shared per-bar budget, option validation
+ *  2. sqrtImpactPercent(): square-root curve
+ *  3. runBacktest() with a fill model: partial entries carried to the next open,
+ *     partial exits carried to the next open, impact cost, result.fills summary
+ *  4. runBacktest() without a fill model: unchanged (no fill fields)
+ *  5. CLI --volume-cap / --impact
+ *
+ * warmupBars = max(ma.long=5, rsi.period=3) + 10 = 15 -> 16 warmup bars
+ */
+
+import { describe, it, expect } from "vitest";
+import { createVolumeFillModel, sqrtImpactPercent } from "../backtest/fill-model.js";
+import { runBacktest } from "../backtest/runner.js";
+import { parseBacktestArgs } from "../backtest/cli-args.js";
+import type { Kline, StrategyConfig } from "../types.js";
+
+// ─── Helper functions ───────────────────────────────────────
+
+function makeKline(close: number, volume: number, open = close): Kline {
+  return {
+    openTime: 0,
+    open,
+    high: Math.max(open, close) * 1.01,
+    low: Math.min(open, close) * 0.99,
+    close,
+    volume,
+    closeTime: 0,
+  };
+}
+
+/** 16 warmup bars @100 (high volume) + tail, timestamps rewritten hourly */
+function withWarmup(tail: Kline[]): Kline[] {
+  return [...Array.from({ length: 16 }, () => makeKline(100, 1_000_000)), ...tail].map((k, i) => ({
+    ...k,
+    openTime: i * 3600_000,
+    closeTime: i * 3600_000 + 3599_000,
+  }));
+}
+
+function makeCfg(takeProfitPercent = 200): StrategyConfig {
+  return {
+    symbols: ["BTCUSDT"],
+    timeframe: "1h",
+    strategy: {
+      name: "fill-model-test",
+      enabled: true,
+      ma: { short: 3, long: 5 },
+      rsi: { period: 3, oversold: 30, overbought: 70 },
+      macd: { enabled: false, fast: 12, slow: 26, signal: 9 },
+    },
+    signals: { buy: ["ma_bullish"], sell: [] },
+    risk: {
+      stop_loss_percent: 50,
+      take_profit_percent: takeProfitPercent,
+      trailing_stop: { enabled: false, activation_percent: 5, callback_percent: 2 },
+      position_ratio: 0.5,
+      max_positions: 4,
+      max_position_per_symbol: 0.8,
+      max_total_loss_percent: 90,
+      daily_loss_limit_percent: 90,
+    },
+    execution: {
+      order_type: "market",
+      limit_order_offset_percent: 0,
+      min_order_usdt: 1,
+      limit_order_timeout_seconds: 30,
+    },
+    notify: {
+      on_signal: false, on_trade: false, on_stop_loss: false,
+      on_take_profit: false, on_error: false, on_daily_summary: false,
+      min_interval_minutes: 0,
+    },
+    news: { enabled: false, interval_hours: 24, price_alert_threshold: 5, fear_greed_alert: 20 },
+    mode: "paper",
+  };
+}
+
+const ZERO_FEES = { initialUsdt: 1000, feeRate: 0, slippagePercent: 0 };
+
+// ─────────────────────────────────────────────────────
+// 1. Volume-capped model
+// ─────────────────────────────────────────────────────
+
+describe("createVolumeFillModel()", () => {
+  it("fills at most maxVolumeFraction of bar volume", () => {
+    const model = createVolumeFillModel({ maxVolumeFraction: 0.1, impactCoefficient: 0 });
+    const kline = makeKline(100, 50);
+    expect(model.fill({ side: "buy", price: 100, quantity: 3, kline, volumeUsed: 0 }).quantity).toBe(3);
+    expect(model.fill({ side: "buy", price: 100, quantity: 8, kline, volumeUsed: 0 }).quantity).toBe(5);
+  });
+
+  it("shares the per-bar budget with earlier fills on the same bar", () => {
+    const model = createVolumeFillModel({ maxVolumeFraction: 0.1 });
+    const kline = makeKline(100, 50);
+    expect(model.fill({ side: "sell", price: 100, quantity: 8, kline, volumeUsed: 4 }).quantity).toBe(1);
+    expect(model.fill({ side: "sell", price: 100, quantity: 8, kline, volumeUsed: 6 }).quantity).toBe(0);
+  });
+
+  it("fills nothing on zero-volume bars", () => {
+    const model = createVolumeFillModel();
+    const fill = model.fill({ side: "buy", price: 100, quantity: 1, kline: makeKline(100, 0), volumeUsed: 0 });
+    expect(fill).toEqual({ quantity: 0, impactPercent: 0 });
+  });
+
+  it("rejects out-of-range options", () => {
+    expect(() => createVolumeFillModel({ maxVolumeFraction: 0 })).toThrow(/maxVolumeFraction/);
+    expect(() => createVolumeFillModel({ maxVolumeFraction: 1.5 })).toThrow(/maxVolumeFraction/);
+    expect(() => createVolumeFillModel({ impactCoefficient: -1 })).toThrow(/impactCoefficient/);
+  });
+
+  it("names the model after its parameters", () => {
+    expect(createVolumeFillModel({ maxVolumeFraction: 0.05, impactCoefficient: 0.5 }).name).toBe("volume(5.0%, k=0.5)");
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 2. Square-root impact
+// ─────────────────────────────────────────────────────
+
+describe("sqrtImpactPercent()", () => {
+  const kline: Kline = { openTime: 0, open: 100, high: 102, low: 98, close: 100, volume: 100, closeTime: 0 };
+
+  it("= k × (high − low) / close × √(qty / volume) × 100", () => {
+    // σ = 4 / 100 = 0.04, √(1 / 100) = 0.1 -> 0.4%
+    expect(sqrtImpactPercent(1, kline, 1)).toBeCloseTo(0.4, 10);
+    expect(sqrtImpactPercent(1, kline, 0.5)).toBeCloseTo(0.2, 10);
+  });
+
+  it("quadrupling size doubles impact", () => {
+    expect(sqrtImpactPercent(4, kline, 1)).toBeCloseTo(2 * sqrtImpactPercent(1, kline, 1), 10);
+  });
+
+  it("returns 0 on degenerate inputs", () => {
+    expect(sqrtImpactPercent(0, kline, 1)).toBe(0);
+    expect(sqrtImpactPercent(1, { ...kline, volume: 0 }, 1)).toBe(0);
+    expect(sqrtImpactPercent(1, kline, 0)).toBe(0);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 3. Runner with a fill model
+// ─────────────────────────────────────────────────────
+
+describe("runBacktest() with fill model", () => {
+  it("carries an unfilled entry to the next open and reports the fill ratio", () => {
+    // 500 USDT @101 ≈ 4.95 BTC requested; cap 10% × 20 = 2 BTC per bar
+    const klines = withWarmup([makeKline(101, 20), makeKline(101, 20)]);
+    const result = runBacktest({ BTCUSDT: klines }, makeCfg(), {
+      ...ZERO_FEES,
+      fillModel: createVolumeFillModel({ maxVolumeFraction: 0.1, impactCoefficient: 0 }),
+    });
+
+    const buys = result.trades.filter((t) => t.side === "buy");
+    expect(buys).toHaveLength(1); // the carried fill tops up the same position
+    expect(buys[0]?.quantity).toBeCloseTo(2, 8);
+
+    const sell = result.trades.find((t) => t.side === "sell");
+    expect(sell?.exitReason).toBe("end_of_data");
+    expect(sell?.quantity).toBeCloseTo(4, 8); // 2 on the signal bar + 2 at the next open
+    expect(sell?.cost).toBeCloseTo(404, 6);
+    expect(sell?.fillRatio).toBeCloseTo(404 / 500, 8);
+    expect(sell?.impactCost).toBe(0);
+
+    expect(result.fills?.partialFillTrades).toBe(1);
+    expect(result.fills?.avgFillRatio).toBeCloseTo(0.808, 8);
+    expect(result.config.fillModel).toBe("volume(10.0%, k=0)");
+  });
+
+  it("completes a carried entry when later bars have enough volume", () => {
+    const klines = withWarmup([makeKline(101, 20), makeKline(101, 1000), makeKline(101, 1000)]);
+    const result = runBacktest({ BTCUSDT: klines }, makeCfg(), {
+      ...ZERO_FEES,
+      fillModel: createVolumeFillModel({ maxVolumeFraction: 0.1, impactCoefficient: 0 }),
+    });
+    const sell = result.trades.find((t) => t.side === "sell");
+    expect(sell?.fillRatio).toBeCloseTo(1, 8);
+    expect(sell?.cost).toBeCloseTo(500, 6);
+    expect(result.fills?.partialFillTrades).toBe(0);
+  });
+
+  it("carries an unfilled exit to the next open and books one merged trade", () => {
+    // Buy @101 (TP 5% ≈ 106.05); thin bar hits TP and only sells 2 BTC; the rest sells at the next open 108
+    const klines = withWarmup([
+      makeKline(101, 1_000_000),
+      makeKline(110, 20),
+      makeKline(108, 1_000_000),
+    ]);
+    const result = runBacktest({ BTCUSDT: klines }, makeCfg(5), {
+      ...ZERO_FEES,
+      fillModel: createVolumeFillModel({ maxVolumeFraction: 0.1, impactCoefficient: 0 }),
+    });
+
+    const tp = result.trades.find((t) => t.side === "sell" && t.exitReason === "take_profit");
+    expect(tp).toBeDefined();
+    const qty = 500 / 101;
+    expect(tp?.quantity).toBeCloseTo(qty, 8);
+    const tpPrice = 101 * 1.05;
+    const expectedProceeds = 2 * tpPrice + (qty - 2) * 108;
+    expect(tp?.proceeds).toBeCloseTo(expectedProceeds, 6);
+    expect(tp?.exitPrice).toBeCloseTo(expectedProceeds / qty, 6);
+    expect(tp?.pnl).toBeCloseTo(expectedProceeds - 500, 6);
+  });
+
+  it("adds square-root impact to execution prices and reports its cost", () => {
+    const klines = withWarmup([makeKline(101, 1000), makeKline(101, 1000)]);
+    const fillModel = createVolumeFillModel({ maxVolumeFraction: 1, impactCoefficient: 1 });
+    const result = runBacktest({ BTCUSDT: klines }, makeCfg(), { ...ZERO_FEES, fillModel });
+
+    const buy = result.trades.find((t) => t.side === "buy");
+    const qty = 500 / 101;
+    const impact = sqrtImpactPercent(qty, makeKline(101, 1000), 1);
+    expect(buy?.entryPrice).toBeCloseTo(101 * (1 + impact / 100), 8);
+
+    const sell = result.trades.find((t) => t.side === "sell");
+    // Entry impact only: the end-of-data close has no bar to fill against
+    expect(sell?.impactCost).toBeCloseTo(qty * 101 * (impact / 100), 8);
+    expect(sell?.exitPrice).toBe(101);
+    expect(result.fills?.totalImpactCost).toBeCloseTo(sell?.impactCost ?? 0, 10);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 4. Default: no fill model
+// ─────────────────────────────────────────────────────
+
+describe("runBacktest() without fill model", () => {
+  it("fills completely and adds no fill fields", () => {
+    const klines = withWarmup([makeKline(101, 20), makeKline(101, 20)]);
+    const result = runBacktest({ BTCUSDT: klines }, makeCfg(), ZERO_FEES);
+    const sell = result.trades.find((t) => t.side === "sell");
+    expect(sell?.cost).toBeCloseTo(500, 6);
+    expect(sell?.fillRatio).toBeUndefined();
+    expect(sell?.impactCost).toBeUndefined();
+    expect(result.fills).toBeUndefined();
+    expect(result.config.fillModel).toBeUndefined();
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 5. CLI
+// ─────────────────────────────────────────────────────
+
+describe("parseBacktestArgs() fill model flags", () => {
+  it("parses --volume-cap and --impact", () => {
+    const args = parseBacktestArgs(["--volume-cap", "5", "--impact", "0.7"]);
+    expect(args.volumeCapPercent).toBe(5);
+    expect(args.impactCoefficient).toBe(0.7);
+  });
+
+  it("leaves both unset by default", () => {
+    const args = parseBacktestArgs([]);
+    expect(args.volumeCapPercent).toBeUndefined();
+    expect(args.impactCoefficient).toBeUndefined();
+  });
+
+  it("rejects --impact without --volume-cap", () => {
+    expect(() => parseBacktestArgs(["--impact", "0.7"])).toThrow(/--impact requires --volume-cap/);
+  });
+
+  it("rejects non-numeric and out-of-range values", () => {
+    expect(() => parseBacktestArgs(["--volume-cap", "abc"])).toThrow(/--volume-cap expects a number/);
+    expect(() => parseBacktestArgs(["--volume-cap", "5%"])).toThrow(/--volume-cap expects a number/);
+    expect(() => parseBacktestArgs(["--volume-cap", "0"])).toThrow(/\(0, 100\]/);
+    expect(() => parseBacktestArgs(["--volume-cap", "150"])).toThrow(/\(0, 100\]/);
+    expect(() => parseBacktestArgs(["--volume-cap", "5", "--impact", "x"])).toThrow(/--impact expects a number/);
+    expect(() => parseBacktestArgs(["--volume-cap", "5", "--impact", "-1"])).toThrow(/--impact must be >= 0/);
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * Grid strategy plugin tests
+ *
+ *  1. buildGridLevels(): geometric layout, config validation
+ *  2. populateSignal(): opening entry, sold-out grid waiting for a crossing, re-center while flat
+ *  3. adjustPosition(): slice registration, buy on downward crossings, sell one level up,
+ *     full close when sold out, fills confirmed / rolled back on the next call, re-center while holding
+ *  4. runBacktest() with strategy_id "grid": level trades through the in-memory state store
+ *  5. State stores: in-memory and scenario-scoped file store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { buildGridLevels, gridStrategy, type GridState } from "../strategies/grid.js";
+import { getStrategy } from "../strategies/registry.js";
+import { createMemoryStateStore, createScenarioStateStore, type StateStore } from "../strategies/state-store.js";
+import type { StrategyContext } from "../strategies/types.js";
+import { runBacktest } from "../backtest/runner.js";
+import type { GridConfig, Indicators, Kline, StrategyConfig } from "../types.js";
+
+// ─── Helper functions ───────────────────────────────────────
+
+const GRID: GridConfig = { levels: 5, spacing_percent: 1, recenter_after_minutes: 60 };
+const HOUR = 3600_000;
+const MINUTE = 60_000;
+
+function makeCfg(grid: GridConfig | null = GRID): StrategyConfig {
+  return {
+    symbols: ["BTCUSDT"],
+    timeframe: "1h",
+    strategy_id: "grid",
+    ...(grid && { grid }),
+    strategy: {
+      name: "grid-test",
+      enabled: true,
+      ma: { short: 3, long: 5 },
+      rsi: { period: 3, oversold: 30, overbought: 70 },
+      macd: { enabled: false, fast: 12, slow: 26, signal: 9 },
+    },
+    signals: { buy: [], sell: [] },
+    risk: {
+      stop_loss_percent: 50,
+      take_profit_percent: 200,
+      trailing_stop: { enabled: false, activation_percent: 5, callback_percent: 2 },
+      position_ratio: 0.1,
+      max_positions: 4,
+      max_position_per_symbol: 0.8,
+      max_total_loss_percent: 90,
+      daily_loss_limit_percent: 90,
+    },
+    execution: {
+      order_type: "market",
+      limit_order_offset_percent: 0,
+      min_order_usdt: 1,
+      limit_order_timeout_seconds: 30,
+    },
+    notify: {
+      on_signal: false, on_trade: false, on_stop_loss: false,
+      on_take_profit: false, on_error: false, on_daily_summary: false,
+      min_interval_minutes: 0,
+    },
+    news: { enabled: false, interval_hours: 24, price_alert_threshold: 5, fear_greed_alert: 20 },
+    mode: "paper",
+  };
+}
+
+function makeCtx(
+  price: number,
+  time: number,
+  stateStore: StateStore,
+  currentPosSide?: "long",
+  cfg: StrategyConfig = makeCfg()
+): StrategyContext {
+  const indicators: Indicators = { maShort: price, maLong: price, rsi: 50, price, volume: 1, avgVolume: 1 };
+  const kline: Kline = { openTime: time - HOUR, open: price, high: price, low: price, close: price, volume: 1, closeTime: time };
+  return { klines: [kline], cfg, indicators, stateStore, ...(currentPosSide && { currentPosSide }) };
+}
+
+function position(currentPrice: number, quantity: number, entryPrice = 100, costBasis = quantity * entryPrice) {
+  return {
+    symbol: "BTCUSDT",
+    side: "long" as const,
+    entryPrice,
+    currentPrice,
+    quantity,
+    costBasis,
+    profitRatio: (currentPrice - entryPrice) / entryPrice,
+    holdMs: 0,
+    dcaCount: 0,
+  };
+}
+
+function gridState(store: StateStore): GridState | null {
+  return store.get<GridState | null>("grid", null);
+}
+
+/** Adjust at price/time and return the hook's amount */
+function adjust(store: StateStore, price: number, quantity: number, time: number, entryPrice = 100): number | null {
+  return gridStrategy.adjustPosition?.(position(price, quantity, entryPrice), makeCtx(price, time, store, "long")) ?? null;
+}
+
+// ─────────────────────────────────────────────────────
+// 1. Layout
+// ─────────────────────────────────────────────────────
+
+describe("buildGridLevels()", () => {
+  it("spaces levels geometrically with the center on a level (odd N)", () => {
+    const levels = buildGridLevels(100, GRID);
+    expect(levels).toHaveLength(5);
+    expect(levels[2]).toBeCloseTo(100, 10);
+    expect(levels[3]).toBeCloseTo(101, 10);
+    expect(levels[0]).toBeCloseTo(100 / 1.01 ** 2, 10);
+  });
+
+  it("straddles the center with an even number of levels", () => {
+    const levels = buildGridLevels(100, { levels: 4, spacing_percent: 2 });
+    expect((levels[1] ?? 0) * (levels[2] ?? 0)).toBeCloseTo(100 * 100, 6);
+  });
+
+  it("rejects invalid layouts", () => {
+    expect(() => buildGridLevels(100, { levels: 1, spacing_percent: 1 })).toThrow(/levels/);
+    expect(() => buildGridLevels(100, { levels: 2.5, spacing_percent: 1 })).toThrow(/levels/);
+    expect(() => buildGridLevels(100, { levels: 5, spacing_percent: 0 })).toThrow(/spacing_percent/);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 2. Entry signal
+// ─────────────────────────────────────────────────────
+
+describe("gridStrategy.populateSignal()", () => {
+  let store: StateStore;
+  beforeEach(() => { store = createMemoryStateStore(); });
+
+  it("is registered under id 'grid'", () => {
+    expect(getStrategy("grid")).toBe(gridStrategy);
+  });
+
+  it("opens the first slice when flat without a grid", () => {
+    expect(gridStrategy.populateSignal(makeCtx(100, HOUR, store))).toBe("buy");
+  });
+
+  it("returns none while holding (levels trade through adjustPosition)", () => {
+    expect(gridStrategy.populateSignal(makeCtx(100, HOUR, store, "long"))).toBe("none");
+  });
+
+  it("returns none when grid is not configured", () => {
+    expect(gridStrategy.populateSignal(makeCtx(100, HOUR, store, undefined, makeCfg(null)))).toBe("none");
+  });
+
+  it("after selling out, waits for price to cross back down through a level", () => {
+    adjust(store, 100, 1, HOUR); // register opening slice at 100
+    expect(adjust(store, 101.5, 1, 2 * HOUR)).toBeCloseTo(-101.5, 8); // sold out -> close all
+    expect(gridStrategy.populateSignal(makeCtx(101.8, 3 * HOUR, store))).toBe("none");
+    expect(gridStrategy.populateSignal(makeCtx(100.5, 4 * HOUR, store))).toBe("buy"); // crossed 101
+  });
+
+  it("re-centers (new entry) after price stays above the grid long enough", () => {
+    adjust(store, 100, 1, HOUR);
+    adjust(store, 101.5, 1, 2 * HOUR);
+    expect(gridStrategy.populateSignal(makeCtx(105, 3 * HOUR, store))).toBe("none");
+    expect(gridStrategy.populateSignal(makeCtx(105, 3 * HOUR + 30 * 60_000, store))).toBe("none");
+    expect(gridStrategy.populateSignal(makeCtx(105, 4 * HOUR, store))).toBe("buy");
+    expect(gridState(store)).toBeNull(); // next entry lays out a fresh grid
+  });
+
+  it("starts over when flat with slices still recorded (closed by stop loss)", () => {
+    adjust(store, 100, 1, HOUR);
+    expect(gridStrategy.populateSignal(makeCtx(80, 2 * HOUR, store))).toBe("buy");
+    expect(gridState(store)).toBeNull();
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 3. Level trading
+// ─────────────────────────────────────────────────────
+
+describe("gridStrategy.adjustPosition()", () => {
+  let store: StateStore;
+  beforeEach(() => { store = createMemoryStateStore(); });
+
+  it("registers the opening slice on the level at the entry price", () => {
+    expect(adjust(store, 100, 1, HOUR)).toBeNull();
+    const state = gridState(store);
+    expect(state?.slice).toBe(100);
+    expect(state?.holdings).toEqual([0, 0, 1, 0]);
+  });
+
+  it("buys one slice per level crossed downward", () => {
+    adjust(store, 100, 1, HOUR);
+    expect(adjust(store, 99, 1, HOUR + MINUTE)).toBe(100);       // crossed 99.01
+    expect(adjust(store, 97.5, 2, HOUR + 2 * MINUTE)).toBe(100); // crossed 98.03
+    expect(adjust(store, 97.4, 3, HOUR + 3 * MINUTE)).toBeNull(); // no new level
+    expect(gridState(store)?.holdings.filter((q) => q > 0)).toHaveLength(3);
+  });
+
+  it("buys several slices when one move crosses several levels", () => {
+    adjust(store, 100, 1, HOUR);
+    expect(adjust(store, 97.5, 1, 2 * HOUR)).toBe(200);
+  });
+
+  it("sells a slice when price reaches the level above it", () => {
+    adjust(store, 100, 1, HOUR);
+    adjust(store, 99, 1, 2 * HOUR);
+    // The buy filled 1 BASE: slot 1 (99.01 -> sells at 100) records the filled quantity
+    expect(adjust(store, 100.2, 2, 3 * HOUR)).toBeCloseTo(-100.2, 8);
+    expect(gridState(store)?.holdings[1]).toBeCloseTo(1, 10);
+    // The sell filled: the slot is cleared on the next call
+    adjust(store, 100.2, 1, 4 * HOUR);
+    expect(gridState(store)?.holdings).toEqual([0, 0, 1, 0]);
+  });
+
+  it("closes the whole position when the last slice sells", () => {
+    adjust(store, 100, 1, HOUR);
+    expect(adjust(store, 101.2, 0.98, 2 * HOUR)).toBeCloseTo(-0.98 * 101.2, 8);
+  });
+
+  it("records a bought slice only once the position shows the fill", () => {
+    adjust(store, 100, 1, HOUR);
+    adjust(store, 99, 1, 2 * HOUR);
+    expect(gridState(store)?.holdings[1]).toBe(0);
+    expect(gridState(store)?.pending?.buys[1]).toBeCloseTo(100 / 99, 10);
+    adjust(store, 99, 1.99, 3 * HOUR); // filled slightly less than requested (fees)
+    expect(gridState(store)?.holdings).toEqual([0, expect.closeTo(0.99, 10), 1, 0]);
+    expect(gridState(store)?.pending).toBeUndefined();
+  });
+
+  it("rolls back levels the engine did not fill", () => {
+    adjust(store, 100, 1, HOUR);
+    expect(adjust(store, 97.5, 1, HOUR + MINUTE)).toBe(200);       // crossed 99.01 and 98.03
+    adjust(store, 98.5, 2, HOUR + 2 * MINUTE);                     // only one slice filled
+    expect(gridState(store)?.holdings.map((q) => q > 0)).toEqual([false, true, true, false]);
+    expect(adjust(store, 97.9, 2, HOUR + 3 * MINUTE)).toBe(100);   // crossing 98.03 again rebuys the slot
+  });
+
+  it("keeps a slice whose sell was not filled and sells it again", () => {
+    adjust(store, 100, 1, HOUR);
+    adjust(store, 99, 1, 2 * HOUR);
+    adjust(store, 100.2, 2, 3 * HOUR);                    // sell slot 1 (rejected)
+    expect(adjust(store, 100.3, 2, 4 * HOUR)).toBeCloseTo(-100.3, 8);
+    expect(gridState(store)?.holdings[1]).toBeCloseTo(1, 10);
+  });
+
+  it("does not rescale slices when the position drifts from the recorded total", () => {
+    adjust(store, 100, 1, HOUR);
+    adjust(store, 100, 0.9, 2 * HOUR); // e.g. fees charged in the base asset
+    expect(gridState(store)?.holdings[2]).toBe(1);
+    // Selling the last slice still closes everything (no dust)
+    expect(adjust(store, 101.2, 0.9, 3 * HOUR)).toBeCloseTo(-0.9 * 101.2, 8);
+  });
+
+  it("re-centers below the range after recenter_after_minutes and moves held slices", () => {
+    adjust(store, 100, 1, HOUR);
+    adjust(store, 98.5, 2, 2 * HOUR);                   // crossed 99.01
+    expect(adjust(store, 95, 3, 3 * HOUR)).toBe(100);   // crossed 98.03, below range: timer starts
+    expect(gridState(store)?.outOfRangeSince).toBe(3 * HOUR);
+    expect(adjust(store, 95, 4, 4 * HOUR)).toBeNull();  // re-centered, no crossing on the same call
+    const state = gridState(store);
+    expect(state?.center).toBe(95);
+    expect(state?.outOfRangeSince).toBeNull();
+    // 3 slices moved to the slots from the new center upward (the top slot takes two)
+    expect(state?.holdings.map((q) => q > 0)).toEqual([false, false, true, true]);
+    // Selling resumes on the new layout: the center slot sells at 95 × 1.01
+    const centerSlot = gridState(store)?.holdings[2] ?? 0;
+    expect(adjust(store, 96, 4, 5 * HOUR)).toBeCloseTo(-centerSlot * 96, 8);
+  });
+
+  it("returning to the range resets the re-center timer", () => {
+    adjust(store, 100, 1, HOUR);
+    adjust(store, 97, 2, HOUR + MINUTE);                 // below range, timer starts
+    adjust(store, 98.5, 2, HOUR + 10 * MINUTE);          // back inside
+    expect(gridState(store)?.outOfRangeSince).toBeNull();
+    adjust(store, 95, 2, HOUR + 70 * MINUTE);            // out again: the timer restarts here
+    expect(gridState(store)?.center).toBe(100);
+    expect(gridState(store)?.outOfRangeSince).toBe(HOUR + 70 * MINUTE);
+  });
+
+  it("leaves short positions alone", () => {
+    const amount = gridStrategy.adjustPosition?.(
+      { ...position(99, 1), side: "short" },
+      makeCtx(99, HOUR, store)
+    );
+    expect(amount).toBeNull();
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 4. Backtest
+// ─────────────────────────────────────────────────────
+
+function flatKline(close: number): Kline {
+  return { openTime: 0, open: close, high: close, low: close, close, volume: 1000, closeTime: 0 };
+}
+
+/** 16 warmup bars @100 + tail, timestamps rewritten hourly */
+function series(tail: number[]): Kline[] {
+  return [...Array.from({ length: 16 }, () => flatKline(100)), ...tail.map(flatKline)].map((k, i) => ({
+    ...k,
+    openTime: i * HOUR,
+    closeTime: i * HOUR + HOUR - 1000,
+  }));
+}
+
+describe("runBacktest() with strategy_id grid", () => {
+  const opts = { initialUsdt: 1000, feeRate: 0, slippagePercent: 0 };
+  const prices = [99, 98, 99.5, 100.5, 101.5, 100.5, 100.2];
+
+  it("buys on the way down and sells each slice one level up", () => {
+    const result = runBacktest({ BTCUSDT: series(prices) }, makeCfg(), opts);
+    const sells = result.trades.filter((t) => t.side === "sell");
+    const levelSells = sells.filter((t) => t.exitReason === "signal");
+    // 99.5 sells the 98 slice, 100.5 the 99 slice, 101.5 the opening slice (closing the position)
+    expect(levelSells).toHaveLength(3);
+    expect(levelSells.every((t) => t.pnl > 0)).toBe(true);
+    // Re-entry after crossing back down through 101; held to the end
+    expect(sells.at(-1)?.exitReason).toBe("end_of_data");
+    expect(result.trades.filter((t) => t.side === "buy")).toHaveLength(2);
+  });
+
+  it("starts every run from an empty grid", () => {
+    const a = runBacktest({ BTCUSDT: series(prices) }, makeCfg(), opts);
+    const b = runBacktest({ BTCUSDT: series(prices) }, makeCfg(), opts);
+    expect(b.trades).toEqual(a.trades);
+    expect(b.metrics.totalReturn).toBe(a.metrics.totalReturn);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 5. State stores
+// ─────────────────────────────────────────────────────
+
+describe("state stores", () => {
+  let tmpDir: string;
+  beforeEach(() => { tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "grid-state-")); });
+  afterEach(() => { fs.rmSync(tmpDir, { recursive: true, force: true }); });
+
+  it("createMemoryStateStore keeps values in memory only", () => {
+    const store = createMemoryStateStore();
+    store.set("a", { x: 1 });
+    expect(store.get("a", null)).toEqual({ x: 1 });
+    store.delete("a");
+    expect(store.get("a", 0)).toBe(0);
+    expect(store.snapshot()).toEqual({});
+  });
+
+  it("createScenarioStateStore separates scenarios running the same plugin", () => {
+    const a = createScenarioStateStore("grid", "paper-a", "BTCUSDT", tmpDir);
+    const b = createScenarioStateStore("grid", "paper-b", "BTCUSDT", tmpDir);
+    a.set("k", 1);
+    expect(b.get("k", 0)).toBe(0);
+    expect(fs.existsSync(path.join(tmpDir, "strategy-state", "grid", "paper-a", "BTCUSDT.json"))).toBe(true);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { getLoss, listLosses, loadLoss, DEFAULT_LOSS } from "../optimization/loss.js";
+import { dominates, paretoRanks, paretoFront, objectivesOf } from "../optimization/pareto.js";
+import { BayesianOptimizer } from "../optimization/bayesian.js";
+import { parseArgs } from "../scripts/hyperopt.js";
+import type { BacktestMetrics } from "../backtest/metrics.js";
+import type { ParamDef } from "../optimization/param-space.js";
+
+// ─────────────────────────────────────────────────────
+// Test helpers
+// ─────────────────────────────────────────────────────
+
+function makeMetrics(overrides: Partial<BacktestMetrics> = {}): BacktestMetrics {
+  return {
+    totalTrades: 30, wins: 18, losses: 12, winRate: 0.6,
+    totalReturn: 150, totalReturnPercent: 15, maxDrawdown: 10, maxDrawdownUsdt: 100,
+    sharpeRatio: 1.2, sortinoRatio: 1.8, profitFactor: 1.5,
+    avgWinPercent: 3, avgLossPercent: 2, winLossRatio: 1.5, avgHoldingHours: 12,
+    stopLossCount: 5, takeProfitCount: 10, trailingStopCount: 2, signalExitCount: 8, endOfDataCount: 5,
+    bestTradePct: 8, worstTradePct: -3, calmarRatio: 2.5, equityCurve: [],
+    ...overrides,
+  };
+}
+
+const CTX = { minTrades: 20 };
+
+// ─────────────────────────────────────────────────────
+// Built-in losses
+// ─────────────────────────────────────────────────────
+
+describe("built-in losses", () => {
+  it("registers every CLI loss name", () => {
+    expect(listLosses()).toEqual(
+      expect.arrayContaining(["sharpe", "sortino", "calmar", "profit_factor", "expectancy", "min_trades_penalized"])
+    );
+    expect(() => getLoss("nope")).toThrow('Loss "nope" not found');
+  });
+
+  it("default sharpe keeps the historical sharpe - 0.5 * maxDD formula", () => {
+    expect(DEFAULT_LOSS.name).toBe("sharpe");
+    expect(DEFAULT_LOSS.score(makeMetrics(), CTX)).toBeCloseTo(1.2 - 0.05, 9);
+  });
+
+  it("sortino / calmar read the metric directly", () => {
+    expect(getLoss("sortino").score(makeMetrics(), CTX)).toBe(1.8);
+    expect(getLoss("calmar").score(makeMetrics(), CTX)).toBe(2.5);
+  });
+
+  it("profit_factor caps Infinity and scores no trades as 0", () => {
+    const pf = getLoss("profit_factor");
+    expect(pf.score(makeMetrics({ profitFactor: Infinity }), CTX)).toBe(10);
+    expect(pf.score(makeMetrics({ totalTrades: 0, profitFactor: 0 }), CTX)).toBe(0);
+  });
+
+  it("expectancy = winRate * avgWin - lossRate * avgLoss", () => {
+    expect(getLoss("expectancy").score(makeMetrics(), CTX)).toBeCloseTo(0.6 * 3 - 0.4 * 2, 9);
+  });
+
+  it("min_trades_penalized only penalizes below the threshold", () => {
+    const loss = getLoss("min_trades_penalized");
+    const base = DEFAULT_LOSS.score(makeMetrics(), CTX);
+    expect(loss.score(makeMetrics({ totalTrades: 30 }), CTX)).toBeCloseTo(base, 9);
+    expect(loss.score(makeMetrics({ totalTrades: 10 }), CTX)).toBeCloseTo(base - 1, 9);
+    expect(loss.score(makeMetrics({ totalTrades: 10 }), { minTrades: 5 })).toBeCloseTo(base, 9);
+  });
+});
+
+describe("loadLoss()", () => {
+  it("resolves names and custom modules exporting a function or a loss object", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hyperopt-loss-"));
+    try {
+      fs.writeFileSync(path.join(dir, "ret-dd.mjs"), "export default (m) => m.totalReturnPercent / m.maxDrawdown;\n");
+      fs.writeFileSync(
+        path.join(dir, "named.mjs"),
+        'export const loss = { name: "trades", score: (m, ctx) => m.totalTrades - ctx.minTrades };\n'
+      );
+      fs.writeFileSync(path.join(dir, "bad.mjs"), "export default 42;\n");
+
+      expect(await loadLoss("calmar")).toBe(getLoss("calmar"));
+
+      const fn = await loadLoss("ret-dd.mjs", dir);
+      expect(fn.name).toBe("ret-dd");
+      expect(fn.score(makeMetrics(), CTX)).toBe(1.5);
+
+      const obj = await loadLoss(path.join(dir, "named.mjs"));
+      expect(obj.name).toBe("trades");
+      expect(obj.description).toContain("custom loss");
+      expect(obj.score(makeMetrics(), CTX)).toBe(10);
+
+      await expect(loadLoss("bad.mjs", dir)).rejects.toThrow("must export a score function");
+      await expect(loadLoss("missing.mjs", dir)).rejects.toThrow("neither a registered loss");
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Pareto utilities
+// ─────────────────────────────────────────────────────
+
+describe("Pareto utilities", () => {
+  it("dominates() needs no worse everywhere and better somewhere", () => {
+    expect(dominates([2, -5, 10], [1, -5, 10])).toBe(true);
+    expect(dominates([1, -5, 10], [1, -5, 10])).toBe(false);
+    expect(dominates([3, -9, 10], [1, -5, 10])).toBe(false);
+  });
+
+  it("objectivesOf() negates drawdown and skips trade-less backtests", () => {
+    expect(objectivesOf(makeMetrics())).toEqual([15, -10, 30]);
+    expect(objectivesOf(makeMetrics({ totalTrades: 0, maxDrawdown: 0 }))).toBeUndefined();
+  });
+
+  it("paretoRanks() peels successive fronts; paretoFront() keeps rank 0", () => {
+    const points = [
+      [10, -5, 20], // front
+      [20, -15, 20], // front (higher return, deeper drawdown)
+      [8, -6, 10], // dominated by #0
+      [5, -10, 5], // dominated by #2
+      [1, -1, 2], // front (smallest drawdown)
+    ];
+    expect(paretoRanks(points)).toEqual([0, 0, 1, 2, 0]);
+
+    const items = points.map((v, i) => ({ id: i, v: i === 1 ? undefined : v }));
+    expect(paretoFront(items, (x) => x.v).map((x) => x.id)).toEqual([0, 4]);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Multi-objective optimizer ranking
+// ─────────────────────────────────────────────────────
+
+describe("BayesianOptimizer with objectives", () => {
+  const space: ParamDef[] = [{ name: "x", type: "float", min: 0, max: 1 }];
+
+  it("steers toward the Pareto front rather than the best score", () => {
+    const opt = new BayesianOptimizer(space, 7, 0);
+    // Low x: high score but dominated; high x: non-dominated with a poor score
+    for (let i = 0; i < 20; i++) {
+      const x = i / 19;
+      const onFront = x > 0.8;
+      opt.observe({ x }, onFront ? -1 : 5, onFront ? [10 + x, -5, 20] : [1, -20, 5]);
+    }
+    const suggestions = Array.from({ length: 10 }, () => opt.suggest()["x"] ?? 0);
+    const mean = suggestions.reduce((s, v) => s + v, 0) / suggestions.length;
+    expect(mean).toBeGreaterThan(0.5);
+    // best() still reports the best score
+    expect(opt.best()?.score).toBe(5);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// CLI
+// ─────────────────────────────────────────────────────
+
+describe("hyperopt parseArgs --loss / --min-trades / --pareto", () => {
+  it("defaults to the sharpe loss, single objective", () => {
+    const args = parseArgs([]);
+    expect(args.loss).toBe("sharpe");
+    expect(args.minTrades).toBe(20);
+    expect(args.pareto).toBe(false);
+  });
+
+  it("parses the flags", () => {
+    const args = parseArgs(["--loss", "./losses/mine.ts", "--min-trades", "40", "--pareto"]);
+    expect(args.loss).toBe("./losses/mine.ts");
+    expect(args.minTrades).toBe(40);
+    expect(args.pareto).toBe(true);
+    expect(parseArgs(["--min-trades", "x"]).minTrades).toBe(20);
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Hyperopt — parallel trials and study storage
+ * Covers batch ask/tell, the worker pool, the hyperopt study tables and resume checks.
+ */
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import { BayesianOptimizer } from "../optimization/bayesian.js";
+import { InProcessEvaluator, WorkerPool } from "../optimization/worker-pool.js";
+import type { TrialWorkerData } from "../optimization/worker-pool.js";
+import { DEFAULT_PARAM_SPACE } from "../optimization/param-space.js";
+import type { ParamDef } from "../optimization/param-space.js";
+import { DEFAULT_LOSS } from "../optimization/loss.js";
+import { TradeDB } from "../persistence/db.js";
+import type { HyperoptStudy, StudyTrial } from "../persistence/db.js";
+import { assertResumable, parseArgs } from "../scripts/hyperopt.js";
+import type { Kline, StrategyConfig } from "../types.js";
+
+// ─────────────────────────────────────────────────────
+// Test helpers
+// ─────────────────────────────────────────────────────
+
+function makeConfig(): StrategyConfig {
+  return {
+    symbols: ["BTCUSDT"],
+    timeframe: "1h",
+    strategy: {
+      name: "parallel-test",
+      enabled: true,
+      ma: { short: 10, long: 30 },
+      rsi: { period: 14, oversold: 30, overbought: 70 },
+      macd: { enabled: false, fast: 12, slow: 26, signal: 9 },
+    },
+    signals: { buy: ["ma_bullish"], sell: ["ma_bearish"] },
+    risk: {
+      stop_loss_percent: 3,
+      take_profit_percent: 8,
+      trailing_stop: { enabled: false, activation_percent: 5, callback_percent: 2 },
+      position_ratio: 0.2,
+      max_positions: 3,
+      max_position_per_symbol: 0.5,
+      max_total_loss_percent: 20,
+      daily_loss_limit_percent: 5,
+    },
+  } as StrategyConfig;
+}
+
+function makeKlines(n: number): Kline[] {
+  return Array.from({ length: n }, (_, i) => {
+    const close = 100 + 10 * Math.sin(i / 15) + i * 0.02;
+    return {
+      openTime: i * 3_600_000,
+      open: close - 0.2,
+      high: close + 0.5,
+      low: close - 0.5,
+      close,
+      volume: 1000,
+      closeTime: (i + 1) * 3_600_000 - 1,
+    };
+  });
+}
+
+function makeStudy(overrides: Partial<HyperoptStudy> = {}): HyperoptStudy {
+  return {
+    name: "btc-trend",
+    symbol: "BTCUSDT",
+    strategy: "trend",
+    loss: "sharpe",
+    pareto: false,
+    walkForward: false,
+    startMs: 1_000,
+    endMs: 2_000,
+    space: ["ma_short", "ma_long"],
+    createdAt: 5_000,
+    ...overrides,
+  };
+}
+
+function makeTrial(trial: number, score: number, objectives?: number[]): StudyTrial {
+  return {
+    trial,
+    params: { ma_short: 10 + trial, ma_long: 50 },
+    score,
+    ...(objectives !== undefined ? { objectives } : {}),
+    sharpe: score,
+    maxDrawdown: 5,
+    totalReturn: 3,
+    trades: 12,
+    winRate: 0.5,
+  };
+}
+
+let openDbs: TradeDB[] = [];
+let tmpDirs: string[] = [];
+
+afterEach(() => {
+  openDbs.forEach((d) => { d.close(); });
+  openDbs = [];
+  tmpDirs.forEach((d) => { fs.rmSync(d, { recursive: true, force: true }); });
+  tmpDirs = [];
+});
+
+function openDb(): TradeDB {
+  const db = new TradeDB(":memory:");
+  openDbs.push(db);
+  return db;
+}
+
+/** Worker script written to a temp dir: score = x * 2 after `delay` ms; x < 0 fails */
+function writeEchoWorker(): URL {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hyperopt-worker-"));
+  tmpDirs.push(dir);
+  const file = path.join(dir, "echo-worker.mjs");
+  fs.writeFileSync(file, `
+import { parentPort, workerData, threadId } from "worker_threads";
+await new Promise((r) => setTimeout(r, 10)); // messages sent during start-up must not be lost
+parentPort.on("message", ({ id, params }) => {
+  setTimeout(() => {
+    if (params.x < 0) parentPort.postMessage({ id, error: "negative x" });
+    else parentPort.postMessage({ id, score: params.x * 2, metrics: { totalTrades: threadId, tag: workerData.symbol } });
+  }, params.delay ?? 0);
+});
+`);
+  return pathToFileURL(file);
+}
+
+function workerData(): TrialWorkerData {
+  return {
+    symbol: "BTCUSDT",
+    klines: makeKlines(400),
+    baseCfg: makeConfig(),
+    space: DEFAULT_PARAM_SPACE,
+    loss: "sharpe",
+    minTrades: 20,
+    cwd: process.cwd(),
+  };
+}
+
+// ─────────────────────────────────────────────────────
+// Batch ask / tell
+// ─────────────────────────────────────────────────────
+
+describe("BayesianOptimizer ask / tell", () => {
+  const space: ParamDef[] = [
+    { name: "x", type: "float", min: 0, max: 1 },
+    { name: "y", type: "float", min: 0, max: 1 },
+  ];
+
+  it("ask(1) matches suggest() with the same seed and leaves history untouched", () => {
+    const a = new BayesianOptimizer(space, 11, 5);
+    const b = new BayesianOptimizer(space, 11, 5);
+    for (let i = 0; i < 10; i++) {
+      const [asked] = a.ask(1);
+      const suggested = b.suggest();
+      expect(asked).toEqual(suggested);
+      a.tell([{ params: suggested, score: suggested["x"] ?? 0 }]);
+      b.observe(suggested, suggested["x"] ?? 0);
+    }
+    expect(a.trialCount).toBe(10);
+    a.ask(4);
+    expect(a.trialCount).toBe(10);
+  });
+
+  it("spreads a post-warm-up batch out instead of repeating one point", () => {
+    const opt = new BayesianOptimizer(space, 3, 10);
+    for (let i = 0; i < 20; i++) {
+      const [p = {}] = opt.ask(1);
+      opt.tell([{ params: p, score: -Math.abs((p["x"] ?? 0) - 0.7) }]);
+    }
+    const batch = opt.ask(6);
+    expect(batch).toHaveLength(6);
+    expect(new Set(batch.map((p) => JSON.stringify(p))).size).toBe(6);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Evaluators
+// ─────────────────────────────────────────────────────
+
+describe("WorkerPool", () => {
+  it("returns results in batch order while spreading trials across workers", async () => {
+    const pool = new WorkerPool(3, workerData(), writeEchoWorker());
+    try {
+      // The slow first trial must not hold up (or reorder) the rest
+      const results = await pool.evaluate([
+        { x: 1, delay: 60 },
+        { x: 2 },
+        { x: 3 },
+        { x: 4 },
+        { x: 5 },
+      ]);
+      expect(results.map((r) => r.score)).toEqual([2, 4, 6, 8, 10]);
+      expect(new Set(results.map((r) => r.metrics.totalTrades)).size).toBe(3);
+      expect(results[0]?.metrics).toMatchObject({ tag: "BTCUSDT" });
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it("rejects a batch when a trial fails", async () => {
+    const pool = new WorkerPool(2, workerData(), writeEchoWorker());
+    try {
+      await expect(pool.evaluate([{ x: 1 }, { x: -1 }])).rejects.toThrow("Trial worker failed: negative x");
+      expect((await pool.evaluate([{ x: 7 }]))[0]?.score).toBe(14);
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it("validates the pool size", () => {
+    expect(() => new WorkerPool(0, workerData(), writeEchoWorker())).toThrow("positive integer");
+  });
+
+  it("the real trial worker scores like the in-process evaluator", async () => {
+    const data = workerData();
+    const params = [
+      { ma_short: 8, ma_long: 30, rsi_period: 14, rsi_oversold: 30, rsi_overbought: 70, stop_loss_pct: 3, take_profit_pct: 8, position_ratio: 0.2 },
+      { ma_short: 40, ma_long: 20, rsi_period: 14, rsi_oversold: 30, rsi_overbought: 70, stop_loss_pct: 3, take_profit_pct: 8, position_ratio: 0.2 },
+    ];
+    const local = new InProcessEvaluator(data.symbol, data.klines, data.baseCfg, { loss: DEFAULT_LOSS, space: data.space });
+    const pool = new WorkerPool(2, data);
+    try {
+      const [expected, actual] = await Promise.all([local.evaluate(params), pool.evaluate(params)]);
+      expect(actual.map((r) => r.score)).toEqual(expected.map((r) => r.score));
+      expect(actual[0]?.metrics.totalTrades).toBe(expected[0]?.metrics.totalTrades);
+      expect(actual[0]?.metrics.equityCurve).toEqual([]);
+      expect(actual[1]?.score).toBe(-999); // ma_short >= ma_long
+    } finally {
+      await pool.close();
+    }
+  }, 60_000);
+});
+
+// ─────────────────────────────────────────────────────
+// Study storage
+// ─────────────────────────────────────────────────────
+
+describe("TradeDB — hyperopt studies", () => {
+  it("creates, fetches and refuses duplicate study names", () => {
+    const db = openDb();
+    db.createStudy(makeStudy());
+    expect(db.getStudy("btc-trend")).toEqual(makeStudy());
+    expect(db.getStudy("nope")).toBeUndefined();
+    expect(() => { db.createStudy(makeStudy()); }).toThrow();
+
+    const { strategy: _unused, ...noStrategy } = makeStudy({ name: "eth" });
+    db.createStudy(noStrategy);
+    expect(db.getStudy("eth")).not.toHaveProperty("strategy");
+  });
+
+  it("stores trials in order and replaces a re-recorded trial number", () => {
+    const db = openDb();
+    db.createStudy(makeStudy());
+    db.recordTrial("btc-trend", makeTrial(2, 0.4, [3, -5, 12]), 6_000);
+    db.recordTrial("btc-trend", makeTrial(1, 0.9), 6_100);
+    db.recordTrial("btc-trend", makeTrial(2, 0.5, [4, -5, 12]), 6_200);
+
+    const trials = db.getStudyTrials("btc-trend");
+    expect(trials).toEqual([makeTrial(1, 0.9), makeTrial(2, 0.5, [4, -5, 12])]);
+    expect(trials[0]).not.toHaveProperty("objectives");
+    expect(db.getStudyTrials("other")).toEqual([]);
+  });
+
+  it("lists studies with trial count and best score, most recent first", () => {
+    const db = openDb();
+    db.createStudy(makeStudy({ name: "old", createdAt: 1 }));
+    db.createStudy(makeStudy({ name: "empty", createdAt: 2 }));
+    db.recordTrial("old", makeTrial(1, 0.2), 10);
+    db.recordTrial("old", makeTrial(2, 1.3), 11);
+
+    const studies = db.listStudies();
+    expect(studies.map((s) => [s.name, s.trialCount, s.bestScore, s.updatedAt])).toEqual([
+      ["old", 2, 1.3, 11],
+      ["empty", 0, null, 2],
+    ]);
+  });
+
+  it("a resumed optimizer sees the stored trials", () => {
+    const db = openDb();
+    db.createStudy(makeStudy());
+    db.recordTrial("btc-trend", makeTrial(1, 0.1));
+    db.recordTrial("btc-trend", makeTrial(2, 0.8));
+
+    const opt = new BayesianOptimizer([{ name: "ma_short", type: "int", min: 5, max: 20, step: 1 }], 1, 0);
+    opt.tell(db.getStudyTrials("btc-trend"));
+    expect(opt.trialCount).toBe(2);
+    expect(opt.best()).toEqual({ params: { ma_short: 12, ma_long: 50 }, score: 0.8 });
+  });
+});
+
+describe("assertResumable()", () => {
+  const { startMs: _s, endMs: _e, createdAt: _c, ...requested } = makeStudy();
+
+  it("accepts matching settings", () => {
+    expect(() => { assertResumable(makeStudy(), requested); }).not.toThrow();
+  });
+
+  it("lists every changed setting", () => {
+    expect(() => { assertResumable(makeStudy(), { ...requested, loss: "calmar", space: ["ma_short"] }); })
+      .toThrow('Study "btc-trend" cannot be resumed with different settings (loss: "sharpe" → "calmar"; space:');
+    const { strategy: _unused, ...noStrategy } = requested;
+    expect(() => { assertResumable(makeStudy(), noStrategy); }).toThrow('strategy: "trend" → null');
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// CLI
+// ─────────────────────────────────────────────────────
+
+describe("hyperopt parseArgs --workers / --study / --list-studies", () => {
+  it("defaults to one in-process worker and a fresh study", () => {
+    const args = parseArgs([]);
+    expect(args.workers).toBe(1);
+    expect(args.study).toBeUndefined();
+    expect(args.listStudies).toBe(false);
+  });
+
+  it("parses the flags", () => {
+    const args = parseArgs(["-w", "4", "--study", "btc-trend", "--list-studies"]);
+    expect(args.workers).toBe(4);
+    expect(args.study).toBe("btc-trend");
+    expect(args.listStudies).toBe(true);
+    expect(parseArgs(["--workers", "auto"]).workers).toBe(Math.max(1, os.cpus().length - 1));
+    expect(parseArgs(["--workers", "0"]).workers).toBe(1);
+    expect(parseArgs(["--workers", "x"]).workers).toBe(1);
+  });
+});
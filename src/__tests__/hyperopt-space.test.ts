@@ -0,0 +1,203 @@
+import { describe, it, expect } from "vitest";
+import { parsePath, formatPath, getPath, setPath, expandPath } from "../optimization/config-path.js";
+import {
+  compileParamSpace,
+  paramSpaceFor,
+  paramsFromConfig,
+  decodeParam,
+  DEFAULT_PARAM_SPACE,
+} from "../optimization/param-space.js";
+import { applyParams } from "../optimization/objective.js";
+import { applyStrategyProfile, loadStrategyConfig, loadStrategyProfile } from "../config/loader.js";
+import type { HyperoptParamSpec, StrategyConfig } from "../types.js";
+
+// ─────────────────────────────────────────────────────
+// Test helpers
+// ─────────────────────────────────────────────────────
+
+function makeConfig(extra: Partial<StrategyConfig> = {}): StrategyConfig {
+  return {
+    symbols: ["BTCUSDT"],
+    timeframe: "1h",
+    strategy: {
+      name: "space-test",
+      enabled: true,
+      ma: { short: 10, long: 50 },
+      rsi: { period: 14, oversold: 30, overbought: 70 },
+      macd: { enabled: false, fast: 12, slow: 26, signal: 9 },
+    },
+    signals: { buy: ["ma_bullish"], sell: [] },
+    risk: {
+      stop_loss_percent: 3,
+      take_profit_percent: 8,
+      trailing_stop: { enabled: false, activation_percent: 5, callback_percent: 2 },
+      position_ratio: 0.2,
+      max_positions: 3,
+      max_position_per_symbol: 0.5,
+      max_total_loss_percent: 20,
+      daily_loss_limit_percent: 5,
+      minimal_roi: { "0": 0.05, "60": 0.02, "240": 0 },
+    },
+    ensemble: {
+      strategies: [
+        { id: "default", weight: 0.5 },
+        { id: "breakout", weight: 0.5 },
+      ],
+    },
+    ...extra,
+  } as StrategyConfig;
+}
+
+// ─────────────────────────────────────────────────────
+// config-path
+// ─────────────────────────────────────────────────────
+
+describe("config paths", () => {
+  it("parses keys, indexes and wildcards and formats them back", () => {
+    expect(parsePath("ensemble.strategies[1].weight")).toEqual(["ensemble", "strategies", 1, "weight"]);
+    expect(parsePath("risk.minimal_roi.*")).toEqual(["risk", "minimal_roi", "*"]);
+    expect(formatPath(parsePath("ensemble.strategies[*].weight"))).toBe("ensemble.strategies[*].weight");
+    expect(() => parsePath("risk..stop")).toThrow("Invalid config path");
+    expect(() => parsePath("a[x]")).toThrow("Invalid config path");
+  });
+
+  it("reads and writes without touching the original", () => {
+    const cfg = makeConfig();
+    expect(getPath(cfg, "ensemble.strategies[1].id")).toBe("breakout");
+    expect(getPath(cfg, "risk.nope.deeper")).toBeUndefined();
+
+    const next = setPath(cfg, "regime_overrides.reduced_size.stop_loss_percent", 1.5);
+    expect(next.regime_overrides).toEqual({ reduced_size: { stop_loss_percent: 1.5 } });
+    expect(cfg.regime_overrides).toBeUndefined();
+
+    const weighted = setPath(cfg, "ensemble.strategies[0].weight", 0.8);
+    expect(weighted.ensemble?.strategies[0]?.weight).toBe(0.8);
+    expect(cfg.ensemble?.strategies[0]?.weight).toBe(0.5);
+    expect(weighted.risk).toBe(cfg.risk); // untouched branches are shared
+  });
+
+  it("expands wildcards against the config", () => {
+    const cfg = makeConfig();
+    expect(expandPath(cfg, "risk.minimal_roi.*")).toEqual(["risk.minimal_roi.0", "risk.minimal_roi.60", "risk.minimal_roi.240"]);
+    expect(expandPath(cfg, "ensemble.strategies[*].weight")).toEqual([
+      "ensemble.strategies[0].weight",
+      "ensemble.strategies[1].weight",
+    ]);
+    expect(expandPath(cfg, "grid.levels")).toEqual(["grid.levels"]);
+    expect(expandPath(cfg, "grid.*")).toEqual([]);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Declarative spaces
+// ─────────────────────────────────────────────────────
+
+describe("compileParamSpace()", () => {
+  const specs: HyperoptParamSpec[] = [
+    { path: "risk.minimal_roi.*", type: "float", min: 0, max: 0.1 },
+    { path: "ensemble.strategies[*].weight", type: "float", min: 0, max: 1 },
+    { path: "strategy.ma.long", type: "categorical", choices: [100, 150, 200] },
+    { path: "risk.trailing_stop.enabled", type: "boolean" },
+    {
+      path: "risk.trailing_stop.callback_percent",
+      type: "float",
+      min: 0.5,
+      max: 4,
+      when: { "risk.trailing_stop.enabled": true },
+    },
+    { path: "regime_overrides.reduced_size.stop_loss_percent", type: "int", min: 1, max: 4 },
+  ];
+
+  it("expands wildcards into one parameter per concrete path", () => {
+    const space = compileParamSpace(specs, makeConfig(), "test");
+    expect(space.map((d) => d.name)).toEqual([
+      "risk.minimal_roi.0",
+      "risk.minimal_roi.60",
+      "risk.minimal_roi.240",
+      "ensemble.strategies[0].weight",
+      "ensemble.strategies[1].weight",
+      "strategy.ma.long",
+      "risk.trailing_stop.enabled",
+      "risk.trailing_stop.callback_percent",
+      "regime_overrides.reduced_size.stop_loss_percent",
+    ]);
+    const categorical = space.find((d) => d.type === "categorical");
+    expect(categorical).toMatchObject({ min: 0, max: 2, step: 1 });
+    expect(decodeParam(categorical!, 0.6)).toBe(1);
+  });
+
+  it("rejects invalid entries with the source and index", () => {
+    const cfg = makeConfig();
+    expect(() => compileParamSpace([{ path: "risk.stop_loss_percent", type: "float", min: 1 }], cfg, "trend.yaml hyperopt_space"))
+      .toThrow("trend.yaml hyperopt_space[0] (risk.stop_loss_percent): float parameter needs numeric min and max");
+    expect(() => compileParamSpace([{ path: "a.b", type: "int", min: 5, max: 1 }], cfg, "s")).toThrow("min 5 > max 1");
+    expect(() => compileParamSpace([{ path: "a.b", type: "categorical", choices: [] }], cfg, "s")).toThrow("non-empty choices");
+    expect(() => compileParamSpace([{ path: "grid.*", type: "float", min: 0, max: 1 }], cfg, "s")).toThrow("matches no config field");
+    expect(() => compileParamSpace(
+      [{ path: "risk.minimal_roi.60", type: "float", min: 0, max: 1 }, { path: "risk.minimal_roi.*", type: "float", min: 0, max: 1 }],
+      cfg,
+      "s"
+    )).toThrow("declared more than once");
+  });
+
+  it("applyParams decodes categorical / boolean values and honours conditions", () => {
+    const cfg = makeConfig();
+    const space = compileParamSpace(specs, cfg, "test");
+    const params = {
+      "risk.minimal_roi.60": 0.03,
+      "ensemble.strategies[1].weight": 0.9,
+      "strategy.ma.long": 2,
+      "risk.trailing_stop.enabled": 0,
+      "risk.trailing_stop.callback_percent": 3.5,
+      "regime_overrides.reduced_size.stop_loss_percent": 2.4,
+    };
+
+    const off = applyParams(params, cfg, space);
+    expect(off.risk.minimal_roi).toEqual({ "0": 0.05, "60": 0.03, "240": 0 });
+    expect(off.ensemble?.strategies.map((s) => s.weight)).toEqual([0.5, 0.9]);
+    expect(off.strategy.ma.long).toBe(200);
+    expect(off.risk.trailing_stop).toEqual({ enabled: false, activation_percent: 5, callback_percent: 2 });
+    expect(off.regime_overrides?.["reduced_size"]?.stop_loss_percent).toBe(2);
+
+    const on = applyParams({ ...params, "risk.trailing_stop.enabled": 1 }, cfg, space);
+    expect(on.risk.trailing_stop).toEqual({ enabled: true, activation_percent: 5, callback_percent: 3.5 });
+    expect(cfg.risk.trailing_stop.enabled).toBe(false);
+  });
+
+  it("paramsFromConfig() encodes the current values", () => {
+    const cfg = makeConfig();
+    const space = compileParamSpace(specs, cfg, "test");
+    const params = paramsFromConfig(space, { ...cfg, strategy: { ...cfg.strategy, ma: { short: 10, long: 150 } } });
+    expect(params["strategy.ma.long"]).toBe(1);
+    expect(params["risk.trailing_stop.enabled"]).toBe(0);
+    expect(params["ensemble.strategies[0].weight"]).toBe(0.5);
+    expect(params).not.toHaveProperty("regime_overrides.reduced_size.stop_loss_percent");
+    expect(applyParams(params, cfg, space).risk).toEqual(cfg.risk);
+  });
+});
+
+describe("paramSpaceFor() resolution", () => {
+  it("hyperopt_space > strategy plugin paramSpace > built-in space", () => {
+    const declared = makeConfig({
+      strategy_id: "grid",
+      grid: { levels: 7, spacing_percent: 1 },
+      hyperopt_space: [{ path: "grid.spacing_percent", type: "float", min: 0.5, max: 2 }],
+    });
+    expect(paramSpaceFor(declared).map((d) => d.name)).toEqual(["grid.spacing_percent"]);
+
+    const { hyperopt_space: _unused, ...plugin } = declared;
+    expect(paramSpaceFor(plugin).map((d) => d.name)).toContain("grid.levels");
+
+    expect(paramSpaceFor(makeConfig({ strategy_id: "ensemble" })).map((d) => d.name)).toEqual(
+      expect.arrayContaining(["ensemble.strategies[0].weight", "ensemble.strategies[1].weight"])
+    );
+    expect(paramSpaceFor(makeConfig())).toEqual(DEFAULT_PARAM_SPACE);
+  });
+
+  it("the trend profile's hyperopt_space compiles", () => {
+    const cfg = applyStrategyProfile(loadStrategyConfig(), loadStrategyProfile("trend"));
+    const names = paramSpaceFor(cfg).map((d) => d.name);
+    expect(names).toContain("strategy.ma.long");
+    expect(names).toContain("risk.trailing_stop.callback_percent");
+  });
+});
@@ -23,6 +23,7 @@ import {
 import type { ParamDef, ParamSet } from "../optimization/param-space.js";
 import { applyParams, evaluateParams } from "../optimization/objective.js";
 import { BayesianOptimizer, splitKlines } from "../optimization/bayesian.js";
+import { getLoss } from "../optimization/loss.js";
 import { runBacktest } from "../backtest/runner.js";
 
 // ─────────────────────────────────────────────────────
@@ -263,6 +264,19 @@ describe("evaluateParams", () => {
     expect(score).toBeCloseTo(1.5 - 0.5 * (20 / 100), 5);
   });
 
+  it("scores with the loss passed in the objective options", async () => {
+    const klineCache = new Map<string, Kline[]>([["BTCUSDT", makeKlines(300)]]);
+    const { score } = await evaluateParams({ ma_short: 10, ma_long: 50 }, "BTCUSDT", makeBaseCfg(), klineCache, {
+      loss: getLoss("calmar"),
+    });
+    expect(score).toBe(mockReturnValue.metrics.calmarRatio);
+
+    const nan = await evaluateParams({ ma_short: 10, ma_long: 50 }, "BTCUSDT", makeBaseCfg(), klineCache, {
+      loss: { name: "broken", description: "", score: () => NaN },
+    });
+    expect(nan.score).toBe(-999);
+  });
+
   it("throws error when klineCache has no matching symbol", async () => {
     const emptyCache = new Map<string, Kline[]>();
     await expect(
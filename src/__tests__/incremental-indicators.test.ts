@@ -0,0 +1,186 @@
+import { describe, it, expect } from "vitest";
+import {
+  IncrementalEma,
+  IncrementalRsi,
+  IncrementalAtr,
+  IncrementalMacd,
+  IncrementalVwap,
+  IncrementalIndicators,
+} from "../strategy/incremental-indicators.js";
+import { ema, rsi, atr, macd, calcVwap, calculateIndicators } from "../strategy/indicators.js";
+import type { Indicators, Kline } from "../types.js";
+
+// ─────────────────────────────────────────────────────
+// Test helpers
+// ─────────────────────────────────────────────────────
+
+/** Deterministic random walk (LCG), 1h bars across several UTC days, some zero-volume bars */
+function makeKlines(n: number, start = 30_000, seed = 7): Kline[] {
+  let s = seed;
+  const rand = (): number => {
+    s = (s * 1664525 + 1013904223) % 4294967296;
+    return s / 4294967296;
+  };
+  const klines: Kline[] = [];
+  let close = start;
+  for (let i = 0; i < n; i++) {
+    const open = close;
+    close = open * (1 + (rand() - 0.5) * 0.03);
+    klines.push({
+      openTime: 1_700_000_000_000 + i * 3600_000,
+      open,
+      high: Math.max(open, close) * (1 + rand() * 0.01),
+      low: Math.min(open, close) * (1 - rand() * 0.01),
+      close,
+      volume: i % 17 === 5 ? 0 : 100 + rand() * 900,
+      closeTime: 1_700_000_000_000 + (i + 1) * 3600_000 - 1,
+    });
+  }
+  return klines;
+}
+
+const PARAMS = { maShort: 9, maLong: 21, rsiPeriod: 14, macd: { enabled: true, fast: 12, slow: 26, signal: 9 } };
+
+function batch(klines: Kline[]): Indicators | null {
+  return calculateIndicators(klines, PARAMS.maShort, PARAMS.maLong, PARAMS.rsiPeriod, PARAMS.macd);
+}
+
+/** Compare the base fields (calculateIndicators also adds extended indicators) */
+function expectSameBase(actual: Indicators | null, expected: Indicators | null): void {
+  if (expected === null) {
+    expect(actual).toBeNull();
+    return;
+  }
+  expect(actual).not.toBeNull();
+  if (!actual) return;
+  for (const key of [
+    "maShort", "maLong", "prevMaShort", "prevMaLong", "rsi", "price", "volume", "avgVolume",
+    "atr", "cvd", "vwap", "vwapUpper1", "vwapLower1", "vwapUpper2", "vwapLower2", "prevPrice",
+  ] as const) {
+    const want = expected[key];
+    if (want === undefined) expect(actual[key], key).toBeUndefined();
+    else expect(actual[key], key).toBeCloseTo(want, 6);
+  }
+  if (!expected.macd) {
+    expect(actual.macd).toBeUndefined();
+  } else {
+    for (const key of ["macd", "signal", "histogram", "prevMacd", "prevSignal", "prevHistogram", "prevPrevHistogram"] as const) {
+      expect(actual.macd?.[key], `macd.${key}`).toBeCloseTo(expected.macd[key] ?? NaN, 8);
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────
+// Building blocks vs batch functions
+// ─────────────────────────────────────────────────────
+
+describe("incremental building blocks match the batch functions on every prefix", () => {
+  const klines = makeKlines(200);
+  const closes = klines.map((k) => k.close);
+
+  it("EMA / RSI / ATR", () => {
+    const e = new IncrementalEma(10);
+    const r = new IncrementalRsi(14);
+    const a = new IncrementalAtr(14);
+    klines.forEach((k, i) => {
+      const prefix = closes.slice(0, i + 1);
+      const ev = e.update(k.close);
+      const rv = r.update(k.close);
+      const av = a.update(k);
+      const eb = ema(prefix, 10);
+      const rb = rsi(prefix, 14);
+      const ab = atr(klines.slice(0, i + 1), 14);
+      if (Number.isNaN(eb)) expect(ev).toBeNaN();
+      else expect(ev).toBe(eb);
+      if (Number.isNaN(rb)) expect(rv).toBeNaN();
+      else expect(rv).toBe(rb);
+      if (Number.isNaN(ab)) expect(av).toBeNaN();
+      else expect(av).toBeCloseTo(ab, 9);
+    });
+  });
+
+  it("MACD", () => {
+    const m = new IncrementalMacd(12, 26, 9);
+    closes.forEach((c, i) => {
+      const got = m.update(c);
+      const want = macd(closes.slice(0, i + 1), 12, 26, 9);
+      if (!want) {
+        expect(got).toBeNull();
+        return;
+      }
+      expect(got?.macd).toBeCloseTo(want.macd, 9);
+      expect(got?.signal).toBeCloseTo(want.signal, 9);
+      expect(got?.prevHistogram).toBeCloseTo(want.prevHistogram ?? NaN, 9);
+      expect(got?.prevPrevHistogram).toBeCloseTo(want.prevPrevHistogram ?? NaN, 9);
+    });
+  });
+
+  it("VWAP resets at the UTC day boundary", () => {
+    const v = new IncrementalVwap();
+    klines.forEach((k, i) => {
+      const got = v.update(k);
+      const want = calcVwap(klines.slice(0, i + 1));
+      if (!want) {
+        expect(got).toBeNull();
+        return;
+      }
+      expect(got?.vwap).toBeCloseTo(want.vwap, 6);
+      expect(got?.upper2).toBeCloseTo(want.upper2, 6);
+      expect(got?.lower1).toBeCloseTo(want.lower1, 6);
+    });
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// IncrementalIndicators vs calculateIndicators
+// ─────────────────────────────────────────────────────
+
+describe("IncrementalIndicators", () => {
+  const klines = makeKlines(150);
+
+  it("matches calculateIndicators() on every prefix", () => {
+    const stream = new IncrementalIndicators(PARAMS);
+    klines.forEach((k, i) => {
+      expectSameBase(stream.update(k, true), batch(klines.slice(0, i + 1)));
+    });
+  });
+
+  it("without MACD enabled leaves macd unset", () => {
+    const stream = new IncrementalIndicators({ ...PARAMS, macd: { ...PARAMS.macd, enabled: false } });
+    expect(stream.seed(klines)?.macd).toBeUndefined();
+  });
+
+  it("previews an in-progress candle without committing it", () => {
+    const stream = new IncrementalIndicators(PARAMS);
+    stream.seed(klines.slice(0, 100));
+    const next = klines[100];
+    if (!next) throw new Error("fixture");
+    const partial: Kline = { ...next, close: next.open * 1.01, high: next.open * 1.02, volume: next.volume / 3 };
+
+    expectSameBase(stream.update(partial, false), batch([...klines.slice(0, 100), partial]));
+    expectSameBase(stream.value, batch(klines.slice(0, 100)));
+    expectSameBase(stream.update(next, true), batch(klines.slice(0, 101)));
+  });
+
+  it("replaces the last committed candle when it arrives again (preloaded while open)", () => {
+    const stream = new IncrementalIndicators(PARAMS);
+    const last = klines[119];
+    if (!last) throw new Error("fixture");
+    const stillOpen: Kline = { ...last, close: last.open, volume: 1 };
+    stream.seed([...klines.slice(0, 119), stillOpen]);
+
+    // In-progress update of the same candle, then its final close
+    expectSameBase(stream.update({ ...last, close: last.open * 0.99 }, false), batch([...klines.slice(0, 119), { ...last, close: last.open * 0.99 }]));
+    expectSameBase(stream.update(last, true), batch(klines.slice(0, 120)));
+    expectSameBase(stream.update(klines[120] ?? last, true), batch(klines.slice(0, 121)));
+  });
+
+  it("a duplicate close message does not double count", () => {
+    const stream = new IncrementalIndicators(PARAMS);
+    stream.seed(klines.slice(0, 80));
+    const k = klines[80];
+    if (!k) throw new Error("fixture");
+    stream.update(k, true);
+    expectSameBase(stream.update(k, true), batch(klines.slice(0, 81)));
+  });
+});
@@ -0,0 +1,311 @@
+import { describe, it, expect } from "vitest";
+import {
+  rsi,
+  atr,
+  ema,
+  rsiArray,
+  atrArray,
+  stochRsiSeries,
+  ichimokuSeries,
+  supertrendSeries,
+  keltnerSeries,
+  obvSeries,
+  donchianSeries,
+  mfiSeries,
+  heikinAshi,
+  indicatorWarmupBars,
+  calculateIndicators,
+} from "../strategy/indicators.js";
+import { detectSignal, signalWarmupBars } from "../strategy/signals.js";
+import { DEFAULT_PARAM_SPACE, paramSpaceFor } from "../optimization/param-space.js";
+import { applyParams } from "../optimization/objective.js";
+import { mergeStrategySection } from "../config/loader.js";
+import type { Kline, StrategyConfig } from "../types.js";
+
+// ─────────────────────────────────────────────────────
+// Test helpers
+// ─────────────────────────────────────────────────────
+
+/** Trending sine wave with a high/low range and varying volume */
+function makeKlines(n: number, trend = 0.2): Kline[] {
+  return Array.from({ length: n }, (_, i) => {
+    const close = 100 + trend * i + 8 * Math.sin(i / 6);
+    const open = 100 + trend * (i - 1) + 8 * Math.sin((i - 1) / 6);
+    return {
+      openTime: i * 3600_000,
+      open,
+      high: Math.max(open, close) + 1 + (i % 3) * 0.5,
+      low: Math.min(open, close) - 1 - (i % 4) * 0.25,
+      close,
+      volume: 1000 + (i % 7) * 150,
+      closeTime: (i + 1) * 3600_000 - 1,
+    };
+  });
+}
+
+function makeConfig(buy: string[]): StrategyConfig {
+  return {
+    symbols: ["BTCUSDT"],
+    timeframe: "1h",
+    strategy: {
+      name: "test",
+      enabled: true,
+      ma: { short: 20, long: 60 },
+      rsi: { period: 14, oversold: 30, overbought: 70 },
+      macd: { enabled: false, fast: 12, slow: 26, signal: 9 },
+    },
+    signals: { buy, sell: [] },
+    risk: {
+      stop_loss_percent: 5,
+      take_profit_percent: 10,
+      trailing_stop: { enabled: false, activation_percent: 5, callback_percent: 2 },
+      max_total_loss_percent: 20,
+      position_ratio: 0.2,
+      max_positions: 4,
+      max_position_per_symbol: 0.3,
+      daily_loss_limit_percent: 8,
+    },
+    execution: {
+      order_type: "market",
+      limit_order_offset_percent: 0.1,
+      min_order_usdt: 10,
+      limit_order_timeout_seconds: 300,
+    },
+    notify: {
+      on_signal: true,
+      on_trade: true,
+      on_stop_loss: true,
+      on_take_profit: true,
+      on_error: true,
+      on_daily_summary: true,
+      min_interval_minutes: 30,
+    },
+    news: { enabled: true, interval_hours: 4, price_alert_threshold: 5, fear_greed_alert: 15 },
+    schedule: {},
+    mode: "paper",
+  };
+}
+
+const last = (values: number[]): number => values[values.length - 1] ?? NaN;
+
+// ─────────────────────────────────────────────────────
+// Full-series building blocks
+// ─────────────────────────────────────────────────────
+
+describe("rsiArray() / atrArray()", () => {
+  const klines = makeKlines(120);
+  const closes = klines.map((k) => k.close);
+
+  it("match rsi() / atr() on every prefix", () => {
+    const rsiSeries = rsiArray(closes, 14);
+    const atrSeries = atrArray(klines, 14);
+    for (const n of [15, 16, 40, 120]) {
+      expect(rsiSeries[n - 1]).toBeCloseTo(rsi(closes.slice(0, n), 14), 9);
+      expect(atrSeries[n - 1]).toBeCloseTo(atr(klines.slice(0, n), 14), 9);
+    }
+  });
+
+  it("are NaN until enough history and aligned with the input", () => {
+    const series = rsiArray(closes, 14);
+    expect(series).toHaveLength(closes.length);
+    expect(series[13]).toBeNaN();
+    expect(series[14]).not.toBeNaN();
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Indicators
+// ─────────────────────────────────────────────────────
+
+describe("stochRsiSeries()", () => {
+  it("matches a direct computation on the last bar and stays in 0-100", () => {
+    const closes = makeKlines(150).map((k) => k.close);
+    const { k, d } = stochRsiSeries(closes, 14, 14, 3, 3);
+    const rsis = rsiArray(closes, 14);
+    const raw = (i: number): number => {
+      const win = rsis.slice(i - 13, i + 1);
+      return ((rsis[i] ?? 0) - Math.min(...win)) / (Math.max(...win) - Math.min(...win)) * 100;
+    };
+    const n = closes.length - 1;
+    const kAt = (i: number): number => (raw(i) + raw(i - 1) + raw(i - 2)) / 3;
+    expect(last(k)).toBeCloseTo(kAt(n), 9);
+    expect(last(d)).toBeCloseTo((kAt(n) + kAt(n - 1) + kAt(n - 2)) / 3, 9);
+    for (const v of k.filter(Number.isFinite)) {
+      // Running-sum rounding only
+      expect(v).toBeGreaterThanOrEqual(-1e-9);
+      expect(v).toBeLessThanOrEqual(100 + 1e-9);
+    }
+  });
+});
+
+describe("ichimokuSeries()", () => {
+  it("computes midpoint lines and displaces the spans by kijun bars", () => {
+    const klines = makeKlines(120);
+    const { tenkan, kijun, spanA, spanB } = ichimokuSeries(klines, 9, 26, 52);
+    const mid = (end: number, period: number): number => {
+      const win = klines.slice(end - period + 1, end + 1);
+      return (Math.max(...win.map((k) => k.high)) + Math.min(...win.map((k) => k.low))) / 2;
+    };
+    const n = klines.length - 1;
+    expect(tenkan[n]).toBeCloseTo(mid(n, 9), 9);
+    expect(kijun[n]).toBeCloseTo(mid(n, 26), 9);
+    expect(spanA[n]).toBeCloseTo((mid(n - 26, 9) + mid(n - 26, 26)) / 2, 9);
+    expect(spanB[n]).toBeCloseTo(mid(n - 26, 52), 9);
+    expect(spanB[52 + 26 - 2]).toBeNaN();
+    expect(spanB[52 + 26 - 1]).not.toBeNaN();
+  });
+});
+
+describe("supertrendSeries()", () => {
+  it("follows an uptrend below price and flips on a crash", () => {
+    const up = makeKlines(60, 1.5).map((k) => ({ ...k }));
+    const { value, direction } = supertrendSeries(up, 10, 3);
+    expect(last(direction)).toBe(1);
+    expect(last(value)).toBeLessThan(up[up.length - 1]?.close ?? 0);
+
+    const lastClose = up[up.length - 1]?.close ?? 0;
+    const crash: Kline[] = Array.from({ length: 5 }, (_, i) => {
+      const close = lastClose * (1 - 0.08 * (i + 1));
+      return { openTime: (60 + i) * 3600_000, open: close * 1.02, high: close * 1.03, low: close * 0.99, close, volume: 1000, closeTime: 0 };
+    });
+    const after = supertrendSeries([...up, ...crash], 10, 3);
+    expect(last(after.direction)).toBe(-1);
+    expect(last(after.value)).toBeGreaterThan(crash[crash.length - 1]?.close ?? 0);
+  });
+});
+
+describe("keltnerSeries()", () => {
+  it("is EMA ± multiplier × ATR", () => {
+    const klines = makeKlines(80);
+    const { upper, middle, lower } = keltnerSeries(klines, 20, 10, 2);
+    const mid = ema(klines.map((k) => k.close), 20);
+    const a = atr(klines, 10);
+    expect(last(middle)).toBeCloseTo(mid, 9);
+    expect(last(upper)).toBeCloseTo(mid + 2 * a, 9);
+    expect(last(lower)).toBeCloseTo(mid - 2 * a, 9);
+    expect(middle).toHaveLength(klines.length);
+  });
+});
+
+describe("obvSeries() / donchianSeries() / mfiSeries() / heikinAshi()", () => {
+  const k = (close: number, high: number, low: number, volume: number, open = close): Kline => ({
+    openTime: 0, open, high, low, close, volume, closeTime: 0,
+  });
+
+  it("obv adds volume on up closes and subtracts on down closes", () => {
+    const klines = [k(10, 10, 10, 100), k(11, 11, 11, 200), k(11, 11, 11, 300), k(9, 9, 9, 50)];
+    expect(obvSeries(klines)).toEqual([0, 200, 200, 150]);
+  });
+
+  it("donchian uses the previous N bars only", () => {
+    const klines = [k(5, 6, 4, 1), k(7, 9, 6, 1), k(6, 7, 3, 1), k(20, 21, 19, 1)];
+    const { upper, lower } = donchianSeries(klines, 2);
+    expect(upper[1]).toBeNaN();
+    expect(upper[2]).toBe(9);
+    expect(upper[3]).toBe(9);
+    expect(lower[3]).toBe(3);
+  });
+
+  it("mfi is 100 with only positive money flow and matches a direct computation", () => {
+    const rising = Array.from({ length: 20 }, (_, i) => k(10 + i, 11 + i, 9 + i, 100));
+    expect(last(mfiSeries(rising, 14))).toBe(100);
+
+    const klines = makeKlines(40);
+    const tp = klines.map((x) => (x.high + x.low + x.close) / 3);
+    let pos = 0;
+    let neg = 0;
+    for (let i = klines.length - 14; i < klines.length; i++) {
+      const flow = (tp[i] ?? 0) * (klines[i]?.volume ?? 0);
+      if ((tp[i] ?? 0) > (tp[i - 1] ?? 0)) pos += flow;
+      else if ((tp[i] ?? 0) < (tp[i - 1] ?? 0)) neg += flow;
+    }
+    expect(last(mfiSeries(klines, 14))).toBeCloseTo(100 - 100 / (1 + pos / neg), 9);
+  });
+
+  it("heikin-ashi averages the candle and chains the open", () => {
+    const ha = heikinAshi([k(12, 13, 9, 1, 10), k(14, 15, 11, 1, 12)]);
+    expect(ha[0]?.close).toBe(11);
+    expect(ha[0]?.open).toBe(11);
+    expect(ha[1]?.open).toBe(11);
+    expect(ha[1]?.close).toBe(13);
+    expect(ha[1]?.high).toBe(15);
+    expect(ha[1]?.low).toBe(11);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// calculateIndicators / signals / hyperopt wiring
+// ─────────────────────────────────────────────────────
+
+describe("extended indicators in calculateIndicators()", () => {
+  it("fills every extended field with enough history", () => {
+    const ind = calculateIndicators(makeKlines(150), 20, 60, 14);
+    expect(ind).not.toBeNull();
+    for (const key of [
+      "stochRsiK", "stochRsiD", "ichimokuTenkan", "ichimokuKijun", "ichimokuSpanA", "ichimokuSpanB",
+      "supertrend", "supertrendDirection", "keltnerUpper", "keltnerMiddle", "keltnerLower",
+      "obv", "obvMa", "donchianUpper", "donchianLower", "mfi", "haOpen", "haClose",
+    ] as const) {
+      expect(ind?.[key], key).toBeDefined();
+    }
+  });
+
+  it("leaves the cloud undefined when history is too short and honours strategy.indicators", () => {
+    const ind = calculateIndicators(makeKlines(70), 20, 60, 14);
+    expect(ind?.ichimokuSpanB).toBeUndefined();
+    const klines = makeKlines(150);
+    const custom = calculateIndicators(klines, 20, 60, 14, undefined, { donchian: { period: 5 } });
+    const prev5 = klines.slice(-6, -1);
+    expect(custom?.donchianUpper).toBe(Math.max(...prev5.map((k) => k.high)));
+  });
+
+  it("named conditions and expressions read the new fields", () => {
+    const ind = calculateIndicators(makeKlines(150, 1.5), 20, 60, 14);
+    if (!ind) throw new Error("indicators");
+    expect(detectSignal("X", ind, makeConfig(["supertrend_bullish", "ichimoku_above_cloud"])).type).toBe("buy");
+    expect(detectSignal("X", ind, makeConfig(["supertrend_bearish"])).type).toBe("none");
+    expect(detectSignal("X", ind, makeConfig(["close > supertrend and supertrend_direction == 1"])).type).toBe("buy");
+    const cfg = makeConfig(["mfi_overbought"]);
+    cfg.strategy.indicators = { mfi: { overbought: (ind.mfi ?? 0) - 1 } };
+    expect(detectSignal("X", ind, cfg).type).toBe("buy");
+  });
+
+  it("warmup covers the indicators the conditions use", () => {
+    expect(indicatorWarmupBars("ichimoku_above_cloud")).toBe(78);
+    expect(indicatorWarmupBars("ma_bullish")).toBe(0);
+    expect(signalWarmupBars(makeConfig(["ichimoku_above_cloud"]))).toBe(78);
+    expect(signalWarmupBars(makeConfig(["close > donchian_upper"]))).toBe(21);
+    const cfg = makeConfig(["ichimoku_above_cloud"]);
+    cfg.strategy.indicators = { ichimoku: { kijun: 30, senkou_b: 60 } };
+    expect(signalWarmupBars(cfg)).toBe(90);
+  });
+});
+
+describe("hyperopt parameters for extended indicators", () => {
+  it("paramSpaceFor() adds only the indicators the config uses", () => {
+    expect(paramSpaceFor(makeConfig(["ma_bullish"]))).toEqual(DEFAULT_PARAM_SPACE);
+    const names = paramSpaceFor(makeConfig(["supertrend_bullish", "mfi < 30"])).map((d) => d.name);
+    expect(names).toEqual(expect.arrayContaining(["supertrend_period", "supertrend_multiplier", "mfi_period"]));
+    expect(names).not.toContain("keltner_multiplier");
+  });
+
+  it("applyParams() writes them into strategy.indicators", () => {
+    const base = makeConfig(["supertrend_bullish"]);
+    base.strategy.indicators = { supertrend: { period: 10 }, mfi: { period: 14 } };
+    const cfg = applyParams({ supertrend_multiplier: 2.5, donchian_period: 34.6 }, base);
+    expect(cfg.strategy.indicators).toEqual({
+      supertrend: { period: 10, multiplier: 2.5 },
+      mfi: { period: 14 },
+      donchian: { period: 35 },
+    });
+    expect(base.strategy.indicators).toEqual({ supertrend: { period: 10 }, mfi: { period: 14 } });
+    expect(applyParams({ ma_short: 10 }, makeConfig([])).strategy.indicators).toBeUndefined();
+  });
+
+  it("profile indicators merge per indicator over strategy.yaml", () => {
+    const base = makeConfig([]).strategy;
+    base.indicators = { stoch_rsi: { rsi_period: 10, oversold: 15 }, obv: { ma_period: 30 } };
+    const merged = mergeStrategySection(base, { indicators: { stoch_rsi: { oversold: 25 } } });
+    expect(merged.indicators).toEqual({ stoch_rsi: { rsi_period: 10, oversold: 25 }, obv: { ma_period: 30 } });
+  });
+});
@@ -0,0 +1,450 @@
+/**
+ * LiveExecutor limit-order path (execution.order_type = "limit")
+ *
+ * Maker-first placement at the configured offset, working orders advanced once per monitor loop
+ * (reprice, post-only rejections, partial fills through the PendingOrder state machine, market
+ * fallback on timeout). Account I/O is kept in memory, the exchange is a scripted ExchangeAdapter,
+ * the clock is faked.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const { store } = vi.hoisted(() => ({
+  store: { account: null as unknown },
+}));
+
+vi.mock("../paper/account.js", async (importOriginal) => {
+  const actual = await importOriginal<Record<string, unknown>>();
+  return {
+    ...actual,
+    loadAccount: vi.fn(() => store.account),
+    saveAccount: vi.fn(),
+  };
+});
+
+vi.mock("../notify/openclaw.js", () => ({
+  sendTelegramMessage: vi.fn(),
+}));
+
+import { LiveExecutor, type LiveEngineResult } from "../live/executor.js";
+import type { ExchangeAdapter, OrderResponse, OrderStatus } from "../exchange/adapter.js";
+import type { PaperAccount } from "../paper/account.js";
+import type { RuntimeConfig, Signal } from "../types.js";
+
+// ─── Helpers ────────────────────────────────
+
+function makeAccount(): PaperAccount {
+  return {
+    initialUsdt: 10000,
+    usdt: 10000,
+    positions: {},
+    trades: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    dailyLoss: { date: new Date().toISOString().slice(0, 10), loss: 0 },
+  };
+}
+
+function makeConfig(market: "spot" | "futures" = "spot"): RuntimeConfig {
+  return {
+    exchange: { market, testnet: true },
+    symbols: ["BTCUSDT"],
+    timeframe: "1h",
+    strategy: {
+      name: "test",
+      enabled: true,
+      ma: { short: 20, long: 60 },
+      rsi: { period: 14, oversold: 35, overbought: 65 },
+      macd: { enabled: false, fast: 12, slow: 26, signal: 9 },
+    },
+    signals: { buy: [], sell: [] },
+    risk: {
+      stop_loss_percent: 4,
+      take_profit_percent: 10,
+      trailing_stop: { enabled: false, activation_percent: 5, callback_percent: 2 },
+      position_ratio: 0.06,
+      max_positions: 4,
+      max_position_per_symbol: 0.3,
+      max_total_loss_percent: 20,
+      daily_loss_limit_percent: 8,
+    },
+    execution: {
+      order_type: "limit",
+      limit_order_offset_percent: 0.1,
+      min_order_usdt: 10,
+      limit_order_timeout_seconds: 60,
+      limit_order_reprice_seconds: 15,
+    },
+    notify: {
+      on_signal: false,
+      on_trade: false,
+      on_stop_loss: false,
+      on_take_profit: false,
+      on_error: false,
+      on_daily_summary: false,
+      min_interval_minutes: 30,
+    },
+    news: { enabled: false, interval_hours: 24, price_alert_threshold: 5, fear_greed_alert: 20 },
+    mode: "testnet",
+    paper: {
+      scenarioId: "test-limit-orders",
+      initial_usdt: 10000,
+      fee_rate: 0.001,
+      slippage_percent: 0,
+      report_interval_hours: 24,
+    },
+  };
+}
+
+function makeSignal(type: Signal["type"] = "buy"): Signal {
+  return {
+    symbol: "BTCUSDT",
+    type,
+    price: 60000,
+    indicators: { maShort: 0, maLong: 0, rsi: 50, price: 60000, volume: 0, avgVolume: 0 },
+    reason: ["test"],
+    timestamp: Date.now(),
+  };
+}
+
+function orderRes(
+  orderId: number,
+  status: OrderStatus,
+  executedQty: number,
+  price: number,
+  side = "BUY"
+): OrderResponse {
+  return {
+    symbol: "BTCUSDT",
+    orderId,
+    clientOrderId: `c${orderId}`,
+    transactTime: Date.now(),
+    price: String(price),
+    origQty: "0",
+    executedQty: String(executedQty),
+    status,
+    type: "LIMIT",
+    side,
+  };
+}
+
+function makeMocks() {
+  return {
+    getPrice: vi.fn<ExchangeAdapter["getPrice"]>().mockResolvedValue(60000),
+    getSymbolInfo: vi.fn<ExchangeAdapter["getSymbolInfo"]>().mockResolvedValue({
+      symbol: "BTCUSDT", baseAsset: "BTC", quoteAsset: "USDT", minQty: 0.0001, maxQty: 1000,
+      stepSize: 0.0001, tickSize: 0.01, minNotional: 5, pricePrecision: 2, quantityPrecision: 4,
+    }),
+    getUsdtBalance: vi.fn<ExchangeAdapter["getUsdtBalance"]>().mockResolvedValue(10000),
+    marketBuy: vi.fn<ExchangeAdapter["marketBuy"]>(),
+    marketSell: vi.fn<ExchangeAdapter["marketSell"]>(),
+    marketBuyByQty: vi.fn<ExchangeAdapter["marketBuyByQty"]>(),
+    placeLimitOrder: vi.fn<ExchangeAdapter["placeLimitOrder"]>(),
+    placeStopLossOrder: vi.fn<ExchangeAdapter["placeStopLossOrder"]>().mockResolvedValue(orderRes(-1, "NEW", 0, 0)),
+    placeTakeProfitOrder: vi.fn<ExchangeAdapter["placeTakeProfitOrder"]>().mockResolvedValue(orderRes(-1, "NEW", 0, 0)),
+    cancelOrder: vi.fn<ExchangeAdapter["cancelOrder"]>().mockResolvedValue(orderRes(0, "CANCELED", 0, 0)),
+    getOrder: vi.fn<ExchangeAdapter["getOrder"]>(),
+  };
+}
+
+/** Scripted adapter: only the calls the executor makes on these paths are mocked */
+function asAdapter(m: ReturnType<typeof makeMocks>): ExchangeAdapter {
+  return { name: "fake", ...m } as unknown as ExchangeAdapter;
+}
+
+function workingCount(): number {
+  return Object.keys((store.account as PaperAccount).workingOrders ?? {}).length;
+}
+
+/** Monitor loop stand-in: advance working orders every stepMs until none is left */
+async function work(
+  executor: LiveExecutor,
+  first: Promise<LiveEngineResult>,
+  stepMs = 15_000
+): Promise<LiveEngineResult> {
+  let result = await first;
+  for (let i = 0; i < 20 && workingCount() > 0; i++) {
+    vi.advanceTimersByTime(stepMs);
+    const done = await executor.advanceWorkingOrders();
+    result = done[0] ?? result;
+  }
+  return result;
+}
+
+// ─── Tests ────────────────────────────────
+
+describe("LiveExecutor limit orders", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store.account = makeAccount();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("posts a post-only buy below the current price and records the maker fill", async () => {
+    const m = makeMocks();
+    m.placeLimitOrder.mockResolvedValue(orderRes(10, "NEW", 0, 59940));
+    m.getOrder.mockResolvedValue(orderRes(10, "FILLED", 0.01, 59940));
+    const executor = new LiveExecutor(makeConfig(), asAdapter(m));
+
+    const result = await work(executor, executor.handleBuy(makeSignal()));
+
+    expect(m.placeLimitOrder).toHaveBeenCalledTimes(1);
+    const [symbol, side, qty, price, opts] = m.placeLimitOrder.mock.calls[0] ?? [];
+    expect(symbol).toBe("BTCUSDT");
+    expect(side).toBe("BUY");
+    expect(qty).toBeCloseTo(0.01, 10);
+    expect(price).toBeCloseTo(59940, 6);
+    expect(opts).toEqual({ postOnly: true, reduceOnly: false });
+    expect(m.marketBuy).not.toHaveBeenCalled();
+    expect(m.marketBuyByQty).not.toHaveBeenCalled();
+    expect(m.cancelOrder).not.toHaveBeenCalled();
+
+    const account = store.account as PaperAccount;
+    expect(result.trade?.price).toBeCloseTo(59940, 6);
+    expect(account.positions["BTCUSDT"]?.quantity).toBeCloseTo(0.01, 10);
+    expect(Object.keys(account.openOrders ?? {})).toHaveLength(0);
+  });
+
+  it("cancels a partially filled order and re-posts the remainder at the refreshed price", async () => {
+    const m = makeMocks();
+    m.getPrice.mockResolvedValueOnce(60000).mockResolvedValueOnce(60500);
+    m.placeLimitOrder
+      .mockResolvedValueOnce(orderRes(20, "NEW", 0, 59940))
+      .mockResolvedValueOnce(orderRes(22, "NEW", 0, 60439.5));
+    m.getOrder
+      .mockResolvedValueOnce(orderRes(20, "PARTIALLY_FILLED", 0.004, 59940))
+      .mockResolvedValueOnce(orderRes(20, "CANCELED", 0.004, 59940))
+      .mockResolvedValueOnce(orderRes(22, "FILLED", 0.006, 60439.5));
+
+    // Snapshot the state table while the first order is still working
+    let registeredWhileWorking = false;
+    m.cancelOrder.mockImplementation(() => {
+      registeredWhileWorking = (store.account as PaperAccount).openOrders?.[20]?.status === "pending";
+      return Promise.resolve(orderRes(20, "CANCELED", 0.004, 59940));
+    });
+
+    const executor = new LiveExecutor(makeConfig(), asAdapter(m));
+    const result = await work(executor, executor.handleBuy(makeSignal()));
+
+    expect(registeredWhileWorking).toBe(true);
+    expect(m.cancelOrder).toHaveBeenCalledWith("BTCUSDT", 20);
+    expect(m.placeLimitOrder).toHaveBeenCalledTimes(2);
+    const second = m.placeLimitOrder.mock.calls[1] ?? [];
+    expect(second[2]).toBeCloseTo(0.006, 10);
+    expect(second[3]).toBeCloseTo(60500 * 0.999, 6);
+
+    const pos = (store.account as PaperAccount).positions["BTCUSDT"];
+    expect(pos?.quantity).toBeCloseTo(0.01, 10);
+    expect(pos?.entryPrice).toBeCloseTo((0.004 * 59940 + 0.006 * 60439.5) / 0.01, 6);
+    expect(result.trade?.quantity).toBeCloseTo(0.01, 10);
+    expect(Object.keys((store.account as PaperAccount).openOrders ?? {})).toHaveLength(0);
+  });
+
+  it("falls back to market for the unfilled remainder after the timeout", async () => {
+    const m = makeMocks();
+    let nextId = 100;
+    m.placeLimitOrder.mockImplementation(() => Promise.resolve(orderRes(nextId += 2, "NEW", 0, 59940)));
+    const cancelled = new Set<number>();
+    m.cancelOrder.mockImplementation((_s: string, id: number) => {
+      cancelled.add(id);
+      return Promise.resolve(orderRes(id, "CANCELED", 0, 59940));
+    });
+    m.getOrder.mockImplementation((_s: string, id: number) =>
+      Promise.resolve(orderRes(id, cancelled.has(id) ? "CANCELED" : "NEW", 0, 59940)));
+    m.marketBuyByQty.mockResolvedValue({
+      ...orderRes(999, "FILLED", 0.01, 0),
+      fills: [{ price: "60030", qty: "0.01", commission: "0.6", commissionAsset: "USDT" }],
+    });
+
+    const executor = new LiveExecutor(makeConfig(), asAdapter(m));
+    const result = await work(executor, executor.handleBuy(makeSignal()));
+
+    // 60s timeout / 15s reprice = 4 limit attempts, each cancelled (one step per monitor loop)
+    expect(m.placeLimitOrder).toHaveBeenCalledTimes(4);
+    expect(m.cancelOrder).toHaveBeenCalledTimes(4);
+    expect(m.marketBuyByQty).toHaveBeenCalledTimes(1);
+    expect(m.marketBuyByQty.mock.calls[0]?.[1]).toBeCloseTo(0.01, 10);
+    expect(result.trade?.price).toBeCloseTo(60030, 6);
+    expect(result.trade?.fee).toBeCloseTo(0.6, 10);
+    expect(Object.keys((store.account as PaperAccount).openOrders ?? {})).toHaveLength(0);
+  });
+
+  it("re-prices a rejected post-only order without cancelling it", async () => {
+    const m = makeMocks();
+    m.placeLimitOrder
+      .mockResolvedValueOnce(orderRes(30, "EXPIRED", 0, 59940))
+      .mockResolvedValueOnce(orderRes(32, "NEW", 0, 59940));
+    m.getOrder.mockResolvedValue(orderRes(32, "FILLED", 0.01, 59940));
+
+    const executor = new LiveExecutor(makeConfig(), asAdapter(m));
+    await work(executor, executor.handleBuy(makeSignal()));
+
+    expect(m.placeLimitOrder).toHaveBeenCalledTimes(2);
+    expect(m.cancelOrder).not.toHaveBeenCalled();
+    expect(m.getOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it("goes straight to market when placement fails for a reason other than post-only", async () => {
+    const m = makeMocks();
+    m.placeLimitOrder.mockRejectedValue(new Error("Binance API Error -1013: Filter failure: PRICE_FILTER"));
+    m.marketBuyByQty.mockResolvedValue(orderRes(40, "FILLED", 0.01, 0));
+
+    const executor = new LiveExecutor(makeConfig(), asAdapter(m));
+    const result = await work(executor, executor.handleBuy(makeSignal()));
+
+    expect(m.marketBuyByQty).toHaveBeenCalledTimes(1);
+    expect(result.trade?.price).toBe(60000); // no fill list / price -> last quoted price
+  });
+
+  it("re-prices after the wait when the venue rejects a post-only order as taker", async () => {
+    const m = makeMocks();
+    m.placeLimitOrder
+      .mockRejectedValueOnce(new Error("Binance API Error -2010: Order would immediately match and take."))
+      .mockResolvedValueOnce(orderRes(72, "NEW", 0, 59940));
+    m.getOrder.mockResolvedValue(orderRes(72, "FILLED", 0.01, 59940));
+
+    const executor = new LiveExecutor(makeConfig(), asAdapter(m));
+    const first = await executor.handleBuy(makeSignal());
+    expect(first.trade).toBeNull();
+    expect(first.skipped).toContain("working");
+
+    // Not re-posted before the reprice interval has passed
+    vi.advanceTimersByTime(5_000);
+    await executor.advanceWorkingOrders();
+    expect(m.placeLimitOrder).toHaveBeenCalledTimes(1);
+
+    const result = await work(executor, Promise.resolve(first), 10_000);
+    expect(m.placeLimitOrder).toHaveBeenCalledTimes(2);
+    expect(m.marketBuyByQty).not.toHaveBeenCalled();
+    expect(result.trade?.price).toBeCloseTo(59940, 6);
+  });
+
+  it("returns to the caller while the order works instead of blocking the loop", async () => {
+    const m = makeMocks();
+    m.placeLimitOrder.mockResolvedValue(orderRes(74, "NEW", 0, 59940));
+    const executor = new LiveExecutor(makeConfig(), asAdapter(m));
+
+    const result = await executor.handleBuy(makeSignal());
+
+    expect(result.trade).toBeNull();
+    expect(m.getOrder).not.toHaveBeenCalled();
+    const working = (store.account as PaperAccount).workingOrders?.["BTCUSDT"];
+    expect(working?.child?.orderId).toBe(74);
+    expect((store.account as PaperAccount).openOrders?.[74]?.status).toBe("pending");
+    // A second signal while the order works does not stack another one
+    expect((await executor.handleBuy(makeSignal())).skipped).toContain("already working");
+  });
+
+  it("keeps partial fills through exchange errors and books them once the order completes", async () => {
+    const m = makeMocks();
+    m.getPrice
+      .mockResolvedValueOnce(60000)
+      .mockResolvedValueOnce(60000)
+      .mockRejectedValueOnce(new Error("ECONNRESET"))
+      .mockResolvedValue(60000);
+    m.placeLimitOrder
+      .mockResolvedValueOnce(orderRes(80, "NEW", 0, 59940))
+      .mockResolvedValueOnce(orderRes(82, "NEW", 0, 59940));
+    m.getOrder
+      .mockResolvedValueOnce(orderRes(80, "PARTIALLY_FILLED", 0.004, 59940))
+      .mockResolvedValueOnce(orderRes(80, "CANCELED", 0.004, 59940))
+      .mockRejectedValueOnce(new Error("Request timeout"))
+      .mockResolvedValueOnce(orderRes(82, "FILLED", 0.006, 59940));
+
+    const executor = new LiveExecutor(makeConfig(), asAdapter(m));
+    await executor.handleBuy(makeSignal());
+    vi.advanceTimersByTime(15_000);
+    await executor.advanceWorkingOrders(); // partial 0.004 settled, remainder re-posted
+    vi.advanceTimersByTime(15_000);
+    await executor.advanceWorkingOrders(); // price fetch fails
+    vi.advanceTimersByTime(15_000);
+    await executor.advanceWorkingOrders(); // order query fails
+
+    const working = (store.account as PaperAccount).workingOrders?.["BTCUSDT"];
+    expect(working?.filledQty).toBeCloseTo(0.004, 10);
+    expect(working?.child?.orderId).toBe(82);
+    expect((store.account as PaperAccount).positions["BTCUSDT"]).toBeUndefined();
+
+    vi.advanceTimersByTime(15_000);
+    const [done] = await executor.advanceWorkingOrders();
+    expect(done?.trade?.quantity).toBeCloseTo(0.01, 10);
+    expect((store.account as PaperAccount).positions["BTCUSDT"]?.quantity).toBeCloseTo(0.01, 10);
+    expect(workingCount()).toBe(0);
+  });
+
+  it("sends a working exit to market as soon as the stop loss is crossed", async () => {
+    const m = makeMocks();
+    m.placeLimitOrder.mockResolvedValue(orderRes(90, "NEW", 0, 60060, "SELL"));
+    m.getOrder
+      .mockResolvedValueOnce(orderRes(90, "NEW", 0, 60060, "SELL"))
+      .mockResolvedValueOnce(orderRes(90, "CANCELED", 0, 60060, "SELL"));
+    m.marketSell.mockResolvedValue(orderRes(92, "FILLED", 0.01, 57000, "SELL"));
+
+    const account = makeAccount();
+    account.positions["BTCUSDT"] = {
+      symbol: "BTCUSDT", side: "long", quantity: 0.01, entryPrice: 58000, entryTime: Date.now(),
+      stopLoss: 57600, takeProfit: 66000,
+    };
+    store.account = account;
+
+    const executor = new LiveExecutor(makeConfig(), asAdapter(m));
+    await executor.handleSell("BTCUSDT", 60000, "signal sell");
+    expect(m.placeLimitOrder).toHaveBeenCalledTimes(1);
+
+    // Still well inside the reprice interval, but price fell through the stop
+    m.getPrice.mockResolvedValue(57000);
+    vi.advanceTimersByTime(1_000);
+    const [done] = await executor.advanceWorkingOrders();
+
+    expect(m.cancelOrder).toHaveBeenCalledWith("BTCUSDT", 90);
+    expect(m.marketSell).toHaveBeenCalledWith("BTCUSDT", 0.01);
+    expect(done?.trade?.side).toBe("sell");
+    expect(account.positions["BTCUSDT"]).toBeUndefined();
+  });
+
+  it("exits a short with a reduce-only BUY below the price; stop loss exits stay market", async () => {
+    const m = makeMocks();
+    m.placeLimitOrder.mockResolvedValue(orderRes(50, "NEW", 0, 59940));
+    m.getOrder.mockResolvedValue(orderRes(50, "FILLED", 0.01, 59940));
+    m.marketSell.mockResolvedValue(orderRes(52, "FILLED", 0.01, 57000, "SELL"));
+
+    const account = makeAccount();
+    account.positions["BTCUSDT"] = {
+      symbol: "BTCUSDT", side: "short", quantity: 0.01, entryPrice: 61000, entryTime: Date.now(),
+      stopLoss: 63440, takeProfit: 54900, marginUsdt: 610,
+    };
+    account.positions["ETHUSDT"] = {
+      symbol: "ETHUSDT", side: "long", quantity: 0.01, entryPrice: 60000, entryTime: Date.now(),
+      stopLoss: 57600, takeProfit: 66000,
+    };
+    store.account = account;
+
+    const executor = new LiveExecutor(makeConfig("futures"), asAdapter(m));
+    await work(executor, executor.handleCover("BTCUSDT", 60000, "signal cover"));
+    const [, side, , price, opts] = m.placeLimitOrder.mock.calls[0] ?? [];
+    expect(side).toBe("BUY");
+    expect(price).toBeCloseTo(59940, 6);
+    expect(opts).toEqual({ postOnly: true, reduceOnly: true });
+
+    await work(executor, executor.handleSell("ETHUSDT", 57000, "[Local Poll] Stop loss triggered"));
+    expect(m.placeLimitOrder).toHaveBeenCalledTimes(1);
+    expect(m.marketSell).toHaveBeenCalledWith("ETHUSDT", 0.01);
+  });
+
+  it("keeps the market path when order_type=market", async () => {
+    const m = makeMocks();
+    m.marketBuy.mockResolvedValue(orderRes(60, "FILLED", 0.01, 60000));
+    const cfg = makeConfig();
+    cfg.execution.order_type = "market";
+
+    await new LiveExecutor(cfg, asAdapter(m)).handleBuy(makeSignal());
+
+    expect(m.marketBuy).toHaveBeenCalledWith("BTCUSDT", 600);
+    expect(m.placeLimitOrder).not.toHaveBeenCalled();
+  });
+});
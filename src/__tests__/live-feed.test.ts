@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { EventEmitter } from "events";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type http from "http";
+import { DashboardFeed, DEFAULT_FEED_OPTIONS } from "../web/live-feed.js";
+import type { FeedSource, PriceStream } from "../web/live-feed.js";
+import type { DashboardData, PositionWithPnl, TradeRecord } from "../web/dashboard-server.js";
+
+// ─────────────────────────────────────────────────────
+// Test helpers
+// ─────────────────────────────────────────────────────
+
+/** Timers never fire on their own; tests call poll() */
+const OPTS = { ...DEFAULT_FEED_OPTIONS, pollMs: 3600_000, heartbeatMs: 3600_000, priceFlushMs: 1000, pricePollMs: 3600_000, logTail: 3 };
+
+function position(symbol: string): PositionWithPnl {
+  return {
+    scenarioId: "default", symbol, side: "long", quantity: 1, entryPrice: 100, currentPrice: 100,
+    unrealizedPnl: 0, unrealizedPnlPercent: 0, stopLoss: 95, takeProfit: 110, stopLossDistance: 0.05, slPercent: 0.05, entryTime: 0,
+  };
+}
+
+function trade(id: string): TradeRecord {
+  return { id, scenarioId: "default", symbol: "BTCUSDT", side: "buy", quantity: 1, price: 100, usdtAmount: 100, pnl: null, pnlPercent: null, timestamp: 0, reason: "test" };
+}
+
+function emptyData(): DashboardData {
+  return { accounts: [], positions: [], recentTrades: [], equityCurve: [], signalHistory: [], killSwitch: { active: false, reason: "" }, lastUpdate: 0 };
+}
+
+interface FakeClient {
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+  /** Parsed SSE events so far */
+  events: () => { event: string; data: unknown }[];
+  ended: () => boolean;
+}
+
+function client(): FakeClient {
+  const chunks: string[] = [];
+  let closed = false;
+  const req = new EventEmitter() as http.IncomingMessage;
+  const res = { writeHead: vi.fn(), write: (c: string) => chunks.push(c), end: () => { closed = true; } } as unknown as http.ServerResponse;
+  const events = (): { event: string; data: unknown }[] =>
+    chunks.join("").split("\n\n").flatMap((block) => {
+      const m = /^event: (\w+)\ndata: (.*)$/s.exec(block);
+      return m ? [{ event: m[1] ?? "", data: JSON.parse(m[2] ?? "null") as unknown }] : [];
+    });
+  return { req, res, events, ended: () => closed };
+}
+
+let tmpDir: string;
+let watched: string;
+let logFile: string;
+let data: DashboardData;
+let buildCount: number;
+let source: FeedSource;
+let mtime = 1_700_000_000;
+
+function touch(file: string): void {
+  mtime += 10;
+  fs.utimesSync(file, mtime, mtime);
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "feed-"));
+  watched = path.join(tmpDir, "paper-default.json");
+  logFile = path.join(tmpDir, "monitor.log");
+  fs.writeFileSync(watched, "{}");
+  fs.writeFileSync(logFile, "a\nb\nc\nd\n");
+  data = emptyData();
+  buildCount = 0;
+  source = {
+    buildData: () => { buildCount++; return structuredClone(data); },
+    watchedFiles: () => [watched],
+    logFile,
+    fetchPrices: vi.fn(() => Promise.resolve({})),
+    createPriceStream: () => null,
+  };
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ─────────────────────────────────────────────────────
+// Snapshot and file changes
+// ─────────────────────────────────────────────────────
+
+describe("DashboardFeed", () => {
+  it("sends one shared snapshot per client and only rebuilds when a watched file changes", () => {
+    const feed = new DashboardFeed(source, OPTS);
+    const a = client();
+    const b = client();
+    feed.addClient(a.req, a.res);
+    feed.addClient(b.req, b.res);
+
+    expect(buildCount).toBe(1);
+    expect(b.events()[0]).toEqual({ event: "snapshot", data: { data: emptyData(), prices: {}, logs: ["b", "c", "d"] } });
+
+    feed.poll();
+    expect(buildCount).toBe(1);
+
+    data.positions = [position("BTCUSDT")];
+    data.recentTrades = [trade("T2"), trade("T1")];
+    data.killSwitch = { active: true, reason: "manual" };
+    touch(watched);
+    feed.poll();
+
+    expect(buildCount).toBe(2);
+    expect(a.events().slice(1).map((e) => e.event)).toEqual(["positions", "trade", "trade", "killSwitch"]);
+    expect(a.events().filter((e) => e.event === "trade").map((e) => (e.data as TradeRecord).id)).toEqual(["T1", "T2"]);
+    feed.close();
+  });
+
+  it("streams appended log lines, holds partial lines and resets on rotation", () => {
+    const feed = new DashboardFeed(source, OPTS);
+    const a = client();
+    feed.addClient(a.req, a.res);
+
+    fs.appendFileSync(logFile, "e\nf");
+    feed.poll();
+    fs.appendFileSync(logFile, "g\n");
+    feed.poll();
+    fs.writeFileSync(logFile, "x\n");
+    feed.poll();
+
+    expect(a.events().filter((e) => e.event === "log").map((e) => e.data)).toEqual([
+      { lines: ["e"] },
+      { lines: ["fg"] },
+      { lines: ["x"], reset: true },
+    ]);
+    feed.close();
+  });
+
+  it("batches stream ticks, subscribes to held symbols and stops with the last client", () => {
+    vi.useFakeTimers();
+    let push: (symbol: string, price: number) => void = () => undefined;
+    const start = vi.fn();
+    const stop = vi.fn();
+    const stream: PriceStream = { start, stop };
+    const createPriceStream = vi.fn((_symbols: string[], onPrice: (s: string, p: number) => void) => { push = onPrice; return stream; });
+    source.createPriceStream = createPriceStream;
+    data.positions = [position("BTCUSDT"), position("ETHUSDT")];
+
+    const feed = new DashboardFeed(source, OPTS);
+    const a = client();
+    feed.addClient(a.req, a.res);
+    expect(createPriceStream).toHaveBeenCalledWith(["BTCUSDT", "ETHUSDT"], expect.any(Function));
+    expect(start).toHaveBeenCalled();
+
+    push("BTCUSDT", 101);
+    push("BTCUSDT", 102);
+    push("ETHUSDT", 50);
+    vi.advanceTimersByTime(1000);
+    push("ETHUSDT", 50);
+    vi.advanceTimersByTime(1000);
+    expect(a.events().filter((e) => e.event === "prices").map((e) => e.data)).toEqual([{ BTCUSDT: 102, ETHUSDT: 50 }]);
+
+    a.req.emit("close");
+    expect(feed.clientCount).toBe(0);
+    expect(stop).toHaveBeenCalled();
+  });
+
+  it("falls back to REST prices without a stream", async () => {
+    const fetchPrices = vi.fn(() => Promise.resolve({ BTCUSDT: 99 }));
+    source.fetchPrices = fetchPrices;
+    data.positions = [position("BTCUSDT")];
+    vi.useFakeTimers();
+
+    const feed = new DashboardFeed(source, OPTS);
+    const a = client();
+    feed.addClient(a.req, a.res);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(fetchPrices).toHaveBeenCalledWith(["BTCUSDT"]);
+    expect(a.events().find((e) => e.event === "prices")?.data).toEqual({ BTCUSDT: 99 });
+    feed.close();
+    expect(a.ended()).toBe(true);
+  });
+});
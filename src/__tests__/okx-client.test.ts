@@ -0,0 +1,219 @@
+/**
+ * OKX v5 adapter tests (offline, replayed from recorded fixtures)
+ */
+import crypto from "crypto";
+import path from "path";
+import { fileURLToPath } from "url";
+import { describe, it, expect } from "vitest";
+import {
+  OkxClient,
+  OkxApiError,
+  signOkxRequest,
+  toOkxInstId,
+  fromOkxInstId,
+} from "../exchange/okx-client.js";
+import { createFixtureTransport, recordingTransport, type FixtureEntry } from "../exchange/fixture-transport.js";
+
+const FIXTURE = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures/okx-v5.json");
+const CREDS = { apiKey: "test-key", secretKey: "test-secret", passphrase: "test-pass" };
+
+function makeClient(market: "spot" | "futures" = "futures", demo = false) {
+  const transport = createFixtureTransport(FIXTURE);
+  const client = new OkxClient(CREDS, { market, demo, transport, marginMode: "isolated" });
+  return { client, transport };
+}
+
+// ─── Signing & symbols ────────────────────────────────
+
+describe("signOkxRequest()", () => {
+  it("signs timestamp + METHOD + path + body with base64 HMAC-SHA256", () => {
+    const ts = "2026-10-19T08:00:00.000Z";
+    const body = '{"instId":"BTC-USDT"}';
+    const expected = crypto
+      .createHmac("sha256", "secret")
+      .update(`${ts}POST/api/v5/trade/order${body}`)
+      .digest("base64");
+    expect(signOkxRequest("secret", ts, "post", "/api/v5/trade/order", body)).toBe(expected);
+  });
+});
+
+describe("OKX instId mapping", () => {
+  it("maps concatenated symbols to spot / swap instIds", () => {
+    expect(toOkxInstId("BTCUSDT", "spot")).toBe("BTC-USDT");
+    expect(toOkxInstId("ETHUSDT", "futures")).toBe("ETH-USDT-SWAP");
+    expect(toOkxInstId("ETHBTC", "spot")).toBe("ETH-BTC");
+  });
+
+  it("maps instIds back to concatenated symbols", () => {
+    expect(fromOkxInstId("BTC-USDT-SWAP")).toBe("BTCUSDT");
+    expect(fromOkxInstId("SOL-USDT")).toBe("SOLUSDT");
+  });
+
+  it("throws on unknown quote asset", () => {
+    expect(() => toOkxInstId("BTCXYZ", "spot")).toThrow(/unknown quote asset/);
+  });
+});
+
+// ─── Requests ────────────────────────────────
+
+describe("OkxClient requests", () => {
+  it("adds auth headers on private endpoints and the demo header when demo=true", async () => {
+    const { client, transport } = makeClient("futures", true);
+    await client.getUsdtBalance();
+    const req = transport.calls[0];
+    expect(req?.path).toBe("/api/v5/account/balance");
+    // calls only keep the body; re-run through a capturing transport to inspect headers
+    const seen: Record<string, string>[] = [];
+    const capturing = new OkxClient(CREDS, {
+      demo: true,
+      transport: (r) => {
+        seen.push(r.headers);
+        return transport(r);
+      },
+    });
+    await capturing.getUsdtBalance();
+    expect(seen[0]?.["OK-ACCESS-KEY"]).toBe("test-key");
+    expect(seen[0]?.["OK-ACCESS-PASSPHRASE"]).toBe("test-pass");
+    expect(seen[0]?.["OK-ACCESS-SIGN"]).toMatch(/^[A-Za-z0-9+/]+=*$/);
+    expect(seen[0]?.["x-simulated-trading"]).toBe("1");
+  });
+
+  it("ping() returns true against recorded server time", async () => {
+    const { client } = makeClient();
+    expect(await client.ping()).toBe(true);
+  });
+
+  it("getUsdtBalance() reads availBal of USDT", async () => {
+    const { client } = makeClient();
+    expect(await client.getUsdtBalance()).toBe(10000);
+  });
+
+  it("getSymbolInfo() converts swap contract sizes to base units via ctVal", async () => {
+    const { client } = makeClient("futures");
+    const info = await client.getSymbolInfo("BTCUSDT");
+    expect(info.stepSize).toBeCloseTo(0.0001, 10);
+    expect(info.minQty).toBeCloseTo(0.0001, 10);
+    expect(info.tickSize).toBe(0.1);
+    expect(info.quoteAsset).toBe("USDT");
+  });
+
+  it("marketBuy() sizes in contracts and normalizes the filled order", async () => {
+    const { client, transport } = makeClient("futures");
+    const order = await client.marketBuy("BTCUSDT", 600); // 600 / 60000 = 0.01 BTC = 1 contract
+    const placed = transport.calls.find((c) => c.method === "POST" && c.path === "/api/v5/trade/order");
+    expect(placed?.body).toMatchObject({ instId: "BTC-USDT-SWAP", tdMode: "isolated", side: "buy", ordType: "market", sz: "1" });
+    expect(order.status).toBe("FILLED");
+    expect(order.symbol).toBe("BTCUSDT");
+    expect(parseFloat(order.executedQty)).toBeCloseTo(0.01, 10);
+    expect(order.fills?.[0]?.price).toBe("60010");
+    expect(parseFloat(order.fills?.[0]?.commission ?? "0")).toBeCloseTo(0.30005, 8);
+    expect(order.orderId).toBe(1760860800000002);
+    expect(Number.isSafeInteger(order.orderId)).toBe(true);
+  });
+
+  it("market orders poll until OKX reports a terminal state", async () => {
+    const order = (state: string, accFillSz: string) => ({
+      code: "0",
+      msg: "",
+      data: [{
+        instId: "BTC-USDT", ordId: "1", clOrdId: "oc2", side: "sell", ordType: "market", px: "", sz: "0.5",
+        avgPx: accFillSz === "0" ? "" : "60000", accFillSz, state, fee: "0", feeCcy: "USDT", cTime: "1", uTime: "2",
+      }],
+    });
+    const transport = createFixtureTransport([
+      {
+        method: "GET",
+        path: "/api/v5/public/instruments",
+        persist: true,
+        response: { code: "0", msg: "", data: [{ instId: "BTC-USDT", baseCcy: "BTC", quoteCcy: "USDT", settleCcy: "", ctVal: "", lotSz: "0.0001", minSz: "0.0001", tickSz: "0.1" }] },
+      },
+      { method: "POST", path: "/api/v5/trade/order", response: { code: "0", msg: "", data: [{ ordId: "1", sCode: "0", sMsg: "" }] } },
+      { method: "GET", path: "/api/v5/trade/order", response: order("live", "0") },
+      { method: "GET", path: "/api/v5/trade/order", response: order("partially_filled", "0.2") },
+      { method: "GET", path: "/api/v5/trade/order", response: order("filled", "0.5") },
+    ]);
+    const client = new OkxClient(CREDS, { market: "spot", transport, orderPollMs: 0 });
+    const result = await client.marketSell("BTCUSDT", 0.5);
+    expect(result.status).toBe("FILLED");
+    expect(parseFloat(result.executedQty)).toBeCloseTo(0.5, 10);
+    expect(transport.pending()).toHaveLength(0);
+  });
+
+  it("placeStopLossOrder() posts a reduce-only conditional order with an odd client ID", async () => {
+    const { client, transport } = makeClient("futures");
+    const sl = await client.placeStopLossOrder("BTCUSDT", "SELL", 0.01, 57609.63);
+    const body = transport.calls.find((c) => c.path === "/api/v5/trade/order-algo")?.body as Record<string, string>;
+    expect(body).toMatchObject({ ordType: "conditional", slTriggerPx: "57609.6", slOrdPx: "-1", reduceOnly: "true", sz: "1" });
+    expect(sl.orderId % 2).toBe(1);
+    expect(body["algoClOrdId"]).toBe(`oc${sl.orderId}`);
+    expect(sl.status).toBe("NEW");
+  });
+
+  it("getOrder() routes odd IDs to the algo endpoint and maps 'effective' to FILLED", async () => {
+    const { client, transport } = makeClient("futures");
+    const status = await client.getOrder("BTCUSDT", 1760860800000005);
+    expect(transport.calls.some((c) => c.path === "/api/v5/trade/order-algo?algoClOrdId=oc1760860800000005")).toBe(true);
+    expect(transport.calls.some((c) => c.path.startsWith("/api/v5/trade/order?"))).toBe(false);
+    expect(status.status).toBe("FILLED");
+    expect(status.fills?.[0]?.price).toBe("57590.5");
+    expect(parseFloat(status.executedQty)).toBeCloseTo(0.01, 10);
+  });
+
+  it("getPositions() converts net-mode contracts to signed base positions and skips empty ones", async () => {
+    const { client } = makeClient("futures");
+    const positions = await client.getPositions();
+    expect(positions).toHaveLength(1);
+    expect(positions[0]).toMatchObject({ symbol: "BTCUSDT", side: "short", avgPrice: 61000 });
+    expect(positions[0]?.qty).toBeCloseTo(0.03, 10);
+  });
+
+  it("getPositions() returns [] for spot without calling the API", async () => {
+    const { client, transport } = makeClient("spot");
+    expect(await client.getPositions()).toEqual([]);
+    expect(transport.calls).toHaveLength(0);
+  });
+
+  it("spot market orders are sized in base currency", async () => {
+    const { client, transport } = makeClient("spot");
+    await client.marketSell("BTCUSDT", 0.0123456789);
+    const body = transport.calls.find((c) => c.method === "POST")?.body;
+    expect(body).toMatchObject({ instId: "BTC-USDT", tdMode: "cash", tgtCcy: "base_ccy", sz: "0.01234567" });
+  });
+
+  it("surfaces per-item sMsg as OkxApiError", async () => {
+    const transport = createFixtureTransport([{
+      method: "POST",
+      path: "/api/v5/trade/order",
+      response: { code: "1", msg: "Operation failed", data: [{ sCode: "51008", sMsg: "Insufficient balance" }] },
+    }, {
+      method: "GET",
+      path: "/api/v5/public/instruments",
+      persist: true,
+      response: { code: "0", msg: "", data: [{ instId: "BTC-USDT", baseCcy: "BTC", quoteCcy: "USDT", settleCcy: "", ctVal: "", lotSz: "0.0001", minSz: "0.0001", tickSz: "0.1" }] },
+    }]);
+    const client = new OkxClient(CREDS, { market: "spot", transport });
+    const err = await client.marketSell("BTCUSDT", 1).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(OkxApiError);
+    expect((err as OkxApiError).code).toBe("51008");
+  });
+});
+
+// ─── Fixture transport ────────────────────────────────
+
+describe("fixture transport", () => {
+  it("rejects requests without a fixture instead of reaching the network", async () => {
+    const transport = createFixtureTransport([]);
+    await expect(transport({ method: "GET", path: "/api/v5/public/time", headers: {} })).rejects.toThrow(/No fixture/);
+  });
+
+  it("recordingTransport() captures path, query and response", async () => {
+    const sink: FixtureEntry[] = [];
+    const inner = createFixtureTransport(FIXTURE);
+    const recorder = recordingTransport(inner, sink);
+    await recorder({ method: "GET", path: "/api/v5/market/ticker?instId=BTC-USDT", headers: {} });
+    expect(sink[0]).toMatchObject({ method: "GET", path: "/api/v5/market/ticker", query: { instId: "BTC-USDT" } });
+    // Recorded entries replay through a new fixture transport
+    const replay = createFixtureTransport(sink);
+    expect(await replay({ method: "GET", path: "/api/v5/market/ticker?instId=BTC-USDT", headers: {} })).toEqual(sink[0]?.response);
+  });
+});
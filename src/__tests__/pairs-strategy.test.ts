@@ -0,0 +1,442 @@
+/**
+ * Pairs / stat-arb strategy tests
+ *
+ *  1. strategy/pairs.ts: hedge ratio, kline alignment, spread z-score
+ *  2. populateMultiSignal(): open on |z| >= entry_z (rich leg shorted), close on reversion / stop,
+ *     unmatched leg flattened, correlation gate
+ *  3. Paper engine handleMultiLegSignal(): both legs opened together, nothing opened when a leg fails,
+ *     both legs closed together, legs skipped by per-position exit checks
+ *  4. LiveExecutor.handleMultiLegSignal(): filled leg unwound when the other leg fails
+ *  5. runBacktest() with strategy_id "pairs": legs opened and closed in the same bar
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { existsSync, unlinkSync } from "fs";
+import { alignKlines, calcHedgeRatio, calcSpreadStats } from "../strategy/pairs.js";
+import { pairsStrategy } from "../strategies/pairs.js";
+import type { MultiLegSignal, MultiSymbolContext } from "../strategies/types.js";
+import * as accountModule from "../paper/account.js";
+import { handleMultiLegSignal, checkExitConditions } from "../paper/engine.js";
+import { runBacktest } from "../backtest/runner.js";
+import type { Kline, PairsConfig, RuntimeConfig, StrategyConfig } from "../types.js";
+
+vi.mock("../strategy/signal-history.js", () => ({
+  logSignal: () => "mock-signal-id",
+  closeSignal: () => undefined,
+}));
+
+// ─── Helper functions ───────────────────────────────────────
+
+const HOUR = 3600_000;
+const T0 = 1_700_000_000_000;
+const TEST_SCENARIO = "pairs-test";
+const ACCOUNT_FILE = `logs/paper-${TEST_SCENARIO}.json`;
+
+const PAIRS: PairsConfig = { legs: ["ETHUSDT", "BTCUSDT"], lookback: 30, entry_z: 2, exit_z: 0.5, min_correlation: 0 };
+
+function kl(i: number, close: number): Kline {
+  return {
+    openTime: T0 + i * HOUR,
+    open: close,
+    high: close * 1.001,
+    low: close * 0.999,
+    close,
+    volume: 1000,
+    closeTime: T0 + (i + 1) * HOUR - 1,
+  };
+}
+
+/**
+ * B wanders smoothly; A = 0.05·B·e^(noise + shock[i]) so ln(A) − ln(B) is small noise
+ * plus the given shocks (spread divergences)
+ */
+function makePair(n: number, shock: (i: number) => number = () => 0): { a: Kline[]; b: Kline[] } {
+  const a: Kline[] = [];
+  const b: Kline[] = [];
+  for (let i = 0; i < n; i++) {
+    const pb = 40000 * (1 + 0.1 * Math.sin(i / 15) + 0.03 * Math.cos(i / 4));
+    const noise = 0.002 * Math.sin(i * 1.7) + 0.0015 * Math.cos(i * 3.1);
+    b.push(kl(i, pb));
+    a.push(kl(i, 0.05 * pb * Math.exp(noise + shock(i))));
+  }
+  return { a, b };
+}
+
+function multiCtx(
+  a: Kline[],
+  b: Kline[],
+  positions: MultiSymbolContext["positions"] = {},
+  pairs: PairsConfig = PAIRS
+): MultiSymbolContext {
+  return { klinesBySymbol: { ETHUSDT: a, BTCUSDT: b }, cfg: makeCfg(pairs), positions };
+}
+
+function makeCfg(pairs: PairsConfig = PAIRS): StrategyConfig {
+  return {
+    symbols: ["ETHUSDT", "BTCUSDT"],
+    timeframe: "1h",
+    strategy_id: "pairs",
+    pairs,
+    strategy: {
+      name: "pairs-test",
+      enabled: true,
+      ma: { short: 3, long: 5 },
+      rsi: { period: 3, oversold: 30, overbought: 70 },
+      macd: { enabled: false, fast: 12, slow: 26, signal: 9 },
+    },
+    signals: { buy: [], sell: [] },
+    risk: {
+      stop_loss_percent: 1,
+      take_profit_percent: 1,
+      trailing_stop: { enabled: false, activation_percent: 5, callback_percent: 2 },
+      position_ratio: 0.2,
+      max_positions: 4,
+      max_position_per_symbol: 0.8,
+      max_total_loss_percent: 90,
+      daily_loss_limit_percent: 90,
+    },
+    execution: {
+      order_type: "market",
+      limit_order_offset_percent: 0,
+      min_order_usdt: 10,
+      limit_order_timeout_seconds: 30,
+    },
+    notify: {
+      on_signal: false, on_trade: false, on_stop_loss: false,
+      on_take_profit: false, on_error: false, on_daily_summary: false,
+      min_interval_minutes: 0,
+    },
+    news: { enabled: false, interval_hours: 24, price_alert_threshold: 5, fear_greed_alert: 20 },
+    mode: "paper",
+  };
+}
+
+function makeRuntime(market: "spot" | "futures" = "futures"): RuntimeConfig {
+  return {
+    ...makeCfg(),
+    exchange: { market, leverage: { enabled: false, default: 1, max: 1 } },
+    paper: {
+      scenarioId: TEST_SCENARIO,
+      initial_usdt: 10000,
+      fee_rate: 0.001,
+      slippage_percent: 0,
+      report_interval_hours: 24,
+    },
+  };
+}
+
+const OPEN: MultiLegSignal = {
+  action: "open",
+  legs: [
+    { symbol: "ETHUSDT", side: "short", weight: 0.5 },
+    { symbol: "BTCUSDT", side: "long", weight: 0.5 },
+  ],
+  reason: "pairs: short ETHUSDT / long BTCUSDT",
+};
+const PRICES = { ETHUSDT: 2000, BTCUSDT: 40000 };
+
+// ─────────────────────────────────────────────────────
+// 1. Spread statistics
+// ─────────────────────────────────────────────────────
+
+describe("strategy/pairs — spread statistics", () => {
+  it("calcHedgeRatio returns the OLS slope, NaN without variance", () => {
+    expect(calcHedgeRatio([3, 5, 7, 9], [1, 2, 3, 4])).toBeCloseTo(2);
+    expect(calcHedgeRatio([1, 2, 3], [5, 5, 5])).toBeNaN();
+  });
+
+  it("alignKlines keeps only candles both series have", () => {
+    const [a, b] = alignKlines([kl(0, 1), kl(1, 2), kl(2, 3)], [kl(1, 20), kl(2, 30), kl(3, 40)]);
+    expect(a.map((k) => k.close)).toEqual([2, 3]);
+    expect(b.map((k) => k.close)).toEqual([20, 30]);
+  });
+
+  it("calcSpreadStats: β ≈ 1 for proportional legs, z-score of a late divergence is large", () => {
+    const { a, b } = makePair(40, (i) => (i === 39 ? 0.05 : 0));
+    const stats = calcSpreadStats(a, b, 30);
+    expect(stats).not.toBeNull();
+    expect(stats?.hedgeRatio).toBeGreaterThan(0.8);
+    expect(stats?.zScore).toBeGreaterThan(3);
+  });
+
+  it("calcSpreadStats: null with too little data, throws on a tiny lookback", () => {
+    const { a, b } = makePair(20);
+    expect(calcSpreadStats(a, b, 30)).toBeNull();
+    expect(() => calcSpreadStats(a, b, 2)).toThrow(/lookback/);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 2. populateMultiSignal
+// ─────────────────────────────────────────────────────
+
+describe("pairsStrategy.populateMultiSignal", () => {
+  it("spread rich (z > entry_z): short A / long B, weights follow the hedge ratio", () => {
+    const { a, b } = makePair(40, (i) => (i === 39 ? 0.05 : 0));
+    const signal = pairsStrategy.populateMultiSignal?.(multiCtx(a, b));
+    expect(signal?.action).toBe("open");
+    if (signal?.action !== "open") return;
+    expect(signal.legs.map((l) => [l.symbol, l.side])).toEqual([["ETHUSDT", "short"], ["BTCUSDT", "long"]]);
+    expect(signal.legs.reduce((s, l) => s + l.weight, 0)).toBeCloseTo(1);
+  });
+
+  it("spread cheap (z < -entry_z): long A / short B", () => {
+    const { a, b } = makePair(40, (i) => (i === 39 ? -0.05 : 0));
+    const signal = pairsStrategy.populateMultiSignal?.(multiCtx(a, b));
+    expect(signal?.action === "open" && signal.legs.map((l) => l.side)).toEqual(["long", "short"]);
+  });
+
+  it("no entry inside the band or below min_correlation", () => {
+    const { a, b } = makePair(40);
+    expect(pairsStrategy.populateMultiSignal?.(multiCtx(a, b))).toBeNull();
+    const diverged = makePair(40, (i) => (i === 39 ? 0.05 : 0));
+    const strict = { ...PAIRS, min_correlation: 1.01 };
+    expect(pairsStrategy.populateMultiSignal?.(multiCtx(diverged.a, diverged.b, {}, strict))).toBeNull();
+  });
+
+  it("holding: closes both legs once the spread reverts, keeps them while it stays wide", () => {
+    const held = { ETHUSDT: "short", BTCUSDT: "long" } as const;
+    const reverted = makePair(40);
+    expect(pairsStrategy.populateMultiSignal?.(multiCtx(reverted.a, reverted.b, held))).toMatchObject({
+      action: "close",
+      symbols: ["ETHUSDT", "BTCUSDT"],
+    });
+    const wide = makePair(40, (i) => (i === 39 ? 0.05 : 0));
+    expect(pairsStrategy.populateMultiSignal?.(multiCtx(wide.a, wide.b, held))).toBeNull();
+  });
+
+  it("holding: stop_z closes both legs; flat beyond stop_z does not re-enter", () => {
+    const { a, b } = makePair(40, (i) => (i === 39 ? 0.2 : 0));
+    const withStop = { ...PAIRS, stop_z: 4 };
+    const held = { ETHUSDT: "short", BTCUSDT: "long" } as const;
+    const signal = pairsStrategy.populateMultiSignal?.(multiCtx(a, b, held, withStop));
+    expect(signal?.action).toBe("close");
+    expect(signal?.reason).toMatch(/stop/);
+    expect(pairsStrategy.populateMultiSignal?.(multiCtx(a, b, {}, withStop))).toBeNull();
+  });
+
+  it("one leg held without its partner is flattened", () => {
+    const { a, b } = makePair(40);
+    const signal = pairsStrategy.populateMultiSignal?.(multiCtx(a, b, { BTCUSDT: "long" }));
+    expect(signal).toMatchObject({ action: "close", reason: "pairs: unmatched leg" });
+  });
+
+  it("populateSignal never trades a single symbol", () => {
+    const { a } = makePair(40);
+    expect(pairsStrategy.populateSignal({
+      klines: a,
+      cfg: makeCfg(),
+      indicators: { maShort: 1, maLong: 1, rsi: 50, price: 1, volume: 1, avgVolume: 1 },
+    })).toBe("none");
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 3. Paper engine
+// ─────────────────────────────────────────────────────
+
+describe("paper handleMultiLegSignal", () => {
+  beforeEach(() => {
+    if (existsSync(ACCOUNT_FILE)) unlinkSync(ACCOUNT_FILE);
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (existsSync(ACCOUNT_FILE)) unlinkSync(ACCOUNT_FILE);
+  });
+
+  it("opens both legs sized by weight, tagged with one pairId", () => {
+    const cfg = makeRuntime();
+    const result = handleMultiLegSignal(OPEN, PRICES, cfg);
+    expect(result.skipped).toBeUndefined();
+    expect(result.trades.map((t) => t.side)).toEqual(["short", "buy"]);
+    // combined notional = 2 legs × 0.2 × 10000 equity, split 50/50
+    expect(result.trades.map((t) => t.usdtAmount)).toEqual([2000, 2000]);
+
+    const account = accountModule.loadAccount(10000, TEST_SCENARIO);
+    const eth = account.positions["ETHUSDT"];
+    const btc = account.positions["BTCUSDT"];
+    expect(eth?.side).toBe("short");
+    expect(btc?.side).toBe("long");
+    expect(eth?.pairId).toBeDefined();
+    expect(eth?.pairId).toBe(btc?.pairId);
+  });
+
+  it("opens nothing when a leg cannot be opened", () => {
+    const cfg = makeRuntime();
+    vi.spyOn(accountModule, "paperOpenShort").mockReturnValue(null);
+    const result = handleMultiLegSignal(
+      { ...OPEN, legs: [{ symbol: "BTCUSDT", side: "long", weight: 0.5 }, { symbol: "ETHUSDT", side: "short", weight: 0.5 }] },
+      PRICES,
+      cfg
+    );
+    expect(result.trades).toEqual([]);
+    expect(result.skipped).toMatch(/ETHUSDT could not be opened/);
+    const account = accountModule.loadAccount(10000, TEST_SCENARIO);
+    expect(account.positions).toEqual({});
+    expect(account.usdt).toBe(10000);
+  });
+
+  it("skips before any fill: short leg on spot, or not enough slots for every leg", () => {
+    expect(handleMultiLegSignal(OPEN, PRICES, makeRuntime("spot")).skipped).toMatch(/futures or margin/);
+    const tight = makeRuntime();
+    tight.risk.max_positions = 1;
+    expect(handleMultiLegSignal(OPEN, PRICES, tight).skipped).toMatch(/no room for 2 legs/);
+    expect(accountModule.loadAccount(10000, TEST_SCENARIO).positions).toEqual({});
+  });
+
+  it("legs are left alone by stop loss / take profit checks and closed together", () => {
+    const cfg = makeRuntime();
+    handleMultiLegSignal(OPEN, PRICES, cfg);
+    // Both legs far past the 1% SL/TP levels
+    expect(checkExitConditions({ ETHUSDT: 2500, BTCUSDT: 30000 }, cfg)).toEqual([]);
+
+    const close = handleMultiLegSignal(
+      { action: "close", symbols: ["ETHUSDT", "BTCUSDT"], reason: "pairs: spread reverted" },
+      { ETHUSDT: 1900, BTCUSDT: 41000 },
+      cfg
+    );
+    expect(close.trades.map((t) => t.side)).toEqual(["cover", "sell"]);
+    const account = accountModule.loadAccount(10000, TEST_SCENARIO);
+    expect(account.positions).toEqual({});
+    expect(account.usdt).toBeGreaterThan(10000);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 4. Live executor
+// ─────────────────────────────────────────────────────
+
+function filledOrder(orderId: number, symbol: string, side: "BUY" | "SELL", qty: number, price: number) {
+  return {
+    orderId,
+    symbol,
+    clientOrderId: "",
+    transactTime: Date.now(),
+    price: "0",
+    origQty: String(qty),
+    executedQty: String(qty),
+    status: "FILLED",
+    type: "MARKET",
+    side,
+    fills: [{ price: String(price), qty: String(qty), commission: "0", commissionAsset: "USDT" }],
+  };
+}
+
+async function makeMockLiveExecutor(cfg: RuntimeConfig) {
+  const { LiveExecutor } = await import("../live/executor.js");
+  // Object.create skips the constructor (no exchange credentials needed)
+  const executor = Object.create(LiveExecutor.prototype) as InstanceType<typeof LiveExecutor>;
+  const mockClient = {
+    marketBuy: vi.fn(),
+    marketSell: vi.fn(),
+    marketBuyByQty: vi.fn(),
+    getUsdtBalance: vi.fn().mockResolvedValue(10000),
+    getSymbolInfo: vi.fn().mockResolvedValue({ stepSize: 0.001 }),
+    cancelOrder: vi.fn().mockResolvedValue(undefined),
+  };
+  Object.assign(executor, {
+    cfg,
+    scenarioId: cfg.paper.scenarioId,
+    isTestnet: false,
+    client: mockClient,
+    _exitRejectionLog: new Map(),
+  });
+  return { executor, mockClient };
+}
+
+describe("LiveExecutor.handleMultiLegSignal (mock)", () => {
+  let account: accountModule.PaperAccount;
+
+  beforeEach(() => {
+    account = {
+      initialUsdt: 10000,
+      usdt: 10000,
+      positions: {},
+      trades: [],
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      dailyLoss: { date: new Date().toISOString().slice(0, 10), loss: 0 },
+    };
+    vi.spyOn(accountModule, "loadAccount").mockReturnValue(account);
+    vi.spyOn(accountModule, "saveAccount").mockReturnValue(undefined);
+    vi.spyOn(console, "log").mockReturnValue(undefined);
+    vi.spyOn(console, "error").mockReturnValue(undefined);
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it("opens both legs at market without native SL/TP orders", async () => {
+    const { executor, mockClient } = await makeMockLiveExecutor(makeRuntime());
+    mockClient.marketSell.mockResolvedValue(filledOrder(1, "ETHUSDT", "SELL", 1, 2000));
+    mockClient.marketBuy.mockResolvedValue(filledOrder(2, "BTCUSDT", "BUY", 0.05, 40000));
+
+    const result = await executor.handleMultiLegSignal(OPEN, PRICES);
+    expect(result.skipped).toBeUndefined();
+    expect(mockClient.marketSell).toHaveBeenCalledWith("ETHUSDT", 1);
+    expect(mockClient.marketBuy).toHaveBeenCalledWith("BTCUSDT", 2000);
+    expect(account.positions["ETHUSDT"]?.pairId).toBe(account.positions["BTCUSDT"]?.pairId);
+    expect(account.positions["ETHUSDT"]?.exchangeSlOrderId).toBeUndefined();
+    expect(account.usdt).toBe(6000);
+  });
+
+  it("second leg fails -> the filled first leg is closed again", async () => {
+    const { executor, mockClient } = await makeMockLiveExecutor(makeRuntime());
+    mockClient.marketSell
+      .mockResolvedValueOnce(filledOrder(1, "ETHUSDT", "SELL", 1, 2000))
+      .mockResolvedValueOnce(filledOrder(3, "ETHUSDT", "SELL", 1, 2000));
+    mockClient.marketBuy.mockRejectedValue(new Error("insufficient margin"));
+    mockClient.marketBuyByQty.mockResolvedValue(filledOrder(4, "ETHUSDT", "BUY", 1, 2000));
+
+    const result = await executor.handleMultiLegSignal(OPEN, PRICES);
+    expect(result.skipped).toMatch(/BTCUSDT insufficient margin, multi-leg entry unwound/);
+    expect(mockClient.marketBuyByQty).toHaveBeenCalledWith("ETHUSDT", 1);
+    expect(account.positions).toEqual({});
+  });
+
+  it("close: every leg is closed, a failing leg is reported and the rest still close", async () => {
+    const { executor, mockClient } = await makeMockLiveExecutor(makeRuntime());
+    account.positions = {
+      ETHUSDT: { symbol: "ETHUSDT", side: "short", quantity: 1, entryPrice: 2000, entryTime: 0, stopLoss: 0, takeProfit: 0, marginUsdt: 2000, pairId: "p" },
+      BTCUSDT: { symbol: "BTCUSDT", side: "long", quantity: 0.05, entryPrice: 40000, entryTime: 0, stopLoss: 0, takeProfit: 0, pairId: "p" },
+    };
+    mockClient.marketBuyByQty.mockRejectedValue(new Error("timeout"));
+    mockClient.marketSell.mockResolvedValue(filledOrder(5, "BTCUSDT", "SELL", 0.05, 41000));
+
+    const result = await executor.handleMultiLegSignal(
+      { action: "close", symbols: ["ETHUSDT", "BTCUSDT"], reason: "pairs: spread reverted" },
+      PRICES
+    );
+    expect(result.trades.map((t) => t.symbol)).toEqual(["BTCUSDT"]);
+    expect(result.skipped).toMatch(/ETHUSDT \(timeout\)/);
+    expect(Object.keys(account.positions)).toEqual(["ETHUSDT"]);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 5. Backtest
+// ─────────────────────────────────────────────────────
+
+describe("runBacktest — pairs strategy", () => {
+  it("opens both legs on the divergence and closes both on the same bar once it reverts", () => {
+    // Spread jumps at bar 70 and is back to normal from bar 73
+    const { a, b } = makePair(120, (i) => (i >= 70 && i < 73 ? 0.05 : 0));
+    const result = runBacktest({ ETHUSDT: a, BTCUSDT: b }, makeCfg(), {
+      initialUsdt: 10000,
+      feeRate: 0,
+      slippagePercent: 0,
+    });
+
+    const exits = result.trades.filter((t) => t.side === "sell" || t.side === "cover");
+    const eth = exits.find((t) => t.symbol === "ETHUSDT");
+    const btc = exits.find((t) => t.symbol === "BTCUSDT");
+    expect(eth?.side).toBe("cover");
+    expect(btc?.side).toBe("sell");
+    expect(eth?.exitReason).toBe("signal");
+    expect(eth?.entryTime).toBe(T0 + 70 * HOUR);
+    expect(btc?.entryTime).toBe(eth?.entryTime);
+    expect(btc?.exitTime).toBe(eth?.exitTime);
+    // 1% SL/TP never fire on pair legs
+    expect(exits.every((t) => t.exitReason === "signal")).toBe(true);
+    // Short leg entered at the rich price and covered after the reversion: profit
+    expect(eth?.pnl).toBeGreaterThan(0);
+  });
+});
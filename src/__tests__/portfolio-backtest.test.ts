@@ -0,0 +1,314 @@
+/**
+ * Portfolio backtest tests (runPortfolioBacktest)
+ *
+ *  1. Input validation (allocations, duplicate sleeves)
+ *  2. Single sleeve with allocation 1 = runBacktest()
+ *  3. Sizing against allocation × equity
+ *  4. Competition: shared max_positions, one position per symbol, blocked entries
+ *  5. Attribution: trades tagged with sleeve, per-sleeve PnL sums, correlation
+ *  6. Sleeves on different timeframes
+ *  7. CLI --portfolio spec
+ *  8. Fill model: one volume budget per candle shared by all sleeves
+ *
+ * warmupBars = max(ma.long=5, rsi.period=3) + 10 = 15 -> 16 warmup bars
+ */
+
+import { describe, it, expect } from "vitest";
+import { runBacktest, runPortfolioBacktest, type PortfolioSleeve } from "../backtest/runner.js";
+import { parseBacktestArgs, parsePortfolioSpec } from "../backtest/cli-args.js";
+import { createVolumeFillModel } from "../backtest/fill-model.js";
+import type { Kline, StrategyConfig } from "../types.js";
+
+// ─── Helper functions ───────────────────────────────────────
+
+const HOUR = 3600_000;
+
+/** 16 warmup bars @100, then the given closes (open = previous close) */
+function makeKlines(closes: number[], tfMs = HOUR, warmup = 16): Kline[] {
+  const all = [...Array.from({ length: warmup }, () => 100), ...closes];
+  return all.map((close, i) => {
+    const open = all[i - 1] ?? close;
+    return {
+      openTime: i * tfMs,
+      open,
+      high: Math.max(open, close) * 1.001,
+      low: Math.min(open, close) * 0.999,
+      close,
+      volume: 1000,
+      closeTime: i * tfMs + tfMs - 1,
+    };
+  });
+}
+
+function makeCfg(overrides: Partial<StrategyConfig["risk"]> = {}, timeframe: StrategyConfig["timeframe"] = "1h"): StrategyConfig {
+  return {
+    symbols: ["BTCUSDT"],
+    timeframe,
+    strategy: {
+      name: "portfolio-test",
+      enabled: true,
+      ma: { short: 3, long: 5 },
+      rsi: { period: 3, oversold: 30, overbought: 70 },
+      macd: { enabled: false, fast: 12, slow: 26, signal: 9 },
+    },
+    signals: { buy: ["ma_bullish"], sell: ["ma_bearish"] },
+    risk: {
+      stop_loss_percent: 50,
+      take_profit_percent: 200,
+      trailing_stop: { enabled: false, activation_percent: 5, callback_percent: 2 },
+      position_ratio: 0.5,
+      max_positions: 4,
+      max_position_per_symbol: 0.8,
+      max_total_loss_percent: 90,
+      daily_loss_limit_percent: 90,
+      ...overrides,
+    },
+    execution: {
+      order_type: "market",
+      limit_order_offset_percent: 0,
+      min_order_usdt: 1,
+      limit_order_timeout_seconds: 30,
+    },
+    notify: {
+      on_signal: false, on_trade: false, on_stop_loss: false,
+      on_take_profit: false, on_error: false, on_daily_summary: false,
+      min_interval_minutes: 0,
+    },
+    news: { enabled: false, interval_hours: 24, price_alert_threshold: 5, fear_greed_alert: 20 },
+    mode: "paper",
+  };
+}
+
+const ZERO_FEES = { initialUsdt: 1000, feeRate: 0, slippagePercent: 0 };
+const RALLY = [101, 102, 103, 104, 105];
+
+function sleeve(id: string, allocation: number, klinesBySymbol: Record<string, Kline[]>, cfg = makeCfg()): PortfolioSleeve {
+  return { id, cfg, allocation, klinesBySymbol };
+}
+
+// ─────────────────────────────────────────────────────
+// 1. Validation
+// ─────────────────────────────────────────────────────
+
+describe("runPortfolioBacktest() validation", () => {
+  const k = { BTCUSDT: makeKlines(RALLY) };
+
+  it("rejects empty portfolios", () => {
+    expect(() => runPortfolioBacktest([])).toThrow(/at least one sleeve/);
+  });
+
+  it("rejects allocations outside (0, 1] or summing above 1", () => {
+    expect(() => runPortfolioBacktest([sleeve("a", 0, k)])).toThrow(/allocation must be in/);
+    expect(() => runPortfolioBacktest([sleeve("a", 0.7, k), sleeve("b", 0.7, k)])).toThrow(/sum to 1.4000/);
+  });
+
+  it("rejects duplicate sleeve ids", () => {
+    expect(() => runPortfolioBacktest([sleeve("a", 0.5, k), sleeve("a", 0.5, k)])).toThrow(/Duplicate/);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 2. Single sleeve = runBacktest
+// ─────────────────────────────────────────────────────
+
+describe("single sleeve with allocation 1", () => {
+  it("matches runBacktest()", () => {
+    const k = { BTCUSDT: makeKlines([101, 103, 99, 96, 98, 104, 107]) };
+    const single = runBacktest(k, makeCfg(), ZERO_FEES);
+    const portfolio = runPortfolioBacktest([sleeve("only", 1, k)], ZERO_FEES);
+
+    expect(portfolio.trades.map(({ sleeve: _s, ...t }) => t)).toEqual(single.trades);
+    expect(portfolio.metrics.totalReturn).toBeCloseTo(single.metrics.totalReturn, 10);
+    expect(portfolio.sleeves[0]?.pnl).toBeCloseTo(single.metrics.totalReturn, 10);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 3. Sizing
+// ─────────────────────────────────────────────────────
+
+describe("allocation sizing", () => {
+  it("sizes entries at position_ratio × allocation × equity", () => {
+    const result = runPortfolioBacktest(
+      [sleeve("a", 0.4, { BTCUSDT: makeKlines(RALLY) }), sleeve("b", 0.6, { ETHUSDT: makeKlines(RALLY) })],
+      ZERO_FEES
+    );
+    const buys = result.trades.filter((t) => t.side === "buy");
+    expect(buys.find((t) => t.sleeve === "a")?.cost).toBeCloseTo(1000 * 0.4 * 0.5, 8);
+    // Sleeve b sizes on portfolio equity after a's entry (unchanged at the entry price)
+    expect(buys.find((t) => t.sleeve === "b")?.cost).toBeCloseTo(1000 * 0.6 * 0.5, 8);
+  });
+
+  it("never deploys more than the sleeve allocation", () => {
+    // position_ratio 0.6: the second symbol would take the sleeve to 120% of its allocation
+    const k = { BTCUSDT: makeKlines(RALLY), ETHUSDT: makeKlines(RALLY) };
+    const result = runPortfolioBacktest([sleeve("a", 0.5, k, makeCfg({ position_ratio: 0.6 }))], ZERO_FEES);
+    expect(result.trades.filter((t) => t.side === "buy")).toHaveLength(1);
+    expect(result.sleeves[0]?.blockedEntries).toBeGreaterThan(0);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 4. Competition
+// ─────────────────────────────────────────────────────
+
+describe("sleeves competing for slots and symbols", () => {
+  it("shares maxPositions across sleeves; earlier sleeves win ties", () => {
+    const result = runPortfolioBacktest(
+      [sleeve("a", 0.5, { BTCUSDT: makeKlines(RALLY) }), sleeve("b", 0.5, { ETHUSDT: makeKlines(RALLY) })],
+      { ...ZERO_FEES, maxPositions: 1 }
+    );
+    const buys = result.trades.filter((t) => t.side === "buy");
+    expect(buys).toHaveLength(1);
+    expect(buys[0]?.sleeve).toBe("a");
+    expect(result.sleeves.find((s) => s.id === "b")?.blockedEntries).toBeGreaterThan(0);
+  });
+
+  it("holds at most one position per symbol across sleeves", () => {
+    const k = { BTCUSDT: makeKlines(RALLY) };
+    const result = runPortfolioBacktest([sleeve("a", 0.5, k), sleeve("b", 0.5, k)], ZERO_FEES);
+    const buys = result.trades.filter((t) => t.side === "buy");
+    expect(buys.map((t) => t.sleeve)).toEqual(["a"]);
+    expect(result.sleeves.find((s) => s.id === "b")?.metrics.totalTrades).toBe(0);
+  });
+
+  it("each sleeve's own max_positions still applies", () => {
+    const k = { BTCUSDT: makeKlines(RALLY), ETHUSDT: makeKlines(RALLY) };
+    const result = runPortfolioBacktest(
+      [sleeve("a", 1, k, makeCfg({ position_ratio: 0.2, max_positions: 1 }))],
+      { ...ZERO_FEES, maxPositions: 4 }
+    );
+    expect(result.trades.filter((t) => t.side === "buy")).toHaveLength(1);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 5. Attribution
+// ─────────────────────────────────────────────────────
+
+describe("attribution", () => {
+  it("tags trades and splits PnL per sleeve", () => {
+    const result = runPortfolioBacktest(
+      [
+        sleeve("up", 0.5, { BTCUSDT: makeKlines([101, 102, 103, 104, 110]) }),
+        sleeve("down", 0.5, { ETHUSDT: makeKlines([101, 102, 103, 104, 90]) }),
+      ],
+      ZERO_FEES
+    );
+    const up = result.sleeves.find((s) => s.id === "up");
+    const down = result.sleeves.find((s) => s.id === "down");
+    expect(up?.pnl).toBeGreaterThan(0);
+    expect(down?.pnl).toBeLessThan(0);
+    expect((up?.pnl ?? 0) + (down?.pnl ?? 0)).toBeCloseTo(result.trades
+      .filter((t) => t.side === "sell")
+      .reduce((s, t) => s + t.pnl, 0), 8);
+    expect(up?.allocatedUsdt).toBe(500);
+    expect(up?.returnPercent).toBeCloseTo(((up?.pnl ?? 0) / 500) * 100, 8);
+    expect(up?.contributionPercent).toBeCloseTo(((up?.pnl ?? 0) / 1000) * 100, 8);
+    expect(result.trades.every((t) => t.sleeve === "up" || t.sleeve === "down")).toBe(true);
+  });
+
+  it("sleeve equity curves add up to the portfolio equity curve", () => {
+    const result = runPortfolioBacktest(
+      [
+        sleeve("a", 0.5, { BTCUSDT: makeKlines([101, 103, 99, 96, 98, 104, 107]) }),
+        sleeve("b", 0.5, { ETHUSDT: makeKlines([101, 102, 103, 104, 90, 95]) }),
+      ],
+      ZERO_FEES
+    );
+    const a = result.sleeves[0]?.metrics.equityCurve ?? [];
+    const b = result.sleeves[1]?.metrics.equityCurve ?? [];
+    result.metrics.equityCurve.forEach((pt, i) => {
+      expect((a[i]?.equity ?? 0) + (b[i]?.equity ?? 0)).toBeCloseTo(pt.equity, 8);
+    });
+  });
+
+  it("reports return correlation between sleeves", () => {
+    const closes = [101, 103, 99, 96, 98, 104, 107];
+    const result = runPortfolioBacktest(
+      [sleeve("a", 0.5, { BTCUSDT: makeKlines(closes) }), sleeve("b", 0.5, { ETHUSDT: makeKlines(closes) })],
+      ZERO_FEES
+    );
+    expect(result.correlation["a"]?.["a"]).toBe(1);
+    expect(result.correlation["a"]?.["b"]).toBeCloseTo(1, 8);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 6. Mixed timeframes
+// ─────────────────────────────────────────────────────
+
+describe("sleeves on different timeframes", () => {
+  it("runs a 4h sleeve alongside a 1h sleeve on its own candles", () => {
+    const hourly = makeKlines(Array.from({ length: 60 }, (_, i) => 101 + i * 0.5));
+    const fourHourly = makeKlines([101, 102, 103, 104], 4 * HOUR);
+    const result = runPortfolioBacktest(
+      [
+        sleeve("fast", 0.5, { BTCUSDT: hourly }),
+        sleeve("slow", 0.5, { ETHUSDT: fourHourly }, makeCfg({}, "4h")),
+      ],
+      ZERO_FEES
+    );
+    expect(result.config.timeframe).toBe("1h+4h");
+    const slowBuy = result.trades.find((t) => t.sleeve === "slow" && t.side === "buy");
+    expect(slowBuy?.entryTime).toBe(16 * 4 * HOUR); // first 4h candle after warmup
+    // Entry after the 4h candle closed: the hourly sleeve has already processed every 1h candle inside it
+    const fastBuy = result.trades.find((t) => t.sleeve === "fast" && t.side === "buy");
+    expect(fastBuy?.entryTime).toBe(16 * HOUR);
+    expect(result.sleeves.map((s) => s.metrics.totalTrades)).toEqual([1, 1]);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 7. CLI
+// ─────────────────────────────────────────────────────
+
+describe("--portfolio", () => {
+  it("parses ids with allocations", () => {
+    expect(parsePortfolioSpec("trend:0.6,rsi-pure:0.4")).toEqual([
+      { id: "trend", allocation: 0.6 },
+      { id: "rsi-pure", allocation: 0.4 },
+    ]);
+  });
+
+  it("splits the remainder equally among sleeves without an allocation", () => {
+    expect(parsePortfolioSpec("trend,rsi-pure")).toEqual([
+      { id: "trend", allocation: 0.5 },
+      { id: "rsi-pure", allocation: 0.5 },
+    ]);
+    const mixed = parsePortfolioSpec("a:0.5,b,c");
+    expect(mixed[1]?.allocation).toBeCloseTo(0.25, 10);
+  });
+
+  it("rejects invalid allocations", () => {
+    expect(() => parsePortfolioSpec("trend:1.5")).toThrow(/must be in \(0, 1\]/);
+    expect(() => parsePortfolioSpec(" , ")).toThrow(/at least one/);
+  });
+
+  it("is wired into parseBacktestArgs()", () => {
+    expect(parseBacktestArgs(["--portfolio", "trend:0.5,rsi-pure:0.5"]).portfolio).toHaveLength(2);
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// 8. Fill model
+// ─────────────────────────────────────────────────────
+
+describe("fill model across sleeves", () => {
+  it("shares each candle's volume budget between sleeves trading the same symbol", () => {
+    // a stops out on the drop candle; b (buys on ma_bearish) enters BTC on that same candle
+    const k = { BTCUSDT: makeKlines([101, 102, 103, 104, 105, 95, 88, 84, 82, 81, 80, 80]) };
+    const a = makeCfg({ stop_loss_percent: 5 });
+    const b = { ...makeCfg(), signals: { buy: ["ma_bearish"], sell: ["ma_bullish"] } };
+    // 0.3% of 1000 volume = 3 BTC per candle
+    const fillModel = createVolumeFillModel({ maxVolumeFraction: 0.003, impactCoefficient: 0 });
+    const result = runPortfolioBacktest([sleeve("a", 0.5, k, a), sleeve("b", 0.5, k, b)], { ...ZERO_FEES, fillModel });
+
+    const exit = result.trades.find((t) => t.sleeve === "a" && t.exitReason === "stop_loss");
+    const entry = result.trades.find((t) => t.sleeve === "b" && t.side === "buy");
+    expect(exit).toBeDefined();
+    expect(entry?.entryTime).toBe(exit?.exitTime);
+    // b only gets what a's exit left of the candle's 3 BTC
+    expect((exit?.quantity ?? 0) + (entry?.quantity ?? 0)).toBeCloseTo(3, 8);
+  });
+});
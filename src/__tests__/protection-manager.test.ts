@@ -347,6 +347,20 @@ describe("parseTradeRecords", () => {
     expect(records).toHaveLength(0);
   });
 
+  it("reads records written by signal-history.ts (exitTime, pnlPercent as a ratio)", () => {
+    const lines = [
+      JSON.stringify({
+        id: "sig_1", status: "closed", symbol: "BTCUSDT", entryTime: now - 5000, exitTime: now - 1000,
+        pnlPercent: -0.025, exitReason: "stop_loss", source: "paper",
+      }),
+    ];
+    const records = parseTradeRecords(lines, now - 2000);
+    expect(records).toHaveLength(1);
+    expect(records[0]?.closedAt).toBe(now - 1000);
+    expect(records[0]?.pnlRatio).toBeCloseTo(-0.025);
+    expect(records[0]?.wasStopLoss).toBe(true);
+  });
+
   it("trailing_stop exit is also marked as wasStopLoss=true", () => {
     const lines = [
       JSON.stringify({
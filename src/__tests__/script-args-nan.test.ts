@@ -287,12 +287,13 @@ describe("auto-wf parseArgs — NaN guard actual integration (Bug 3)", () => {
     }
   });
 
-  it("--min-improvement notnum uses default value 5", async () => {
+  it("--max-pbo / --min-dsr notnum use default values 0.5 / 0.95", async () => {
     const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => undefined) as () => never);
     try {
       const { parseArgs } = await import("../scripts/auto-wf.js");
-      const args = parseArgs(["--min-improvement", "notnum"]);
-      expect(args.minImprovementPct).toBe(5);
+      const args = parseArgs(["--max-pbo", "notnum", "--min-dsr", "notnum"]);
+      expect(args.maxPbo).toBe(0.5);
+      expect(args.minDeflatedSharpe).toBe(0.95);
     } finally {
       exitSpy.mockRestore();
     }
@@ -2,7 +2,19 @@
  * Signal attribution analysis tests
  */
 import { describe, it, expect } from "vitest";
-import { analyzeGroups, formatAttributionReport } from "../analysis/attribution.js";
+import {
+  analyzeGroups,
+  formatAttributionReport,
+  analyzeRuleMarginals,
+  analyzeBreakdowns,
+  formatMarginalReport,
+  wilsonInterval,
+  meanInterval,
+  hourBucket,
+  weekdayOf,
+  regimeFromKlines,
+} from "../analysis/attribution.js";
+import type { Kline } from "../types.js";
 
 // ─── Test helpers ─────────────────────────────────────────
 
@@ -16,15 +28,18 @@ function makeRecord(overrides: {
   pnlPercent?: number;
   holdingHours?: number;
   exitReason?: string;
+  entryTime?: number;
+  regime?: string;
 }) {
   return {
     id: overrides.id ?? "sig_test",
     symbol: overrides.symbol ?? "BTCUSDT",
     type: overrides.type ?? "buy",
     entryPrice: 100,
-    entryTime: Date.now(),
+    entryTime: overrides.entryTime ?? Date.now(),
     entryConditions: {
       triggeredRules: overrides.rules ?? ["ma_bullish"],
+      ...(overrides.regime !== undefined ? { regime: overrides.regime } : {}),
     },
     status: overrides.status ?? "closed",
     exitPrice: 105,
@@ -163,3 +178,132 @@ describe("formatAttributionReport()", () => {
     expect(report).toContain("Signal Attribution Report");
   });
 });
+
+// ─── Marginal statistics ─────────────────────────────
+
+/** n closed trades with the given rules whose PnL alternates around `mean` */
+function batch(n: number, rules: string[], mean: number, spread = 0.01) {
+  return Array.from({ length: n }, (_, i) =>
+    makeRecord({ id: `${rules.join("+")}_${i}`, rules, pnlPercent: mean + (i % 2 === 0 ? spread : -spread) })
+  );
+}
+
+describe("confidence intervals", () => {
+  it("Wilson interval matches the reference value and stays inside [0, 1]", () => {
+    const [lo, hi] = wilsonInterval(8, 10);
+    expect(lo).toBeCloseTo(0.4902, 3);
+    expect(hi).toBeCloseTo(0.9433, 3);
+    expect(wilsonInterval(0, 5)[0]).toBe(0);
+    expect(wilsonInterval(5, 5)[1]).toBeCloseTo(1, 12);
+    expect(wilsonInterval(0, 0)).toEqual([0, 1]);
+  });
+
+  it("mean interval is mean ± z·s/√n and collapses below two samples", () => {
+    const [lo, hi] = meanInterval([0.01, 0.03]);
+    const half = 1.959964 * Math.sqrt(0.0002 / 2);
+    expect(lo).toBeCloseTo(0.02 - half, 6);
+    expect(hi).toBeCloseTo(0.02 + half, 6);
+    expect(meanInterval([0.05])).toEqual([0.05, 0.05]);
+  });
+});
+
+describe("analyzeRuleMarginals()", () => {
+  it("compares trades with vs without each rule of the same signal type", () => {
+    const records = [
+      ...batch(12, ["ma_bullish", "rsi_oversold"], -0.02),
+      ...batch(12, ["ma_bullish"], 0.03),
+      makeRecord({ type: "short", rules: ["ma_bearish"], pnlPercent: 0.5 }),
+      makeRecord({ status: "open", rules: ["rsi_oversold"] }),
+    ];
+    const marginals = analyzeRuleMarginals(records);
+
+    const rsi = marginals.find((m) => m.rule === "rsi_oversold");
+    expect(rsi?.with.closed).toBe(12);
+    expect(rsi?.without.closed).toBe(12); // the short trade and the open trade are excluded
+    expect(rsi?.expectancyLift).toBeCloseTo(-0.05, 9);
+    expect(rsi?.winRateLift).toBeCloseTo(-1, 9);
+    expect(rsi?.verdict).toBe("drop");
+
+    // ma_bullish fires on every buy, so there is nothing to compare against
+    const ma = marginals.find((m) => m.rule === "ma_bullish");
+    expect(ma?.without.closed).toBe(0);
+    expect(ma?.verdict).toBe("insufficient");
+    expect(marginals.find((m) => m.rule === "ma_bearish")?.signalType).toBe("short");
+    expect(marginals[0]?.rule).toBe("rsi_oversold"); // most harmful first
+  });
+
+  it("positive lift is kept, noisy lift is inconclusive, small samples are not judged", () => {
+    const keep = analyzeRuleMarginals([...batch(12, ["a", "vol_spike"], 0.04), ...batch(12, ["a"], 0)]);
+    expect(keep.find((m) => m.rule === "vol_spike")?.verdict).toBe("keep");
+
+    const noisy = analyzeRuleMarginals([...batch(12, ["a", "b"], 0.001, 0.05), ...batch(12, ["a"], 0, 0.05)]);
+    expect(noisy.find((m) => m.rule === "b")?.verdict).toBe("inconclusive");
+
+    const small = analyzeRuleMarginals([...batch(4, ["a", "b"], -0.05), ...batch(4, ["a"], 0.05)]);
+    expect(small.find((m) => m.rule === "b")?.verdict).toBe("insufficient");
+    expect(analyzeRuleMarginals([...batch(4, ["a", "b"], -0.05), ...batch(4, ["a"], 0.05)], { minSamples: 4 })
+      .find((m) => m.rule === "b")?.verdict).toBe("drop");
+  });
+});
+
+describe("analyzeBreakdowns()", () => {
+  // 2024-01-01 is a Monday
+  const monday0900 = Date.UTC(2024, 0, 1, 9);
+  const sunday2330 = Date.UTC(2024, 0, 7, 23, 30);
+
+  it("buckets entries by UTC hour and weekday", () => {
+    expect(hourBucket(monday0900)).toBe("08-12h");
+    expect(hourBucket(sunday2330)).toBe("20-24h");
+    expect(weekdayOf(monday0900)).toBe("Mon");
+    expect(weekdayOf(sunday2330)).toBe("Sun");
+  });
+
+  it("splits closed trades by regime and time with intervals", () => {
+    const records = [
+      makeRecord({ entryTime: sunday2330, regime: "ranging_tight", pnlPercent: -0.02 }),
+      makeRecord({ entryTime: monday0900, regime: "trending_bull", pnlPercent: 0.04 }),
+      makeRecord({ entryTime: monday0900, regime: "trending_bull", pnlPercent: 0.02 }),
+      makeRecord({ entryTime: monday0900, pnlPercent: 0.01 }),
+      makeRecord({ entryTime: monday0900, status: "open" }),
+    ];
+    const b = analyzeBreakdowns(records);
+    expect(b.byRegime.map((s) => s.key)).toEqual(["trending_bull", "unknown", "ranging_tight"]);
+    expect(b.byRegime[0]?.expectancy).toBeCloseTo(0.03, 9);
+    expect(b.byRegime[0]?.winRateCi[1]).toBeCloseTo(1, 9);
+    expect(b.byHour.map((s) => [s.key, s.closed])).toEqual([["08-12h", 3], ["20-24h", 1]]);
+    expect(b.byWeekday.map((s) => s.key)).toEqual(["Mon", "Sun"]);
+
+    const relabelled = analyzeBreakdowns(records, { regimeOf: () => "breakout_up" });
+    expect(relabelled.byRegime.map((s) => s.key)).toEqual(["breakout_up"]);
+  });
+
+  it("regimeFromKlines() classifies the bars closed before entry, preferring the recorded regime", () => {
+    const hour = 3600_000;
+    const klines: Kline[] = Array.from({ length: 120 }, (_, i) => {
+      const close = 100 + i;
+      return { openTime: i * hour, open: close - 0.5, high: close + 1, low: close - 1, close, volume: 1, closeTime: (i + 1) * hour - 1 };
+    });
+    const regimeOf = regimeFromKlines(new Map([["BTCUSDT", klines]]));
+    expect(regimeOf(makeRecord({ entryTime: 110 * hour }))).toMatch(/^(trending|breakout|ranging)_/);
+    expect(regimeOf(makeRecord({ entryTime: 30 * hour }))).toBeUndefined(); // not enough history
+    expect(regimeOf(makeRecord({ entryTime: 110 * hour, symbol: "ETHUSDT" }))).toBeUndefined();
+    expect(regimeOf(makeRecord({ entryTime: 110 * hour, regime: "ranging_wide" }))).toBe("ranging_wide");
+  });
+});
+
+describe("formatMarginalReport()", () => {
+  it("lists significantly harmful conditions under their YAML signal list", () => {
+    const records = [...batch(12, ["ma_bullish", "rsi_oversold"], -0.02), ...batch(12, ["ma_bullish"], 0.03)];
+    const report = formatMarginalReport(analyzeBreakdowns(records));
+    expect(report).toContain("marginal contribution (95% CI)");
+    expect(report).toContain("By market regime at entry");
+    expect(report).toContain('signals.buy: remove "rsi_oversold"');
+    expect(report).not.toContain('remove "ma_bullish"');
+  });
+
+  it("says nothing should be dropped when no verdict is negative", () => {
+    const report = formatMarginalReport(analyzeBreakdowns(batch(3, ["ma_bullish"], 0.01)));
+    expect(report).toContain("None — no condition has a significantly negative expectancy lift");
+    expect(report).toContain("1 condition(s) below 10 trades");
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect, vi } from "vitest";
+import { compileCondition } from "../strategy/signal-dsl.js";
+import { detectSignal, signalWarmupBars, validateSignalConditions } from "../strategy/signals.js";
+import { defaultStrategy } from "../strategies/default.js";
+import { listStrategyProfiles, loadStrategyConfig, loadStrategyProfile } from "../config/loader.js";
+import { ema } from "../strategy/indicators.js";
+import type { Indicators, Kline, StrategyConfig } from "../types.js";
+
+// ─────────────────────────────────────────────────────
+// Test helpers
+// ─────────────────────────────────────────────────────
+
+function makeIndicators(overrides: Partial<Indicators> = {}): Indicators {
+  return {
+    maShort: 100,
+    maLong: 100,
+    rsi: 50,
+    price: 100,
+    volume: 1000,
+    avgVolume: 1000,
+    prevMaShort: 100,
+    prevMaLong: 100,
+    ...overrides,
+  };
+}
+
+function makeConfig(buy: string[], sell: string[] = []): StrategyConfig {
+  return {
+    symbols: ["BTCUSDT"],
+    timeframe: "1h",
+    strategy: {
+      name: "test",
+      enabled: true,
+      ma: { short: 20, long: 60 },
+      rsi: { period: 14, oversold: 30, overbought: 70 },
+      macd: { enabled: false, fast: 12, slow: 26, signal: 9 },
+    },
+    signals: { buy, sell },
+    risk: {
+      stop_loss_percent: 5,
+      take_profit_percent: 10,
+      trailing_stop: { enabled: false, activation_percent: 5, callback_percent: 2 },
+      max_total_loss_percent: 20,
+      position_ratio: 0.2,
+      max_positions: 4,
+      max_position_per_symbol: 0.3,
+      daily_loss_limit_percent: 8,
+    },
+    execution: {
+      order_type: "market",
+      limit_order_offset_percent: 0.1,
+      min_order_usdt: 10,
+      limit_order_timeout_seconds: 300,
+    },
+    notify: {
+      on_signal: true,
+      on_trade: true,
+      on_stop_loss: true,
+      on_take_profit: true,
+      on_error: true,
+      on_daily_summary: true,
+      min_interval_minutes: 30,
+    },
+    news: { enabled: true, interval_hours: 4, price_alert_threshold: 5, fear_greed_alert: 15 },
+    schedule: {},
+    mode: "paper",
+  };
+}
+
+function makeKlines(closes: number[]): Kline[] {
+  return closes.map((close, i) => ({
+    openTime: i * 3600_000,
+    open: close,
+    high: close * 1.01,
+    low: close * 0.99,
+    close,
+    volume: 1000,
+    closeTime: (i + 1) * 3600_000 - 1,
+  }));
+}
+
+const noNamed = (): boolean => false;
+
+// ─────────────────────────────────────────────────────
+// Parsing & type checking
+// ─────────────────────────────────────────────────────
+
+describe("compileCondition() - parse / type errors", () => {
+  it("reports unknown identifiers with their column", () => {
+    expect(() => compileCondition("rsi < 28 and clsoe > 1", noNamed)).toThrow(
+      'Invalid signal condition "rsi < 28 and clsoe > 1": unknown indicator or condition "clsoe" (column 14)'
+    );
+  });
+
+  it("rejects a numeric top-level expression", () => {
+    expect(() => compileCondition("rsi + 1", noNamed)).toThrow("a signal condition needs a boolean, got a number");
+  });
+
+  it("rejects mixing booleans and numbers", () => {
+    expect(() => compileCondition("rsi and close > 1", noNamed)).toThrow('"and" needs a boolean, got a number');
+    expect(() => compileCondition("ma_bullish < 3", (n) => n === "ma_bullish")).toThrow('"<" needs a number');
+  });
+
+  it("rejects unknown functions, wrong arity and non-literal periods", () => {
+    expect(() => compileCondition("wma(9) > close", noNamed)).toThrow('unknown function "wma"');
+    expect(() => compileCondition("crosses_above(ema(9))", noNamed)).toThrow("takes 2 arguments, got 1");
+    expect(() => compileCondition("ema(rsi) > close", noNamed)).toThrow("period must be a whole number");
+    expect(() => compileCondition("ema(2.5) > close", noNamed)).toThrow("period must be a whole number");
+  });
+
+  it("rejects chained comparisons, trailing tokens and bad characters", () => {
+    expect(() => compileCondition("20 < rsi < 30", noNamed)).toThrow("comparisons cannot be chained");
+    expect(() => compileCondition("rsi < 30)", noNamed)).toThrow('unexpected ")"');
+    expect(() => compileCondition("rsi < 30 $", noNamed)).toThrow('unexpected character "$" (column 10)');
+    expect(() => compileCondition("(rsi < 30", noNamed)).toThrow('expected ")"');
+  });
+
+  it("accepts extra.<name> in either boolean or numeric position", () => {
+    expect(() => compileCondition("extra.confidence > 0.6 and extra.confirmed", noNamed)).not.toThrow();
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Evaluation
+// ─────────────────────────────────────────────────────
+
+describe("detectSignal() - expression conditions", () => {
+  it("evaluates comparisons against indicators", () => {
+    const cfg = makeConfig(["rsi < 28 and close > vwap_lower1"]);
+    expect(detectSignal("X", makeIndicators({ rsi: 25, price: 100, vwapLower1: 98 }), cfg).type).toBe("buy");
+    expect(detectSignal("X", makeIndicators({ rsi: 25, price: 97, vwapLower1: 98 }), cfg).type).toBe("none");
+    expect(detectSignal("X", makeIndicators({ rsi: 30, price: 100, vwapLower1: 98 }), cfg).type).toBe("none");
+  });
+
+  it("treats unavailable values as not met", () => {
+    const cfg = makeConfig(["close > vwap_lower1"]);
+    expect(detectSignal("X", makeIndicators(), cfg).type).toBe("none");
+    const negated = makeConfig(["not (close < vwap_lower1)"]);
+    expect(detectSignal("X", makeIndicators(), negated).type).toBe("none");
+    // ...but a known false side still decides "or" / "and"
+    expect(detectSignal("X", makeIndicators(), makeConfig(["close > vwap_lower1 or rsi < 60"])).type).toBe("buy");
+    expect(detectSignal("X", makeIndicators(), makeConfig(["not (close > vwap_lower1 and rsi > 60)"])).type).toBe("buy");
+  });
+
+  it("mixes named conditions, arithmetic and config thresholds", () => {
+    const cfg = makeConfig(["ma_bullish", "ma_bullish and rsi < oversold + 5 and volume > avg_volume * 1.5"]);
+    const ind = makeIndicators({ maShort: 101, rsi: 33, volume: 1600 });
+    const signal = detectSignal("X", ind, cfg);
+    expect(signal.type).toBe("buy");
+    expect(signal.reason).toEqual(["ma_bullish", "ma_bullish and rsi < oversold + 5 and volume > avg_volume * 1.5"]);
+    expect(detectSignal("X", { ...ind, volume: 1400 }, cfg).type).toBe("none");
+  });
+
+  it("crosses_above(ema(9), ema(21)) fires only on the crossing bar", () => {
+    // Long decline then a sharp rally: fast EMA crosses above the slow one at some bar
+    const closes = [...Array.from({ length: 40 }, (_, i) => 200 - i), ...Array.from({ length: 20 }, (_, i) => 161 + i * 4)];
+    const cfg = makeConfig(["crosses_above(ema(9), ema(21))"]);
+    const crossBars: number[] = [];
+    for (let n = 30; n <= closes.length; n++) {
+      const klines = makeKlines(closes.slice(0, n));
+      const price = closes[n - 1] ?? 0;
+      if (detectSignal("X", makeIndicators({ price }), cfg, undefined, { klines }).type === "buy") crossBars.push(n);
+    }
+    expect(crossBars).toHaveLength(1);
+    const n = crossBars[0] ?? 0;
+    const now = closes.slice(0, n);
+    const before = closes.slice(0, n - 1);
+    expect(ema(before, 9)).toBeLessThanOrEqual(ema(before, 21));
+    expect(ema(now, 9)).toBeGreaterThan(ema(now, 21));
+  });
+
+  it("ema(n) without enough klines is not met", () => {
+    const cfg = makeConfig(["close > ema(50)"]);
+    const klines = makeKlines(Array.from({ length: 20 }, () => 90));
+    expect(detectSignal("X", makeIndicators(), cfg, undefined, { klines }).type).toBe("none");
+  });
+
+  it("prev() reads the previous bar", () => {
+    const cfg = makeConfig(["close > prev(close) * 1.02 and prev(high) < 102"]);
+    const klines = makeKlines([100, 100, 103]);
+    expect(detectSignal("X", makeIndicators({ price: 103 }), cfg, undefined, { klines }).type).toBe("buy");
+  });
+
+  it("reads plugin extra indicators", () => {
+    const cfg = makeConfig(["extra.score >= 0.6"]);
+    expect(detectSignal("X", makeIndicators(), cfg, undefined, { extra: { score: 0.7 } }).type).toBe("buy");
+    expect(detectSignal("X", makeIndicators(), cfg, undefined, { extra: { score: 0.5 } }).type).toBe("none");
+    expect(detectSignal("X", makeIndicators(), cfg).type).toBe("none");
+  });
+
+  it("default strategy plugin passes klines and extra through", () => {
+    const cfg = makeConfig(["extra.score >= 0.6 and close > prev(close)"]);
+    const klines = makeKlines([100, 101]);
+    expect(
+      defaultStrategy.populateSignal({ klines, cfg, indicators: makeIndicators({ price: 101 }), extra: { score: 1 } })
+    ).toBe("buy");
+  });
+
+  it("an invalid expression at runtime warns and is not met", () => {
+    const warn = vi.spyOn(console, "warn").mockReturnValue(undefined);
+    const cfg = makeConfig(["rsi <"]);
+    expect(detectSignal("X", makeIndicators(), cfg).type).toBe("none");
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Unknown buy condition: "rsi <"'));
+    warn.mockRestore();
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Validation & warmup
+// ─────────────────────────────────────────────────────
+
+describe("validateSignalConditions() / signalWarmupBars()", () => {
+  it("lists every invalid condition with its group", () => {
+    expect(() => {
+      validateSignalConditions({ buy: ["ma_bullish", "rsi < "], sell: ["bogus_name"] }, "config/strategies/x.yaml");
+    }).toThrow(/^config\/strategies\/x\.yaml: signals\.buy: .*; signals\.sell: .*"bogus_name"/);
+  });
+
+  it("accepts named conditions and valid expressions", () => {
+    expect(() => {
+      validateSignalConditions({ buy: ["ma_bullish", "crosses_above(ema(9), ema(21))"], sell: ["rsi > 70"] }, "x");
+    }).not.toThrow();
+  });
+
+  it("warmup covers the longest expression lookback, including regime overrides", () => {
+    expect(signalWarmupBars(makeConfig(["ma_bullish"]))).toBe(0);
+    expect(signalWarmupBars(makeConfig(["crosses_above(ema(9), ema(21))"]))).toBe(22);
+    const cfg = makeConfig(["rsi < 30"]);
+    cfg.regime_strategies = { trend_signals_only: { signals: { buy: ["close > sma(100)"], sell: [] } } };
+    expect(signalWarmupBars(cfg)).toBe(100);
+  });
+
+  it("every shipped strategy config still loads", () => {
+    expect(() => loadStrategyConfig()).not.toThrow();
+    for (const id of listStrategyProfiles()) {
+      expect(() => loadStrategyProfile(id)).not.toThrow();
+    }
+  });
+});
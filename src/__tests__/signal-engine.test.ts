@@ -322,6 +322,8 @@ describe("processSignal — Protection Manager", () => {
     const result = processSignal("BTCUSDT", klines, cfg, {}, recentTrades);
     if (result.signal.type !== "none" && result.rejected) {
       expect(result.rejectionReason).toContain("StoplossGuard");
+      expect(result.rejection?.filter).toBe("protection");
+      expect(result.rejection?.inputs["recentTrades"]).toBe(2);
     }
   });
 });
@@ -1,11 +1,13 @@
 /**
  * Strategy Plugin unit tests (F4)
- * Tests core logic of rsi-reversal and breakout strategies
+ * Tests core logic of rsi-reversal and breakout strategies,
+ * and the currentPosSide plugins receive from runBacktest() while holding
  */
-import { describe, it, expect, beforeAll } from "vitest";
+import { describe, it, expect, beforeAll, afterEach, vi } from "vitest";
 import { getStrategy } from "../strategies/registry.js";
 import type { Strategy, StrategyContext } from "../strategies/types.js";
 import type { Kline, StrategyConfig, Indicators } from "../types.js";
+import { runBacktest } from "../backtest/runner.js";
 
 // Trigger registration
 await import("../strategies/index.js");
@@ -309,3 +311,109 @@ describe("processSignal — strategy_id routing", () => {
     expect(() => processSignal("BTCUSDT", klines, cfg)).toThrow();
   });
 });
+
+// ─────────────────────────────────────────────────────
+// runBacktest: currentPosSide passed to plugins
+// ─────────────────────────────────────────────────────
+
+/** Hourly klines from a close series (open = previous close) */
+function klinesFrom(closes: number[], volumes: number[] = []): Kline[] {
+  return closes.map((close, i) => {
+    const open = closes[i - 1] ?? close;
+    return {
+      openTime: i * 3_600_000,
+      open,
+      high: Math.max(open, close),
+      low: Math.min(open, close),
+      close,
+      volume: volumes[i] ?? 1000,
+      closeTime: (i + 1) * 3_600_000 - 1,
+    };
+  });
+}
+
+/** Ramp from the last value by pct per bar */
+function ramp(from: number, bars: number, pct: number): number[] {
+  return Array.from({ length: bars }, (_, i) => from * (1 + pct / 100) ** (i + 1));
+}
+
+/** Record the currentPosSide a registered plugin sees, keeping its own signal logic */
+function recordPosSides(id: string): (string | undefined)[] {
+  const strategy = getStrategy(id);
+  const original = strategy.populateSignal.bind(strategy);
+  const sides: (string | undefined)[] = [];
+  vi.spyOn(strategy, "populateSignal").mockImplementation((ctx) => {
+    sides.push(ctx.currentPosSide);
+    return original(ctx);
+  });
+  return sides;
+}
+
+const wideRisk = {
+  ...makeMinimalCfg().risk,
+  stop_loss_percent: 50,
+  take_profit_percent: 200,
+  position_ratio: 0.5,
+};
+const backtestOpts = { initialUsdt: 1000, feeRate: 0, slippagePercent: 0 };
+
+describe("runBacktest — currentPosSide for strategy plugins", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it("rsi-reversal sees 'long' while holding and exits on its sell signal", () => {
+    const base = Array.from({ length: 30 }, (_, i) => (i % 2 === 0 ? 100 : 100.3));
+    const down = ramp(100, 10, -1.5);
+    const closes = [...base, ...down, ...ramp(down.at(-1) ?? 100, 20, 1.5)];
+    const sides = recordPosSides("rsi-reversal");
+
+    const cfg = makeMinimalCfg({ strategy_id: "rsi-reversal", risk: wideRisk });
+    const result = runBacktest({ BTCUSDT: klinesFrom(closes) }, cfg, backtestOpts);
+
+    expect(result.trades.filter((t) => t.side === "buy")).toHaveLength(1);
+    expect(result.trades.find((t) => t.side === "sell")?.exitReason).toBe("signal");
+    expect(sides).toContain(undefined);
+    expect(sides).toContain("long");
+  });
+
+  it("breakout sees 'long' while holding and exits below the channel", () => {
+    const closes = [...Array.from({ length: 30 }, (_, i) => 100 + (i % 3) * 0.2), 105, 105.5, 106, 104, 101, 99];
+    const volumes = closes.map((_, i) => (i === 30 ? 3000 : 1000));
+    const sides = recordPosSides("breakout");
+
+    const cfg = makeMinimalCfg({ strategy_id: "breakout", risk: wideRisk });
+    const result = runBacktest({ BTCUSDT: klinesFrom(closes, volumes) }, cfg, backtestOpts);
+
+    expect(result.trades.filter((t) => t.side === "buy")).toHaveLength(1);
+    expect(result.trades.find((t) => t.side === "sell")?.exitReason).toBe("signal");
+    expect(sides).toContain(undefined);
+    expect(sides).toContain("long");
+  });
+
+  it("ensemble passes 'long' to its sub-strategies, so a default sub-strategy can sell", () => {
+    const up = ramp(100, 25, 1);
+    const closes = [...Array.from({ length: 15 }, () => 100), ...up, ...ramp(up.at(-1) ?? 100, 15, -1.5)];
+    const sides = recordPosSides("default");
+
+    const cfg = makeMinimalCfg({
+      strategy_id: "ensemble",
+      ensemble: { strategies: [{ id: "default", weight: 1 }] },
+      signals: { buy: ["ma_bullish"], sell: ["ma_bearish"] },
+      risk: wideRisk,
+    });
+    const result = runBacktest({ BTCUSDT: klinesFrom(closes) }, cfg, backtestOpts);
+
+    expect(result.trades.filter((t) => t.side === "buy")).toHaveLength(1);
+    expect(result.trades.find((t) => t.side === "sell")?.exitReason).toBe("signal");
+    expect(sides).toContain("long");
+  });
+
+  it("the default strategy path keeps currentPosSide unset for longs", () => {
+    const up = ramp(100, 25, 1);
+    const closes = [...Array.from({ length: 15 }, () => 100), ...up, ...ramp(up.at(-1) ?? 100, 15, -1.5)];
+    const cfg = makeMinimalCfg({ signals: { buy: ["ma_bullish"], sell: ["ma_bearish"] }, risk: wideRisk });
+    const result = runBacktest({ BTCUSDT: klinesFrom(closes) }, cfg, backtestOpts);
+
+    // Without a side, detectSignal only checks entry conditions: the long is held to the end
+    expect(result.trades.find((t) => t.side === "sell")?.exitReason).toBe("end_of_data");
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Telegram control-plane bot: per-chat allowlist, inline-button confirmations with expiry,
+ * audit of control / trade commands, and the Bot API client's Markdown fallback
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { TelegramConfig } from "../types.js";
+import type { InlineButton, TelegramApi, TgMessage, TgUpdate } from "../telegram/bot-api.js";
+
+vi.mock("../telegram/command-handler.js", async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  handleCommand: vi.fn((cmd: { command: string }) => Promise.resolve(`done ${cmd.command}`)),
+  previewCommand: vi.fn((cmd: { args: string[] }) =>
+    Promise.resolve(cmd.args[0] === "BAD" ? { ok: false, text: "❌ Position not found" } : { ok: true, text: "⚠️ Confirm" })),
+}));
+
+vi.mock("../web/operator-actions.js", () => ({ appendAudit: vi.fn() }));
+
+import { TelegramBot, isCommandAllowed } from "../telegram/bot.js";
+import { TelegramApiError, createTelegramApi } from "../telegram/bot-api.js";
+import { handleCommand } from "../telegram/command-handler.js";
+import { appendAudit } from "../web/operator-actions.js";
+
+// ─────────────────────────────────────────────────────
+// Fixtures
+// ─────────────────────────────────────────────────────
+
+const OWNER = 1;
+const GROUP = -100;
+
+const CONFIG: TelegramConfig = {
+  confirm_timeout_seconds: 60,
+  chats: [
+    { chat_id: OWNER, name: "owner", commands: ["*"] },
+    { chat_id: GROUP, name: "team", commands: ["read", "/forcesell"] },
+  ],
+};
+
+interface Sent {
+  chatId: number;
+  text: string;
+  buttons?: InlineButton[][];
+}
+
+function fakeApi(): { api: TelegramApi; sent: Sent[]; edits: { messageId: number; text: string }[]; answers: (string | undefined)[] } {
+  const sent: Sent[] = [];
+  const edits: { messageId: number; text: string }[] = [];
+  const answers: (string | undefined)[] = [];
+  const api: TelegramApi = {
+    getUpdates: () => Promise.resolve([]),
+    sendMessage: (chatId, text, buttons) => {
+      sent.push({ chatId, text, ...(buttons && { buttons }) });
+      return Promise.resolve({ message_id: sent.length, chat: { id: chatId, type: "private" }, date: 0, text });
+    },
+    editMessageText: (_chatId, messageId, text) => {
+      edits.push({ messageId, text });
+      return Promise.resolve();
+    },
+    answerCallbackQuery: (_id, text) => {
+      answers.push(text);
+      return Promise.resolve();
+    },
+  };
+  return { api, sent, edits, answers };
+}
+
+let seq = 0;
+
+function message(chatId: number, text: string): TgUpdate {
+  return { update_id: ++seq, message: { message_id: seq, chat: { id: chatId, type: "private" }, from: { id: 7, username: "alice" }, date: 0, text } };
+}
+
+function press(chatId: number, data: string | undefined): TgUpdate {
+  const msg: TgMessage = { message_id: 0, chat: { id: chatId, type: "private" }, date: 0 };
+  return { update_id: ++seq, callback_query: { id: `q${seq}`, from: { id: 7, username: "alice" }, message: msg, ...(data !== undefined && { data }) } };
+}
+
+const mockHandleCommand = vi.mocked(handleCommand);
+const mockAppendAudit = vi.mocked(appendAudit);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ─────────────────────────────────────────────────────
+// Access control
+// ─────────────────────────────────────────────────────
+
+describe("isCommandAllowed()", () => {
+  it("grants groups, single commands and wildcards per chat", () => {
+    expect(isCommandAllowed(CONFIG, OWNER, "/buy")).toBe(true);
+    expect(isCommandAllowed(CONFIG, GROUP, "/daily")).toBe(true);
+    expect(isCommandAllowed(CONFIG, GROUP, "/forcesell")).toBe(true);
+    expect(isCommandAllowed(CONFIG, GROUP, "/buy")).toBe(false);
+    expect(isCommandAllowed(CONFIG, GROUP, "/killswitch")).toBe(false);
+    expect(isCommandAllowed(CONFIG, 999, "/help")).toBe(false);
+  });
+});
+
+describe("TelegramBot commands", () => {
+  it("answers unknown chats with their ID and runs nothing", async () => {
+    const { api, sent } = fakeApi();
+    await new TelegramBot(api, CONFIG).handleUpdate(message(999, "/profit"));
+    expect(sent[0]?.text).toContain("chat id 999");
+    expect(mockHandleCommand).not.toHaveBeenCalled();
+  });
+
+  it("refuses commands outside the chat's groups", async () => {
+    const { api, sent } = fakeApi();
+    await new TelegramBot(api, CONFIG).handleUpdate(message(GROUP, "/killswitch on"));
+    expect(sent[0]?.text).toContain("not allowed");
+    expect(mockHandleCommand).not.toHaveBeenCalled();
+  });
+
+  it("runs read commands directly without auditing them", async () => {
+    const { api, sent } = fakeApi();
+    await new TelegramBot(api, CONFIG).handleUpdate(message(GROUP, "/daily@TraderBot"));
+    expect(sent[0]?.text).toBe("done /daily");
+    expect(mockAppendAudit).not.toHaveBeenCalled();
+  });
+
+  it("audits control commands with the chat name", async () => {
+    const { api } = fakeApi();
+    await new TelegramBot(api, CONFIG).handleUpdate(message(OWNER, "/killswitch on"));
+    expect(mockAppendAudit).toHaveBeenCalledWith(expect.objectContaining({
+      actor: "owner", via: "telegram", action: "killswitch", ok: true, params: { text: "/killswitch on", user: "alice" },
+    }));
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Confirmations
+// ─────────────────────────────────────────────────────
+
+describe("TelegramBot confirmations", () => {
+  it("asks before a trade command and runs it once on Confirm", async () => {
+    const { api, sent, edits } = fakeApi();
+    const bot = new TelegramBot(api, CONFIG);
+
+    await bot.handleUpdate(message(OWNER, "/buy BTCUSDT 100"));
+    expect(mockHandleCommand).not.toHaveBeenCalled();
+    const confirm = sent[0]?.buttons?.[0]?.[0]?.callback_data;
+    expect(confirm).toMatch(/^confirm:/);
+
+    await bot.handleUpdate(press(OWNER, confirm));
+    expect(mockHandleCommand).toHaveBeenCalledOnce();
+    expect(edits).toEqual([{ messageId: 1, text: "done /buy" }]);
+    expect(mockAppendAudit).toHaveBeenCalledWith(expect.objectContaining({ action: "buy", ok: true }));
+
+    // A second press of the same button does nothing
+    await bot.handleUpdate(press(OWNER, confirm));
+    expect(mockHandleCommand).toHaveBeenCalledOnce();
+    expect(bot.pendingCount).toBe(0);
+  });
+
+  it("does not prompt when the preview already fails", async () => {
+    const { api, sent } = fakeApi();
+    const bot = new TelegramBot(api, CONFIG);
+    await bot.handleUpdate(message(OWNER, "/forcesell BAD"));
+    expect(sent).toEqual([{ chatId: OWNER, text: "❌ Position not found" }]);
+    expect(bot.pendingCount).toBe(0);
+  });
+
+  it("cancels, and ignores presses from another chat", async () => {
+    const { api, sent, edits, answers } = fakeApi();
+    const bot = new TelegramBot(api, CONFIG);
+    await bot.handleUpdate(message(OWNER, "/short ETHUSDT 50"));
+    const cancel = sent[0]?.buttons?.[0]?.[1]?.callback_data;
+
+    await bot.handleUpdate(press(GROUP, cancel));
+    expect(answers[0]).toContain("expired or was already answered");
+    expect(bot.pendingCount).toBe(1);
+
+    await bot.handleUpdate(press(OWNER, cancel));
+    expect(edits[0]?.text).toContain("Cancelled");
+    expect(mockHandleCommand).not.toHaveBeenCalled();
+  });
+
+  it("expires unanswered prompts", async () => {
+    let now = 1_000_000;
+    const { api, sent, edits } = fakeApi();
+    const bot = new TelegramBot(api, CONFIG, { now: () => now });
+    await bot.handleUpdate(message(OWNER, "/stoploss BTCUSDT 48000"));
+    await bot.handleUpdate(message(OWNER, "/buy BTCUSDT 100"));
+    const late = sent[1]?.buttons?.[0]?.[0]?.callback_data;
+
+    now += 61_000;
+    // A press racing the sweep still finds the prompt expired
+    await bot.handleUpdate(press(OWNER, late));
+    await bot.expirePending();
+
+    expect(edits.map((e) => e.text)).toEqual([
+      "⌛ Expired, not run: `/buy BTCUSDT 100`",
+      "⌛ Expired, not run: `/stoploss BTCUSDT 48000`",
+    ]);
+    expect(mockHandleCommand).not.toHaveBeenCalled();
+    expect(bot.pendingCount).toBe(0);
+  });
+
+  it("reloads its allowlist after a successful /reload_config", async () => {
+    const { api, sent } = fakeApi();
+    const next: TelegramConfig = { chats: [{ chat_id: OWNER, commands: ["read"] }] };
+    const bot = new TelegramBot(api, CONFIG, { loadConfig: () => next });
+
+    await bot.handleUpdate(message(OWNER, "/reload_config"));
+    expect(sent[0]?.text).toContain("allowlist reloaded (1 chats)");
+    await bot.handleUpdate(message(OWNER, "/killswitch off"));
+    expect(sent[1]?.text).toContain("not allowed");
+  });
+});
+
+// ─────────────────────────────────────────────────────
+// Bot API client
+// ─────────────────────────────────────────────────────
+
+describe("createTelegramApi()", () => {
+  function reply(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), { status });
+  }
+
+  it("sends an inline keyboard and retries as plain text when Markdown does not parse", async () => {
+    const bodies: Record<string, unknown>[] = [];
+    const fetchFn = vi.fn((_url: string, init: RequestInit) => {
+      bodies.push(JSON.parse(init.body as string) as Record<string, unknown>);
+      return Promise.resolve(bodies.length === 1
+        ? reply({ ok: false, error_code: 400, description: "Bad Request: can't parse entities" }, 400)
+        : reply({ ok: true, result: { message_id: 5, chat: { id: 1, type: "private" }, date: 0 } }));
+    });
+
+    const api = createTelegramApi("TOKEN", fetchFn);
+    const msg = await api.sendMessage(1, "a_b", [[{ text: "OK", callback_data: "confirm:x" }]]);
+
+    expect(msg.message_id).toBe(5);
+    expect(fetchFn.mock.calls[0]?.[0]).toBe("https://api.telegram.org/botTOKEN/sendMessage");
+    expect(bodies[0]).toMatchObject({ parse_mode: "Markdown", reply_markup: { inline_keyboard: [[{ text: "OK", callback_data: "confirm:x" }]] } });
+    expect(bodies[1]).not.toHaveProperty("parse_mode");
+  });
+
+  it("raises API errors without the token", async () => {
+    const api = createTelegramApi("SECRET", () => Promise.reject(new Error("getaddrinfo ENOTFOUND")));
+    const err = await api.getUpdates(0, 30).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(TelegramApiError);
+    expect((err as Error).message).not.toContain("SECRET");
+  });
+});
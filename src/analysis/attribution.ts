@@ -5,6 +5,11 @@
  * historical win rate, risk-reward ratio, expected return, and
  * other core metrics. Outputs an attribution leaderboard.
  *
+ * Exact combinations fragment the history into tiny groups, so the
+ * marginal view scores each condition on its own: trades with vs without
+ * the rule (same signal type), with Wilson / normal confidence intervals,
+ * plus breakdowns by market regime at entry and by UTC time of day / weekday.
+ *
  * Note: pnlPercent is stored in ratio format (0.038 = +3.8%),
  * consistent with signal-history.ts. Multiply by 100 for display.
  *
@@ -14,6 +19,10 @@
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { normalQuantile } from "../backtest/cpcv.js";
+import { classifyRegime } from "../strategy/regime.js";
+import type { Kline } from "../types.js";
+import { stateDb } from "../persistence/store.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -40,6 +49,8 @@ export interface AttributionSignalRecord {
     maShort?: number;
     maLong?: number;
     rsi?: number;
+    /** MarketRegime from classifyRegime() at entry (recorded by the live monitor) */
+    regime?: string;
   };
   status: "open" | "closed";
   exitPrice?: number;
@@ -85,6 +96,11 @@ export interface GroupStats {
 export function loadAttributionHistory(
   historyPath?: string
 ): AttributionSignalRecord[] {
+  // The default history lives in SQLite when persistence.backend = sqlite
+  const db = historyPath === undefined ? stateDb() : null;
+  if (db) {
+    return (db.getSignals() as unknown as AttributionSignalRecord[]).filter((rec) => (rec.status as string) !== "rejected");
+  }
   const filePath = historyPath ?? ATTRIBUTION_HISTORY_PATH;
   if (!fs.existsSync(filePath)) {
     return [];
@@ -96,7 +112,9 @@ export function loadAttributionHistory(
   const records: AttributionSignalRecord[] = [];
   for (const line of lines) {
     try {
-      records.push(JSON.parse(line) as AttributionSignalRecord);
+      const rec = JSON.parse(line) as AttributionSignalRecord | { status: "rejected" };
+      // Filter-rejected signals were never traded (see analysis/counterfactual.ts)
+      if (rec.status !== "rejected") records.push(rec);
     } catch { /* skip corrupted lines */ }
   }
   return records;
@@ -260,3 +278,320 @@ export function formatAttributionReport(
   lines.push("═".repeat(56));
   return lines.join("\n");
 }
+
+// ─── Marginal Statistics ─────────────────────────────────────
+
+/** Closed trades of one slice with confidence intervals (ratios, like pnlPercent) */
+export interface BucketStats {
+  key: string;
+  closed: number;
+  wins: number;
+  winRate: number;
+  /** Wilson score interval of the win rate */
+  winRateCi: [number, number];
+  /** Mean PnL per trade (ratio format) */
+  expectancy: number;
+  /** Normal-approximation interval of the mean PnL */
+  expectancyCi: [number, number];
+  totalPnlPct: number;
+}
+
+export type RuleVerdict = "keep" | "drop" | "inconclusive" | "insufficient";
+
+export interface RuleMarginal {
+  rule: string;
+  signalType: "buy" | "short";
+  /** Closed trades of this signal type whose triggeredRules contain the rule */
+  with: BucketStats;
+  /** Closed trades of this signal type without the rule */
+  without: BucketStats;
+  winRateLift: number;
+  /** with.expectancy − without.expectancy */
+  expectancyLift: number;
+  /** Welch normal-approximation interval of the expectancy lift */
+  expectancyLiftCi: [number, number];
+  verdict: RuleVerdict;
+}
+
+export interface AttributionBreakdown {
+  /** Confidence level of every interval (e.g. 0.95) */
+  confidence: number;
+  minSamples: number;
+  rules: RuleMarginal[];
+  byRegime: BucketStats[];
+  /** UTC hour-of-day buckets of HOUR_BUCKET_SIZE hours, keyed "00-04h" … */
+  byHour: BucketStats[];
+  /** UTC weekday of entry, Mon … Sun */
+  byWeekday: BucketStats[];
+}
+
+export interface BreakdownOptions {
+  /** Confidence level of the intervals (default 0.95) */
+  confidence?: number;
+  /** Minimum closed trades on each side before a rule gets a keep/drop verdict (default 10) */
+  minSamples?: number;
+  /** Regime at entry; defaults to entryConditions.regime */
+  regimeOf?: (rec: AttributionSignalRecord) => string | undefined;
+}
+
+export const HOUR_BUCKET_SIZE = 4;
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const HOUR_BUCKETS = Array.from({ length: 24 / HOUR_BUCKET_SIZE }, (_, i) => hourLabel(i * HOUR_BUCKET_SIZE));
+const UNKNOWN_REGIME = "unknown";
+
+/** Two-sided z value for a confidence level */
+function zFor(confidence: number): number {
+  return normalQuantile(1 - (1 - confidence) / 2);
+}
+
+/** Wilson score interval for a binomial proportion; [0, 1] without data */
+export function wilsonInterval(wins: number, n: number, confidence = 0.95): [number, number] {
+  if (n === 0) return [0, 1];
+  const z = zFor(confidence);
+  const p = wins / n;
+  const denom = 1 + (z * z) / n;
+  const center = (p + (z * z) / (2 * n)) / denom;
+  const half = (z * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n))) / denom;
+  return [Math.max(0, center - half), Math.min(1, center + half)];
+}
+
+function meanAndVariance(values: number[]): { mean: number; variance: number } {
+  const n = values.length;
+  if (n === 0) return { mean: 0, variance: 0 };
+  const mean = values.reduce((s, v) => s + v, 0) / n;
+  const variance = n > 1 ? values.reduce((s, v) => s + (v - mean) ** 2, 0) / (n - 1) : 0;
+  return { mean, variance };
+}
+
+/** Normal-approximation interval of a mean; collapses to the mean below 2 samples */
+export function meanInterval(values: number[], confidence = 0.95): [number, number] {
+  const { mean, variance } = meanAndVariance(values);
+  if (values.length < 2) return [mean, mean];
+  const half = zFor(confidence) * Math.sqrt(variance / values.length);
+  return [mean - half, mean + half];
+}
+
+function bucketStats(key: string, closed: AttributionSignalRecord[], confidence: number): BucketStats {
+  const pnls = closed.map((r) => r.pnlPercent ?? 0);
+  const wins = pnls.filter((p) => p > 0).length;
+  const { mean } = meanAndVariance(pnls);
+  return {
+    key,
+    closed: closed.length,
+    wins,
+    winRate: closed.length > 0 ? wins / closed.length : 0,
+    winRateCi: wilsonInterval(wins, closed.length, confidence),
+    expectancy: mean,
+    expectancyCi: meanInterval(pnls, confidence),
+    totalPnlPct: pnls.reduce((s, p) => s + p, 0),
+  };
+}
+
+function groupBy(
+  records: AttributionSignalRecord[],
+  keyOf: (rec: AttributionSignalRecord) => string
+): Map<string, AttributionSignalRecord[]> {
+  const groups = new Map<string, AttributionSignalRecord[]>();
+  for (const rec of records) {
+    const key = keyOf(rec);
+    const existing = groups.get(key) ?? [];
+    existing.push(rec);
+    groups.set(key, existing);
+  }
+  return groups;
+}
+
+function isClosed(rec: AttributionSignalRecord): boolean {
+  return rec.status === "closed";
+}
+
+/**
+ * Marginal contribution of each triggered rule, per signal type: closed trades
+ * that fired the rule vs those of the same type that did not.
+ *
+ * Verdict (only once both sides have minSamples trades):
+ *   drop — the expectancy lift interval lies entirely below 0
+ *   keep — the expectancy lift interval lies entirely above 0
+ *   inconclusive — the interval straddles 0
+ */
+export function analyzeRuleMarginals(
+  records: AttributionSignalRecord[],
+  opts: BreakdownOptions = {}
+): RuleMarginal[] {
+  const confidence = opts.confidence ?? 0.95;
+  const minSamples = opts.minSamples ?? 10;
+  const z = zFor(confidence);
+  const result: RuleMarginal[] = [];
+
+  for (const [signalType, recs] of groupBy(records.filter(isClosed), (r) => r.type)) {
+    const rules = [...new Set(recs.flatMap((r) => r.entryConditions.triggeredRules ?? []))].sort();
+    for (const rule of rules) {
+      const withRule = recs.filter((r) => r.entryConditions.triggeredRules?.includes(rule) === true);
+      const withoutRule = recs.filter((r) => r.entryConditions.triggeredRules?.includes(rule) !== true);
+      const withStats = bucketStats(rule, withRule, confidence);
+      const withoutStats = bucketStats(`not ${rule}`, withoutRule, confidence);
+
+      const a = meanAndVariance(withRule.map((r) => r.pnlPercent ?? 0));
+      const b = meanAndVariance(withoutRule.map((r) => r.pnlPercent ?? 0));
+      const lift = a.mean - b.mean;
+      const se = withRule.length > 0 && withoutRule.length > 0
+        ? Math.sqrt(a.variance / withRule.length + b.variance / withoutRule.length)
+        : Infinity;
+      const liftCi: [number, number] = [lift - z * se, lift + z * se];
+
+      let verdict: RuleVerdict;
+      if (withRule.length < minSamples || withoutRule.length < minSamples) verdict = "insufficient";
+      else if (liftCi[1] < 0) verdict = "drop";
+      else if (liftCi[0] > 0) verdict = "keep";
+      else verdict = "inconclusive";
+
+      result.push({
+        rule,
+        signalType: signalType as "buy" | "short",
+        with: withStats,
+        without: withoutStats,
+        winRateLift: withStats.winRate - withoutStats.winRate,
+        expectancyLift: lift,
+        expectancyLiftCi: liftCi,
+        verdict,
+      });
+    }
+  }
+
+  // Most harmful first: the report reads top-down as a removal list
+  return result.sort((x, y) => x.expectancyLift - y.expectancyLift);
+}
+
+function hourLabel(start: number): string {
+  const pad = (h: number): string => String(h).padStart(2, "0");
+  return `${pad(start)}-${pad(start + HOUR_BUCKET_SIZE)}h`;
+}
+
+/** Bars classifyRegime() needs before a reliable read */
+const REGIME_MIN_BARS = 60;
+
+/**
+ * Regime resolver for records logged without entryConditions.regime:
+ * classifyRegime() over the `lookback` bars closed before each entry.
+ * @param klinesBySymbol Ascending klines per symbol covering the entry times
+ */
+export function regimeFromKlines(
+  klinesBySymbol: Map<string, Kline[]>,
+  lookback = 100
+): (rec: AttributionSignalRecord) => string | undefined {
+  return (rec) => {
+    if (rec.entryConditions.regime !== undefined) return rec.entryConditions.regime;
+    const klines = klinesBySymbol.get(rec.symbol);
+    if (!klines) return undefined;
+    let end = 0;
+    while (end < klines.length && (klines[end]?.closeTime ?? Infinity) <= rec.entryTime) end++;
+    const window = klines.slice(Math.max(0, end - lookback), end);
+    return window.length >= REGIME_MIN_BARS ? classifyRegime(window).regime : undefined;
+  };
+}
+
+/** UTC hour bucket label of an entry time, e.g. "08-12h" */
+export function hourBucket(entryTime: number): string {
+  return hourLabel(Math.floor(new Date(entryTime).getUTCHours() / HOUR_BUCKET_SIZE) * HOUR_BUCKET_SIZE);
+}
+
+/** UTC weekday label of an entry time (Mon first) */
+export function weekdayOf(entryTime: number): string {
+  return WEEKDAYS[(new Date(entryTime).getUTCDay() + 6) % 7] ?? "Mon";
+}
+
+/** Rule marginals plus regime and time-of-day / weekday breakdowns of closed trades */
+export function analyzeBreakdowns(
+  records: AttributionSignalRecord[],
+  opts: BreakdownOptions = {}
+): AttributionBreakdown {
+  const confidence = opts.confidence ?? 0.95;
+  const minSamples = opts.minSamples ?? 10;
+  const regimeOf = opts.regimeOf ?? ((r: AttributionSignalRecord) => r.entryConditions.regime);
+  const closed = records.filter(isClosed);
+
+  const slice = (keyOf: (rec: AttributionSignalRecord) => string, order?: string[]): BucketStats[] => {
+    const stats = [...groupBy(closed, keyOf)].map(([key, recs]) => bucketStats(key, recs, confidence));
+    return order
+      ? stats.sort((a, b) => order.indexOf(a.key) - order.indexOf(b.key))
+      : stats.sort((a, b) => b.expectancy - a.expectancy);
+  };
+
+  return {
+    confidence,
+    minSamples,
+    rules: analyzeRuleMarginals(records, { confidence, minSamples }),
+    byRegime: slice((r) => regimeOf(r) ?? UNKNOWN_REGIME),
+    byHour: slice((r) => hourBucket(r.entryTime), HOUR_BUCKETS),
+    byWeekday: slice((r) => weekdayOf(r.entryTime), WEEKDAYS),
+  };
+}
+
+// ─── Marginal Report Formatting ──────────────────────────────
+
+function pct(ratio: number, digits = 2): string {
+  return `${ratio >= 0 ? "+" : ""}${(ratio * 100).toFixed(digits)}%`;
+}
+
+function formatBucket(b: BucketStats): string {
+  const [wrLo, wrHi] = b.winRateCi;
+  const [exLo, exHi] = b.expectancyCi;
+  return (
+    `  ${b.key.padEnd(16)} n=${String(b.closed).padStart(4)} | ` +
+    `WinRate ${(b.winRate * 100).toFixed(0)}% [${(wrLo * 100).toFixed(0)}–${(wrHi * 100).toFixed(0)}] | ` +
+    `E ${pct(b.expectancy)} [${pct(exLo)}, ${pct(exHi)}]`
+  );
+}
+
+/**
+ * Format the marginal / breakdown report. Conditions with a "drop" verdict are
+ * listed under the YAML signal list they come from (signals.buy / signals.short).
+ */
+export function formatMarginalReport(breakdown: AttributionBreakdown): string {
+  const conf = `${(breakdown.confidence * 100).toFixed(0)}% CI`;
+  const lines: string[] = [
+    "─".repeat(56),
+    `🔬 Per-condition marginal contribution (${conf})`,
+    "─".repeat(56),
+  ];
+
+  if (breakdown.rules.length === 0) {
+    lines.push("  (No closed trades with triggered rules yet)");
+  }
+  for (const m of breakdown.rules) {
+    const [lo, hi] = m.expectancyLiftCi;
+    const ci = Number.isFinite(lo) ? `[${pct(lo)}, ${pct(hi)}]` : "[--]";
+    lines.push(`[${m.signalType.toUpperCase()}] ${m.rule} — ${m.verdict}`);
+    lines.push(
+      `   with n=${m.with.closed} WR ${(m.with.winRate * 100).toFixed(0)}% E ${pct(m.with.expectancy)}` +
+      ` | without n=${m.without.closed} WR ${(m.without.winRate * 100).toFixed(0)}% E ${pct(m.without.expectancy)}`
+    );
+    lines.push(`   Lift: WR ${pct(m.winRateLift, 1)} | E ${pct(m.expectancyLift)} ${ci}`);
+  }
+
+  const sections: [string, BucketStats[]][] = [
+    ["🌐 By market regime at entry", breakdown.byRegime],
+    [`🕐 By UTC time of day (${HOUR_BUCKET_SIZE}h buckets)`, breakdown.byHour],
+    ["📅 By UTC weekday", breakdown.byWeekday],
+  ];
+  for (const [title, buckets] of sections) {
+    lines.push("", "─".repeat(56), `${title} (${conf})`, "─".repeat(56));
+    if (buckets.length === 0) lines.push("  (No closed trades yet)");
+    for (const b of buckets) lines.push(formatBucket(b));
+  }
+
+  lines.push("", "─".repeat(56), "✂️  YAML conditions to drop", "─".repeat(56));
+  const drops = breakdown.rules.filter((m) => m.verdict === "drop");
+  if (drops.length === 0) {
+    const pending = breakdown.rules.filter((m) => m.verdict === "insufficient").length;
+    lines.push("  None — no condition has a significantly negative expectancy lift");
+    if (pending > 0) {
+      lines.push(`  (${pending} condition(s) below ${breakdown.minSamples} trades on one side, not judged yet)`);
+    }
+  }
+  for (const m of drops) {
+    lines.push(`  signals.${m.signalType}: remove "${m.rule}" (E lift ${pct(m.expectancyLift)})`);
+  }
+
+  return lines.join("\n");
+}
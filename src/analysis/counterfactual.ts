@@ -0,0 +1,168 @@
+/**
+ * Filtered Signal Counterfactuals — Domain Module
+ *
+ * Monitors store every entry signal a filter rejected (status "rejected" in
+ * signal-history.jsonl, with the filter and its inputs). This module replays each one
+ * on the klines that followed it under the SL/TP it would have traded with, then
+ * totals per filter how much PnL the rejections saved (would-be losers) or cost
+ * (would-be winners).
+ *
+ * pnlPercent is in ratio format (0.038 = +3.8%), consistent with signal-history.ts.
+ *
+ * CLI entry: src/scripts/counterfactual.ts
+ */
+
+import type { CounterfactualOutcome, RejectionFilter, SignalRecord } from "../strategy/signal-history.js";
+import type { Kline } from "../types.js";
+
+// ─── Types ──────────────────────────────────────────────
+
+export interface CounterfactualOptions {
+  /** Close the hypothetical trade at market after this many hours (default 72) */
+  maxHoldingHours: number;
+}
+
+export const DEFAULT_COUNTERFACTUAL: CounterfactualOptions = { maxHoldingHours: 72 };
+
+export interface FilterImpact {
+  filter: RejectionFilter;
+  /** Rejected signals logged for this filter */
+  rejected: number;
+  /** Rejections whose outcome is known */
+  resolved: number;
+  pending: number;
+  /** Would-be winners among resolved rejections */
+  wins: number;
+  losses: number;
+  winRate: number;
+  /** Sum of would-be PnL ratios (negative = the rejected trades would have lost) */
+  counterfactualPnlPct: number;
+  avgPnlPct: number;
+  /** PnL the filter saved: −counterfactualPnlPct (positive = filter helped, negative = it cost) */
+  savedPct: number;
+}
+
+// ─── Simulation ─────────────────────────────────────────
+
+/**
+ * Replay a rejected signal on the klines after its rejection.
+ *
+ * Entry at the rejected signal's price; SL/TP from the rejection record. A bar touching
+ * both levels counts as a stop-loss (the backtest runner's conservative intracandle
+ * priority). Bars opening before the rejection are ignored.
+ *
+ * @returns The outcome, or null while the klines do not yet reach an exit
+ */
+export function simulateCounterfactual(
+  rec: SignalRecord,
+  klines: Kline[],
+  opts: CounterfactualOptions = DEFAULT_COUNTERFACTUAL
+): CounterfactualOutcome | null {
+  const rejection = rec.rejection;
+  if (!rejection || (rec.type !== "buy" && rec.type !== "short")) return null;
+
+  const isShort = rec.type === "short";
+  const entry = rec.entryPrice;
+  const sl = rejection.stopLossPercent / 100;
+  const tp = rejection.takeProfitPercent / 100;
+  const stopPrice = isShort ? entry * (1 + sl) : entry * (1 - sl);
+  const takePrice = isShort ? entry * (1 - tp) : entry * (1 + tp);
+  const deadline = rec.entryTime + opts.maxHoldingHours * 3600_000;
+
+  const outcome = (
+    exitPrice: number,
+    exitTime: number,
+    exitReason: CounterfactualOutcome["exitReason"]
+  ): CounterfactualOutcome => ({
+    exitPrice,
+    exitTime,
+    exitReason,
+    pnlPercent: isShort ? (entry - exitPrice) / entry : (exitPrice - entry) / entry,
+    holdingHours: (exitTime - rec.entryTime) / 3600_000,
+  });
+
+  for (const k of klines) {
+    if (k.openTime < rec.entryTime) continue;
+    const stopped = isShort ? k.high >= stopPrice : k.low <= stopPrice;
+    if (stopped) return outcome(stopPrice, k.closeTime, "stop_loss");
+    const taken = isShort ? k.low <= takePrice : k.high >= takePrice;
+    if (taken) return outcome(takePrice, k.closeTime, "take_profit");
+    if (k.closeTime >= deadline) return outcome(k.close, k.closeTime, "time_stop");
+  }
+  return null;
+}
+
+// ─── Per-Filter Impact ──────────────────────────────────
+
+/**
+ * Per-filter totals over rejected signal records, sorted by PnL saved (most helpful first)
+ */
+export function summarizeFilterImpact(records: SignalRecord[]): FilterImpact[] {
+  const groups = new Map<RejectionFilter, SignalRecord[]>();
+  for (const rec of records) {
+    if (rec.status !== "rejected" || !rec.rejection) continue;
+    const existing = groups.get(rec.rejection.filter) ?? [];
+    existing.push(rec);
+    groups.set(rec.rejection.filter, existing);
+  }
+
+  const impacts: FilterImpact[] = [];
+  for (const [filter, recs] of groups) {
+    const pnls = recs.flatMap((r) => (r.rejection?.counterfactual ? [r.rejection.counterfactual.pnlPercent] : []));
+    const wins = pnls.filter((p) => p > 0).length;
+    const total = pnls.reduce((s, p) => s + p, 0);
+    impacts.push({
+      filter,
+      rejected: recs.length,
+      resolved: pnls.length,
+      pending: recs.length - pnls.length,
+      wins,
+      losses: pnls.length - wins,
+      winRate: pnls.length > 0 ? wins / pnls.length : 0,
+      counterfactualPnlPct: total,
+      avgPnlPct: pnls.length > 0 ? total / pnls.length : 0,
+      savedPct: -total,
+    });
+  }
+  return impacts.sort((a, b) => b.savedPct - a.savedPct);
+}
+
+// ─── Report Formatting ──────────────────────────────────
+
+/**
+ * Format the per-filter impact as human-readable text.
+ * Ratios are multiplied by 100 for display.
+ */
+export function formatFilterImpactReport(impacts: FilterImpact[]): string {
+  const pct = (ratio: number): string => `${ratio >= 0 ? "+" : ""}${(ratio * 100).toFixed(2)}%`;
+  const lines: string[] = [
+    "═".repeat(56),
+    "🧪 Filtered Signal Counterfactuals",
+    "═".repeat(56),
+  ];
+
+  if (impacts.length === 0) {
+    lines.push("  (No rejected signals logged yet)");
+  }
+
+  for (const f of impacts) {
+    const verdict = f.resolved === 0 ? "⏳" : f.savedPct >= 0 ? "✅ saved" : "❌ cost";
+    lines.push(`${f.filter.padEnd(15)} ${verdict} ${f.resolved > 0 ? pct(f.savedPct) : ""}`.trimEnd());
+    lines.push(
+      `   ${f.rejected} rejected | ${f.resolved} resolved | ${f.pending} pending` +
+      (f.resolved > 0
+        ? ` | would-be WR ${(f.winRate * 100).toFixed(0)}% | avg ${pct(f.avgPnlPct)}`
+        : "")
+    );
+  }
+
+  const resolved = impacts.reduce((s, f) => s + f.resolved, 0);
+  if (resolved > 0) {
+    const saved = impacts.reduce((s, f) => s + f.savedPct, 0);
+    lines.push("─".repeat(56));
+    lines.push(`Net across filters: ${pct(saved)} ${saved >= 0 ? "saved" : "cost"} over ${resolved} resolved rejections`);
+  }
+
+  lines.push("═".repeat(56));
+  return lines.join("\n");
+}
@@ -9,6 +9,7 @@ import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
 import type { TradeRecord } from "./analysis-types.js";
+import { stateDb } from "../persistence/store.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -118,14 +119,7 @@ export function collectFromBacktest(backtestResult: unknown): TradeRecord[] {
   return records;
 }
 
-/**
- * Load actual trade records from signal-history.jsonl.
- *
- * Only loads records with status="closed" (completed trades).
- */
-export function collectFromSignalHistory(filepath?: string): TradeRecord[] {
-  const filePath = filepath ?? DEFAULT_SIGNAL_HISTORY;
-
+function readRawSignals(filePath: string): RawSignalRecord[] {
   if (!fs.existsSync(filePath)) return [];
 
   let raw: string;
@@ -135,17 +129,29 @@ export function collectFromSignalHistory(filepath?: string): TradeRecord[] {
     return [];
   }
 
-  const lines = raw.split("\n").filter((l) => l.trim().length > 0);
-  const records: TradeRecord[] = [];
-
-  for (const line of lines) {
-    let parsed: RawSignalRecord;
+  const parsed: RawSignalRecord[] = [];
+  for (const line of raw.split("\n").filter((l) => l.trim().length > 0)) {
     try {
-      parsed = JSON.parse(line) as RawSignalRecord;
+      parsed.push(JSON.parse(line) as RawSignalRecord);
     } catch {
       continue; // skip invalid JSON lines
     }
+  }
+  return parsed;
+}
+
+/**
+ * Load actual trade records from signal-history.jsonl.
+ *
+ * Only loads records with status="closed" (completed trades).
+ */
+export function collectFromSignalHistory(filepath?: string): TradeRecord[] {
+  // The default history lives in SQLite when persistence.backend = sqlite
+  const db = filepath === undefined ? stateDb() : null;
+  const rawRecords = db ? (db.getSignals() as unknown as RawSignalRecord[]) : readRawSignals(filepath ?? DEFAULT_SIGNAL_HISTORY);
+  const records: TradeRecord[] = [];
 
+  for (const parsed of rawRecords) {
     // Only process closed records
     if (parsed.status !== "closed") continue;
 
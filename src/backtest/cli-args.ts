@@ -21,14 +21,53 @@ export interface BacktestCliArgs {
   spreadBps: number;
   /** Delay signal execution by one candle (eliminates look-ahead bias). CLI: --next-open */
   signalToNextOpen: boolean;
+  /** Cap fills at this % of each candle's volume (enables the volume fill model). CLI: --volume-cap */
+  volumeCapPercent?: number;
+  /** Square-root market impact coefficient (volume fill model only). CLI: --impact */
+  impactCoefficient?: number;
+  /** Replay through the monitor pipeline + paper engine instead of the backtest engine. CLI: --replay */
+  replay: boolean;
+  /** Portfolio backtest sleeves (profile id + allocation). CLI: --portfolio trend:0.5,rsi-pure:0.5 */
+  portfolio?: { id: string; allocation: number }[];
 }
 
 // ─────────────────────────────────────────────────────
 // Argument Parsing
 // ─────────────────────────────────────────────────────
 
+/**
+ * Parse "--portfolio" spec: "trend:0.6,rsi-pure:0.4"
+ * Sleeves without an allocation split what the others leave equally ("trend,rsi-pure" = 50/50)
+ */
+export function parsePortfolioSpec(spec: string): { id: string; allocation: number }[] {
+  const items = spec.split(",").map((s) => s.trim()).filter((s) => s !== "");
+  if (items.length === 0) throw new Error("--portfolio needs at least one strategy");
+  const parsed = items.map((item) => {
+    const [id = "", weight] = item.split(":");
+    if (weight === undefined) return { id, allocation: undefined };
+    const allocation = parseFloat(weight);
+    if (!(allocation > 0 && allocation <= 1)) {
+      throw new Error(`--portfolio allocation for "${id}" must be in (0, 1], got "${weight}"`);
+    }
+    return { id, allocation };
+  });
+  const fixed = parsed.reduce((s, p) => s + (p.allocation ?? 0), 0);
+  const open = parsed.filter((p) => p.allocation === undefined).length;
+  const share = open > 0 ? Math.max(0, 1 - fixed) / open : 0;
+  return parsed.map((p) => ({ id: p.id, allocation: p.allocation ?? share }));
+}
+
+/** Strict numeric flag value: "5x" / "" / "abc" are rejected instead of parsing to a prefix or NaN */
+function parseNumberArg(flag: string, raw: string): number {
+  const value = raw.trim() === "" ? NaN : Number(raw);
+  if (!Number.isFinite(value)) throw new Error(`${flag} expects a number, got "${raw}"`);
+  return value;
+}
+
 /**
  * Parse backtest CLI arguments (pass in process.argv.slice(2))
+ * Throws on invalid fill model flags (--volume-cap outside (0, 100], negative --impact,
+ * --impact without --volume-cap).
  */
 export function parseBacktestArgs(argv: string[]): BacktestCliArgs {
   const args: BacktestCliArgs = {
@@ -39,6 +78,7 @@ export function parseBacktestArgs(argv: string[]): BacktestCliArgs {
     slippageSweep: false,
     spreadBps: 0,
     signalToNextOpen: false,
+    replay: false,
   };
 
   for (let i = 0; i < argv.length; i++) {
@@ -86,11 +126,39 @@ export function parseBacktestArgs(argv: string[]): BacktestCliArgs {
       case "--next-open":
         args.signalToNextOpen = true;
         break;
+      case "--replay":
+        args.replay = true;
+        break;
+      case "--volume-cap": {
+        const cap = parseNumberArg(arg, nextArg());
+        if (!(cap > 0 && cap <= 100)) throw new Error(`--volume-cap must be in (0, 100], got ${cap}`);
+        args.volumeCapPercent = cap;
+        break;
+      }
+      case "--impact": {
+        const impact = parseNumberArg(arg, nextArg());
+        if (!(impact >= 0)) throw new Error(`--impact must be >= 0, got ${impact}`);
+        args.impactCoefficient = impact;
+        break;
+      }
+      case "--portfolio":
+        args.portfolio = parsePortfolioSpec(nextArg());
+        break;
       case undefined:
       default:
         break; // skip unknown arguments or undefined (noUncheckedIndexedAccess)
     }
   }
 
+  // --impact only applies to the volume fill model, which --volume-cap turns on
+  if (args.impactCoefficient !== undefined && args.volumeCapPercent === undefined) {
+    throw new Error("--impact requires --volume-cap (the impact model only runs with the volume fill model)");
+  }
+
+  // Replay runs the paper engine, which has no fill model or delayed execution
+  if (args.replay && (args.volumeCapPercent !== undefined || args.signalToNextOpen || args.portfolio !== undefined)) {
+    throw new Error("--replay cannot be combined with --volume-cap, --next-open or --portfolio");
+  }
+
   return args;
 }
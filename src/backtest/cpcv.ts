@@ -0,0 +1,288 @@
+/**
+ * Combinatorial Purged Cross-Validation + Backtest Overfitting Statistics
+ *
+ * A single train/test split gives one out-of-sample number, and after a hyperopt search that
+ * number is itself the winner of many trials. This module follows López de Prado / Bailey:
+ *
+ *   CPCV  Split the bar sequence into N groups; every choice of k groups is a test set and the
+ *         rest (minus purged / embargoed bars next to each test block) is the train set.
+ *         C(N, k) splits give a distribution of OOS Sharpe ratios instead of one value.
+ *   PBO   Probability of backtest overfitting: in each split pick the candidate with the best
+ *         in-sample Sharpe and check where it ranks out of sample. PBO = share of splits where
+ *         it lands in the bottom half (logit of its relative rank ≤ 0).
+ *   DSR   Deflated Sharpe ratio: probability that the true Sharpe exceeds the best Sharpe one
+ *         would expect from N trials of pure noise, corrected for skew, fat tails and length.
+ *
+ * All Sharpe ratios here are per bar (not annualized) and computed from per-bar equity returns.
+ */
+
+import type { EquityPoint } from "./metrics.js";
+
+// ─── Type Definitions ──────────────────────────────────────────
+
+export interface CpcvOptions {
+  /** Number of contiguous groups the bars are split into (default 6) */
+  groups: number;
+  /** Groups per test set (default 2 → C(6,2) = 15 splits) */
+  testGroups: number;
+  /** Train bars dropped right before each test block (trades still open into it). Default 1% of bars */
+  purgeBars?: number;
+  /** Train bars dropped right after each test block (serial correlation). Default 1% of bars */
+  embargoBars?: number;
+}
+
+export const DEFAULT_CPCV: CpcvOptions = { groups: 6, testGroups: 2 };
+
+export interface CpcvSplit {
+  /** Indexes of the groups in the test set */
+  testGroups: number[];
+  /** Observation indexes used for training (purged + embargoed) */
+  train: number[];
+  /** Observation indexes used for testing */
+  test: number[];
+}
+
+export interface CpcvResult {
+  splits: number;
+  /** [candidate][split] out-of-sample Sharpe */
+  oosSharpe: number[][];
+  /** Per split: index of the candidate with the best in-sample Sharpe */
+  selected: number[];
+  /** Per split: OOS Sharpe of that candidate (the distribution of the selection procedure) */
+  selectedOosSharpe: number[];
+  /** Per split: logit of the selected candidate's relative OOS rank */
+  logits: number[];
+  /** Probability of backtest overfitting (share of logits ≤ 0) */
+  pbo: number;
+}
+
+export interface DeflatedSharpeResult {
+  /** Observed per-bar Sharpe */
+  sharpe: number;
+  /** Expected maximum Sharpe of `trials` noise strategies (the deflation benchmark) */
+  benchmark: number;
+  /** Probability that the true Sharpe exceeds the benchmark */
+  dsr: number;
+}
+
+// ─── Normal Distribution ─────────────────────────────────────
+
+/** Standard normal CDF (Abramowitz & Stegun 26.2.17, |error| < 7.5e-8) */
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly = t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI) * poly;
+  return x >= 0 ? 1 - tail : tail;
+}
+
+/** Inverse standard normal CDF (Acklam's rational approximation, relative error < 1.2e-9) */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.383577518672690e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const poly = (coef: number[], x: number): number => coef.reduce((acc, k) => acc * x + k, 0);
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return poly(c, q) / (poly(d, q) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -poly(c, q) / (poly(d, q) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (poly(a, r) * q) / (poly(b, r) * r + 1);
+}
+
+// ─── Returns / Sharpe ────────────────────────────────────────
+
+/**
+ * Per-bar returns of an equity curve on a fixed time grid (the kline open times).
+ * Bars before the first equity point (indicator warm-up) and gaps are forward-filled,
+ * i.e. return 0, so curves from different parameter sets line up bar for bar.
+ * Returns `times.length - 1` values.
+ */
+export function alignedReturns(curve: EquityPoint[], times: number[]): number[] {
+  const first = curve[0];
+  if (!first) return times.slice(1).map(() => 0);
+  let j = 0;
+  let equity = first.equity;
+  const equities = times.map((t) => {
+    for (; j < curve.length && (curve[j]?.time ?? Infinity) <= t; j++) equity = curve[j]?.equity ?? equity;
+    return equity;
+  });
+  return equities.slice(1).map((e, i) => {
+    const prev = equities[i] ?? 0;
+    return prev > 0 ? e / prev - 1 : 0;
+  });
+}
+
+function mean(xs: number[]): number {
+  return xs.length > 0 ? xs.reduce((s, x) => s + x, 0) / xs.length : 0;
+}
+
+/** Per-bar Sharpe (mean / sample stddev); 0 when there is no variance */
+export function sharpeOf(returns: number[]): number {
+  if (returns.length < 2) return 0;
+  const m = mean(returns);
+  const variance = returns.reduce((s, r) => s + (r - m) ** 2, 0) / (returns.length - 1);
+  return variance > 0 ? m / Math.sqrt(variance) : 0;
+}
+
+/** Sample skewness and (non-excess) kurtosis */
+function moments(returns: number[]): { skew: number; kurtosis: number } {
+  const m = mean(returns);
+  const m2 = mean(returns.map((r) => (r - m) ** 2));
+  if (m2 === 0) return { skew: 0, kurtosis: 3 };
+  return {
+    skew: mean(returns.map((r) => (r - m) ** 3)) / m2 ** 1.5,
+    kurtosis: mean(returns.map((r) => (r - m) ** 4)) / m2 ** 2,
+  };
+}
+
+// ─── CPCV ─────────────────────────────────────────────
+
+/** All k-element combinations of [0, n) in lexicographic order */
+export function combinations(n: number, k: number): number[][] {
+  const out: number[][] = [];
+  const walk = (start: number, picked: number[]): void => {
+    if (picked.length === k) {
+      out.push(picked);
+      return;
+    }
+    for (let i = start; i <= n - (k - picked.length); i++) walk(i + 1, [...picked, i]);
+  };
+  walk(0, []);
+  return out;
+}
+
+/**
+ * Purged combinatorial splits of `n` observations.
+ * Adjacent test groups form one block; train observations within `purgeBars` before a block
+ * or `embargoBars` after it are removed.
+ */
+export function cpcvSplits(n: number, opts: CpcvOptions = DEFAULT_CPCV): CpcvSplit[] {
+  const { groups, testGroups } = opts;
+  if (!Number.isInteger(groups) || !Number.isInteger(testGroups) || testGroups < 1 || testGroups >= groups) {
+    throw new Error(`CPCV needs integer groups > testGroups ≥ 1, got groups=${groups} testGroups=${testGroups}`);
+  }
+  if (n < groups * 2) {
+    throw new Error(`CPCV needs at least ${groups * 2} observations for ${groups} groups, got ${n}`);
+  }
+  const purge = opts.purgeBars ?? Math.ceil(n * 0.01);
+  const embargo = opts.embargoBars ?? Math.ceil(n * 0.01);
+  const bounds = Array.from({ length: groups + 1 }, (_, g) => Math.round((g * n) / groups));
+  const groupOf = (i: number): number => bounds.findIndex((b) => b > i) - 1;
+
+  return combinations(groups, testGroups).map((picked) => {
+    const inTest = new Set(picked);
+    const excluded = new Uint8Array(n);
+    for (const g of picked) {
+      const start = bounds[g] ?? 0;
+      const end = bounds[g + 1] ?? n;
+      for (let i = start; i < end; i++) excluded[i] = 1;
+      // Only the edges of a block touch train data
+      if (!inTest.has(g - 1)) for (let i = Math.max(0, start - purge); i < start; i++) excluded[i] = 1;
+      if (!inTest.has(g + 1)) for (let i = end; i < Math.min(n, end + embargo); i++) excluded[i] = 1;
+    }
+    const train: number[] = [];
+    const test: number[] = [];
+    for (let i = 0; i < n; i++) {
+      if (inTest.has(groupOf(i))) test.push(i);
+      else if (excluded[i] === 0) train.push(i);
+    }
+    return { testGroups: picked, train, test };
+  });
+}
+
+/**
+ * Run CPCV over a set of candidates (e.g. every hyperopt trial plus the current params).
+ *
+ * @param returns  [candidate][bar] per-bar returns, all the same length
+ * @param opts     Split settings
+ */
+export function runCpcv(returns: number[][], opts: CpcvOptions = DEFAULT_CPCV): CpcvResult {
+  const n = returns[0]?.length ?? 0;
+  if (returns.some((r) => r.length !== n)) {
+    throw new Error("CPCV candidates must have return series of equal length");
+  }
+  const splits = cpcvSplits(n, opts);
+  const pick = (series: number[], idx: number[]): number[] => idx.map((i) => series[i] ?? 0);
+
+  const oosSharpe = returns.map((series) => splits.map((s) => sharpeOf(pick(series, s.test))));
+  const selected: number[] = [];
+  const selectedOosSharpe: number[] = [];
+  const logits: number[] = [];
+
+  splits.forEach((split, si) => {
+    const isSharpe = returns.map((series) => sharpeOf(pick(series, split.train)));
+    const best = isSharpe.reduce((bi, v, i) => (v > (isSharpe[bi] ?? -Infinity) ? i : bi), 0);
+    const oos = oosSharpe.map((row) => row[si] ?? 0);
+    const chosen = oos[best] ?? 0;
+    // Relative rank in (0, 1): ties share their average rank
+    const below = oos.filter((v) => v < chosen).length;
+    const ties = oos.filter((v) => v === chosen).length;
+    const omega = (below + (ties + 1) / 2) / (oos.length + 1);
+    selected.push(best);
+    selectedOosSharpe.push(chosen);
+    logits.push(Math.log(omega / (1 - omega)));
+  });
+
+  return {
+    splits: splits.length,
+    oosSharpe,
+    selected,
+    selectedOosSharpe,
+    logits,
+    pbo: logits.length > 0 ? logits.filter((l) => l <= 0).length / logits.length : 1,
+  };
+}
+
+// ─── Deflated Sharpe ─────────────────────────────────────────
+
+const EULER_MASCHERONI = 0.5772156649;
+
+/**
+ * Probabilistic Sharpe ratio: P(true Sharpe > benchmark) given the observed returns,
+ * adjusting for sample length, skew and kurtosis.
+ */
+export function probabilisticSharpe(returns: number[], benchmark = 0): number {
+  if (returns.length < 3) return 0;
+  const sr = sharpeOf(returns);
+  const { skew, kurtosis } = moments(returns);
+  const variance = 1 - skew * sr + ((kurtosis - 1) / 4) * sr * sr;
+  if (variance <= 0) return sr > benchmark ? 1 : 0;
+  return normalCdf(((sr - benchmark) * Math.sqrt(returns.length - 1)) / Math.sqrt(variance));
+}
+
+/**
+ * Expected maximum Sharpe among `trials` independent strategies with zero true Sharpe whose
+ * estimated Sharpes have variance `sharpeVariance` (false strategy theorem).
+ */
+export function expectedMaxSharpe(trials: number, sharpeVariance: number): number {
+  if (trials <= 1 || sharpeVariance <= 0) return 0;
+  return Math.sqrt(sharpeVariance) * (
+    (1 - EULER_MASCHERONI) * normalQuantile(1 - 1 / trials) +
+    EULER_MASCHERONI * normalQuantile(1 - 1 / (trials * Math.E))
+  );
+}
+
+/**
+ * Deflated Sharpe ratio of the selected strategy.
+ *
+ * @param returns       Per-bar returns of the selected strategy
+ * @param trialSharpes  Per-bar Sharpe of every trial searched (sets the number of trials and their dispersion)
+ */
+export function deflatedSharpe(returns: number[], trialSharpes: number[]): DeflatedSharpeResult {
+  const m = mean(trialSharpes);
+  const variance = trialSharpes.length > 1
+    ? trialSharpes.reduce((s, v) => s + (v - m) ** 2, 0) / (trialSharpes.length - 1)
+    : 0;
+  const benchmark = expectedMaxSharpe(trialSharpes.length, variance);
+  return { sharpe: sharpeOf(returns), benchmark, dsr: probabilisticSharpe(returns, benchmark) };
+}
@@ -0,0 +1,100 @@
+/**
+ * Backtest Fill Models
+ *
+ * Without a fill model, runBacktest() fills every order completely at the reference price
+ * plus flat slippagePercent / spreadBps, regardless of order size. That is fine for small
+ * accounts on liquid pairs but badly optimistic once size matters.
+ *
+ * A FillModel decides, per order and per bar:
+ *   - how much of the requested quantity fills on this bar (the rest is carried to the next bar)
+ *   - the market-impact component of the execution price (on top of slippage + spread)
+ *
+ * Built-in: createVolumeFillModel() — caps fills at a fraction of candle volume and applies
+ * a square-root impact curve: impact = k × σ_bar × √(qty / barVolume), σ_bar = (high − low) / close
+ */
+
+import type { Kline } from "../types.js";
+
+// ─────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────
+
+export interface FillRequest {
+  side: "buy" | "sell";
+  /** Reference price (close / next open / stop trigger) before slippage, spread and impact */
+  price: number;
+  /** Requested quantity (BASE asset) */
+  quantity: number;
+  /** Bar the order executes in */
+  kline: Kline;
+  /** BASE volume already taken by earlier fills of this symbol on the same bar */
+  volumeUsed: number;
+}
+
+export interface FillResult {
+  /** Filled quantity (BASE asset), 0 ≤ quantity ≤ requested */
+  quantity: number;
+  /** Market impact added to the execution price (%, always ≥ 0; applied against the trader) */
+  impactPercent: number;
+}
+
+export interface FillModel {
+  readonly name: string;
+  fill(req: FillRequest): FillResult;
+}
+
+export interface VolumeFillModelOptions {
+  /** Max share of a bar's volume a single symbol can take across all its fills (0~1). Default 0.1 */
+  maxVolumeFraction?: number;
+  /** Square-root impact coefficient k. Default 1; 0 = volume cap only */
+  impactCoefficient?: number;
+}
+
+// ─────────────────────────────────────────────────────
+// Square-root impact
+// ─────────────────────────────────────────────────────
+
+/**
+ * Square-root market impact (%): k × σ_bar × √(qty / volume) × 100
+ * σ_bar uses the bar's high-low range as the volatility proxy, so quiet bars cost less than
+ * wide ones for the same participation.
+ */
+export function sqrtImpactPercent(quantity: number, kline: Kline, coefficient: number): number {
+  if (quantity <= 0 || kline.volume <= 0 || kline.close <= 0 || coefficient <= 0) return 0;
+  const sigma = (kline.high - kline.low) / kline.close;
+  return coefficient * sigma * Math.sqrt(quantity / kline.volume) * 100;
+}
+
+// ─────────────────────────────────────────────────────
+// Volume-capped model
+// ─────────────────────────────────────────────────────
+
+/**
+ * Volume-capped fill model with square-root impact
+ *
+ * - Each symbol may fill at most maxVolumeFraction × bar volume per bar; the unfilled
+ *   remainder is carried by the runner to the next bar
+ * - Bars with zero volume fill nothing
+ */
+export function createVolumeFillModel(opts: VolumeFillModelOptions = {}): FillModel {
+  const maxVolumeFraction = opts.maxVolumeFraction ?? 0.1;
+  const impactCoefficient = opts.impactCoefficient ?? 1;
+  if (!(maxVolumeFraction > 0 && maxVolumeFraction <= 1)) {
+    throw new Error(`maxVolumeFraction must be in (0, 1], got ${maxVolumeFraction}`);
+  }
+  if (!(impactCoefficient >= 0)) {
+    throw new Error(`impactCoefficient must be >= 0, got ${impactCoefficient}`);
+  }
+
+  return {
+    name: `volume(${(maxVolumeFraction * 100).toFixed(1)}%, k=${impactCoefficient})`,
+    fill({ quantity, kline, volumeUsed }: FillRequest): FillResult {
+      const available = Math.max(0, kline.volume * maxVolumeFraction - volumeUsed);
+      const filled = Math.min(quantity, available);
+      return {
+        quantity: filled,
+        impactPercent: sqrtImpactPercent(filled, kline, impactCoefficient),
+      };
+    },
+  };
+}
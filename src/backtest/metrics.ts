@@ -22,6 +22,12 @@ export interface BacktestTrade {
   pnlPercent: number; // PnL percentage (-0.05 means -5%)
   exitReason: "signal" | "stop_loss" | "take_profit" | "trailing_stop" | "end_of_data" | "time_stop";
   signalConditions?: string[];
+  /** Portfolio backtest only: sleeve (strategy profile) that made the trade */
+  sleeve?: string;
+  /** Fill model only: share of the requested entry size that filled (0~1) */
+  fillRatio?: number;
+  /** Fill model only: market impact cost of entry + exit fills (USDT) */
+  impactCost?: number;
 }
 
 export interface EquityPoint {
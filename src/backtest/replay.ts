@@ -0,0 +1,557 @@
+/**
+ * Event-driven Replay Backtest
+ *
+ * runBacktest() has its own account model and exit logic; replay instead drives the code the
+ * paper monitor runs, unmodified, over historical klines:
+ *   processSignal() (protections, regime overrides, plugins)
+ *   -> paper/engine.ts handleSignal() / checkExitConditions() (break-even, ROI table, staged TP)
+ *   -> checkDcaTranches() / checkMaxDrawdown()
+ *
+ * How:
+ * 1. SimulatedClock replaces the global Date for the duration of the run, so every Date.now() /
+ *    new Date() in the pipeline (hold times, cooldowns, daily loss reset) reads candle time
+ * 2. ReplayDataProvider serves the klines closed before the clock, like a DataProvider refresh
+ * 3. The scenario runs on a throwaway paper account (logs/paper-replay-*.json) and a temporary
+ *    signal history, both removed afterwards; SQLite persistence is off
+ * 4. One monitor cycle per candle close, in runScenario() order: scan symbols -> multi-leg ->
+ *    exits -> DCA -> max drawdown pause
+ *
+ * Not replayed (no history for them): news / sentiment gate, emergency halt, event calendar,
+ * funding rate, CVD, BTC dominance, Kelly sizing, portfolio heat. Exits are checked at candle close.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { DataProvider } from "../exchange/data-provider.js";
+import {
+  handleSignal,
+  handleMultiLegSignal,
+  checkExitConditions,
+  checkMaxDrawdown,
+  checkDcaTranches,
+  applyStrategyAdjustment,
+} from "../paper/engine.js";
+import {
+  loadAccount,
+  saveAccount,
+  getAccountPath,
+  paperSell,
+  paperCoverShort,
+  calcTotalEquity,
+  type PaperTrade,
+} from "../paper/account.js";
+import { processSignal } from "../strategy/signal-engine.js";
+import { signalWarmupBars } from "../strategy/signals.js";
+import { checkMtfFilter } from "../strategy/mtf-filter.js";
+import { loadRecentTrades } from "../strategy/recent-trades.js";
+import { redirectSignalHistory } from "../strategy/signal-history.js";
+import { setStateDb } from "../persistence/store.js";
+import { DEFAULT_PAIRS_LOOKBACK } from "../strategy/pairs.js";
+// Side effect: register all built-in strategies
+import "../strategies/index.js";
+import { getStrategy } from "../strategies/registry.js";
+import { createMemoryStateStore, type StateStore } from "../strategies/state-store.js";
+import { calculateMetrics, type BacktestTrade, type EquityPoint } from "./metrics.js";
+import { benchmarkReturn, type BacktestResult } from "./runner.js";
+import type { Kline, MarketType, RuntimeConfig, Signal, StrategyConfig } from "../types.js";
+
+// ─────────────────────────────────────────────────────
+// Simulated Clock
+// ─────────────────────────────────────────────────────
+
+/**
+ * Candle-time clock. While installed, the global Date is swapped for a subclass whose
+ * Date.now() and argument-less constructor return the simulated time.
+ */
+export class SimulatedClock {
+  private realDate: DateConstructor | undefined;
+
+  constructor(private current: number) {}
+
+  get now(): number {
+    return this.current;
+  }
+
+  set(ms: number): void {
+    this.current = ms;
+  }
+
+  install(): void {
+    if (this.realDate) return;
+    const RealDate = Date;
+    const now = (): number => this.current;
+    class ReplayDate extends RealDate {
+      constructor(...args: unknown[]) {
+        if (args.length === 0) super(now());
+        else super(...(args as [string | number | Date]));
+      }
+      static override now(): number {
+        return now();
+      }
+    }
+    this.realDate = RealDate;
+    globalThis.Date = ReplayDate as unknown as DateConstructor;
+  }
+
+  uninstall(): void {
+    if (!this.realDate) return;
+    globalThis.Date = this.realDate;
+    this.realDate = undefined;
+  }
+}
+
+// ─────────────────────────────────────────────────────
+// Replay DataProvider
+// ─────────────────────────────────────────────────────
+
+/**
+ * DataProvider over preloaded history: refresh() keeps the last `limit` klines that closed
+ * before the clock, get() returns them (never a network request)
+ */
+export class ReplayDataProvider extends DataProvider {
+  private readonly history = new Map<string, Kline[]>();
+  private readonly visible = new Map<string, Kline[]>();
+
+  constructor(private readonly clock: SimulatedClock) {
+    super(0);
+  }
+
+  /** Register the full history of a symbol/timeframe (sorted by openTime) */
+  load(symbol: string, timeframe: string, klines: Kline[]): void {
+    this.history.set(`${symbol}:${timeframe}`, klines);
+  }
+
+  override refresh(symbols: string[], timeframe: string, limit: number): Promise<void> {
+    for (const symbol of symbols) {
+      const key = `${symbol}:${timeframe}`;
+      const all = this.history.get(key);
+      if (!all) continue;
+      const end = closedCount(all, this.clock.now);
+      this.visible.set(key, all.slice(Math.max(0, end - limit), end));
+    }
+    return Promise.resolve();
+  }
+
+  override get(symbol: string, timeframe: string): Kline[] | undefined {
+    return this.visible.get(`${symbol}:${timeframe}`);
+  }
+
+  override isStale(symbol: string, timeframe: string): boolean {
+    return !this.visible.has(`${symbol}:${timeframe}`);
+  }
+
+  override clear(): void {
+    this.visible.clear();
+  }
+
+  override keys(): string[] {
+    return Array.from(this.visible.keys());
+  }
+}
+
+/** Number of klines with closeTime < now (binary search, klines sorted by time) */
+function closedCount(klines: Kline[], now: number): number {
+  let lo = 0;
+  let hi = klines.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if ((klines[mid]?.closeTime ?? Infinity) < now) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// ─────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────
+
+export interface ReplayOptions {
+  initialUsdt?: number;       // default 1000
+  feeRate?: number;           // default 0.001 (0.1%)
+  slippagePercent?: number;   // default 0.05%
+  /** Market of the replayed scenario (default futures when short signals are configured, else spot) */
+  market?: MarketType;
+}
+
+/** What the replay knows about a paper trade beyond the trade log (keyed by trade index) */
+interface TradeTag {
+  reason?: BacktestTrade["exitReason"];
+  conditions?: string[];
+}
+
+/** Entry being tracked until its exit trades turn it into BacktestTrades */
+interface OpenEntry {
+  side: "long" | "short";
+  entryTime: number;
+  entryPrice: number;
+  quantity: number;
+  cost: number;
+  signalConditions: string[];
+}
+
+// ─────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────
+
+/** Notification cooldown, same rule as monitor.ts shouldNotify(): it also gates paper entries there */
+function shouldNotify(
+  lastSignals: Record<string, { type: string; timestamp: number }>,
+  signal: Signal,
+  minIntervalMinutes: number
+): boolean {
+  const last = lastSignals[signal.symbol];
+  if (last?.type !== signal.type) return true;
+  return (Date.now() - last.timestamp) / 60000 >= minIntervalMinutes;
+}
+
+function buildReplayRuntime(cfg: StrategyConfig, scenarioId: string, opts: ReplayOptions): RuntimeConfig {
+  const market = opts.market ?? (cfg.signals.short?.length ? "futures" : "spot");
+  return {
+    ...cfg,
+    exchange: { market },
+    paper: {
+      scenarioId,
+      initial_usdt: opts.initialUsdt ?? 1000,
+      fee_rate: opts.feeRate ?? 0.001,
+      slippage_percent: opts.slippagePercent ?? 0.05,
+      report_interval_hours: 0,
+      use_sqlite: false,
+    },
+  };
+}
+
+/**
+ * Turn the paper trade log into BacktestTrades: entries (buy/short, including DCA and strategy
+ * adds) are kept as opening records and accumulated per symbol; every exit (sell/cover, including
+ * partial staged take profits) becomes a closed trade for its share of the entry
+ */
+function toBacktestTrades(trades: PaperTrade[], tags: Map<number, TradeTag>): BacktestTrade[] {
+  const open: Record<string, OpenEntry> = {};
+  const result: BacktestTrade[] = [];
+  trades.forEach((t, i) => {
+    const tag = tags.get(i);
+    if (t.side === "buy" || t.side === "short") {
+      const side = t.side === "buy" ? "long" : "short";
+      const prev = open[t.symbol];
+      if (prev?.side === side) {
+        const quantity = prev.quantity + t.quantity;
+        prev.entryPrice = (prev.entryPrice * prev.quantity + t.price * t.quantity) / quantity;
+        prev.quantity = quantity;
+        prev.cost += t.usdtAmount;
+      } else {
+        open[t.symbol] = {
+          side,
+          entryTime: t.timestamp,
+          entryPrice: t.price,
+          quantity: t.quantity,
+          cost: t.usdtAmount,
+          signalConditions: tag?.conditions ?? [],
+        };
+      }
+      const conditions = tag?.conditions ?? [];
+      result.push({
+        symbol: t.symbol,
+        side: t.side,
+        entryTime: t.timestamp,
+        exitTime: t.timestamp,
+        entryPrice: t.price,
+        exitPrice: t.price,
+        quantity: t.quantity,
+        cost: t.usdtAmount,
+        proceeds: 0,
+        pnl: 0,
+        pnlPercent: 0,
+        exitReason: "signal",
+        ...(conditions.length > 0 && { signalConditions: conditions }),
+      });
+      return;
+    }
+
+    const entry = open[t.symbol];
+    const share = entry && entry.quantity > 0 ? Math.min(1, t.quantity / entry.quantity) : 1;
+    const cost = entry ? entry.cost * share : t.usdtAmount - (t.pnl ?? 0);
+    result.push({
+      symbol: t.symbol,
+      side: t.side,
+      entryTime: entry?.entryTime ?? t.timestamp,
+      exitTime: t.timestamp,
+      entryPrice: entry?.entryPrice ?? t.price,
+      exitPrice: t.price,
+      quantity: t.quantity,
+      cost,
+      proceeds: t.usdtAmount,
+      pnl: t.pnl ?? 0,
+      pnlPercent: t.pnlPercent ?? 0,
+      exitReason: tag?.reason ?? "signal",
+      ...(entry && entry.signalConditions.length > 0 && { signalConditions: entry.signalConditions }),
+    });
+    if (entry) {
+      entry.quantity -= t.quantity;
+      entry.cost -= cost;
+      if (share >= 1 || entry.quantity <= 1e-12) Reflect.deleteProperty(open, t.symbol);
+    }
+  });
+  return result;
+}
+
+// ─────────────────────────────────────────────────────
+// Replay Main Loop
+// ─────────────────────────────────────────────────────
+
+/**
+ * Replay historical klines through the paper monitor pipeline
+ *
+ * @param klinesBySymbol      Klines of cfg.timeframe per symbol
+ * @param cfg                 Strategy config (same as runBacktest)
+ * @param opts                Account / cost options
+ * @param trendKlinesBySymbol Klines of cfg.trend_timeframe (MTF filter; omitted = MTF off)
+ */
+export async function runReplay(
+  klinesBySymbol: Record<string, Kline[]>,
+  cfg: StrategyConfig,
+  opts: ReplayOptions = {},
+  trendKlinesBySymbol?: Record<string, Kline[]>
+): Promise<BacktestResult> {
+  const initialUsdt = opts.initialUsdt ?? 1000;
+  const symbols = cfg.symbols.filter((s) => (klinesBySymbol[s]?.length ?? 0) > 0);
+  const scenarioId = `replay-${Date.now().toString(36)}-${process.pid}`;
+  const rcfg = buildReplayRuntime({ ...cfg, symbols }, scenarioId, opts);
+  const mtfEnabled = trendKlinesBySymbol !== undefined && cfg.trend_timeframe !== undefined &&
+    cfg.trend_timeframe !== cfg.timeframe;
+
+  // ── Candle close times (one monitor cycle per close) ──
+  const closeAt = new Map<number, number>();
+  for (const sym of symbols) {
+    for (const k of klinesBySymbol[sym] ?? []) {
+      closeAt.set(k.openTime, Math.max(closeAt.get(k.openTime) ?? 0, k.closeTime));
+    }
+  }
+  const steps = [...closeAt.entries()].sort((a, b) => a[0] - b[0]);
+  const firstStep = steps[0];
+
+  const clock = new SimulatedClock(firstStep?.[0] ?? 0);
+  const provider = new ReplayDataProvider(clock);
+  for (const sym of symbols) {
+    provider.load(sym, cfg.timeframe, klinesBySymbol[sym] ?? []);
+    const trend = trendKlinesBySymbol?.[sym];
+    if (mtfEnabled && trend && cfg.trend_timeframe) provider.load(sym, cfg.trend_timeframe, trend);
+  }
+
+  // ── Same kline window as runScenario() / scanSymbol() ──
+  const macdMinBars = cfg.strategy.macd.enabled ? cfg.strategy.macd.slow + cfg.strategy.macd.signal + 1 : 0;
+  const pairsBars = cfg.pairs ? (cfg.pairs.lookback ?? DEFAULT_PAIRS_LOOKBACK) + 1 : 0;
+  const minBars = Math.max(cfg.strategy.ma.long, cfg.strategy.rsi.period, macdMinBars, signalWarmupBars(cfg)) + 10;
+  const klineLimit = Math.max(minBars - 10, pairsBars) + 11;
+
+  const strategyId = cfg.strategy_id ?? "default";
+  const strategy = getStrategy(strategyId);
+  const stateStores: Record<string, StateStore> = {};
+  const storeFor = (sym: string): StateStore => (stateStores[sym] ??= createMemoryStateStore());
+
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-replay-"));
+  const historyPath = path.join(tmpDir, "signal-history.jsonl");
+  const restoreHistory = redirectSignalHistory(historyPath, path.join(tmpDir, "signal-index.json"));
+  // The throwaway account stays a JSON file even when runtime state lives in SQLite
+  const restoreStore = setStateDb(null);
+  const equityCurve: EquityPoint[] = [];
+  const lastSignals: Record<string, { type: string; timestamp: number }> = {};
+  const lastPrices: Record<string, number> = {};
+  let paused = false;
+  let trades: PaperTrade[];
+
+  // Trades appended by an engine call are tagged by index (the engine reloads the account from disk)
+  const tradeCount = (): number => loadAccount(initialUsdt, scenarioId).trades.length;
+  const tags = new Map<number, TradeTag>();
+  const remember = (before: number, tag: TradeTag): void => {
+    const after = tradeCount();
+    for (let i = before; i < after; i++) tags.set(i, tag);
+  };
+
+  clock.install();
+  try {
+    for (const [openTime, closeTime] of steps) {
+      clock.set(closeTime + 1);
+      await provider.refresh(symbols, cfg.timeframe, klineLimit);
+      if (mtfEnabled && cfg.trend_timeframe) {
+        await provider.refresh(symbols, cfg.trend_timeframe, cfg.strategy.ma.long + 10);
+      }
+      const currentPrices: Record<string, number> = {};
+      for (const sym of symbols) {
+        const last = provider.get(sym, cfg.timeframe)?.at(-1);
+        if (last) lastPrices[sym] = last.close;
+      }
+
+      if (!paused) {
+        // ── Scan symbols (scanSymbol) ──
+        for (const symbol of symbols) {
+          const klines = provider.get(symbol, cfg.timeframe);
+          if (!klines || klines.length < minBars) continue;
+
+          const mtf = mtfEnabled ? await checkMtfFilter(symbol, "buy", rcfg, provider) : { trendBull: null };
+
+          const account = loadAccount(initialUsdt, scenarioId);
+          const held = account.positions[symbol];
+          const currentPosSide = held ? (held.side ?? "long") : undefined;
+          const heldKlinesMap: Record<string, Kline[]> = {};
+          if (cfg.risk.correlation_filter?.enabled) {
+            for (const sym of Object.keys(account.positions)) {
+              const kl = sym !== symbol ? provider.get(sym, cfg.timeframe) : undefined;
+              if (kl) heldKlinesMap[sym] = kl;
+            }
+          }
+          const stateStore = strategyId !== "default" ? storeFor(symbol) : undefined;
+          const engineResult = processSignal(symbol, klines, rcfg, {
+            ...(currentPosSide !== undefined ? { currentPosSide } : {}),
+            ...(Object.keys(heldKlinesMap).length > 0 ? { heldKlinesMap } : {}),
+            ...(stateStore !== undefined ? { stateStore } : {}),
+          }, loadRecentTrades(undefined, historyPath));
+          if (!engineResult.indicators) continue;
+
+          if (strategy.adjustEveryCycle === true && currentPosSide !== undefined && stateStore !== undefined) {
+            const before = tradeCount();
+            applyStrategyAdjustment(symbol, engineResult.indicators.price, rcfg, strategy, {
+              klines, cfg: rcfg, indicators: engineResult.indicators, currentPosSide, stateStore,
+            });
+            remember(before, {});
+          }
+
+          const { indicators, signal, effectiveRisk, effectivePositionRatio, rejected } = engineResult;
+          currentPrices[symbol] = indicators.price;
+          if (rejected || signal.type === "none") continue;
+          if (!shouldNotify(lastSignals, signal, cfg.notify.min_interval_minutes)) continue;
+          lastSignals[signal.symbol] = { type: signal.type, timestamp: Date.now() };
+          if (signal.type === "buy" && mtf.trendBull === false) continue;
+          if (signal.type === "short" && mtf.trendBull === true) continue;
+
+          const adjustedCfg = {
+            ...rcfg,
+            risk: { ...effectiveRisk, position_ratio: effectivePositionRatio ?? effectiveRisk.position_ratio },
+          };
+          const before = tradeCount();
+          handleSignal(signal, adjustedCfg);
+          remember(before, { conditions: signal.reason });
+        }
+
+        // ── Multi-leg strategies (scanMultiLeg) ──
+        if (strategy.populateMultiSignal !== undefined) {
+          const klinesBySym: Record<string, Kline[]> = {};
+          for (const sym of symbols) {
+            const kl = provider.get(sym, cfg.timeframe);
+            if (kl && kl.length > 0) klinesBySym[sym] = kl;
+          }
+          const positions: Record<string, "long" | "short"> = {};
+          for (const [sym, pos] of Object.entries(loadAccount(initialUsdt, scenarioId).positions)) {
+            positions[sym] = pos.side ?? "long";
+          }
+          const multi = strategy.populateMultiSignal({ klinesBySymbol: klinesBySym, cfg: rcfg, positions });
+          if (multi) {
+            const before = tradeCount();
+            handleMultiLegSignal(multi, { ...lastPrices, ...currentPrices }, rcfg);
+            remember(before, { conditions: [multi.reason] });
+          }
+        }
+      } else {
+        // Paused: the monitor still manages held positions
+        for (const sym of Object.keys(loadAccount(initialUsdt, scenarioId).positions)) {
+          const price = lastPrices[sym];
+          if (price !== undefined) currentPrices[sym] = price;
+        }
+      }
+
+      // ── Exits / DCA / max drawdown (runScenario) ──
+      if (Object.keys(currentPrices).length > 0) {
+        const before = tradeCount();
+        const exits = checkExitConditions(currentPrices, rcfg);
+        const after = tradeCount();
+        // Exits come back in the order their trades were appended
+        exits.forEach(({ reason }, i) => {
+          if (before + i < after) tags.set(before + i, { reason });
+        });
+        if (!paused) {
+          if (cfg.risk.dca?.enabled) {
+            const dcaBefore = tradeCount();
+            checkDcaTranches(currentPrices, rcfg);
+            remember(dcaBefore, { conditions: ["dca"] });
+          }
+          if (checkMaxDrawdown(currentPrices, rcfg)) paused = true;
+        }
+      }
+
+      equityCurve.push({ time: openTime, equity: calcTotalEquity(loadAccount(initialUsdt, scenarioId), lastPrices) });
+    }
+
+    // ── End of data: close everything still open at the last close ──
+    const account = loadAccount(initialUsdt, scenarioId);
+    const closeOpts = { feeRate: rcfg.paper.fee_rate, slippagePercent: rcfg.paper.slippage_percent };
+    for (const [sym, pos] of Object.entries(account.positions)) {
+      const price = lastPrices[sym];
+      if (price === undefined) continue;
+      const before = account.trades.length;
+      if (pos.side === "short") paperCoverShort(account, sym, price, "end_of_data", closeOpts);
+      else paperSell(account, sym, price, "end_of_data", closeOpts);
+      for (let i = before; i < account.trades.length; i++) tags.set(i, { reason: "end_of_data" });
+    }
+    saveAccount(account, scenarioId);
+    trades = account.trades;
+    const lastPoint = equityCurve.at(-1);
+    if (lastPoint) lastPoint.equity = calcTotalEquity(account, lastPrices);
+  } finally {
+    clock.uninstall();
+    restoreHistory();
+    restoreStore();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    fs.rmSync(getAccountPath(scenarioId), { force: true });
+  }
+
+  return summarizeReplay(toBacktestTrades(trades, tags), equityCurve, klinesBySymbol, cfg, symbols, initialUsdt);
+}
+
+/** Build BacktestResult (same shape as runBacktest; no funding, spread or fill model) */
+function summarizeReplay(
+  trades: BacktestTrade[],
+  equityCurve: EquityPoint[],
+  klinesBySymbol: Record<string, Kline[]>,
+  cfg: StrategyConfig,
+  symbols: string[],
+  initialUsdt: number
+): BacktestResult {
+  const metrics = calculateMetrics(trades, initialUsdt, equityCurve, benchmarkReturn(klinesBySymbol));
+
+  const closedTrades = trades.filter((t) => t.side === "sell" || t.side === "cover");
+  const perSymbol: BacktestResult["perSymbol"] = {};
+  for (const sym of symbols) {
+    const symTrades = closedTrades.filter((t) => t.symbol === sym);
+    const symWins = symTrades.filter((t) => t.pnl > 0);
+    perSymbol[sym] = {
+      trades: symTrades.length,
+      wins: symWins.length,
+      losses: symTrades.length - symWins.length,
+      pnl: symTrades.reduce((s, t) => s + t.pnl, 0),
+      winRate: symTrades.length > 0 ? symWins.length / symTrades.length : 0,
+      fundingPaid: 0,
+    };
+  }
+
+  const firstTime = equityCurve[0]?.time ?? 0;
+  const lastTime = equityCurve.at(-1)?.time ?? 0;
+  return {
+    metrics,
+    trades,
+    totalFundingPaid: 0,
+    perSymbol,
+    config: {
+      strategy: cfg.strategy.name,
+      symbols,
+      timeframe: cfg.timeframe,
+      startDate: new Date(firstTime).toISOString().slice(0, 10),
+      endDate: new Date(lastTime).toISOString().slice(0, 10),
+      days: Math.round((lastTime - firstTime) / 86_400_000),
+      initialUsdt,
+      fundingEnabled: false,
+      spreadBps: 0,
+      signalToNextOpen: false,
+      replay: true,
+    },
+  };
+}
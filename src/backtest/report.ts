@@ -1,16 +1,28 @@
 /**
  * Backtest Report Formatting
  * - Console-friendly output
- * - JSON results saved to logs/backtest/
+ * - JSON results saved to logs/backtest/ (listed and loaded by the dashboard backtest explorer)
  */
 
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
-import type { BacktestResult } from "./runner.js";
+import type { BacktestResult, PortfolioBacktestResult } from "./runner.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const REPORT_DIR = path.resolve(__dirname, "../../logs/backtest");
+let REPORT_DIR = path.resolve(__dirname, "../../logs/backtest");
+
+/**
+ * Point saved reports at another directory (tests)
+ * @returns Restores the previous directory
+ */
+export function redirectReportDir(dir: string): () => void {
+  const prev = REPORT_DIR;
+  REPORT_DIR = dir;
+  return () => {
+    REPORT_DIR = prev;
+  };
+}
 
 // ─────────────────────────────────────────────────────
 // Console Output
@@ -63,7 +75,12 @@ export function formatReport(result: BacktestResult): string {
   if ((c.spreadBps ?? 0) > 0) {
     lines.push(`📏  Spread    ${c.spreadBps} bps (${((c.spreadBps ?? 0) / 100).toFixed(3)}%, simulated bid/ask spread)`);
   }
-  if (c.signalToNextOpen) {
+  if (c.fillModel !== undefined) {
+    lines.push(`🌊  Fills     ${c.fillModel} (partial fills carried to next candle + sqrt impact)`);
+  }
+  if (c.replay === true) {
+    lines.push(`🔁  Exec Mode  Replay: monitor pipeline + paper engine on a simulated clock, fills at candle close`);
+  } else if (c.signalToNextOpen) {
     lines.push(`⚡  Exec Mode  Next candle open (no look-ahead bias, closer to live)`);
   } else {
     lines.push(`⚠️  Exec Mode  Current candle close (has look-ahead bias) — recommend --next-open`);
@@ -114,6 +131,15 @@ export function formatReport(result: BacktestResult): string {
   lines.push(`   Avg Hold         ${pad(fmt(m.avgHoldingHours) + " hours", 12, true)}`);
   lines.push(`   Best Trade       ${pad(fmtPct(m.bestTradePct), 12, true)}`);
   lines.push(`   Worst Trade      ${pad(fmtPct(m.worstTradePct), 12, true)}`);
+  if (result.fills) {
+    const f = result.fills;
+    lines.push(
+      `   Avg Fill Ratio   ${pad(fmt(f.avgFillRatio * 100) + "%", 12, true)}  (${f.partialFillTrades} trades partially filled)`
+    );
+    lines.push(
+      `   Impact Cost      ${pad("$" + fmt(f.totalImpactCost), 12, true)}  ($${fmt(f.avgImpactCost)} / trade)`
+    );
+  }
   lines.push("");
 
   // ── Exit Reasons ──
@@ -166,6 +192,53 @@ export function formatReport(result: BacktestResult): string {
   return lines.join("\n");
 }
 
+/**
+ * Portfolio backtest report: combined report + per-sleeve attribution + return correlation
+ */
+export function formatPortfolioReport(result: PortfolioBacktestResult): string {
+  const titleWidth = 52;
+  const lines: string[] = [formatReport(result), ""];
+
+  // ── Sleeve Attribution ──
+  lines.push(line("─", titleWidth));
+  lines.push("🧩 Sleeve Attribution");
+  lines.push(line("─", titleWidth));
+  for (const s of result.sleeves) {
+    const emoji = s.pnl > 0 ? "🟢" : s.pnl < 0 ? "🔴" : "⚪";
+    lines.push(
+      `${emoji} ${s.id} (${s.strategy}, ${s.timeframe})  alloc ${fmt(s.allocation * 100, 0)}% ($${fmt(s.allocatedUsdt)})`
+    );
+    lines.push(
+      `   PnL ${fmtUsdt(s.pnl)} (${fmtPct(s.returnPercent)} on sleeve, ${fmtPct(s.contributionPercent)} of portfolio)`
+    );
+    lines.push(
+      `   ${s.metrics.totalTrades} trades  WR ${fmt(s.metrics.winRate * 100)}%  Sharpe ${fmtRatio(s.metrics.sharpeRatio)}  MaxDD -${fmt(s.metrics.maxDrawdown)}%`
+    );
+    if (s.blockedEntries > 0) {
+      lines.push(`   Blocked entries  ${s.blockedEntries}  (slots / allocation full or symbol held by another sleeve)`);
+    }
+  }
+  lines.push("");
+
+  // ── Correlation ──
+  const ids = result.sleeves.map((s) => s.id);
+  if (ids.length > 1) {
+    lines.push(line("─", titleWidth));
+    lines.push("🔗 Return Correlation (per step)");
+    lines.push(line("─", titleWidth));
+    const width = Math.max(8, ...ids.map((id) => id.length + 2));
+    lines.push(pad("", width) + ids.map((id) => pad(id, width, true)).join(""));
+    for (const a of ids) {
+      const row = ids.map((b) => pad(fmt(result.correlation[a]?.[b] ?? 0), width, true)).join("");
+      lines.push(pad(a, width) + row);
+    }
+    lines.push("");
+  }
+
+  lines.push(line("━", titleWidth));
+  return lines.join("\n");
+}
+
 // ─────────────────────────────────────────────────────
 // JSON Report Saving
 // ─────────────────────────────────────────────────────
@@ -200,3 +273,83 @@ export function saveReport(result: BacktestResult, label?: string): string {
   fs.writeFileSync(filePath, JSON.stringify(reportData, null, 2));
   return filePath;
 }
+
+// ─────────────────────────────────────────────────────
+// Saved Report Loading
+// ─────────────────────────────────────────────────────
+
+/** A report as written by saveReport (portfolio runs add sleeves + correlation) */
+export type SavedReport = BacktestResult & Partial<Pick<PortfolioBacktestResult, "sleeves" | "correlation">>;
+
+export interface ReportSummary {
+  /** File name inside logs/backtest/ */
+  name: string;
+  /** File mtime (ms) */
+  savedAt: number;
+  strategy: string;
+  timeframe: string;
+  symbols: string[];
+  startDate: string;
+  endDate: string;
+  days: number;
+  initialUsdt: number;
+  totalReturnPercent: number;
+  maxDrawdown: number;
+  sharpeRatio: number;
+  totalTrades: number;
+  winRate: number;
+  portfolio: boolean;
+}
+
+/** Plain file names only: no directories, no dot files */
+const REPORT_NAME_RE = /^[\w][\w.-]*\.json$/;
+
+/**
+ * Load a saved report by file name
+ * Returns null for unknown, unreadable or unsafe names
+ */
+export function loadReport(name: string): SavedReport | null {
+  if (!REPORT_NAME_RE.test(name)) return null;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(path.join(REPORT_DIR, name), "utf-8")) as unknown;
+    const isReport = typeof parsed === "object" && parsed !== null && "metrics" in parsed && "config" in parsed;
+    return isReport ? (parsed as SavedReport) : null;
+  } catch (_e: unknown) {
+    return null;
+  }
+}
+
+/** Saved reports, newest first (files that are not backtest reports are skipped) */
+export function listReports(): ReportSummary[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(REPORT_DIR).filter((f) => REPORT_NAME_RE.test(f));
+  } catch (_e: unknown) {
+    return [];
+  }
+
+  const summaries: ReportSummary[] = [];
+  for (const name of files) {
+    const report = loadReport(name);
+    if (!report) continue;
+    const { config: c, metrics: m } = report;
+    summaries.push({
+      name,
+      savedAt: fs.statSync(path.join(REPORT_DIR, name)).mtimeMs,
+      strategy: c.strategy,
+      timeframe: c.timeframe,
+      symbols: c.symbols,
+      startDate: c.startDate,
+      endDate: c.endDate,
+      days: c.days,
+      initialUsdt: c.initialUsdt,
+      totalReturnPercent: m.totalReturnPercent,
+      maxDrawdown: m.maxDrawdown,
+      sharpeRatio: m.sharpeRatio,
+      totalTrades: m.totalTrades,
+      winRate: m.winRate,
+      portfolio: report.sleeves !== undefined,
+    });
+  }
+  return summaries.sort((a, b) => b.savedAt - a.savedAt);
+}
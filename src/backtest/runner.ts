@@ -6,10 +6,15 @@
  * 2. Sliding window indicator calculation (consistent with real-time monitor)
  * 3. Intra-candle high/low price stop loss/take profit (more realistic than close-only)
  * 4. Stop loss takes priority over take profit (pessimistic model, prevents over-optimistic estimates)
+ * 5. Optional fill model (fill-model.ts): volume-capped partial fills carried to the next bar + market impact
+ * 6. Portfolio mode: several strategy sleeves share one account (runPortfolioBacktest)
+ * 7. Strategy plugins get an in-memory StateStore per symbol and adjustPosition add/reduce on longs
+ * 8. Multi-leg strategies (populateMultiSignal, e.g. pairs) open and close all legs in one step
  */
 
 import { calculateIndicators } from "../strategy/indicators.js";
 import { processSignal } from "../strategy/signal-engine.js";
+import { signalWarmupBars } from "../strategy/signals.js";
 import { getMinimalRoiThreshold } from "../strategy/roi-table.js";
 import { resolveNewStopLoss } from "../strategy/break-even.js";
 import { shouldConfirmExit } from "../strategy/confirm-exit.js";
@@ -21,17 +26,27 @@ import {
   type EquityPoint,
 } from "./metrics.js";
 import type { FundingRateRecord } from "./fetcher.js";
-import type { Strategy, StrategyContext, TradeResult } from "../strategies/types.js";
+import type { FillModel } from "./fill-model.js";
+import type { Strategy, StrategyContext, TradeResult, MultiLegSignal } from "../strategies/types.js";
+import { calcLegUsdt, makePairId, DEFAULT_PAIRS_LOOKBACK } from "../strategy/pairs.js";
 // Side effect: register all built-in strategies
 import "../strategies/index.js";
 import { getStrategy } from "../strategies/registry.js";
+import { createMemoryStateStore, type StateStore } from "../strategies/state-store.js";
 
 // ─────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────
 
-/** Trade execution function only needs fee rate + slippage + spread parameters */
-interface ExecOpts { feeRate: number; slippagePercent: number; spreadBps: number; }
+/** Trade execution function only needs fee rate + slippage + spread parameters (+ optional fill model) */
+interface ExecOpts {
+  feeRate: number;
+  slippagePercent: number;
+  spreadBps: number;
+  fillModel?: FillModel;
+  /** Portfolio mode: owning sleeve, tagged on positions and trades */
+  sleeve?: string;
+}
 
 interface BacktestPosition {
   symbol: string;
@@ -56,6 +71,33 @@ interface BacktestPosition {
   totalFundingPaid?: number; // cumulative funding paid (positive=paid out, negative=received)
   // Signal conditions that triggered the entry
   signalConditions?: string[];
+  /** Portfolio mode: sleeve that opened (and manages) the position */
+  sleeve?: string;
+  /** Strategy adjustPosition adds so far (passed to the hook as dcaCount) */
+  adjustCount?: number;
+  /** Multi-leg group ID: legs are skipped by exit checks and closed together by the strategy */
+  pairId?: string;
+  /** Fill model only: entry fill progress + cumulative market impact cost (entry and exit) */
+  fillStats?: { requestedUsdt: number; filledUsdt: number; impactCost: number };
+  /** Fill model only: exit in progress, unfilled remainder carried to the next bar */
+  exitFill?: {
+    reason: BacktestTrade["exitReason"];
+    quantity: number; // exited so far
+    gross: number;    // gross USDT of exited part (long: sold, short: bought back)
+    proceeds: number; // USDT already credited back to the account
+    pnl: number;      // short only: realized PnL of exited part
+    margin: number;   // short only: margin released so far
+  };
+}
+
+/** Fill model only: entry remainder carried to following bars */
+interface CarryEntry {
+  side: "long" | "short";
+  requestedUsdt: number; // USDT allotted to the entry at signal time
+  remainingUsdt: number; // not yet filled
+  cfg: StrategyConfig;
+  signalConditions: string[];
+  sleeve?: string | undefined;
 }
 
 interface BacktestAccount {
@@ -67,6 +109,9 @@ interface BacktestAccount {
   dailyLoss: { date: string; loss: number };
   // Cumulative funding rate net expenditure per symbol (positive=cost, negative=income)
   fundingPaidBySymbol: Record<string, number>;
+  // Fill model: carried entry remainders + BASE volume consumed per symbol on the current bar
+  carryEntries: Record<string, CarryEntry>;
+  volumeUsed: Record<string, number>;
 }
 
 export interface BacktestOptions {
@@ -109,12 +154,34 @@ export interface BacktestOptions {
    *                     Note: signals on the last candle are discarded (no next candle to fill).
    */
   signalToNextOpen?: boolean;
+  /**
+   * Size-aware fill model (see fill-model.ts, e.g. createVolumeFillModel()).
+   * Not set (default): every order fills completely at price ± slippage ± spread.
+   * Set: fills are capped per bar, remainders carry to the next bar's open, market impact is
+   * added to the execution price; trades report fillRatio / impactCost. The forced close at
+   * end of data always fills completely.
+   */
+  fillModel?: FillModel;
+  /** Main loop progress (candle steps done, total), reported about every 1% */
+  onProgress?: (done: number, total: number) => void;
 }
 
 export interface BacktestResult {
   metrics: BacktestMetrics;
   trades: BacktestTrade[];
   totalFundingPaid: number;  // positive = net outflow (unfavorable), negative = net income
+  /** Fill model summary (only when opts.fillModel is set) */
+  fills?: {
+    model: string;
+    /** Average entry fill ratio of closed trades (filled USDT / requested USDT) */
+    avgFillRatio: number;
+    /** Closed trades whose entry never filled completely */
+    partialFillTrades: number;
+    /** Total market impact cost (USDT, entries + exits) */
+    totalImpactCost: number;
+    /** Average market impact cost per closed trade (USDT) */
+    avgImpactCost: number;
+  };
   perSymbol: Record<
     string,
     {
@@ -139,6 +206,10 @@ export interface BacktestResult {
     spreadBps?: number;
     /** Delay signal execution by one candle (eliminates look-ahead bias), default false */
     signalToNextOpen: boolean;
+    /** Fill model name (absent = full fills) */
+    fillModel?: string;
+    /** Event-driven replay through the paper engine (replay.ts runReplay) */
+    replay?: boolean;
   };
 }
 
@@ -150,60 +221,119 @@ function todayStr(): string {
   return new Date().toISOString().slice(0, 10);
 }
 
+/** Mark-to-market value of a position (short: margin +/- unrealized PnL) */
+function positionValue(pos: BacktestPosition, price: number): number {
+  if (pos.side === "short") {
+    const margin = pos.marginUsdt ?? pos.quantity * pos.entryPrice;
+    return margin + (pos.entryPrice - price) * pos.quantity;
+  }
+  return pos.quantity * price;
+}
+
+/**
+ * currentPosSide for processSignal. Long positions leave side unset: strategy plugins get "long"
+ * (as live-monitor passes `side ?? "long"`) so populateSignal knows it is holding, while the
+ * default detectSignal path keeps its original behaviour.
+ */
+function signalPosSide(cfg: StrategyConfig, pos: BacktestPosition | undefined): "long" | "short" | undefined {
+  if (!pos) return undefined;
+  const usesPlugin = (cfg.strategy_id ?? "default") !== "default";
+  return pos.side ?? (usesPlugin ? "long" : undefined);
+}
+
 function calcEquity(account: BacktestAccount, prices: Record<string, number>): number {
   let equity = account.usdt;
   for (const [sym, pos] of Object.entries(account.positions)) {
-    const price = prices[sym] ?? pos.entryPrice;
-    if (pos.side === "short") {
-      const margin = pos.marginUsdt ?? pos.quantity * pos.entryPrice;
-      equity += margin + (pos.entryPrice - price) * pos.quantity;
-    } else {
-      equity += pos.quantity * price;
-    }
+    equity += positionValue(pos, prices[sym] ?? pos.entryPrice);
   }
   return equity;
 }
 
-function doBuy(
+/**
+ * Execution price and filled share of an order
+ *
+ * No fill model (or no bar, e.g. the forced close at end of data): full fill at price ± slippage ± spread.
+ * With a fill model: the model caps the filled quantity against the bar's remaining volume and
+ * adds market impact on top of slippage + spread.
+ */
+function fillOrder(
   account: BacktestAccount,
   symbol: string,
+  side: "buy" | "sell",
   price: number,
-  time: number,
-  cfg: StrategyConfig,
+  quantity: number,
   opts: ExecOpts,
-  signalConditions: string[] = []
-): void {
-  // Skip if already holding position
-  if (account.positions[symbol]) return;
-
-  // Max positions check
-  if (Object.keys(account.positions).length >= cfg.risk.max_positions) return;
-
-  // Daily loss limit
-  const today = new Date(time).toISOString().slice(0, 10);
-  if (account.dailyLoss.date !== today) {
-    account.dailyLoss = { date: today, loss: 0 };
+  kline?: Kline
+): { ratio: number; price: number; impactCost: number } {
+  // Buy at ask (slightly above quote), sell at bid (slightly below quote): slippage + spread stacked
+  const spreadAdj = opts.spreadBps / 20000; // spreadBps/10000/2 -> half spread
+  if (!opts.fillModel || !kline) {
+    const execPrice = side === "buy"
+      ? price * (1 + opts.slippagePercent / 100 + spreadAdj)
+      : price * (1 - opts.slippagePercent / 100 - spreadAdj);
+    return { ratio: 1, price: execPrice, impactCost: 0 };
   }
 
-  const equity = calcEquity(account, { [symbol]: price });
-  const symbolValue = 0; // no position
-  if (symbolValue / equity >= cfg.risk.max_position_per_symbol) return;
-  if ((account.dailyLoss.loss / equity) * 100 >= cfg.risk.daily_loss_limit_percent) return;
+  const used = account.volumeUsed[symbol] ?? 0;
+  const fill = opts.fillModel.fill({ side, price, quantity, kline, volumeUsed: used });
+  const filled = Math.min(Math.max(fill.quantity, 0), quantity);
+  account.volumeUsed[symbol] = used + filled;
+  const impact = fill.impactPercent / 100;
+  const execPrice = side === "buy"
+    ? price * (1 + opts.slippagePercent / 100 + spreadAdj + impact)
+    : price * (1 - opts.slippagePercent / 100 - spreadAdj - impact);
+  return {
+    ratio: quantity > 0 ? filled / quantity : 0,
+    price: execPrice,
+    impactCost: filled * price * impact,
+  };
+}
 
-  const usdtToSpend = equity * cfg.risk.position_ratio;
-  if (usdtToSpend < cfg.execution.min_order_usdt) return;
-  if (usdtToSpend > account.usdt) return;
+/** Per-trade fill fields for closed trades (fill model only) */
+function tradeFillFields(pos: BacktestPosition): Pick<BacktestTrade, "fillRatio" | "impactCost"> {
+  if (!pos.fillStats) return {};
+  return {
+    fillRatio: pos.fillStats.filledUsdt / pos.fillStats.requestedUsdt,
+    impactCost: pos.fillStats.impactCost,
+  };
+}
 
-  // Buy price slips up (slightly above quote): slippage + spread (buy at ask)
+/**
+ * Book a (partial) long entry fill: open the position, or top up one whose entry is still filling.
+ * Stop loss / take profit stay anchored to the first fill price.
+ */
+function fillLongEntry(
+  account: BacktestAccount,
+  symbol: string,
+  execPrice: number,
+  usdtToSpend: number,
+  time: number,
+  cfg: StrategyConfig,
+  opts: ExecOpts,
+  signalConditions: string[],
+  impactCost: number,
+  requestedUsdt: number
+): void {
   // Don't additionally deduct slippageUsdt to avoid double counting with execPrice
-  const spreadAdj = opts.spreadBps / 20000; // spreadBps/10000/2 -> half spread
-  const execPrice = price * (1 + opts.slippagePercent / 100 + spreadAdj);
   const fee = usdtToSpend * opts.feeRate;
   const netUsdt = usdtToSpend - fee; // execPrice already includes slippage cost
   const quantity = netUsdt / execPrice;
 
   account.usdt -= usdtToSpend;
 
+  const existing = account.positions[symbol];
+  if (existing) {
+    existing.entryPrice =
+      (existing.entryPrice * existing.quantity + execPrice * quantity) / (existing.quantity + quantity);
+    existing.quantity += quantity;
+    existing.cost += usdtToSpend;
+    if (existing.fillStats) {
+      existing.fillStats.filledUsdt += usdtToSpend;
+      existing.fillStats.impactCost += impactCost;
+    }
+    return;
+  }
+
   const pos: BacktestPosition = {
     symbol,
     entryTime: time,
@@ -213,6 +343,8 @@ function doBuy(
     stopLoss: execPrice * (1 - cfg.risk.stop_loss_percent / 100),
     takeProfit: execPrice * (1 + cfg.risk.take_profit_percent / 100),
     ...(signalConditions.length > 0 && { signalConditions }),
+    ...(opts.sleeve !== undefined && { sleeve: opts.sleeve }),
+    ...(opts.fillModel && { fillStats: { requestedUsdt, filledUsdt: usdtToSpend, impactCost } }),
   };
 
   if (cfg.risk.trailing_stop.enabled) {
@@ -240,39 +372,43 @@ function doBuy(
     pnlPercent: 0,
     exitReason: "signal",
     ...(signalConditions.length > 0 && { signalConditions }),
+    ...(opts.sleeve !== undefined && { sleeve: opts.sleeve }),
   });
 }
 
-function doOpenShort(
+/** Book a (partial) short entry fill: open the position, or top up one whose entry is still filling */
+function fillShortEntry(
   account: BacktestAccount,
   symbol: string,
-  price: number,
+  execPrice: number,
+  marginToLock: number,
   time: number,
   cfg: StrategyConfig,
   opts: ExecOpts,
-  signalConditions: string[] = []
+  signalConditions: string[],
+  impactCost: number,
+  requestedUsdt: number
 ): void {
-  if (account.positions[symbol]) return;
-  if (Object.keys(account.positions).length >= cfg.risk.max_positions) return;
-
-  const today = new Date(time).toISOString().slice(0, 10);
-  if (account.dailyLoss.date !== today) account.dailyLoss = { date: today, loss: 0 };
-
-  const equity = calcEquity(account, { [symbol]: price });
-  if ((account.dailyLoss.loss / equity) * 100 >= cfg.risk.daily_loss_limit_percent) return;
-
-  const marginToLock = equity * cfg.risk.position_ratio;
-  if (marginToLock < cfg.execution.min_order_usdt || marginToLock > account.usdt) return;
-
-  // Open short: sell at bid (slightly below quote), slippage + spread stacked
-  const spreadAdjShortOpen = opts.spreadBps / 20000;
-  const execPrice = price * (1 - opts.slippagePercent / 100 - spreadAdjShortOpen);
   const fee = marginToLock * opts.feeRate;
   const actualMargin = marginToLock - fee;
   const quantity = actualMargin / execPrice;
 
   account.usdt -= marginToLock;
 
+  const existing = account.positions[symbol];
+  if (existing) {
+    existing.entryPrice =
+      (existing.entryPrice * existing.quantity + execPrice * quantity) / (existing.quantity + quantity);
+    existing.quantity += quantity;
+    existing.cost += marginToLock;
+    existing.marginUsdt = (existing.marginUsdt ?? 0) + actualMargin;
+    if (existing.fillStats) {
+      existing.fillStats.filledUsdt += marginToLock;
+      existing.fillStats.impactCost += impactCost;
+    }
+    return;
+  }
+
   const pos: BacktestPosition = {
     symbol,
     side: "short",
@@ -284,6 +420,8 @@ function doOpenShort(
     stopLoss: execPrice * (1 + cfg.risk.stop_loss_percent / 100),   // price rises above = loss
     takeProfit: execPrice * (1 - cfg.risk.take_profit_percent / 100), // price drops below = profit
     ...(signalConditions.length > 0 && { signalConditions }),
+    ...(opts.sleeve !== undefined && { sleeve: opts.sleeve }),
+    ...(opts.fillModel && { fillStats: { requestedUsdt, filledUsdt: marginToLock, impactCost } }),
   };
 
   if (cfg.risk.trailing_stop.enabled) {
@@ -293,30 +431,186 @@ function doOpenShort(
   account.positions[symbol] = pos;
 }
 
+function doBuy(
+  account: BacktestAccount,
+  symbol: string,
+  price: number,
+  time: number,
+  cfg: StrategyConfig,
+  opts: ExecOpts,
+  signalConditions: string[] = [],
+  kline?: Kline
+): void {
+  // Skip if already holding position
+  if (account.positions[symbol]) return;
+
+  // Max positions check
+  if (Object.keys(account.positions).length >= cfg.risk.max_positions) return;
+
+  // Daily loss limit
+  const today = new Date(time).toISOString().slice(0, 10);
+  if (account.dailyLoss.date !== today) {
+    account.dailyLoss = { date: today, loss: 0 };
+  }
+
+  const equity = calcEquity(account, { [symbol]: price });
+  const symbolValue = 0; // no position
+  if (symbolValue / equity >= cfg.risk.max_position_per_symbol) return;
+  if ((account.dailyLoss.loss / equity) * 100 >= cfg.risk.daily_loss_limit_percent) return;
+
+  const usdtToSpend = equity * cfg.risk.position_ratio;
+  if (usdtToSpend < cfg.execution.min_order_usdt) return;
+  if (usdtToSpend > account.usdt) return;
+
+  const fill = fillOrder(account, symbol, "buy", price, usdtToSpend / price, opts, kline);
+  if (fill.ratio < 1) {
+    account.carryEntries[symbol] = {
+      side: "long",
+      requestedUsdt: usdtToSpend,
+      remainingUsdt: usdtToSpend * (1 - fill.ratio),
+      cfg,
+      signalConditions,
+      sleeve: opts.sleeve,
+    };
+  }
+  if (fill.ratio <= 0) return;
+  fillLongEntry(
+    account, symbol, fill.price, usdtToSpend * fill.ratio, time, cfg, opts,
+    signalConditions, fill.impactCost, usdtToSpend
+  );
+}
+
+function doOpenShort(
+  account: BacktestAccount,
+  symbol: string,
+  price: number,
+  time: number,
+  cfg: StrategyConfig,
+  opts: ExecOpts,
+  signalConditions: string[] = [],
+  kline?: Kline
+): void {
+  if (account.positions[symbol]) return;
+  if (Object.keys(account.positions).length >= cfg.risk.max_positions) return;
+
+  const today = new Date(time).toISOString().slice(0, 10);
+  if (account.dailyLoss.date !== today) account.dailyLoss = { date: today, loss: 0 };
+
+  const equity = calcEquity(account, { [symbol]: price });
+  if ((account.dailyLoss.loss / equity) * 100 >= cfg.risk.daily_loss_limit_percent) return;
+
+  const marginToLock = equity * cfg.risk.position_ratio;
+  if (marginToLock < cfg.execution.min_order_usdt || marginToLock > account.usdt) return;
+
+  // Open short: sell at bid (slightly below quote)
+  const fill = fillOrder(account, symbol, "sell", price, marginToLock / price, opts, kline);
+  if (fill.ratio < 1) {
+    account.carryEntries[symbol] = {
+      side: "short",
+      requestedUsdt: marginToLock,
+      remainingUsdt: marginToLock * (1 - fill.ratio),
+      cfg,
+      signalConditions,
+      sleeve: opts.sleeve,
+    };
+  }
+  if (fill.ratio <= 0) return;
+  fillShortEntry(
+    account, symbol, fill.price, marginToLock * fill.ratio, time, cfg, opts,
+    signalConditions, fill.impactCost, marginToLock
+  );
+}
+
+/**
+ * Fill model: continue carried entry remainders at this bar's open (once per bar, before exit checks).
+ * A carry is dropped when its slot was taken by other symbols (max_positions) or cash runs out.
+ */
+function continueCarriedEntries(
+  account: BacktestAccount,
+  time: number,
+  opts: ExecOpts,
+  klineAt: (symbol: string) => Kline | undefined
+): void {
+  for (const [symbol, carry] of Object.entries(account.carryEntries)) {
+    if (carry.sleeve !== opts.sleeve) continue; // portfolio: each sleeve continues its own carries
+    const kline = klineAt(symbol);
+    if (!kline) continue;
+    const held = account.positions[symbol];
+    const slotTaken = held
+      ? held.sleeve !== carry.sleeve
+      : Object.keys(account.positions).length >= carry.cfg.risk.max_positions;
+    const usdt = Math.min(carry.remainingUsdt, account.usdt);
+    if (slotTaken || usdt <= 0) {
+      Reflect.deleteProperty(account.carryEntries, symbol);
+      continue;
+    }
+
+    const side = carry.side === "long" ? "buy" : "sell";
+    const fill = fillOrder(account, symbol, side, kline.open, usdt / kline.open, opts, kline);
+    if (fill.ratio > 0) {
+      const book = carry.side === "long" ? fillLongEntry : fillShortEntry;
+      book(
+        account, symbol, fill.price, usdt * fill.ratio, time, carry.cfg, opts,
+        carry.signalConditions, fill.impactCost, carry.requestedUsdt
+      );
+    }
+    carry.remainingUsdt -= usdt * fill.ratio;
+    // Fully filled, or cash-capped (what's left can never be paid for)
+    if (fill.ratio >= 1 || carry.remainingUsdt <= carry.requestedUsdt * 1e-9) {
+      Reflect.deleteProperty(account.carryEntries, symbol);
+    }
+  }
+}
+
 function doCoverShort(
   account: BacktestAccount,
   symbol: string,
   exitPrice: number,
   exitTime: number,
   exitReason: BacktestTrade["exitReason"],
-  opts: ExecOpts
+  opts: ExecOpts,
+  kline?: Kline
 ): void {
   const pos = account.positions[symbol];
   if (pos?.side !== "short") return;
-
-  // Cover short by buying: buy at ask (fill price slightly higher), slippage + spread stacked
-  const spreadAdjCover = opts.spreadBps / 20000;
-  const execPrice = exitPrice * (1 + opts.slippagePercent / 100 + spreadAdjCover);
-  const grossUsdt = pos.quantity * execPrice; // cost to buy back
+  // Exit started: stop topping up a partially filled entry
+  Reflect.deleteProperty(account.carryEntries, symbol);
+
+  // Cover short by buying: buy at ask (fill price slightly higher)
+  const fill = fillOrder(account, symbol, "buy", exitPrice, pos.quantity, opts, kline);
+  const execPrice = fill.price;
+  const quantity = pos.quantity * fill.ratio;
+  const grossUsdt = quantity * execPrice; // cost to buy back
   const fee = grossUsdt * opts.feeRate;
-  const margin = pos.marginUsdt ?? pos.quantity * pos.entryPrice;
-  const pnl = (pos.entryPrice - execPrice) * pos.quantity - fee;
-  const pnlPercent = pnl / margin;
+  const fullMargin = pos.marginUsdt ?? pos.quantity * pos.entryPrice;
+  const margin = fullMargin * fill.ratio;
+  const pnl = (pos.entryPrice - execPrice) * quantity - fee;
   const proceeds = Math.max(0, margin + pnl); // return: margin +/- PnL (minimum zero)
+  if (pos.fillStats) pos.fillStats.impactCost += fill.impactCost;
+
+  if (fill.ratio < 1) {
+    // Partial cover: release the filled part, carry the remainder to the next bar
+    const ex = pos.exitFill ??= { reason: exitReason, quantity: 0, gross: 0, proceeds: 0, pnl: 0, margin: 0 };
+    ex.quantity += quantity;
+    ex.gross += grossUsdt;
+    ex.proceeds += proceeds;
+    ex.pnl += pnl;
+    ex.margin += margin;
+    account.usdt += proceeds;
+    pos.quantity -= quantity;
+    pos.marginUsdt = fullMargin - margin;
+    return;
+  }
+
+  const ex = pos.exitFill;
+  const totalPnl = ex ? ex.pnl + pnl : pnl;
+  const totalMargin = ex ? ex.margin + margin : margin;
+  const totalQty = ex ? ex.quantity + quantity : quantity;
+  const pnlPercent = totalPnl / totalMargin;
 
   const today = new Date(exitTime).toISOString().slice(0, 10);
   if (account.dailyLoss.date !== today) account.dailyLoss = { date: today, loss: 0 };
-  if (pnl < 0) account.dailyLoss.loss += Math.abs(pnl);
+  if (totalPnl < 0) account.dailyLoss.loss += Math.abs(totalPnl);
 
   account.usdt += proceeds;
   const { [symbol]: _coveredPos, ...remainingAfterCover } = account.positions;
@@ -328,14 +622,16 @@ function doCoverShort(
     entryTime: pos.entryTime,
     exitTime,
     entryPrice: pos.entryPrice,
-    exitPrice: execPrice,
-    quantity: pos.quantity,
+    exitPrice: ex ? (ex.gross + grossUsdt) / totalQty : execPrice,
+    quantity: totalQty,
     cost: pos.cost,
-    proceeds,
-    pnl,
+    proceeds: ex ? ex.proceeds + proceeds : proceeds,
+    pnl: totalPnl,
     pnlPercent,
-    exitReason,
+    exitReason: ex?.reason ?? exitReason,
     ...(pos.signalConditions && pos.signalConditions.length > 0 && { signalConditions: pos.signalConditions }),
+    ...(pos.sleeve !== undefined && { sleeve: pos.sleeve }),
+    ...tradeFillFields(pos),
   });
 }
 
@@ -345,18 +641,38 @@ function doSell(
   exitPrice: number,
   exitTime: number,
   exitReason: BacktestTrade["exitReason"],
-  opts: ExecOpts
+  opts: ExecOpts,
+  kline?: Kline
 ): void {
   const pos = account.positions[symbol];
   if (!pos) return;
-
-  // Sell: sell at bid (slightly below quote), slippage + spread stacked
-  const spreadAdjSell = opts.spreadBps / 20000;
-  const execPrice = exitPrice * (1 - opts.slippagePercent / 100 - spreadAdjSell);
-  const grossUsdt = pos.quantity * execPrice;
+  // Exit started: stop topping up a partially filled entry
+  Reflect.deleteProperty(account.carryEntries, symbol);
+
+  // Sell: sell at bid (slightly below quote)
+  const fill = fillOrder(account, symbol, "sell", exitPrice, pos.quantity, opts, kline);
+  const execPrice = fill.price;
+  const quantity = pos.quantity * fill.ratio;
+  const grossUsdt = quantity * execPrice;
   const fee = grossUsdt * opts.feeRate;
   const proceeds = grossUsdt - fee;
-  const pnl = proceeds - pos.cost;
+  if (pos.fillStats) pos.fillStats.impactCost += fill.impactCost;
+
+  if (fill.ratio < 1) {
+    // Partial sell: credit the filled part, carry the remainder to the next bar
+    const ex = pos.exitFill ??= { reason: exitReason, quantity: 0, gross: 0, proceeds: 0, pnl: 0, margin: 0 };
+    ex.quantity += quantity;
+    ex.gross += grossUsdt;
+    ex.proceeds += proceeds;
+    account.usdt += proceeds;
+    pos.quantity -= quantity;
+    return;
+  }
+
+  const ex = pos.exitFill;
+  const totalProceeds = ex ? ex.proceeds + proceeds : proceeds;
+  const totalQty = ex ? ex.quantity + quantity : quantity;
+  const pnl = totalProceeds - pos.cost;
   const pnlPercent = pnl / pos.cost;
 
   // Update daily loss
@@ -376,14 +692,82 @@ function doSell(
     entryTime: pos.entryTime,
     exitTime,
     entryPrice: pos.entryPrice,
-    exitPrice: execPrice,
-    quantity: pos.quantity,
+    exitPrice: ex ? (ex.gross + grossUsdt) / totalQty : execPrice,
+    quantity: totalQty,
     cost: pos.cost,
-    proceeds,
+    proceeds: totalProceeds,
     pnl,
     pnlPercent,
-    exitReason,
+    exitReason: ex?.reason ?? exitReason,
     ...(pos.signalConditions && pos.signalConditions.length > 0 && { signalConditions: pos.signalConditions }),
+    ...(pos.sleeve !== undefined && { sleeve: pos.sleeve }),
+    ...tradeFillFields(pos),
+  });
+}
+
+/**
+ * Strategy adjustPosition on a long position (partial amounts; a full reduce goes through doSell)
+ *
+ * amount > 0: buy that much USDT into the position (weighted entry price, no separate trade record)
+ * amount < 0: sell |amount| worth; the sold share is booked as a "signal" exit at average cost.
+ * With a fill model, the unfilled part of an adjustment is dropped rather than carried.
+ */
+function doAdjustLong(
+  account: BacktestAccount,
+  symbol: string,
+  amount: number,
+  price: number,
+  time: number,
+  cfg: StrategyConfig,
+  opts: ExecOpts,
+  kline?: Kline
+): void {
+  const pos = account.positions[symbol];
+  if (!pos || pos.side === "short") return;
+
+  if (amount > 0) {
+    if (amount < cfg.execution.min_order_usdt || amount > account.usdt) return;
+    const fill = fillOrder(account, symbol, "buy", price, amount / price, opts, kline);
+    if (fill.ratio <= 0) return;
+    if (pos.fillStats) pos.fillStats.requestedUsdt += amount;
+    fillLongEntry(account, symbol, fill.price, amount * fill.ratio, time, cfg, opts, [], fill.impactCost, amount);
+    pos.adjustCount = (pos.adjustCount ?? 0) + 1;
+    return;
+  }
+
+  const quantity = Math.min(-amount / price, pos.quantity);
+  const fill = fillOrder(account, symbol, "sell", price, quantity, opts, kline);
+  const sold = quantity * fill.ratio;
+  if (sold <= 0) return;
+  const grossUsdt = sold * fill.price;
+  const proceeds = grossUsdt - grossUsdt * opts.feeRate;
+  const cost = pos.cost * (sold / pos.quantity);
+  const pnl = proceeds - cost;
+  if (pos.fillStats) pos.fillStats.impactCost += fill.impactCost;
+
+  const today = new Date(time).toISOString().slice(0, 10);
+  if (account.dailyLoss.date !== today) account.dailyLoss = { date: today, loss: 0 };
+  if (pnl < 0) account.dailyLoss.loss += Math.abs(pnl);
+
+  account.usdt += proceeds;
+  pos.quantity -= sold;
+  pos.cost -= cost;
+
+  account.trades.push({
+    symbol,
+    side: "sell",
+    entryTime: pos.entryTime,
+    exitTime: time,
+    entryPrice: pos.entryPrice,
+    exitPrice: fill.price,
+    quantity: sold,
+    cost,
+    proceeds,
+    pnl,
+    pnlPercent: pnl / cost,
+    exitReason: "signal",
+    ...(pos.signalConditions && pos.signalConditions.length > 0 && { signalConditions: pos.signalConditions }),
+    ...(pos.sleeve !== undefined && { sleeve: pos.sleeve }),
   });
 }
 
@@ -636,23 +1020,61 @@ function findFundingRate(
   return best?.rate ?? 0;
 }
 
-export function runBacktest(
-  klinesBySymbol: Record<string, Kline[]>,
-  cfg: StrategyConfig,
-  opts: BacktestOptions = {},
-  trendKlinesBySymbol?: Record<string, Kline[]>
-): BacktestResult {
-  const { initialUsdt = 1000, feeRate = 0.001, slippagePercent = 0.05,
-          avgFundingRatePer8h, fundingHistory, intracandle = true,
-          signalToNextOpen = false } = opts;
-  // spread_bps: opts takes priority, then cfg.risk.spread_bps, default 0
-  const spreadBps = opts.spreadBps ?? cfg.risk.spread_bps ?? 0;
-  const fundingEnabled = avgFundingRatePer8h !== undefined || fundingHistory !== undefined;
-  // ExecOpts: only used by trade functions (fee + slippage + spread)
-  const legacyOpts: ExecOpts = { feeRate, slippagePercent, spreadBps };
+// ─────────────────────────────────────────────────────
+// Sleeve Engine
+// ─────────────────────────────────────────────────────
+
+/**
+ * One strategy driven by the main loop. runBacktest() runs a single sleeve owning every symbol;
+ * runPortfolioBacktest() runs several sleeves against one shared account.
+ */
+interface SleeveSpec {
+  id: string;
+  cfg: StrategyConfig;
+  klinesBySymbol: Record<string, Kline[]>;
+  trendKlinesBySymbol?: Record<string, Kline[]> | undefined;
+  /** Injected strategy instance (otherwise looked up from cfg.strategy_id) */
+  strategy?: Strategy | undefined;
+  /** Portfolio only: share of portfolio equity the sleeve sizes against and may deploy (0~1] */
+  allocation?: number;
+}
+
+/** signalToNextOpen: pending signal (produced by previous candle, executed at next candle open) */
+interface PendingSignal {
+  type: "buy" | "sell" | "short" | "cover";
+  reason: string[];
+  regimeCfg: StrategyConfig;
+}
+
+interface Sleeve {
+  id: string;
+  cfg: StrategyConfig;
+  strategy: Strategy | undefined;
+  allocation: number | undefined;
+  symbols: string[];
+  /** Candle openTimes where every sleeve symbol has data */
+  times: number[];
+  klineIndex: Record<string, Record<number, Kline>>;
+  /** Sliding window (independent per symbol) */
+  windows: Record<string, Kline[]>;
+  warmupBars: number;
+  pendingSignals: Record<string, PendingSignal>;
+  /** signalToNextOpen: multi-leg signal waiting for the next candle open */
+  pendingMulti: MultiLegSignal | undefined;
+  /** Trend MA status for sym at time (bullish=true, bearish=false, no data=null) */
+  getTrendBull: (sym: string, time: number) => boolean | null;
+  opts: ExecOpts;
+  /** Plugin state per symbol (in memory: every run starts from empty state) */
+  stateStores: Record<string, StateStore>;
+  /** Portfolio only: entry signals not taken (slots / allocation full, symbol held by another sleeve) */
+  blockedEntries: number;
+}
+
+function createSleeve(spec: SleeveSpec, opts: ExecOpts): Sleeve {
+  const { cfg, klinesBySymbol, trendKlinesBySymbol } = spec;
 
   // ── Strategy plugin lookup (for backtest hooks: shouldExit / customStoploss / confirmExit / onTradeClosed) ──
-  let strategy: Strategy | undefined = opts.strategyOverride;
+  let strategy: Strategy | undefined = spec.strategy;
   if (strategy === undefined) {
     const strategyId = cfg.strategy_id;
     if (strategyId !== undefined && strategyId !== "") {
@@ -673,7 +1095,7 @@ export function runBacktest(
   const timeSets = symbols.map(
     (s) => new Set((klinesBySymbol[s] ?? []).map((k) => k.openTime))
   );
-  const allTimes = Array.from(timeSets[0] ?? new Set<number>())
+  const times = Array.from(timeSets[0] ?? new Set<number>())
     .filter((t) => timeSets.every((set) => set.has(t)))
     .sort((a, b) => a - b);
 
@@ -689,21 +1111,15 @@ export function runBacktest(
   // ── Calculate warmup period length ──
   const macdCfg = cfg.strategy.macd;
   const macdMinBars = macdCfg.enabled ? macdCfg.slow + macdCfg.signal + 1 : 0;
-  const warmupBars = Math.max(cfg.strategy.ma.long, cfg.strategy.rsi.period, macdMinBars) + 10;
+  const pairsBars = cfg.pairs ? (cfg.pairs.lookback ?? DEFAULT_PAIRS_LOOKBACK) + 1 : 0;
+  const warmupBars = Math.max(cfg.strategy.ma.long, cfg.strategy.rsi.period, macdMinBars, pairsBars, signalWarmupBars(cfg)) + 10;
 
-  // ── Initialize account ──
-  const account: BacktestAccount = {
-    usdt: initialUsdt,
-    positions: {},
-    trades: [],
-    equityCurve: [],
-    dailyLoss: { date: todayStr(), loss: 0 },
-    fundingPaidBySymbol: {},
-  };
-
-  // Sliding window (independent per symbol)
   const windows: Record<string, Kline[]> = {};
-  for (const sym of symbols) windows[sym] = [];
+  const stateStores: Record<string, StateStore> = {};
+  for (const sym of symbols) {
+    windows[sym] = [];
+    stateStores[sym] = createMemoryStateStore();
+  }
 
   // ── MTF trend filter setup ──────────────────────────────
   const useMtf = trendKlinesBySymbol !== undefined;
@@ -721,7 +1137,6 @@ export function runBacktest(
       trendWindows[sym] = [];
     }
   }
-  /** Get trend MA status for sym at time (bullish=true, bearish=false, no data=null) */
   function getTrendBull(sym: string, time: number): boolean | null {
     if (!useMtf) return null;
     const sorted = trendSorted[sym] ?? [];
@@ -747,17 +1162,206 @@ export function runBacktest(
     return ind.maShort > ind.maLong;
   }
 
-  // ── signalToNextOpen: pending signal queue (produced by previous candle, executed at next candle open) ──
-  type PendingSignal = {
-    type: "buy" | "sell" | "short" | "cover";
-    reason: string[];
-    regimeCfg: StrategyConfig;
+  return {
+    id: spec.id,
+    cfg,
+    strategy,
+    allocation: spec.allocation,
+    symbols,
+    times,
+    klineIndex,
+    windows,
+    warmupBars,
+    pendingSignals: {},
+    pendingMulti: undefined,
+    getTrendBull,
+    opts,
+    stateStores,
+    blockedEntries: 0,
   };
-  const pendingSignals: Record<string, PendingSignal> = {};
+}
 
-  // ── Main loop: advance candle by candle ──
-  for (const time of allTimes) {
-    const currentPrices: Record<string, number> = {};
+interface EngineRun {
+  account: BacktestAccount;
+  sleeves: Sleeve[];
+  /** Portfolio only: per-sleeve equity curves, aligned with account.equityCurve */
+  sleeveEquity: Record<string, EquityPoint[]>;
+  /** Portfolio only: net funding paid per sleeve */
+  sleeveFunding: Record<string, number>;
+}
+
+/**
+ * Main loop over one or more sleeves sharing an account
+ *
+ * Candles are processed in close-time order, so sleeves on different timeframes interleave
+ * without look-ahead; each sleeve manages only the positions it opened, on its own candles.
+ * One position per symbol (same as paper/live accounts): a symbol held by one sleeve is
+ * unavailable to the others.
+ */
+function runEngine(specs: SleeveSpec[], opts: BacktestOptions, maxPositions?: number): EngineRun {
+  const { initialUsdt = 1000, feeRate = 0.001, slippagePercent = 0.05,
+          avgFundingRatePer8h, fundingHistory, intracandle = true,
+          signalToNextOpen = false, fillModel } = opts;
+  const fundingEnabled = avgFundingRatePer8h !== undefined || fundingHistory !== undefined;
+  const portfolio = specs.some((s) => s.allocation !== undefined);
+
+  const sleeves = specs.map((spec) => {
+    // spread_bps: opts takes priority, then cfg.risk.spread_bps, default 0
+    const spreadBps = opts.spreadBps ?? spec.cfg.risk.spread_bps ?? 0;
+    // ExecOpts: only used by trade functions (fee + slippage + spread + optional fill model)
+    const execOpts: ExecOpts = {
+      feeRate, slippagePercent, spreadBps,
+      ...(fillModel && { fillModel }),
+      ...(portfolio && { sleeve: spec.id }),
+    };
+    return createSleeve(spec, execOpts);
+  });
+  const firstSleeve = sleeves[0];
+  if (!firstSleeve) throw new Error("at least one sleeve is required");
+
+  // ── Initialize account ──
+  const account: BacktestAccount = {
+    usdt: initialUsdt,
+    positions: {},
+    trades: [],
+    equityCurve: [],
+    dailyLoss: { date: todayStr(), loss: 0 },
+    fundingPaidBySymbol: {},
+    carryEntries: {},
+    volumeUsed: {},
+  };
+
+  const isOwn = (sleeve: Sleeve, pos: BacktestPosition): boolean => (pos.sleeve ?? firstSleeve.id) === sleeve.id;
+  const lastPrices: Record<string, number> = {};
+  const sleeveFunding: Record<string, number> = {};
+  const sleeveEquity: Record<string, EquityPoint[]> = {};
+  const sleeveRealized: Record<string, number> = {};
+  for (const s of sleeves) {
+    sleeveFunding[s.id] = 0;
+    sleeveEquity[s.id] = [];
+    sleeveRealized[s.id] = 0;
+  }
+
+  /**
+   * Open long/short for a sleeve. Portfolio sleeves size against allocation × equity and are
+   * refused (counted in blockedEntries) when the shared max_positions, their own max_positions
+   * or their allocation is used up, or the symbol is taken by another sleeve.
+   */
+  function openEntry(
+    sleeve: Sleeve,
+    type: "buy" | "short",
+    sym: string,
+    price: number,
+    time: number,
+    regimeCfg: StrategyConfig,
+    reason: string[],
+    kline: Kline
+  ): void {
+    const open = type === "buy" ? doBuy : doOpenShort;
+    const allocation = sleeve.allocation;
+    if (allocation === undefined) {
+      open(account, sym, price, time, regimeCfg, sleeve.opts, reason, kline);
+      return;
+    }
+    const held = account.positions[sym];
+    if (held && isOwn(sleeve, held)) return;
+    const carry = account.carryEntries[sym];
+    const own = Object.values(account.positions).filter((p) => isOwn(sleeve, p));
+    const equity = calcEquity(account, { [sym]: price });
+    const budget = equity * allocation;
+    const deployed = own.reduce((s, p) => s + p.cost, 0);
+    const size = budget * regimeCfg.risk.position_ratio;
+    if (
+      held !== undefined ||
+      (carry !== undefined && carry.sleeve !== sleeve.id) ||
+      Object.keys(account.positions).length >= (maxPositions ?? Infinity) ||
+      own.length >= regimeCfg.risk.max_positions ||
+      deployed + size > budget * (1 + 1e-9)
+    ) {
+      sleeve.blockedEntries++;
+      return;
+    }
+    const entryCfg: StrategyConfig = {
+      ...regimeCfg,
+      risk: {
+        ...regimeCfg.risk,
+        position_ratio: regimeCfg.risk.position_ratio * allocation,
+        max_positions: maxPositions ?? regimeCfg.risk.max_positions,
+      },
+    };
+    open(account, sym, price, time, entryCfg, sleeve.opts, reason, kline);
+  }
+
+  /**
+   * Execute a multi-leg signal at each leg's price (close, or next open with signalToNextOpen).
+   * Entries are all-or-nothing: cash, min order and slots are checked for every leg first, and legs
+   * always fill in full (the fill model is not applied, so no leg is left carrying a remainder).
+   */
+  function executeMultiLeg(sleeve: Sleeve, signal: MultiLegSignal, time: number, priceOf: (k: Kline) => number): void {
+    const { cfg, klineIndex } = sleeve;
+    if (signal.action === "close") {
+      for (const sym of signal.symbols) {
+        const pos = account.positions[sym];
+        const kline = klineIndex[sym]?.[time];
+        if (!pos || !kline || !isOwn(sleeve, pos)) continue;
+        if (pos.side === "short") {
+          doCoverShort(account, sym, priceOf(kline), time, "signal", sleeve.opts);
+        } else {
+          doSell(account, sym, priceOf(kline), time, "signal", sleeve.opts);
+        }
+      }
+      return;
+    }
+
+    const { legs } = signal;
+    const prices: Record<string, number> = {};
+    for (const leg of legs) {
+      const kline = klineIndex[leg.symbol]?.[time];
+      if (!kline) return;
+      prices[leg.symbol] = priceOf(kline);
+    }
+    const allocation = sleeve.allocation;
+    const own = Object.values(account.positions).filter((p) => isOwn(sleeve, p));
+    const taken = legs.some((l) => account.positions[l.symbol] ?? account.carryEntries[l.symbol]);
+    const slots = Object.keys(account.positions).length + legs.length;
+    const blocked =
+      taken ||
+      slots > (maxPositions ?? cfg.risk.max_positions) ||
+      (allocation !== undefined && own.length + legs.length > cfg.risk.max_positions);
+    if (blocked) {
+      if (allocation !== undefined) sleeve.blockedEntries++;
+      return;
+    }
+
+    const today = new Date(time).toISOString().slice(0, 10);
+    if (account.dailyLoss.date !== today) account.dailyLoss = { date: today, loss: 0 };
+    const equity = calcEquity(account, { ...lastPrices, ...prices });
+    if ((account.dailyLoss.loss / equity) * 100 >= cfg.risk.daily_loss_limit_percent) return;
+    const budget = equity * (allocation ?? 1);
+    const sizes = legs.map((l) => calcLegUsdt(l.weight, legs.length, budget, cfg.risk.position_ratio));
+    const total = sizes.reduce((s, v) => s + v, 0);
+    if (sizes.some((u) => u < cfg.execution.min_order_usdt) || total > account.usdt) return;
+    if (allocation !== undefined && own.reduce((s, p) => s + p.cost, 0) + total > budget * (1 + 1e-9)) {
+      sleeve.blockedEntries++;
+      return;
+    }
+
+    const pairId = makePairId(legs.map((l) => l.symbol), time);
+    for (const [i, leg] of legs.entries()) {
+      const price = prices[leg.symbol] ?? 0;
+      const usdt = sizes[i] ?? 0;
+      const fill = fillOrder(account, leg.symbol, leg.side === "long" ? "buy" : "sell", price, usdt / price, sleeve.opts);
+      const book = leg.side === "long" ? fillLongEntry : fillShortEntry;
+      book(account, leg.symbol, fill.price, usdt, time, cfg, sleeve.opts, [signal.reason], 0, usdt);
+      const pos = account.positions[leg.symbol];
+      if (pos) pos.pairId = pairId;
+    }
+  }
+
+  /** Process one candle of one sleeve; returns false while the sleeve is still warming up */
+  function runSleeveBar(sleeve: Sleeve, time: number): boolean {
+    const { cfg, strategy, klineIndex, windows, warmupBars, pendingSignals, getTrendBull, stateStores } = sleeve;
+    const legacyOpts = sleeve.opts;
 
     // Step 0 (signalToNextOpen): execute pending signals from previous candle, fill at this candle's open price
     if (signalToNextOpen) {
@@ -766,20 +1370,39 @@ export function runBacktest(
         if (!kline) { delete pendingSignals[sym]; continue; }
         const execPrice = kline.open;
         if (pending.type === "buy") {
-          doBuy(account, sym, execPrice, time, pending.regimeCfg, legacyOpts, pending.reason);
+          openEntry(sleeve, "buy", sym, execPrice, time, pending.regimeCfg, pending.reason, kline);
         } else if (pending.type === "sell") {
-          doSell(account, sym, execPrice, time, "signal", legacyOpts);
+          doSell(account, sym, execPrice, time, "signal", legacyOpts, kline);
         } else if (pending.type === "short") {
-          doOpenShort(account, sym, execPrice, time, pending.regimeCfg, legacyOpts, pending.reason);
+          openEntry(sleeve, "short", sym, execPrice, time, pending.regimeCfg, pending.reason, kline);
         } else if (pending.type === "cover") {
-          doCoverShort(account, sym, execPrice, time, "signal", legacyOpts);
+          doCoverShort(account, sym, execPrice, time, "signal", legacyOpts, kline);
         }
         delete pendingSignals[sym];
       }
+      if (sleeve.pendingMulti) {
+        executeMultiLeg(sleeve, sleeve.pendingMulti, time, (k) => k.open);
+        sleeve.pendingMulti = undefined;
+      }
+    }
+
+    // Step 0b (fill model): carried remainders execute at this candle's open — exits first, then entries
+    if (fillModel) {
+      for (const sym of sleeve.symbols) {
+        const pos = account.positions[sym];
+        const kline = klineIndex[sym]?.[time];
+        if (!pos?.exitFill || !kline || !isOwn(sleeve, pos)) continue;
+        if (pos.side === "short") {
+          doCoverShort(account, sym, kline.open, time, pos.exitFill.reason, legacyOpts, kline);
+        } else {
+          doSell(account, sym, kline.open, time, pos.exitFill.reason, legacyOpts, kline);
+        }
+      }
+      continueCarriedEntries(account, time, legacyOpts, (sym) => klineIndex[sym]?.[time]);
     }
 
     // Step 1: advance sliding window
-    for (const sym of symbols) {
+    for (const sym of sleeve.symbols) {
       const kline = klineIndex[sym]?.[time];
       if (!kline) continue;
       windows[sym]?.push(kline);
@@ -787,17 +1410,17 @@ export function runBacktest(
       if ((windows[sym]?.length ?? 0) > warmupBars * 2) {
         windows[sym]?.shift();
       }
-      currentPrices[sym] = kline.close;
+      lastPrices[sym] = kline.close;
     }
 
     // No operations during warmup period
-    if (Object.values(windows).every((w) => w.length < warmupBars)) continue;
+    if (Object.values(windows).every((w) => w.length < warmupBars)) return false;
 
     // Step 2a: funding rate settlement (Futures only, every 8h)
     if (fundingEnabled) {
-      for (const sym of symbols) {
+      for (const sym of sleeve.symbols) {
         const pos = account.positions[sym];
-        if (!pos) continue;
+        if (!pos || !isOwn(sleeve, pos)) continue;
 
         const lastTs = pos.lastFundingTs ?? pos.entryTime;
         const settlements = getFundingSettlements(lastTs, time);
@@ -827,6 +1450,7 @@ export function runBacktest(
           const paid = -cashFlow; // positive=paid out, negative=received
           pos.totalFundingPaid = (pos.totalFundingPaid ?? 0) + paid;
           account.fundingPaidBySymbol[sym] = (account.fundingPaidBySymbol[sym] ?? 0) + paid;
+          sleeveFunding[sleeve.id] = (sleeveFunding[sleeve.id] ?? 0) + paid;
           pos.lastFundingTs = settlementTs;
         }
       }
@@ -834,9 +1458,11 @@ export function runBacktest(
 
     // Step 2b: check existing positions for stop loss/take profit (priority over new signals)
     // P6.3: use checkIntracandleExit() for intra-candle simulation (uses high/low when intracandle=true)
-    for (const sym of symbols) {
+    for (const sym of sleeve.symbols) {
       const pos = account.positions[sym];
-      if (!pos) continue;
+      if (!pos || !isOwn(sleeve, pos)) continue;
+      if (pos.exitFill) continue; // exit already in progress (fill model carry)
+      if (pos.pairId !== undefined) continue; // multi-leg: closed together in step 3
       const kline = klineIndex[sym]?.[time];
       if (!kline) continue;
 
@@ -860,17 +1486,20 @@ export function runBacktest(
           cfg.strategy.macd
         );
         if (ind) {
-          stratCtx = { klines: win, cfg, indicators: ind, currentPosSide: posSide };
+          const stateStore = stateStores[sym];
+          stratCtx = { klines: win, cfg, indicators: ind, currentPosSide: posSide, ...(stateStore && { stateStore }) };
         }
       }
 
       // ── Helper: execute exit and call onTradeClosed ─────────────────
       const executeExit = (exitPrice: number, exitReason: BacktestTrade["exitReason"]): void => {
         if (posSide === "short") {
-          doCoverShort(account, sym, exitPrice, time, exitReason, legacyOpts);
+          doCoverShort(account, sym, exitPrice, time, exitReason, legacyOpts, kline);
         } else {
-          doSell(account, sym, exitPrice, time, exitReason, legacyOpts);
+          doSell(account, sym, exitPrice, time, exitReason, legacyOpts, kline);
         }
+        // A partially filled exit closes on a later bar; onTradeClosed fires only if closed now
+        if (account.positions[sym]) return;
         // Hook: onTradeClosed
         if (strategy?.onTradeClosed !== undefined && stratCtx !== undefined) {
           const lastTrade = account.trades[account.trades.length - 1];
@@ -957,15 +1586,60 @@ export function runBacktest(
           }
         }
         executeExit(exitResult.exitPrice, exitResult.reason);
+        continue;
+      }
+
+      // ── Hook Priority 4: adjustPosition (strategy-driven add / reduce, long only, adjustEveryCycle opt-in) ──
+      if (posSide === "long" && strategy?.adjustEveryCycle === true && strategy.adjustPosition !== undefined && stratCtx !== undefined) {
+        const amount = strategy.adjustPosition(
+          {
+            symbol: sym,
+            side: posSide,
+            entryPrice: pos.entryPrice,
+            currentPrice,
+            quantity: pos.quantity,
+            costBasis: pos.cost,
+            profitRatio,
+            holdMs,
+            dcaCount: pos.adjustCount ?? 0,
+          },
+          stratCtx
+        );
+        if (amount === null || amount === 0) continue;
+        if (amount < 0 && -amount >= pos.quantity * currentPrice * (1 - 1e-9)) {
+          executeExit(currentPrice, "signal");
+        } else {
+          doAdjustLong(account, sym, amount, currentPrice, time, cfg, legacyOpts, kline);
+        }
+      }
+    }
+
+    // Step 3 (multi-leg strategies): one signal over all of the sleeve's symbols
+    if (strategy?.populateMultiSignal !== undefined) {
+      const positions: Record<string, "long" | "short"> = {};
+      for (const sym of sleeve.symbols) {
+        const pos = account.positions[sym];
+        if (pos && isOwn(sleeve, pos)) positions[sym] = pos.side ?? "long";
+      }
+      const multi = strategy.populateMultiSignal({ klinesBySymbol: windows, cfg, positions });
+      if (multi && signalToNextOpen) {
+        sleeve.pendingMulti = multi;
+      } else if (multi) {
+        executeMultiLeg(sleeve, multi, time, (k) => k.close);
       }
+      return true;
     }
 
     // Step 3: calculate indicators & signals
-    for (const sym of symbols) {
+    for (const sym of sleeve.symbols) {
       const window = windows[sym] ?? [];
       if (window.length < warmupBars) continue;
       const kline = klineIndex[sym]?.[time];
       if (!kline) continue;
+      const heldPos = account.positions[sym];
+      if (heldPos?.exitFill) continue; // exit in progress (fill model carry)
+      // Portfolio: a symbol held by another sleeve is treated as flat for this one
+      const foreign = heldPos !== undefined && !isOwn(sleeve, heldPos);
 
       // ── Unified signal engine (F3) ──────────────────────────────────
       // Build held position kline map (for correlation check)
@@ -978,11 +1652,12 @@ export function runBacktest(
         }
       }
 
-      const currentPos = account.positions[sym];
-      const posSide = currentPos?.side;
+      const posSide = signalPosSide(cfg, foreign ? undefined : heldPos);
+      const stateStore = stateStores[sym];
       const externalCtx = {
         ...(posSide !== undefined ? { currentPosSide: posSide } : {}),
         ...(Object.keys(heldKlinesBySymbol).length > 0 ? { heldKlinesMap: heldKlinesBySymbol } : {}),
+        ...(stateStore && { stateStore }),
       };
 
       const engineResult = processSignal(sym, window, cfg, externalCtx);
@@ -991,6 +1666,10 @@ export function runBacktest(
       const { signal, effectiveRisk, effectivePositionRatio, rejected } = engineResult;
       if (rejected) continue;
       if (signal.type === "none") continue;
+      if (foreign) {
+        if (signal.type === "buy" || signal.type === "short") sleeve.blockedEntries++;
+        continue;
+      }
 
       // effectiveCfg: merge regime parameter overrides + correlation position adjustment
       const effectiveRatio = effectivePositionRatio ?? effectiveRisk.position_ratio;
@@ -1007,14 +1686,14 @@ export function runBacktest(
           // Delay to next candle open price (eliminates look-ahead bias)
           pendingSignals[sym] = { type: "buy", reason: signal.reason, regimeCfg };
         } else {
-          doBuy(account, sym, kline.close, time, regimeCfg, legacyOpts, signal.reason);
+          openEntry(sleeve, "buy", sym, kline.close, time, regimeCfg, signal.reason, kline);
         }
       } else if (signal.type === "sell") {
         // Close long (detectSignal ensures sell is only returned when holding long)
         if (signalToNextOpen) {
           pendingSignals[sym] = { type: "sell", reason: signal.reason, regimeCfg };
         } else {
-          doSell(account, sym, kline.close, time, "signal", legacyOpts);
+          doSell(account, sym, kline.close, time, "signal", legacyOpts, kline);
         }
       } else if (signal.type === "short") {
         // MTF filter: short signal requires higher timeframe MA to also be bearish (reverse filter)
@@ -1023,36 +1702,96 @@ export function runBacktest(
         if (signalToNextOpen) {
           pendingSignals[sym] = { type: "short", reason: signal.reason, regimeCfg };
         } else {
-          doOpenShort(account, sym, kline.close, time, regimeCfg, legacyOpts, signal.reason);
+          openEntry(sleeve, "short", sym, kline.close, time, regimeCfg, signal.reason, kline);
         }
       } else {
         // cover — close short (detectSignal ensures cover is only returned when holding short)
         if (signalToNextOpen) {
           pendingSignals[sym] = { type: "cover", reason: signal.reason, regimeCfg };
         } else {
-          doCoverShort(account, sym, kline.close, time, "signal", legacyOpts);
+          doCoverShort(account, sym, kline.close, time, "signal", legacyOpts, kline);
         }
       }
     }
 
-    // Step 4: record equity curve
+    return true;
+  }
+
+  // ── Main loop: advance candle by candle (close-time order across sleeves) ──
+  const events: { close: number; order: number; time: number; sleeve: Sleeve }[] = [];
+  sleeves.forEach((sleeve, order) => {
+    const refSym = sleeve.symbols[0] ?? "";
+    for (const time of sleeve.times) {
+      events.push({ close: sleeve.klineIndex[refSym]?.[time]?.closeTime ?? time, order, time, sleeve });
+    }
+  });
+  events.sort((a, b) => a.close - b.close || a.order - b.order);
+
+  let tradesSeen = 0;
+  const progressEvery = Math.max(1, Math.floor(events.length / 100));
+  let nextProgress = 0;
+  for (let i = 0; i < events.length; ) {
+    if (opts.onProgress && i >= nextProgress) {
+      opts.onProgress(i, events.length);
+      nextProgress = i + progressEvery;
+    }
+    const close = events[i]?.close;
+    let warm = false;
+    let stepTime = Infinity;
+    // Fill model: one volume budget per candle close, shared by every sleeve trading that candle
+    account.volumeUsed = {};
+    for (; i < events.length && events[i]?.close === close; i++) {
+      const ev = events[i];
+      if (!ev) continue;
+      if (runSleeveBar(ev.sleeve, ev.time)) {
+        warm = true;
+        stepTime = Math.min(stepTime, ev.time);
+      }
+    }
+    // No equity points while every sleeve is in its warmup period
+    if (!warm) continue;
+
+    // Step 4: record equity curve (time = openTime of the shortest candle closing at this step)
     account.equityCurve.push({
-      time,
-      equity: calcEquity(account, currentPrices),
+      time: stepTime,
+      equity: calcEquity(account, lastPrices),
     });
+
+    if (portfolio) {
+      // Per-sleeve equity: allocated capital + realized cash PnL − funding + open positions' unrealized PnL
+      for (; tradesSeen < account.trades.length; tradesSeen++) {
+        const t = account.trades[tradesSeen];
+        if (!t || (t.side !== "sell" && t.side !== "cover")) continue;
+        const id = t.sleeve ?? firstSleeve.id;
+        sleeveRealized[id] = (sleeveRealized[id] ?? 0) + t.proceeds - t.cost;
+      }
+      for (const s of sleeves) {
+        let equity = (s.allocation ?? 0) * initialUsdt + (sleeveRealized[s.id] ?? 0) - (sleeveFunding[s.id] ?? 0);
+        for (const [sym, pos] of Object.entries(account.positions)) {
+          if (!isOwn(s, pos)) continue;
+          equity += positionValue(pos, lastPrices[sym] ?? pos.entryPrice) + (pos.exitFill?.proceeds ?? 0) - pos.cost;
+        }
+        sleeveEquity[s.id]?.push({ time: stepTime, equity });
+      }
+    }
   }
 
-  // ── Force close all positions (at backtest end, at last close price) ──
-  const lastTime = allTimes[allTimes.length - 1] ?? 0;
+  opts.onProgress?.(events.length, events.length);
+
+  // ── Force close all positions (at backtest end, at last close price; always a full fill) ──
   for (const sym of Object.keys(account.positions)) {
     const pos = account.positions[sym];
+    if (!pos) continue;
+    const sleeve = sleeves.find((s) => isOwn(s, pos)) ?? firstSleeve;
+    const { cfg, strategy, windows, klineIndex } = sleeve;
+    const lastTime = sleeve.times[sleeve.times.length - 1] ?? 0;
     const lastKline = lastTime > 0 ? klineIndex[sym]?.[lastTime] : undefined;
-    if (!lastKline || !pos) continue;
+    if (!lastKline) continue;
     const posSideForClose: "long" | "short" = pos.side ?? "long";
     if (pos.side === "short") {
-      doCoverShort(account, sym, lastKline.close, lastTime, "end_of_data", legacyOpts);
+      doCoverShort(account, sym, lastKline.close, lastTime, "end_of_data", sleeve.opts);
     } else {
-      doSell(account, sym, lastKline.close, lastTime, "end_of_data", legacyOpts);
+      doSell(account, sym, lastKline.close, lastTime, "end_of_data", sleeve.opts);
     }
     // Hook: onTradeClosed (also triggered on forced close)
     if (strategy?.onTradeClosed !== undefined) {
@@ -1080,16 +1819,34 @@ export function runBacktest(
     }
   }
 
+  return { account, sleeves, sleeveEquity, sleeveFunding };
+}
+
+/** Same-period BTC Buy & Hold return % (first/last close; falls back to the first symbol) */
+export function benchmarkReturn(klinesBySymbol: Record<string, Kline[]>): number | undefined {
+  const firstSym = Object.keys(klinesBySymbol)[0];
+  const btcKlines = klinesBySymbol["BTCUSDT"] ?? (firstSym !== undefined ? klinesBySymbol[firstSym] : undefined);
+  if (!btcKlines || btcKlines.length < 2) return undefined;
+  const firstClose = btcKlines[0]?.close;
+  const lastClose = btcKlines[btcKlines.length - 1]?.close;
+  if (!firstClose || !lastClose) return undefined;
+  return ((lastClose - firstClose) / firstClose) * 100;
+}
+
+/** Build BacktestResult from an engine run (shared by runBacktest / runPortfolioBacktest) */
+function summarizeRun(
+  run: EngineRun,
+  opts: BacktestOptions,
+  meta: { strategy: string; timeframe: string; spreadBps: number; benchmarkKlines: Record<string, Kline[]> }
+): BacktestResult {
+  const { account } = run;
+  const { initialUsdt = 1000, avgFundingRatePer8h, fundingHistory,
+          signalToNextOpen = false, fillModel } = opts;
+  const fundingEnabled = avgFundingRatePer8h !== undefined || fundingHistory !== undefined;
+  const symbols = [...new Set(run.sleeves.flatMap((s) => s.symbols))];
+
   // ── BTC Buy & Hold Benchmark ──
-  // Calculate hold return using first/last close prices of BTC during backtest period
-  const btcKlines = klinesBySymbol["BTCUSDT"] ?? (symbols[0] !== undefined ? klinesBySymbol[symbols[0]] : undefined);
-  const btcBenchmarkReturn = (() => {
-    if (!btcKlines || btcKlines.length < 2) return undefined;
-    const firstClose = btcKlines[0]?.close;
-    const lastClose = btcKlines[btcKlines.length - 1]?.close;
-    if (!firstClose || !lastClose) return undefined;
-    return ((lastClose - firstClose) / firstClose) * 100;
-  })();
+  const btcBenchmarkReturn = benchmarkReturn(meta.benchmarkKlines);
 
   // ── Calculate performance metrics ──
   const metrics = calculateMetrics(account.trades, initialUsdt, account.equityCurve, btcBenchmarkReturn);
@@ -1115,9 +1872,23 @@ export function runBacktest(
   // ── Calculate total funding rate cost ──
   const totalFundingPaid = Object.values(perSymbol).reduce((s, v) => s + v.fundingPaid, 0);
 
+  // ── Fill model summary ──
+  let fills: BacktestResult["fills"];
+  if (fillModel) {
+    const n = closedTrades.length;
+    const totalImpactCost = closedTrades.reduce((s, t) => s + (t.impactCost ?? 0), 0);
+    fills = {
+      model: fillModel.name,
+      avgFillRatio: n > 0 ? closedTrades.reduce((s, t) => s + (t.fillRatio ?? 1), 0) / n : 1,
+      partialFillTrades: closedTrades.filter((t) => (t.fillRatio ?? 1) < 0.999).length,
+      totalImpactCost,
+      avgImpactCost: n > 0 ? totalImpactCost / n : 0,
+    };
+  }
+
   // ── Time range info ──
-  const firstTime = allTimes[0] ?? 0;
-  const lastTimeMs = allTimes[allTimes.length - 1] ?? 0;
+  const firstTime = Math.min(...run.sleeves.map((s) => s.times[0] ?? 0));
+  const lastTimeMs = Math.max(...run.sleeves.map((s) => s.times[s.times.length - 1] ?? 0));
   const startDate = new Date(firstTime).toISOString().slice(0, 10);
   const endDate = new Date(lastTimeMs).toISOString().slice(0, 10);
   const days = Math.round((lastTimeMs - firstTime) / 86_400_000);
@@ -1126,18 +1897,190 @@ export function runBacktest(
     metrics,
     trades: account.trades,
     totalFundingPaid,
+    ...(fills && { fills }),
     perSymbol,
     config: {
-      strategy: cfg.strategy.name,
+      strategy: meta.strategy,
       symbols,
-      timeframe: cfg.timeframe,
+      timeframe: meta.timeframe,
       startDate,
       endDate,
       days,
       initialUsdt,
       fundingEnabled,
-      spreadBps,
+      spreadBps: meta.spreadBps,
       signalToNextOpen,
+      ...(fillModel && { fillModel: fillModel.name }),
     },
   };
 }
+
+export function runBacktest(
+  klinesBySymbol: Record<string, Kline[]>,
+  cfg: StrategyConfig,
+  opts: BacktestOptions = {},
+  trendKlinesBySymbol?: Record<string, Kline[]>
+): BacktestResult {
+  const run = runEngine(
+    [{ id: cfg.strategy.name, cfg, klinesBySymbol, trendKlinesBySymbol, strategy: opts.strategyOverride }],
+    opts
+  );
+  return summarizeRun(run, opts, {
+    strategy: cfg.strategy.name,
+    timeframe: cfg.timeframe,
+    spreadBps: run.sleeves[0]?.opts.spreadBps ?? 0,
+    benchmarkKlines: klinesBySymbol,
+  });
+}
+
+// ─────────────────────────────────────────────────────
+// Portfolio Backtest (multiple strategies, shared capital)
+// ─────────────────────────────────────────────────────
+
+export interface PortfolioSleeve {
+  /** Sleeve name in the report (e.g. profile id "trend") */
+  id: string;
+  cfg: StrategyConfig;
+  /** Share of portfolio equity (0~1]; allocations must sum to ≤ 1, the rest stays in cash */
+  allocation: number;
+  /** Candles on the sleeve's own timeframe (sleeves may differ, e.g. 1h + 4h) */
+  klinesBySymbol: Record<string, Kline[]>;
+  trendKlinesBySymbol?: Record<string, Kline[]>;
+}
+
+export interface PortfolioOptions extends Omit<BacktestOptions, "strategyOverride"> {
+  /** Max open positions across all sleeves (default: largest sleeve max_positions) */
+  maxPositions?: number;
+}
+
+export interface SleeveAttribution {
+  id: string;
+  strategy: string;
+  timeframe: string;
+  allocation: number;
+  /** allocation × initial capital */
+  allocatedUsdt: number;
+  /** Metrics of the sleeve's own equity curve, relative to its allocated capital */
+  metrics: BacktestMetrics;
+  /** Realized PnL net of fees and funding (USDT) */
+  pnl: number;
+  /** pnl / allocatedUsdt (%) */
+  returnPercent: number;
+  /** Contribution to portfolio return (percentage points: pnl / portfolio initial capital) */
+  contributionPercent: number;
+  fundingPaid: number;
+  /** Entry signals not taken: shared/own slots or allocation full, or symbol held by another sleeve */
+  blockedEntries: number;
+}
+
+export interface PortfolioBacktestResult extends BacktestResult {
+  sleeves: SleeveAttribution[];
+  /** Pearson correlation of per-step sleeve equity returns (sleeve id -> sleeve id -> ρ) */
+  correlation: Record<string, Record<string, number>>;
+}
+
+function stepReturns(curve: EquityPoint[]): number[] {
+  const out: number[] = [];
+  for (let i = 1; i < curve.length; i++) {
+    const prev = curve[i - 1]?.equity ?? 0;
+    const curr = curve[i]?.equity ?? 0;
+    out.push(prev > 0 ? (curr - prev) / prev : 0);
+  }
+  return out;
+}
+
+function pearson(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  let sa = 0, sb = 0;
+  for (let i = 0; i < n; i++) { sa += a[i] ?? 0; sb += b[i] ?? 0; }
+  const ma = sa / n, mb = sb / n;
+  let cov = 0, va = 0, vb = 0;
+  for (let i = 0; i < n; i++) {
+    const da = (a[i] ?? 0) - ma;
+    const db = (b[i] ?? 0) - mb;
+    cov += da * db;
+    va += da * da;
+    vb += db * db;
+  }
+  return va > 0 && vb > 0 ? cov / Math.sqrt(va * vb) : 0;
+}
+
+/**
+ * Portfolio backtest: several strategy sleeves trade one shared account
+ *
+ * - Each sleeve sizes entries against allocation × portfolio equity and may not deploy more than that
+ * - Sleeves compete for opts.maxPositions and for symbols (one position per symbol); on the same
+ *   candle close, earlier sleeves in the list go first
+ * - Each sleeve manages only its own positions, with its own risk config, hooks and timeframe
+ *
+ * Returns the combined result (equity curve, metrics, trades tagged with `sleeve`) plus
+ * per-sleeve attribution and the correlation of sleeve returns.
+ */
+export function runPortfolioBacktest(
+  sleeves: PortfolioSleeve[],
+  opts: PortfolioOptions = {}
+): PortfolioBacktestResult {
+  if (sleeves.length === 0) throw new Error("Portfolio needs at least one sleeve");
+  const ids = new Set<string>();
+  for (const s of sleeves) {
+    if (ids.has(s.id)) throw new Error(`Duplicate portfolio sleeve "${s.id}"`);
+    ids.add(s.id);
+    if (!(s.allocation > 0 && s.allocation <= 1)) {
+      throw new Error(`Sleeve "${s.id}" allocation must be in (0, 1], got ${s.allocation}`);
+    }
+  }
+  const totalAllocation = sleeves.reduce((sum, s) => sum + s.allocation, 0);
+  if (totalAllocation > 1 + 1e-9) {
+    throw new Error(`Sleeve allocations sum to ${totalAllocation.toFixed(4)} (> 1)`);
+  }
+
+  const { initialUsdt = 1000 } = opts;
+  const maxPositions = opts.maxPositions ?? Math.max(...sleeves.map((s) => s.cfg.risk.max_positions));
+  const run = runEngine(sleeves, opts, maxPositions);
+
+  const firstSleeve = sleeves[0];
+  const benchmarkKlines = firstSleeve?.klinesBySymbol ?? {};
+  const timeframes = [...new Set(sleeves.map((s) => s.cfg.timeframe))];
+  const result = summarizeRun(run, opts, {
+    strategy: `portfolio(${sleeves.map((s) => s.id).join("+")})`,
+    timeframe: timeframes.join("+"),
+    spreadBps: opts.spreadBps ?? 0,
+    benchmarkKlines,
+  });
+
+  // ── Per-sleeve attribution ──
+  const attribution: SleeveAttribution[] = sleeves.map((s) => {
+    const allocatedUsdt = s.allocation * initialUsdt;
+    const trades = run.account.trades.filter((t) => t.sleeve === s.id);
+    const closed = trades.filter((t) => t.side === "sell" || t.side === "cover");
+    const fundingPaid = run.sleeveFunding[s.id] ?? 0;
+    const pnl = closed.reduce((sum, t) => sum + t.proceeds - t.cost, 0) - fundingPaid;
+    return {
+      id: s.id,
+      strategy: s.cfg.strategy.name,
+      timeframe: s.cfg.timeframe,
+      allocation: s.allocation,
+      allocatedUsdt,
+      metrics: calculateMetrics(trades, allocatedUsdt, run.sleeveEquity[s.id] ?? []),
+      pnl,
+      returnPercent: (pnl / allocatedUsdt) * 100,
+      contributionPercent: (pnl / initialUsdt) * 100,
+      fundingPaid,
+      blockedEntries: run.sleeves.find((r) => r.id === s.id)?.blockedEntries ?? 0,
+    };
+  });
+
+  // ── Correlation of sleeve returns ──
+  const returns = Object.fromEntries(sleeves.map((s) => [s.id, stepReturns(run.sleeveEquity[s.id] ?? [])]));
+  const correlation: PortfolioBacktestResult["correlation"] = {};
+  for (const a of sleeves) {
+    const row: Record<string, number> = {};
+    for (const b of sleeves) {
+      row[b.id] = a.id === b.id ? 1 : pearson(returns[a.id] ?? [], returns[b.id] ?? []);
+    }
+    correlation[a.id] = row;
+  }
+
+  return { ...result, sleeves: attribution, correlation };
+}
@@ -0,0 +1,244 @@
+/**
+ * Config Hot Reload
+ *
+ * Long-running monitors (ws-monitor, live-monitor) watch config/ and re-read it when a file
+ * changes. The new config is validated, built into RuntimeConfigs and diffed per scenario
+ * against the running ones.
+ *
+ * Only settings read fresh on every decision can change in place: risk, signals, notify and
+ * symbols (the monitor preloads / subscribes added symbols before the swap). Anything else —
+ * timeframe, indicator periods (incremental streams are seeded with them), exchange / market,
+ * mode, strategy plugin, paper balance and fees, scenarios added or removed — needs a restart:
+ * the whole reload is refused and the running config stays untouched, so a process never runs
+ * half of an edit.
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { RuntimeConfig } from "../types.js";
+import { createLogger } from "../logger.js";
+import type { Logger } from "../logger.js";
+import { notifyConfigReload } from "../notify/openclaw.js";
+import { validateAllConfig } from "./loader.js";
+import { ConfigValidationError } from "./schema.js";
+import type { ConfigIssue } from "./schema.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const CONFIG_DIR = path.resolve(__dirname, "../../config");
+
+/** Editors write a file in several steps (truncate, write, rename): wait for the burst to end */
+const DEBOUNCE_MS = 500;
+
+/** Top-level RuntimeConfig keys that may change without a restart */
+export const HOT_RELOADABLE_KEYS = ["risk", "signals", "notify", "symbols"] as const;
+
+// ─────────────────────────────────────────────────────
+// Diff
+// ─────────────────────────────────────────────────────
+
+export interface ConfigChange {
+  scenarioId: string;
+  /** Path inside RuntimeConfig, e.g. "risk.stop_loss_percent" ("" = scenario added / removed) */
+  path: string;
+  /** undefined = the key (or scenario) did not exist before */
+  from: unknown;
+  /** undefined = the key (or scenario) was removed */
+  to: unknown;
+}
+
+export interface RuntimeDiff {
+  /** Changes that can be applied in place */
+  safe: ConfigChange[];
+  /** Changes that need a restart */
+  unsafe: ConfigChange[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Leaf-level diff: objects are walked key by key, lists and scalars compare as a whole */
+function diffValue(scenarioId: string, keyPath: string, from: unknown, to: unknown, out: ConfigChange[]): void {
+  if (isPlainObject(from) && isPlainObject(to)) {
+    for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+      diffValue(scenarioId, keyPath ? `${keyPath}.${key}` : key, from[key], to[key], out);
+    }
+    return;
+  }
+  if (JSON.stringify(from) !== JSON.stringify(to)) out.push({ scenarioId, path: keyPath, from, to });
+}
+
+function isHotReloadable(change: ConfigChange): boolean {
+  const top = change.path.split(".")[0] ?? "";
+  return (HOT_RELOADABLE_KEYS as readonly string[]).includes(top);
+}
+
+/** Compare running and reloaded runtimes scenario by scenario (matched on paper.scenarioId) */
+export function diffRuntimes(prev: RuntimeConfig[], next: RuntimeConfig[]): RuntimeDiff {
+  const before = new Map(prev.map((r) => [r.paper.scenarioId, r]));
+  const after = new Map(next.map((r) => [r.paper.scenarioId, r]));
+  const changes: ConfigChange[] = [];
+
+  for (const [id, cfg] of before) {
+    const reloaded = after.get(id);
+    if (reloaded) diffValue(id, "", cfg, reloaded, changes);
+    else changes.push({ scenarioId: id, path: "", from: cfg, to: undefined });
+  }
+  for (const [id, cfg] of after) {
+    if (!before.has(id)) changes.push({ scenarioId: id, path: "", from: undefined, to: cfg });
+  }
+
+  return {
+    safe: changes.filter((c) => isHotReloadable(c)),
+    unsafe: changes.filter((c) => !isHotReloadable(c)),
+  };
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "(unset)" : JSON.stringify(value);
+}
+
+/** "[scenario] risk.stop_loss_percent: 5 → 4", "[scenario] symbols: +SOLUSDT −XRPUSDT" */
+export function formatChange(change: ConfigChange): string {
+  const prefix = `[${change.scenarioId}]`;
+  if (change.path === "") return `${prefix} scenario ${change.to === undefined ? "removed" : "added"}`;
+  if (change.path === "symbols" && Array.isArray(change.from) && Array.isArray(change.to)) {
+    const from = change.from as unknown[];
+    const to = change.to as unknown[];
+    const added = to.filter((s) => !from.includes(s)).map((s) => `+${String(s)}`);
+    const removed = from.filter((s) => !to.includes(s)).map((s) => `−${String(s)}`);
+    const parts = [...added, ...removed];
+    return `${prefix} symbols: ${parts.length > 0 ? parts.join(" ") : "reordered"}`;
+  }
+  return `${prefix} ${change.path}: ${formatValue(change.from)} → ${formatValue(change.to)}`;
+}
+
+// ─────────────────────────────────────────────────────
+// Reloader
+// ─────────────────────────────────────────────────────
+
+export interface HotReloadOptions {
+  /** Process name for logs and the notification, e.g. "ws-monitor" */
+  name: string;
+  /** Build the runtimes this process runs from the files on disk (same selection as at startup) */
+  load: () => RuntimeConfig[];
+  /**
+   * Prepare resources for `next` (preload klines, resubscribe) and swap it in.
+   * Throwing keeps the running config; the swap itself must happen last.
+   */
+  apply: (next: RuntimeConfig[], diff: RuntimeDiff) => void | Promise<void>;
+  /** Defaults to validateAllConfig */
+  validate?: () => ConfigIssue[];
+  /** Defaults to notifyConfigReload */
+  notify?: (name: string, changes: string[]) => void;
+  log?: Logger;
+}
+
+export type ReloadResult =
+  | { status: "unchanged" }
+  | { status: "applied"; diff: RuntimeDiff }
+  | { status: "refused"; diff: RuntimeDiff }
+  /** Validation or loading failed */
+  | { status: "invalid"; message: string }
+  /** apply() threw */
+  | { status: "failed"; message: string };
+
+export class ConfigHotReloader {
+  private current: RuntimeConfig[];
+  private watcher: fs.FSWatcher | null = null;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly log: Logger;
+
+  constructor(
+    runtimes: RuntimeConfig[],
+    private readonly opts: HotReloadOptions
+  ) {
+    this.current = runtimes;
+    this.log = opts.log ?? createLogger("config-reload");
+  }
+
+  /** The runtimes last applied (the startup ones until a reload succeeds) */
+  get runtimes(): RuntimeConfig[] {
+    return this.current;
+  }
+
+  /** Re-read config/ once: validate, diff, then apply or refuse */
+  async reload(): Promise<ReloadResult> {
+    let next: RuntimeConfig[];
+    try {
+      const issues = (this.opts.validate ?? validateAllConfig)();
+      if (issues.length > 0) throw new ConfigValidationError(issues);
+      next = this.opts.load();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.log.error(`❌ Config reload rejected, keeping the running config: ${message}`);
+      return { status: "invalid", message };
+    }
+
+    const diff = diffRuntimes(this.current, next);
+    if (diff.safe.length === 0 && diff.unsafe.length === 0) {
+      this.log.debug("Config files changed, effective config unchanged");
+      return { status: "unchanged" };
+    }
+
+    if (diff.unsafe.length > 0) {
+      const lines = [
+        `⛔ Config reload refused: ${diff.unsafe.length} change(s) need a restart of ${this.opts.name}, nothing applied`,
+        ...diff.unsafe.map((c) => `  ${formatChange(c)}`),
+        ...(diff.safe.length > 0 ? ["  Also pending (would apply in place):", ...diff.safe.map((c) => `    ${formatChange(c)}`)] : []),
+      ];
+      this.log.warn(lines.join("\n"));
+      return { status: "refused", diff };
+    }
+
+    try {
+      await this.opts.apply(next, diff);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.log.error(`❌ Config reload failed while applying, keeping the running config: ${message}`);
+      return { status: "failed", message };
+    }
+
+    this.current = next;
+    const changes = diff.safe.map(formatChange);
+    this.log.info(`🔄 Config reloaded (${changes.length} change(s)):\n${changes.map((c) => `  ${c}`).join("\n")}`);
+    (this.opts.notify ?? notifyConfigReload)(this.opts.name, changes);
+    return { status: "applied", diff };
+  }
+
+  /** Watch config/ (including strategies/) and reload after each burst of YAML changes */
+  watch(dir = CONFIG_DIR, debounceMs = DEBOUNCE_MS): void {
+    this.close();
+    this.watcher = fs.watch(dir, { recursive: true }, (_event, filename) => {
+      if (filename && !/\.ya?ml$/.test(filename)) return;
+      if (this.debounceTimer !== null) clearTimeout(this.debounceTimer);
+      this.debounceTimer = setTimeout(() => {
+        this.debounceTimer = null;
+        void this.enqueue();
+      }, debounceMs);
+    });
+    this.watcher.on("error", (err: unknown) => {
+      this.log.error(`Config watcher error: ${err instanceof Error ? err.message : String(err)}`);
+    });
+    this.log.info(`👀 Watching ${dir} for config changes`);
+  }
+
+  /** Stop watching (a reload already running still completes) */
+  close(): void {
+    if (this.debounceTimer !== null) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /** One reload at a time: an edit made during a slow apply is diffed against what that apply installed */
+  private enqueue(): Promise<ReloadResult> {
+    const run = this.queue.then(() => this.reload());
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
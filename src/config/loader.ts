@@ -2,11 +2,11 @@
  * Configuration Loader
  * Priority (high -> low): scenario override > strategy profile > strategy.yaml global defaults
  * Generates RuntimeConfig for use by all modules
+ * Every file is schema-checked on load (validate.ts); problems raise ConfigValidationError
  */
 
 import fs from "fs";
 import path from "path";
-import { parse } from "yaml";
 import { fileURLToPath } from "url";
 import type {
   StrategyConfig,
@@ -17,26 +17,55 @@ import type {
   RuntimeConfig,
   RiskConfig,
   ExchangeConfig,
+  IndicatorConfig,
 } from "../types.js";
+import { defaultCredentialsPath } from "../exchange/adapter.js";
+import { ConfigValidationError, parseYamlSource } from "./schema.js";
+import type { ConfigIssue, YamlSource } from "./schema.js";
+import {
+  validateLiveConfig,
+  validateLiveShortMarket,
+  validatePaperConfig,
+  validatePaperShortMarkets,
+  validateStrategyConfig,
+  validateStrategyProfile,
+} from "./validate.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const CONFIG_DIR = path.resolve(__dirname, "../../config");
 
+/** "config/strategies/trend.yaml" — the file name used in validation issues */
+function configLabel(filePath: string): string {
+  return path.relative(path.dirname(CONFIG_DIR), filePath).split(path.sep).join("/");
+}
+
+function readSource(filePath: string): YamlSource {
+  return parseYamlSource(fs.readFileSync(filePath, "utf-8"), configLabel(filePath));
+}
+
+/**
+ * Parse a config file and check it against its schema
+ * @throws ConfigValidationError listing every issue (file:line path: message)
+ */
 // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-parameters
-function readYaml<T>(filePath: string): T {
-  return parse(fs.readFileSync(filePath, "utf-8")) as T;
+function readYaml<T>(filePath: string, validate: (source: YamlSource) => ConfigIssue[]): T {
+  const source = readSource(filePath);
+  const issues = validate(source);
+  if (issues.length > 0) throw new ConfigValidationError(issues);
+  return source.value as T;
 }
 
 export function loadStrategyConfig(): StrategyConfig {
-  return readYaml<StrategyConfig>(path.join(CONFIG_DIR, "strategy.yaml"));
+  return readYaml<StrategyConfig>(path.join(CONFIG_DIR, "strategy.yaml"), validateStrategyConfig);
 }
 
 export function loadPaperConfig(): PaperFileConfig {
-  return readYaml<PaperFileConfig>(path.join(CONFIG_DIR, "paper.yaml"));
+  return readYaml<PaperFileConfig>(path.join(CONFIG_DIR, "paper.yaml"), (source) =>
+    validatePaperConfig(source, listStrategyProfiles()));
 }
 
 export function loadLiveConfig(): LiveConfig {
-  return readYaml<LiveConfig>(path.join(CONFIG_DIR, "live.yaml"));
+  return readYaml<LiveConfig>(path.join(CONFIG_DIR, "live.yaml"), validateLiveConfig);
 }
 
 export function loadStrategyProfile(strategyId: string): StrategyProfile {
@@ -44,7 +73,7 @@ export function loadStrategyProfile(strategyId: string): StrategyProfile {
   if (!fs.existsSync(filePath)) {
     throw new Error(`Strategy file not found: config/strategies/${strategyId}.yaml`);
   }
-  return readYaml<StrategyProfile>(filePath);
+  return readYaml<StrategyProfile>(filePath, validateStrategyProfile);
 }
 
 /** List all available strategies */
@@ -88,6 +117,14 @@ export function mergeRisk(
   return result;
 }
 
+function mergeIndicatorConfig(base: IndicatorConfig, override: IndicatorConfig): IndicatorConfig {
+  const merged: IndicatorConfig = { ...base };
+  for (const key of Object.keys(override) as (keyof IndicatorConfig)[]) {
+    Object.assign(merged, { [key]: { ...base[key], ...override[key] } });
+  }
+  return merged;
+}
+
 export function mergeStrategySection(
   base: StrategyConfig["strategy"],
   override?: StrategyProfile["strategy"]
@@ -104,6 +141,38 @@ export function mergeStrategySection(
     macd: { ...base.macd, ...(override.macd ?? {}) },
     // exactOptionalPropertyTypes: only set volume when it has a value
     ...(mergedVolume !== undefined ? { volume: mergedVolume } : {}),
+    // Extended indicators: merged per indicator (profile stoch_rsi.oversold keeps global stoch_rsi.rsi_period)
+    ...(override.indicators !== undefined
+      ? { indicators: mergeIndicatorConfig(base.indicators ?? {}, override.indicators) }
+      : {}),
+  };
+}
+
+/**
+ * strategy.yaml with a strategy profile applied (backtest / hyperopt view of a profile).
+ * Priority: profile > strategy.yaml
+ */
+export function applyStrategyProfile(base: StrategyConfig, profile: StrategyProfile): StrategyConfig {
+  return {
+    ...base,
+    symbols: profile.symbols ?? base.symbols,
+    timeframe: profile.timeframe ?? base.timeframe,
+    strategy: { ...mergeStrategySection(base.strategy, profile.strategy), name: profile.name },
+    signals: {
+      buy: profile.signals?.buy ?? base.signals.buy,
+      sell: profile.signals?.sell ?? base.signals.sell,
+      ...(profile.signals?.short !== undefined ? { short: profile.signals.short } : {}),
+      ...(profile.signals?.cover !== undefined ? { cover: profile.signals.cover } : {}),
+    },
+    risk: mergeRisk(base.risk, profile.risk),
+    // MTF: profile takes priority, then global strategy.yaml
+    ...(profile.trend_timeframe !== undefined ? { trend_timeframe: profile.trend_timeframe } : {}),
+    // F4 plugin + its config section: profile takes priority, then global strategy.yaml
+    ...(profile.strategy_id !== undefined ? { strategy_id: profile.strategy_id } : {}),
+    ...(profile.grid !== undefined ? { grid: profile.grid } : {}),
+    ...(profile.pairs !== undefined ? { pairs: profile.pairs } : {}),
+    ...(profile.ensemble !== undefined ? { ensemble: profile.ensemble } : {}),
+    ...(profile.hyperopt_space !== undefined ? { hyperopt_space: profile.hyperopt_space } : {}),
   };
 }
 
@@ -153,10 +222,11 @@ export function buildPaperRuntime(
   // risk: scenario override > profile override > global
   const risk = mergeRisk(base.risk, profile.risk, scenario.risk);
 
-  // exchange
+  // exchange (credentials default follows the exchange name: .secrets/{name}.json)
+  const exchangeName = scenario.exchange.name ?? "binance";
   const exchange: ExchangeConfig = {
-    name: "binance",
-    credentials_path: ".secrets/binance.json",
+    name: exchangeName,
+    credentials_path: defaultCredentialsPath(exchangeName),
     ...scenario.exchange,
   };
 
@@ -175,6 +245,13 @@ export function buildPaperRuntime(
       : base.strategy_id !== undefined
         ? { strategy_id: base.strategy_id }
         : {}),
+    // Grid layout: profile > global
+    ...(profile.grid !== undefined ? { grid: profile.grid } : {}),
+    // Pair legs: profile > global
+    ...(profile.pairs !== undefined ? { pairs: profile.pairs } : {}),
+    // Ensemble voting / hyperopt space: profile > global
+    ...(profile.ensemble !== undefined ? { ensemble: profile.ensemble } : {}),
+    ...(profile.hyperopt_space !== undefined ? { hyperopt_space: profile.hyperopt_space } : {}),
     paper: {
       scenarioId: scenario.id,
       initial_usdt: scenario.initial_usdt,
@@ -252,3 +329,63 @@ export function loadRuntimeConfigs(): RuntimeConfig[] {
     },
   ];
 }
+
+// ─────────────────────────────────────────────────────
+// Whole-config validation (doctor / entry points)
+// ─────────────────────────────────────────────────────
+
+/**
+ * Validate strategy.yaml, every strategy profile, paper.yaml and live.yaml (when present)
+ * plus the cross-file rules. Unlike the loaders it keeps going after a bad file, so a single
+ * run lists every issue.
+ */
+export function validateAllConfig(): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const check = (filePath: string, validate: (source: YamlSource) => ConfigIssue[]): YamlSource | undefined => {
+    if (!fs.existsSync(filePath)) {
+      issues.push({ file: configLabel(filePath), path: "", message: "file not found" });
+      return undefined;
+    }
+    try {
+      const source = readSource(filePath);
+      const found = validate(source);
+      issues.push(...found);
+      return found.length === 0 ? source : undefined;
+    } catch (err: unknown) {
+      if (!(err instanceof ConfigValidationError)) throw err;
+      issues.push(...err.issues);
+      return undefined;
+    }
+  };
+
+  const base = check(path.join(CONFIG_DIR, "strategy.yaml"), validateStrategyConfig);
+  const profileIds = listStrategyProfiles();
+  const profiles = new Map<string, StrategyProfile>();
+  for (const id of profileIds) {
+    const source = check(path.join(CONFIG_DIR, "strategies", `${id}.yaml`), validateStrategyProfile);
+    if (source) profiles.set(id, source.value as StrategyProfile);
+  }
+  const paper = check(path.join(CONFIG_DIR, "paper.yaml"), (source) => validatePaperConfig(source, profileIds));
+  if (base && paper) {
+    issues.push(...validatePaperShortMarkets(paper, base.value as StrategyConfig, profiles));
+  }
+
+  // live.yaml is only read in auto mode
+  const livePath = path.join(CONFIG_DIR, "live.yaml");
+  if (fs.existsSync(livePath)) {
+    const live = check(livePath, validateLiveConfig);
+    if (base && live && (base.value as StrategyConfig).mode === "auto") {
+      issues.push(...validateLiveShortMarket(live, base.value as StrategyConfig));
+    }
+  }
+  return issues;
+}
+
+/**
+ * Startup check for entry points: refuse to run on an invalid config
+ * @throws ConfigValidationError listing every issue
+ */
+export function assertValidConfig(): void {
+  const issues = validateAllConfig();
+  if (issues.length > 0) throw new ConfigValidationError(issues);
+}
@@ -0,0 +1,288 @@
+/**
+ * Config Schema Primitives
+ *
+ * A small declarative checker for YAML config files. Every problem is reported as a
+ * ConfigIssue carrying the file, the YAML path and the line it sits on, e.g.
+ *   config/strategy.yaml:99 risk.stop_loss_pct: unknown key (did you mean "stop_loss_percent"?)
+ *
+ * Checks are plain functions (value, path, report); objects reject unknown keys, so a typo
+ * fails at load instead of being silently ignored. Config-specific schemas live in validate.ts.
+ */
+
+import { isMap, isNode, isScalar, isSeq, LineCounter, parseDocument } from "yaml";
+
+// ─────────────────────────────────────────────────────
+// Issues & Errors
+// ─────────────────────────────────────────────────────
+
+export interface ConfigIssue {
+  /** Path relative to the repo root, e.g. "config/paper.yaml" */
+  file: string;
+  /** YAML path, e.g. "scenarios[2].risk.stop_loss_percent" ("" = the whole file) */
+  path: string;
+  /** 1-based line of the key / item (nearest existing ancestor when the key is missing) */
+  line?: number;
+  message: string;
+}
+
+/** One or more config files failed validation; `issues` lists every problem found */
+export class ConfigValidationError extends Error {
+  constructor(readonly issues: ConfigIssue[]) {
+    super(`Invalid configuration (${issues.length} issue${issues.length === 1 ? "" : "s"}):\n${issues.map((i) => `  ${formatIssue(i)}`).join("\n")}`);
+    this.name = "ConfigValidationError";
+  }
+}
+
+export function formatIssue(issue: ConfigIssue): string {
+  const where = issue.line !== undefined ? `${issue.file}:${issue.line}` : issue.file;
+  return issue.path ? `${where} ${issue.path}: ${issue.message}` : `${where}: ${issue.message}`;
+}
+
+export type PathSegment = string | number;
+
+export function formatPath(path: readonly PathSegment[]): string {
+  return path.reduce<string>(
+    (out, seg) => (typeof seg === "number" ? `${out}[${seg}]` : out ? `${out}.${seg}` : seg),
+    ""
+  );
+}
+
+// ─────────────────────────────────────────────────────
+// YAML Source (value + line lookup)
+// ─────────────────────────────────────────────────────
+
+export interface YamlSource {
+  file: string;
+  /** Parsed document (same result as yaml.parse) */
+  value: unknown;
+  /** Line of the deepest node along `path` that exists in the document */
+  lineOf(path: readonly PathSegment[]): number | undefined;
+}
+
+function keyText(key: unknown): string | undefined {
+  if (!isScalar(key)) return undefined;
+  return typeof key.value === "string" || typeof key.value === "number" ? String(key.value) : undefined;
+}
+
+/**
+ * Parse YAML text keeping node positions
+ * @throws ConfigValidationError on a YAML syntax error
+ */
+export function parseYamlSource(text: string, file: string): YamlSource {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(text, { lineCounter });
+  const syntaxError = doc.errors[0];
+  if (syntaxError) {
+    const line = syntaxError.linePos?.[0].line;
+    throw new ConfigValidationError([
+      { file, path: "", ...(line !== undefined && { line }), message: `YAML syntax error: ${(syntaxError.message.split("\n")[0] ?? "").replace(/ at line \d+, column \d+:?$/, "")}` },
+    ]);
+  }
+
+  return {
+    file,
+    value: doc.toJS() as unknown,
+    lineOf(path) {
+      let node: unknown = doc.contents;
+      let offset = isNode(node) ? node.range?.[0] : undefined;
+      for (const seg of path) {
+        if (isMap(node)) {
+          const pair = node.items.find((p) => keyText(p.key) === String(seg));
+          if (!pair) break;
+          offset = isNode(pair.key) ? pair.key.range?.[0] : offset;
+          node = pair.value;
+        } else if (isSeq(node) && typeof seg === "number") {
+          const item = node.items[seg];
+          if (!isNode(item)) break;
+          offset = item.range?.[0];
+          node = item;
+        } else {
+          break;
+        }
+      }
+      return offset !== undefined ? lineCounter.linePos(offset).line : undefined;
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────
+// Checks
+// ─────────────────────────────────────────────────────
+
+export type Report = (path: PathSegment[], message: string) => void;
+export type Check = (value: unknown, path: PathSegment[], report: Report) => void;
+
+interface OptionalField {
+  optional: true;
+  check: Check;
+}
+
+/** Object field: a Check (required key) or optional(check) */
+export type Field = Check | OptionalField;
+
+export function optional(check: Check): OptionalField {
+  return { optional: true, check };
+}
+
+function typeName(value: unknown): string {
+  if (value === null || value === undefined) return "nothing";
+  if (Array.isArray(value)) return "a list";
+  if (typeof value === "object") return "a mapping";
+  return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function num(opts: { min?: number; max?: number; gt?: number; int?: boolean } = {}): Check {
+  return (value, path, report) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      report(path, `expected a number, got ${typeName(value)}`);
+      return;
+    }
+    if (opts.int && !Number.isInteger(value)) report(path, `must be an integer, got ${value}`);
+    if (opts.gt !== undefined && value <= opts.gt) report(path, `must be > ${opts.gt}, got ${value}`);
+    if (opts.min !== undefined && value < opts.min) report(path, `must be ≥ ${opts.min}, got ${value}`);
+    if (opts.max !== undefined && value > opts.max) report(path, `must be ≤ ${opts.max}, got ${value}`);
+  };
+}
+
+export function str(opts: { nonEmpty?: boolean } = {}): Check {
+  return (value, path, report) => {
+    if (typeof value !== "string") report(path, `expected a string, got ${typeName(value)}`);
+    else if (opts.nonEmpty && value.trim() === "") report(path, "must not be empty");
+  };
+}
+
+export function bool(): Check {
+  return (value, path, report) => {
+    if (typeof value !== "boolean") report(path, `expected true or false, got ${typeName(value)}`);
+  };
+}
+
+/** A string, number or boolean (categorical choices, `when` values) */
+export function scalar(): Check {
+  return (value, path, report) => {
+    if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+      report(path, `expected a string, number or boolean, got ${typeName(value)}`);
+    }
+  };
+}
+
+export function oneOf(values: readonly (string | number)[]): Check {
+  return (value, path, report) => {
+    if (!values.includes(value as string | number)) {
+      report(path, `must be one of ${values.map((v) => JSON.stringify(v)).join(", ")}, got ${typeName(value)}`);
+    }
+  };
+}
+
+export function arr(item: Check, opts: { min?: number; max?: number } = {}): Check {
+  return (value, path, report) => {
+    if (!Array.isArray(value)) {
+      report(path, `expected a list, got ${typeName(value)}`);
+      return;
+    }
+    if (opts.min !== undefined && value.length < opts.min) report(path, `needs at least ${opts.min} item(s), got ${value.length}`);
+    if (opts.max !== undefined && value.length > opts.max) report(path, `allows at most ${opts.max} item(s), got ${value.length}`);
+    value.forEach((v: unknown, i) => { item(v, [...path, i], report); });
+  };
+}
+
+/** Mapping with a fixed set of keys; unknown keys are errors (with a "did you mean" hint) */
+export function obj(shape: Record<string, Field>): Check {
+  const known = Object.keys(shape);
+  return (value, path, report) => {
+    if (!isPlainObject(value)) {
+      report(path, `expected a mapping, got ${typeName(value)}`);
+      return;
+    }
+    // A misspelt required key is reported once, as the unknown key pointing at it
+    const suggested = new Set<string>();
+    for (const [key, v] of Object.entries(value)) {
+      const field = Object.hasOwn(shape, key) ? shape[key] : undefined;
+      if (field) {
+        if (v !== undefined) (typeof field === "function" ? field : field.check)(v, [...path, key], report);
+        continue;
+      }
+      const guess = closestKey(key, known);
+      if (guess) suggested.add(guess);
+      report([...path, key], guess ? `unknown key (did you mean "${guess}"?)` : "unknown key");
+    }
+    for (const [key, field] of Object.entries(shape)) {
+      if (typeof field === "function" && value[key] === undefined && !suggested.has(key)) {
+        report([...path, key], "missing required key");
+      }
+    }
+  };
+}
+
+/** Mapping with free-form keys; `key` returns an error message for an invalid key */
+export function record(item: Check, key?: (k: string) => string | undefined): Check {
+  return (value, path, report) => {
+    if (!isPlainObject(value)) {
+      report(path, `expected a mapping, got ${typeName(value)}`);
+      return;
+    }
+    for (const [k, v] of Object.entries(value)) {
+      const keyError = key?.(k);
+      if (keyError !== undefined) report([...path, k], keyError);
+      else item(v, [...path, k], report);
+    }
+  };
+}
+
+/** Run `rule` (a cross-field check) only when `check` found nothing wrong with the value */
+// eslint-disable-next-line @typescript-eslint/no-unnecessary-type-parameters
+export function refine<T>(check: Check, rule: (value: T, path: PathSegment[], report: Report) => void): Check {
+  return (value, path, report) => {
+    const failures: string[] = [];
+    check(value, path, (p, m) => { failures.push(m); report(p, m); });
+    if (failures.length === 0) rule(value as T, path, report);
+  };
+}
+
+/** Run `check` against a parsed source and resolve each problem to its line */
+export function checkSource(source: YamlSource, check: Check): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  check(source.value, [], (path, message) => { issues.push(issueAt(source, path, message)); });
+  return issues;
+}
+
+export function issueAt(source: YamlSource, path: PathSegment[], message: string): ConfigIssue {
+  const line = source.lineOf(path);
+  return { file: source.file, path: formatPath(path), ...(line !== undefined && { line }), message };
+}
+
+// ─────────────────────────────────────────────────────
+// Suggestions
+// ─────────────────────────────────────────────────────
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row.push(Math.min((prev[j] ?? 0) + 1, (row[j - 1] ?? 0) + 1, (prev[j - 1] ?? 0) + cost));
+    }
+    prev = row;
+  }
+  return prev[b.length] ?? 0;
+}
+
+/** Closest known key within a third of its length (at least 2 edits), e.g. stop_loss_pct → stop_loss_percent */
+export function closestKey(key: string, known: readonly string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of known) {
+    const d = editDistance(key, candidate);
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  if (!best) return undefined;
+  return bestDistance <= Math.max(2, Math.floor(best.length / 3)) ? best : undefined;
+}
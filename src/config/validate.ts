@@ -0,0 +1,472 @@
+/**
+ * Config Validation
+ *
+ * Schemas for strategy.yaml, config/strategies/*.yaml, paper.yaml and live.yaml, plus the
+ * cross-field rules a schema cannot express:
+ *   - strategy.ma.short < strategy.ma.long
+ *   - take_profit_stages close ratios sum to ≤ 1
+ *   - every signal condition is a named condition or a valid expression
+ *   - strategy_id / ensemble strategy ids are registered plugins
+ *   - paper scenarios reference an existing strategy profile
+ *   - short / cover conditions only run on futures / margin markets
+ *
+ * Each function returns the issues found (empty = valid); the loader turns them into a
+ * ConfigValidationError.
+ */
+
+import type { MarketType, StrategyConfig, StrategyProfile, TakeProfitStage } from "../types.js";
+import { SUPPORTED_EXCHANGES } from "../exchange/adapter.js";
+import { conditionError } from "../strategy/signals.js";
+import { listStrategies } from "../strategies/index.js";
+import {
+  arr,
+  bool,
+  checkSource,
+  issueAt,
+  num,
+  obj,
+  oneOf,
+  optional,
+  record,
+  refine,
+  scalar,
+  str,
+} from "./schema.js";
+import type { Check, ConfigIssue, Field, YamlSource } from "./schema.js";
+
+const TIMEFRAMES = ["1m", "5m", "15m", "1h", "4h", "1d"];
+const TRADE_MODES = ["notify_only", "paper", "testnet", "live", "auto"];
+const MARKETS = ["spot", "margin", "futures"];
+const SHORT_MARKETS: readonly MarketType[] = ["futures", "margin"];
+
+// ─────────────────────────────────────────────────────
+// Shared Sections
+// ─────────────────────────────────────────────────────
+
+const percent = (): Check => num({ min: 0, max: 100 });
+const ratio = (): Check => num({ gt: 0, max: 1 });
+const period = (): Check => num({ int: true, min: 1 });
+const candles = (): Check => num({ int: true, min: 0 });
+
+/** Required in a full section, optional in an override */
+function field(check: Check, partial: boolean): Field {
+  return partial ? optional(check) : check;
+}
+
+const strategyId: Check = (value, path, report) => {
+  str({ nonEmpty: true })(value, path, report);
+  if (typeof value !== "string") return;
+  const registered = listStrategies();
+  if (!registered.includes(value)) report(path, `unknown strategy plugin "${value}" (registered: ${registered.join(", ")})`);
+};
+
+const signalCondition: Check = (value, path, report) => {
+  if (typeof value !== "string") {
+    report(path, `expected a condition string, got ${JSON.stringify(value)}`);
+    return;
+  }
+  const error = conditionError(value);
+  if (error !== undefined) report(path, error);
+};
+
+function signalsSchema(partial: boolean): Check {
+  const conditions = arr(signalCondition);
+  return obj({
+    buy: field(conditions, partial),
+    sell: field(conditions, partial),
+    short: optional(conditions),
+    cover: optional(conditions),
+  });
+}
+
+const takeProfitStages = refine<TakeProfitStage[]>(
+  arr(obj({ at_percent: num({ gt: 0 }), close_ratio: ratio() })),
+  (stages, path, report) => {
+    const total = stages.reduce((sum, s) => sum + s.close_ratio, 0);
+    if (total > 1 + 1e-9) report(path, `close_ratio values sum to ${+total.toFixed(4)}, must be ≤ 1`);
+  }
+);
+
+/**
+ * Full RiskConfig (strategy.yaml) or an override (profile / scenario / live / regime_overrides).
+ * Overrides may also give trailing_stop / atr_position / correlation_filter partially: mergeRisk
+ * deep-merges those three.
+ */
+function riskSchema(partial: boolean): Check {
+  return obj({
+    stop_loss_percent: field(num({ gt: 0, max: 100 }), partial),
+    take_profit_percent: field(num({ gt: 0 }), partial),
+    trailing_stop: field(obj({
+      enabled: field(bool(), partial),
+      activation_percent: field(num({ min: 0 }), partial),
+      callback_percent: field(num({ gt: 0, max: 100 }), partial),
+    }), partial),
+    position_ratio: field(ratio(), partial),
+    max_positions: field(num({ int: true, min: 0 }), partial),
+    max_position_per_symbol: field(ratio(), partial),
+    max_total_loss_percent: field(num({ gt: 0, max: 100 }), partial),
+    daily_loss_limit_percent: field(num({ gt: 0, max: 100 }), partial),
+    atr_position: optional(obj({
+      enabled: field(bool(), partial),
+      risk_per_trade_percent: field(num({ gt: 0, max: 100 }), partial),
+      atr_multiplier: field(num({ gt: 0 }), partial),
+      max_position_ratio: field(ratio(), partial),
+    })),
+    trailing_stop_positive: optional(num({ gt: 0 })),
+    trailing_stop_positive_offset: optional(num({ min: 0 })),
+    trailing_only_offset_is_reached: optional(bool()),
+    take_profit_stages: optional(takeProfitStages),
+    time_stop_hours: optional(num({ gt: 0 })),
+    correlation_filter: optional(obj({
+      enabled: field(bool(), partial),
+      threshold: field(num({ min: 0, max: 1 }), partial),
+      lookback: field(num({ int: true, min: 2 }), partial),
+    })),
+    min_rr: optional(num({ min: 0 })),
+    dca: optional(obj({
+      enabled: bool(),
+      tranches: num({ int: true, min: 1 }),
+      drop_pct: num({ gt: 0, max: 100 }),
+      max_hours: num({ gt: 0 }),
+    })),
+    position_sizing: optional(oneOf(["fixed", "kelly"])),
+    kelly_lookback: optional(num({ int: true, min: 1 })),
+    kelly_half: optional(bool()),
+    kelly_min_ratio: optional(ratio()),
+    kelly_max_ratio: optional(ratio()),
+    minimal_roi: optional(record(num(), (key) =>
+      /^\d+(\.\d+)?$/.test(key) ? undefined : "ROI keys are holding times in minutes (non-negative numbers)")),
+    break_even_profit: optional(num({ gt: 0 })),
+    break_even_stop: optional(num()),
+    spread_bps: optional(num({ min: 0 })),
+  });
+}
+
+const maSchema = refine<{ short: number; long: number }>(
+  obj({ short: period(), long: period() }),
+  (ma, path, report) => {
+    if (ma.short >= ma.long) report(path, `short (${ma.short}) must be less than long (${ma.long})`);
+  }
+);
+
+const indicatorsSchema = obj({
+  stoch_rsi: optional(obj({
+    rsi_period: optional(period()),
+    stoch_period: optional(period()),
+    k_smooth: optional(period()),
+    d_smooth: optional(period()),
+    oversold: optional(percent()),
+    overbought: optional(percent()),
+  })),
+  ichimoku: optional(obj({ tenkan: optional(period()), kijun: optional(period()), senkou_b: optional(period()) })),
+  supertrend: optional(obj({ period: optional(period()), multiplier: optional(num({ gt: 0 })) })),
+  keltner: optional(obj({
+    ema_period: optional(period()),
+    atr_period: optional(period()),
+    multiplier: optional(num({ gt: 0 })),
+  })),
+  obv: optional(obj({ ma_period: optional(period()) })),
+  donchian: optional(obj({ period: optional(period()) })),
+  mfi: optional(obj({ period: optional(period()), oversold: optional(percent()), overbought: optional(percent()) })),
+});
+
+const ensembleSchema = obj({
+  strategies: arr(obj({
+    id: (value, path, report) => {
+      strategyId(value, path, report);
+      if (value === "ensemble") report(path, "an ensemble cannot contain itself");
+    },
+    weight: num({ min: 0 }),
+  }), { min: 1 }),
+  threshold: optional(ratio()),
+  unanimous: optional(bool()),
+});
+
+const gridSchema = obj({
+  levels: num({ int: true, min: 2 }),
+  spacing_percent: num({ gt: 0 }),
+  recenter_after_minutes: optional(num({ min: 0 })),
+});
+
+const pairsSchema = obj({
+  legs: arr(str({ nonEmpty: true }), { min: 2, max: 2 }),
+  lookback: optional(num({ int: true, min: 2 })),
+  entry_z: optional(num({ gt: 0 })),
+  exit_z: optional(num({ min: 0 })),
+  stop_z: optional(num({ gt: 0 })),
+  min_correlation: optional(num({ min: -1, max: 1 })),
+});
+
+const hyperoptSpaceSchema = arr(obj({
+  path: str({ nonEmpty: true }),
+  type: oneOf(["int", "float", "categorical", "boolean"]),
+  min: optional(num()),
+  max: optional(num()),
+  step: optional(num({ gt: 0 })),
+  choices: optional(arr(scalar(), { min: 1 })),
+  when: optional(record(scalar())),
+}));
+
+const symbolsSchema = arr(str({ nonEmpty: true }), { min: 1 });
+
+// ─────────────────────────────────────────────────────
+// strategy.yaml
+// ─────────────────────────────────────────────────────
+
+const protectionsSchema = obj({
+  cooldown: optional(obj({ enabled: bool(), stop_duration_candles: candles() })),
+  stoploss_guard: optional(obj({
+    enabled: bool(),
+    lookback_period_candles: period(),
+    trade_limit: period(),
+    stop_duration_candles: candles(),
+    only_per_pair: optional(bool()),
+  })),
+  max_drawdown: optional(obj({
+    enabled: bool(),
+    lookback_period_candles: period(),
+    trade_limit: period(),
+    max_allowed_drawdown: num({ min: -1, max: 1 }),
+    stop_duration_candles: candles(),
+  })),
+  low_profit_pairs: optional(obj({
+    enabled: bool(),
+    lookback_period_candles: period(),
+    trade_limit: period(),
+    required_profit: num(),
+    stop_duration_candles: candles(),
+  })),
+});
+
+const dashboardRole = oneOf(["viewer", "operator"]);
+
+const strategyConfigSchema = obj({
+  symbols: symbolsSchema,
+  timeframe: oneOf(TIMEFRAMES),
+  strategy_id: optional(strategyId),
+  protections: optional(protectionsSchema),
+  trend_timeframe: optional(oneOf(TIMEFRAMES)),
+  strategy: obj({
+    name: str({ nonEmpty: true }),
+    enabled: bool(),
+    ma: maSchema,
+    rsi: obj({ period: period(), oversold: percent(), overbought: percent(), overbought_exit: optional(percent()) }),
+    macd: obj({ enabled: bool(), fast: period(), slow: period(), signal: period() }),
+    volume: optional(obj({ surge_ratio: num({ gt: 0 }), low_ratio: num({ min: 0 }) })),
+    funding_rate: optional(obj({ long_threshold: optional(num({ min: 0 })), short_threshold: optional(num({ min: 0 })) })),
+    indicators: optional(indicatorsSchema),
+  }),
+  signals: signalsSchema(false),
+  risk: riskSchema(false),
+  execution: obj({
+    order_type: oneOf(["market", "limit"]),
+    limit_order_offset_percent: num({ min: 0, max: 100 }),
+    min_order_usdt: num({ min: 0 }),
+    limit_order_timeout_seconds: num({ gt: 0 }),
+    limit_order_reprice_seconds: optional(num({ gt: 0 })),
+    limit_order_post_only: optional(bool()),
+    max_entry_slippage: optional(num({ min: 0, max: 1 })),
+    order_timeout_seconds: optional(num({ gt: 0 })),
+    max_exit_price_deviation: optional(num({ min: 0, max: 1 })),
+    exit_rejection_cooldown_seconds: optional(num({ min: 0 })),
+  }),
+  notify: obj({
+    on_signal: bool(),
+    on_trade: bool(),
+    on_stop_loss: bool(),
+    on_take_profit: bool(),
+    on_error: bool(),
+    on_daily_summary: bool(),
+    min_interval_minutes: num({ min: 0 }),
+  }),
+  news: obj({
+    enabled: bool(),
+    interval_hours: num({ gt: 0 }),
+    price_alert_threshold: num({ min: 0 }),
+    fear_greed_alert: num({ min: 0, max: 100 }),
+  }),
+  schedule: optional(record(obj({
+    enabled: bool(),
+    cron: str({ nonEmpty: true }),
+    timeout_minutes: num({ gt: 0 }),
+    script: optional(str({ nonEmpty: true })),
+  }))),
+  mode: oneOf(TRADE_MODES),
+  regime_overrides: optional(record(riskSchema(true))),
+  regime_strategies: optional(record(obj({ signals: signalsSchema(false) }))),
+  ensemble: optional(ensembleSchema),
+  grid: optional(gridSchema),
+  pairs: optional(pairsSchema),
+  hyperopt_space: optional(hyperoptSpaceSchema),
+  dashboard: optional(obj({
+    users: optional(arr(obj({ username: str({ nonEmpty: true }), password_hash: str({ nonEmpty: true }), role: dashboardRole }))),
+    tokens: optional(arr(obj({ name: str({ nonEmpty: true }), token_hash: str({ nonEmpty: true }), role: dashboardRole }))),
+    session_ttl_hours: optional(num({ gt: 0 })),
+    secure_cookie: optional(bool()),
+  })),
+  telegram: optional(obj({
+    chats: arr(obj({
+      chat_id: num({ int: true }),
+      name: optional(str({ nonEmpty: true })),
+      commands: arr((value, path, report) => {
+        if (typeof value !== "string" || !/^(read|control|trade|\*|\/[a-z_]+)$/.test(value)) {
+          report(path, `expected read, control, trade, "*" or a command like "/buy", got ${JSON.stringify(value)}`);
+        }
+      }, { min: 1 }),
+    })),
+    confirm_timeout_seconds: optional(num({ gt: 0 })),
+  })),
+  persistence: optional(obj({
+    backend: oneOf(["json", "sqlite"]),
+    sqlite_path: optional(str({ nonEmpty: true })),
+  })),
+});
+
+export function validateStrategyConfig(source: YamlSource): ConfigIssue[] {
+  return checkSource(source, strategyConfigSchema);
+}
+
+// ─────────────────────────────────────────────────────
+// config/strategies/*.yaml
+// ─────────────────────────────────────────────────────
+
+const strategyProfileSchema = obj({
+  name: str({ nonEmpty: true }),
+  description: optional(str()),
+  strategy_id: optional(strategyId),
+  symbols: optional(symbolsSchema),
+  timeframe: optional(oneOf(TIMEFRAMES)),
+  trend_timeframe: optional(oneOf(TIMEFRAMES)),
+  strategy: optional(obj({
+    ma: optional(maSchema),
+    rsi: optional(obj({
+      period: optional(period()),
+      oversold: optional(percent()),
+      overbought: optional(percent()),
+      overbought_exit: optional(percent()),
+    })),
+    macd: optional(obj({
+      enabled: optional(bool()),
+      fast: optional(period()),
+      slow: optional(period()),
+      signal: optional(period()),
+    })),
+    volume: optional(obj({ surge_ratio: optional(num({ gt: 0 })), low_ratio: optional(num({ min: 0 })) })),
+    indicators: optional(indicatorsSchema),
+  })),
+  signals: optional(signalsSchema(true)),
+  risk: optional(riskSchema(true)),
+  grid: optional(gridSchema),
+  pairs: optional(pairsSchema),
+  ensemble: optional(ensembleSchema),
+  hyperopt_space: optional(hyperoptSpaceSchema),
+});
+
+export function validateStrategyProfile(source: YamlSource): ConfigIssue[] {
+  return checkSource(source, strategyProfileSchema);
+}
+
+// ─────────────────────────────────────────────────────
+// paper.yaml / live.yaml
+// ─────────────────────────────────────────────────────
+
+function exchangeSchema(live: boolean): Check {
+  return obj({
+    name: field(oneOf(SUPPORTED_EXCHANGES), !live),
+    credentials_path: field(str({ nonEmpty: true }), !live),
+    testnet: optional(bool()),
+    market: oneOf(MARKETS),
+    futures: optional(obj({ contract_type: oneOf(["perpetual", "quarterly"]), margin_mode: oneOf(["isolated", "cross"]) })),
+    leverage: optional(obj({ enabled: bool(), default: num({ gt: 0 }), max: num({ gt: 0 }) })),
+  });
+}
+
+/** `profiles` = ids of config/strategies/*.yaml that scenarios may reference */
+export function validatePaperConfig(source: YamlSource, profiles: readonly string[]): ConfigIssue[] {
+  const scenario: Check = obj({
+    id: str({ nonEmpty: true }),
+    name: str({ nonEmpty: true }),
+    enabled: bool(),
+    strategy_id: (value, path, report) => {
+      str({ nonEmpty: true })(value, path, report);
+      if (typeof value === "string" && !profiles.includes(value)) {
+        report(path, `no strategy profile config/strategies/${value}.yaml (available: ${profiles.join(", ")})`);
+      }
+    },
+    initial_usdt: num({ gt: 0 }),
+    fee_rate: num({ min: 0, max: 1 }),
+    slippage_percent: num({ min: 0, max: 100 }),
+    exchange: exchangeSchema(false),
+    symbols: optional(symbolsSchema),
+    risk: optional(riskSchema(true)),
+  });
+
+  const schema = obj({
+    report_interval_hours: num({ gt: 0 }),
+    scenarios: (value, path, report) => {
+      arr(scenario)(value, path, report);
+      if (!Array.isArray(value)) return;
+      const seen = new Set<unknown>();
+      value.forEach((s: unknown, i) => {
+        const id = typeof s === "object" && s !== null ? (s as { id?: unknown }).id : undefined;
+        if (typeof id !== "string") return;
+        if (seen.has(id)) report([...path, i, "id"], `duplicate scenario id "${id}"`);
+        seen.add(id);
+      });
+    },
+  });
+  return checkSource(source, schema);
+}
+
+export function validateLiveConfig(source: YamlSource): ConfigIssue[] {
+  return checkSource(source, obj({
+    exchange: exchangeSchema(true),
+    symbols: optional(symbolsSchema),
+    risk: optional(riskSchema(true)),
+  }));
+}
+
+// ─────────────────────────────────────────────────────
+// Cross-file: short conditions need a market that can short
+// ─────────────────────────────────────────────────────
+
+function hasShortConditions(signals: { short?: string[]; cover?: string[] } | undefined): boolean {
+  return (signals?.short?.length ?? 0) > 0 || (signals?.cover?.length ?? 0) > 0;
+}
+
+/**
+ * Paper scenarios whose effective signals (profile, else strategy.yaml) include short / cover
+ * conditions must trade futures or margin. Scenarios referencing a missing profile are skipped
+ * (reported by validatePaperConfig).
+ */
+export function validatePaperShortMarkets(
+  paper: YamlSource,
+  base: StrategyConfig,
+  profiles: ReadonlyMap<string, StrategyProfile>
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const { scenarios } = paper.value as { scenarios: { strategy_id: string; exchange: { market: MarketType } }[] };
+  scenarios.forEach((s, i) => {
+    const profile = profiles.get(s.strategy_id);
+    if (!profile || SHORT_MARKETS.includes(s.exchange.market)) return;
+    // Same precedence as buildPaperRuntime: the profile's short / cover, else strategy.yaml's
+    const effective = {
+      short: profile.signals?.short ?? base.signals.short ?? [],
+      cover: profile.signals?.cover ?? base.signals.cover ?? [],
+    };
+    if (!hasShortConditions(effective)) return;
+    const fromProfile = hasShortConditions(profile.signals);
+    const source = fromProfile ? `config/strategies/${s.strategy_id}.yaml` : "config/strategy.yaml";
+    issues.push(issueAt(paper, ["scenarios", i, "exchange", "market"],
+      `short/cover conditions (from ${source}) need a futures or margin market, got "${s.exchange.market}"`));
+  });
+  return issues;
+}
+
+/** Live trading (mode: auto) uses strategy.yaml's signals on live.yaml's market */
+export function validateLiveShortMarket(live: YamlSource, base: StrategyConfig): ConfigIssue[] {
+  const { market } = (live.value as { exchange: { market: MarketType } }).exchange;
+  if (SHORT_MARKETS.includes(market) || !hasShortConditions(base.signals)) return [];
+  return [issueAt(live, ["exchange", "market"],
+    `short/cover conditions (from config/strategy.yaml) need a futures or margin market, got "${market}"`)];
+}
@@ -0,0 +1,190 @@
+/**
+ * Exchange Adapter Interface
+ *
+ * The order-execution surface that LiveExecutor, reconciliation and the orphan
+ * order scan are written against. Each venue implements it in its own client:
+ *   - "binance" -> BinanceClient (binance-client.ts)
+ *   - "okx"     -> OkxClient (okx-client.ts)
+ *
+ * All adapters speak the same normalized shapes:
+ * - Symbols use the Binance-style concatenated form (BTCUSDT); adapters translate internally
+ * - Quantities are always in BASE asset units (adapters convert to contracts etc.)
+ * - Order IDs are numeric; venues with string IDs map them via client order IDs
+ */
+
+import type { ExchangeConfig } from "../types.js";
+import { BinanceClient } from "./binance-client.js";
+import { OkxClient } from "./okx-client.js";
+
+// ─────────────────────────────────────────────────────
+// Normalized types
+// ─────────────────────────────────────────────────────
+
+export type OrderSide = "BUY" | "SELL";
+export type OrderStatus =
+  | "NEW"
+  | "PARTIALLY_FILLED"
+  | "FILLED"
+  | "CANCELED"
+  | "REJECTED"
+  | "EXPIRED";
+
+export interface OrderResponse {
+  symbol: string;
+  orderId: number;
+  clientOrderId: string;
+  transactTime: number;
+  price: string;
+  origQty: string;
+  executedQty: string;
+  status: OrderStatus;
+  type: string;
+  side: string;
+  fills?: { price: string; qty: string; commission: string; commissionAsset: string }[];
+}
+
+export interface AccountBalance {
+  asset: string;
+  free: string;   // Available balance
+  locked: string; // Frozen amount (in open orders)
+}
+
+export interface AccountInfo {
+  balances: AccountBalance[];
+  canTrade: boolean;
+  canWithdraw: boolean;
+  canDeposit: boolean;
+}
+
+export interface SymbolInfo {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  minQty: number;
+  maxQty: number;
+  stepSize: number;   // Quantity precision
+  tickSize: number;   // Price precision (PRICE_FILTER)
+  minNotional: number; // Minimum notional value (min USDT)
+  pricePrecision: number;
+  quantityPrecision: number;
+}
+
+/** Options for placeLimitOrder() */
+export interface LimitOrderOptions {
+  /**
+   * Maker-only placement (Binance spot LIMIT_MAKER / futures GTX, OKX post_only).
+   * An order that would take liquidity is rejected or expired by the venue instead of filling.
+   */
+  postOnly?: boolean;
+  /** Futures/swap only: reduce-only (exit orders must never open a new position) */
+  reduceOnly?: boolean;
+}
+
+/** Open position as reported by the exchange (futures / swap only) */
+export interface ExchangePosition {
+  symbol: string;
+  side: "long" | "short";
+  qty: number;       // Quantity (base asset)
+  avgPrice: number;  // Average price
+}
+
+// ─────────────────────────────────────────────────────
+// Adapter interface
+// ─────────────────────────────────────────────────────
+
+export interface ExchangeAdapter {
+  /** Venue name, matches ExchangeConfig.name ("binance" | "okx") */
+  readonly name: string;
+
+  /** Test connectivity; returns false instead of throwing */
+  ping(): Promise<boolean>;
+  getPrice(symbol: string): Promise<number>;
+  getSymbolInfo(symbol: string): Promise<SymbolInfo>;
+  getAccountInfo(): Promise<AccountInfo>;
+  /** Available USDT balance (works for both spot and derivatives accounts) */
+  getUsdtBalance(): Promise<number>;
+
+  /** Market buy for a USDT amount (quantity derived from current price, rounded down to stepSize) */
+  marketBuy(symbol: string, usdtAmount: number): Promise<OrderResponse>;
+  /** Market sell by BASE quantity (long exit / short entry) */
+  marketSell(symbol: string, quantity: number): Promise<OrderResponse>;
+  /** Market buy by BASE quantity (short cover) */
+  marketBuyByQty(symbol: string, quantity: number): Promise<OrderResponse>;
+  /**
+   * Limit order by BASE quantity; price / quantity are rounded to tickSize / stepSize.
+   * Returns the order as accepted (usually status NEW; a rejected post-only order may come back
+   * EXPIRED / CANCELED, or the venue may throw).
+   */
+  placeLimitOrder(
+    symbol: string,
+    side: OrderSide,
+    quantity: number,
+    price: number,
+    opts?: LimitOrderOptions
+  ): Promise<OrderResponse>;
+
+  /**
+   * Native stop-loss / take-profit orders.
+   * Adapters return orderId=-1 with status "LOCAL_ONLY" when the venue cannot hold the order,
+   * so callers fall back to local price polling.
+   */
+  placeStopLossOrder(
+    symbol: string,
+    side: OrderSide,
+    qty: number,
+    stopPrice: number,
+    limitPrice?: number
+  ): Promise<OrderResponse>;
+  placeTakeProfitOrder(
+    symbol: string,
+    side: OrderSide,
+    qty: number,
+    takeProfitPrice: number,
+    limitPrice?: number
+  ): Promise<OrderResponse>;
+
+  cancelOrder(symbol: string, orderId: number): Promise<OrderResponse>;
+  getOrder(symbol: string, orderId: number): Promise<OrderResponse>;
+  getOpenOrders(symbol?: string): Promise<OrderResponse[]>;
+
+  /** Open positions with non-zero size (spot adapters return []) */
+  getPositions(): Promise<ExchangePosition[]>;
+}
+
+// ─────────────────────────────────────────────────────
+// Factory
+// ─────────────────────────────────────────────────────
+
+/** Exchanges with a built-in adapter */
+export const SUPPORTED_EXCHANGES = ["binance", "okx"] as const;
+
+/** Default credentials file per exchange (used when credentials_path is not configured) */
+export function defaultCredentialsPath(name: string): string {
+  return `.secrets/${name}.json`;
+}
+
+/**
+ * Create the adapter selected by ExchangeConfig.name (default "binance").
+ * Throws for unknown exchange names so misconfiguration fails at startup, not at first order.
+ */
+export function createExchangeAdapter(exchange: ExchangeConfig): ExchangeAdapter {
+  const name = (exchange.name ?? "binance").toLowerCase();
+  const credsPath = exchange.credentials_path ?? defaultCredentialsPath(name);
+  const testnet = exchange.testnet ?? false;
+  const market = exchange.market === "futures" ? "futures" : "spot";
+
+  switch (name) {
+    case "binance":
+      return new BinanceClient(credsPath, testnet, market);
+    case "okx":
+      return new OkxClient(credsPath, {
+        demo: testnet,
+        market,
+        marginMode: exchange.futures?.margin_mode ?? "isolated",
+      });
+    default:
+      throw new Error(
+        `Unsupported exchange "${exchange.name ?? ""}" (supported: ${SUPPORTED_EXCHANGES.join(", ")})`
+      );
+  }
+}
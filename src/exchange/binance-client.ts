@@ -12,6 +12,17 @@
 import https from "https";
 import crypto from "crypto";
 import fs from "fs";
+import type {
+  ExchangeAdapter,
+  ExchangePosition,
+  LimitOrderOptions,
+  OrderSide,
+  OrderStatus,
+  OrderResponse,
+  AccountBalance,
+  AccountInfo,
+  SymbolInfo,
+} from "./adapter.js";
 
 // ─────────────────────────────────────────────────────
 // Token Bucket Rate Limiter
@@ -58,21 +69,16 @@ const globalRateLimiter = new RateLimiter(600);
 // Types
 // ─────────────────────────────────────────────────────
 
-export type OrderSide = "BUY" | "SELL";
+export type { OrderSide, OrderStatus, OrderResponse, AccountBalance, AccountInfo, SymbolInfo };
+
 export type BinanceOrderType =
   | "MARKET"
   | "LIMIT"
+  | "LIMIT_MAKER"           // Spot: post-only limit (rejected if it would match immediately)
   | "STOP_LOSS_LIMIT"       // Spot: places limit order after price trigger
   | "TAKE_PROFIT_LIMIT"     // Spot: take-profit limit
   | "STOP_MARKET"           // Futures: market close after price trigger (recommended)
   | "TAKE_PROFIT_MARKET";   // Futures: take-profit market
-export type OrderStatus =
-  | "NEW"
-  | "PARTIALLY_FILLED"
-  | "FILLED"
-  | "CANCELED"
-  | "REJECTED"
-  | "EXPIRED";
 
 export interface BinanceCredentials {
   apiKey: string;
@@ -86,52 +92,12 @@ export interface OrderRequest {
   quantity: number;
   price?: number;                        // Required for LIMIT orders
   stopPrice?: number;                    // Stop-loss/take-profit trigger price
-  timeInForce?: "GTC" | "IOC" | "FOK";  // Defaults to GTC for LIMIT orders
+  timeInForce?: "GTC" | "IOC" | "FOK" | "GTX"; // Defaults to GTC for LIMIT orders (GTX = futures post-only)
   newClientOrderId?: string;
   reduceOnly?: boolean;                  // Futures only: reduce-only (prevent accidental new positions)
   workingType?: "MARK_PRICE" | "CONTRACT_PRICE"; // Futures: stop trigger price type
 }
 
-export interface OrderResponse {
-  symbol: string;
-  orderId: number;
-  clientOrderId: string;
-  transactTime: number;
-  price: string;
-  origQty: string;
-  executedQty: string;
-  status: OrderStatus;
-  type: string;
-  side: string;
-  fills?: { price: string; qty: string; commission: string; commissionAsset: string }[];
-}
-
-export interface AccountBalance {
-  asset: string;
-  free: string;   // Available balance
-  locked: string; // Frozen amount (in open orders)
-}
-
-export interface AccountInfo {
-  balances: AccountBalance[];
-  canTrade: boolean;
-  canWithdraw: boolean;
-  canDeposit: boolean;
-}
-
-export interface SymbolInfo {
-  symbol: string;
-  baseAsset: string;
-  quoteAsset: string;
-  minQty: number;
-  maxQty: number;
-  stepSize: number;   // Quantity precision
-  tickSize: number;   // Price precision (PRICE_FILTER)
-  minNotional: number; // Minimum notional value (min USDT)
-  pricePrecision: number;
-  quantityPrecision: number;
-}
-
 // ─────────────────────────────────────────────────────
 // API Endpoint Configuration
 // ─────────────────────────────────────────────────────
@@ -271,7 +237,8 @@ async function httpsRequestWithRetry(
 // BinanceClient Class
 // ─────────────────────────────────────────────────────
 
-export class BinanceClient {
+export class BinanceClient implements ExchangeAdapter {
+  readonly name = "binance";
   private readonly hostname: string;
   private readonly apiPrefix: string;      // /api/v3 or /fapi/v1
   private readonly accountPrefix: string;  // /api/v3 or /fapi/v2 (Futures account uses v2)
@@ -421,6 +388,7 @@ export class BinanceClient {
       params["timeInForce"] = req.timeInForce ?? "GTC";
       if (req.price) params["price"] = req.price.toFixed(8);
     }
+    if (req.type === "LIMIT_MAKER" && req.price) params["price"] = req.price.toFixed(8);
     if (req.stopPrice) params["stopPrice"] = req.stopPrice.toFixed(8);
     if (req.newClientOrderId) params["newClientOrderId"] = req.newClientOrderId;
     if (req.reduceOnly) params["reduceOnly"] = "true";
@@ -592,6 +560,19 @@ export class BinanceClient {
     return raw as { symbol: string; positionAmt: string; entryPrice: string; unrealizedProfit: string }[];
   }
 
+  /** Normalized open positions (ExchangeAdapter): positionRisk filtered to positionAmt != 0 */
+  async getPositions(): Promise<ExchangePosition[]> {
+    const raw = await this.getFuturesPositions();
+    return raw
+      .filter((p) => parseFloat(p.positionAmt) !== 0)
+      .map((p) => ({
+        symbol: p.symbol,
+        side: parseFloat(p.positionAmt) > 0 ? ("long" as const) : ("short" as const),
+        qty: Math.abs(parseFloat(p.positionAmt)),
+        avgPrice: parseFloat(p.entryPrice),
+      }));
+  }
+
   /**
    * Market buy (USDT amount -> auto-calculate quantity)
    * Returns the actual filled OrderResponse
@@ -643,6 +624,43 @@ export class BinanceClient {
     return this.createOrder({ symbol, side: "BUY", type: "MARKET", quantity: qty });
   }
 
+  /**
+   * Limit order by BASE quantity (quantity rounded down to stepSize, price to tickSize)
+   * postOnly: Spot uses LIMIT_MAKER (rejected with an error if it would take),
+   *           Futures uses timeInForce=GTX (comes back EXPIRED if it would take)
+   */
+  async placeLimitOrder(
+    symbol: string,
+    side: OrderSide,
+    quantity: number,
+    price: number,
+    opts: LimitOrderOptions = {}
+  ): Promise<OrderResponse> {
+    const symbolInfo = await this.getSymbolInfo(symbol);
+    const qty = Math.floor(quantity / symbolInfo.stepSize) * symbolInfo.stepSize;
+    const limitPrice = this.roundToTickSize(price, symbolInfo.tickSize);
+    const postOnly = opts.postOnly ?? false;
+
+    if (this.market === "spot") {
+      return this.createOrder({
+        symbol,
+        side,
+        type: postOnly ? "LIMIT_MAKER" : "LIMIT",
+        quantity: qty,
+        price: limitPrice,
+      });
+    }
+    return this.createOrder({
+      symbol,
+      side,
+      type: "LIMIT",
+      quantity: qty,
+      price: limitPrice,
+      timeInForce: postOnly ? "GTX" : "GTC",
+      ...(opts.reduceOnly === true && { reduceOnly: true }),
+    });
+  }
+
   /**
    * Test connection (ping)
    * Returns true if API Key is valid and connectivity works
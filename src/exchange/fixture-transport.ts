@@ -0,0 +1,90 @@
+/**
+ * Recorded-fixture transport for exchange adapters
+ *
+ * Replays previously recorded REST responses so adapter and executor tests run offline.
+ * Fixtures are plain JSON: one entry per request, matched by method + path (+ optional query subset).
+ *
+ * Matching rules:
+ * - Entries are consumed in order (first unconsumed match wins), so a sequence like
+ *   "order live" -> "order filled" replays naturally
+ * - `persist: true` entries are never consumed (e.g. instrument metadata, server time)
+ * - Unmatched requests throw, so a test never silently talks to a real exchange
+ *
+ * Recording: wrap the real transport with recordingTransport() and write `entries` to a JSON file.
+ */
+
+import fs from "fs";
+import type { OkxRequest, OkxTransport } from "./okx-client.js";
+
+export interface FixtureEntry {
+  method: "GET" | "POST";
+  /** Path without query string (e.g. /api/v5/trade/order) */
+  path: string;
+  /** Query parameters that must match (subset); omitted = any query */
+  query?: Record<string, string>;
+  /** Never consumed when true */
+  persist?: boolean;
+  response: unknown;
+}
+
+export interface FixtureTransport extends OkxTransport {
+  /** Requests received so far (method, path with query, parsed body) */
+  readonly calls: { method: string; path: string; body: unknown }[];
+  /** Entries that were never matched (useful to assert a scenario ran to completion) */
+  pending(): FixtureEntry[];
+}
+
+function splitPath(fullPath: string): { path: string; query: URLSearchParams } {
+  const [p = "", qs = ""] = fullPath.split("?");
+  return { path: p, query: new URLSearchParams(qs) };
+}
+
+/** Build a replaying transport from fixture entries (or a JSON fixture file path) */
+export function createFixtureTransport(source: FixtureEntry[] | string): FixtureTransport {
+  const entries: FixtureEntry[] =
+    typeof source === "string" ? (JSON.parse(fs.readFileSync(source, "utf-8")) as FixtureEntry[]) : source;
+  const consumed = new Set<number>();
+  const calls: FixtureTransport["calls"] = [];
+
+  const transport = (req: OkxRequest): Promise<unknown> => {
+    const { path, query } = splitPath(req.path);
+    calls.push({ method: req.method, path: req.path, body: req.body ? (JSON.parse(req.body) as unknown) : undefined });
+
+    const idx = entries.findIndex((e, i) =>
+      !consumed.has(i) &&
+      e.method === req.method &&
+      e.path === path &&
+      Object.entries(e.query ?? {}).every(([k, v]) => query.get(k) === v)
+    );
+    const entry = entries[idx];
+    if (!entry) {
+      return Promise.reject(new Error(`No fixture for ${req.method} ${req.path}`));
+    }
+    if (!entry.persist) consumed.add(idx);
+    // Deep copy so callers cannot mutate the fixture
+    return Promise.resolve(JSON.parse(JSON.stringify(entry.response)) as unknown);
+  };
+
+  return Object.assign(transport, {
+    calls,
+    pending: () => entries.filter((e, i) => !e.persist && !consumed.has(i)),
+  });
+}
+
+/**
+ * Wrap a live transport and record every request/response pair into `sink`
+ * (write it out with JSON.stringify to create a fixture file).
+ */
+export function recordingTransport(inner: OkxTransport, sink: FixtureEntry[]): OkxTransport {
+  return async (req) => {
+    const response = await inner(req);
+    const { path, query } = splitPath(req.path);
+    sink.push({
+      method: req.method,
+      path,
+      ...(query.size > 0 ? { query: Object.fromEntries(query) } : {}),
+      response,
+    });
+    return response;
+  };
+}
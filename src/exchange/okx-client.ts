@@ -0,0 +1,704 @@
+/**
+ * OKX v5 REST API Client (ExchangeAdapter)
+ *
+ * Supports:
+ * - Spot (tdMode=cash) and USDT-margined perpetual swaps (tdMode=isolated/cross)
+ * - Demo trading (x-simulated-trading: 1 header, same host)
+ * - OK-ACCESS-SIGN: base64(HMAC-SHA256(secret, timestamp + method + requestPath + body))
+ *
+ * Normalization (see adapter.ts):
+ * - BTCUSDT <-> BTC-USDT (spot) / BTC-USDT-SWAP (futures)
+ * - Swap sizes are in contracts; converted to/from BASE quantity via ctVal
+ * - OKX ordIds exceed Number.MAX_SAFE_INTEGER, so every order is placed with a numeric
+ *   client order ID ("oc" + id) and queried/cancelled by that ID. Conditional (algo)
+ *   orders get odd IDs and regular orders even IDs, so routing survives a restart.
+ *
+ * Credentials format: { "apiKey": "xxx", "secretKey": "yyy", "passphrase": "zzz" }
+ */
+
+import https from "https";
+import crypto from "crypto";
+import fs from "fs";
+import type { MarginMode } from "../types.js";
+import type {
+  ExchangeAdapter,
+  ExchangePosition,
+  LimitOrderOptions,
+  OrderResponse,
+  OrderSide,
+  OrderStatus,
+  AccountInfo,
+  SymbolInfo,
+} from "./adapter.js";
+
+// ─────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────
+
+export interface OkxCredentials {
+  apiKey: string;
+  secretKey: string;
+  passphrase: string;
+}
+
+export interface OkxRequest {
+  method: "GET" | "POST";
+  /** Request path including query string (e.g. /api/v5/market/ticker?instId=BTC-USDT) */
+  path: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/** Sends a request and returns the parsed JSON envelope; swapped for fixtures in tests */
+export type OkxTransport = (req: OkxRequest) => Promise<unknown>;
+
+export interface OkxClientOptions {
+  /** true = demo trading (simulated funds) */
+  demo?: boolean;
+  market?: "spot" | "futures";
+  /** Swap margin mode (ignored for spot) */
+  marginMode?: MarginMode;
+  /** Custom transport (default: HTTPS to www.okx.com) */
+  transport?: OkxTransport;
+  /** Delay between order status polls after placement (ms, default 250; tests use 0) */
+  orderPollMs?: number;
+}
+
+interface OkxEnvelope {
+  code: string;
+  msg: string;
+  data: unknown[];
+}
+
+interface OkxInstrument {
+  instId: string;
+  baseCcy: string;
+  quoteCcy: string;
+  settleCcy: string;
+  ctVal: string;
+  lotSz: string;
+  minSz: string;
+  maxMktSz?: string;
+  tickSz: string;
+}
+
+interface OkxOrder {
+  ordId: string;
+  clOrdId: string;
+  instId: string;
+  side: string;
+  ordType: string;
+  px: string;
+  sz: string;
+  avgPx: string;
+  accFillSz: string;
+  state: string;
+  fee: string;
+  feeCcy: string;
+  cTime: string;
+  uTime: string;
+}
+
+interface OkxAlgoOrder {
+  algoId: string;
+  algoClOrdId: string;
+  instId: string;
+  side: string;
+  ordType: string;
+  sz: string;
+  state: string;
+  slTriggerPx: string;
+  tpTriggerPx: string;
+  actualPx: string;
+  actualSz: string;
+  cTime: string;
+  uTime?: string;
+}
+
+/** OKX API error (code != "0") */
+export class OkxApiError extends Error {
+  constructor(
+    readonly code: string,
+    message: string
+  ) {
+    super(`OKX API Error ${code}: ${message}`);
+    this.name = "OkxApiError";
+  }
+}
+
+// ─────────────────────────────────────────────────────
+// Signing & symbol helpers (exported for testing)
+// ─────────────────────────────────────────────────────
+
+const OKX_HOST = "www.okx.com";
+const QUOTE_ASSETS = ["USDT", "USDC", "BTC", "ETH"] as const;
+
+/** OK-ACCESS-SIGN = base64(HMAC-SHA256(secret, timestamp + METHOD + requestPath + body)) */
+export function signOkxRequest(
+  secretKey: string,
+  timestamp: string,
+  method: string,
+  requestPath: string,
+  body = ""
+): string {
+  return crypto
+    .createHmac("sha256", secretKey)
+    .update(timestamp + method.toUpperCase() + requestPath + body)
+    .digest("base64");
+}
+
+/** BTCUSDT -> BTC-USDT (spot) / BTC-USDT-SWAP (futures) */
+export function toOkxInstId(symbol: string, market: "spot" | "futures"): string {
+  const quote = QUOTE_ASSETS.find((q) => symbol.endsWith(q) && symbol.length > q.length);
+  if (!quote) throw new Error(`Cannot map symbol ${symbol} to OKX instId (unknown quote asset)`);
+  const pair = `${symbol.slice(0, -quote.length)}-${quote}`;
+  return market === "futures" ? `${pair}-SWAP` : pair;
+}
+
+/** BTC-USDT / BTC-USDT-SWAP -> BTCUSDT */
+export function fromOkxInstId(instId: string): string {
+  return instId.replace(/-SWAP$/, "").replace("-", "");
+}
+
+function decimalsOf(step: number): number {
+  return Math.max(0, Math.round(-Math.log10(step)));
+}
+
+/** Format to the step's precision without trailing zeros ("1.00" -> "1", "0.0100" -> "0.01") */
+function formatSize(value: number, step: number): string {
+  const fixed = value.toFixed(decimalsOf(step));
+  return fixed.includes(".") ? fixed.replace(/0+$/, "").replace(/\.$/, "") : fixed;
+}
+
+// ─────────────────────────────────────────────────────
+// Default HTTPS transport (with retry on 429/5xx/network errors)
+// ─────────────────────────────────────────────────────
+
+const MAX_RETRIES = 3;
+
+/** Status polls after a market order before returning its last known state (~2.5s at 250ms) */
+const MARKET_SETTLE_POLLS = 10;
+/** Status polls after a limit order: long enough to see an immediate fill or post-only cancel */
+const LIMIT_SETTLE_POLLS = 2;
+
+function httpsTransportOnce(req: OkxRequest): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const request = https.request(
+      {
+        hostname: OKX_HOST,
+        path: req.path,
+        method: req.method,
+        headers: {
+          "Content-Type": "application/json",
+          ...req.headers,
+          ...(req.body ? { "Content-Length": String(Buffer.byteLength(req.body)) } : {}),
+        },
+      },
+      (res) => {
+        let data = "";
+        res.on("data", (chunk) => (data += chunk));
+        res.on("end", () => {
+          if (res.statusCode === 429) {
+            reject(new Error(`OKX rate limit hit (HTTP 429)`));
+            return;
+          }
+          if (res.statusCode !== undefined && res.statusCode >= 500) {
+            reject(new Error(`OKX server error (HTTP ${res.statusCode})`));
+            return;
+          }
+          try {
+            resolve(JSON.parse(data) as unknown);
+          } catch (_e: unknown) {
+            reject(new Error(`Failed to parse OKX response: ${data.slice(0, 200)}`));
+          }
+        });
+      }
+    );
+    request.on("error", reject);
+    request.setTimeout(10000, () => {
+      request.destroy(new Error("OKX API timeout"));
+    });
+    if (req.body) request.write(req.body);
+    request.end();
+  });
+}
+
+export const httpsOkxTransport: OkxTransport = async (req) => {
+  let lastError: Error | undefined;
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    try {
+      return await httpsTransportOnce(req);
+    } catch (err: unknown) {
+      lastError = err instanceof Error ? err : new Error(String(err));
+      const msg = lastError.message;
+      const retryable =
+        msg.includes("rate limit hit") || msg.includes("HTTP 5") || msg.includes("timeout") ||
+        msg.includes("ECONNRESET") || msg.includes("ECONNREFUSED") || msg.includes("ETIMEDOUT");
+      if (!retryable || attempt >= MAX_RETRIES) break;
+      await new Promise<void>((r) => setTimeout(r, 1000 * Math.pow(2, attempt))); // 1s, 2s, 4s
+    }
+  }
+  throw lastError ?? new Error("OKX request failed");
+};
+
+// ─────────────────────────────────────────────────────
+// OkxClient Class
+// ─────────────────────────────────────────────────────
+
+let _clientIdSeq = 0;
+
+export class OkxClient implements ExchangeAdapter {
+  readonly name = "okx";
+  private readonly creds: OkxCredentials;
+  private readonly demo: boolean;
+  private readonly market: "spot" | "futures";
+  private readonly tdMode: "cash" | "isolated" | "cross";
+  private readonly transport: OkxTransport;
+  private readonly orderPollMs: number;
+  private readonly instruments = new Map<string, OkxInstrument>();
+
+  /**
+   * @param credentials  JSON file path containing { apiKey, secretKey, passphrase }, or the credentials object
+   */
+  constructor(credentials: string | OkxCredentials, options: OkxClientOptions = {}) {
+    if (typeof credentials === "string") {
+      const parsed: unknown = JSON.parse(fs.readFileSync(credentials, "utf-8"));
+      if (
+        typeof parsed !== "object" || parsed === null ||
+        typeof (parsed as Record<string, unknown>)["apiKey"] !== "string" ||
+        typeof (parsed as Record<string, unknown>)["secretKey"] !== "string" ||
+        typeof (parsed as Record<string, unknown>)["passphrase"] !== "string"
+      ) {
+        throw new Error(`Invalid credentials file (missing apiKey/secretKey/passphrase): ${credentials}`);
+      }
+      this.creds = parsed as OkxCredentials;
+    } else {
+      this.creds = credentials;
+    }
+    this.demo = options.demo ?? false;
+    this.market = options.market ?? "spot";
+    this.tdMode = this.market === "futures" ? (options.marginMode ?? "isolated") : "cash";
+    this.transport = options.transport ?? httpsOkxTransport;
+    this.orderPollMs = options.orderPollMs ?? 250;
+  }
+
+  // ── Request plumbing ──────────────────────────────────────────
+
+  private async request<T>(
+    method: "GET" | "POST",
+    path: string,
+    params: Record<string, string> | Record<string, string>[] = {},
+    signed = true
+  ): Promise<T[]> {
+    let requestPath = path;
+    let body = "";
+    if (method === "GET") {
+      const qs = new URLSearchParams(params as Record<string, string>).toString();
+      if (qs) requestPath = `${path}?${qs}`;
+    } else {
+      body = JSON.stringify(params);
+    }
+
+    const headers: Record<string, string> = {};
+    if (this.demo) headers["x-simulated-trading"] = "1";
+    if (signed) {
+      const timestamp = new Date().toISOString();
+      headers["OK-ACCESS-KEY"] = this.creds.apiKey;
+      headers["OK-ACCESS-SIGN"] = signOkxRequest(this.creds.secretKey, timestamp, method, requestPath, body);
+      headers["OK-ACCESS-TIMESTAMP"] = timestamp;
+      headers["OK-ACCESS-PASSPHRASE"] = this.creds.passphrase;
+    }
+
+    const raw = (await this.transport({
+      method,
+      path: requestPath,
+      headers,
+      ...(body ? { body } : {}),
+    })) as OkxEnvelope;
+    if (raw.code !== "0") {
+      // Batch-style endpoints report the per-item reason in data[0].sMsg
+      const item = raw.data[0] as { sCode?: string; sMsg?: string } | undefined;
+      throw new OkxApiError(item?.sCode ?? raw.code, item?.sMsg ?? raw.msg);
+    }
+    return raw.data as T[];
+  }
+
+  private instType(): "SPOT" | "SWAP" {
+    return this.market === "futures" ? "SWAP" : "SPOT";
+  }
+
+  private async getInstrument(instId: string): Promise<OkxInstrument> {
+    const cached = this.instruments.get(instId);
+    if (cached) return cached;
+    const instType = instId.endsWith("-SWAP") ? "SWAP" : "SPOT";
+    const [inst] = await this.request<OkxInstrument>(
+      "GET", "/api/v5/public/instruments", { instType, instId }, false
+    );
+    if (!inst) throw new Error(`Symbol ${instId} not found`);
+    this.instruments.set(instId, inst);
+    return inst;
+  }
+
+  /** Contract value in base units (1 for spot) */
+  private contractValue(inst: OkxInstrument): number {
+    return inst.instId.endsWith("-SWAP") ? parseFloat(inst.ctVal) || 1 : 1;
+  }
+
+  /** Next numeric client order ID: even = regular order, odd = algo order */
+  private nextClientId(kind: "order" | "algo"): number {
+    _clientIdSeq = (_clientIdSeq + 1) % 500;
+    return Date.now() * 1000 + _clientIdSeq * 2 + (kind === "algo" ? 1 : 0);
+  }
+
+  private static parseClientId(clOrdId: string, fallback: string): number {
+    const m = /^oc(\d+)$/.exec(clOrdId);
+    // Orders not placed by this client (manual trades) fall back to the lossy numeric ordId
+    return m?.[1] ? Number(m[1]) : Number(fallback);
+  }
+
+  // ── Normalization ──────────────────────────────────────────
+
+  private async normalizeOrder(o: OkxOrder): Promise<OrderResponse> {
+    const inst = await this.getInstrument(o.instId);
+    const ctVal = this.contractValue(inst);
+    const filledBase = (parseFloat(o.accFillSz) || 0) * ctVal;
+    const avgPx = parseFloat(o.avgPx) || 0;
+    // OKX reports fees as negative numbers; spot buys are charged in base currency
+    const feeAbs = Math.abs(parseFloat(o.fee) || 0);
+    const feeUsdt = o.feeCcy === inst.baseCcy ? feeAbs * avgPx : feeAbs;
+    const statusMap: Record<string, OrderStatus> = {
+      live: "NEW",
+      partially_filled: "PARTIALLY_FILLED",
+      filled: "FILLED",
+      canceled: "CANCELED",
+      mmp_canceled: "CANCELED",
+    };
+    return {
+      symbol: fromOkxInstId(o.instId),
+      orderId: OkxClient.parseClientId(o.clOrdId, o.ordId),
+      clientOrderId: o.clOrdId,
+      transactTime: Number(o.uTime || o.cTime),
+      price: String(avgPx || parseFloat(o.px) || 0),
+      origQty: String((parseFloat(o.sz) || 0) * ctVal),
+      executedQty: String(filledBase),
+      status: statusMap[o.state] ?? "NEW",
+      type: o.ordType.toUpperCase(),
+      side: o.side.toUpperCase(),
+      ...(filledBase > 0 && {
+        fills: [{
+          price: String(avgPx),
+          qty: String(filledBase),
+          commission: String(feeUsdt),
+          commissionAsset: inst.quoteCcy,
+        }],
+      }),
+    };
+  }
+
+  private async normalizeAlgo(a: OkxAlgoOrder): Promise<OrderResponse> {
+    const inst = await this.getInstrument(a.instId);
+    const ctVal = this.contractValue(inst);
+    const statusMap: Record<string, OrderStatus> = {
+      live: "NEW",
+      pause: "NEW",
+      partially_effective: "PARTIALLY_FILLED",
+      effective: "FILLED",
+      canceled: "CANCELED",
+      order_failed: "REJECTED",
+    };
+    const status = statusMap[a.state] ?? "NEW";
+    const triggerPx = parseFloat(a.slTriggerPx) || parseFloat(a.tpTriggerPx) || 0;
+    const fillPx = parseFloat(a.actualPx) || triggerPx;
+    const filledBase = status === "FILLED" ? (parseFloat(a.actualSz) || parseFloat(a.sz)) * ctVal : 0;
+    return {
+      symbol: fromOkxInstId(a.instId),
+      orderId: OkxClient.parseClientId(a.algoClOrdId, a.algoId),
+      clientOrderId: a.algoClOrdId,
+      transactTime: Number(a.uTime ?? a.cTime),
+      price: String(fillPx),
+      origQty: String((parseFloat(a.sz) || 0) * ctVal),
+      executedQty: String(filledBase),
+      status,
+      type: parseFloat(a.slTriggerPx) ? "STOP_MARKET" : "TAKE_PROFIT_MARKET",
+      side: a.side.toUpperCase(),
+      // Fees of the triggered child order are not reported on the algo order
+      ...(filledBase > 0 && {
+        fills: [{ price: String(fillPx), qty: String(filledBase), commission: "0", commissionAsset: inst.quoteCcy }],
+      }),
+    };
+  }
+
+  // ── Public endpoints ──────────────────────────────────────────
+
+  async ping(): Promise<boolean> {
+    try {
+      await this.request("GET", "/api/v5/public/time", {}, false);
+      return true;
+    } catch (_e: unknown) {
+      return false;
+    }
+  }
+
+  async getPrice(symbol: string): Promise<number> {
+    const instId = toOkxInstId(symbol, this.market);
+    const [ticker] = await this.request<{ last: string }>(
+      "GET", "/api/v5/market/ticker", { instId }, false
+    );
+    if (!ticker) throw new Error(`No ticker for ${instId}`);
+    return parseFloat(ticker.last);
+  }
+
+  async getSymbolInfo(symbol: string): Promise<SymbolInfo> {
+    const inst = await this.getInstrument(toOkxInstId(symbol, this.market));
+    const ctVal = this.contractValue(inst);
+    const stepSize = parseFloat(inst.lotSz) * ctVal;
+    const tickSize = parseFloat(inst.tickSz);
+    return {
+      symbol,
+      baseAsset: inst.baseCcy !== "" ? inst.baseCcy : (inst.instId.split("-")[0] ?? ""),
+      quoteAsset: inst.quoteCcy !== "" ? inst.quoteCcy : inst.settleCcy,
+      minQty: parseFloat(inst.minSz) * ctVal,
+      maxQty: parseFloat(inst.maxMktSz ?? "0") * ctVal || Number.MAX_SAFE_INTEGER,
+      stepSize,
+      tickSize,
+      minNotional: 0, // OKX enforces minSz only, no notional floor
+      pricePrecision: decimalsOf(tickSize),
+      quantityPrecision: decimalsOf(stepSize),
+    };
+  }
+
+  // ── Account ──────────────────────────────────────────
+
+  async getAccountInfo(): Promise<AccountInfo> {
+    const [account] = await this.request<{ details: { ccy: string; availBal: string; frozenBal: string }[] }>(
+      "GET", "/api/v5/account/balance"
+    );
+    return {
+      canTrade: true,
+      canWithdraw: true,
+      canDeposit: true,
+      balances: (account?.details ?? []).map((d) => ({
+        asset: d.ccy,
+        free: d.availBal,
+        locked: d.frozenBal,
+      })),
+    };
+  }
+
+  async getUsdtBalance(): Promise<number> {
+    const info = await this.getAccountInfo();
+    const usdt = info.balances.find((b) => b.asset === "USDT");
+    return usdt ? parseFloat(usdt.free) : 0;
+  }
+
+  async getPositions(): Promise<ExchangePosition[]> {
+    if (this.market !== "futures") return [];
+    const raw = await this.request<{ instId: string; pos: string; posSide: string; avgPx: string }>(
+      "GET", "/api/v5/account/positions", { instType: "SWAP" }
+    );
+    const result: ExchangePosition[] = [];
+    for (const p of raw) {
+      const contracts = parseFloat(p.pos);
+      if (!contracts) continue;
+      const inst = await this.getInstrument(p.instId);
+      const isShort = p.posSide === "short" || (p.posSide === "net" && contracts < 0);
+      result.push({
+        symbol: fromOkxInstId(p.instId),
+        side: isShort ? "short" : "long",
+        qty: Math.abs(contracts) * this.contractValue(inst),
+        avgPrice: parseFloat(p.avgPx),
+      });
+    }
+    return result;
+  }
+
+  // ── Orders ──────────────────────────────────────────
+
+  /**
+   * Read back a just-placed order until it leaves the "live" / "partially_filled" states or the
+   * poll budget runs out. OKX acknowledges orders before matching them, so the first read of a
+   * market order can still report no fill (Binance's FULL response has already waited for it).
+   */
+  private async awaitSettled(symbol: string, id: number, polls: number): Promise<OrderResponse> {
+    let order = await this.getOrder(symbol, id);
+    for (let i = 0; i < polls && (order.status === "NEW" || order.status === "PARTIALLY_FILLED"); i++) {
+      await new Promise<void>((r) => setTimeout(r, this.orderPollMs));
+      order = await this.getOrder(symbol, id);
+    }
+    return order;
+  }
+
+  /** Place a market order for a BASE quantity, then read back the fill once it has settled */
+  private async placeMarketOrder(symbol: string, side: OrderSide, quantity: number): Promise<OrderResponse> {
+    const instId = toOkxInstId(symbol, this.market);
+    const inst = await this.getInstrument(instId);
+    const lotSz = parseFloat(inst.lotSz);
+    const contracts = Math.floor(quantity / this.contractValue(inst) / lotSz) * lotSz;
+    const id = this.nextClientId("order");
+    await this.request("POST", "/api/v5/trade/order", {
+      instId,
+      tdMode: this.tdMode,
+      side: side === "BUY" ? "buy" : "sell",
+      ordType: "market",
+      sz: formatSize(contracts, lotSz),
+      clOrdId: `oc${id}`,
+      // Spot market buys default to quote-currency size
+      ...(this.market === "spot" ? { tgtCcy: "base_ccy" } : {}),
+    });
+    return this.awaitSettled(symbol, id, MARKET_SETTLE_POLLS);
+  }
+
+  async marketBuy(symbol: string, usdtAmount: number): Promise<OrderResponse> {
+    const symbolInfo = await this.getSymbolInfo(symbol);
+    const price = await this.getPrice(symbol);
+    const qty = Math.floor(usdtAmount / price / symbolInfo.stepSize) * symbolInfo.stepSize;
+    if (qty < symbolInfo.minQty) {
+      throw new Error(`Buy amount $${usdtAmount} is below minimum size ${symbolInfo.minQty} ${symbol}`);
+    }
+    return this.placeMarketOrder(symbol, "BUY", qty);
+  }
+
+  async marketSell(symbol: string, quantity: number): Promise<OrderResponse> {
+    return this.placeMarketOrder(symbol, "SELL", quantity);
+  }
+
+  async marketBuyByQty(symbol: string, quantity: number): Promise<OrderResponse> {
+    return this.placeMarketOrder(symbol, "BUY", quantity);
+  }
+
+  /** Limit order (ordType=post_only when postOnly; OKX cancels a post-only order that would take) */
+  async placeLimitOrder(
+    symbol: string,
+    side: OrderSide,
+    quantity: number,
+    price: number,
+    opts: LimitOrderOptions = {}
+  ): Promise<OrderResponse> {
+    const instId = toOkxInstId(symbol, this.market);
+    const inst = await this.getInstrument(instId);
+    const lotSz = parseFloat(inst.lotSz);
+    const tickSz = parseFloat(inst.tickSz);
+    const contracts = Math.floor(quantity / this.contractValue(inst) / lotSz) * lotSz;
+    const id = this.nextClientId("order");
+    await this.request("POST", "/api/v5/trade/order", {
+      instId,
+      tdMode: this.tdMode,
+      side: side === "BUY" ? "buy" : "sell",
+      ordType: opts.postOnly === true ? "post_only" : "limit",
+      sz: formatSize(contracts, lotSz),
+      px: formatSize(Math.round(price / tickSz) * tickSz, tickSz),
+      clOrdId: `oc${id}`,
+      ...(this.market === "futures" && opts.reduceOnly === true ? { reduceOnly: "true" } : {}),
+    });
+    return this.awaitSettled(symbol, id, LIMIT_SETTLE_POLLS);
+  }
+
+  /** Conditional (algo) order: market execution once the trigger price is crossed */
+  private async placeConditional(
+    symbol: string,
+    side: OrderSide,
+    qty: number,
+    kind: "sl" | "tp",
+    triggerPrice: number,
+    limitPrice?: number
+  ): Promise<OrderResponse> {
+    const instId = toOkxInstId(symbol, this.market);
+    const inst = await this.getInstrument(instId);
+    const lotSz = parseFloat(inst.lotSz);
+    const tickSz = parseFloat(inst.tickSz);
+    const contracts = Math.floor(qty / this.contractValue(inst) / lotSz) * lotSz;
+    const trigger = formatSize(Math.round(triggerPrice / tickSz) * tickSz, tickSz);
+    const ordPx = limitPrice !== undefined ? formatSize(Math.round(limitPrice / tickSz) * tickSz, tickSz) : "-1";
+    const id = this.nextClientId("algo");
+    await this.request("POST", "/api/v5/trade/order-algo", {
+      instId,
+      tdMode: this.tdMode,
+      side: side === "BUY" ? "buy" : "sell",
+      ordType: "conditional",
+      sz: formatSize(contracts, lotSz),
+      algoClOrdId: `oc${id}`,
+      ...(kind === "sl" ? { slTriggerPx: trigger, slOrdPx: ordPx } : { tpTriggerPx: trigger, tpOrdPx: ordPx }),
+      ...(this.market === "futures" ? { reduceOnly: "true" } : {}),
+    });
+    return {
+      symbol,
+      orderId: id,
+      clientOrderId: `oc${id}`,
+      transactTime: Date.now(),
+      price: trigger,
+      origQty: String(contracts * this.contractValue(inst)),
+      executedQty: "0",
+      status: "NEW",
+      type: kind === "sl" ? "STOP_MARKET" : "TAKE_PROFIT_MARKET",
+      side,
+    };
+  }
+
+  async placeStopLossOrder(
+    symbol: string,
+    side: OrderSide,
+    qty: number,
+    stopPrice: number,
+    limitPrice?: number
+  ): Promise<OrderResponse> {
+    return this.placeConditional(symbol, side, qty, "sl", stopPrice, limitPrice);
+  }
+
+  async placeTakeProfitOrder(
+    symbol: string,
+    side: OrderSide,
+    qty: number,
+    takeProfitPrice: number,
+    limitPrice?: number
+  ): Promise<OrderResponse> {
+    return this.placeConditional(symbol, side, qty, "tp", takeProfitPrice, limitPrice);
+  }
+
+  private static isAlgoId(orderId: number): boolean {
+    return orderId % 2 === 1;
+  }
+
+  async getOrder(symbol: string, orderId: number): Promise<OrderResponse> {
+    const instId = toOkxInstId(symbol, this.market);
+    if (OkxClient.isAlgoId(orderId)) {
+      const [algo] = await this.request<OkxAlgoOrder>(
+        "GET", "/api/v5/trade/order-algo", { algoClOrdId: `oc${orderId}` }
+      );
+      if (!algo) throw new Error(`OKX algo order oc${orderId} not found`);
+      return this.normalizeAlgo(algo);
+    }
+    const [order] = await this.request<OkxOrder>(
+      "GET", "/api/v5/trade/order", { instId, clOrdId: `oc${orderId}` }
+    );
+    if (!order) throw new Error(`OKX order oc${orderId} not found`);
+    return this.normalizeOrder(order);
+  }
+
+  async cancelOrder(symbol: string, orderId: number): Promise<OrderResponse> {
+    const instId = toOkxInstId(symbol, this.market);
+    if (OkxClient.isAlgoId(orderId)) {
+      const current = await this.request<OkxAlgoOrder>(
+        "GET", "/api/v5/trade/order-algo", { algoClOrdId: `oc${orderId}` }
+      );
+      const algoId = current[0]?.algoId;
+      if (!algoId) throw new Error(`OKX algo order oc${orderId} not found`);
+      await this.request("POST", "/api/v5/trade/cancel-algos", [{ instId, algoId }]);
+    } else {
+      await this.request("POST", "/api/v5/trade/cancel-order", { instId, clOrdId: `oc${orderId}` });
+    }
+    return this.getOrder(symbol, orderId);
+  }
+
+  async getOpenOrders(symbol?: string): Promise<OrderResponse[]> {
+    const filter: Record<string, string> = { instType: this.instType() };
+    if (symbol) filter["instId"] = toOkxInstId(symbol, this.market);
+    const orders = await this.request<OkxOrder>("GET", "/api/v5/trade/orders-pending", filter);
+    const algos = await this.request<OkxAlgoOrder>(
+      "GET", "/api/v5/trade/orders-algo-pending", { ...filter, ordType: "conditional" }
+    );
+    const result: OrderResponse[] = [];
+    for (const o of orders) result.push(await this.normalizeOrder(o));
+    for (const a of algos) result.push(await this.normalizeAlgo(a));
+    return result;
+  }
+}
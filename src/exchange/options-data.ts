@@ -16,9 +16,9 @@
  */
 
 import https from "https";
-import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { readStateDocument, writeStateDocument } from "../persistence/store.js";
 
 // Force IPv4 (when server IPv6 is unreachable)
 const ipv4Agent = new https.Agent({ family: 4 } as https.AgentOptions);
@@ -213,20 +213,14 @@ interface OptionsCache {
 }
 
 export function readOptionsCache(): OptionsCache {
-  try {
-    const raw = fs.readFileSync(OPTIONS_CACHE_PATH, "utf-8");
-    return JSON.parse(raw) as OptionsCache;
-  } catch {
-    return {};
-  }
+  return readStateDocument<OptionsCache>("cache", "options", OPTIONS_CACHE_PATH) ?? {};
 }
 
 export function writeOptionsCache(summary: OptionsSummary): void {
   try {
-    fs.mkdirSync(path.dirname(OPTIONS_CACHE_PATH), { recursive: true });
     const existing = readOptionsCache();
     existing[summary.symbol] = summary;
-    fs.writeFileSync(OPTIONS_CACHE_PATH, JSON.stringify(existing, null, 2));
+    writeStateDocument("cache", "options", OPTIONS_CACHE_PATH, existing);
   } catch { /* Silently skip on write failure */ }
 }
 
@@ -23,10 +23,10 @@
  * more accurate tick-level CVD that can override indicators.cvd in monitor.ts.
  */
 
-import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
 import { createLogger } from "../logger.js";
+import { readStateDocument, writeStateDocument } from "../persistence/store.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const CVD_CACHE_PATH = path.resolve(__dirname, "../../logs/cvd-state.json");
@@ -50,28 +50,17 @@ type CvdCache = Record<string, CvdEntry>;
 
 /** Read CVD cache (returns specified symbol entry or undefined) */
 export function readCvdCache(symbol?: string): CvdEntry | CvdCache | undefined {
-  try {
-    if (!fs.existsSync(CVD_CACHE_PATH)) return undefined;
-    const raw = fs.readFileSync(CVD_CACHE_PATH, "utf-8");
-    const cache = JSON.parse(raw) as CvdCache;
-    if (symbol) return cache[symbol];
-    return cache;
-  } catch {
-    return undefined;
-  }
+  const cache = readStateDocument<CvdCache>("cache", "cvd", CVD_CACHE_PATH);
+  if (symbol) return cache?.[symbol];
+  return cache;
 }
 
 /** Write CVD state for a single symbol */
 export function writeCvdEntry(entry: CvdEntry): void {
-  let cache: CvdCache = {};
-  try {
-    if (fs.existsSync(CVD_CACHE_PATH)) {
-      cache = JSON.parse(fs.readFileSync(CVD_CACHE_PATH, "utf-8")) as CvdCache;
-    }
-  } catch { /* Create new cache on read failure */ }
+  // Create new cache on read failure
+  const cache = readStateDocument<CvdCache>("cache", "cvd", CVD_CACHE_PATH) ?? {};
   cache[entry.symbol] = entry;
-  fs.mkdirSync(path.dirname(CVD_CACHE_PATH), { recursive: true });
-  fs.writeFileSync(CVD_CACHE_PATH, JSON.stringify(cache, null, 2));
+  writeStateDocument("cache", "cvd", CVD_CACHE_PATH, cache);
 }
 
 // ─── WebSocket Manager ──────────────────────────────────
@@ -85,6 +74,18 @@ interface AggTrade {
   m: boolean;        // Maker direction (true=buyer is maker, false=seller is maker)
 }
 
+function emptyEntry(symbol: string, nowMs: number): CvdEntry {
+  return {
+    symbol: symbol.toUpperCase(),
+    cvd: 0,
+    buyVolume: 0,
+    sellVolume: 0,
+    tradeCount: 0,
+    windowStartMs: nowMs,
+    updatedAt: nowMs,
+  };
+}
+
 /**
  * CVD Aggregation Stream Manager
  *
@@ -101,6 +102,7 @@ export class CvdManager {
   private ws: InstanceType<typeof WebSocket> | null = null;
   private state: Record<string, CvdEntry> = {};
   private flushIntervalId: ReturnType<typeof setInterval> | null = null;
+  private requestId = 0;
 
   constructor(
     symbols: string[],
@@ -125,6 +127,28 @@ export class CvdManager {
     log.info("Stopped");
   }
 
+  /**
+   * Replace the tracked symbols (config hot-reload). Windows of symbols kept stay intact;
+   * an open connection is changed with SUBSCRIBE / UNSUBSCRIBE, reconnects use the new list.
+   */
+  updateSymbols(symbols: string[]): void {
+    const next = symbols.map((s) => s.toLowerCase());
+    const added = next.filter((s) => !this.symbols.includes(s));
+    const removed = this.symbols.filter((s) => !next.includes(s));
+    this.symbols = next;
+    if (added.length === 0 && removed.length === 0) return;
+
+    const nowMs = Date.now();
+    for (const sym of added) this.state[sym] = emptyEntry(sym, nowMs);
+    // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+    for (const sym of removed) delete this.state[sym];
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      if (added.length > 0) this.ws.send(JSON.stringify({ method: "SUBSCRIBE", params: added.map((s) => `${s}@aggTrade`), id: ++this.requestId }));
+      if (removed.length > 0) this.ws.send(JSON.stringify({ method: "UNSUBSCRIBE", params: removed.map((s) => `${s}@aggTrade`), id: ++this.requestId }));
+    }
+    log.info(`aggTrade symbols updated: ${[...added.map((s) => `+${s}`), ...removed.map((s) => `-${s}`)].join(" ")}`);
+  }
+
   /** Get current CVD for a symbol (raw value) */
   getCvd(symbol: string): number | undefined {
     return this.state[symbol.toLowerCase()]?.cvd;
@@ -135,15 +159,7 @@ export class CvdManager {
   private _initState(): void {
     const nowMs = Date.now();
     for (const sym of this.symbols) {
-      this.state[sym] = {
-        symbol: sym.toUpperCase(),
-        cvd: 0,
-        buyVolume: 0,
-        sellVolume: 0,
-        tradeCount: 0,
-        windowStartMs: nowMs,
-        updatedAt: nowMs,
-      };
+      this.state[sym] = emptyEntry(sym, nowMs);
     }
   }
 
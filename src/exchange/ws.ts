@@ -98,13 +98,17 @@ export class BinanceWsManager {
   private reconnectDelay = RECONNECT_BASE_MS;
   private handlers: KlineHandler[] = [];
   private running = false;
+  private requestId = 0;
+  private symbols: string[];
 
   /** @param symbols List of trading pairs to subscribe (uppercase, e.g. ["BTCUSDT", "ETHUSDT"]) */
   constructor(
-    private readonly symbols: string[],
+    symbols: string[],
     private readonly interval: string,
     private readonly onLog?: (msg: string) => void
-  ) {}
+  ) {
+    this.symbols = [...symbols];
+  }
 
   /** Register a kline update callback (can be called multiple times) */
   subscribe(handler: KlineHandler): void {
@@ -127,6 +131,27 @@ export class BinanceWsManager {
     }
   }
 
+  /**
+   * Replace the subscribed symbols (config hot-reload). An open connection is changed in place
+   * with SUBSCRIBE / UNSUBSCRIBE requests; reconnects use the new list.
+   */
+  updateSymbols(symbols: string[]): void {
+    const added = symbols.filter((s) => !this.symbols.includes(s));
+    const removed = this.symbols.filter((s) => !symbols.includes(s));
+    this.symbols = [...symbols];
+    if (added.length === 0 && removed.length === 0) return;
+
+    this.log(`Symbols updated: ${[...added.map((s) => `+${s}`), ...removed.map((s) => `-${s}`)].join(" ")}`);
+    if (this.ws?.readyState !== WebSocket.OPEN) return;
+    if (added.length > 0) this.sendRequest("SUBSCRIBE", added);
+    if (removed.length > 0) this.sendRequest("UNSUBSCRIBE", removed);
+  }
+
+  /** Currently subscribed symbols */
+  get subscribedSymbols(): readonly string[] {
+    return this.symbols;
+  }
+
   /** Whether currently connected */
   get isConnected(): boolean {
     return this.ws?.readyState === WebSocket.OPEN;
@@ -134,13 +159,20 @@ export class BinanceWsManager {
 
   // ─────────────────────────────────────────────────────
 
+  private streamName(symbol: string): string {
+    return `${symbol.toLowerCase()}@kline_${this.interval}`;
+  }
+
   private buildUrl(): string {
-    const streams = this.symbols
-      .map((s) => `${s.toLowerCase()}@kline_${this.interval}`)
-      .join("/");
+    const streams = this.symbols.map((s) => this.streamName(s)).join("/");
     return `${WS_BASE}?streams=${streams}`;
   }
 
+  /** Live subscription change on the combined stream (answered with {"result":null,"id":n}) */
+  private sendRequest(method: "SUBSCRIBE" | "UNSUBSCRIBE", symbols: string[]): void {
+    this.ws?.send(JSON.stringify({ method, params: symbols.map((s) => this.streamName(s)), id: ++this.requestId }));
+  }
+
   private connect(): void {
     const url = this.buildUrl();
     this.log(`Connecting: ${url}`);
@@ -7,6 +7,7 @@
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { stateDb } from "../persistence/store.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const HEARTBEAT_PATH = path.resolve(__dirname, "../../logs/heartbeat.json");
@@ -25,6 +26,8 @@ export interface TaskHeartbeat {
 export type HeartbeatStore = Record<string, TaskHeartbeat>;
 
 export function loadHeartbeats(): HeartbeatStore {
+  const db = stateDb();
+  if (db) return db.getDocuments<TaskHeartbeat>("heartbeat");
   try {
     return JSON.parse(fs.readFileSync(HEARTBEAT_PATH, "utf-8")) as HeartbeatStore;
   } catch (_e: unknown) {
@@ -32,7 +35,14 @@ export function loadHeartbeats(): HeartbeatStore {
   }
 }
 
-function saveHeartbeats(store: HeartbeatStore): void {
+/** Store one task's heartbeat (SQLite keeps one row per task, so concurrent tasks don't overwrite each other) */
+function saveHeartbeat(store: HeartbeatStore, taskName: string): void {
+  const db = stateDb();
+  const hb = store[taskName];
+  if (db && hb) {
+    db.putDocument("heartbeat", taskName, hb);
+    return;
+  }
   fs.mkdirSync(path.dirname(HEARTBEAT_PATH), { recursive: true });
   fs.writeFileSync(HEARTBEAT_PATH, JSON.stringify(store, null, 2));
 }
@@ -61,7 +71,7 @@ export function ping(taskName: string): (error?: string) => void {
       runCount: prev.runCount + 1,
       errorCount: prev.errorCount + (error ? 1 : 0),
     };
-    saveHeartbeats(store);
+    saveHeartbeat(store, taskName);
   };
 }
 
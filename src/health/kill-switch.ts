@@ -4,13 +4,14 @@
  * Features:
  * 1. Global switch — blocks all new position entries when activated
  * 2. BTC short-term crash detection — auto-activates when recent 60 price points drop exceeds threshold
- * 3. State persistence — writes to logs/kill-switch-state.json
+ * 3. State persistence — writes to logs/kill-switch-state.json (or the SQLite state store)
  * 4. Auto-recovery — can be set to auto-deactivate after N ms
  */
 
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { stateDb } from "../persistence/store.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const STATE_FILE = path.resolve(__dirname, "../../logs/kill-switch-state.json");
@@ -37,6 +38,8 @@ const DEFAULT_STATE: KillSwitchState = {
 // ─────────────────────────────────────────────────────
 
 export function readKillSwitch(): KillSwitchState {
+  const db = stateDb();
+  if (db) return db.getDocument<KillSwitchState>("kill_switch", "global") ?? { ...DEFAULT_STATE };
   try {
     const data = fs.readFileSync(STATE_FILE, "utf-8");
     return JSON.parse(data) as KillSwitchState;
@@ -46,6 +49,11 @@ export function readKillSwitch(): KillSwitchState {
 }
 
 function writeKillSwitch(state: KillSwitchState): void {
+  const db = stateDb();
+  if (db) {
+    db.putDocument("kill_switch", "global", state);
+    return;
+  }
   fs.mkdirSync(path.dirname(STATE_FILE), { recursive: true });
   fs.writeFileSync(STATE_FILE, JSON.stringify(state, null, 2));
 }
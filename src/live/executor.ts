@@ -2,20 +2,26 @@
  * Live/Testnet Trade Executor
  *
  * Responsibilities:
- * - Receives signals (Signal), executes real orders via BinanceClient
+ * - Receives signals (Signal), executes real orders via an ExchangeAdapter
+ *   (selected by exchange.name: "binance" default, "okx")
  * - Syncs position state to local JSON (paper-compatible format for reusing stats tools)
  * - Stop loss/take profit/trailing stop checks (via limit orders or polling)
+ * - execution.order_type = "limit": maker-first entries/exits worked across monitor loops
+ *   (reprice, post-only retry, market fallback)
  *
  * Usage:
- *   mode: "testnet"  -> connects to testapi.binance.vision (virtual funds, real prices)
- *   mode: "live"     -> connects to api.binance.com (⚠️ real funds)
+ *   exchange.testnet: true   -> Binance testnet / OKX demo trading (virtual funds, real prices)
+ *   exchange.testnet: false  -> production (⚠️ real funds)
  */
 
 import type { Signal, RuntimeConfig } from "../types.js";
 import {
-  BinanceClient,
+  createExchangeAdapter,
+  type ExchangeAdapter,
+  type ExchangePosition,
   type OrderResponse,
-} from "../exchange/binance-client.js";
+  type OrderSide,
+} from "../exchange/adapter.js";
 import {
   loadAccount,
   saveAccount,
@@ -29,19 +35,24 @@ import {
   type PaperTrade,
   type PaperAccount,
   type PaperPosition,
+  type PendingOrder,
+  type WorkingOrder,
 } from "../paper/account.js";
 import { calcAtrPositionSize } from "../strategy/indicators.js";
 import { checkMinimalRoi } from "../strategy/roi-table.js";
 import { resolveNewStopLoss } from "../strategy/break-even.js";
 import { shouldConfirmExit, isExitRejectionCoolingDown } from "../strategy/confirm-exit.js";
-import type { Strategy, StrategyContext } from "../strategies/types.js";
+import type { Strategy, StrategyContext, MultiLeg, MultiLegSignal } from "../strategies/types.js";
+import { calcLegUsdt, makePairId } from "../strategy/pairs.js";
 import type { ExitReason } from "../paper/engine.js";
-import type { ExchangePosition } from "./reconcile.js";
 import { sendTelegramMessage } from "../notify/openclaw.js";
 
 // Trigger forced market exit after N consecutive exit order timeouts
 const EXIT_TIMEOUT_MAX_RETRIES = 3;
 
+// Limit orders: default reprice interval when execution.limit_order_reprice_seconds is not set
+const DEFAULT_LIMIT_REPRICE_SECONDS = 15;
+
 // ─────────────────────────────────────────────────────
 // Result types (compatible with PaperEngineResult)
 // ─────────────────────────────────────────────────────
@@ -52,7 +63,14 @@ export interface LiveEngineResult {
   stopLossTriggered: boolean;
   stopLossTrade: PaperTrade | null;
   account: PaperAccount;
-  orderId?: number; // Binance order ID
+  orderId?: number; // Exchange order ID
+}
+
+export interface LiveMultiLegResult {
+  /** Trades booked (entries, or exits when closing / unwinding) */
+  trades: PaperTrade[];
+  skipped?: string;
+  account: PaperAccount;
 }
 
 // ─────────────────────────────────────────────────────
@@ -63,7 +81,62 @@ function generateId(): string {
   return `live_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 }
 
-/** Convert Binance OrderResponse to PaperTrade format (for reusing stats tools) */
+/** Still working on the book (may fill further) */
+function isOrderOpen(order: OrderResponse): boolean {
+  return order.status === "NEW" || order.status === "PARTIALLY_FILLED";
+}
+
+/**
+ * Fills of a (possibly partially) executed order.
+ * Order queries often carry no fill list (Binance GET /order); fall back to the order price,
+ * or to fallbackPrice for market orders that report price 0. Fees then come from balance sync.
+ */
+function fillsOf(order: OrderResponse, fallbackPrice: number): NonNullable<OrderResponse["fills"]> {
+  if (order.fills && order.fills.length > 0) return order.fills;
+  const qty = parseFloat(order.executedQty);
+  if (!(qty > 0)) return [];
+  const price = parseFloat(order.price) > 0 ? order.price : String(fallbackPrice);
+  return [{ price, qty: order.executedQty, commission: "0", commissionAsset: "USDT" }];
+}
+
+/** Post-only placement refused because it would take liquidity (Binance -2010 "Order would immediately match and take.") */
+function isPostOnlyRejection(err: unknown): boolean {
+  const msg = err instanceof Error ? err.message : String(err);
+  return /would immediately match|post.?only/i.test(msg);
+}
+
+/** Number of entries still being worked as limit orders (count against max_positions) */
+function workingEntries(account: PaperAccount): number {
+  return Object.values(account.workingOrders ?? {}).filter((w) => w.side === "buy" || w.side === "short").length;
+}
+
+/** Order IDs of working limit order children currently on the book */
+function workingChildIds(account: PaperAccount): Set<number> {
+  const ids = new Set<number>();
+  for (const w of Object.values(account.workingOrders ?? {})) {
+    if (w.child) ids.add(w.child.orderId);
+  }
+  return ids;
+}
+
+/** One aggregated OrderResponse for a completed working order (fills of all child orders, orderId of the last fill) */
+function workingOrderResult(working: WorkingOrder): OrderResponse {
+  return {
+    symbol: working.symbol,
+    orderId: working.lastOrderId ?? -1,
+    clientOrderId: "",
+    transactTime: working.lastFillTime ?? Date.now(),
+    price: String(working.lastPrice),
+    origQty: String(working.quantity),
+    executedQty: String(working.filledQty),
+    status: working.filledQty >= working.quantity * 0.999 ? "FILLED" : "PARTIALLY_FILLED",
+    type: "LIMIT",
+    side: working.side === "buy" || working.side === "cover" ? "BUY" : "SELL",
+    fills: working.fills,
+  };
+}
+
+/** Convert exchange OrderResponse to PaperTrade format (for reusing stats tools) */
 function orderToPaperTrade(
   order: OrderResponse,
   side: PaperTrade["side"],
@@ -105,8 +178,8 @@ function orderToPaperTrade(
 // ─────────────────────────────────────────────────────
 
 export class LiveExecutor {
-  private readonly client: BinanceClient;
-  private readonly cfg: RuntimeConfig;
+  private readonly client: ExchangeAdapter;
+  private cfg: RuntimeConfig;
   private readonly scenarioId: string;
   private readonly isTestnet: boolean;
   /** Optional: strategy plugin (for customStoploss / confirmExit hooks) */
@@ -114,15 +187,28 @@ export class LiveExecutor {
   /** P8.2: Exit rejection cooldown log (symbol -> last rejection timestamp) */
   private readonly _exitRejectionLog = new Map<string, number>();
 
-  constructor(cfg: RuntimeConfig) {
+  /**
+   * @param adapter  Optional pre-built exchange adapter (tests / shared connections);
+   *                 defaults to createExchangeAdapter(cfg.exchange)
+   */
+  constructor(cfg: RuntimeConfig, adapter?: ExchangeAdapter) {
     this.cfg = cfg;
     this.scenarioId = cfg.paper.scenarioId;
     this.isTestnet = cfg.exchange.testnet ?? false;
+    this.client = adapter ?? createExchangeAdapter(cfg.exchange);
+  }
 
-    const credsPath = cfg.exchange.credentials_path ?? ".secrets/binance.json";
-    const market = cfg.exchange.market === "futures" ? "futures" : "spot";
+  /**
+   * Swap in a hot-reloaded config for the same scenario (risk / signals / notify / symbols);
+   * the exchange connection and the exit-rejection cooldowns are kept
+   */
+  updateConfig(cfg: RuntimeConfig): void {
+    this.cfg = cfg;
+  }
 
-    this.client = new BinanceClient(credsPath, this.isTestnet, market);
+  /** Exchange name of the underlying adapter ("binance" | "okx") */
+  get exchangeName(): string {
+    return this.client.name;
   }
 
   /** Test connection */
@@ -137,20 +223,12 @@ export class LiveExecutor {
 
   /**
    * Read actual positions from exchange (for reconciliation)
-   * Futures: reads positionRisk, filters positionAmt != 0
+   * Futures/swap: adapter-normalized positions with non-zero size
    * Spot: currently unsupported, returns empty array
    */
   async getExchangePositions(): Promise<ExchangePosition[]> {
     try {
-      const raw = await this.client.getFuturesPositions();
-      return raw
-        .filter((p) => parseFloat(p.positionAmt) !== 0)
-        .map((p) => ({
-          symbol: p.symbol,
-          side: parseFloat(p.positionAmt) > 0 ? ("long" as const) : ("short" as const),
-          qty: Math.abs(parseFloat(p.positionAmt)),
-          avgPrice: parseFloat(p.entryPrice),
-        }));
+      return await this.client.getPositions();
     } catch {
       return []; // Spot or unsupported markets return empty array
     }
@@ -164,7 +242,8 @@ export class LiveExecutor {
     const account = loadAccount(this.cfg.paper.initial_usdt, this.scenarioId);
     resetDailyLossIfNeeded(account);
 
-    const openCount = Object.keys(account.positions).length;
+    // Entries still being worked as limit orders count against the position limit
+    const openCount = Object.keys(account.positions).length + workingEntries(account);
     if (this.cfg.risk.max_positions > 0 && openCount >= this.cfg.risk.max_positions) {
       const skipped = `Max positions ${this.cfg.risk.max_positions} reached, skipping ${signal.symbol}`;
       return { trade: null, skipped, stopLossTriggered: false, stopLossTrade: null, account };
@@ -174,8 +253,12 @@ export class LiveExecutor {
       const skipped = `${signal.symbol} already has position, skipping`;
       return { trade: null, skipped, stopLossTriggered: false, stopLossTrade: null, account };
     }
+    if (account.workingOrders?.[signal.symbol]) {
+      const skipped = `${signal.symbol} limit order already working, skipping`;
+      return { trade: null, skipped, stopLossTriggered: false, stopLossTrade: null, account };
+    }
 
-    // Get real balance from Binance (sync)
+    // Get real balance from exchange (sync)
     const realBalance = await this.client.getUsdtBalance();
     const equity = Math.min(realBalance, calcTotalEquity(account, { [signal.symbol]: signal.price }));
 
@@ -221,7 +304,17 @@ export class LiveExecutor {
       }
     }
 
-    // 🔥 Execute real order
+    // 🔥 Execute real order (limit: maker-first working order, advanced each monitor loop)
+    const expectedQty = usdtToSpend / signal.price;
+    const entry: NonNullable<WorkingOrder["entry"]> = {
+      signalPrice: signal.price,
+      usdtAmount: usdtToSpend,
+      balanceBefore: realBalance,
+      ...(signal.indicators.atr !== undefined && { atr: signal.indicators.atr }),
+    };
+    if (this.useLimitOrders()) {
+      return this.startWorkingOrder(account, signal.symbol, "buy", expectedQty, signal.reason.join(", "), entry);
+    }
     let order: OrderResponse;
     try {
       order = await this.client.marketBuy(signal.symbol, usdtToSpend);
@@ -231,7 +324,6 @@ export class LiveExecutor {
     }
 
     // F5: Register entry order (basis for orphan detection)
-    const expectedQty = usdtToSpend / signal.price;
     registerOrder(account, {
       orderId: order.orderId,
       symbol: signal.symbol,
@@ -241,13 +333,27 @@ export class LiveExecutor {
       filledQty: 0,
       timeoutMs: (this.cfg.execution.order_timeout_seconds ?? 30) * 1000,
     });
+    return this.bookLongEntry(account, signal.symbol, order, expectedQty, entry, signal.reason.join(", "));
+  }
 
+  /**
+   * Book a filled long entry: position, native SL/TP orders, trade record
+   * (market order, or the aggregated fills of a completed working limit order)
+   */
+  private async bookLongEntry(
+    account: PaperAccount,
+    symbol: string,
+    order: OrderResponse,
+    expectedQty: number,
+    entry: NonNullable<WorkingOrder["entry"]>,
+    reason: string
+  ): Promise<LiveEngineResult> {
     // Calculate actual fill average price
     const avgPrice =
       order.fills && order.fills.length > 0
         ? order.fills.reduce((s, f) => s + parseFloat(f.price) * parseFloat(f.qty), 0) /
           parseFloat(order.executedQty)
-        : signal.price;
+        : entry.signalPrice;
 
     const execQty = parseFloat(order.executedQty);
     const totalFee = order.fills?.reduce((s, f) => s + parseFloat(f.commission), 0) ?? 0;
@@ -256,13 +362,29 @@ export class LiveExecutor {
     const fillRatio = execQty / (expectedQty || 1);
     if (fillRatio < 0.95) {
       const label = this.isTestnet ? "[TESTNET]" : "[LIVE]";
-      console.warn(`${label} ⚠️ Partial fill ${signal.symbol}: requested ${expectedQty.toFixed(6)}, filled ${execQty.toFixed(6)} (${(fillRatio * 100).toFixed(1)}%)`);
+      console.warn(`${label} ⚠️ Partial fill ${symbol}: requested ${expectedQty.toFixed(6)}, filled ${execQty.toFixed(6)} (${(fillRatio * 100).toFixed(1)}%)`);
+    }
+
+    // 🛡️ Zero fill protection: order accepted but nothing filled yet, skip position record
+    // (the registered order stays pending, so checkOrderTimeouts / scanOpenOrders pick it up)
+    if (!(execQty > 0)) {
+      const label = this.isTestnet ? "[TESTNET]" : "[LIVE]";
+      console.warn(`${label} ⚠️ Buy ${symbol} order 0 fills, skipping position record (orderId=${order.orderId})`);
+      saveAccount(account, this.scenarioId);
+      return {
+        trade: null,
+        skipped: `Buy ${symbol} order not filled (0 fill), orderId=${order.orderId}`,
+        stopLossTriggered: false,
+        stopLossTrade: null,
+        account,
+      };
     }
     confirmOrder(account, order.orderId, execQty, expectedQty);
 
     // Update local account (mirror real state)
     // ATR dynamic stop loss: when atr_position enabled and signal has ATR, use ATR x multiplier as stop distance
-    const signalAtr = signal.indicators.atr;
+    const atrCfg = this.cfg.risk.atr_position;
+    const signalAtr = entry.atr;
     const stopLossPrice = (atrCfg?.enabled && signalAtr)
       ? avgPrice - signalAtr * atrCfg.atr_multiplier
       : avgPrice * (1 - this.cfg.risk.stop_loss_percent / 100);
@@ -270,22 +392,22 @@ export class LiveExecutor {
 
     // 🛡️ Place native stop loss order on exchange (P7.1)
     const exchangeSlOrderId = await this.placeExchangeStopLoss(
-      signal.symbol, "long", execQty, stopLossPrice
+      symbol, "long", execQty, stopLossPrice
     );
     let takeProfitOrderId: number | undefined;
     try {
       const tpOrder = await this.client.placeTakeProfitOrder(
-        signal.symbol, "SELL", execQty, takeProfitPrice
+        symbol, "SELL", execQty, takeProfitPrice
       );
       // orderId=-1 means degraded to local polling take profit (LOCAL_ONLY)
       if (tpOrder.orderId !== -1) takeProfitOrderId = tpOrder.orderId;
     } catch (err) {
-      console.warn(`[LiveExecutor] Take profit order placement failed ${signal.symbol}:`, err instanceof Error ? err.message : err);
+      console.warn(`[LiveExecutor] Take profit order placement failed ${symbol}:`, err instanceof Error ? err.message : err);
     }
 
-    account.usdt = realBalance - usdtToSpend;
-    account.positions[signal.symbol] = {
-      symbol: signal.symbol,
+    account.usdt = entry.balanceBefore - entry.usdtAmount;
+    account.positions[symbol] = {
+      symbol,
       side: "long",
       quantity: execQty,
       entryPrice: avgPrice,
@@ -301,7 +423,7 @@ export class LiveExecutor {
       ...(takeProfitOrderId !== undefined && { takeProfitOrderId }),
     };
 
-    const trade = orderToPaperTrade(order, "buy", signal.reason.join(", "));
+    const trade = orderToPaperTrade(order, "buy", reason);
     account.trades.push(trade);
     cleanupOrders(account); // Clean up completed orders, avoid state table bloat
     saveAccount(account, this.scenarioId);
@@ -309,7 +431,7 @@ export class LiveExecutor {
     const label = this.isTestnet ? "[TESTNET]" : "[LIVE]";
     const slLabel = exchangeSlOrderId !== null ? `SL order#${exchangeSlOrderId}` : "SL order(placement failed, local polling fallback)";
     console.log(
-      `${label} Buy ${signal.symbol}: qty=${execQty.toFixed(6)}, avgPrice=$${avgPrice.toFixed(4)}, fee=$${totalFee.toFixed(4)}, ${slLabel}`
+      `${label} Buy ${symbol}: qty=${execQty.toFixed(6)}, avgPrice=$${avgPrice.toFixed(4)}, fee=$${totalFee.toFixed(4)}, ${slLabel}`
     );
 
     return { trade, stopLossTriggered: false, stopLossTrade: null, account, orderId: order.orderId };
@@ -329,6 +451,9 @@ export class LiveExecutor {
     if (!position) {
       return { trade: null, skipped: `${symbol} no position`, stopLossTriggered: false, stopLossTrade: null, account };
     }
+    if (account.workingOrders?.[symbol]) {
+      return { trade: null, skipped: `${symbol} exit order already working`, stopLossTriggered: false, stopLossTrade: null, account };
+    }
 
     // 🗑️ Cancel take profit order (avoid duplicate sell)
     if (position.takeProfitOrderId !== undefined) {
@@ -343,7 +468,10 @@ export class LiveExecutor {
       catch { /* may already be filled, ignore */ }
     }
 
-    // 🔥 Execute real sell
+    // 🔥 Execute real sell (stop loss exits always go market; limit exits are worked across loops)
+    if (this.useLimitOrders(reason)) {
+      return this.startWorkingOrder(account, symbol, "sell", position.quantity, reason);
+    }
     let order: OrderResponse;
     try {
       order = await this.client.marketSell(symbol, position.quantity);
@@ -351,6 +479,26 @@ export class LiveExecutor {
       const msg = err instanceof Error ? err.message : String(err);
       throw new Error(`[LiveExecutor] Sell ${symbol} failed: ${msg}`, { cause: err });
     }
+    return this.bookLongExit(account, symbol, order, currentPrice, reason);
+  }
+
+  /**
+   * Book a long exit: realised PnL, balance sync, position removal, trade record
+   */
+  private async bookLongExit(
+    account: PaperAccount,
+    symbol: string,
+    order: OrderResponse,
+    currentPrice: number,
+    reason: string
+  ): Promise<LiveEngineResult> {
+    const position = account.positions[symbol];
+    const execQty = parseFloat(order.executedQty);
+    if (!position || !(execQty > 0)) {
+      saveAccount(account, this.scenarioId);
+      const skipped = `Sell ${symbol} order not filled (0 fill), position kept`;
+      return { trade: null, skipped, stopLossTriggered: false, stopLossTrade: null, account };
+    }
 
     const avgPrice =
       order.fills && order.fills.length > 0
@@ -358,7 +506,6 @@ export class LiveExecutor {
           parseFloat(order.executedQty)
         : currentPrice;
 
-    const execQty = parseFloat(order.executedQty);
     const grossUsdt = execQty * avgPrice;
     const totalFee = order.fills?.reduce((s, f) => s + parseFloat(f.commission), 0) ?? 0;
     const netUsdt = grossUsdt - totalFee;
@@ -369,7 +516,7 @@ export class LiveExecutor {
 
     if (pnl < 0) account.dailyLoss.loss += Math.abs(pnl);
 
-    // Sync real balance from Binance
+    // Sync real balance from exchange
     const realBalance = await this.client.getUsdtBalance();
     account.usdt = realBalance;
     Reflect.deleteProperty(account.positions, symbol);
@@ -412,7 +559,10 @@ export class LiveExecutor {
     if (account.positions[signal.symbol]) {
       return { trade: null, skipped: `${signal.symbol} already has position, skipping short`, stopLossTriggered: false, stopLossTrade: null, account };
     }
-    if (Object.keys(account.positions).length >= this.cfg.risk.max_positions && this.cfg.risk.max_positions > 0) {
+    if (account.workingOrders?.[signal.symbol]) {
+      return { trade: null, skipped: `${signal.symbol} limit order already working, skipping short`, stopLossTriggered: false, stopLossTrade: null, account };
+    }
+    if (Object.keys(account.positions).length + workingEntries(account) >= this.cfg.risk.max_positions && this.cfg.risk.max_positions > 0) {
       return { trade: null, skipped: `Max positions reached, skipping short ${signal.symbol}`, stopLossTriggered: false, stopLossTrade: null, account };
     }
 
@@ -455,7 +605,16 @@ export class LiveExecutor {
       }
     }
 
-    // 🔥 Execute real short order (Futures: SELL = open short)
+    // 🔥 Execute real short order (Futures: SELL = open short; limit: worked across monitor loops)
+    const entry: NonNullable<WorkingOrder["entry"]> = {
+      signalPrice: signal.price,
+      usdtAmount: marginToLock,
+      balanceBefore: realBalance,
+      ...(signal.indicators.atr !== undefined && { atr: signal.indicators.atr }),
+    };
+    if (this.useLimitOrders()) {
+      return this.startWorkingOrder(account, signal.symbol, "short", qty, signal.reason.join(", "), entry);
+    }
     let order: OrderResponse;
     try {
       order = await this.client.marketSell(signal.symbol, qty);
@@ -474,29 +633,44 @@ export class LiveExecutor {
       filledQty: 0,
       timeoutMs: (this.cfg.execution.order_timeout_seconds ?? 30) * 1000,
     });
+    return this.bookShortEntry(account, signal.symbol, order, qty, entry, signal.reason.join(", "));
+  }
 
+  /**
+   * Book a filled short entry: position with locked margin, native SL/TP orders, trade record
+   */
+  private async bookShortEntry(
+    account: PaperAccount,
+    symbol: string,
+    order: OrderResponse,
+    qty: number,
+    entry: NonNullable<WorkingOrder["entry"]>,
+    reason: string
+  ): Promise<LiveEngineResult> {
     const avgPrice = order.fills && order.fills.length > 0
       ? order.fills.reduce((s, f) => s + parseFloat(f.price) * parseFloat(f.qty), 0) / parseFloat(order.executedQty)
-      : signal.price;
+      : entry.signalPrice;
 
     const execQty = parseFloat(order.executedQty);
     const totalFee = order.fills?.reduce((s, f) => s + parseFloat(f.commission), 0) ?? 0;
+    const marginToLock = entry.usdtAmount;
     const actualMargin = marginToLock - totalFee;
 
     // F2: Partial fill detection
     const sFillRatio = execQty / (qty || 1);
     if (sFillRatio < 0.95) {
       const label = this.isTestnet ? "[TESTNET]" : "[LIVE]";
-      console.warn(`${label} ⚠️ Short partial fill ${signal.symbol}: requested ${qty.toFixed(6)}, filled ${execQty.toFixed(6)} (${(sFillRatio * 100).toFixed(1)}%)`);
+      console.warn(`${label} ⚠️ Short partial fill ${symbol}: requested ${qty.toFixed(6)}, filled ${execQty.toFixed(6)} (${(sFillRatio * 100).toFixed(1)}%)`);
     }
 
     // 🛡️ Zero fill protection: exchange accepted order but no fills (testnet low liquidity etc.), skip position record
-    if (execQty === 0) {
+    if (!(execQty > 0)) {
       const label = this.isTestnet ? "[TESTNET]" : "[LIVE]";
-      console.warn(`${label} ⚠️ Short ${signal.symbol} order 0 fills, skipping position record (orderId=${order.orderId})`);
+      console.warn(`${label} ⚠️ Short ${symbol} order 0 fills, skipping position record (orderId=${order.orderId})`);
+      saveAccount(account, this.scenarioId);
       return {
         trade: null,
-        skipped: `Short ${signal.symbol} order not filled (0 fill), orderId=${order.orderId}`,
+        skipped: `Short ${symbol} order not filled (0 fill), orderId=${order.orderId}`,
         stopLossTriggered: false,
         stopLossTrade: null,
         account,
@@ -506,7 +680,7 @@ export class LiveExecutor {
 
     // ATR dynamic stop loss (short direction: stop loss at entry price + ATR x multiplier)
     const sAtrCfg = this.cfg.risk.atr_position;
-    const sSignalAtr = signal.indicators.atr;
+    const sSignalAtr = entry.atr;
     const shortStopLoss = (sAtrCfg?.enabled && sSignalAtr)
       ? avgPrice + sSignalAtr * sAtrCfg.atr_multiplier
       : avgPrice * (1 + this.cfg.risk.stop_loss_percent / 100);
@@ -514,19 +688,19 @@ export class LiveExecutor {
 
     // 🛡️ Place native stop loss order (P7.1: Futures short stop loss needs BUY side)
     const shortExchangeSlOrderId = await this.placeExchangeStopLoss(
-      signal.symbol, "short", execQty, shortStopLoss
+      symbol, "short", execQty, shortStopLoss
     );
     let shortTpOrderId: number | undefined;
     try {
-      const tpOrder = await this.client.placeTakeProfitOrder(signal.symbol, "BUY", execQty, shortTakeProfit);
+      const tpOrder = await this.client.placeTakeProfitOrder(symbol, "BUY", execQty, shortTakeProfit);
       if (tpOrder.orderId !== -1) shortTpOrderId = tpOrder.orderId;
     } catch (err) {
-      console.warn(`[LiveExecutor] Short take profit order placement failed ${signal.symbol}:`, err instanceof Error ? err.message : err);
+      console.warn(`[LiveExecutor] Short take profit order placement failed ${symbol}:`, err instanceof Error ? err.message : err);
     }
 
-    account.usdt = realBalance - marginToLock;
-    account.positions[signal.symbol] = {
-      symbol: signal.symbol,
+    account.usdt = entry.balanceBefore - marginToLock;
+    account.positions[symbol] = {
+      symbol,
       side: "short",
       quantity: execQty,
       entryPrice: avgPrice,
@@ -543,14 +717,14 @@ export class LiveExecutor {
       ...(shortTpOrderId !== undefined && { takeProfitOrderId: shortTpOrderId }),
     };
 
-    const trade = orderToPaperTrade(order, "short", signal.reason.join(", "));
+    const trade = orderToPaperTrade(order, "short", reason);
     account.trades.push(trade);
     cleanupOrders(account);
     saveAccount(account, this.scenarioId);
 
     const label = this.isTestnet ? "[TESTNET]" : "[LIVE]";
     const slLabel = shortExchangeSlOrderId !== null ? `SL order#${shortExchangeSlOrderId}` : "SL order(placement failed, local polling fallback)";
-    console.log(`${label} Short ${signal.symbol}: qty=${execQty.toFixed(6)}, avgPrice=$${avgPrice.toFixed(4)}, fee=$${totalFee.toFixed(4)}, ${slLabel}`);
+    console.log(`${label} Short ${symbol}: qty=${execQty.toFixed(6)}, avgPrice=$${avgPrice.toFixed(4)}, fee=$${totalFee.toFixed(4)}, ${slLabel}`);
 
     return { trade, stopLossTriggered: false, stopLossTrade: null, account, orderId: order.orderId };
   }
@@ -565,6 +739,9 @@ export class LiveExecutor {
     if (position?.side !== "short") {
       return { trade: null, skipped: `${symbol} no short position`, stopLossTriggered: false, stopLossTrade: null, account };
     }
+    if (account.workingOrders?.[symbol]) {
+      return { trade: null, skipped: `${symbol} exit order already working`, stopLossTriggered: false, stopLossTrade: null, account };
+    }
 
     // 🗑️ Cancel take profit order
     if (position.takeProfitOrderId !== undefined) {
@@ -579,7 +756,10 @@ export class LiveExecutor {
       catch { /* may already be filled, ignore */ }
     }
 
-    // 🔥 Execute real cover short order (Futures: BUY = cover short)
+    // 🔥 Execute real cover short order (Futures: BUY = cover short; stop loss exits always go market)
+    if (this.useLimitOrders(reason)) {
+      return this.startWorkingOrder(account, symbol, "cover", position.quantity, reason);
+    }
     let order: OrderResponse;
     try {
       order = await this.client.marketBuyByQty(symbol, position.quantity);
@@ -587,12 +767,31 @@ export class LiveExecutor {
       const msg = err instanceof Error ? err.message : String(err);
       throw new Error(`[LiveExecutor] Cover short ${symbol} failed: ${msg}`, { cause: err });
     }
+    return this.bookShortExit(account, symbol, order, currentPrice, reason);
+  }
+
+  /**
+   * Book a short cover: realised PnL against locked margin, balance sync, position removal, trade record
+   */
+  private async bookShortExit(
+    account: PaperAccount,
+    symbol: string,
+    order: OrderResponse,
+    currentPrice: number,
+    reason: string
+  ): Promise<LiveEngineResult> {
+    const position = account.positions[symbol];
+    const execQty = parseFloat(order.executedQty);
+    if (!position || !(execQty > 0)) {
+      saveAccount(account, this.scenarioId);
+      const skipped = `Cover ${symbol} order not filled (0 fill), position kept`;
+      return { trade: null, skipped, stopLossTriggered: false, stopLossTrade: null, account };
+    }
 
     const avgPrice = order.fills && order.fills.length > 0
       ? order.fills.reduce((s, f) => s + parseFloat(f.price) * parseFloat(f.qty), 0) / parseFloat(order.executedQty)
       : currentPrice;
 
-    const execQty = parseFloat(order.executedQty);
     const totalFee = order.fills?.reduce((s, f) => s + parseFloat(f.commission), 0) ?? 0;
     const marginUsdt = position.marginUsdt ?? position.quantity * position.entryPrice;
     const pnl = (position.entryPrice - avgPrice) * execQty - totalFee;
@@ -614,6 +813,191 @@ export class LiveExecutor {
     return { trade, stopLossTriggered: false, stopLossTrade: null, account, orderId: order.orderId };
   }
 
+  // ─────────────────────────────────────────────────────
+  // Multi-leg execution (pairs strategy)
+  // ─────────────────────────────────────────────────────
+
+  /**
+   * Open or close every leg of a multi-leg signal as one unit.
+   * Legs always go to market (a working limit leg would leave the pair half-open) and get no native
+   * SL/TP orders: they are only closed together. If a leg fails or does not fill on entry, the legs
+   * already filled are closed again at market.
+   */
+  async handleMultiLegSignal(
+    signal: MultiLegSignal,
+    prices: Record<string, number>
+  ): Promise<LiveMultiLegResult> {
+    const account = loadAccount(this.cfg.paper.initial_usdt, this.scenarioId);
+    resetDailyLossIfNeeded(account);
+    const label = this.isTestnet ? "[TESTNET]" : "[LIVE]";
+
+    if (signal.action === "close") {
+      const trades: PaperTrade[] = [];
+      const failed: string[] = [];
+      for (const symbol of signal.symbols) {
+        const pos = account.positions[symbol];
+        if (!pos) continue;
+        try {
+          const trade = await this.closeLeg(account, symbol, pos, prices[symbol] ?? pos.entryPrice, signal.reason);
+          if (trade) trades.push(trade);
+          else failed.push(`${symbol} (0 fill)`);
+        } catch (err: unknown) {
+          failed.push(`${symbol} (${err instanceof Error ? err.message : String(err)})`);
+        }
+      }
+      if (failed.length === 0) return { trades, account };
+      const skipped = `${label} Closing legs failed: ${failed.join(", ")}, retrying next cycle`;
+      console.error(skipped);
+      return { trades, skipped, account };
+    }
+
+    const { legs } = signal;
+    const market = this.cfg.exchange.market;
+    if (legs.some((l) => l.side === "short") && market !== "futures" && market !== "margin") {
+      return { trades: [], skipped: `Multi-leg signal requires futures/margin market for short legs, current is ${market}`, account };
+    }
+    const busy = legs.filter((l) => account.positions[l.symbol] ?? account.workingOrders?.[l.symbol]);
+    if (busy.length > 0) {
+      return { trades: [], skipped: `${busy.map((l) => l.symbol).join(", ")} already has position, skipping multi-leg entry`, account };
+    }
+    const openCount = Object.keys(account.positions).length + workingEntries(account);
+    if (this.cfg.risk.max_positions > 0 && openCount + legs.length > this.cfg.risk.max_positions) {
+      return { trades: [], skipped: `Max positions ${this.cfg.risk.max_positions} leaves no room for ${legs.length} legs, skipping`, account };
+    }
+    const unpriced = legs.filter((l) => !((prices[l.symbol] ?? 0) > 0));
+    if (unpriced.length > 0) {
+      return { trades: [], skipped: `No price for ${unpriced.map((l) => l.symbol).join(", ")}, skipping multi-leg entry`, account };
+    }
+
+    const realBalance = await this.client.getUsdtBalance();
+    const equity = Math.min(realBalance, calcTotalEquity(account, prices));
+    if ((account.dailyLoss.loss / equity) * 100 >= this.cfg.risk.daily_loss_limit_percent) {
+      return { trades: [], skipped: `Daily loss reached ${this.cfg.risk.daily_loss_limit_percent}%, pausing new entries for today`, account };
+    }
+    const sizes = legs.map((l) => calcLegUsdt(l.weight, legs.length, equity, this.cfg.risk.position_ratio));
+    const minOrder = this.cfg.execution.min_order_usdt;
+    if (sizes.some((u) => u < minOrder)) {
+      return { trades: [], skipped: `Leg size below minimum order amount $${minOrder}, skipping multi-leg entry`, account };
+    }
+    const total = sizes.reduce((s, v) => s + v, 0);
+    if (total > realBalance) {
+      return { trades: [], skipped: `Insufficient balance for all legs (need $${total.toFixed(2)}, have $${realBalance.toFixed(2)})`, account };
+    }
+
+    const pairId = makePairId(legs.map((l) => l.symbol), Date.now());
+    account.usdt = realBalance;
+    const opened: PaperTrade[] = [];
+    for (const [i, leg] of legs.entries()) {
+      let error: string;
+      try {
+        const trade = await this.openLeg(account, leg, sizes[i] ?? 0, prices[leg.symbol] ?? 0, pairId, signal.reason);
+        if (trade) {
+          opened.push(trade);
+          continue;
+        }
+        error = "not filled";
+      } catch (err: unknown) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+      // ── Leg failed: unwind the legs already filled ──
+      const stuckLegs: string[] = [];
+      for (const done of opened) {
+        const pos = account.positions[done.symbol];
+        if (!pos) continue;
+        try {
+          if (await this.closeLeg(account, done.symbol, pos, prices[done.symbol] ?? pos.entryPrice, `pair unwind: ${leg.symbol} ${error}`)) continue;
+        } catch { /* reported below */ }
+        stuckLegs.push(done.symbol);
+      }
+      const stuck = stuckLegs.length > 0 ? `; ⚠️ unwind failed for ${stuckLegs.join(", ")}, retried as an unmatched leg next cycle` : "";
+      const skipped = `${label} Leg ${leg.symbol} ${error}, multi-leg entry unwound${stuck}`;
+      console.error(skipped);
+      saveAccount(account, this.scenarioId);
+      return { trades: [], skipped, account };
+    }
+
+    cleanupOrders(account);
+    saveAccount(account, this.scenarioId);
+    console.log(`${label} Multi-leg entry ${pairId}: ${legs.map((l) => `${l.side} ${l.symbol}`).join(" / ")}`);
+    return { trades: opened, account };
+  }
+
+  /**
+   * Market-open one leg: register the order, book the position tagged with pairId (no native SL/TP)
+   * @returns null when the order did not fill (it is cancelled)
+   */
+  private async openLeg(
+    account: PaperAccount,
+    leg: MultiLeg,
+    usdt: number,
+    price: number,
+    pairId: string,
+    reason: string
+  ): Promise<PaperTrade | null> {
+    const isShort = leg.side === "short";
+    let qty = usdt / price;
+    if (isShort) {
+      const { stepSize } = await this.client.getSymbolInfo(leg.symbol);
+      qty = Math.floor(qty / stepSize) * stepSize;
+    }
+    const order = isShort
+      ? await this.client.marketSell(leg.symbol, qty)
+      : await this.client.marketBuy(leg.symbol, usdt);
+    registerOrder(account, {
+      orderId: order.orderId,
+      symbol: leg.symbol,
+      side: isShort ? "short" : "buy",
+      placedAt: Date.now(),
+      requestedQty: qty,
+      filledQty: 0,
+      timeoutMs: (this.cfg.execution.order_timeout_seconds ?? 30) * 1000,
+    });
+
+    const execQty = parseFloat(order.executedQty);
+    if (!(execQty > 0)) {
+      try { await this.client.cancelOrder(leg.symbol, order.orderId); }
+      catch { /* may already be gone */ }
+      cancelOrder(account, order.orderId);
+      return null;
+    }
+    confirmOrder(account, order.orderId, execQty, qty);
+
+    const trade = orderToPaperTrade(order, isShort ? "short" : "buy", reason);
+    const entryPrice = order.fills && order.fills.length > 0 ? trade.price : price;
+    account.usdt -= usdt;
+    account.positions[leg.symbol] = {
+      symbol: leg.symbol,
+      side: leg.side,
+      quantity: execQty,
+      entryPrice,
+      entryTime: order.transactTime,
+      // Informational only: pair legs exit on the spread, not on these levels
+      stopLoss: entryPrice * (1 + (isShort ? 1 : -1) * this.cfg.risk.stop_loss_percent / 100),
+      takeProfit: entryPrice * (1 + (isShort ? -1 : 1) * this.cfg.risk.take_profit_percent / 100),
+      entryOrderId: order.orderId,
+      pairId,
+      ...(isShort && { marginUsdt: usdt - trade.fee }),
+    };
+    account.trades.push(trade);
+    return trade;
+  }
+
+  /** Market-close one leg and book the exit; null when the order did not fill */
+  private async closeLeg(
+    account: PaperAccount,
+    symbol: string,
+    pos: PaperPosition,
+    price: number,
+    reason: string
+  ): Promise<PaperTrade | null> {
+    if (pos.side === "short") {
+      const order = await this.client.marketBuyByQty(symbol, pos.quantity);
+      return (await this.bookShortExit(account, symbol, order, price, reason)).trade;
+    }
+    const order = await this.client.marketSell(symbol, pos.quantity);
+    return (await this.bookLongExit(account, symbol, order, price, reason)).trade;
+  }
+
   /**
    * Check all positions for stop loss / take profit (long + short, polling mode)
    */
@@ -627,6 +1011,10 @@ export class LiveExecutor {
     for (const [symbol, pos] of Object.entries(account.positions)) {
       const currentPrice = prices[symbol];
       if (!currentPrice) continue;
+      // Exit already being worked as a limit order (advanceWorkingOrders goes to market on a stop loss breach)
+      if (account.workingOrders?.[symbol]) continue;
+      // Multi-leg positions are closed together by handleMultiLegSignal()
+      if (pos.pairId !== undefined) continue;
 
       const isShort = pos.side === "short";
 
@@ -804,9 +1192,9 @@ export class LiveExecutor {
    * F2/F5: Orphan order scan on startup
    *
    * Called at live-monitor startup to detect orphan orders left from previous process crash:
-   * 1. Fetch all open orders from Binance
+   * 1. Query each timed-out local order on the exchange
    * 2. Compare with local account.openOrders (registered but still pending orders)
-   * 3. Orphan orders (exist on Binance but locally timed out / still pending) -> attempt to cancel
+   * 3. Orphan orders (exist on exchange but locally timed out / still pending) -> attempt to cancel
    * 4. Clean up filled/cancelled order local state
    *
    * @returns Number of cancelled orphan orders
@@ -816,8 +1204,9 @@ export class LiveExecutor {
     const label = this.isTestnet ? "[TESTNET]" : "[LIVE]";
     let cancelledCount = 0;
 
-    // Get all locally pending orders that have timed out
-    const timedOut = getTimedOutOrders(account);
+    // Get all locally pending orders that have timed out (working limit order children resume via advanceWorkingOrders)
+    const working = workingChildIds(account);
+    const timedOut = getTimedOutOrders(account).filter((o) => !working.has(o.orderId));
     if (timedOut.length === 0) {
       cleanupOrders(account);
       saveAccount(account, this.scenarioId);
@@ -860,7 +1249,7 @@ export class LiveExecutor {
    *
    * Flow:
    *   1. Call getTimedOutOrders(account) to get timed-out pending orders
-   *   2. Query actual status on Binance
+   *   2. Query actual status on the exchange
    *      - FILLED / PARTIALLY_FILLED -> confirmOrder (sync local state)
    *      - NEW (entry timeout) -> cancel + notify
    *      - NEW (exit timeout) -> cancel + notify (next iteration will re-trigger checkExitConditions)
@@ -870,7 +1259,9 @@ export class LiveExecutor {
    */
   async checkOrderTimeouts(account: PaperAccount): Promise<void> {
     const label = this.isTestnet ? "[TESTNET]" : "[LIVE]";
-    const timedOut = getTimedOutOrders(account);
+    // Child orders of working limit orders are resolved by advanceWorkingOrders
+    const working = workingChildIds(account);
+    const timedOut = getTimedOutOrders(account).filter((o) => !working.has(o.orderId));
     if (timedOut.length === 0) return;
 
     console.log(`${label} checkOrderTimeouts: found ${timedOut.length} timed-out orders`);
@@ -1028,6 +1419,245 @@ export class LiveExecutor {
     saveAccount(account, scenarioId);
   }
 
+  // ─────────────────────────────────────────────────────
+  // Limit order execution (execution.order_type = "limit")
+  // ─────────────────────────────────────────────────────
+
+  /**
+   * Whether entries/exits go through the limit path.
+   * Stop loss exits always use market orders: getting out beats saving the taker fee.
+   */
+  private useLimitOrders(reason = ""): boolean {
+    return this.cfg.execution.order_type === "limit" && !/stop.?loss/i.test(reason);
+  }
+
+  /**
+   * Maker-first execution: start a working limit order and take its first step
+   *
+   * The order is then advanced once per monitor loop by advanceWorkingOrders() (never blocks the loop):
+   *   1. Post a limit order (post-only unless limit_order_post_only=false) at
+   *      current price -/+ limit_order_offset_percent (below for BUY, above for SELL)
+   *   2. From limit_order_reprice_seconds on: if not fully filled, cancel it and re-post the
+   *      remaining quantity at the refreshed price; a post-only rejection waits one interval and re-prices
+   *   3. After limit_order_timeout_seconds (or a real placement failure): market order for the remainder
+   * A working exit whose stop loss is crossed goes to market at once (native SL/TP were cancelled).
+   *
+   * Every child order is registered in account.openOrders and confirmed (filled / partial) or
+   * cancelled as it resolves; the WorkingOrder record persists the fills between loops.
+   *
+   * @param quantity  Target quantity in BASE asset units
+   * @param entry     Entry sizing (buy / short), booked into the position once the order completes
+   */
+  private async startWorkingOrder(
+    account: PaperAccount,
+    symbol: string,
+    side: PendingOrder["side"],
+    quantity: number,
+    reason: string,
+    entry?: WorkingOrder["entry"]
+  ): Promise<LiveEngineResult> {
+    const symbolInfo = await this.client.getSymbolInfo(symbol);
+    const now = Date.now();
+    const working: WorkingOrder = {
+      symbol,
+      side,
+      quantity,
+      filledQty: 0,
+      fills: [],
+      startedAt: now,
+      deadline: now + this.cfg.execution.limit_order_timeout_seconds * 1000,
+      repriceAt: now,
+      reprices: 0,
+      lastPrice: 0,
+      minQty: Math.max(symbolInfo.stepSize, symbolInfo.minQty),
+      reason,
+      ...(entry && { entry }),
+    };
+    account.workingOrders ??= {};
+    account.workingOrders[symbol] = working;
+    saveAccount(account, this.scenarioId);
+    return this.advanceWorkingOrder(account, working);
+  }
+
+  /**
+   * Advance every working limit order by one step (called each monitor loop before exit checks)
+   * @returns Results of the orders that completed this round (trade booked)
+   */
+  async advanceWorkingOrders(): Promise<LiveEngineResult[]> {
+    const account = loadAccount(this.cfg.paper.initial_usdt, this.scenarioId);
+    const results: LiveEngineResult[] = [];
+    for (const working of Object.values(account.workingOrders ?? {})) {
+      try {
+        const result = await this.advanceWorkingOrder(account, working);
+        if (result.trade) results.push(result);
+      } catch (err: unknown) {
+        console.error(`[LiveExecutor] Booking limit ${working.side} ${working.symbol} failed, retrying next loop:`, err);
+      }
+    }
+    return results;
+  }
+
+  /** One step of a working order; books the trade once it completes */
+  private async advanceWorkingOrder(account: PaperAccount, working: WorkingOrder): Promise<LiveEngineResult> {
+    const done = await this.stepWorkingOrder(account, working);
+    // Persist progress first: if booking fails, the next loop finds the completed order and books it again
+    saveAccount(account, this.scenarioId);
+    if (!done) {
+      const skipped = `Limit ${working.side} ${working.symbol} working (${working.filledQty.toFixed(6)}/${working.quantity.toFixed(6)} filled)`;
+      return { trade: null, skipped, stopLossTriggered: false, stopLossTrade: null, account };
+    }
+
+    if (account.workingOrders) Reflect.deleteProperty(account.workingOrders, working.symbol);
+    const order = workingOrderResult(working);
+    const entry = working.entry ?? {
+      signalPrice: working.lastPrice,
+      usdtAmount: working.quantity * working.lastPrice,
+      balanceBefore: account.usdt,
+    };
+    switch (working.side) {
+      case "buy":
+        return this.bookLongEntry(account, working.symbol, order, working.quantity, entry, working.reason);
+      case "short":
+        return this.bookShortEntry(account, working.symbol, order, working.quantity, entry, working.reason);
+      case "sell":
+        return this.bookLongExit(account, working.symbol, order, working.lastPrice, working.reason);
+      case "cover":
+        return this.bookShortExit(account, working.symbol, order, working.lastPrice, working.reason);
+    }
+  }
+
+  /**
+   * Resolve / re-post the working child order.
+   * Exchange errors are caught here: fills so far stay on the record and the step is retried next loop.
+   * @returns true once the target quantity is filled (or the remainder is below minQty)
+   */
+  private async stepWorkingOrder(account: PaperAccount, working: WorkingOrder): Promise<boolean> {
+    const exec = this.cfg.execution;
+    const label = this.isTestnet ? "[TESTNET]" : "[LIVE]";
+    const { symbol, side } = working;
+    const repriceMs = (exec.limit_order_reprice_seconds ?? DEFAULT_LIMIT_REPRICE_SECONDS) * 1000;
+    const orderSide: OrderSide = side === "buy" || side === "cover" ? "BUY" : "SELL";
+
+    try {
+      working.lastPrice = await this.client.getPrice(symbol);
+      const now = Date.now();
+      const pos = account.positions[symbol];
+      const stopHit = pos !== undefined &&
+        (side === "sell" ? working.lastPrice <= pos.stopLoss : side === "cover" && working.lastPrice >= pos.stopLoss);
+      const expired = now >= working.deadline || stopHit;
+
+      // 1. Resolve the child order on the book (cancel it once the reprice interval has passed)
+      if (working.child) {
+        const childId = working.child.orderId;
+        let status = await this.client.getOrder(symbol, childId);
+        if (isOrderOpen(status) && (now >= working.repriceAt || expired)) {
+          try { await this.client.cancelOrder(symbol, childId); }
+          catch { /* may have filled in the meantime, final state queried below */ }
+          status = await this.client.getOrder(symbol, childId);
+        }
+        if (isOrderOpen(status)) return false;
+        this.settleWorkingChild(account, working, status);
+      }
+
+      const remaining = working.quantity - working.filledQty;
+      if (remaining < working.minQty) return true;
+      if (expired) {
+        const why = stopHit ? "stop loss crossed" : `${working.reprices} reprice(s)`;
+        console.log(`${label} Limit ${side} ${symbol}: ${remaining.toFixed(6)} unfilled after ${why}, falling back to market`);
+        await this.marketWorkingRemainder(account, working, remaining);
+        return true;
+      }
+      // Rejected / expired post-only child: wait out the reprice interval before re-posting
+      if (now < working.repriceAt) return false;
+
+      // 2. Post the remainder at the refreshed price
+      const offset = exec.limit_order_offset_percent / 100;
+      const limitPrice = orderSide === "BUY" ? working.lastPrice * (1 - offset) : working.lastPrice * (1 + offset);
+      let order: OrderResponse;
+      try {
+        order = await this.client.placeLimitOrder(symbol, orderSide, remaining, limitPrice, {
+          postOnly: exec.limit_order_post_only ?? true,
+          reduceOnly: side === "sell" || side === "cover",
+        });
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : String(err);
+        if (!isPostOnlyRejection(err)) {
+          console.warn(`${label} Limit ${side} ${symbol} placement failed, falling back to market: ${msg}`);
+          await this.marketWorkingRemainder(account, working, remaining);
+          return true;
+        }
+        console.log(`${label} Limit ${side} ${symbol} rejected as taker (post-only), re-pricing in ${repriceMs / 1000}s`);
+        working.reprices++;
+        working.repriceAt = now + repriceMs;
+        return false;
+      }
+      registerOrder(account, {
+        orderId: order.orderId,
+        symbol,
+        side,
+        placedAt: now,
+        requestedQty: remaining,
+        filledQty: 0,
+        timeoutMs: exec.limit_order_timeout_seconds * 1000,
+      });
+      working.child = { orderId: order.orderId, qty: remaining, price: limitPrice };
+      working.repriceAt = now + repriceMs;
+      if (isOrderOpen(order)) return false;
+
+      // Filled on placement, or a post-only order the venue expired instead of resting (GTX / post_only)
+      this.settleWorkingChild(account, working, order);
+      return working.quantity - working.filledQty < working.minQty;
+    } catch (err: unknown) {
+      console.warn(
+        `${label} Limit ${side} ${symbol} step failed, retrying next loop (filled ${working.filledQty.toFixed(6)}/${working.quantity.toFixed(6)}):`,
+        err instanceof Error ? err.message : err
+      );
+      return false;
+    }
+  }
+
+  /** Record the final state of a resolved child order and clear it from the working order */
+  private settleWorkingChild(account: PaperAccount, working: WorkingOrder, status: OrderResponse): void {
+    const child = working.child;
+    if (!child) return;
+    const execQty = parseFloat(status.executedQty) || 0;
+    confirmOrder(account, child.orderId, execQty, child.qty);
+    if (status.status !== "FILLED") cancelOrder(account, child.orderId);
+    if (execQty > 0) {
+      working.filledQty += execQty;
+      working.fills.push(...fillsOf(status, child.price));
+      working.lastOrderId = child.orderId;
+      working.lastFillTime = status.transactTime;
+    }
+    if (status.status !== "FILLED" && working.quantity - working.filledQty >= working.minQty) working.reprices++;
+    Reflect.deleteProperty(working, "child");
+  }
+
+  /** Market order for the unfilled remainder of a working order */
+  private async marketWorkingRemainder(account: PaperAccount, working: WorkingOrder, remaining: number): Promise<void> {
+    const { symbol, side } = working;
+    const marketOrder = side === "buy" || side === "cover"
+      ? await this.client.marketBuyByQty(symbol, remaining)
+      : await this.client.marketSell(symbol, remaining);
+    const execQty = parseFloat(marketOrder.executedQty) || 0;
+    registerOrder(account, {
+      orderId: marketOrder.orderId,
+      symbol,
+      side,
+      placedAt: Date.now(),
+      requestedQty: remaining,
+      filledQty: 0,
+      timeoutMs: (this.cfg.execution.order_timeout_seconds ?? 30) * 1000,
+    });
+    confirmOrder(account, marketOrder.orderId, execQty, remaining);
+    if (execQty > 0) {
+      working.filledQty += execQty;
+      working.fills.push(...fillsOf(marketOrder, working.lastPrice));
+      working.lastOrderId = marketOrder.orderId;
+      working.lastFillTime = marketOrder.transactTime;
+    }
+  }
+
   // ─────────────────────────────────────────────────────
   // Strategy-driven DCA (adjustPosition hook)
   // ─────────────────────────────────────────────────────
@@ -1054,7 +1684,7 @@ export class LiveExecutor {
     const label = this.isTestnet ? "[TESTNET]" : "[LIVE]";
 
     for (const [symbol, pos] of Object.entries(account.positions)) {
-      if (!pos.dcaState) continue;
+      if (!pos.dcaState || account.workingOrders?.[symbol]) continue;
       const dca = pos.dcaState;
 
       const currentPrice = prices[symbol];
@@ -1156,6 +1786,151 @@ export class LiveExecutor {
     return results;
   }
 
+  /**
+   * Strategy-driven add/reduce for one symbol (adjustPosition hook, e.g. the grid plugin).
+   * Same rules as the paper engine's applyStrategyAdjustment(): adjustEveryCycle strategies only,
+   * long positions outside DCA tranche management; reducing everything closes the position through handleSell().
+   */
+  async applyStrategyAdjustment(
+    symbol: string,
+    price: number,
+    ctx: StrategyContext
+  ): Promise<{ symbol: string; side: "add" | "reduce"; usdtAmount: number } | null> {
+    if (this.strategy?.adjustPosition === undefined || this.strategy.adjustEveryCycle !== true) return null;
+    const account = loadAccount(this.cfg.paper.initial_usdt, this.scenarioId);
+    const pos = account.positions[symbol];
+    if (!pos || pos.side === "short" || pos.entryPrice <= 0) return null;
+    if (pos.dcaState && this.cfg.risk.dca?.enabled) return null;
+    if (account.workingOrders?.[symbol]) return null; // exit being worked as a limit order
+
+    const costBasis = pos.quantity * pos.entryPrice;
+    const amount = this.strategy.adjustPosition(
+      {
+        symbol,
+        side: "long",
+        entryPrice: pos.entryPrice,
+        currentPrice: price,
+        quantity: pos.quantity,
+        costBasis,
+        profitRatio: (price - pos.entryPrice) / pos.entryPrice,
+        holdMs: Date.now() - pos.entryTime,
+        dcaCount: pos.adjustCount ?? 0,
+      },
+      ctx
+    );
+    if (amount === null || amount === 0) return null;
+    const label = this.isTestnet ? "[TESTNET]" : "[LIVE]";
+
+    if (amount > 0 && (amount < this.cfg.execution.min_order_usdt || amount > account.usdt)) return null;
+    const reduceUsdt = -amount;
+    if (amount < 0 && reduceUsdt / price >= pos.quantity * (1 - 1e-9)) {
+      const result = await this.handleSell(symbol, price, `adjustPosition reduce $${reduceUsdt.toFixed(2)}`);
+      return result.trade ? { symbol, side: "reduce", usdtAmount: result.trade.usdtAmount } : null;
+    }
+
+    // Native SL/TP cover the old quantity: cancel before trading, re-place for the new quantity afterwards
+    await this.cancelProtectiveOrders(symbol, pos);
+    try {
+      if (amount > 0) {
+        const requestedQty = amount / price;
+        const order = await this.client.marketBuy(symbol, amount);
+        registerOrder(account, {
+          orderId: order.orderId,
+          symbol,
+          side: "buy",
+          placedAt: Date.now(),
+          requestedQty,
+          filledQty: 0,
+          timeoutMs: (this.cfg.execution.order_timeout_seconds ?? 30) * 1000,
+        });
+        const execQty = parseFloat(order.executedQty);
+        if (!(execQty > 0)) return null; // stays pending for checkOrderTimeouts / scanOpenOrders
+        confirmOrder(account, order.orderId, execQty, requestedQty);
+        const trade = orderToPaperTrade(order, "buy", `adjustPosition add $${amount.toFixed(2)}`);
+        const fillPrice = trade.price > 0 ? trade.price : price;
+        pos.quantity += execQty;
+        pos.entryPrice = (costBasis + execQty * fillPrice) / pos.quantity;
+        pos.adjustCount = (pos.adjustCount ?? 0) + 1;
+        account.usdt -= trade.price > 0 ? trade.usdtAmount : execQty * price;
+        account.trades.push(trade);
+        console.log(`${label} [adjustPosition] ${symbol} added $${(execQty * fillPrice).toFixed(2)}`);
+        return { symbol, side: "add", usdtAmount: execQty * fillPrice };
+      }
+
+      const reduceQty = reduceUsdt / price;
+      const order = await this.client.marketSell(symbol, reduceQty);
+      registerOrder(account, {
+        orderId: order.orderId,
+        symbol,
+        side: "sell",
+        placedAt: Date.now(),
+        requestedQty: reduceQty,
+        filledQty: 0,
+        timeoutMs: (this.cfg.execution.order_timeout_seconds ?? 30) * 1000,
+      });
+      const execQty = parseFloat(order.executedQty);
+      if (!(execQty > 0)) return null;
+      confirmOrder(account, order.orderId, execQty, reduceQty);
+      const trade = orderToPaperTrade(order, "sell", `adjustPosition reduce $${reduceUsdt.toFixed(2)}`);
+      const cost = execQty * pos.entryPrice;
+      trade.pnl = trade.usdtAmount - cost;
+      trade.pnlPercent = cost > 0 ? trade.pnl / cost : 0;
+      if (trade.pnl < 0) account.dailyLoss.loss += Math.abs(trade.pnl);
+      pos.quantity -= execQty;
+      account.usdt += trade.usdtAmount;
+      account.trades.push(trade);
+      console.log(`${label} [adjustPosition] ${symbol} reduced $${trade.usdtAmount.toFixed(2)}`);
+      return { symbol, side: "reduce", usdtAmount: trade.usdtAmount };
+    } catch (err) {
+      const action = amount > 0 ? "add" : "reduce";
+      console.warn(`${label} [adjustPosition] ${symbol} ${action} failed:`, err instanceof Error ? err.message : err);
+      return null;
+    } finally {
+      await this.placeProtectiveOrders(symbol, pos);
+      cleanupOrders(account);
+      saveAccount(account, this.scenarioId);
+    }
+  }
+
+  /**
+   * Cancel a long position's native take profit and stop loss orders (before its quantity changes)
+   */
+  private async cancelProtectiveOrders(symbol: string, pos: PaperPosition): Promise<void> {
+    if (pos.takeProfitOrderId !== undefined) {
+      try { await this.client.cancelOrder(symbol, pos.takeProfitOrderId); }
+      catch { /* may already be filled or not exist, ignore */ }
+      delete pos.takeProfitOrderId;
+    }
+    if (pos.exchangeSlOrderId !== undefined) {
+      await this.cancelExchangeStopLoss(symbol, pos.exchangeSlOrderId);
+    } else if (pos.stopLossOrderId !== undefined) {
+      try { await this.client.cancelOrder(symbol, pos.stopLossOrderId); }
+      catch { /* may already be filled, ignore */ }
+    }
+    delete pos.exchangeSlOrderId;
+    delete pos.exchangeSlPrice;
+    delete pos.stopLossOrderId;
+  }
+
+  /**
+   * Place native stop loss / take profit orders for a long position's current quantity
+   * (after cancelProtectiveOrders; failures fall back to local polling like bookLongEntry)
+   */
+  private async placeProtectiveOrders(symbol: string, pos: PaperPosition): Promise<void> {
+    const exchangeSlOrderId = await this.placeExchangeStopLoss(symbol, "long", pos.quantity, pos.stopLoss);
+    if (exchangeSlOrderId !== null) {
+      pos.stopLossOrderId = exchangeSlOrderId;
+      pos.exchangeSlOrderId = exchangeSlOrderId;
+      pos.exchangeSlPrice = pos.stopLoss;
+    }
+    try {
+      const tpOrder = await this.client.placeTakeProfitOrder(symbol, "SELL", pos.quantity, pos.takeProfit);
+      if (tpOrder.orderId !== -1) pos.takeProfitOrderId = tpOrder.orderId;
+    } catch (err) {
+      console.warn(`[LiveExecutor] Take profit order placement failed ${symbol}:`, err instanceof Error ? err.message : err);
+    }
+  }
+
   // ─────────────────────────────────────────────────────
   // Force exit (P7.2)
   // ─────────────────────────────────────────────────────
@@ -17,15 +17,11 @@
  */
 
 import type { PaperAccount } from "../paper/account.js";
+import type { ExchangePosition } from "../exchange/adapter.js";
 
 // ─── Types ──────────────────────────────────────────────
 
-export interface ExchangePosition {
-  symbol: string;
-  side: "long" | "short";
-  qty: number;       // Quantity (base asset)
-  avgPrice: number;  // Average price
-}
+export type { ExchangePosition };
 
 export interface ReconcileDiscrepancy {
   symbol: string;
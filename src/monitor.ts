@@ -14,23 +14,32 @@ import { DataProvider } from "./exchange/data-provider.js";
 import { notifySignal, notifyError, notifyPaperTrade, notifyStopLoss } from "./notify/openclaw.js";
 import {
   handleSignal,
+  handleMultiLegSignal,
   checkExitConditions,
   checkMaxDrawdown,
   checkDailyLossLimit,
   checkDcaTranches,
+  applyStrategyAdjustment,
   formatSummaryMessage,
 } from "./paper/engine.js";
-import { loadNewsReport, evaluateSentimentGate } from "./news/sentiment-gate.js";
+import { loadNewsReport, evaluateSentimentGate, sentimentGateInputs } from "./news/sentiment-gate.js";
 import { checkMtfFilter } from "./strategy/mtf-filter.js";
 import { loadRecentTrades } from "./strategy/recent-trades.js";
+import { readSignalHistory } from "./strategy/signal-history.js";
+import type { SignalRecord } from "./strategy/signal-history.js";
 import { readSentimentCache } from "./news/sentiment-cache.js";
-import { processSignal } from "./strategy/signal-engine.js";
+import { processSignal, recordRejection } from "./strategy/signal-engine.js";
+import type { EngineRejection } from "./strategy/signal-engine.js";
+import { signalWarmupBars } from "./strategy/signals.js";
+import { getStrategy } from "./strategies/registry.js";
+import { createScenarioStateStore } from "./strategies/state-store.js";
 import { fetchFundingRatePct } from "./strategy/funding-rate-signal.js";
 import { getBtcDominanceTrend } from "./strategy/btc-dominance.js";
 import { readEmergencyHalt } from "./news/emergency-monitor.js";
 import { checkEventRisk, loadCalendar } from "./strategy/events-calendar.js";
 import { readCvdCache } from "./exchange/order-flow.js";
 import { calcKellyRatio } from "./strategy/kelly.js";
+import { DEFAULT_PAIRS_LOOKBACK } from "./strategy/pairs.js";
 import { loadAccount } from "./paper/account.js";
 import type { PaperAccount } from "./paper/account.js";
 import {
@@ -41,44 +50,67 @@ import {
 import type { PositionWeight } from "./strategy/portfolio-risk.js";
 import { ping } from "./health/heartbeat.js";
 import { isKillSwitchActive } from "./health/kill-switch.js";
-import { loadRuntimeConfigs } from "./config/loader.js";
+import { loadScenarioState, saveScenarioState } from "./paper/scenario-state.js";
+import type { ScenarioState } from "./paper/scenario-state.js";
+import { assertValidConfig, loadRuntimeConfigs } from "./config/loader.js";
 import type { RuntimeConfig, Signal, Indicators, Kline } from "./types.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const log = createLogger("monitor", path.resolve(__dirname, "../logs/monitor.log"));
-// Per-scenario pause state: logs/state-{scenarioId}.json
-function getStatePath(scenarioId: string): string {
-  return path.resolve(__dirname, `../logs/state-${scenarioId}.json`);
-}
 
 // ─────────────────────────────────────────────────────
 // Utilities
 // ─────────────────────────────────────────────────────
 
-interface MonitorState {
-  lastSignals: Record<string, { type: string; timestamp: number }>;
-  lastReportAt: number;
-  paused: boolean;
+function shouldNotify(state: ScenarioState, signal: Signal, minIntervalMinutes: number): boolean {
+  const last = state.lastSignals[signal.symbol];
+  if (last?.type !== signal.type) return true;
+  return (Date.now() - last.timestamp) / 60000 >= minIntervalMinutes;
 }
 
-function loadState(scenarioId: string): MonitorState {
-  try {
-    return JSON.parse(fs.readFileSync(getStatePath(scenarioId), "utf-8")) as MonitorState;
-  } catch (_e: unknown) {
-    // First creation: set lastReportAt to current time to avoid triggering empty report on first run
-    return { lastSignals: {}, lastReportAt: Date.now(), paused: false };
-  }
-}
+// ─────────────────────────────────────────────────────
+// Multi-leg scan (strategies trading several symbols as one unit, e.g. pairs)
+// ─────────────────────────────────────────────────────
 
-function saveState(scenarioId: string, state: MonitorState): void {
-  fs.mkdirSync(path.dirname(getStatePath(scenarioId)), { recursive: true });
-  fs.writeFileSync(getStatePath(scenarioId), JSON.stringify(state, null, 2));
-}
+function scanMultiLeg(
+  cfg: RuntimeConfig,
+  currentPrices: Record<string, number>,
+  scenarioPrefix: string,
+  provider: DataProvider
+): void {
+  const strategy = getStrategy(cfg.strategy_id ?? "default");
+  if (strategy.populateMultiSignal === undefined || cfg.mode !== "paper") return;
+  try {
+    const klinesBySymbol: Record<string, Kline[]> = {};
+    const prices: Record<string, number> = {};
+    for (const sym of cfg.symbols) {
+      const kl = provider.get(sym, cfg.timeframe);
+      const last = kl?.[kl.length - 1];
+      if (!kl || !last) continue;
+      klinesBySymbol[sym] = kl;
+      prices[sym] = currentPrices[sym] ?? last.close;
+    }
+    const positions: Record<string, "long" | "short"> = {};
+    for (const [sym, pos] of Object.entries(loadAccount(cfg.paper.initial_usdt, cfg.paper.scenarioId).positions)) {
+      positions[sym] = pos.side ?? "long";
+    }
 
-function shouldNotify(state: MonitorState, signal: Signal, minIntervalMinutes: number): boolean {
-  const last = state.lastSignals[signal.symbol];
-  if (last?.type !== signal.type) return true;
-  return (Date.now() - last.timestamp) / 60000 >= minIntervalMinutes;
+    const signal = strategy.populateMultiSignal({ klinesBySymbol, cfg, positions });
+    if (!signal) return;
+    const result = handleMultiLegSignal(signal, prices, cfg);
+    if (result.skipped) {
+      log.info(`${scenarioPrefix}⏭️ ${result.skipped}`);
+      return;
+    }
+    for (const trade of result.trades) {
+      log.info(`${scenarioPrefix}${trade.symbol}: 📝 Paper ${trade.side} @${trade.price.toFixed(4)} (${signal.reason})`);
+      notifyPaperTrade(trade, result.account);
+    }
+  } catch (err: unknown) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    log.error(`${scenarioPrefix}multi-leg: Error - ${error.message}`);
+    if (cfg.notify.on_error) notifyError("multi-leg", error);
+  }
 }
 
 // ─────────────────────────────────────────────────────
@@ -88,7 +120,7 @@ function shouldNotify(state: MonitorState, signal: Signal, minIntervalMinutes: n
 async function scanSymbol(
   symbol: string,
   cfg: RuntimeConfig,
-  state: MonitorState,
+  state: ScenarioState,
   currentPrices: Record<string, number>,
   scenarioPrefix: string,
   provider: DataProvider
@@ -98,7 +130,7 @@ async function scanSymbol(
     const macdMinBars = cfg.strategy.macd.enabled
       ? cfg.strategy.macd.slow + cfg.strategy.macd.signal + 1
       : 0;
-    const limit = Math.max(cfg.strategy.ma.long, cfg.strategy.rsi.period, macdMinBars) + 10;
+    const limit = Math.max(cfg.strategy.ma.long, cfg.strategy.rsi.period, macdMinBars, signalWarmupBars(cfg)) + 10;
 
     // Prefer DataProvider cache (reduce duplicate API requests)
     let klines = provider.get(symbol, cfg.timeframe);
@@ -168,6 +200,11 @@ async function scanSymbol(
 
     // ── Unified signal engine (F3) ────────────────────────────────
     const onchainSignal = readOnchainSignal();
+    // F4 plugins keep per-symbol state across runs (scenario-scoped file store)
+    const strategyId = cfg.strategy_id ?? "default";
+    const stateStore = strategyId !== "default"
+      ? createScenarioStateStore(strategyId, cfg.paper.scenarioId, symbol)
+      : undefined;
     const externalCtx = {
       ...(externalCvd !== undefined ? { cvd: externalCvd } : {}),
       ...(externalFundingRate !== undefined ? { fundingRate: externalFundingRate } : {}),
@@ -176,14 +213,31 @@ async function scanSymbol(
       ...(currentPosSide !== undefined ? { currentPosSide } : {}),
       ...(Object.keys(heldKlinesMap).length > 0 ? { heldKlinesMap } : {}),
       ...(onchainSignal !== undefined ? { stablecoinSignal: onchainSignal } : {}),
+      ...(stateStore !== undefined ? { stateStore } : {}),
     };
     const recentTrades = loadRecentTrades();
     const engineResult = processSignal(symbol, klines, cfg, externalCtx, recentTrades);
 
     if (!engineResult.indicators) return;
 
+    // Strategy-driven add/reduce on the held position (opt-in adjustPosition hook, e.g. grid levels)
+    const adjustStrategy = getStrategy(strategyId);
+    if (cfg.mode === "paper" && adjustStrategy.adjustEveryCycle === true && currentPosSide !== undefined && stateStore !== undefined) {
+      const adjustTrade = applyStrategyAdjustment(symbol, engineResult.indicators.price, cfg, adjustStrategy, {
+        klines, cfg, indicators: engineResult.indicators, currentPosSide, stateStore,
+      });
+      if (adjustTrade) {
+        log.info(`${scenarioPrefix}${symbol}: 📝 Paper ${adjustTrade.reason} @${adjustTrade.price.toFixed(4)}`);
+        notifyPaperTrade(adjustTrade, loadAccount(cfg.paper.initial_usdt, cfg.paper.scenarioId));
+      }
+    }
+
     const { indicators, signal, effectiveRisk, effectivePositionRatio, rejected, rejectionReason, regimeLabel } = engineResult;
     const regimeEffectiveRisk = effectiveRisk;
+    // Filtered signal logging: the signal history keeps what each filter turned down
+    const reject = (rejection: EngineRejection): void => {
+      recordRejection(signal, cfg, regimeEffectiveRisk, rejection, "paper", engineResult.regime);
+    };
 
     currentPrices[symbol] = indicators.price;
 
@@ -203,6 +257,7 @@ async function scanSymbol(
 
     if (rejected) {
       log.info(`${scenarioPrefix}${symbol}: 🚫 ${rejectionReason ?? "filtered"}`);
+      if (engineResult.rejection) reject(engineResult.rejection);
       return;
     }
 
@@ -222,6 +277,11 @@ async function scanSymbol(
       const emergencyState = readEmergencyHalt();
       if (emergencyState.halt) {
         log.warn(`${scenarioPrefix}${symbol}: ⛔ Emergency halt: ${emergencyState.reason ?? "Breaking high-risk news"}`);
+        reject({
+          filter: "emergency_halt",
+          reason: emergencyState.reason ?? "Breaking high-risk news",
+          inputs: { keywords: emergencyState.keywords, triggeredAt: emergencyState.triggeredAt, source: emergencyState.source },
+        });
         return;
       }
     }
@@ -232,6 +292,7 @@ async function scanSymbol(
         const eventRisk = checkEventRisk(loadCalendar());
         if (eventRisk.phase === "during") {
           log.info(`${scenarioPrefix}${symbol}: ⏸ Event window active (${eventRisk.eventName}), pausing entries`);
+          reject({ filter: "event_calendar", reason: `Event window active (${eventRisk.eventName})`, inputs: { ...eventRisk } });
           return;
         }
         // pre / post phase: log only, sentiment gate will further adjust on top of this
@@ -246,11 +307,13 @@ async function scanSymbol(
     // MTF filter: buy signal but higher timeframe is bearish -> skip
     if (signal.type === "buy" && mtfTrendBull === false) {
       log.info(`${scenarioPrefix}${symbol}: 🚫 MTF trend filter: ${cfg.trend_timeframe} bearish, ignoring 1h buy signal`);
+      reject({ filter: "mtf", reason: `${cfg.trend_timeframe} bearish`, inputs: { trendTimeframe: cfg.trend_timeframe, trendBull: false } });
       return;
     }
     // MTF filter: short signal but higher timeframe is bullish -> skip
     if (signal.type === "short" && mtfTrendBull === true) {
       log.info(`${scenarioPrefix}${symbol}: 🚫 MTF trend filter: ${cfg.trend_timeframe} bullish, ignoring 1h short signal`);
+      reject({ filter: "mtf", reason: `${cfg.trend_timeframe} bullish`, inputs: { trendTimeframe: cfg.trend_timeframe, trendBull: true } });
       return;
     }
 
@@ -261,7 +324,10 @@ async function scanSymbol(
     const sentimentCache = readSentimentCache();  // Read LLM sentiment cache from disk
     const gate = evaluateSentimentGate(signal, newsReport, baseForGate, sentimentCache);
     log.info(`${scenarioPrefix}${symbol}: Sentiment gate -> ${gate.action} (${gate.reason})`);
-    if (gate.action === "skip") return;
+    if (gate.action === "skip") {
+      reject({ filter: "sentiment", reason: gate.reason, inputs: sentimentGateInputs(newsReport, sentimentCache, baseForGate) });
+      return;
+    }
 
     if (cfg.mode === "paper") {
       let effectiveRatio = "positionRatio" in gate ? gate.positionRatio : baseForGate;
@@ -272,22 +338,17 @@ async function scanSymbol(
         (signal.type === "buy" || signal.type === "short")
       ) {
         try {
-          const histPath = path.resolve(path.dirname(new URL(import.meta.url).pathname), "../../logs/signal-history.jsonl");
-          if (fs.existsSync(histPath)) {
-            const lines = fs.readFileSync(histPath, "utf-8").split("\n").filter(Boolean);
-            const closed = lines
-              .map((l) => { try { return JSON.parse(l) as { status: string; pnlPercent?: number }; } catch { return null; } })
-              .filter((r): r is { status: string; pnlPercent: number } => r?.status === "closed" && r.pnlPercent !== undefined);
-            const kellyResult = calcKellyRatio(closed, {
-              ...(cfg.risk.kelly_lookback !== undefined ? { lookback: cfg.risk.kelly_lookback } : {}),
-              ...(cfg.risk.kelly_half !== undefined ? { half: cfg.risk.kelly_half } : {}),
-              ...(cfg.risk.kelly_min_ratio !== undefined ? { minRatio: cfg.risk.kelly_min_ratio } : {}),
-              ...(cfg.risk.kelly_max_ratio !== undefined ? { maxRatio: cfg.risk.kelly_max_ratio } : {}),
-              fallback: cfg.risk.position_ratio,
-            });
-            log.info(`${scenarioPrefix}${symbol}: 🎯 Kelly → ${kellyResult.reason}`);
-            effectiveRatio = kellyResult.ratio;
-          }
+          const closed = readSignalHistory()
+            .filter((r): r is SignalRecord & { pnlPercent: number } => r.status === "closed" && r.pnlPercent !== undefined);
+          const kellyResult = calcKellyRatio(closed, {
+            ...(cfg.risk.kelly_lookback !== undefined ? { lookback: cfg.risk.kelly_lookback } : {}),
+            ...(cfg.risk.kelly_half !== undefined ? { half: cfg.risk.kelly_half } : {}),
+            ...(cfg.risk.kelly_min_ratio !== undefined ? { minRatio: cfg.risk.kelly_min_ratio } : {}),
+            ...(cfg.risk.kelly_max_ratio !== undefined ? { maxRatio: cfg.risk.kelly_max_ratio } : {}),
+            fallback: cfg.risk.position_ratio,
+          });
+          log.info(`${scenarioPrefix}${symbol}: 🎯 Kelly → ${kellyResult.reason}`);
+          effectiveRatio = kellyResult.ratio;
         } catch (e: unknown) { log.warn(`${scenarioPrefix}${symbol}: ⚠️ Kelly calculation failed: ${e instanceof Error ? e.message : String(e)}`); }
       }
 
@@ -312,7 +373,14 @@ async function scanSymbol(
               klinesBySymbol,
             );
             log.info(`${scenarioPrefix}${symbol}: 📊 Portfolio heat ${(portfolioHeat.heat * 100).toFixed(0)}% -> ${portfolioHeat.decision} (${portfolioHeat.reason})`);
-            if (portfolioHeat.decision === "blocked") return;
+            if (portfolioHeat.decision === "blocked") {
+              reject({
+                filter: "correlation",
+                reason: portfolioHeat.reason,
+                inputs: { heat: portfolioHeat.heat, contributions: portfolioHeat.contributions, baseRatio: effectiveRatio },
+              });
+              return;
+            }
             effectiveRatio = portfolioHeat.adjustedPositionRatio;
           }
         } catch (e: unknown) { log.warn(`${scenarioPrefix}${symbol}: ⚠️ Portfolio heat calculation failed: ${e instanceof Error ? e.message : String(e)}`); }
@@ -399,7 +467,7 @@ async function runScenario(cfg: RuntimeConfig): Promise<void> {
   const sid = cfg.paper.scenarioId;
   const marketLabel = `[${cfg.exchange.market.toUpperCase()}${cfg.exchange.leverage?.enabled ? ` ${cfg.exchange.leverage.default}x` : ""}]`;
   const prefix = `${marketLabel} `;
-  const state = loadState(sid);
+  const state = loadScenarioState(sid);
 
   // P6.2 pairlist override
   const heldSymbols = Object.keys(loadAccount(cfg.paper.initial_usdt, sid).positions);
@@ -409,7 +477,7 @@ async function runScenario(cfg: RuntimeConfig): Promise<void> {
   // When paused / Kill Switch active, still run stop-loss/take-profit checks to avoid unmanaged positions
   // Only skip "new signal scan" part; exit conditions must continue executing
   if (state.paused || isKillSwitchActive()) {
-    if (state.paused) log.warn(`${prefix}⚠️ Strategy paused (max loss limit triggered)`);
+    if (state.paused) log.warn(`${prefix}⚠️ Strategy paused (max loss limit or operator)`);
     if (isKillSwitchActive()) log.warn(`${prefix}⛔ Kill Switch active, skipping scan`);
 
     // Fetch real-time prices for held symbols separately, run stop-loss/take-profit
@@ -438,7 +506,8 @@ async function runScenario(cfg: RuntimeConfig): Promise<void> {
   const macdMinBars = cfg.strategy.macd.enabled
     ? cfg.strategy.macd.slow + cfg.strategy.macd.signal + 1
     : 0;
-  const klineLimit = Math.max(cfg.strategy.ma.long, cfg.strategy.rsi.period, macdMinBars) + 11;
+  const pairsBars = cfg.pairs ? (cfg.pairs.lookback ?? DEFAULT_PAIRS_LOOKBACK) + 1 : 0;
+  const klineLimit = Math.max(cfg.strategy.ma.long, cfg.strategy.rsi.period, macdMinBars, pairsBars, signalWarmupBars(cfg)) + 11;
   const provider = new DataProvider(30);
   await provider.refresh(cfg.symbols, cfg.timeframe, klineLimit);
   // MTF pre-fetch (if trend_timeframe is configured)
@@ -453,6 +522,7 @@ async function runScenario(cfg: RuntimeConfig): Promise<void> {
     const batch = cfg.symbols.slice(i, i + BATCH);
     await Promise.all(batch.map((sym) => scanSymbol(sym, cfg, state, currentPrices, prefix, provider)));
   }
+  scanMultiLeg(cfg, currentPrices, prefix, provider);
 
   // Stop-loss / take-profit / trailing-stop check
   if (Object.keys(currentPrices).length > 0) {
@@ -545,7 +615,8 @@ async function runScenario(cfg: RuntimeConfig): Promise<void> {
     }
   } catch { /* exposure summary failure doesn't affect main flow */ }
 
-  saveState(sid, state);
+  // An operator may have paused the scenario from the dashboard while this run was in flight
+  saveScenarioState(sid, { ...state, paused: state.paused || loadScenarioState(sid).paused });
 }
 
 // ─────────────────────────────────────────────────────
@@ -559,6 +630,7 @@ async function main(): Promise<void> {
   }
   const done = ping("price_monitor");
 
+  assertValidConfig();
   const runtimes = loadRuntimeConfigs();
   const firstRuntime = runtimes[0];
   if (!firstRuntime) { log.warn("No available strategy config"); return; }
@@ -8,6 +8,7 @@
  *   Solution: Async cache pattern
  *   1. After each evening market analysis (cron / manual `npm run analysis`),
  *      write the AI agent's sentiment analysis results to logs/sentiment-cache.json
+ *      (a "cache" document in SQLite when persistence.backend = sqlite)
  *   2. sentiment-gate.ts reads cache first (TTL 6h)
  *   3. Cache expired -> fall back to keyword matching (no loss of functionality, only reduced precision)
  *
@@ -17,9 +18,9 @@
  *   - As AI agent analysis quality improves, trading decisions also continuously improve
  */
 
-import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { readStateDocument, writeStateDocument } from "../persistence/store.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const CACHE_PATH = path.resolve(__dirname, "../../logs/sentiment-cache.json");
@@ -71,8 +72,8 @@ const CACHE_TTL_MS = 6 * 3600 * 1000; // 6-hour validity period
  */
 export function readSentimentCache(maxAgeMs = CACHE_TTL_MS): SentimentCache | null {
   try {
-    const raw = fs.readFileSync(CACHE_PATH, "utf-8");
-    const cache = JSON.parse(raw) as SentimentCache;
+    const cache = readStateDocument<SentimentCache>("cache", "sentiment", CACHE_PATH);
+    if (!cache) return null;
     const age = Date.now() - cache.overall.updatedAt;
     if (age > maxAgeMs) return null; // Expired
     return cache;
@@ -126,8 +127,7 @@ export function writeSentimentCache(params: {
     ...(byAsset !== undefined && { byAsset }),
   };
 
-  fs.mkdirSync(path.dirname(CACHE_PATH), { recursive: true });
-  fs.writeFileSync(CACHE_PATH, JSON.stringify(cache, null, 2), "utf-8");
+  writeStateDocument("cache", "sentiment", CACHE_PATH, cache);
 }
 
 /**
@@ -154,8 +154,7 @@ export function writeKeywordSentimentCache(score: number, headlineCount: number)
 
   const cache: SentimentCache = { overall: entry, version: 2 };
   try {
-    fs.mkdirSync(path.dirname(CACHE_PATH), { recursive: true });
-    fs.writeFileSync(CACHE_PATH, JSON.stringify(cache, null, 2), "utf-8");
+    writeStateDocument("cache", "sentiment", CACHE_PATH, cache);
   } catch { /* Write failure does not block main flow */ }
 }
 
@@ -85,6 +85,28 @@ export function loadNewsReport(): NewsReport | null {
   }
 }
 
+/** Snapshot of what the gate decided on (stored with signals it skips) */
+export function sentimentGateInputs(
+  report: NewsReport | null,
+  sentimentCache: SentimentCache | null | undefined,
+  baseRatio: number
+): Record<string, unknown> {
+  return {
+    baseRatio,
+    ...(report && {
+      newsSentiment: report.sentiment,
+      fearGreed: report.fearGreed.value,
+      fgAlert: report.fgAlert,
+      fgDelta: report.fgDelta,
+    }),
+    ...(sentimentCache && {
+      cachedScore: sentimentCache.overall.score,
+      cachedLabel: sentimentCache.overall.label,
+      cachedSource: sentimentCache.overall.source,
+    }),
+  };
+}
+
 /**
  * Determine how to handle a signal based on news sentiment
  *
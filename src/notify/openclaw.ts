@@ -163,6 +163,19 @@ export function notifyError(context: string, error: Error): void {
   sendToAgent(msg);
 }
 
+/** Config hot-reload applied by a long-running monitor: one line per change */
+export function notifyConfigReload(monitor: string, changes: string[]): void {
+  const msg = [
+    `🔄 **[Config Reloaded]** ${monitor}`,
+    ``,
+    ...changes.map((c) => `  • ${c}`),
+    ``,
+    `🕐 Time: ${new Date().toLocaleString("en-US")}`,
+  ].join("\n");
+
+  sendToAgent(msg);
+}
+
 /** Paper trade notification */
 export function notifyPaperTrade(trade: PaperTrade, account: PaperAccount): void {
   // Accurately display long/short operation direction
@@ -1,8 +1,11 @@
 /**
  * P6.6 Auto Walk-Forward — Automatic Walk-Forward Optimization Scheduler
  *
- * Periodically runs Hyperopt for each monitored symbol. If OOS performance
- * significantly outperforms current parameters, auto-updates config and returns a report.
+ * Periodically runs Hyperopt for each monitored symbol. New parameters are written only when
+ * they survive overfitting checks on the full history (combinatorial purged CV, PBO and the
+ * deflated Sharpe ratio, see backtest/cpcv.ts); a raw OOS Sharpe gain after N trials is not enough.
+ * The tuned parameters are the config's search space (paramSpaceFor): a declared
+ * hyperopt_space, the strategy plugin's paramSpace, or the built-in MA/RSI/risk space.
  */
 
 import fs from "fs";
@@ -10,16 +13,20 @@ import path from "path";
 import { fileURLToPath } from "url";
 import { parse, stringify } from "yaml";
 import { fetchHistoricalKlines } from "../backtest/fetcher.js";
-import { loadStrategyConfig } from "../config/loader.js";
+import { loadStrategyConfig, loadStrategyProfile, applyStrategyProfile } from "../config/loader.js";
 import { BayesianOptimizer, splitKlines } from "../optimization/bayesian.js";
 import { evaluateParams, applyParams } from "../optimization/objective.js";
-import { DEFAULT_PARAM_SPACE } from "../optimization/param-space.js";
+import { paramSpaceFor, paramsFromConfig, isParamActive } from "../optimization/param-space.js";
+import { getPath, setPath } from "../optimization/config-path.js";
+import { alignedReturns, deflatedSharpe, runCpcv, sharpeOf, DEFAULT_CPCV } from "../backtest/cpcv.js";
+import type { CpcvOptions } from "../backtest/cpcv.js";
 import type { StrategyConfig, Kline } from "../types.js";
-import type { ParamSet } from "../optimization/param-space.js";
+import type { ParamDef, ParamSet } from "../optimization/param-space.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const STATE_FILE = path.resolve(__dirname, "../../logs/auto-wf-state.json");
 const CONFIG_FILE = path.resolve(__dirname, "../../config/strategy.yaml");
+const PROFILES_DIR = path.resolve(__dirname, "../../config/strategies");
 
 // ─────────────────────────────────────────────────────
 // Public Interface
@@ -33,11 +40,17 @@ export interface AutoWfConfig {
   trials: number;
   /** Training set ratio (default 0.7) */
   trainRatio: number;
-  /** OOS Sharpe minimum improvement threshold (default 5%, i.e. +5%) */
-  minImprovementPct: number;
+  /** Maximum probability of backtest overfitting to accept new params (default 0.5) */
+  maxPbo: number;
+  /** Minimum deflated Sharpe ratio (probability the edge is real after N trials, default 0.95) */
+  minDeflatedSharpe: number;
+  /** CPCV split settings (default 6 groups, 2 test groups, 1% purge / embargo) */
+  cpcv?: CpcvOptions;
   /** When true, do not write config file */
   dryRun: boolean;
   seed?: number;
+  /** Strategy profile to tune (config/strategies/<id>.yaml, which is the file updated). Default strategy.yaml */
+  strategy?: string;
 }
 
 export interface SymbolWfResult {
@@ -46,15 +59,33 @@ export interface SymbolWfResult {
   currentSharpe: number;
   /** OOS result with optimized parameters */
   newSharpe: number;
-  /** (newSharpe - currentSharpe) / |currentSharpe| * 100 */
+  /** (newSharpe - currentSharpe) / |currentSharpe| * 100 (reported only; not an update criterion) */
   improvementPct: number;
   bestParams: ParamSet;
+  /** Overfitting checks (absent when the symbol failed) */
+  validation?: WfValidation;
+  /** Why new params were not written (empty when every check passed) */
+  rejectReasons?: string[];
   /** Whether the config was actually updated */
   updated: boolean;
   /** Error message if this symbol failed */
   error?: string;
 }
 
+export interface WfValidation {
+  /** Number of CPCV splits */
+  splits: number;
+  /** Probability of backtest overfitting of the hyperopt selection */
+  pbo: number;
+  /** Deflated Sharpe ratio of the best trial (0..1) */
+  deflatedSharpe: number;
+  /** Median annualized CPCV out-of-sample Sharpe: best params vs current params */
+  bestCpcvSharpe: number;
+  currentCpcvSharpe: number;
+  /** Share of CPCV splits where the best params' OOS Sharpe is positive */
+  positiveSplitPct: number;
+}
+
 export interface AutoWfReport {
   /** ISO timestamp of this run */
   runAt: string;
@@ -104,7 +135,9 @@ export function formatAutoWfReport(report: AutoWfReport): string {
   for (const r of report.results) {
     if (r.error !== undefined) {
       lines.push(`❌ **${r.symbol}**: ${r.error}`);
-    } else if (r.updated) {
+      continue;
+    }
+    if (r.updated) {
       lines.push(
         `✅ **${r.symbol}**: Sharpe ${r.currentSharpe.toFixed(3)} → ${r.newSharpe.toFixed(3)} (+${r.improvementPct.toFixed(1)}%)`
       );
@@ -113,6 +146,15 @@ export function formatAutoWfReport(report: AutoWfReport): string {
         `⏭ **${r.symbol}**: Skipped Sharpe ${r.currentSharpe.toFixed(3)} → ${r.newSharpe.toFixed(3)} (${r.improvementPct.toFixed(1)}%)`
       );
     }
+    const v = r.validation;
+    if (v) {
+      lines.push(
+        `   PBO ${(v.pbo * 100).toFixed(0)}% | DSR ${v.deflatedSharpe.toFixed(2)} | ` +
+        `CPCV Sharpe ${v.currentCpcvSharpe.toFixed(2)} → ${v.bestCpcvSharpe.toFixed(2)} ` +
+        `(${v.positiveSplitPct.toFixed(0)}% of ${v.splits} splits positive)`
+      );
+    }
+    if (r.rejectReasons && r.rejectReasons.length > 0) lines.push(`   Rejected: ${r.rejectReasons.join("; ")}`);
   }
 
   lines.push(``, `Total updated: ${report.updatedCount}`);
@@ -123,29 +165,71 @@ export function formatAutoWfReport(report: AutoWfReport): string {
 // Config Update
 // ─────────────────────────────────────────────────────
 
-function updateConfigFile(bestParams: ParamSet, baseCfg: StrategyConfig): void {
-  const raw = fs.readFileSync(CONFIG_FILE, "utf-8");
-  const cfg = parse(raw) as Record<string, unknown>;
+function updateConfigFile(bestParams: ParamSet, baseCfg: StrategyConfig, space: ParamDef[], configFile: string): void {
+  const raw = fs.readFileSync(configFile, "utf-8");
+  let cfg = parse(raw) as Record<string, unknown>;
 
-  const newCfg = applyParams(bestParams, baseCfg);
+  const newCfg = applyParams(bestParams, baseCfg, space);
+  for (const def of space) {
+    if (!isParamActive(def, newCfg)) continue;
+    const paramPath = def.path ?? def.name;
+    const value = getPath(newCfg, paramPath);
+    if (value !== undefined) cfg = setPath(cfg, paramPath, value);
+  }
 
-  const strategy = cfg["strategy"] as Record<string, unknown>;
-  const ma = strategy["ma"] as Record<string, unknown>;
-  const rsi = strategy["rsi"] as Record<string, unknown>;
-  const risk = cfg["risk"] as Record<string, unknown>;
+  const tmpFile = configFile + ".tmp";
+  fs.writeFileSync(tmpFile, stringify(cfg));
+  fs.renameSync(tmpFile, configFile); // Atomic write to prevent crash from corrupting main config file
+}
 
-  ma["short"] = newCfg.strategy.ma.short;
-  ma["long"] = newCfg.strategy.ma.long;
-  rsi["period"] = newCfg.strategy.rsi.period;
-  rsi["overbought"] = newCfg.strategy.rsi.overbought;
-  rsi["oversold"] = newCfg.strategy.rsi.oversold;
-  risk["stop_loss_percent"] = newCfg.risk.stop_loss_percent;
-  risk["take_profit_percent"] = newCfg.risk.take_profit_percent;
-  risk["position_ratio"] = newCfg.risk.position_ratio;
+// ─────────────────────────────────────────────────────
+// Overfitting Checks
+// ─────────────────────────────────────────────────────
 
-  const tmpFile = CONFIG_FILE + ".tmp";
-  fs.writeFileSync(tmpFile, stringify(cfg));
-  fs.renameSync(tmpFile, CONFIG_FILE); // Atomic write to prevent crash from corrupting main config file
+function median(xs: number[]): number {
+  const sorted = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] ?? 0 : ((sorted[mid - 1] ?? 0) + (sorted[mid] ?? 0)) / 2;
+}
+
+/**
+ * Backtest the current params and every trial over the full history, then run CPCV / PBO over
+ * that candidate set and deflate the best trial's Sharpe by the number of trials.
+ */
+async function validateSelection(
+  symbol: string,
+  klines: Kline[],
+  stratCfg: StrategyConfig,
+  space: ParamDef[],
+  currentParams: ParamSet,
+  trialParams: ParamSet[],
+  bestIndex: number,
+  cpcv: CpcvOptions
+): Promise<WfValidation> {
+  const times = klines.map((k) => k.openTime);
+  const fullCache = new Map<string, Kline[]>([[symbol, klines]]);
+  const returns: number[][] = [];
+  for (const params of [currentParams, ...trialParams]) {
+    const { metrics } = await evaluateParams(params, symbol, stratCfg, fullCache, { space });
+    returns.push(alignedReturns(metrics.equityCurve, times));
+  }
+
+  const result = runCpcv(returns, cpcv);
+  const trialReturns = returns.slice(1);
+  const dsr = deflatedSharpe(trialReturns[bestIndex] ?? [], trialReturns.map(sharpeOf));
+  const bestOos = result.oosSharpe[bestIndex + 1] ?? [];
+  // Per-bar Sharpe → annualized, for readability only
+  const barMs = (times[1] ?? 0) - (times[0] ?? 0);
+  const annualize = barMs > 0 ? Math.sqrt((365 * 86_400_000) / barMs) : 1;
+
+  return {
+    splits: result.splits,
+    pbo: result.pbo,
+    deflatedSharpe: dsr.dsr,
+    bestCpcvSharpe: median(bestOos) * annualize,
+    currentCpcvSharpe: median(result.oosSharpe[0] ?? []) * annualize,
+    positiveSplitPct: bestOos.length > 0 ? (bestOos.filter((v) => v > 0).length / bestOos.length) * 100 : 0,
+  };
 }
 
 // ─────────────────────────────────────────────────────
@@ -159,14 +243,20 @@ function updateConfigFile(bestParams: ParamSet, baseCfg: StrategyConfig): void {
  * 3. Evaluate current config params on test set via evaluateParams -> currentSharpe
  * 4. Run BayesianOptimizer on train set (trials rounds) -> bestParams
  * 5. Evaluate bestParams on test set -> newSharpe
- * 6. Calculate improvementPct
- * 7. If improvementPct >= minImprovementPct and newSharpe > 0 and !dryRun -> update config
+ * 6. Calculate improvementPct (reported only)
+ * 7. Backtest current params + every trial on the full history -> CPCV, PBO, deflated Sharpe
+ * 8. Update config only if newSharpe > 0, PBO <= maxPbo, DSR >= minDeflatedSharpe and the best
+ *    params beat the current ones on median CPCV OOS Sharpe (and !dryRun)
  */
 export async function runAutoWalkForward(
   cfg: AutoWfConfig,
   baseCfg?: StrategyConfig
 ): Promise<AutoWfReport> {
-  const stratCfg = baseCfg ?? loadStrategyConfig();
+  const stratCfg = baseCfg ?? (cfg.strategy !== undefined
+    ? applyStrategyProfile(loadStrategyConfig(), loadStrategyProfile(cfg.strategy))
+    : loadStrategyConfig());
+  const configFile = cfg.strategy !== undefined ? path.join(PROFILES_DIR, `${cfg.strategy}.yaml`) : CONFIG_FILE;
+  const space = paramSpaceFor(stratCfg);
   const results: SymbolWfResult[] = [];
 
   for (const symbol of cfg.symbols) {
@@ -185,38 +275,35 @@ export async function runAutoWalkForward(
       const { train, test } = splitKlines(klines, cfg.trainRatio);
 
       // ── 3. Current params performance on test set ─────
-      const currentParams: ParamSet = {
-        ma_short: stratCfg.strategy.ma.short,
-        ma_long: stratCfg.strategy.ma.long,
-        rsi_period: stratCfg.strategy.rsi.period,
-        rsi_overbought: stratCfg.strategy.rsi.overbought,
-        rsi_oversold: stratCfg.strategy.rsi.oversold,
-        stop_loss_pct: stratCfg.risk.stop_loss_percent,
-        take_profit_pct: stratCfg.risk.take_profit_percent,
-        position_ratio: stratCfg.risk.position_ratio,
-      };
+      const currentParams = paramsFromConfig(space, stratCfg);
       const testCache = new Map<string, Kline[]>([[symbol, test]]);
       const { metrics: currentMetrics } = await evaluateParams(
         currentParams,
         symbol,
         stratCfg,
-        testCache
+        testCache,
+        { space }
       );
       const currentSharpe = currentMetrics.sharpeRatio;
 
       // ── 4. Run Bayesian optimization on train set ─────
       const trainCache = new Map<string, Kline[]>([[symbol, train]]);
       const warmup = Math.min(20, Math.floor(cfg.trials * 0.2));
-      const optimizer = new BayesianOptimizer(DEFAULT_PARAM_SPACE, cfg.seed, warmup);
+      const optimizer = new BayesianOptimizer(space, cfg.seed, warmup);
+      const trialParams: ParamSet[] = [];
+      const trialScores: number[] = [];
 
       for (let i = 0; i < cfg.trials; i++) {
         const params = optimizer.suggest();
-        const { score } = await evaluateParams(params, symbol, stratCfg, trainCache);
+        const { score } = await evaluateParams(params, symbol, stratCfg, trainCache, { space });
         optimizer.observe(params, score);
+        trialParams.push(params);
+        trialScores.push(score);
       }
 
       const best = optimizer.best();
       const bestParams: ParamSet = best?.params ?? currentParams;
+      const bestIndex = best ? trialScores.indexOf(best.score) : -1;
 
       // ── 5. Validate best params on test set ────────────
       const newTestCache = new Map<string, Kline[]>([[symbol, test]]);
@@ -224,7 +311,8 @@ export async function runAutoWalkForward(
         bestParams,
         symbol,
         stratCfg,
-        newTestCache
+        newTestCache,
+        { space }
       );
       const newSharpe = newMetrics.sharpeRatio;
 
@@ -232,12 +320,28 @@ export async function runAutoWalkForward(
       const denominator = Math.abs(currentSharpe) > 0 ? Math.abs(currentSharpe) : 1;
       const improvementPct = ((newSharpe - currentSharpe) / denominator) * 100;
 
-      // ── 7. Decision: whether to update config ─────────
-      const shouldUpdate =
-        improvementPct >= cfg.minImprovementPct && newSharpe > 0 && !cfg.dryRun;
+      // ── 7. Overfitting checks on the full history ──────
+      const validation = await validateSelection(
+        symbol, klines, stratCfg, space, currentParams, trialParams, bestIndex, cfg.cpcv ?? DEFAULT_CPCV
+      );
+
+      // ── 8. Decision: whether to update config ─────────
+      const rejectReasons: string[] = [];
+      if (bestIndex < 0) rejectReasons.push("no trials");
+      if (newSharpe <= 0) rejectReasons.push(`OOS Sharpe ${newSharpe.toFixed(3)} ≤ 0`);
+      if (validation.pbo > cfg.maxPbo) {
+        rejectReasons.push(`PBO ${(validation.pbo * 100).toFixed(0)}% > ${(cfg.maxPbo * 100).toFixed(0)}%`);
+      }
+      if (validation.deflatedSharpe < cfg.minDeflatedSharpe) {
+        rejectReasons.push(`DSR ${validation.deflatedSharpe.toFixed(2)} < ${cfg.minDeflatedSharpe}`);
+      }
+      if (validation.bestCpcvSharpe <= validation.currentCpcvSharpe) {
+        rejectReasons.push("CPCV Sharpe not above current params");
+      }
+      const shouldUpdate = rejectReasons.length === 0 && !cfg.dryRun;
 
       if (shouldUpdate) {
-        updateConfigFile(bestParams, stratCfg);
+        updateConfigFile(bestParams, stratCfg, space, configFile);
       }
 
       results.push({
@@ -246,6 +350,8 @@ export async function runAutoWalkForward(
         newSharpe,
         improvementPct,
         bestParams,
+        validation,
+        rejectReasons,
         updated: shouldUpdate,
       });
     } catch (err: unknown) {
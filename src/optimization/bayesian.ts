@@ -5,18 +5,25 @@
  * - First N iterations (warm-up): random sampling
  * - Afterwards: EI (Expected Improvement) + elite evolution dual-track parallel
  * - No external ML library dependency, pure TypeScript implementation
+ * - Multi-objective: observations carrying an objective vector are ranked by Pareto
+ *   front (score only breaks ties), so "good points" are the non-dominated ones
+ * - Batch ask/tell for parallel evaluation: ask(n) uses the "constant liar" heuristic
+ *   (pending suggestions count as worst-so-far observations) so a batch spreads out
  */
 
 import type { ParamDef, ParamSet } from "./param-space.js";
 import { sampleRandom, perturbParams, encodeParam } from "./param-space.js";
+import { paretoRanks } from "./pareto.js";
 
 // ─────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────
 
-interface Observation {
+export interface Observation {
   params: ParamSet;
   score: number;
+  /** Maximize-oriented objective vector (multi-objective mode only) */
+  objectives?: number[];
 }
 
 // ─────────────────────────────────────────────────────
@@ -129,9 +136,35 @@ export class BayesianOptimizer {
 
   /**
    * Record an observation result.
+   * Pass `objectives` to optimize for the Pareto front instead of the score alone;
+   * observations without them (infeasible trials) rank behind every front.
    */
-  observe(params: ParamSet, score: number): void {
-    this.history.push({ params, score });
+  observe(params: ParamSet, score: number, objectives?: number[]): void {
+    this.history.push({ params, score, ...(objectives !== undefined ? { objectives } : {}) });
+  }
+
+  /**
+   * Suggest `n` parameter sets to evaluate in parallel.
+   * Each suggestion is temporarily recorded with the worst observed score (constant liar),
+   * so later suggestions in the batch move away from it; the lies are dropped afterwards.
+   * ask(1) is identical to suggest().
+   */
+  ask(n: number): ParamSet[] {
+    const observed = this.history.length;
+    const lie = this.history.reduce((min, o) => Math.min(min, o.score), 0);
+    const batch: ParamSet[] = [];
+    for (let i = 0; i < n; i++) {
+      const params = this.suggest();
+      batch.push(params);
+      this.history.push({ params, score: lie });
+    }
+    this.history.length = observed;
+    return batch;
+  }
+
+  /** Record the results of an ask() batch (or of a resumed study's stored trials) */
+  tell(results: Observation[]): void {
+    for (const r of results) this.observe(r.params, r.score, r.objectives);
   }
 
   /**
@@ -162,7 +195,7 @@ export class BayesianOptimizer {
   // ─────────────────────────────────────────────────
 
   private suggestByEI(): ParamSet {
-    const sorted = [...this.history].sort((a, b) => b.score - a.score);
+    const sorted = this.ranked();
     const nGood = Math.max(1, Math.floor(sorted.length * this.gamma));
     const goodObs = sorted.slice(0, nGood);
     const badObs  = sorted.slice(nGood);
@@ -218,6 +251,19 @@ export class BayesianOptimizer {
     return bestCandidate;
   }
 
+  /** History ordered best-first: by Pareto rank when objectives were observed, then by score */
+  private ranked(): Observation[] {
+    const withObjectives = this.history.flatMap((o) => (o.objectives ? [{ obs: o, v: o.objectives }] : []));
+    if (withObjectives.length === 0) {
+      return [...this.history].sort((a, b) => b.score - a.score);
+    }
+    const ranks = paretoRanks(withObjectives.map((o) => o.v));
+    const rankOf = new Map(withObjectives.map((o, i) => [o.obs, ranks[i] ?? Infinity]));
+    return [...this.history].sort((a, b) =>
+      (rankOf.get(a) ?? Infinity) - (rankOf.get(b) ?? Infinity) || b.score - a.score
+    );
+  }
+
   /** Encode observation set into per-dimension [0,1] arrays */
   private encodeObservations(obs: Observation[]): number[][] {
     return this.space.map((def) =>
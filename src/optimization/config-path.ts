@@ -0,0 +1,123 @@
+/**
+ * Hyperopt — Config Paths
+ *
+ * Dotted paths into a config object, used by declarative search spaces:
+ *   risk.trailing_stop.callback_percent      nested field
+ *   ensemble.strategies[0].weight            array index
+ *   risk.minimal_roi.*                       every key of an object
+ *   ensemble.strategies[*].weight            every element of an array
+ *
+ * Wildcards are expanded against a concrete config (expandPath) before values are read or written.
+ */
+
+// ─────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────
+
+/** Path token: object key, array index, or a wildcard ("*" = any key, "[*]" = any index) */
+export type PathToken = string | number;
+
+const ANY_KEY = "*";
+const ANY_INDEX = "[*]";
+
+// ─────────────────────────────────────────────────────
+// Parse / format
+// ─────────────────────────────────────────────────────
+
+/** Split a path into tokens. Throws on malformed segments (empty keys, bad brackets). */
+export function parsePath(path: string): PathToken[] {
+  const tokens: PathToken[] = [];
+  for (const segment of path.split(".")) {
+    const match = /^([^[\]]*)((?:\[(?:\d+|\*)\])*)$/.exec(segment);
+    if (!match || (match[1] === "" && match[2] === "")) {
+      throw new Error(`Invalid config path "${path}" (segment "${segment}")`);
+    }
+    const [, key = "", brackets = ""] = match;
+    if (key !== "") tokens.push(key);
+    for (const [, index] of brackets.matchAll(/\[(\d+|\*)\]/g)) {
+      tokens.push(index === "*" ? ANY_INDEX : Number(index));
+    }
+  }
+  return tokens;
+}
+
+/** Inverse of parsePath */
+export function formatPath(tokens: PathToken[]): string {
+  let out = "";
+  for (const t of tokens) {
+    if (typeof t === "number") out += `[${t}]`;
+    else if (t === ANY_INDEX) out += t;
+    else out += out === "" ? t : `.${t}`;
+  }
+  return out;
+}
+
+// ─────────────────────────────────────────────────────
+// Read / write / expand
+// ─────────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Value at a concrete path (undefined when any step is missing) */
+export function getPath(root: unknown, path: string): unknown {
+  let node = root;
+  for (const t of parsePath(path)) {
+    if (typeof t === "number") node = Array.isArray(node) ? (node as unknown[])[t] : undefined;
+    else node = isRecord(node) ? node[t] : undefined;
+    if (node === undefined) return undefined;
+  }
+  return node;
+}
+
+/**
+ * Copy of `root` with `value` written at a concrete path. Only the objects/arrays along the
+ * path are copied; missing intermediate containers are created.
+ */
+export function setPath<T>(root: T, path: string, value: unknown): T {
+  const tokens = parsePath(path);
+  const write = (node: unknown, i: number): unknown => {
+    const t = tokens[i];
+    if (t === undefined) return value;
+    if (typeof t === "number") {
+      const arr = Array.isArray(node) ? [...(node as unknown[])] : [];
+      arr[t] = write(arr[t], i + 1);
+      return arr;
+    }
+    const obj = isRecord(node) ? { ...node } : {};
+    obj[t] = write(obj[t], i + 1);
+    return obj;
+  };
+  return write(root, 0) as T;
+}
+
+/**
+ * Expand wildcards against `root` into concrete paths.
+ * A path without wildcards is returned as-is (it may name a field that does not exist yet);
+ * a wildcard over a missing or wrong-typed container expands to nothing.
+ */
+export function expandPath(root: unknown, path: string): string[] {
+  const tokens = parsePath(path);
+  const out: string[] = [];
+  const walk = (node: unknown, i: number, prefix: PathToken[]): void => {
+    const t = tokens[i];
+    if (t === undefined) {
+      out.push(formatPath(prefix));
+      return;
+    }
+    if (t === ANY_KEY) {
+      if (!isRecord(node)) return;
+      for (const key of Object.keys(node)) walk(node[key], i + 1, [...prefix, key]);
+    } else if (t === ANY_INDEX) {
+      if (!Array.isArray(node)) return;
+      (node as unknown[]).forEach((child, idx) => { walk(child, i + 1, [...prefix, idx]); });
+    } else if (typeof t === "number") {
+      walk(Array.isArray(node) ? (node as unknown[])[t] : undefined, i + 1, [...prefix, t]);
+    } else {
+      walk(isRecord(node) ? node[t] : undefined, i + 1, [...prefix, t]);
+    }
+  };
+  walk(root, 0, []);
+  return out;
+}
@@ -0,0 +1,146 @@
+/**
+ * Hyperopt — Loss Functions
+ *
+ * A loss turns backtest metrics into the single score the optimizer maximizes.
+ * Built-in losses are selected by name (`--loss sortino`); custom losses are
+ * plain modules whose default export is a HyperoptLoss or a score function:
+ *
+ *   // my-loss.ts
+ *   export default (m: BacktestMetrics) => m.totalReturnPercent / Math.max(1, m.maxDrawdown);
+ *
+ *   npm run hyperopt -- --loss ./my-loss.ts
+ */
+
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import type { BacktestMetrics } from "../backtest/metrics.js";
+
+// ─────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────
+
+export interface LossContext {
+  /** Minimum trade count before min_trades_penalized stops penalizing */
+  minTrades: number;
+}
+
+/** Score function: higher is better */
+export type LossFunction = (metrics: BacktestMetrics, ctx: LossContext) => number;
+
+export interface HyperoptLoss {
+  name: string;
+  description: string;
+  score: LossFunction;
+}
+
+export const DEFAULT_MIN_TRADES = 20;
+
+/** Profit factor with no losing trades is Infinity; cap it so one lucky trade cannot win */
+const PROFIT_FACTOR_CAP = 10;
+
+/** Score lost per 100% of missing trades in min_trades_penalized */
+const MIN_TRADES_PENALTY = 2;
+
+// ─────────────────────────────────────────────────────
+// Built-in losses
+// ─────────────────────────────────────────────────────
+
+/** Sharpe with a drawdown penalty: score = sharpe - 0.5 * maxDrawdownPct (the historical objective) */
+function sharpeScore(m: BacktestMetrics): number {
+  return m.sharpeRatio - 0.5 * (m.maxDrawdown / 100);
+}
+
+const BUILTIN_LOSSES: HyperoptLoss[] = [
+  {
+    name: "sortino",
+    description: "Sortino ratio (downside volatility only)",
+    score: (m) => m.sortinoRatio,
+  },
+  {
+    name: "calmar",
+    description: "Annualized return / max drawdown",
+    score: (m) => m.calmarRatio,
+  },
+  {
+    name: "profit_factor",
+    description: `Gross profit / gross loss (capped at ${PROFIT_FACTOR_CAP})`,
+    score: (m) => (m.totalTrades === 0 ? 0 : Math.min(m.profitFactor, PROFIT_FACTOR_CAP)),
+  },
+  {
+    name: "expectancy",
+    description: "Expected % return per trade",
+    score: (m) => m.winRate * m.avgWinPercent - (1 - m.winRate) * m.avgLossPercent,
+  },
+  {
+    name: "min_trades_penalized",
+    description: "sharpe, minus a penalty proportional to the shortfall below --min-trades",
+    score: (m, ctx) => {
+      const shortfall = ctx.minTrades > 0 ? Math.max(0, ctx.minTrades - m.totalTrades) / ctx.minTrades : 0;
+      return sharpeScore(m) - MIN_TRADES_PENALTY * shortfall;
+    },
+  },
+];
+
+export const DEFAULT_LOSS: HyperoptLoss = {
+  name: "sharpe",
+  description: "Sharpe ratio - 0.5 × max drawdown (default)",
+  score: sharpeScore,
+};
+
+const _registry = new Map<string, HyperoptLoss>([DEFAULT_LOSS, ...BUILTIN_LOSSES].map((l) => [l.name, l]));
+
+// ─────────────────────────────────────────────────────
+// Registry
+// ─────────────────────────────────────────────────────
+
+/** Register a loss under its name. Re-registering the same name overwrites (convenient for testing). */
+export function registerLoss(loss: HyperoptLoss): void {
+  _registry.set(loss.name, loss);
+}
+
+/** Get a registered loss by name. Throws an error if not found. */
+export function getLoss(name: string): HyperoptLoss {
+  const loss = _registry.get(name);
+  if (!loss) {
+    throw new Error(`Loss "${name}" not found. Registered: ${listLosses().join(", ")}`);
+  }
+  return loss;
+}
+
+/** List all registered loss names */
+export function listLosses(): string[] {
+  return [..._registry.keys()];
+}
+
+/**
+ * Resolve a `--loss` value: a registered name, or a path to a module (relative to cwd)
+ * whose default export (or `loss` export) is a HyperoptLoss or a LossFunction.
+ */
+export async function loadLoss(spec: string, cwd = process.cwd()): Promise<HyperoptLoss> {
+  const registered = _registry.get(spec);
+  if (registered) return registered;
+
+  const file = path.resolve(cwd, spec);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Loss "${spec}" is neither a registered loss (${listLosses().join(", ")}) nor a module path`);
+  }
+
+  const mod = (await import(pathToFileURL(file).href)) as { default?: unknown; loss?: unknown };
+  const exported = mod.default ?? mod.loss;
+  if (typeof exported === "function") {
+    return {
+      name: path.basename(file).replace(/\.[^.]+$/, ""),
+      description: `custom loss (${spec})`,
+      score: exported as LossFunction,
+    };
+  }
+  if (isLossObject(exported)) return { description: `custom loss (${spec})`, ...exported };
+  throw new Error(`Loss module ${spec} must export a score function or { name, score } as default or "loss"`);
+}
+
+function isLossObject(value: unknown): value is Pick<HyperoptLoss, "name" | "score"> & { description?: string } {
+  if (typeof value !== "object" || value === null) return false;
+  const v = value as Record<string, unknown>;
+  return typeof v["name"] === "string" && typeof v["score"] === "function";
+}
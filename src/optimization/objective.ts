@@ -2,14 +2,18 @@
  * P6.1 Hyperopt — Objective Function
  *
  * Given a set of parameters, run backtest on historical data and return optimization score.
- * Objective: Maximize Sharpe Ratio, penalize high drawdown.
- * score = sharpe - 0.5 * maxDrawdownPct
+ * The score comes from a pluggable loss (see loss.ts); the default maximizes Sharpe Ratio
+ * and penalizes high drawdown: score = sharpe - 0.5 * maxDrawdownPct
  */
 
 import { runBacktest } from "../backtest/runner.js";
 import type { StrategyConfig, Kline } from "../types.js";
 import type { BacktestMetrics } from "../backtest/metrics.js";
-import type { ParamSet } from "./param-space.js";
+import { builtinParamDef, decodeParamValue, isParamActive } from "./param-space.js";
+import type { ParamDef, ParamSet } from "./param-space.js";
+import { setPath } from "./config-path.js";
+import { DEFAULT_LOSS, DEFAULT_MIN_TRADES } from "./loss.js";
+import type { HyperoptLoss } from "./loss.js";
 
 // ─────────────────────────────────────────────────────
 // Types
@@ -20,6 +24,15 @@ export interface EvalResult {
   metrics: BacktestMetrics;
 }
 
+export interface ObjectiveOptions {
+  /** Loss used to score the backtest (default: sharpe) */
+  loss?: HyperoptLoss;
+  /** Trade count threshold for min_trades_penalized (default 20) */
+  minTrades?: number;
+  /** Space the params were drawn from (paths, categorical / boolean decoding, conditions) */
+  space?: ParamDef[];
+}
+
 // ─────────────────────────────────────────────────────
 // Main function
 // ─────────────────────────────────────────────────────
@@ -31,6 +44,7 @@ export interface EvalResult {
  * @param symbol       Trading pair (e.g. "BTCUSDT")
  * @param baseCfg      Base config (from strategy.yaml)
  * @param klineCache   Pre-loaded kline cache (key = symbol, value = full klines)
+ * @param objective    Loss selection (default: sharpe - 0.5 * maxDrawdownPct)
  * @returns            { score, metrics }
  */
 // eslint-disable-next-line @typescript-eslint/require-await
@@ -38,18 +52,17 @@ export async function evaluateParams(
   params: ParamSet,
   symbol: string,
   baseCfg: StrategyConfig,
-  klineCache: Map<string, Kline[]>
+  klineCache: Map<string, Kline[]>,
+  objective: ObjectiveOptions = {}
 ): Promise<EvalResult> {
-  // ── 1. Constraint check: ma_short < ma_long ──────────────
-  const maShort = params["ma_short"] ?? baseCfg.strategy.ma.short;
-  const maLong  = params["ma_long"]  ?? baseCfg.strategy.ma.long;
-  if (maShort >= maLong) {
+  // ── 1. Apply params override to baseCfg ──────────────────
+  const cfg = applyParams(params, baseCfg, objective.space);
+
+  // ── 2. Constraint check: ma_short < ma_long ──────────────
+  if (cfg.strategy.ma.short >= cfg.strategy.ma.long) {
     return { score: -999, metrics: makeDummyMetrics() };
   }
 
-  // ── 2. Apply params override to baseCfg ──────────────────
-  const cfg = applyParams(params, baseCfg);
-
   // ── 3. Prepare kline data ─────────────────────────────
   const klines = klineCache.get(symbol);
   if (!klines || klines.length === 0) {
@@ -73,11 +86,11 @@ export async function evaluateParams(
   const { metrics } = result;
 
   // ── 5. Calculate score ────────────────────────────────
-  // score = sharpe - 0.5 * maxDrawdown%
-  // maxDrawdown is already a percentage (e.g. 12 means 12%)
-  const score = metrics.sharpeRatio - 0.5 * (metrics.maxDrawdown / 100);
+  // A NaN/Infinity from a custom loss would poison the optimizer's ranking
+  const loss = objective.loss ?? DEFAULT_LOSS;
+  const score = loss.score(metrics, { minTrades: objective.minTrades ?? DEFAULT_MIN_TRADES });
 
-  return { score, metrics };
+  return { score: Number.isFinite(score) ? score : -999, metrics };
 }
 
 // ─────────────────────────────────────────────────────
@@ -86,30 +99,33 @@ export async function evaluateParams(
 
 /**
  * Apply optimization parameters over base config, returning a new StrategyConfig (does not modify the original).
+ *
+ * Each param is written to its definition's config path: from `space` when given, else the
+ * built-in short names (ma_short, stop_loss_pct, supertrend_period, ...); a name that is itself
+ * a config path ("risk.trailing_stop.callback_percent") is written as a number. Conditional
+ * params are applied only when their `when` paths hold (checked after all unconditional ones).
  */
-export function applyParams(params: ParamSet, baseCfg: StrategyConfig): StrategyConfig {
-  return {
-    ...baseCfg,
-    strategy: {
-      ...baseCfg.strategy,
-      ma: {
-        short: Math.round(params["ma_short"] ?? baseCfg.strategy.ma.short),
-        long:  Math.round(params["ma_long"]  ?? baseCfg.strategy.ma.long),
-      },
-      rsi: {
-        ...baseCfg.strategy.rsi,
-        period:     Math.round(params["rsi_period"]     ?? baseCfg.strategy.rsi.period),
-        overbought: params["rsi_overbought"] ?? baseCfg.strategy.rsi.overbought,
-        oversold:   params["rsi_oversold"]   ?? baseCfg.strategy.rsi.oversold,
-      },
-    },
-    risk: {
-      ...baseCfg.risk,
-      stop_loss_percent:   params["stop_loss_pct"]   ?? baseCfg.risk.stop_loss_percent,
-      take_profit_percent: params["take_profit_pct"] ?? baseCfg.risk.take_profit_percent,
-      position_ratio:      params["position_ratio"]  ?? baseCfg.risk.position_ratio,
-    },
-  };
+export function applyParams(params: ParamSet, baseCfg: StrategyConfig, space: ParamDef[] = []): StrategyConfig {
+  const byName = new Map(space.map((d) => [d.name, d]));
+  const resolved: ParamDef[] = [];
+  for (const name of Object.keys(params)) {
+    const def = byName.get(name) ?? builtinParamDef(name) ?? pathParamDef(name);
+    if (def) resolved.push(def);
+  }
+
+  const write = (cfg: StrategyConfig, def: ParamDef): StrategyConfig =>
+    setPath(cfg, def.path ?? def.name, decodeParamValue(def, params[def.name] ?? def.min));
+
+  const cfg = resolved.filter((d) => d.when === undefined).reduce(write, baseCfg);
+  return resolved
+    .filter((d) => d.when !== undefined && isParamActive(d, cfg))
+    .reduce(write, cfg);
+}
+
+/** Ad-hoc float param named by its config path */
+function pathParamDef(name: string): ParamDef | undefined {
+  if (!/[.[]/.test(name)) return undefined;
+  return { name, type: "float", min: -Infinity, max: Infinity, path: name };
 }
 
 // ─────────────────────────────────────────────────────
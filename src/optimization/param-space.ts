@@ -2,18 +2,39 @@
  * P6.1 Hyperopt — Parameter Space Definition
  *
  * Defines searchable ranges for strategy parameters, used by the Bayesian optimization engine.
+ *
+ * Space resolution (paramSpaceFor):
+ *   1. hyperopt_space declared in the profile / strategy.yaml (YAML, dotted config paths)
+ *   2. the strategy plugin's paramSpace
+ *   3. DEFAULT_PARAM_SPACE + the extended indicators the signal conditions use
+ *
+ * The optimizer works on numbers only: categorical parameters are searched as a choice index,
+ * booleans as 0/1; decodeParamValue() turns them back into config values.
  */
 
+import type { HyperoptParamSpec, StrategyConfig } from "../types.js";
+import { signalIdentifiers } from "../strategy/signals.js";
+import { getStrategy, listStrategies } from "../strategies/index.js";
+import { expandPath, getPath, parsePath } from "./config-path.js";
+
 // ─────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────
 
+export type ParamValue = number | string | boolean;
+
 export interface ParamDef {
   name: string;
-  type: "int" | "float";
+  type: "int" | "float" | "categorical" | "boolean";
   min: number;
   max: number;
   step?: number; // Step size for int type (ignored for float)
+  /** Config path the decoded value is written to (declarative spaces: same as name) */
+  path?: string;
+  /** categorical values, searched as index min=0..max=n-1 */
+  choices?: ParamValue[];
+  /** Only applied when every listed config path holds the given value */
+  when?: Record<string, ParamValue>;
 }
 
 export type ParamSet = Record<string, number>;
@@ -29,27 +50,211 @@ export type ParamSet = Record<string, number>;
  * Constraint: ma_short < ma_long (validated in objective.ts)
  */
 export const DEFAULT_PARAM_SPACE: ParamDef[] = [
-  { name: "ma_short",        type: "int",   min: 5,    max: 50,   step: 1 },
-  { name: "ma_long",         type: "int",   min: 20,   max: 200,  step: 5 },
-  { name: "rsi_period",      type: "int",   min: 7,    max: 21,   step: 1 },
-  { name: "rsi_overbought",  type: "float", min: 60,   max: 80              },
-  { name: "rsi_oversold",    type: "float", min: 20,   max: 40              },
-  { name: "stop_loss_pct",   type: "float", min: 2,    max: 10              },
-  { name: "take_profit_pct", type: "float", min: 5,    max: 30              },
-  { name: "position_ratio",  type: "float", min: 0.1,  max: 0.4             },
+  { name: "ma_short",        type: "int",   min: 5,    max: 50,   step: 1, path: "strategy.ma.short" },
+  { name: "ma_long",         type: "int",   min: 20,   max: 200,  step: 5, path: "strategy.ma.long" },
+  { name: "rsi_period",      type: "int",   min: 7,    max: 21,   step: 1, path: "strategy.rsi.period" },
+  { name: "rsi_overbought",  type: "float", min: 60,   max: 80,            path: "strategy.rsi.overbought" },
+  { name: "rsi_oversold",    type: "float", min: 20,   max: 40,            path: "strategy.rsi.oversold" },
+  { name: "stop_loss_pct",   type: "float", min: 2,    max: 10,            path: "risk.stop_loss_percent" },
+  { name: "take_profit_pct", type: "float", min: 5,    max: 30,            path: "risk.take_profit_percent" },
+  { name: "position_ratio",  type: "float", min: 0.1,  max: 0.4,           path: "risk.position_ratio" },
 ];
 
+/**
+ * INDICATOR_PARAM_SPACE: extended indicator parameters (strategy.indicators), keyed by the
+ * condition / identifier prefix that uses them.
+ */
+export const INDICATOR_PARAM_SPACE: Record<string, ParamDef[]> = {
+  stoch_rsi: [
+    { name: "stoch_rsi_rsi_period",    type: "int",   min: 7,    max: 21,   step: 1, path: "strategy.indicators.stoch_rsi.rsi_period" },
+    { name: "stoch_rsi_stoch_period",  type: "int",   min: 7,    max: 21,   step: 1, path: "strategy.indicators.stoch_rsi.stoch_period" },
+    { name: "stoch_rsi_oversold",      type: "float", min: 10,   max: 30,            path: "strategy.indicators.stoch_rsi.oversold" },
+    { name: "stoch_rsi_overbought",    type: "float", min: 70,   max: 90,            path: "strategy.indicators.stoch_rsi.overbought" },
+  ],
+  ichimoku: [
+    { name: "ichimoku_tenkan",         type: "int",   min: 7,    max: 12,   step: 1, path: "strategy.indicators.ichimoku.tenkan" },
+    { name: "ichimoku_kijun",          type: "int",   min: 20,   max: 34,   step: 1, path: "strategy.indicators.ichimoku.kijun" },
+    { name: "ichimoku_senkou_b",       type: "int",   min: 40,   max: 60,   step: 2, path: "strategy.indicators.ichimoku.senkou_b" },
+  ],
+  supertrend: [
+    { name: "supertrend_period",       type: "int",   min: 7,    max: 20,   step: 1, path: "strategy.indicators.supertrend.period" },
+    { name: "supertrend_multiplier",   type: "float", min: 1.5,  max: 4,             path: "strategy.indicators.supertrend.multiplier" },
+  ],
+  keltner: [
+    { name: "keltner_ema_period",      type: "int",   min: 10,   max: 40,   step: 2, path: "strategy.indicators.keltner.ema_period" },
+    { name: "keltner_atr_period",      type: "int",   min: 7,    max: 20,   step: 1, path: "strategy.indicators.keltner.atr_period" },
+    { name: "keltner_multiplier",      type: "float", min: 1,    max: 3,             path: "strategy.indicators.keltner.multiplier" },
+  ],
+  obv: [
+    { name: "obv_ma_period",           type: "int",   min: 10,   max: 50,   step: 5, path: "strategy.indicators.obv.ma_period" },
+  ],
+  donchian: [
+    { name: "donchian_period",         type: "int",   min: 10,   max: 55,   step: 5, path: "strategy.indicators.donchian.period" },
+  ],
+  mfi: [
+    { name: "mfi_period",              type: "int",   min: 7,    max: 21,   step: 1, path: "strategy.indicators.mfi.period" },
+    { name: "mfi_oversold",            type: "float", min: 10,   max: 30,            path: "strategy.indicators.mfi.oversold" },
+    { name: "mfi_overbought",          type: "float", min: 70,   max: 90,            path: "strategy.indicators.mfi.overbought" },
+  ],
+};
+
+/** Built-in parameters by name, so ParamSets using the short names always apply */
+const BUILTIN_PARAMS = new Map(
+  [...DEFAULT_PARAM_SPACE, ...Object.values(INDICATOR_PARAM_SPACE).flat()].map((d) => [d.name, d])
+);
+
+/**
+ * Search space for a config: its hyperopt_space, else the strategy plugin's paramSpace,
+ * else DEFAULT_PARAM_SPACE plus the parameters of every extended indicator its signal
+ * conditions use (a supertrend_bullish condition adds supertrend_*).
+ */
+export function paramSpaceFor(cfg: StrategyConfig): ParamDef[] {
+  if (cfg.hyperopt_space && cfg.hyperopt_space.length > 0) {
+    return compileParamSpace(cfg.hyperopt_space, cfg, "hyperopt_space");
+  }
+  const pluginId = cfg.strategy_id;
+  if (pluginId !== undefined && listStrategies().includes(pluginId)) {
+    const pluginSpace = getStrategy(pluginId).paramSpace;
+    if (pluginSpace && pluginSpace.length > 0) {
+      return compileParamSpace(pluginSpace, cfg, `strategy plugin "${pluginId}" paramSpace`);
+    }
+  }
+  const ids = signalIdentifiers(cfg);
+  const extra = Object.entries(INDICATOR_PARAM_SPACE)
+    .filter(([prefix]) => ids.some((id) => id.startsWith(prefix)))
+    .flatMap(([, defs]) => defs);
+  return [...DEFAULT_PARAM_SPACE, ...extra];
+}
+
+/**
+ * Validate a declarative space and expand its wildcards against `cfg`
+ * (`risk.minimal_roi.*` becomes one parameter per ROI step). Parameter name = concrete path.
+ * Throws with `source` and the entry index on the first invalid entry.
+ */
+export function compileParamSpace(
+  specs: HyperoptParamSpec[],
+  cfg: StrategyConfig,
+  source: string
+): ParamDef[] {
+  const defs: ParamDef[] = [];
+  const seen = new Set<string>();
+  specs.forEach((spec, i) => {
+    const where = `${source}[${i}] (${spec.path})`;
+    const bounds = specBounds(spec, where);
+    for (const key of Object.keys(spec.when ?? {})) {
+      if (key.includes("*")) throw new Error(`${where}: when path "${key}" cannot contain wildcards`);
+      parsePath(key);
+    }
+
+    const paths = expandPath(cfg, spec.path);
+    if (paths.length === 0) throw new Error(`${where}: path matches no config field`);
+    for (const path of paths) {
+      if (seen.has(path)) throw new Error(`${where}: "${path}" is declared more than once`);
+      seen.add(path);
+      defs.push({
+        name: path,
+        type: spec.type,
+        ...bounds,
+        path,
+        ...(spec.choices !== undefined ? { choices: spec.choices } : {}),
+        ...(spec.when !== undefined ? { when: spec.when } : {}),
+      });
+    }
+  });
+  return defs;
+}
+
+function specBounds(spec: HyperoptParamSpec, where: string): Pick<ParamDef, "min" | "max" | "step"> {
+  switch (spec.type) {
+    case "int":
+    case "float": {
+      const { min, max, step } = spec;
+      if (min === undefined || max === undefined || !Number.isFinite(min) || !Number.isFinite(max)) {
+        throw new Error(`${where}: ${spec.type} parameter needs numeric min and max`);
+      }
+      if (min > max) throw new Error(`${where}: min ${min} > max ${max}`);
+      if (step !== undefined && !(step > 0)) throw new Error(`${where}: step must be > 0`);
+      return spec.type === "int" ? { min, max, step: step ?? 1 } : { min, max };
+    }
+    case "categorical":
+      if (!spec.choices || spec.choices.length === 0) {
+        throw new Error(`${where}: categorical parameter needs a non-empty choices list`);
+      }
+      return { min: 0, max: spec.choices.length - 1, step: 1 };
+    case "boolean":
+      return { min: 0, max: 1, step: 1 };
+    default:
+      throw new Error(`${where}: unknown type "${String(spec.type)}" (int | float | categorical | boolean)`);
+  }
+}
+
+/** Built-in definition for a short name (ma_short, supertrend_period, ...) */
+export function builtinParamDef(name: string): ParamDef | undefined {
+  return BUILTIN_PARAMS.get(name);
+}
+
+// ─────────────────────────────────────────────────────
+// Config values
+// ─────────────────────────────────────────────────────
+
+/** Config value for a searched number: int rounding, choice lookup, 0/1 → boolean */
+export function decodeParamValue(def: ParamDef, value: number): ParamValue {
+  switch (def.type) {
+    case "float":
+      return value;
+    case "int":
+      return Math.round(value);
+    case "boolean":
+      return value >= 0.5;
+    case "categorical": {
+      const choices = def.choices ?? [];
+      const idx = Math.max(0, Math.min(choices.length - 1, Math.round(value)));
+      return choices[idx] ?? value;
+    }
+  }
+}
+
+/** Searched number for a config value (inverse of decodeParamValue); undefined if it does not fit */
+export function encodeParamValue(def: ParamDef, value: unknown): number | undefined {
+  switch (def.type) {
+    case "float":
+    case "int":
+      return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+    case "boolean":
+      return typeof value === "boolean" ? Number(value) : undefined;
+    case "categorical": {
+      const idx = (def.choices ?? []).findIndex((c) => c === value);
+      return idx >= 0 ? idx : undefined;
+    }
+  }
+}
+
+/** A conditional parameter is active when every `when` path of cfg holds the listed value */
+export function isParamActive(def: ParamDef, cfg: StrategyConfig): boolean {
+  return Object.entries(def.when ?? {}).every(([path, want]) => getPath(cfg, path) === want);
+}
+
+/** Current config values of a space as a ParamSet (fields the config does not set are left out) */
+export function paramsFromConfig(space: ParamDef[], cfg: StrategyConfig): ParamSet {
+  const params: ParamSet = {};
+  for (const def of space) {
+    const value = encodeParamValue(def, getPath(cfg, def.path ?? def.name));
+    if (value !== undefined) params[def.name] = value;
+  }
+  return params;
+}
+
 // ─────────────────────────────────────────────────────
 // Utility functions
 // ─────────────────────────────────────────────────────
 
 /**
  * Map continuous value [0,1] to actual parameter value.
- * Int types are aligned to step size.
+ * Int types (and categorical / boolean indexes) are aligned to step size.
  */
 export function decodeParam(def: ParamDef, unit: number): number {
   const raw = def.min + unit * (def.max - def.min);
-  if (def.type === "int") {
+  if (def.type !== "float") {
     const step = def.step ?? 1;
     return Math.round(raw / step) * step;
   }
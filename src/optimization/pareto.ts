@@ -0,0 +1,91 @@
+/**
+ * Hyperopt — Multi-Objective (Pareto) Utilities
+ *
+ * Instead of collapsing a backtest into one number, multi-objective mode keeps every
+ * trial that no other trial beats on all of: total return (max), max drawdown (min)
+ * and trade count (max). The resulting front is reported for a human to choose from.
+ *
+ * All vectors here are maximize-oriented: minimized objectives are negated.
+ */
+
+import type { BacktestMetrics } from "../backtest/metrics.js";
+
+// ─────────────────────────────────────────────────────
+// Objectives
+// ─────────────────────────────────────────────────────
+
+export const PARETO_OBJECTIVES = [
+  { key: "totalReturnPercent", label: "Return %", direction: "max" },
+  { key: "maxDrawdown", label: "Max DD %", direction: "min" },
+  { key: "totalTrades", label: "Trades", direction: "max" },
+] as const;
+
+/**
+ * Maximize-oriented objective vector for a backtest.
+ * Returns undefined for trials without trades (rejected params, or a strategy that never
+ * enters): their 0% drawdown would otherwise put them on the front.
+ */
+export function objectivesOf(metrics: BacktestMetrics): number[] | undefined {
+  if (metrics.totalTrades === 0) return undefined;
+  return PARETO_OBJECTIVES.map((o) => (o.direction === "max" ? metrics[o.key] : -metrics[o.key]));
+}
+
+// ─────────────────────────────────────────────────────
+// Dominance / non-dominated sorting
+// ─────────────────────────────────────────────────────
+
+/** a dominates b: no worse on every objective and strictly better on at least one */
+export function dominates(a: number[], b: number[]): boolean {
+  let strictlyBetter = false;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i] ?? -Infinity;
+    const y = b[i] ?? -Infinity;
+    if (x < y) return false;
+    if (x > y) strictlyBetter = true;
+  }
+  return strictlyBetter;
+}
+
+/**
+ * Non-dominated sorting rank of each point (0 = Pareto front, 1 = front once rank 0 is removed, ...).
+ * O(n² · k), fine for hyperopt trial counts.
+ */
+export function paretoRanks(points: number[][]): number[] {
+  const dominatedBy = points.map(() => 0);
+  const dominatesList: number[][] = points.map(() => []);
+  points.forEach((a, i) => {
+    points.forEach((b, j) => {
+      if (i !== j && dominates(a, b)) {
+        dominatesList[i]?.push(j);
+        dominatedBy[j] = (dominatedBy[j] ?? 0) + 1;
+      }
+    });
+  });
+
+  const ranks = points.map(() => 0);
+  let current = dominatedBy.flatMap((count, i) => (count === 0 ? [i] : []));
+  let rank = 0;
+  while (current.length > 0) {
+    const next: number[] = [];
+    for (const i of current) {
+      ranks[i] = rank;
+      for (const j of dominatesList[i] ?? []) {
+        dominatedBy[j] = (dominatedBy[j] ?? 0) - 1;
+        if (dominatedBy[j] === 0) next.push(j);
+      }
+    }
+    current = next;
+    rank++;
+  }
+  return ranks;
+}
+
+/** Items on the Pareto front; items without an objective vector are never on it */
+export function paretoFront<T>(items: T[], vectorOf: (item: T) => number[] | undefined): T[] {
+  const candidates = items.flatMap((item) => {
+    const v = vectorOf(item);
+    return v ? [{ item, v }] : [];
+  });
+  const ranks = paretoRanks(candidates.map((c) => c.v));
+  return candidates.filter((_, i) => ranks[i] === 0).map((c) => c.item);
+}
@@ -0,0 +1,36 @@
+/**
+ * Hyperopt — Trial Worker (worker_threads entry)
+ *
+ * Started by WorkerPool with the shared trial context as workerData: the klines are
+ * cloned into the worker once, then each message { id, params } is backtested and
+ * answered with { id, score, metrics } or { id, error }.
+ */
+
+import { parentPort, workerData } from "worker_threads";
+import { evaluateParams } from "./objective.js";
+import { loadLoss } from "./loss.js";
+import type { Kline } from "../types.js";
+import type { TrialRequest, TrialResponse, TrialWorkerData } from "./worker-pool.js";
+
+const data = workerData as TrialWorkerData;
+const port = parentPort;
+if (!port) throw new Error("trial-worker must run in a worker thread");
+
+const klineCache = new Map<string, Kline[]>([[data.symbol, data.klines]]);
+const objective = { loss: await loadLoss(data.loss, data.cwd), minTrades: data.minTrades, space: data.space };
+
+port.on("message", (req: TrialRequest) => {
+  evaluateParams(req.params, data.symbol, data.baseCfg, klineCache, objective)
+    .then(({ score, metrics }): TrialResponse => ({
+      id: req.id,
+      score,
+      // The equity curve is not used by the optimizer; skip cloning it back
+      metrics: { ...metrics, equityCurve: [] },
+    }))
+    .catch((err: unknown): TrialResponse => ({
+      id: req.id,
+      error: err instanceof Error ? err.message : String(err),
+    }))
+    .then((res) => { port.postMessage(res); })
+    .catch(() => { /* port closed while terminating */ });
+});
@@ -0,0 +1,192 @@
+/**
+ * Hyperopt — Parallel Trial Evaluation
+ *
+ * A TrialEvaluator backtests a batch of parameter sets (one optimizer ask() batch):
+ *   - InProcessEvaluator: sequential, in the calling thread (--workers 1)
+ *   - WorkerPool:         one worker_thread per slot; each worker receives the klines
+ *                         and base config once at start-up, then only params travel
+ *
+ * Under tsx the worker entry is a .ts file, so it is loaded through a small bootstrap
+ * that registers the tsx loader inside the worker first.
+ */
+
+import path from "path";
+import { createRequire } from "module";
+import { Worker } from "worker_threads";
+import { fileURLToPath, pathToFileURL } from "url";
+import { evaluateParams } from "./objective.js";
+import type { EvalResult, ObjectiveOptions } from "./objective.js";
+import type { ParamDef, ParamSet } from "./param-space.js";
+import type { BacktestMetrics } from "../backtest/metrics.js";
+import type { Kline, StrategyConfig } from "../types.js";
+
+// ─────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────
+
+export interface TrialEvaluator {
+  /** Number of trials evaluated concurrently (the natural ask() batch size) */
+  readonly size: number;
+  /** Evaluate a batch; results are in the order of `batch` */
+  evaluate(batch: ParamSet[]): Promise<EvalResult[]>;
+  close(): Promise<void>;
+}
+
+/** Everything a worker needs to evaluate trials; must be structured-clonable */
+export interface TrialWorkerData {
+  symbol: string;
+  klines: Kline[];
+  baseCfg: StrategyConfig;
+  space: ParamDef[];
+  /** Loss name or module path (functions cannot cross threads; each worker loads it) */
+  loss: string;
+  minTrades: number;
+  /** Directory a relative loss module path is resolved against */
+  cwd: string;
+}
+
+export interface TrialRequest {
+  id: number;
+  params: ParamSet;
+}
+
+export type TrialResponse =
+  | { id: number; score: number; metrics: BacktestMetrics }
+  | { id: number; error: string };
+
+const THIS_FILE = fileURLToPath(import.meta.url);
+
+/** Worker entry next to this module (.ts under tsx, .js when compiled) */
+export const TRIAL_WORKER_URL = new URL(`./trial-worker${path.extname(THIS_FILE)}`, import.meta.url);
+
+// ─────────────────────────────────────────────────────
+// In-process evaluator
+// ─────────────────────────────────────────────────────
+
+export class InProcessEvaluator implements TrialEvaluator {
+  readonly size = 1;
+  private readonly klineCache: Map<string, Kline[]>;
+
+  constructor(
+    private readonly symbol: string,
+    klines: Kline[],
+    private readonly baseCfg: StrategyConfig,
+    private readonly objective: ObjectiveOptions
+  ) {
+    this.klineCache = new Map([[symbol, klines]]);
+  }
+
+  async evaluate(batch: ParamSet[]): Promise<EvalResult[]> {
+    const results: EvalResult[] = [];
+    for (const params of batch) {
+      results.push(await evaluateParams(params, this.symbol, this.baseCfg, this.klineCache, this.objective));
+    }
+    return results;
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+// ─────────────────────────────────────────────────────
+// Worker pool
+// ─────────────────────────────────────────────────────
+
+interface PendingTrial {
+  request: TrialRequest;
+  resolve: (result: EvalResult) => void;
+  reject: (err: Error) => void;
+}
+
+interface Slot {
+  worker: Worker;
+  busy?: PendingTrial;
+}
+
+export class WorkerPool implements TrialEvaluator {
+  readonly size: number;
+  private readonly slots: Slot[];
+  private readonly queue: PendingTrial[] = [];
+  private nextId = 1;
+  private failure: Error | undefined;
+
+  /**
+   * @param size       Number of worker threads
+   * @param data       Shared trial context, cloned into each worker once
+   * @param workerUrl  Worker entry (tests substitute their own)
+   */
+  constructor(size: number, data: TrialWorkerData, workerUrl: URL = TRIAL_WORKER_URL) {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`Worker pool size must be a positive integer, got ${size}`);
+    }
+    this.size = size;
+    this.slots = Array.from({ length: size }, () => this.spawn(workerUrl, data));
+  }
+
+  evaluate(batch: ParamSet[]): Promise<EvalResult[]> {
+    return Promise.all(batch.map((params) => new Promise<EvalResult>((resolve, reject) => {
+      if (this.failure) {
+        reject(this.failure);
+        return;
+      }
+      this.queue.push({ request: { id: this.nextId++, params }, resolve, reject });
+      this.dispatch();
+    })));
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.slots.map((s) => s.worker.terminate()));
+  }
+
+  private spawn(workerUrl: URL, data: TrialWorkerData): Slot {
+    const worker = workerUrl.pathname.endsWith(".ts")
+      ? new Worker(tsxBootstrap(workerUrl), { workerData: data })
+      : new Worker(workerUrl, { workerData: data });
+    const slot: Slot = { worker };
+
+    worker.on("message", (res: TrialResponse) => {
+      const pending = slot.busy;
+      if (pending?.request.id !== res.id) return;
+      delete slot.busy;
+      if ("error" in res) pending.reject(new Error(`Trial worker failed: ${res.error}`));
+      else pending.resolve({ score: res.score, metrics: res.metrics });
+      this.dispatch();
+    });
+    worker.on("error", (err) => { this.fail(err); });
+    worker.on("exit", (code) => {
+      if (code !== 0) this.fail(new Error(`Trial worker exited with code ${code}`));
+    });
+    return slot;
+  }
+
+  private dispatch(): void {
+    for (const slot of this.slots) {
+      if (slot.busy) continue;
+      const next = this.queue.shift();
+      if (!next) return;
+      slot.busy = next;
+      slot.worker.postMessage(next.request);
+    }
+  }
+
+  /** A crashed worker fails every outstanding and future trial; the caller stops the study */
+  private fail(err: Error): void {
+    this.failure ??= err;
+    for (const slot of this.slots) {
+      slot.busy?.reject(err);
+      delete slot.busy;
+    }
+    for (const pending of this.queue.splice(0)) pending.reject(err);
+  }
+}
+
+/** data: URL module that registers the tsx loader, then imports the .ts worker entry */
+export function tsxBootstrap(workerUrl: URL): URL {
+  const tsxApi = pathToFileURL(createRequire(import.meta.url).resolve("tsx/esm/api")).href;
+  const source =
+    `import { register } from ${JSON.stringify(tsxApi)};\n` +
+    `register();\n` +
+    `await import(${JSON.stringify(workerUrl.href)});\n`;
+  return new URL(`data:text/javascript,${encodeURIComponent(source)}`);
+}
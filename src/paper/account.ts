@@ -7,6 +7,7 @@ import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
 import type { PositionSide } from "../types.js";
+import { stateDb } from "../persistence/store.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const LOGS_DIR = path.resolve(__dirname, "../../logs");
@@ -67,6 +68,13 @@ export interface PaperPosition {
   exchangeSlPrice?: number;
   /** Exit order timeout count (triggers forceExit after N consecutive timeouts) */
   exitTimeoutCount?: number;
+  /** Strategy adjustPosition adds so far, outside DCA tranche management (passed to the hook as dcaCount) */
+  adjustCount?: number;
+  /**
+   * Multi-leg group ID (pairs strategy). Legs sharing it are opened and closed together and are
+   * skipped by per-position stop loss / take profit checks
+   */
+  pairId?: string;
   // DCA (Dollar-Cost Averaging) state
   dcaState?: {
     /** Target number of tranches (including the first) */
@@ -120,6 +128,47 @@ export interface PendingOrder {
   timeoutMs: number;
 }
 
+/**
+ * Working limit order (execution.order_type = "limit")
+ * Maker-first execution advances one step per monitor loop instead of blocking it: the child order
+ * on the book is tracked in openOrders as usual, this record carries the progress between loops.
+ */
+export interface WorkingOrder {
+  symbol: string;
+  side: PendingOrder["side"];
+  /** Target quantity (BASE) */
+  quantity: number;
+  /** Quantity filled so far over all child orders */
+  filledQty: number;
+  /** Fills of all child orders so far */
+  fills: { price: string; qty: string; commission: string; commissionAsset: string }[];
+  startedAt: number;
+  /** Unfilled remainder goes to market from this time on */
+  deadline: number;
+  /** Working child is cancelled and re-posted (or a rejected post-only retried) from this time on */
+  repriceAt: number;
+  reprices: number;
+  /** Child limit order currently on the book */
+  child?: { orderId: number; qty: number; price: number };
+  /** Last quoted price (fill price fallback when a report carries none) */
+  lastPrice: number;
+  /** Last order that filled anything (orderId / time reported on the booked trade) */
+  lastOrderId?: number;
+  lastFillTime?: number;
+  /** Smallest tradable quantity (max of stepSize and minQty) */
+  minQty: number;
+  reason: string;
+  /** Entry sizing captured when an entry started, booked into the position once done */
+  entry?: {
+    signalPrice: number;
+    /** USDT spent (long) / margin locked (short) */
+    usdtAmount: number;
+    /** Exchange USDT balance before the entry */
+    balanceBefore: number;
+    atr?: number;
+  };
+}
+
 export interface PaperAccount {
   initialUsdt: number;
   usdt: number;
@@ -134,6 +183,8 @@ export interface PaperAccount {
   };
   /** Pending order state table (F5 order state machine) -- key: orderId */
   openOrders?: Record<number, PendingOrder>;
+  /** Limit orders still being worked across monitor loops -- key: symbol */
+  workingOrders?: Record<string, WorkingOrder>;
 }
 
 function generateId(): string {
@@ -144,10 +195,46 @@ function todayStr(): string {
   return new Date().toISOString().slice(0, 10);
 }
 
+/** Whether the scenario has a stored account (JSON file or SQLite row) */
+export function accountExists(scenarioId = "default"): boolean {
+  const db = stateDb();
+  return db ? db.loadAccount(scenarioId) !== undefined : fs.existsSync(getAccountPath(scenarioId));
+}
+
+/** Scenario IDs with a stored account */
+export function listAccountIds(): string[] {
+  const db = stateDb();
+  if (db) return db.listAccounts();
+  try {
+    return fs.readdirSync(LOGS_DIR)
+      .filter((f) => /^paper-.+\.json$/.test(f) && !f.includes("-backup-"))
+      .map((f) => f.slice("paper-".length, -".json".length));
+  } catch {
+    return [];
+  }
+}
+
+/** Delete the scenario's stored account (next loadAccount starts fresh) */
+export function deleteAccount(scenarioId = "default"): void {
+  const db = stateDb();
+  if (db) db.deleteAccount(scenarioId);
+  else fs.rmSync(getAccountPath(scenarioId), { force: true });
+}
+
+function readStoredAccount(scenarioId: string): PaperAccount {
+  const db = stateDb();
+  if (db) {
+    const account = db.loadAccount(scenarioId);
+    if (!account) throw new Error(`No account for scenario ${scenarioId}`);
+    return account;
+  }
+  return JSON.parse(fs.readFileSync(getAccountPath(scenarioId), "utf-8")) as PaperAccount;
+}
+
 export function loadAccount(initialUsdt = 1000, scenarioId = "default"): PaperAccount {
   const statePath = getAccountPath(scenarioId);
   try {
-    const account = JSON.parse(fs.readFileSync(statePath, "utf-8")) as PaperAccount;
+    const account = readStoredAccount(scenarioId);
     // Guard: basic field validation, prevent corrupted file from causing NaN downstream
     if (typeof account.usdt !== "number" || typeof account.positions !== "object" || account.positions === null) {
       throw new Error(`Invalid account state: ${statePath}`);
@@ -179,9 +266,15 @@ export function loadAccount(initialUsdt = 1000, scenarioId = "default"): PaperAc
 }
 
 export function saveAccount(account: PaperAccount, scenarioId = "default"): void {
+  account.updatedAt = Date.now();
+  const db = stateDb();
+  if (db) {
+    // One transaction: a crash mid-save keeps the previous account
+    db.saveAccount(scenarioId, account);
+    return;
+  }
   const statePath = getAccountPath(scenarioId);
   fs.mkdirSync(path.dirname(statePath), { recursive: true });
-  account.updatedAt = Date.now();
   // Atomic write: write to .tmp first then rename, prevent corruption from concurrent writes
   const tmpPath = statePath + ".tmp";
   fs.writeFileSync(tmpPath, JSON.stringify(account, null, 2));
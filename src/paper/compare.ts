@@ -7,7 +7,7 @@ import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
 import { loadPaperConfig, loadStrategyProfile } from "../config/loader.js";
-import { loadAccount, calcTotalEquity, getAccountPath } from "./account.js";
+import { loadAccount, calcTotalEquity, accountExists } from "./account.js";
 import { getPriceChanges } from "../news/fetcher.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -61,8 +61,7 @@ async function collectStats(): Promise<ScenarioStats[]> {
   // First scan all scenarios and collect symbols with open positions
   const symbolsNeeded = new Set<string>();
   for (const scenario of paperCfg.scenarios) {
-    const accountPath = getAccountPath(scenario.id);
-    if (fs.existsSync(accountPath)) {
+    if (accountExists(scenario.id)) {
       const account = loadAccount(scenario.initial_usdt, scenario.id);
       Object.keys(account.positions).forEach((sym) => symbolsNeeded.add(sym));
     }
@@ -85,8 +84,7 @@ async function collectStats(): Promise<ScenarioStats[]> {
     const leverageLabel = lev?.enabled ? `${lev.default}x` : "N/A";
     const marketLabel = exc.market.toUpperCase();
 
-    const accountPath = getAccountPath(scenario.id);
-    if (!fs.existsSync(accountPath)) {
+    if (!accountExists(scenario.id)) {
       return {
         id: scenario.id,
         name: scenario.name,
@@ -9,7 +9,8 @@ import { calcAtrPositionSize } from "../strategy/indicators.js";
 import { checkMinimalRoi } from "../strategy/roi-table.js";
 import { resolveNewStopLoss } from "../strategy/break-even.js";
 import { shouldConfirmExit, isExitRejectionCoolingDown } from "../strategy/confirm-exit.js";
-import type { Strategy, StrategyContext } from "../strategies/types.js";
+import type { Strategy, StrategyContext, MultiLegSignal } from "../strategies/types.js";
+import { calcLegUsdt, makePairId } from "../strategy/pairs.js";
 import { logSignal, closeSignal } from "../strategy/signal-history.js";
 import { createLogger } from "../logger.js";
 import { TradeDB } from "../persistence/db.js";
@@ -54,6 +55,13 @@ export interface PaperEngineResult {
   account: PaperAccount;
 }
 
+export interface PaperMultiLegResult {
+  /** One trade per leg; empty when the signal was skipped */
+  trades: PaperTrade[];
+  skipped?: string | undefined;
+  account: PaperAccount;
+}
+
 function scenarioId(cfg: RuntimeConfig): string {
   return cfg.paper.scenarioId;
 }
@@ -332,6 +340,123 @@ export function handleSignal(signal: Signal, cfg: RuntimeConfig): PaperEngineRes
   return { trade, skipped, stopLossTriggered: false, stopLossTrade: null, account };
 }
 
+/**
+ * Handle a multi-leg signal (pairs strategy): every leg is opened, or closed, as one unit
+ *
+ * All checks (market type, free slots, prices, cash for the sum of legs, min order) run before
+ * the first fill; if a leg still fails to fill, the account is not saved, so no leg stays open.
+ */
+export function handleMultiLegSignal(
+  signal: MultiLegSignal,
+  prices: Record<string, number>,
+  cfg: RuntimeConfig
+): PaperMultiLegResult {
+  const sid = scenarioId(cfg);
+  const account = loadAccount(cfg.paper.initial_usdt, sid);
+  resetDailyLossIfNeeded(account);
+  const opts = paperOpts(cfg);
+  const skip = (reason: string): PaperMultiLegResult => ({
+    trades: [],
+    skipped: reason,
+    account: loadAccount(cfg.paper.initial_usdt, sid),
+  });
+
+  if (signal.action === "close") {
+    const held = signal.symbols.filter((s) => account.positions[s] !== undefined);
+    if (held.length === 0) return { trades: [], account };
+    const unpriced = held.filter((s) => !(prices[s] !== undefined && isFinite(prices[s]) && prices[s] > 0));
+    if (unpriced.length > 0) return skip(`No price for ${unpriced.join(", ")}, keeping all legs open`);
+
+    const trades: PaperTrade[] = [];
+    for (const symbol of held) {
+      const pos = account.positions[symbol];
+      const price = prices[symbol];
+      if (!pos || price === undefined) continue;
+      const trade = pos.side === "short"
+        ? paperCoverShort(account, symbol, price, signal.reason, opts)
+        : paperSell(account, symbol, price, signal.reason, opts);
+      if (!trade) continue;
+      trades.push(trade);
+      if (pos.signalHistoryId) {
+        try { closeSignal(pos.signalHistoryId, price, "signal", trade.pnl); } catch { /* skip */ }
+      }
+    }
+    saveAccount(account, sid);
+    return { trades, account };
+  }
+
+  // ── Open: validate every leg before the first fill ──
+  const { legs } = signal;
+  const market = cfg.exchange.market;
+  if (legs.some((l) => l.side === "short") && market !== "futures" && market !== "margin") {
+    return skip(`Multi-leg signal ignored: current market type is ${market}, shorting requires futures or margin`);
+  }
+  const held = legs.filter((l) => account.positions[l.symbol] !== undefined);
+  if (held.length > 0) {
+    return skip(`${held.map((l) => l.symbol).join(", ")} already held, skipping multi-leg entry`);
+  }
+  if (Object.keys(account.positions).length + legs.length > cfg.risk.max_positions) {
+    return skip(`Max positions ${cfg.risk.max_positions} leaves no room for ${legs.length} legs, skipping`);
+  }
+  const unpriced = legs.filter((l) => {
+    const p = prices[l.symbol];
+    return !(p !== undefined && isFinite(p) && p > 0);
+  });
+  if (unpriced.length > 0) {
+    return skip(`Invalid price for ${unpriced.map((l) => l.symbol).join(", ")}, skipping multi-leg entry`);
+  }
+  const equity = calcTotalEquity(account, prices);
+  if (equity <= 0) {
+    return skip(`Abnormal account equity (${equity.toFixed(2)} USDT), skipping multi-leg entry`);
+  }
+  if ((account.dailyLoss.loss / equity) * 100 >= cfg.risk.daily_loss_limit_percent) {
+    return skip(`Daily loss reached ${cfg.risk.daily_loss_limit_percent}%, pausing new entries for today`);
+  }
+  const sizes = legs.map((l) => calcLegUsdt(l.weight, legs.length, equity, cfg.risk.position_ratio));
+  const small = legs.filter((_, i) => (sizes[i] ?? 0) < cfg.execution.min_order_usdt);
+  if (small.length > 0) {
+    return skip(`Leg ${small.map((l) => l.symbol).join(", ")} below min order ${cfg.execution.min_order_usdt} USDT, skipping multi-leg entry`);
+  }
+  const total = sizes.reduce((s, v) => s + v, 0);
+  if (total > account.usdt) {
+    return skip(`Insufficient USDT for all legs (need ${total.toFixed(2)}, have ${account.usdt.toFixed(2)}), skipping`);
+  }
+
+  const pairId = makePairId(legs.map((l) => l.symbol), Date.now());
+  const trades: PaperTrade[] = [];
+  for (const [i, leg] of legs.entries()) {
+    const price = prices[leg.symbol] ?? 0;
+    const legOpts = { ...opts, overridePositionUsdt: sizes[i] ?? 0 };
+    const trade = leg.side === "short"
+      ? paperOpenShort(account, leg.symbol, price, signal.reason, legOpts)
+      : paperBuy(account, leg.symbol, price, signal.reason, legOpts);
+    // A leg did not fill: drop the in-memory account, the saved one has no leg open
+    if (!trade) return skip(`Leg ${leg.symbol} could not be opened, no multi-leg position taken`);
+    trades.push(trade);
+  }
+
+  for (const [i, leg] of legs.entries()) {
+    const pos = account.positions[leg.symbol];
+    const trade = trades[i];
+    if (!pos || !trade) continue;
+    pos.pairId = pairId;
+    try {
+      pos.signalHistoryId = logSignal({
+        symbol: leg.symbol,
+        type: leg.side === "short" ? "short" : "buy",
+        entryPrice: trade.price,
+        conditions: { triggeredRules: [signal.reason] },
+        scenarioId: sid,
+        source: "paper",
+        notes: pairId,
+      });
+    } catch { /* does not affect main flow */ }
+  }
+
+  saveAccount(account, sid);
+  return { trades, account };
+}
+
 /**
  * Staged take profit check (internal helper)
  * Iterates tpStages, triggers untriggered stages, executes partial closes
@@ -409,6 +534,8 @@ export function checkExitConditions(
     if (!currentPrice) continue;
     // ── Guard: entryPrice <= 0 would cause NaN in pnlPercent/profitRatio ──
     if (pos.entryPrice <= 0) continue;
+    // Multi-leg positions are closed together by handleMultiLegSignal()
+    if (pos.pairId !== undefined) continue;
 
     const isShort = pos.side === "short";
 
@@ -786,6 +913,71 @@ export function checkDcaTranches(
   return executed;
 }
 
+/**
+ * Strategy-driven add/reduce for one symbol (adjustPosition hook, e.g. the grid plugin)
+ *
+ * Only for strategies that opt in with adjustEveryCycle; runs every cycle for long positions
+ * outside DCA tranche management (those go through checkDcaTranches()):
+ *   > 0 -> add that much USDT to the position
+ *   < 0 -> sell that USDT worth; selling everything closes the position
+ */
+export function applyStrategyAdjustment(
+  symbol: string,
+  price: number,
+  cfg: RuntimeConfig,
+  strategy: Strategy,
+  ctx: StrategyContext
+): PaperTrade | null {
+  if (strategy.adjustPosition === undefined || strategy.adjustEveryCycle !== true) return null;
+  const sid = scenarioId(cfg);
+  const account = loadAccount(cfg.paper.initial_usdt, sid);
+  const pos = account.positions[symbol];
+  if (!pos || pos.side === "short" || pos.entryPrice <= 0) return null;
+  if (pos.dcaState && cfg.risk.dca?.enabled) return null;
+
+  const amount = strategy.adjustPosition(
+    {
+      symbol,
+      side: "long",
+      entryPrice: pos.entryPrice,
+      currentPrice: price,
+      quantity: pos.quantity,
+      costBasis: pos.quantity * pos.entryPrice,
+      profitRatio: (price - pos.entryPrice) / pos.entryPrice,
+      holdMs: Date.now() - pos.entryTime,
+      dcaCount: pos.adjustCount ?? 0,
+    },
+    ctx
+  );
+  if (amount === null || amount === 0) return null;
+
+  const opts = paperOpts(cfg);
+  let trade: PaperTrade | null;
+  if (amount > 0) {
+    if (amount < cfg.execution.min_order_usdt) return null;
+    trade = paperDcaAdd(account, symbol, price, `adjustPosition add $${amount.toFixed(2)}`, {
+      addUsdt: amount,
+      feeRate: opts.feeRate,
+      slippagePercent: opts.slippagePercent,
+    });
+    const added = account.positions[symbol];
+    if (trade && added) added.adjustCount = (pos.adjustCount ?? 0) + 1;
+  } else {
+    const reduceQty = -amount / price;
+    const full = reduceQty >= pos.quantity * (1 - 1e-9);
+    trade = paperSell(account, symbol, price, `adjustPosition reduce $${(-amount).toFixed(2)}`, {
+      ...opts,
+      ...(!full && { overrideQty: reduceQty }),
+    });
+    if (trade && full && pos.signalHistoryId) {
+      try { closeSignal(pos.signalHistoryId, price, "signal", trade.pnl); } catch { /* skip */ }
+    }
+  }
+
+  if (trade) saveAccount(account, sid);
+  return trade;
+}
+
 export function getPaperSummary(prices: Record<string, number>, cfg: RuntimeConfig) {
   return getAccountSummary(loadAccount(cfg.paper.initial_usdt, scenarioId(cfg)), prices);
 }
@@ -7,31 +7,22 @@
  *   npm run paper:reset -- --scenario <id> --set-initial <usdt>   Reset base equity
  */
 
-import fs from "fs";
-import path from "path";
-import { fileURLToPath } from "url";
 import { loadPaperConfig } from "../config/loader.js";
-import { getAccountPath } from "./account.js";
-
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const LOGS_DIR = path.resolve(__dirname, "../../logs");
-const KILL_SWITCH_PATH = path.join(LOGS_DIR, "kill-switch-state.json");
+import { deactivateKillSwitch, readKillSwitch } from "../health/kill-switch.js";
+import { accountExists, deleteAccount, loadAccount, saveAccount } from "./account.js";
+import { deleteScenarioState } from "./scenario-state.js";
 
 const args = process.argv.slice(2);
 
 // ── --kill-switch mode ────────────────────────────────────────
 if (args.includes("--kill-switch")) {
-  if (fs.existsSync(KILL_SWITCH_PATH)) {
-    const ks = JSON.parse(fs.readFileSync(KILL_SWITCH_PATH, "utf-8"));
-    if (!ks.active) {
-      console.log("ℹ️  Kill switch is not currently active, no reset needed.");
-    } else {
-      fs.writeFileSync(KILL_SWITCH_PATH, JSON.stringify({ active: false }, null, 2));
-      console.log("✅ Kill switch has been deactivated.");
-      console.log("   Original trigger info:", ks.reason ?? "not recorded", "/ Triggered at:", ks.triggeredAt ?? "unknown");
-    }
+  const ks = readKillSwitch();
+  if (!ks.active) {
+    console.log("ℹ️  Kill switch is not currently active, no reset needed.");
   } else {
-    console.log("ℹ️  Kill switch state file does not exist (default: inactive).");
+    deactivateKillSwitch();
+    console.log("✅ Kill switch has been deactivated.");
+    console.log("   Original trigger info:", ks.reason || "not recorded", "/ Triggered at:", ks.triggeredAt || "unknown");
   }
   process.exit(0);
 }
@@ -48,15 +39,14 @@ if (setInitialArg && scenarioArg) {
     console.error("❌ --set-initial must be a positive number, e.g.: --set-initial 8202");
     process.exit(1);
   }
-  const stateFile = path.join(LOGS_DIR, `paper-${scenarioArg}.json`);
-  if (!fs.existsSync(stateFile)) {
-    console.error(`❌ State file not found: ${stateFile}`);
+  if (!accountExists(scenarioArg)) {
+    console.error(`❌ No account stored for scenario: ${scenarioArg}`);
     process.exit(1);
   }
-  const state = JSON.parse(fs.readFileSync(stateFile, "utf-8"));
+  const state = loadAccount(newInitial, scenarioArg);
   const old = state.initialUsdt;
   state.initialUsdt = newInitial;
-  fs.writeFileSync(stateFile, JSON.stringify(state, null, 2));
+  saveAccount(state, scenarioArg);
   console.log(`✅ ${scenarioArg} initialUsdt: ${old} → ${newInitial}`);
   console.log("   P&L baseline updated, existing positions are not affected.");
   process.exit(0);
@@ -90,20 +80,13 @@ if (scenarios.length === 0) {
 }
 
 for (const s of scenarios) {
-  const accountPath = getAccountPath(s.id);
-  const statePath = path.join(LOGS_DIR, `state-${s.id}.json`);
-
-  if (fs.existsSync(accountPath)) {
-    fs.unlinkSync(accountPath);
-    console.log(`✅ Account reset: ${s.name ?? s.id} (${path.basename(accountPath)})`);
+  if (accountExists(s.id)) {
+    deleteAccount(s.id);
+    console.log(`✅ Account reset: ${s.name ?? s.id}`);
   } else {
     console.log(`ℹ️  Account does not exist (skipped): ${s.name ?? s.id}`);
   }
-
-  if (fs.existsSync(statePath)) {
-    fs.unlinkSync(statePath);
-    console.log(`   State cleared: ${path.basename(statePath)}`);
-  }
+  deleteScenarioState(s.id);
 }
 
 console.log("\n✅ Reset complete, new accounts will be created on next monitor scan");
@@ -0,0 +1,61 @@
+/**
+ * Per-scenario monitor state: logs/state-{scenarioId}.json (or the SQLite state store)
+ *
+ * Written by the paper monitor (signal dedup, report timer, drawdown auto-pause) and
+ * by dashboard operators (manual pause). Both monitors skip new entries while paused;
+ * exits keep running.
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { stateDb } from "../persistence/store.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const LOGS_DIR = path.resolve(__dirname, "../../logs");
+
+export interface ScenarioState {
+  lastSignals: Record<string, { type: string; timestamp: number }>;
+  lastReportAt: number;
+  paused: boolean;
+}
+
+export function getScenarioStatePath(scenarioId: string): string {
+  return path.join(LOGS_DIR, `state-${scenarioId}.json`);
+}
+
+export function loadScenarioState(scenarioId: string): ScenarioState {
+  // First creation: set lastReportAt to current time to avoid triggering empty report on first run
+  const fresh = (): ScenarioState => ({ lastSignals: {}, lastReportAt: Date.now(), paused: false });
+  const db = stateDb();
+  if (db) return db.getDocument<ScenarioState>("scenario_state", scenarioId) ?? fresh();
+  try {
+    return JSON.parse(fs.readFileSync(getScenarioStatePath(scenarioId), "utf-8")) as ScenarioState;
+  } catch (_e: unknown) {
+    return fresh();
+  }
+}
+
+export function saveScenarioState(scenarioId: string, state: ScenarioState): void {
+  const db = stateDb();
+  if (db) {
+    db.putDocument("scenario_state", scenarioId, state);
+    return;
+  }
+  fs.mkdirSync(path.dirname(getScenarioStatePath(scenarioId)), { recursive: true });
+  fs.writeFileSync(getScenarioStatePath(scenarioId), JSON.stringify(state, null, 2));
+}
+
+/** Set the pause flag, keeping the rest of the state */
+export function setScenarioPaused(scenarioId: string, paused: boolean): ScenarioState {
+  const state = { ...loadScenarioState(scenarioId), paused };
+  saveScenarioState(scenarioId, state);
+  return state;
+}
+
+/** Forget the scenario's state (paper reset) */
+export function deleteScenarioState(scenarioId: string): void {
+  const db = stateDb();
+  if (db) db.deleteDocument("scenario_state", scenarioId);
+  else fs.rmSync(getScenarioStatePath(scenarioId), { force: true });
+}
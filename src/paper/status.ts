@@ -6,10 +6,9 @@
  */
 
 import { getPriceChanges } from "../news/fetcher.js";
-import { loadAccount, getAccountSummary, getAccountPath, calcTotalEquity } from "./account.js";
+import { loadAccount, getAccountSummary, accountExists, calcTotalEquity } from "./account.js";
 import { loadPaperConfig, loadStrategyProfile } from "../config/loader.js";
 import type { PaperTrade } from "./account.js";
-import fs from "fs";
 
 const args = process.argv.slice(2);
 const filterScenario = args[0]; // Optional: specify scenario ID
@@ -27,7 +26,7 @@ if (allScenarios.length === 0) {
 // Collect all symbols with positions across scenarios, fetch prices in batch (reduce API calls)
 const allSymbols = new Set<string>(["BTCUSDT", "ETHUSDT"]);
 for (const s of allScenarios) {
-  if (!fs.existsSync(getAccountPath(s.id))) continue;
+  if (!accountExists(s.id)) continue;
   const account = loadAccount(s.initial_usdt, s.id);
   for (const sym of Object.keys(account.positions)) allSymbols.add(sym);
 }
@@ -53,7 +52,7 @@ function printDetail(
       return null;
     }
   })();
-  const account = fs.existsSync(getAccountPath(scenarioId))
+  const account = accountExists(scenarioId)
     ? loadAccount(initialUsdt, scenarioId)
     : null;
 
@@ -130,7 +129,7 @@ function printSummary(): void {
   console.log("─".repeat(70));
 
   for (const s of allScenarios) {
-    if (!fs.existsSync(getAccountPath(s.id))) {
+    if (!accountExists(s.id)) {
       console.log(
         `  ${s.name.padEnd(24)} ${s.strategy_id.padEnd(14)} ${s.exchange.market.toUpperCase().padEnd(12)} ${"[no data]".padStart(10)}`
       );
@@ -179,7 +178,7 @@ if (filterScenario) {
   printSummary();
   // If there are open positions, print position details
   for (const s of allScenarios) {
-    if (!fs.existsSync(getAccountPath(s.id))) continue;
+    if (!accountExists(s.id)) continue;
     const account = loadAccount(s.initial_usdt, s.id);
     if (Object.keys(account.positions).length > 0) {
       printDetail(s.id, s.name, s.strategy_id, s.initial_usdt);
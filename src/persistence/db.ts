@@ -1,63 +1,153 @@
 /**
- * SQLite Optional Persistence (G5)
+ * SQLite Persistence
  *
  * Features:
- *   - Optional SQLite database (enabled via paper.use_sqlite: true)
- *   - trades table: open/close trade records
- *   - account_snapshots table: periodic account snapshots
+ *   - Versioned schema (migrations.ts, PRAGMA user_version), migrated on open
+ *   - trades / account_snapshots tables: open/close trade records (G5, paper.use_sqlite: true)
  *   - Recent closed trades query interface for ProtectionManager
+ *   - hyperopt_studies / hyperopt_trials tables: every hyperopt trial, so an interrupted
+ *     study can resume and past studies can be queried
+ *   - Runtime state (persistence.backend: sqlite, see store.ts): accounts with their positions,
+ *     orders and fills, signal history and keyed JSON documents. Every account save is one
+ *     transaction, so a crash mid-trade leaves the previous account intact
  *
  * Testing: Use ":memory:" path (in-memory database, no disk writes)
  */
 
 import Database from "better-sqlite3";
 import type { TradeRecord } from "../strategy/protection-manager.js";
+import type { ParamSet } from "../optimization/param-space.js";
+import type { PaperAccount, PaperPosition, PaperTrade, PendingOrder, WorkingOrder } from "../paper/account.js";
+import type { SignalRecord } from "../strategy/signal-history.js";
+import { getSchemaVersion, runMigrations } from "./migrations.js";
+import type { Migration } from "./migrations.js";
 
 // ─────────────────────────────────────────────────────
-// Schema
+// Types
 // ─────────────────────────────────────────────────────
 
-const CREATE_TRADES = `
-CREATE TABLE IF NOT EXISTS trades (
-  id          INTEGER PRIMARY KEY AUTOINCREMENT,
-  scenarioId  TEXT    NOT NULL,
-  symbol      TEXT    NOT NULL,
-  side        TEXT    NOT NULL,   -- buy | sell | short | cover
-  quantity    REAL    NOT NULL,
-  entryPrice  REAL    NOT NULL,
-  stopLoss    REAL    NOT NULL,
-  takeProfit  REAL    NOT NULL,
-  openAt      INTEGER NOT NULL,   -- Unix ms
-  exitPrice   REAL,               -- NULL = still open
-  pnl         REAL,
-  pnlRatio    REAL,
-  wasStopLoss INTEGER DEFAULT 0,  -- 0 | 1
-  wasRoiExit  INTEGER DEFAULT 0,
-  closedAt    INTEGER,            -- NULL = still open
-  status      TEXT    DEFAULT 'open'  -- open | closed
-)
-`;
-
-const CREATE_SNAPSHOTS = `
-CREATE TABLE IF NOT EXISTS account_snapshots (
-  id            INTEGER PRIMARY KEY AUTOINCREMENT,
-  scenarioId    TEXT    NOT NULL,
-  equity        REAL    NOT NULL,
-  cash          REAL    NOT NULL,
-  openPositions INTEGER NOT NULL,
-  snapshotAt    INTEGER NOT NULL   -- Unix ms
-)
-`;
-
-const CREATE_TRADES_IDX = `
-CREATE INDEX IF NOT EXISTS idx_trades_scenario_status
-  ON trades (scenarioId, status)
-`;
-
-const CREATE_SNAPSHOTS_IDX = `
-CREATE INDEX IF NOT EXISTS idx_snapshots_scenario_time
-  ON account_snapshots (scenarioId, snapshotAt)
-`;
+/** Settings a hyperopt study was started with; a resumed run must match them */
+export interface HyperoptStudy {
+  name: string;
+  symbol: string;
+  /** Strategy profile id (undefined = strategy.yaml) */
+  strategy?: string;
+  loss: string;
+  pareto: boolean;
+  walkForward: boolean;
+  /** Backtest window (Unix ms), reused on resume so trials stay comparable */
+  startMs: number;
+  endMs: number;
+  /** Names of the searched parameters */
+  space: string[];
+  createdAt: number;
+}
+
+/** One evaluated hyperopt trial */
+export interface StudyTrial {
+  trial: number;
+  params: ParamSet;
+  score: number;
+  /** Maximize-oriented objective vector (Pareto mode only) */
+  objectives?: number[];
+  sharpe: number;
+  maxDrawdown: number;
+  totalReturn: number;
+  trades: number;
+  winRate: number;
+}
+
+export interface StudySummary extends HyperoptStudy {
+  trialCount: number;
+  bestScore: number | null;
+  updatedAt: number;
+}
+
+// ─────────────────────────────────────────────────────
+// Rows
+// ─────────────────────────────────────────────────────
+
+interface StudyRow {
+  name: string;
+  symbol: string;
+  strategy: string | null;
+  loss: string;
+  pareto: number;
+  walkForward: number;
+  startMs: number;
+  endMs: number;
+  space: string;
+  createdAt: number;
+}
+
+interface StudyTrialRow {
+  trial: number;
+  params: string;
+  score: number;
+  objectives: string | null;
+  sharpe: number;
+  maxDrawdown: number;
+  totalReturn: number;
+  trades: number;
+  winRate: number;
+}
+
+function toStudy(r: StudyRow): HyperoptStudy {
+  return {
+    name: r.name,
+    symbol: r.symbol,
+    ...(r.strategy !== null ? { strategy: r.strategy } : {}),
+    loss: r.loss,
+    pareto: r.pareto === 1,
+    walkForward: r.walkForward === 1,
+    startMs: r.startMs,
+    endMs: r.endMs,
+    space: JSON.parse(r.space) as string[],
+    createdAt: r.createdAt,
+  };
+}
+
+interface AccountRow {
+  initialUsdt: number;
+  usdt: number;
+  dailyLossDate: string;
+  dailyLoss: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface FillRow {
+  id: string;
+  symbol: string;
+  side: PaperTrade["side"];
+  quantity: number;
+  price: number;
+  usdtAmount: number;
+  fee: number;
+  slippage: number;
+  timestamp: number;
+  reason: string;
+  pnl: number | null;
+  pnlPercent: number | null;
+}
+
+function toTrade(r: FillRow): PaperTrade {
+  const { pnl, pnlPercent, ...rest } = r;
+  return {
+    ...rest,
+    ...(pnl !== null ? { pnl } : {}),
+    ...(pnlPercent !== null ? { pnlPercent } : {}),
+  };
+}
+
+/** Document namespaces of the runtime state (documents table) */
+export type DocumentNamespace =
+  | "kill_switch"
+  | "scenario_state"
+  | "heartbeat"
+  | "strategy_state"
+  | "notify_dedup"
+  | "cache";
 
 // ─────────────────────────────────────────────────────
 // TradeDB Class
@@ -74,17 +164,34 @@ export class TradeDB {
   constructor(dbPath = "logs/trades.db") {
     this.db = new Database(dbPath);
     this.db.pragma("journal_mode = WAL"); // Improve concurrent write performance
+    // Monitors, cron scripts and the dashboard share one state database: wait for a writer
+    // instead of failing with SQLITE_BUSY
+    this.db.pragma("busy_timeout = 5000");
     this.migrate();
   }
 
   /**
-   * Create tables (idempotent, skips if already exists)
+   * Apply pending schema migrations (idempotent)
+   * @returns Migrations applied by this call
+   * @throws SchemaVersionError when the file was written by a newer build
    */
-  migrate(): void {
-    this.db.exec(CREATE_TRADES);
-    this.db.exec(CREATE_SNAPSHOTS);
-    this.db.exec(CREATE_TRADES_IDX);
-    this.db.exec(CREATE_SNAPSHOTS_IDX);
+  migrate(): Migration[] {
+    return runMigrations(this.db);
+  }
+
+  /** Database file path (":memory:" for in-memory databases) */
+  get filePath(): string {
+    return this.db.name;
+  }
+
+  /** Current schema version (PRAGMA user_version) */
+  get schemaVersion(): number {
+    return getSchemaVersion(this.db);
+  }
+
+  /** Run `fn` in one transaction (nested calls join the outer one) */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
   }
 
   /**
@@ -202,6 +309,287 @@ export class TradeDB {
     stmt.run(scenarioId, equity, cash, openPositions, snapshotAt);
   }
 
+  // ─────────────────────────────────────────────────
+  // Hyperopt studies
+  // ─────────────────────────────────────────────────
+
+  /**
+   * Register a new hyperopt study. Throws if the name is already taken.
+   */
+  createStudy(study: HyperoptStudy): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO hyperopt_studies
+        (name, symbol, strategy, loss, pareto, walkForward, startMs, endMs, space, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      study.name,
+      study.symbol,
+      study.strategy ?? null,
+      study.loss,
+      study.pareto ? 1 : 0,
+      study.walkForward ? 1 : 0,
+      study.startMs,
+      study.endMs,
+      JSON.stringify(study.space),
+      study.createdAt,
+      study.createdAt
+    );
+  }
+
+  /**
+   * Look up a study by name (undefined if it does not exist)
+   */
+  getStudy(name: string): HyperoptStudy | undefined {
+    const row = this.db.prepare(`SELECT * FROM hyperopt_studies WHERE name = ?`).get(name) as StudyRow | undefined;
+    return row ? toStudy(row) : undefined;
+  }
+
+  /**
+   * All studies with their trial count and best score, most recently updated first
+   */
+  listStudies(): StudySummary[] {
+    const rows = this.db.prepare(`
+      SELECT s.*, COUNT(t.id) AS trialCount, MAX(t.score) AS bestScore
+      FROM hyperopt_studies s
+      LEFT JOIN hyperopt_trials t ON t.studyName = s.name
+      GROUP BY s.name
+      ORDER BY s.updatedAt DESC
+    `).all() as (StudyRow & { trialCount: number; bestScore: number | null; updatedAt: number })[];
+    return rows.map((r) => ({
+      ...toStudy(r),
+      trialCount: r.trialCount,
+      bestScore: r.bestScore,
+      updatedAt: r.updatedAt,
+    }));
+  }
+
+  /**
+   * Store one evaluated trial (re-recording the same trial number overwrites it)
+   */
+  recordTrial(studyName: string, trial: StudyTrial, recordedAt = Date.now()): void {
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO hyperopt_trials
+        (studyName, trial, params, score, objectives, sharpe, maxDrawdown, totalReturn, trades, winRate, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const touch = this.db.prepare(`UPDATE hyperopt_studies SET updatedAt = ? WHERE name = ?`);
+    this.db.transaction(() => {
+      insert.run(
+        studyName,
+        trial.trial,
+        JSON.stringify(trial.params),
+        trial.score,
+        trial.objectives !== undefined ? JSON.stringify(trial.objectives) : null,
+        trial.sharpe,
+        trial.maxDrawdown,
+        trial.totalReturn,
+        trial.trades,
+        trial.winRate,
+        recordedAt
+      );
+      touch.run(recordedAt, studyName);
+    })();
+  }
+
+  /**
+   * All trials of a study, in trial order
+   */
+  getStudyTrials(studyName: string): StudyTrial[] {
+    const rows = this.db.prepare(`
+      SELECT trial, params, score, objectives, sharpe, maxDrawdown, totalReturn, trades, winRate
+      FROM hyperopt_trials
+      WHERE studyName = ?
+      ORDER BY trial ASC
+    `).all(studyName) as StudyTrialRow[];
+    return rows.map((r) => ({
+      trial: r.trial,
+      params: JSON.parse(r.params) as ParamSet,
+      score: r.score,
+      ...(r.objectives !== null ? { objectives: JSON.parse(r.objectives) as number[] } : {}),
+      sharpe: r.sharpe,
+      maxDrawdown: r.maxDrawdown,
+      totalReturn: r.totalReturn,
+      trades: r.trades,
+      winRate: r.winRate,
+    }));
+  }
+
+  // ─────────────────────────────────────────────────
+  // Accounts (positions / orders / fills)
+  // ─────────────────────────────────────────────────
+
+  /**
+   * Store a whole account in one transaction: the account row, its positions, open and
+   * working orders are replaced; fills are upserted by their position in account.trades
+   */
+  saveAccount(scenarioId: string, account: PaperAccount): void {
+    const upsertAccount = this.db.prepare(`
+      INSERT INTO accounts (scenarioId, initialUsdt, usdt, dailyLossDate, dailyLoss, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (scenarioId) DO UPDATE SET
+        initialUsdt = excluded.initialUsdt, usdt = excluded.usdt,
+        dailyLossDate = excluded.dailyLossDate, dailyLoss = excluded.dailyLoss,
+        createdAt = excluded.createdAt, updatedAt = excluded.updatedAt
+    `);
+    const insertPosition = this.db.prepare(`
+      INSERT INTO positions (scenarioId, symbol, side, quantity, entryPrice, entryTime, stopLoss, takeProfit, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertOrder = this.db.prepare(`
+      INSERT INTO orders (scenarioId, orderId, symbol, side, status, placedAt, requestedQty, filledQty, timeoutMs)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertWorking = this.db.prepare(`INSERT INTO working_orders (scenarioId, symbol, data) VALUES (?, ?, ?)`);
+    const upsertFill = this.db.prepare(`
+      INSERT INTO fills (scenarioId, idx, id, symbol, side, quantity, price, usdtAmount, fee, slippage, timestamp, reason, pnl, pnlPercent)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (scenarioId, idx) DO UPDATE SET
+        id = excluded.id, symbol = excluded.symbol, side = excluded.side, quantity = excluded.quantity,
+        price = excluded.price, usdtAmount = excluded.usdtAmount, fee = excluded.fee, slippage = excluded.slippage,
+        timestamp = excluded.timestamp, reason = excluded.reason, pnl = excluded.pnl, pnlPercent = excluded.pnlPercent
+    `);
+
+    this.transaction(() => {
+      upsertAccount.run(
+        scenarioId, account.initialUsdt, account.usdt, account.dailyLoss.date, account.dailyLoss.loss,
+        account.createdAt, account.updatedAt
+      );
+
+      this.db.prepare(`DELETE FROM positions WHERE scenarioId = ?`).run(scenarioId);
+      for (const pos of Object.values(account.positions)) {
+        insertPosition.run(
+          scenarioId, pos.symbol, pos.side ?? "long", pos.quantity, pos.entryPrice, pos.entryTime,
+          pos.stopLoss, pos.takeProfit, JSON.stringify(pos)
+        );
+      }
+
+      this.db.prepare(`DELETE FROM orders WHERE scenarioId = ?`).run(scenarioId);
+      for (const o of Object.values(account.openOrders ?? {})) {
+        insertOrder.run(scenarioId, o.orderId, o.symbol, o.side, o.status, o.placedAt, o.requestedQty, o.filledQty, o.timeoutMs);
+      }
+
+      this.db.prepare(`DELETE FROM working_orders WHERE scenarioId = ?`).run(scenarioId);
+      for (const [symbol, w] of Object.entries(account.workingOrders ?? {})) {
+        insertWorking.run(scenarioId, symbol, JSON.stringify(w));
+      }
+
+      account.trades.forEach((t, idx) => {
+        upsertFill.run(
+          scenarioId, idx, t.id, t.symbol, t.side, t.quantity, t.price, t.usdtAmount, t.fee, t.slippage,
+          t.timestamp, t.reason, t.pnl ?? null, t.pnlPercent ?? null
+        );
+      });
+      this.db.prepare(`DELETE FROM fills WHERE scenarioId = ? AND idx >= ?`).run(scenarioId, account.trades.length);
+    });
+  }
+
+  /** Load an account (undefined if the scenario has none) */
+  loadAccount(scenarioId: string): PaperAccount | undefined {
+    const row = this.db.prepare(`SELECT * FROM accounts WHERE scenarioId = ?`).get(scenarioId) as AccountRow | undefined;
+    if (!row) return undefined;
+
+    const positions: Record<string, PaperPosition> = {};
+    const posRows = this.db.prepare(`SELECT data FROM positions WHERE scenarioId = ? ORDER BY entryTime ASC`).all(scenarioId) as { data: string }[];
+    for (const r of posRows) {
+      const pos = JSON.parse(r.data) as PaperPosition;
+      positions[pos.symbol] = pos;
+    }
+
+    const orderRows = this.db.prepare(`
+      SELECT orderId, symbol, side, status, placedAt, requestedQty, filledQty, timeoutMs
+      FROM orders WHERE scenarioId = ? ORDER BY placedAt ASC
+    `).all(scenarioId) as PendingOrder[];
+    const workingRows = this.db.prepare(`SELECT symbol, data FROM working_orders WHERE scenarioId = ?`).all(scenarioId) as { symbol: string; data: string }[];
+    const fillRows = this.db.prepare(`
+      SELECT id, symbol, side, quantity, price, usdtAmount, fee, slippage, timestamp, reason, pnl, pnlPercent
+      FROM fills WHERE scenarioId = ? ORDER BY idx ASC
+    `).all(scenarioId) as FillRow[];
+
+    return {
+      initialUsdt: row.initialUsdt,
+      usdt: row.usdt,
+      positions,
+      trades: fillRows.map(toTrade),
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      dailyLoss: { date: row.dailyLossDate, loss: row.dailyLoss },
+      ...(orderRows.length > 0 && { openOrders: Object.fromEntries(orderRows.map((o) => [o.orderId, o])) }),
+      ...(workingRows.length > 0 && {
+        workingOrders: Object.fromEntries(workingRows.map((w) => [w.symbol, JSON.parse(w.data) as WorkingOrder])),
+      }),
+    };
+  }
+
+  /** Scenario IDs that have a stored account */
+  listAccounts(): string[] {
+    const rows = this.db.prepare(`SELECT scenarioId FROM accounts ORDER BY scenarioId ASC`).all() as { scenarioId: string }[];
+    return rows.map((r) => r.scenarioId);
+  }
+
+  /** Remove an account with its positions, orders and fills (paper reset) */
+  deleteAccount(scenarioId: string): void {
+    this.transaction(() => {
+      for (const table of ["accounts", "positions", "orders", "working_orders", "fills"]) {
+        this.db.prepare(`DELETE FROM ${table} WHERE scenarioId = ?`).run(scenarioId);
+      }
+    });
+  }
+
+  // ─────────────────────────────────────────────────
+  // Signal history
+  // ─────────────────────────────────────────────────
+
+  /** Insert or update signal records (matched on id; new ones keep insertion order) */
+  putSignals(records: SignalRecord[]): void {
+    const upsert = this.db.prepare(`
+      INSERT INTO signals (id, scenarioId, symbol, type, status, entryTime, exitTime, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        scenarioId = excluded.scenarioId, symbol = excluded.symbol, type = excluded.type,
+        status = excluded.status, entryTime = excluded.entryTime, exitTime = excluded.exitTime, data = excluded.data
+    `);
+    this.transaction(() => {
+      for (const r of records) {
+        upsert.run(r.id, r.scenarioId ?? null, r.symbol, r.type, r.status, r.entryTime, r.exitTime ?? null, JSON.stringify(r));
+      }
+    });
+  }
+
+  /** All signal records in insertion order */
+  getSignals(): SignalRecord[] {
+    const rows = this.db.prepare(`SELECT data FROM signals ORDER BY seq ASC`).all() as { data: string }[];
+    return rows.map((r) => JSON.parse(r.data) as SignalRecord);
+  }
+
+  // ─────────────────────────────────────────────────
+  // Documents (kill switch, scenario state, heartbeats, plugin state, caches)
+  // ─────────────────────────────────────────────────
+
+  // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-parameters
+  getDocument<T>(namespace: DocumentNamespace, key: string): T | undefined {
+    const row = this.db.prepare(`SELECT value FROM documents WHERE namespace = ? AND key = ?`).get(namespace, key) as { value: string } | undefined;
+    return row ? (JSON.parse(row.value) as T) : undefined;
+  }
+
+  /** Every document of a namespace, keyed by document key */
+  // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-parameters
+  getDocuments<T>(namespace: DocumentNamespace): Record<string, T> {
+    const rows = this.db.prepare(`SELECT key, value FROM documents WHERE namespace = ? ORDER BY key ASC`).all(namespace) as { key: string; value: string }[];
+    return Object.fromEntries(rows.map((r) => [r.key, JSON.parse(r.value) as T]));
+  }
+
+  putDocument(namespace: DocumentNamespace, key: string, value: unknown, updatedAt = Date.now()): void {
+    this.db.prepare(`
+      INSERT INTO documents (namespace, key, value, updatedAt) VALUES (?, ?, ?, ?)
+      ON CONFLICT (namespace, key) DO UPDATE SET value = excluded.value, updatedAt = excluded.updatedAt
+    `).run(namespace, key, JSON.stringify(value), updatedAt);
+  }
+
+  deleteDocument(namespace: DocumentNamespace, key: string): void {
+    this.db.prepare(`DELETE FROM documents WHERE namespace = ? AND key = ?`).run(namespace, key);
+  }
+
   /**
    * Close the database connection (called on test cleanup or process exit)
    */
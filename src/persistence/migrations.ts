@@ -0,0 +1,232 @@
+/**
+ * SQLite Schema Migrations
+ *
+ * The schema version lives in PRAGMA user_version. Each migration runs once, in order, inside
+ * its own transaction together with the version bump, so a crash leaves the database at the
+ * previous version rather than half-migrated.
+ *
+ * Never edit a released migration: add a new one with the next version number.
+ */
+
+import type Database from "better-sqlite3";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: InstanceType<typeof Database>) => void;
+}
+
+/** A database written by a newer build than this one */
+export class SchemaVersionError extends Error {
+  constructor(
+    readonly found: number,
+    readonly supported: number
+  ) {
+    super(`Database schema version ${found} is newer than this build supports (${supported}); upgrade openclaw-trader`);
+    this.name = "SchemaVersionError";
+  }
+}
+
+// ─────────────────────────────────────────────────────
+// Migrations
+// ─────────────────────────────────────────────────────
+
+/**
+ * v1 — the tables that existed before versioning (trades, snapshots, hyperopt studies).
+ * IF NOT EXISTS keeps it a no-op on databases created by those builds.
+ */
+const V1_BASELINE = `
+CREATE TABLE IF NOT EXISTS trades (
+  id          INTEGER PRIMARY KEY AUTOINCREMENT,
+  scenarioId  TEXT    NOT NULL,
+  symbol      TEXT    NOT NULL,
+  side        TEXT    NOT NULL,   -- buy | sell | short | cover
+  quantity    REAL    NOT NULL,
+  entryPrice  REAL    NOT NULL,
+  stopLoss    REAL    NOT NULL,
+  takeProfit  REAL    NOT NULL,
+  openAt      INTEGER NOT NULL,   -- Unix ms
+  exitPrice   REAL,               -- NULL = still open
+  pnl         REAL,
+  pnlRatio    REAL,
+  wasStopLoss INTEGER DEFAULT 0,  -- 0 | 1
+  wasRoiExit  INTEGER DEFAULT 0,
+  closedAt    INTEGER,            -- NULL = still open
+  status      TEXT    DEFAULT 'open'  -- open | closed
+);
+
+CREATE TABLE IF NOT EXISTS account_snapshots (
+  id            INTEGER PRIMARY KEY AUTOINCREMENT,
+  scenarioId    TEXT    NOT NULL,
+  equity        REAL    NOT NULL,
+  cash          REAL    NOT NULL,
+  openPositions INTEGER NOT NULL,
+  snapshotAt    INTEGER NOT NULL   -- Unix ms
+);
+
+CREATE INDEX IF NOT EXISTS idx_trades_scenario_status
+  ON trades (scenarioId, status);
+
+CREATE INDEX IF NOT EXISTS idx_snapshots_scenario_time
+  ON account_snapshots (scenarioId, snapshotAt);
+
+CREATE TABLE IF NOT EXISTS hyperopt_studies (
+  name        TEXT    PRIMARY KEY,
+  symbol      TEXT    NOT NULL,
+  strategy    TEXT,               -- NULL = strategy.yaml
+  loss        TEXT    NOT NULL,
+  pareto      INTEGER DEFAULT 0,  -- 0 | 1
+  walkForward INTEGER DEFAULT 0,  -- 0 | 1
+  startMs     INTEGER NOT NULL,   -- backtest window, Unix ms
+  endMs       INTEGER NOT NULL,
+  space       TEXT    NOT NULL,   -- JSON array of parameter names
+  createdAt   INTEGER NOT NULL,
+  updatedAt   INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS hyperopt_trials (
+  id          INTEGER PRIMARY KEY AUTOINCREMENT,
+  studyName   TEXT    NOT NULL,
+  trial       INTEGER NOT NULL,
+  params      TEXT    NOT NULL,   -- JSON ParamSet
+  score       REAL    NOT NULL,
+  objectives  TEXT,               -- JSON array, Pareto mode only
+  sharpe      REAL    NOT NULL,
+  maxDrawdown REAL    NOT NULL,
+  totalReturn REAL    NOT NULL,
+  trades      INTEGER NOT NULL,
+  winRate     REAL    NOT NULL,
+  createdAt   INTEGER NOT NULL,
+  UNIQUE (studyName, trial)
+);
+`;
+
+/**
+ * v2 — runtime state that used to live in logs/*.json: paper / live accounts split into
+ * positions, orders and fills, signal history, and keyed JSON documents (kill switch,
+ * scenario state, heartbeats, strategy plugin state, caches)
+ */
+const V2_RUNTIME_STATE = `
+CREATE TABLE accounts (
+  scenarioId     TEXT    PRIMARY KEY,
+  initialUsdt    REAL    NOT NULL,
+  usdt           REAL    NOT NULL,
+  dailyLossDate  TEXT    NOT NULL,   -- YYYY-MM-DD
+  dailyLoss      REAL    NOT NULL,   -- USDT lost on dailyLossDate
+  createdAt      INTEGER NOT NULL,
+  updatedAt      INTEGER NOT NULL
+);
+
+CREATE TABLE positions (
+  scenarioId  TEXT    NOT NULL,
+  symbol      TEXT    NOT NULL,
+  side        TEXT    NOT NULL,   -- long | short
+  quantity    REAL    NOT NULL,
+  entryPrice  REAL    NOT NULL,
+  entryTime   INTEGER NOT NULL,
+  stopLoss    REAL    NOT NULL,
+  takeProfit  REAL    NOT NULL,
+  data        TEXT    NOT NULL,   -- JSON PaperPosition (trailing stop, DCA, order ids...)
+  PRIMARY KEY (scenarioId, symbol)
+);
+
+CREATE TABLE orders (
+  scenarioId   TEXT    NOT NULL,
+  orderId      INTEGER NOT NULL,
+  symbol       TEXT    NOT NULL,
+  side         TEXT    NOT NULL,   -- buy | sell | short | cover
+  status       TEXT    NOT NULL,   -- pending | filled | partial | cancelled
+  placedAt     INTEGER NOT NULL,
+  requestedQty REAL    NOT NULL,
+  filledQty    REAL    NOT NULL,
+  timeoutMs    INTEGER NOT NULL,
+  PRIMARY KEY (scenarioId, orderId)
+);
+
+CREATE TABLE working_orders (
+  scenarioId  TEXT    NOT NULL,
+  symbol      TEXT    NOT NULL,
+  data        TEXT    NOT NULL,   -- JSON WorkingOrder
+  PRIMARY KEY (scenarioId, symbol)
+);
+
+CREATE TABLE fills (
+  scenarioId  TEXT    NOT NULL,
+  idx         INTEGER NOT NULL,   -- position in account.trades (trade ids are not unique)
+  id          TEXT    NOT NULL,
+  symbol      TEXT    NOT NULL,
+  side        TEXT    NOT NULL,   -- buy | sell | short | cover
+  quantity    REAL    NOT NULL,
+  price       REAL    NOT NULL,
+  usdtAmount  REAL    NOT NULL,
+  fee         REAL    NOT NULL,
+  slippage    REAL    NOT NULL,
+  timestamp   INTEGER NOT NULL,
+  reason      TEXT    NOT NULL,
+  pnl         REAL,
+  pnlPercent  REAL,
+  PRIMARY KEY (scenarioId, idx)
+);
+
+CREATE INDEX idx_fills_scenario_time ON fills (scenarioId, timestamp);
+
+CREATE TABLE signals (
+  seq         INTEGER PRIMARY KEY AUTOINCREMENT,  -- insertion order = JSONL line order
+  id          TEXT    NOT NULL UNIQUE,
+  scenarioId  TEXT,
+  symbol      TEXT    NOT NULL,
+  type        TEXT    NOT NULL,   -- buy | sell | short | cover
+  status      TEXT    NOT NULL,   -- open | closed | expired | rejected
+  entryTime   INTEGER NOT NULL,
+  exitTime    INTEGER,
+  data        TEXT    NOT NULL    -- JSON SignalRecord
+);
+
+CREATE INDEX idx_signals_status_time ON signals (status, entryTime);
+
+CREATE TABLE documents (
+  namespace   TEXT    NOT NULL,   -- kill_switch | scenario_state | heartbeat | strategy_state | notify_dedup | cache
+  key         TEXT    NOT NULL,
+  value       TEXT    NOT NULL,   -- JSON
+  updatedAt   INTEGER NOT NULL,
+  PRIMARY KEY (namespace, key)
+);
+`;
+
+export const MIGRATIONS: readonly Migration[] = [
+  { version: 1, name: "baseline", up: (db) => { db.exec(V1_BASELINE); } },
+  { version: 2, name: "runtime state", up: (db) => { db.exec(V2_RUNTIME_STATE); } },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+// ─────────────────────────────────────────────────────
+// Runner
+// ─────────────────────────────────────────────────────
+
+export function getSchemaVersion(db: InstanceType<typeof Database>): number {
+  return db.pragma("user_version", { simple: true }) as number;
+}
+
+/**
+ * Bring the database up to the latest version (no-op when already there)
+ * @returns Migrations applied, oldest first
+ * @throws SchemaVersionError when the database is newer than this build
+ */
+export function runMigrations(
+  db: InstanceType<typeof Database>,
+  migrations: readonly Migration[] = MIGRATIONS
+): Migration[] {
+  const current = getSchemaVersion(db);
+  const latest = migrations.at(-1)?.version ?? 0;
+  if (current > latest) throw new SchemaVersionError(current, latest);
+
+  const pending = migrations.filter((m) => m.version > current);
+  for (const m of pending) {
+    db.transaction(() => {
+      m.up(db);
+      db.pragma(`user_version = ${m.version}`);
+    })();
+  }
+  return pending;
+}
@@ -0,0 +1,106 @@
+/**
+ * Runtime State Store
+ *
+ * Chooses where runtime state lives, from strategy.yaml `persistence`:
+ *   json   — one file per state under logs/ (default; paper-*.json, signal-history.jsonl,
+ *            kill-switch-state.json, state-*.json, heartbeat.json, caches...)
+ *   sqlite — a single TradeDB (persistence.sqlite_path, default logs/openclaw.db)
+ *
+ * State modules call stateDb() on every read / write and keep their JSON code path when it
+ * returns null. The section is read straight from the YAML (not through config/loader) because
+ * modules imported by the loader itself (strategy plugins) persist state too.
+ *
+ * Tests never open the configured database: they get JSON files unless they inject one with
+ * setStateDb().
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { parse } from "yaml";
+import type { PersistenceConfig } from "../types.js";
+import { TradeDB } from "./db.js";
+import type { DocumentNamespace } from "./db.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = path.resolve(__dirname, "../..");
+const STRATEGY_YAML = path.join(ROOT_DIR, "config/strategy.yaml");
+
+export const DEFAULT_SQLITE_PATH = "logs/openclaw.db";
+
+const IS_TEST = process.env["VITEST"] === "true" || process.env["NODE_ENV"] === "test";
+
+/** undefined = not resolved yet */
+let current: TradeDB | null | undefined;
+
+/** strategy.yaml `persistence` (json when the section or the file is missing) */
+export function readPersistenceConfig(configPath = STRATEGY_YAML): PersistenceConfig {
+  try {
+    const doc = parse(fs.readFileSync(configPath, "utf-8")) as { persistence?: PersistenceConfig } | null;
+    return doc?.persistence ?? { backend: "json" };
+  } catch {
+    return { backend: "json" };
+  }
+}
+
+/** Absolute path of the SQLite state file (relative paths are resolved from the repo root) */
+export function resolveSqlitePath(cfg: PersistenceConfig): string {
+  return path.resolve(ROOT_DIR, cfg.sqlite_path ?? DEFAULT_SQLITE_PATH);
+}
+
+/** Open the configured state database; the migrations run on open */
+export function openStateDb(cfg = readPersistenceConfig()): TradeDB {
+  const dbPath = resolveSqlitePath(cfg);
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  return new TradeDB(dbPath);
+}
+
+/**
+ * The state database, or null when state is kept in JSON files.
+ * Opened lazily once per process; closed by the OS on exit (WAL keeps it consistent).
+ */
+export function stateDb(): TradeDB | null {
+  if (current === undefined) {
+    const cfg = IS_TEST ? null : readPersistenceConfig();
+    current = cfg?.backend === "sqlite" ? openStateDb(cfg) : null;
+  }
+  return current;
+}
+
+/**
+ * Use `db` as the state database (null = JSON files); tests and the importer use this
+ * @returns Restores the previous store
+ */
+export function setStateDb(db: TradeDB | null): () => void {
+  const prev = current;
+  current = db;
+  return () => {
+    current = prev;
+  };
+}
+
+// ─────────────────────────────────────────────────────
+// Documents (one JSON file each under the json backend)
+// ─────────────────────────────────────────────────────
+
+/** The stored document, or undefined when it is missing or unreadable */
+// eslint-disable-next-line @typescript-eslint/no-unnecessary-type-parameters
+export function readStateDocument<T>(namespace: DocumentNamespace, key: string, filePath: string): T | undefined {
+  const db = stateDb();
+  if (db) return db.getDocument<T>(namespace, key);
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+export function writeStateDocument(namespace: DocumentNamespace, key: string, filePath: string, value: unknown): void {
+  const db = stateDb();
+  if (db) {
+    db.putDocument(namespace, key, value);
+    return;
+  }
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(value, null, 2), "utf-8");
+}
@@ -7,6 +7,7 @@ import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
 import { loadAccount } from "../paper/account.js";
+import { readSignalHistory } from "../strategy/signal-history.js";
 import { loadEquityHistory } from "./equity-tracker.js";
 import { generateEquityChart } from "./equity-chart.js";
 
@@ -44,44 +45,21 @@ interface SignalRecord {
   pnl?: number;
   pnlPercent?: number;
   holdingHours?: number;
-  status: "open" | "closed" | "expired";
+  status: "open" | "closed" | "expired" | "rejected";
   scenarioId?: string;
   source?: string;
 }
 
-const IS_TEST = process.env["VITEST"] === "true" || process.env["NODE_ENV"] === "test";
-
-function getSignalHistoryPath(): string {
-  return IS_TEST
-    ? path.join(LOGS_DIR, "signal-history-test.jsonl")
-    : path.join(LOGS_DIR, "signal-history.jsonl");
-}
-
 function loadSignalHistory(
   scenarioId: string,
   sinceMs: number
 ): SignalRecord[] {
-  const filePath = getSignalHistoryPath();
-  if (!fs.existsSync(filePath)) return [];
-
-  const content = fs.readFileSync(filePath, "utf-8");
-  const results: SignalRecord[] = [];
-
-  for (const line of content.split("\n")) {
-    const trimmed = line.trim();
-    if (!trimmed) continue;
-    try {
-      const rec = JSON.parse(trimmed) as SignalRecord;
-      // Filter by scenarioId if provided
-      if (rec.scenarioId !== undefined && rec.scenarioId !== scenarioId) continue;
-      if (rec.entryTime < sinceMs) continue;
-      results.push(rec);
-    } catch {
-      // skip
-    }
-  }
-
-  return results;
+  return readSignalHistory().filter((rec) =>
+    // Filter by scenarioId if provided
+    (rec.scenarioId === undefined || rec.scenarioId === scenarioId) &&
+    rec.status !== "rejected" && // filtered signals, never traded
+    rec.entryTime >= sinceMs
+  );
 }
 
 // ─── Calculations ─────────────────────────────────────────────────────────────
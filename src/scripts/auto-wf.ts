@@ -9,15 +9,21 @@
  *   --days, -d        Historical data days (default 90)
  *   --trials, -t      Optimization trials per run (default 50)
  *   --train-ratio     Training set ratio (default 0.7)
- *   --min-improvement OOS Sharpe minimum improvement threshold percentage (default 5)
+ *   --max-pbo         Maximum probability of backtest overfitting to accept new params (default 0.5)
+ *   --min-dsr         Minimum deflated Sharpe ratio to accept new params (default 0.95)
+ *   --cpcv-groups     CPCV groups (default 6)
+ *   --cpcv-test       CPCV test groups per split (default 2)
  *   --dry-run         Do not write config file
  *   --notify          Send Telegram notification (default true)
  *   --no-notify       Disable Telegram notification
  *   --seed            Random seed
+ *   --strategy        Strategy profile to tune (config/strategies/<id>.yaml; default strategy.yaml)
  */
 
 import { runAutoWalkForward, formatAutoWfReport } from "../optimization/auto-wf.js";
+import { DEFAULT_CPCV } from "../backtest/cpcv.js";
 import { sendTelegramMessage } from "../notify/openclaw.js";
+import { assertValidConfig } from "../config/loader.js";
 
 // ─────────────────────────────────────────────────────
 // CLI Argument Parsing
@@ -28,10 +34,14 @@ interface CliArgs {
   days: number;
   trials: number;
   trainRatio: number;
-  minImprovementPct: number;
+  maxPbo: number;
+  minDeflatedSharpe: number;
+  cpcvGroups: number;
+  cpcvTestGroups: number;
   dryRun: boolean;
   notify: boolean;
   seed?: number;
+  strategy?: string;
 }
 
 export function parseArgs(argv: string[]): CliArgs {
@@ -40,7 +50,10 @@ export function parseArgs(argv: string[]): CliArgs {
     days: 90,
     trials: 50,
     trainRatio: 0.7,
-    minImprovementPct: 5,
+    maxPbo: 0.5,
+    minDeflatedSharpe: 0.95,
+    cpcvGroups: DEFAULT_CPCV.groups,
+    cpcvTestGroups: DEFAULT_CPCV.testGroups,
     dryRun: false,
     notify: true,
   };
@@ -75,9 +88,24 @@ export function parseArgs(argv: string[]): CliArgs {
         args.trainRatio = Number.isNaN(v) ? 0.7 : v;
         break;
       }
-      case "--min-improvement": {
+      case "--max-pbo": {
         const v = parseFloat(next());
-        args.minImprovementPct = Number.isNaN(v) ? 5 : v;
+        args.maxPbo = Number.isNaN(v) ? 0.5 : v;
+        break;
+      }
+      case "--min-dsr": {
+        const v = parseFloat(next());
+        args.minDeflatedSharpe = Number.isNaN(v) ? 0.95 : v;
+        break;
+      }
+      case "--cpcv-groups": {
+        const v = parseInt(next(), 10);
+        args.cpcvGroups = Number.isNaN(v) ? DEFAULT_CPCV.groups : v;
+        break;
+      }
+      case "--cpcv-test": {
+        const v = parseInt(next(), 10);
+        args.cpcvTestGroups = Number.isNaN(v) ? DEFAULT_CPCV.testGroups : v;
         break;
       }
       case "--dry-run":
@@ -94,6 +122,9 @@ export function parseArgs(argv: string[]): CliArgs {
         if (!Number.isNaN(v)) args.seed = v;
         break;
       }
+      case "--strategy":
+        args.strategy = next();
+        break;
     }
   }
 
@@ -106,6 +137,7 @@ export function parseArgs(argv: string[]): CliArgs {
 
 async function main(): Promise<void> {
   const args = parseArgs(process.argv.slice(2));
+  assertValidConfig();
 
   console.log("╔══════════════════════════════════════════════════╗");
   console.log("║     Auto Walk-Forward Adaptive Optimization       ║");
@@ -114,10 +146,13 @@ async function main(): Promise<void> {
   console.log(`  Days:        ${args.days}`);
   console.log(`  Trials:      ${args.trials}`);
   console.log(`  TrainRatio:  ${args.trainRatio}`);
-  console.log(`  MinImprove:  ${args.minImprovementPct}%`);
+  console.log(`  Max PBO:     ${(args.maxPbo * 100).toFixed(0)}%`);
+  console.log(`  Min DSR:     ${args.minDeflatedSharpe}`);
+  console.log(`  CPCV:        ${args.cpcvGroups} groups, ${args.cpcvTestGroups} test`);
   console.log(`  DryRun:      ${args.dryRun ? "✓" : "✗"}`);
   console.log(`  Notify:      ${args.notify ? "✓" : "✗"}`);
   if (args.seed !== undefined) console.log(`  Seed:        ${args.seed}`);
+  if (args.strategy !== undefined) console.log(`  Strategy:    ${args.strategy}`);
   console.log("");
 
   console.log("🚀 Starting Walk-Forward optimization...\n");
@@ -127,9 +162,12 @@ async function main(): Promise<void> {
     days: args.days,
     trials: args.trials,
     trainRatio: args.trainRatio,
-    minImprovementPct: args.minImprovementPct,
+    maxPbo: args.maxPbo,
+    minDeflatedSharpe: args.minDeflatedSharpe,
+    cpcv: { groups: args.cpcvGroups, testGroups: args.cpcvTestGroups },
     dryRun: args.dryRun,
     ...(args.seed !== undefined ? { seed: args.seed } : {}),
+    ...(args.strategy !== undefined ? { strategy: args.strategy } : {}),
   });
 
   const formatted = formatAutoWfReport(report);
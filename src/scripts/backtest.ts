@@ -17,18 +17,26 @@
  *   --no-save           Do not save JSON report file
  *   --compare           Run all strategies and compare results
  *   --slippage-sweep    Slippage sensitivity analysis (run 0 / 0.05 / 0.1 / 0.2% and compare)
+ *   --volume-cap <pct>  Fill at most <pct>% of each candle's volume, carry the rest to the next candle
+ *   --impact <k>        Square-root market impact coefficient (default 1, used with --volume-cap)
+ *   --portfolio <spec>  Portfolio backtest: strategies share one account, e.g. trend:0.5,rsi-pure:0.5
+ *                       (each keeps its own timeframe; max_positions from strategy.yaml is shared)
+ *   --replay            Replay candles through the monitor pipeline + paper engine (processSignal,
+ *                       handleSignal, checkExitConditions, DCA) on a simulated clock
  */
 
 import { fetchHistoricalKlines } from "../backtest/fetcher.js";
-import { runBacktest } from "../backtest/runner.js";
-import { formatReport, saveReport } from "../backtest/report.js";
+import { runBacktest, runPortfolioBacktest, type PortfolioSleeve } from "../backtest/runner.js";
+import { runReplay } from "../backtest/replay.js";
+import { createVolumeFillModel, type FillModel } from "../backtest/fill-model.js";
+import { formatReport, formatPortfolioReport, saveReport } from "../backtest/report.js";
 import { parseBacktestArgs, type BacktestCliArgs } from "../backtest/cli-args.js";
 import {
+  assertValidConfig,
   loadStrategyConfig,
   loadStrategyProfile,
   listStrategyProfiles,
-  mergeRisk,
-  mergeStrategySection,
+  applyStrategyProfile,
 } from "../config/loader.js";
 import type { StrategyConfig, Kline } from "../types.js";
 
@@ -41,44 +49,21 @@ function buildBacktestConfig(
   overrides: { timeframe?: string | undefined; symbols?: string[] | undefined }
 ): StrategyConfig {
   const base = loadStrategyConfig();
+  const cfg = strategyId ? applyStrategyProfile(base, loadStrategyProfile(strategyId)) : base;
+  return {
+    ...cfg,
+    symbols: overrides.symbols ?? cfg.symbols,
+    timeframe: (overrides.timeframe ?? cfg.timeframe) as StrategyConfig["timeframe"],
+  };
+}
 
-  let cfg = { ...base };
-
-  if (strategyId) {
-    const profile = loadStrategyProfile(strategyId);
-    cfg = {
-      ...cfg,
-      symbols: overrides.symbols ?? profile.symbols ?? cfg.symbols,
-      timeframe: (overrides.timeframe ??
-        profile.timeframe ??
-        cfg.timeframe) as StrategyConfig["timeframe"],
-      strategy: {
-        ...mergeStrategySection(cfg.strategy, profile.strategy),
-        name: profile.name,
-      },
-      signals: {
-        buy: profile.signals?.buy ?? cfg.signals.buy,
-        sell: profile.signals?.sell ?? cfg.signals.sell,
-        ...(profile.signals?.short !== undefined ? { short: profile.signals.short } : {}),
-        ...(profile.signals?.cover !== undefined ? { cover: profile.signals.cover } : {}),
-      },
-      risk: mergeRisk(cfg.risk, profile.risk),
-      // MTF: profile takes priority, then global strategy.yaml
-      ...(profile.trend_timeframe !== undefined
-        ? { trend_timeframe: profile.trend_timeframe }
-        : base.trend_timeframe !== undefined
-          ? { trend_timeframe: base.trend_timeframe }
-          : {}),
-    };
-  } else {
-    cfg = {
-      ...cfg,
-      symbols: overrides.symbols ?? cfg.symbols,
-      timeframe: (overrides.timeframe ?? cfg.timeframe) as StrategyConfig["timeframe"],
-    };
-  }
-
-  return cfg;
+/** Volume fill model from --volume-cap / --impact (undefined = fill everything at the bar price) */
+function buildFillModel(args: BacktestCliArgs): FillModel | undefined {
+  if (args.volumeCapPercent === undefined) return undefined;
+  return createVolumeFillModel({
+    maxVolumeFraction: args.volumeCapPercent / 100,
+    ...(args.impactCoefficient !== undefined && { impactCoefficient: args.impactCoefficient }),
+  });
 }
 
 // ─────────────────────────────────────────────────────
@@ -136,14 +121,24 @@ async function runOne(strategyId: string | undefined, args: BacktestCliArgs): Pr
   // Run backtest
   const spreadInfo = args.spreadBps > 0 ? `  |  spread: ${args.spreadBps} bps` : "";
   const nextOpenInfo = args.signalToNextOpen ? "  |  ⚡ Next bar open execution (no look-ahead bias)" : "";
-  console.log(`\n🔄 Running backtest${cfg.trend_timeframe ? ` (with ${cfg.trend_timeframe} MTF filter)` : ""}${spreadInfo}${nextOpenInfo}...`);
-  const result = runBacktest(klinesBySymbol, cfg, {
-    initialUsdt: args.initialUsdt,
-    feeRate: 0.001,
-    slippagePercent: 0.05,
-    spreadBps: args.spreadBps,
-    signalToNextOpen: args.signalToNextOpen,
-  }, trendKlinesBySymbol);
+  const fillModel = buildFillModel(args);
+  const fillInfo = fillModel ? `  |  fills: ${fillModel.name}` : "";
+  const replayInfo = args.replay ? "  |  🔁 Replay through the paper engine" : "";
+  console.log(`\n🔄 Running backtest${cfg.trend_timeframe ? ` (with ${cfg.trend_timeframe} MTF filter)` : ""}${spreadInfo}${nextOpenInfo}${fillInfo}${replayInfo}...`);
+  const result = args.replay
+    ? await runReplay(klinesBySymbol, cfg, {
+      initialUsdt: args.initialUsdt,
+      feeRate: 0.001,
+      slippagePercent: 0.05,
+    }, trendKlinesBySymbol)
+    : runBacktest(klinesBySymbol, cfg, {
+      initialUsdt: args.initialUsdt,
+      feeRate: 0.001,
+      slippagePercent: 0.05,
+      spreadBps: args.spreadBps,
+      signalToNextOpen: args.signalToNextOpen,
+      ...(fillModel && { fillModel }),
+    }, trendKlinesBySymbol);
 
   // Output report
   console.log("\n" + formatReport(result));
@@ -346,18 +341,81 @@ async function runSlippageSweep(args: BacktestCliArgs): Promise<void> {
   }
 }
 
+// ─────────────────────────────────────────────────────
+// Portfolio Backtest (shared capital)
+// ─────────────────────────────────────────────────────
+
+async function runPortfolio(spec: NonNullable<BacktestCliArgs["portfolio"]>, args: BacktestCliArgs): Promise<void> {
+  const endMs = Date.now();
+  const startMs = endMs - args.days * 86_400_000;
+  const maxPositions = loadStrategyConfig().risk.max_positions;
+
+  console.log(`\n🧩 Portfolio mode: ${spec.map((s) => `${s.id} ${(s.allocation * 100).toFixed(0)}%`).join("  |  ")}  |  shared max_positions ${maxPositions}`);
+
+  // Candles shared across sleeves (same symbol + timeframe fetched once)
+  const cache = new Map<string, Kline[]>();
+  const fetchCached = async (symbol: string, timeframe: string): Promise<Kline[]> => {
+    const key = `${symbol}:${timeframe}`;
+    let klines = cache.get(key);
+    if (!klines) {
+      process.stdout.write(`   ${symbol} ${timeframe}... `);
+      klines = await fetchHistoricalKlines(symbol, timeframe, startMs, endMs);
+      process.stdout.write(`\r   ${symbol} ${timeframe} ✓ ${klines.length} candlesticks\n`);
+      cache.set(key, klines);
+    }
+    return klines;
+  };
+
+  console.log(`\n📥 Fetching historical data...`);
+  const sleeves: PortfolioSleeve[] = [];
+  for (const { id, allocation } of spec) {
+    const cfg = buildBacktestConfig(id, { timeframe: args.timeframe, symbols: args.symbols });
+    const klinesBySymbol: Record<string, Kline[]> = {};
+    for (const symbol of cfg.symbols) klinesBySymbol[symbol] = await fetchCached(symbol, cfg.timeframe);
+    const sleeve: PortfolioSleeve = { id, cfg, allocation, klinesBySymbol };
+    if (cfg.trend_timeframe) {
+      const trendKlinesBySymbol: Record<string, Kline[]> = {};
+      for (const symbol of cfg.symbols) trendKlinesBySymbol[symbol] = await fetchCached(symbol, cfg.trend_timeframe);
+      sleeve.trendKlinesBySymbol = trendKlinesBySymbol;
+    }
+    sleeves.push(sleeve);
+  }
+
+  const fillModel = buildFillModel(args);
+  console.log(`\n🔄 Running portfolio backtest${fillModel ? `  |  fills: ${fillModel.name}` : ""}...`);
+  const result = runPortfolioBacktest(sleeves, {
+    initialUsdt: args.initialUsdt,
+    feeRate: 0.001,
+    slippagePercent: 0.05,
+    spreadBps: args.spreadBps,
+    signalToNextOpen: args.signalToNextOpen,
+    maxPositions,
+    ...(fillModel && { fillModel }),
+  });
+
+  console.log("\n" + formatPortfolioReport(result));
+
+  if (args.save) {
+    const savedPath = saveReport(result, "portfolio");
+    console.log(`💾 Report saved: ${savedPath}\n`);
+  }
+}
+
 // ─────────────────────────────────────────────────────
 // Main Entry
 // ─────────────────────────────────────────────────────
 
 async function main(): Promise<void> {
   const args = parseBacktestArgs(process.argv.slice(2));
+  assertValidConfig();
 
   console.log("🚀 openclaw-trader Backtest Engine");
   const spreadMsg = args.spreadBps > 0 ? `  |  spread: ${args.spreadBps} bps` : "";
   console.log(`   Initial capital: $${args.initialUsdt}  |  Backtest days: ${args.days}d${spreadMsg}`);
 
-  if (args.slippageSweep) {
+  if (args.portfolio) {
+    await runPortfolio(args.portfolio, args);
+  } else if (args.slippageSweep) {
     await runSlippageSweep(args);
   } else if (args.compare) {
     await runCompare(args);
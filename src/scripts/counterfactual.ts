@@ -0,0 +1,141 @@
+#!/usr/bin/env tsx
+/**
+ * Filtered Signal Counterfactual Job — CLI Entry
+ *
+ * Script responsibility: replay pending rejected signals on the klines since their
+ * rejection, store the outcomes in the signal history, write the per-filter report.
+ * Business logic located at: src/analysis/counterfactual.ts
+ *
+ * Scheduled hourly via config/strategy.yaml (schedule.signal_counterfactual).
+ *
+ * Usage: npm run counterfactual -- [--max-hours 72] [--report-only]
+ *
+ * Parameters:
+ *   --max-hours     Close a hypothetical trade at market after this many hours (default 72)
+ *   --report-only   Skip the replay; only print / write the report from stored outcomes
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import {
+  simulateCounterfactual,
+  summarizeFilterImpact,
+  formatFilterImpactReport,
+  DEFAULT_COUNTERFACTUAL,
+} from "../analysis/counterfactual.js";
+import type { CounterfactualOptions } from "../analysis/counterfactual.js";
+import { fetchHistoricalKlines } from "../backtest/fetcher.js";
+import { candleMs } from "../strategy/signal-engine.js";
+import { getRejectedSignals, recordCounterfactuals } from "../strategy/signal-history.js";
+import type { CounterfactualOutcome, SignalRecord } from "../strategy/signal-history.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const REPORT_PATH = path.resolve(__dirname, "../../reports/filter-impact.json");
+
+// ─────────────────────────────────────────────────────
+// CLI Argument Parsing
+// ─────────────────────────────────────────────────────
+
+interface CliArgs {
+  maxHoldingHours: number;
+  reportOnly: boolean;
+}
+
+export function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { maxHoldingHours: DEFAULT_COUNTERFACTUAL.maxHoldingHours, reportOnly: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] ?? "";
+    const next = (): string => {
+      const val = argv[++i];
+      if (val === undefined) throw new Error(`Argument ${arg} requires a value`);
+      return val;
+    };
+
+    switch (arg) {
+      case "--max-hours": {
+        const v = parseFloat(next());
+        args.maxHoldingHours = Number.isNaN(v) || v <= 0 ? DEFAULT_COUNTERFACTUAL.maxHoldingHours : v;
+        break;
+      }
+      case "--report-only":
+        args.reportOnly = true;
+        break;
+      default:
+        console.warn(`[counterfactual] Unknown argument: ${arg}`);
+    }
+  }
+  return args;
+}
+
+// ─────────────────────────────────────────────────────
+// Replay
+// ─────────────────────────────────────────────────────
+
+/** Replay pending rejections, fetching one kline range per symbol / timeframe */
+async function resolvePending(opts: CounterfactualOptions): Promise<Map<string, CounterfactualOutcome>> {
+  const now = Date.now();
+  const groups = new Map<string, SignalRecord[]>();
+  for (const rec of getRejectedSignals(true)) {
+    const timeframe = rec.rejection?.timeframe ?? "1h";
+    // Nothing to replay until at least one candle has closed after the rejection
+    if (rec.entryTime + candleMs(timeframe) > now) continue;
+    const key = `${rec.symbol}|${timeframe}`;
+    const existing = groups.get(key) ?? [];
+    existing.push(rec);
+    groups.set(key, existing);
+  }
+
+  const outcomes = new Map<string, CounterfactualOutcome>();
+  for (const [key, recs] of groups) {
+    const [symbol = "", timeframe = "1h"] = key.split("|");
+    const times = recs.map((r) => r.entryTime);
+    const startMs = Math.min(...times) - candleMs(timeframe);
+    const endMs = Math.min(now, Math.max(...times) + opts.maxHoldingHours * 3600_000);
+    try {
+      const klines = await fetchHistoricalKlines(symbol, timeframe, startMs, endMs);
+      for (const rec of recs) {
+        const outcome = simulateCounterfactual(rec, klines, opts);
+        if (outcome) outcomes.set(rec.id, outcome);
+      }
+    } catch (err: unknown) {
+      console.warn(`[counterfactual] ${symbol} ${timeframe}: kline fetch failed, retrying next run (${String(err)})`);
+    }
+  }
+  return outcomes;
+}
+
+// ─────────────────────────────────────────────────────
+// Main
+// ─────────────────────────────────────────────────────
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!args.reportOnly) {
+    const outcomes = await resolvePending({ maxHoldingHours: args.maxHoldingHours });
+    const updated = recordCounterfactuals(outcomes);
+    console.log(`[counterfactual] Resolved ${updated} rejected signal(s)`);
+  }
+
+  const impacts = summarizeFilterImpact(getRejectedSignals());
+  console.log("\n" + formatFilterImpactReport(impacts));
+
+  fs.mkdirSync(path.dirname(REPORT_PATH), { recursive: true });
+  fs.writeFileSync(REPORT_PATH, JSON.stringify({ generatedAt: new Date().toISOString(), impacts }, null, 2));
+  console.log(`\n[counterfactual] JSON report written to: ${REPORT_PATH}`);
+}
+
+// Only run when executed directly (avoid triggering main on unit test imports)
+process.on("unhandledRejection", (reason: unknown) => {
+  console.error("[FATAL] Unhandled Rejection:", reason);
+  process.exit(1);
+});
+
+if (process.argv[1]?.endsWith("counterfactual.ts") || process.argv[1]?.endsWith("counterfactual.js")) {
+  main().catch((err: unknown) => {
+    console.error("❌ Counterfactual job failed:", err);
+    process.exit(1);
+  });
+}
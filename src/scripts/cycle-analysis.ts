@@ -17,7 +17,7 @@ import { runBacktest, type BacktestResult } from "../backtest/runner.js";
 import { loadStrategyConfig } from "../config/loader.js";
 import { BayesianOptimizer } from "../optimization/bayesian.js";
 import { evaluateParams, applyParams } from "../optimization/objective.js";
-import { DEFAULT_PARAM_SPACE, type ParamSet } from "../optimization/param-space.js";
+import { paramSpaceFor, type ParamSet } from "../optimization/param-space.js";
 import type { Kline, StrategyConfig } from "../types.js";
 
 // ── Market Phase Definition ─────────────────────────────────────
@@ -89,10 +89,11 @@ async function optimizeForPhase(
 
   const klineCache = new Map<string, Kline[]>([[primarySymbol, primaryKlines]]);
 
-  const optimizer = new BayesianOptimizer(DEFAULT_PARAM_SPACE, 42);
+  const space = paramSpaceFor(baseCfg);
+  const optimizer = new BayesianOptimizer(space, 42);
   for (let i = 0; i < HYPEROPT_TRIALS; i++) {
     const params = optimizer.suggest();
-    const res = await evaluateParams(params, primarySymbol, baseCfg, klineCache);
+    const res = await evaluateParams(params, primarySymbol, baseCfg, klineCache, { space });
     optimizer.observe(params, res.score);
   }
 
@@ -144,7 +145,7 @@ async function main() {
     // 4. Run all symbols with optimal parameters
     let optMetrics;
     if (optResult.bestScore > -900 && Object.keys(optResult.bestParams).length > 0) {
-      const optCfg = applyParams(optResult.bestParams, baseCfg);
+      const optCfg = applyParams(optResult.bestParams, baseCfg, paramSpaceFor(baseCfg));
       const optBacktest = runPhaseBacktest(klines, optCfg);
       optMetrics = optBacktest.metrics;
       console.log(`  🏆 Optimized: ${formatPct(optMetrics.totalReturnPercent)} | ${optMetrics.totalTrades} trades | WR ${(optMetrics.winRate*100).toFixed(1)}% | Sharpe ${optMetrics.sharpeRatio.toFixed(2)} | PF ${optMetrics.profitFactor.toFixed(2)}`);
@@ -4,9 +4,39 @@
  * Starts the web real-time dashboard server and prints access URLs.
  * Usage: npm run dashboard
  *        DASHBOARD_PORT=3000 npm run dashboard
+ *
+ * Credential helpers for strategy.yaml `dashboard` (print and exit):
+ *        npm run dashboard -- --hash-password <password>   → password_hash
+ *        npm run dashboard -- --new-token                  → API token + token_hash
  */
 
 import { startDashboardServer, stopDashboardServer } from "../web/dashboard-server.js";
+import { hashPassword, generateToken, hashToken } from "../web/auth.js";
+import { assertValidConfig } from "../config/loader.js";
+
+const argv = process.argv.slice(2);
+if (argv.includes("--hash-password")) {
+  const password = argv[argv.indexOf("--hash-password") + 1];
+  if (!password) {
+    console.error("Usage: npm run dashboard -- --hash-password <password>");
+    process.exit(1);
+  }
+  console.log(hashPassword(password));
+  process.exit(0);
+}
+if (argv.includes("--new-token")) {
+  const token = generateToken();
+  console.log(`token:      ${token}   (shown once, send as "Authorization: Bearer <token>")`);
+  console.log(`token_hash: ${hashToken(token)}`);
+  process.exit(0);
+}
+
+try {
+  assertValidConfig();
+} catch (err: unknown) {
+  console.error(err instanceof Error ? err.message : String(err));
+  process.exit(1);
+}
 
 const PORT = process.env["DASHBOARD_PORT"] ? parseInt(process.env["DASHBOARD_PORT"], 10) : 8080;
 
@@ -5,7 +5,7 @@
  *
  * Checks:
  * 1. Environment (Node version, dependencies)
- * 2. Config files (strategy.yaml, paper.yaml)
+ * 2. Config files (strategy.yaml, paper.yaml) and schema validation of every config file
  * 3. API credentials & connectivity
  * 4. State file consistency (initialUsdt vs paper.yaml)
  * 5. Kill switch status
@@ -18,6 +18,8 @@ import fs from "fs";
 import path from "path";
 import { execSync } from "child_process";
 import yaml from "js-yaml";
+import { validateAllConfig } from "../config/loader.js";
+import { formatIssue } from "../config/schema.js";
 
 const ROOT = path.resolve(import.meta.dirname, "../..");
 const LOGS = path.join(ROOT, "logs");
@@ -80,6 +82,22 @@ function checkConfigs() {
   }
 }
 
+// ── 3b. Config Schema ─────────────────────────────────────────────
+function checkConfigSchema() {
+  let issues;
+  try {
+    issues = validateAllConfig();
+  } catch (e) {
+    record("Config Schema", "fail", `Validation could not run: ${e instanceof Error ? e.message : String(e)}`);
+    return;
+  }
+  if (issues.length === 0) {
+    record("Config Schema", "ok", "strategy.yaml, strategy profiles, paper.yaml and live.yaml are valid");
+    return;
+  }
+  for (const issue of issues) record("Config Schema", "fail", formatIssue(issue));
+}
+
 // ── 4. API Credentials ───────────────────────────────────────────────
 function checkSecrets() {
   const files = [
@@ -284,6 +302,7 @@ ${C.bold}${C.cyan}╔═══════════════════
 checkNode();
 checkDeps();
 checkConfigs();
+checkConfigSchema();
 checkSecrets();
 checkStateFiles();
 checkKillSwitch();
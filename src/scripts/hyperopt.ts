@@ -5,6 +5,11 @@
  *   npm run hyperopt -- --symbol BTCUSDT --trials 100
  *   npm run hyperopt -- --symbol BTCUSDT --trials 200 --days 90
  *   npm run hyperopt -- --symbol BTCUSDT --trials 100 --walk-forward
+ *   npm run hyperopt -- --symbol BTCUSDT --loss calmar
+ *   npm run hyperopt -- --symbol BTCUSDT --loss ./my-loss.ts --pareto
+ *   npm run hyperopt -- --symbol BTCUSDT --strategy grid
+ *   npm run hyperopt -- --symbol BTCUSDT --trials 200 --workers 4 --study btc-trend
+ *   npm run hyperopt -- --list-studies
  *
  * Parameters:
  *   --symbol, -s      Trading pair (default BTCUSDT)
@@ -12,22 +17,42 @@
  *   --days, -d        Backtest days (default 60)
  *   --walk-forward    Enable walk-forward validation (70/30 split)
  *   --seed            Random seed (for reproducibility)
+ *   --loss            Loss name (sharpe|sortino|calmar|profit_factor|expectancy|min_trades_penalized)
+ *                     or path to a custom loss module (default sharpe)
+ *   --min-trades      Trade count threshold for min_trades_penalized (default 20)
+ *   --strategy        Strategy profile (config/strategies/<id>.yaml); its hyperopt_space or
+ *                     plugin paramSpace is searched (default: strategy.yaml)
+ *   --pareto          Multi-objective mode: keep and report the Pareto front over
+ *                     return, drawdown and trade count
+ *   --workers, -w     Worker threads evaluating trials in parallel; "auto" = CPU count - 1 (default 1)
+ *   --study           Study name. Every trial is stored in logs/trades.db; re-running with an
+ *                     existing name resumes it up to --trials (default: a new timestamped name)
+ *   --list-studies    Print stored studies and exit
  *   --no-save         Do not save result file
  */
 
 import fs from "fs";
+import os from "os";
 import path from "path";
 import { fileURLToPath } from "url";
 import { fetchHistoricalKlines } from "../backtest/fetcher.js";
-import { loadStrategyConfig } from "../config/loader.js";
+import { assertValidConfig, loadStrategyConfig, loadStrategyProfile, applyStrategyProfile } from "../config/loader.js";
 import { BayesianOptimizer, splitKlines } from "../optimization/bayesian.js";
+import { InProcessEvaluator, WorkerPool } from "../optimization/worker-pool.js";
+import type { TrialEvaluator } from "../optimization/worker-pool.js";
+import { TradeDB } from "../persistence/db.js";
+import type { HyperoptStudy, StudyTrial } from "../persistence/db.js";
 import { evaluateParams, applyParams } from "../optimization/objective.js";
-import { DEFAULT_PARAM_SPACE } from "../optimization/param-space.js";
+import { paramSpaceFor, isParamActive } from "../optimization/param-space.js";
+import { getPath } from "../optimization/config-path.js";
+import { loadLoss, DEFAULT_MIN_TRADES } from "../optimization/loss.js";
+import { objectivesOf, paretoFront as paretoFrontOf, PARETO_OBJECTIVES } from "../optimization/pareto.js";
 import type { Kline } from "../types.js";
 import type { ParamSet } from "../optimization/param-space.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const LOGS_DIR = path.resolve(__dirname, "../../logs");
+const DB_PATH = path.join(LOGS_DIR, "trades.db");
 
 // ─────────────────────────────────────────────────────
 // CLI Argument Parsing
@@ -40,6 +65,13 @@ interface CliArgs {
   walkForward: boolean;
   seed?: number;
   save: boolean;
+  loss: string;
+  minTrades: number;
+  pareto: boolean;
+  strategy?: string;
+  workers: number;
+  study?: string;
+  listStudies: boolean;
 }
 
 export function parseArgs(argv: string[]): CliArgs {
@@ -49,6 +81,11 @@ export function parseArgs(argv: string[]): CliArgs {
     days: 60,
     walkForward: false,
     save: true,
+    loss: "sharpe",
+    minTrades: DEFAULT_MIN_TRADES,
+    pareto: false,
+    workers: 1,
+    listStudies: false,
   };
 
   for (let i = 0; i < argv.length; i++) {
@@ -87,6 +124,33 @@ export function parseArgs(argv: string[]): CliArgs {
       case "--no-save":
         args.save = false;
         break;
+      case "--loss":
+        args.loss = next();
+        break;
+      case "--min-trades": {
+        const v = parseInt(next(), 10);
+        args.minTrades = Number.isNaN(v) ? DEFAULT_MIN_TRADES : v;
+        break;
+      }
+      case "--pareto":
+        args.pareto = true;
+        break;
+      case "--strategy":
+        args.strategy = next();
+        break;
+      case "--workers":
+      case "-w": {
+        const raw = next();
+        const v = raw === "auto" ? Math.max(1, os.cpus().length - 1) : parseInt(raw, 10);
+        args.workers = Number.isNaN(v) || v < 1 ? 1 : v;
+        break;
+      }
+      case "--study":
+        args.study = next();
+        break;
+      case "--list-studies":
+        args.listStudies = true;
+        break;
     }
   }
 
@@ -97,22 +161,16 @@ export function parseArgs(argv: string[]): CliArgs {
 // Result Types
 // ─────────────────────────────────────────────────────
 
-interface TrialRecord {
-  trial: number;
-  params: ParamSet;
-  score: number;
-  sharpe: number;
-  maxDrawdown: number;
-  totalReturn: number;
-  trades: number;
-  winRate: number;
-}
+type TrialRecord = StudyTrial;
 
 interface HyperoptResult {
+  study: string;
   symbol: string;
+  strategy?: string;
   trials: number;
   days: number;
   walkForward: boolean;
+  loss: string;
   bestParams: ParamSet;
   bestScore: number;
   bestMetrics: {
@@ -130,45 +188,130 @@ interface HyperoptResult {
     maxDrawdown: number;
     trades: number;
   };
+  /** Multi-objective mode: non-dominated trials, sorted by return */
+  paretoFront?: TrialRecord[];
   allTrials: TrialRecord[];
   completedAt: number;
 }
 
+// ─────────────────────────────────────────────────────
+// Studies
+// ─────────────────────────────────────────────────────
+
+/**
+ * Check that a stored study was started with the same settings as this run.
+ * Trials from a different symbol, window, loss or space are not comparable, so resuming is refused.
+ */
+export function assertResumable(stored: HyperoptStudy, requested: Omit<HyperoptStudy, "startMs" | "endMs" | "createdAt">): void {
+  const mismatches: string[] = [];
+  const check = (field: string, was: unknown, now: unknown): void => {
+    if (JSON.stringify(was) !== JSON.stringify(now)) {
+      mismatches.push(`${field}: ${JSON.stringify(was)} → ${JSON.stringify(now)}`);
+    }
+  };
+  check("symbol", stored.symbol, requested.symbol);
+  check("strategy", stored.strategy ?? null, requested.strategy ?? null);
+  check("loss", stored.loss, requested.loss);
+  check("pareto", stored.pareto, requested.pareto);
+  check("walkForward", stored.walkForward, requested.walkForward);
+  check("space", stored.space, requested.space);
+  if (mismatches.length > 0) {
+    throw new Error(
+      `Study "${stored.name}" cannot be resumed with different settings (${mismatches.join("; ")}). ` +
+      `Use a new --study name.`
+    );
+  }
+}
+
+function printStudies(db: TradeDB): void {
+  const studies = db.listStudies();
+  if (studies.length === 0) {
+    console.log("No hyperopt studies stored yet.");
+    return;
+  }
+  console.log("study                          symbol     strategy    loss          trials  best      updated");
+  for (const s of studies) {
+    console.log(
+      `${s.name.padEnd(30)} ${s.symbol.padEnd(10)} ${(s.strategy ?? "-").padEnd(11)} ${s.loss.padEnd(13)} ` +
+      `${String(s.trialCount).padStart(6)}  ${(s.bestScore !== null ? s.bestScore.toFixed(4) : "N/A").padStart(8)}  ` +
+      new Date(s.updatedAt).toISOString()
+    );
+  }
+}
+
 // ─────────────────────────────────────────────────────
 // Main Function
 // ─────────────────────────────────────────────────────
 
 async function main(): Promise<void> {
   const args = parseArgs(process.argv.slice(2));
+  assertValidConfig();
+
+  fs.mkdirSync(LOGS_DIR, { recursive: true });
+  const db = new TradeDB(DB_PATH);
+  if (args.listStudies) {
+    printStudies(db);
+    db.close();
+    return;
+  }
 
   console.log("╔══════════════════════════════════════════════════╗");
   console.log("║           Hyperopt — Bayesian Optimization       ║");
   console.log("╚══════════════════════════════════════════════════╝");
   console.log(`  Symbol:       ${args.symbol}`);
+  console.log(`  Strategy:     ${args.strategy ?? "(strategy.yaml)"}`);
   console.log(`  Trials:       ${args.trials}`);
+  console.log(`  Workers:      ${args.workers}`);
   console.log(`  Days:         ${args.days}`);
   console.log(`  Walk-Forward: ${args.walkForward ? "✓" : "✗"}`);
+  console.log(`  Loss:         ${args.loss}${args.pareto ? " (Pareto front over return / drawdown / trades)" : ""}`);
   if (args.seed !== undefined) {
     console.log(`  Seed:         ${args.seed}`);
   }
   console.log("");
 
   // ── 1. Load Config ──────────────────────────────────
-  const baseCfg = loadStrategyConfig();
+  const baseCfg = args.strategy !== undefined
+    ? applyStrategyProfile(loadStrategyConfig(), loadStrategyProfile(args.strategy))
+    : loadStrategyConfig();
+  const space = paramSpaceFor(baseCfg);
+  const objective = { loss: await loadLoss(args.loss), minTrades: args.minTrades, space };
+  console.log(`🧩 Search space: ${space.length} parameters (${space.map((d) => d.name).join(", ")})`);
+
+  // ── 2. Open or Resume Study ─────────────────────────────
+  const requested = {
+    name: args.study ?? `${args.symbol}-${args.strategy ?? "default"}-${new Date().toISOString().replace(/[:.]/g, "-")}`,
+    symbol: args.symbol,
+    ...(args.strategy !== undefined ? { strategy: args.strategy } : {}),
+    loss: objective.loss.name,
+    pareto: args.pareto,
+    walkForward: args.walkForward,
+    space: space.map((d) => d.name),
+  };
+  let study = db.getStudy(requested.name);
+  const storedTrials = study ? db.getStudyTrials(study.name) : [];
+  if (study) {
+    assertResumable(study, requested);
+    console.log(`📚 Resuming study "${study.name}" (${storedTrials.length} stored trials)`);
+  } else {
+    const endMs = Date.now();
+    study = { ...requested, startMs: endMs - args.days * 86_400_000, endMs, createdAt: endMs };
+    db.createStudy(study);
+    console.log(`📚 Study "${study.name}" (stored in ${DB_PATH})`);
+  }
 
-  // ── 2. Fetch Historical Data ───────────────────────────────
-  console.log(`📥 Loading ${args.symbol} candlestick data for the last ${args.days} days...`);
-  const endMs = Date.now();
-  const startMs = endMs - args.days * 86_400_000;
+  // ── 3. Fetch Historical Data ───────────────────────────────
+  // A resumed study reuses its original window so old and new trials are comparable
+  console.log(`📥 Loading ${args.symbol} candlestick data (${new Date(study.startMs).toISOString()} → ${new Date(study.endMs).toISOString()})...`);
   const allKlines = await fetchHistoricalKlines(
     args.symbol,
     baseCfg.timeframe,
-    startMs,
-    endMs
+    study.startMs,
+    study.endMs
   );
   console.log(`   ✓ Total ${allKlines.length} candlesticks`);
 
-  // ── 3. Walk-forward Data Split ─────────────────────
+  // ── 4. Walk-forward Data Split ─────────────────────
   let trainKlines: Kline[];
   let testKlines: Kline[];
 
@@ -182,64 +325,107 @@ async function main(): Promise<void> {
     testKlines  = [];
   }
 
-  const klineCache = new Map<string, Kline[]>([[args.symbol, trainKlines]]);
-
-  // ── 4. Initialize Optimizer ───────────────────────────────
+  // ── 5. Initialize Optimizer ───────────────────────────────
   const optimizer = new BayesianOptimizer(
-    DEFAULT_PARAM_SPACE,
+    space,
     args.seed,
     Math.min(20, Math.floor(args.trials * 0.2))
   );
+  optimizer.tell(storedTrials);
 
-  const allTrials: TrialRecord[] = [];
+  const allTrials: TrialRecord[] = [...storedTrials];
+  const remaining = Math.max(0, args.trials - storedTrials.length);
   const startTime = Date.now();
 
-  console.log(`\n🔍 Starting optimization (${args.trials} trials)...\n`);
-
-  // ── 5. Main Loop ─────────────────────────────────────
-  for (let i = 1; i <= args.trials; i++) {
-    const params = optimizer.suggest();
-    const { score, metrics } = await evaluateParams(
-      params,
-      args.symbol,
-      baseCfg,
-      klineCache
-    );
+  // Klines and config are cloned into each worker once; only params cross threads per trial
+  const evaluator: TrialEvaluator = args.workers > 1
+    ? new WorkerPool(args.workers, {
+        symbol: args.symbol,
+        klines: trainKlines,
+        baseCfg,
+        space,
+        loss: args.loss,
+        minTrades: args.minTrades,
+        cwd: process.cwd(),
+      })
+    : new InProcessEvaluator(args.symbol, trainKlines, baseCfg, objective);
+
+  console.log(`\n🔍 Starting optimization (${remaining} of ${args.trials} trials, ${evaluator.size} at a time)...\n`);
+
+  // ── 6. Main Loop (batched ask / evaluate / tell) ──────────
+  try {
+    while (allTrials.length < args.trials) {
+      const batch = optimizer.ask(Math.min(evaluator.size, args.trials - allTrials.length));
+      const results = await evaluator.evaluate(batch);
+
+      const observed = results.map(({ score, metrics }, k) => {
+        const objectives = args.pareto ? objectivesOf(metrics) : undefined;
+        const trial: TrialRecord = {
+          trial: allTrials.length + k + 1,
+          params: batch[k] ?? {},
+          score,
+          ...(objectives !== undefined ? { objectives } : {}),
+          sharpe: metrics.sharpeRatio,
+          maxDrawdown: metrics.maxDrawdown,
+          totalReturn: metrics.totalReturnPercent,
+          trades: metrics.totalTrades,
+          winRate: metrics.winRate,
+        };
+        // Stored as soon as evaluated: an interrupted study resumes from here
+        db.recordTrial(study.name, trial);
+        return trial;
+      });
+      optimizer.tell(observed);
+
+      for (const trial of observed) {
+        allTrials.push(trial);
+        const i = trial.trial;
+        // Print current best every 10 trials
+        if (i % 10 === 0 || i === args.trials) {
+          const best = optimizer.best();
+          const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+          console.log(
+            `  [${String(i).padStart(4, " ")}/${args.trials}] ` +
+            `best=${best ? best.score.toFixed(4) : "N/A"} ` +
+            `cur=${trial.score.toFixed(4)} ` +
+            `sharpe=${trial.sharpe.toFixed(3)} ` +
+            `dd=${trial.maxDrawdown.toFixed(1)}% ` +
+            `trades=${trial.trades} ` +
+            `(${elapsed}s)`
+          );
+        }
+      }
+    }
+  } finally {
+    await evaluator.close();
+    db.close();
+  }
 
-    optimizer.observe(params, score);
-
-    const trial: TrialRecord = {
-      trial: i,
-      params,
-      score,
-      sharpe: metrics.sharpeRatio,
-      maxDrawdown: metrics.maxDrawdown,
-      totalReturn: metrics.totalReturnPercent,
-      trades: metrics.totalTrades,
-      winRate: metrics.winRate,
-    };
-    allTrials.push(trial);
+  if (allTrials.length === 0) {
+    throw new Error("No trials to report (--trials must be at least 1)");
+  }
 
-    // Print current best every 10 trials
-    if (i % 10 === 0 || i === args.trials) {
-      const best = optimizer.best();
-      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  // ── 7. Extract Best Result ───────────────────────────────
+  // Pareto mode: the best-scoring trial on the front (one that nothing beats on every objective)
+  const front = args.pareto ? paretoFrontOf(allTrials, (t) => t.objectives) : [];
+  const bestTrial = [...(front.length > 0 ? front : allTrials)].reduce((a, b) => (b.score > a.score ? b : a));
+  const best = { params: bestTrial.params, score: bestTrial.score };
+
+  let paretoFront: TrialRecord[] | undefined;
+  if (args.pareto) {
+    paretoFront = [...front].sort((a, b) => b.totalReturn - a.totalReturn);
+    console.log("\n" + "─".repeat(55));
+    console.log(`🧭 Pareto front (${paretoFront.length} of ${allTrials.length} trials, ${PARETO_OBJECTIVES.map((o) => `${o.label} ${o.direction}`).join(" / ")}):`);
+    console.log("   trial   return%    maxDD%  trades    score");
+    for (const t of paretoFront) {
       console.log(
-        `  [${String(i).padStart(4, " ")}/${args.trials}] ` +
-        `best=${best ? best.score.toFixed(4) : "N/A"} ` +
-        `cur=${score.toFixed(4)} ` +
-        `sharpe=${metrics.sharpeRatio.toFixed(3)} ` +
-        `dd=${metrics.maxDrawdown.toFixed(1)}% ` +
-        `trades=${metrics.totalTrades} ` +
-        `(${elapsed}s)`
+        `   ${String(t.trial).padStart(5)} ${t.totalReturn.toFixed(2).padStart(9)} ` +
+        `${t.maxDrawdown.toFixed(2).padStart(9)} ${String(t.trades).padStart(7)} ${t.score.toFixed(4).padStart(8)}` +
+        (t === bestTrial ? "  ← best score" : "")
       );
     }
   }
 
-  // ── 6. Extract Best Result ───────────────────────────────
-  const best = optimizer.best()!;
-  const bestTrial = allTrials.find((t) => t.score === best.score)!;
-
   console.log("\n" + "─".repeat(55));
   console.log("🏆 Best Parameters:");
   for (const [k, v] of Object.entries(best.params)) {
@@ -253,7 +439,7 @@ async function main(): Promise<void> {
   console.log(`   Total Trades:    ${bestTrial.trades}`);
   console.log(`   Win Rate:        ${(bestTrial.winRate * 100).toFixed(1)}%`);
 
-  // ── 7. Walk-Forward Validation ──────────────────────────
+  // ── 8. Walk-Forward Validation ──────────────────────────
   let walkForwardMetrics: HyperoptResult["walkForwardMetrics"];
 
   if (args.walkForward && testKlines.length > 0) {
@@ -263,7 +449,8 @@ async function main(): Promise<void> {
       best.params,
       args.symbol,
       baseCfg,
-      testCache
+      testCache,
+      objective
     );
 
     walkForwardMetrics = {
@@ -286,21 +473,25 @@ async function main(): Promise<void> {
     console.log(`   Degradation:  ${degradation}%`);
   }
 
-  // ── 8. Get Best Backtest Details ───────────────────────────
+  // ── 9. Get Best Backtest Details ───────────────────────────
   const fullKlineCache = new Map<string, Kline[]>([[args.symbol, allKlines]]);
   const { metrics: fullMetrics } = await evaluateParams(
     best.params,
     args.symbol,
     baseCfg,
-    fullKlineCache
+    fullKlineCache,
+    objective
   );
 
-  // ── 9. Build Result Object ───────────────────────────────
+  // ── 10. Build Result Object ───────────────────────────────
   const result: HyperoptResult = {
+    study: study.name,
     symbol: args.symbol,
-    trials: args.trials,
-    days: args.days,
+    ...(args.strategy !== undefined ? { strategy: args.strategy } : {}),
+    trials: allTrials.length,
+    days: Math.round((study.endMs - study.startMs) / 86_400_000),
     walkForward: args.walkForward,
+    loss: objective.loss.name,
     bestParams: best.params,
     bestScore: best.score,
     bestMetrics: {
@@ -312,13 +503,13 @@ async function main(): Promise<void> {
       profitFactor: fullMetrics.profitFactor,
     },
     ...(walkForwardMetrics !== undefined ? { walkForwardMetrics } : {}),
+    ...(paretoFront !== undefined ? { paretoFront } : {}),
     allTrials,
     completedAt: Date.now(),
   };
 
-  // ── 10. Save Results ──────────────────────────────────
+  // ── 11. Save Results ──────────────────────────────────
   if (args.save) {
-    fs.mkdirSync(LOGS_DIR, { recursive: true });
     const outPath = path.join(LOGS_DIR, "hyperopt-results.json");
     fs.writeFileSync(outPath, JSON.stringify(result, null, 2));
     console.log(`\n💾 Results saved to: ${outPath}`);
@@ -326,21 +517,19 @@ async function main(): Promise<void> {
 
   console.log("\n✅ Hyperopt complete!");
   const totalSec = ((Date.now() - startTime) / 1000).toFixed(1);
-  console.log(`   Total time: ${totalSec}s | Average: ${(parseFloat(totalSec) / args.trials * 1000).toFixed(0)}ms/trial`);
-
-  // ── 11. Print config snippet for copy-paste ─────────────────
-  const optimalCfg = applyParams(best.params, baseCfg);
-  console.log("\n📋 Optimal config snippet (paste into strategy.yaml):");
-  console.log("   strategy:");
-  console.log(`     ma.short: ${optimalCfg.strategy.ma.short}`);
-  console.log(`     ma.long:  ${optimalCfg.strategy.ma.long}`);
-  console.log(`     rsi.period: ${optimalCfg.strategy.rsi.period}`);
-  console.log(`     rsi.overbought: ${optimalCfg.strategy.rsi.overbought.toFixed(1)}`);
-  console.log(`     rsi.oversold: ${optimalCfg.strategy.rsi.oversold.toFixed(1)}`);
-  console.log("   risk:");
-  console.log(`     stop_loss_percent: ${optimalCfg.risk.stop_loss_percent.toFixed(2)}`);
-  console.log(`     take_profit_percent: ${optimalCfg.risk.take_profit_percent.toFixed(2)}`);
-  console.log(`     position_ratio: ${optimalCfg.risk.position_ratio.toFixed(3)}`);
+  console.log(`   Total time: ${totalSec}s | Average: ${(parseFloat(totalSec) / Math.max(1, remaining) * 1000).toFixed(0)}ms/trial`);
+
+  // ── 12. Print config snippet for copy-paste ─────────────────
+  const optimalCfg = applyParams(best.params, baseCfg, space);
+  const target = args.strategy !== undefined ? `config/strategies/${args.strategy}.yaml` : "strategy.yaml";
+  console.log(`\n📋 Optimal values (paste into ${target}):`);
+  for (const def of space) {
+    if (!isParamActive(def, optimalCfg)) continue;
+    const paramPath = def.path ?? def.name;
+    const value = getPath(optimalCfg, paramPath);
+    const shown = typeof value === "number" && !Number.isInteger(value) ? value.toFixed(4) : String(value);
+    console.log(`   ${paramPath}: ${shown}`);
+  }
 }
 
 // ─────────────────────────────────────────────────────
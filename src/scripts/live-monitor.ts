@@ -1,13 +1,16 @@
 /**
  * Live / Testnet Live Monitoring Script
  *
- * Function: Connects to Binance real API (testnet or production),
+ * Function: Connects to the configured exchange API (Binance / OKX, testnet or production),
  * uses the unified signal engine for actual order placement.
  *
  * Uses exactly the same signal pipeline as monitor.ts (cron):
  *   processSignal() → regime awareness → correlation filter → R:R → protection
  *   → MTF trend filter → emergency halt → event calendar → sentiment gate → Kelly sizing
  *
+ * Config hot-reload: edits to config/ that only touch risk, signals, notify or symbols apply
+ * from the next round without a restart; see config/hot-reload.ts
+ *
  * Usage:
  *   npm run live          # Testnet mode (loads testnet scenario from paper.yaml)
  *   npm run live -- --scenario testnet-default
@@ -18,28 +21,36 @@ import path from "path";
 import { getKlines } from "../exchange/binance.js";
 import { checkMtfFilter } from "../strategy/mtf-filter.js";
 import { loadRecentTrades } from "../strategy/recent-trades.js";
-import { processSignal } from "../strategy/signal-engine.js";
-import { loadStrategyConfig, loadPaperConfig, buildPaperRuntime } from "../config/loader.js";
+import { processSignal, recordRejection } from "../strategy/signal-engine.js";
+import type { EngineRejection } from "../strategy/signal-engine.js";
+import { signalWarmupBars } from "../strategy/signals.js";
+import { getStrategy } from "../strategies/registry.js";
+import { createScenarioStateStore } from "../strategies/state-store.js";
+import { assertValidConfig, loadStrategyConfig, loadPaperConfig, buildPaperRuntime } from "../config/loader.js";
+import { ConfigHotReloader } from "../config/hot-reload.js";
 import { createLiveExecutor, LiveExecutor } from "../live/executor.js";
 import { reconcilePositions, formatReconcileReport } from "../live/reconcile.js";
-import { loadNewsReport, evaluateSentimentGate } from "../news/sentiment-gate.js";
+import { loadNewsReport, evaluateSentimentGate, sentimentGateInputs } from "../news/sentiment-gate.js";
 import { readSentimentCache } from "../news/sentiment-cache.js";
 import { notifySignal, notifyError } from "../notify/openclaw.js";
-import { loadAccount, saveAccount } from "../paper/account.js";
+import { accountExists, loadAccount, saveAccount } from "../paper/account.js";
 import type { PaperAccount } from "../paper/account.js";
+import { loadScenarioState } from "../paper/scenario-state.js";
 import {
   calcCorrelationAdjustedSize,
   calcPortfolioExposure,
   formatPortfolioExposure,
 } from "../strategy/portfolio-risk.js";
 import type { PositionWeight } from "../strategy/portfolio-risk.js";
-import { logSignal, closeSignal } from "../strategy/signal-history.js";
+import { logSignal, closeSignal, readSignalHistory } from "../strategy/signal-history.js";
+import type { SignalRecord } from "../strategy/signal-history.js";
 import { readEmergencyHalt } from "../news/emergency-monitor.js";
 import { checkEventRisk, loadCalendar } from "../strategy/events-calendar.js";
 import { CvdManager, readCvdCache } from "../exchange/order-flow.js";
 import { fetchFundingRatePct } from "../strategy/funding-rate-signal.js";
 import { getBtcDominanceTrend } from "../strategy/btc-dominance.js";
 import { calcKellyRatio } from "../strategy/kelly.js";
+import { DEFAULT_PAIRS_LOOKBACK } from "../strategy/pairs.js";
 import { getOnChainContext } from "../exchange/onchain-data.js";
 import { DataProvider } from "../exchange/data-provider.js";
 import {
@@ -47,7 +58,7 @@ import {
   activateKillSwitch,
   checkBtcCrash,
 } from "../health/kill-switch.js";
-import type { RuntimeConfig, Kline, Indicators } from "../types.js";
+import type { RuntimeConfig, Kline, Indicators, PaperFileConfig, PaperScenario } from "../types.js";
 import { createLogger } from "../logger.js";
 import { ping } from "../health/heartbeat.js";
 
@@ -186,6 +197,45 @@ function tfStaleSec(tf: string): number {
 // Single round signal detection + execution (all symbols for one scenario)
 // ─────────────────────────────────────────────────────
 
+/** Multi-leg strategies (populateMultiSignal, e.g. pairs): one signal over all symbols per round */
+async function processMultiLeg(
+  cfg: RuntimeConfig,
+  provider: DataProvider,
+  executor: LiveExecutor | undefined,
+  entriesPaused: boolean
+): Promise<void> {
+  const strategy = getStrategy(cfg.strategy_id ?? "default");
+  if (strategy.populateMultiSignal === undefined) return;
+  const label = cfg.exchange.testnet ? "[TESTNET]" : "[LIVE]";
+
+  const klinesBySymbol: Record<string, Kline[]> = {};
+  const prices: Record<string, number> = {};
+  for (const sym of cfg.symbols) {
+    const kl = provider.get(sym, cfg.timeframe);
+    const last = kl?.at(-1);
+    if (!kl || !last) continue;
+    klinesBySymbol[sym] = kl;
+    prices[sym] = last.close;
+  }
+  const positions: Record<string, "long" | "short"> = {};
+  for (const [sym, pos] of Object.entries(loadAccount(cfg.paper.initial_usdt, cfg.paper.scenarioId).positions)) {
+    positions[sym] = pos.side ?? "long";
+  }
+
+  const signal = strategy.populateMultiSignal({ klinesBySymbol, cfg, positions });
+  if (!signal) return;
+  if (signal.action === "open" && entriesPaused) {
+    log.info(`${label} Multi-leg entry skipped: new entries paused (${signal.reason})`);
+    return;
+  }
+  log.info(`${label} Multi-leg ${signal.action}: ${signal.reason}`);
+  const result = await (executor ?? createLiveExecutor(cfg)).handleMultiLegSignal(signal, prices);
+  if (result.skipped) log.warn(`${label} ${result.skipped}`);
+  for (const trade of result.trades) {
+    log.info(`${label} ${trade.symbol}: ${trade.side} qty=${trade.quantity.toFixed(6)} @$${trade.price.toFixed(4)}`);
+  }
+}
+
 async function processSymbol(
   symbol: string,
   cfg: RuntimeConfig,
@@ -196,7 +246,7 @@ async function processSymbol(
   // ── Fetch candlesticks ─────────────────────────────────────
   const macdCfg = cfg.strategy.macd;
   const macdMinBars = macdCfg.enabled ? macdCfg.slow + macdCfg.signal + 1 : 0;
-  const limit = Math.max(cfg.strategy.ma.long, cfg.strategy.rsi.period, macdMinBars) + 10;
+  const limit = Math.max(cfg.strategy.ma.long, cfg.strategy.rsi.period, macdMinBars, signalWarmupBars(cfg)) + 10;
 
   let klines = provider.get(symbol, cfg.timeframe);
   if (!klines || klines.length < limit) {
@@ -258,6 +308,10 @@ async function processSymbol(
   }
 
   // ── Unified signal engine (identical to monitor.ts) ──────────
+  const strategyId = cfg.strategy_id ?? "default";
+  const stateStore = strategyId !== "default"
+    ? createScenarioStateStore(strategyId, cfg.paper.scenarioId, symbol)
+    : undefined;
   const externalCtx = {
     ...(externalCvd !== undefined ? { cvd: externalCvd } : {}),
     ...(externalFundingRate !== undefined ? { fundingRate: externalFundingRate } : {}),
@@ -266,6 +320,7 @@ async function processSymbol(
     ...(currentPosSide !== undefined ? { currentPosSide } : {}),
     ...(Object.keys(heldKlinesMap).length > 0 ? { heldKlinesMap } : {}),
     ...(_stablecoinSignal !== undefined ? { stablecoinSignal: _stablecoinSignal } : {}),
+    ...(stateStore !== undefined ? { stateStore } : {}),
   };
   const recentTrades = loadRecentTrades();
   const engineResult = processSignal(symbol, klines, cfg, externalCtx, recentTrades);
@@ -275,7 +330,22 @@ async function processSymbol(
     return;
   }
 
+  // ── Strategy-driven add/reduce on the held position (opt-in adjustPosition hook, e.g. grid levels) ──
+  const adjustStrategy = getStrategy(strategyId);
+  if (adjustStrategy.adjustEveryCycle === true && currentPosSide !== undefined && stateStore !== undefined) {
+    const adjustExecutor = createLiveExecutor(cfg);
+    adjustExecutor.strategy = adjustStrategy;
+    await adjustExecutor.applyStrategyAdjustment(symbol, engineResult.indicators.price, {
+      klines, cfg, indicators: engineResult.indicators, currentPosSide, stateStore,
+    });
+  }
+
   const { indicators, signal, effectiveRisk, effectivePositionRatio, rejected, rejectionReason, regimeLabel } = engineResult;
+  // Filtered signal logging: the signal history keeps what each filter turned down (deduplicated per candle)
+  const reject = (rejection: EngineRejection): void => {
+    recordRejection(signal, cfg, effectiveRisk, rejection, "live", engineResult.regime);
+  };
+  if (engineResult.rejection) reject(engineResult.rejection);
 
   // ── Deduplicate rejected signals: don't log the same filter reason within 5 minutes ──
   if (rejected && !shouldLogFiltered(symbol, signal.type)) return;
@@ -305,6 +375,11 @@ async function processSymbol(
     const emergency = readEmergencyHalt();
     if (emergency.halt) {
       log.warn(`${label} ${symbol}: ⛔ Emergency halt — ${emergency.reason ?? "breaking high-risk news"}`);
+      reject({
+        filter: "emergency_halt",
+        reason: emergency.reason ?? "breaking high-risk news",
+        inputs: { keywords: emergency.keywords, triggeredAt: emergency.triggeredAt, source: emergency.source },
+      });
       return;
     }
 
@@ -313,6 +388,7 @@ async function processSymbol(
       const eventRisk = checkEventRisk(loadCalendar());
       if (eventRisk.phase === "during") {
         log.info(`${label} ${symbol}: ⏸ Event window (${eventRisk.eventName}), pausing new entries`);
+        reject({ filter: "event_calendar", reason: `Event window (${eventRisk.eventName})`, inputs: { ...eventRisk } });
         return;
       }
       if ((eventRisk.phase === "pre" || eventRisk.phase === "post") && eventRisk.positionRatioMultiplier < 1.0) {
@@ -327,6 +403,11 @@ async function processSymbol(
     }
     if (mtfCheck.filtered) {
       log.info(`${label} ${symbol}: 🚫 ${mtfCheck.reason}`);
+      reject({
+        filter: "mtf",
+        reason: mtfCheck.reason ?? "MTF trend filter",
+        inputs: { trendTimeframe: cfg.trend_timeframe, trendBull: mtfCheck.trendBull },
+      });
       return;
     }
 
@@ -336,31 +417,26 @@ async function processSymbol(
     const sentimentCache = readSentimentCache();
     const gate = evaluateSentimentGate(signal, newsReport, baseForGate, sentimentCache);
     log.info(`${label} ${symbol}: Sentiment gate → ${gate.action} (${gate.reason})`);
-    if (gate.action === "skip") return;
+    if (gate.action === "skip") {
+      reject({ filter: "sentiment", reason: gate.reason, inputs: sentimentGateInputs(newsReport, sentimentCache, baseForGate) });
+      return;
+    }
 
     // Kelly dynamic position sizing
     let effectiveRatio = "positionRatio" in gate ? gate.positionRatio : baseForGate;
     if (cfg.risk.position_sizing === "kelly") {
       try {
-        const histPath = path.resolve(
-          path.dirname(new URL(import.meta.url).pathname),
-          "../../logs/signal-history.jsonl"
-        );
-        if (fs.existsSync(histPath)) {
-          const lines = fs.readFileSync(histPath, "utf-8").split("\n").filter(Boolean);
-          const closed = lines
-            .map((l) => { try { return JSON.parse(l) as { status: string; pnlPercent?: number }; } catch { return null; } })
-            .filter((r): r is { status: string; pnlPercent: number } => r?.status === "closed" && r.pnlPercent !== undefined);
-          const kellyResult = calcKellyRatio(closed, {
-            ...(cfg.risk.kelly_lookback !== undefined ? { lookback: cfg.risk.kelly_lookback } : {}),
-            ...(cfg.risk.kelly_half !== undefined ? { half: cfg.risk.kelly_half } : {}),
-            ...(cfg.risk.kelly_min_ratio !== undefined ? { minRatio: cfg.risk.kelly_min_ratio } : {}),
-            ...(cfg.risk.kelly_max_ratio !== undefined ? { maxRatio: cfg.risk.kelly_max_ratio } : {}),
-            fallback: cfg.risk.position_ratio,
-          });
-          log.info(`${label} ${symbol}: 🎯 Kelly → ${kellyResult.reason}`);
-          effectiveRatio = kellyResult.ratio;
-        }
+        const closed = readSignalHistory()
+          .filter((r): r is SignalRecord & { pnlPercent: number } => r.status === "closed" && r.pnlPercent !== undefined);
+        const kellyResult = calcKellyRatio(closed, {
+          ...(cfg.risk.kelly_lookback !== undefined ? { lookback: cfg.risk.kelly_lookback } : {}),
+          ...(cfg.risk.kelly_half !== undefined ? { half: cfg.risk.kelly_half } : {}),
+          ...(cfg.risk.kelly_min_ratio !== undefined ? { minRatio: cfg.risk.kelly_min_ratio } : {}),
+          ...(cfg.risk.kelly_max_ratio !== undefined ? { maxRatio: cfg.risk.kelly_max_ratio } : {}),
+          fallback: cfg.risk.position_ratio,
+        });
+        log.info(`${label} ${symbol}: 🎯 Kelly → ${kellyResult.reason}`);
+        effectiveRatio = kellyResult.ratio;
       } catch { /* Kelly calculation failure does not affect main flow */ }
     }
 
@@ -390,6 +466,11 @@ async function processSymbol(
         );
         if (portfolioHeat.decision === "blocked") {
           log.info(`${label} ${symbol}: 🚫 Portfolio heat too high, entry rejected`);
+          reject({
+            filter: "correlation",
+            reason: portfolioHeat.reason,
+            inputs: { heat: portfolioHeat.heat, contributions: portfolioHeat.contributions, baseRatio: effectiveRatio },
+          });
           return;
         }
         effectiveRatio = portfolioHeat.adjustedPositionRatio;
@@ -408,7 +489,7 @@ async function processSymbol(
         log.info(`${label} ${symbol}: Skipped — ${result.skipped}`);
       } else if (result.trade) {
         log.info(`${label} ${symbol}: Buy successful @${result.trade.price.toFixed(4)} (position ${(effectiveRatio * 100).toFixed(0)}%), orderId=${result.orderId ?? "N/A"}`);
-        recordSignalHistory(symbol, "buy", result.trade.price, indicators, signal, cfg);
+        recordSignalHistory(symbol, "buy", result.trade.price, indicators, signal, cfg, engineResult.regime);
       }
     } else if (signal.type === "short") {
       const result = await liveExecutor.handleShort(signal);
@@ -416,7 +497,7 @@ async function processSymbol(
         log.info(`${label} ${symbol}: Short skipped — ${result.skipped}`);
       } else if (result.trade) {
         log.info(`${label} ${symbol}: Short opened @${result.trade.price.toFixed(4)} (position ${(effectiveRatio * 100).toFixed(0)}%), orderId=${result.orderId ?? "N/A"}`);
-        recordSignalHistory(symbol, "short", result.trade.price, indicators, signal, cfg);
+        recordSignalHistory(symbol, "short", result.trade.price, indicators, signal, cfg, engineResult.regime);
       }
     }
   } else if (signal.type === "sell") {
@@ -458,6 +539,7 @@ function recordSignalHistory(
   indicators: Indicators,
   signal: { reason: string[] },
   cfg: RuntimeConfig,
+  regime: string | undefined,
 ): void {
   try {
     const sigId = logSignal({
@@ -469,6 +551,7 @@ function recordSignalHistory(
         maLong: indicators.maLong,
         rsi: indicators.rsi,
         ...(indicators.atr !== undefined && { atr: indicators.atr }),
+        ...(regime !== undefined && { regime }),
         triggeredRules: signal.reason,
       },
       scenarioId: cfg.paper.scenarioId,
@@ -490,17 +573,29 @@ async function checkExits(cfg: RuntimeConfig, executor?: LiveExecutor): Promise<
   const execInstance = executor ?? createLiveExecutor(cfg);
   const label = cfg.exchange.testnet ? "[TESTNET]" : "[LIVE]";
 
-  // Get current prices
+  // Snapshot current account (to read signalHistoryId afterwards, positions still exist at this point)
+  const accountSnapshot = loadAccount(cfg.paper.initial_usdt, cfg.paper.scenarioId);
+
+  // Get current prices (held symbols too: a symbol dropped from the config may still have a position)
   const prices: Record<string, number> = {};
-  for (const symbol of cfg.symbols) {
+  for (const symbol of new Set([...cfg.symbols, ...Object.keys(accountSnapshot.positions)])) {
     try {
       const kl = await getKlines(symbol, "1m", 2);
       if (kl.length > 0) prices[symbol] = kl[kl.length - 1]?.close ?? 0;
     } catch (_e: unknown) { /* ignore price fetch failure for individual symbol */ }
   }
 
-  // Snapshot current account (to read signalHistoryId afterwards, positions still exist at this point)
-  const accountSnapshot = loadAccount(cfg.paper.initial_usdt, cfg.paper.scenarioId);
+  // Maker-first limit orders in progress: one step each (reprice / fill / market fallback)
+  for (const r of await execInstance.advanceWorkingOrders()) {
+    if (!r.trade) continue;
+    const t = r.trade;
+    log.info(`${label} ${t.symbol}: Limit ${t.side} completed @${t.price.toFixed(4)}, orderId=${r.orderId ?? "N/A"}`);
+    const sigHistId = accountSnapshot.positions[t.symbol]?.signalHistoryId;
+    if ((t.side === "sell" || t.side === "cover") && sigHistId) {
+      try { closeSignal(sigHistId, t.price, r.stopLossTriggered ? "stop_loss" : "signal", t.pnl); } catch { /* skip */ }
+    }
+  }
+
   const exits = await execInstance.checkExitConditions(prices);
 
   // G3: Check timed-out orders each round (orphan entry orders cancelled, orphan exit orders cancelled and re-triggered next round)
@@ -538,46 +633,55 @@ async function checkExits(cfg: RuntimeConfig, executor?: LiveExecutor): Promise<
 // Main Loop
 // ─────────────────────────────────────────────────────
 
-async function main(): Promise<void> {
-  // Load config
+/** Scenarios this process runs: the enabled testnet ones, or the one named by --scenario= */
+function selectScenarios(paperCfg: PaperFileConfig, scenarioArg: string | undefined): PaperScenario[] {
+  return paperCfg.scenarios.filter((s) => {
+    if (!s.enabled) return false;
+    if (scenarioArg) return s.id === scenarioArg;
+    return s.exchange.testnet === true; // Only run testnet scenarios by default
+  });
+}
+
+/** Runtimes of the selected scenarios, built from the files on disk (startup and config hot-reload) */
+function loadLiveRuntimes(scenarioArg: string | undefined): RuntimeConfig[] {
   const base = loadStrategyConfig();
   const paperCfg = loadPaperConfig();
+  return selectScenarios(paperCfg, scenarioArg).map((s) => buildPaperRuntime(base, paperCfg, s));
+}
+
+async function main(): Promise<void> {
+  // Load config
+  assertValidConfig();
 
   // CLI arguments
   const scenarioArg = process.argv.find((a) => a.startsWith("--scenario="))?.split("=")[1];
 
-  // Filter testnet / live scenarios
-  const scenarios = paperCfg.scenarios.filter((s) => {
-    if (!s.enabled) return false;
-    if (scenarioArg) return s.id === scenarioArg;
-    return s.exchange.testnet === true; // Only run testnet scenarios by default
-  });
+  // Filter testnet / live scenarios (replaced as a whole by config hot-reload)
+  let runtimes = loadLiveRuntimes(scenarioArg);
 
-  if (scenarios.length === 0) {
+  if (runtimes.length === 0) {
     console.error("❌ No enabled testnet scenarios found.");
     console.error("   Please set testnet scenario enabled to true in paper.yaml");
     console.error("   and configure API Key in .secrets/binance-testnet.json");
     process.exit(1);
   }
 
-  log.info(`🚀 Starting live monitor, ${scenarios.length} scenario(s)`);
+  log.info(`🚀 Starting live monitor, ${runtimes.length} scenario(s)`);
   log.info(`📋 Unified signal engine: processSignal() + MTF + sentiment gate + Kelly + event calendar + correlation filter`);
 
   // ── State file consistency check ─────────────────────────────────────
-  const logsDir = path.resolve(path.dirname(new URL(import.meta.url).pathname), "../../logs");
-  for (const scenario of scenarios) {
-    const stateFile = path.join(logsDir, `paper-${scenario.id}.json`);
-    const configInitial = scenario.initial_usdt;
-    if (fs.existsSync(stateFile)) {
+  for (const cfg of runtimes) {
+    const scenarioId = cfg.paper.scenarioId;
+    const configInitial = cfg.paper.initial_usdt;
+    if (accountExists(scenarioId)) {
       try {
-        const state = JSON.parse(fs.readFileSync(stateFile, "utf-8"));
-        const stateInitial = state.initialUsdt as number | undefined;
-        if (configInitial && stateInitial && Math.abs(stateInitial - configInitial) > 1) {
+        const stateInitial = loadAccount(configInitial, scenarioId).initialUsdt;
+        if (configInitial && Math.abs(stateInitial - configInitial) > 1) {
           log.warn(
-            `⚠️  [${scenario.id}] State baseline mismatch: state.initialUsdt=${stateInitial}, ` +
+            `⚠️  [${scenarioId}] State baseline mismatch: state.initialUsdt=${stateInitial}, ` +
             `paper.yaml initial_usdt=${configInitial}. ` +
             `P&L calculation will use state file value (${stateInitial}). ` +
-            `To reset: npm run paper:reset -- --scenario ${scenario.id} --set-initial ${configInitial}`
+            `To reset: npm run paper:reset -- --scenario ${scenarioId} --set-initial ${configInitial}`
           );
         }
       } catch { /* ignore corrupted state file, reconciliation flow below will handle it */ }
@@ -585,9 +689,7 @@ async function main(): Promise<void> {
   }
 
   // ── Real CVD — aggTrade WebSocket ────────────────────
-  const cvdSymbols = scenarios[0]
-    ? [...new Set(scenarios.flatMap((s) => s.symbols ?? []))]
-    : [];
+  const cvdSymbols = [...new Set(runtimes.flatMap((r) => r.symbols))];
   const cvdManager = cvdSymbols.length > 0 ? new CvdManager(cvdSymbols, { windowMs: 3_600_000 }) : null;
   if (cvdManager) {
     cvdManager.start();
@@ -595,17 +697,17 @@ async function main(): Promise<void> {
   }
 
   // Test connection
-  for (const scenario of scenarios) {
-    const cfg = buildPaperRuntime(base, paperCfg, scenario);
+  for (const cfg of runtimes) {
+    const scenarioId = cfg.paper.scenarioId;
     const executor = createLiveExecutor(cfg);
     const label = cfg.exchange.testnet ? "Testnet" : "Live";
     const ok = await executor.ping();
     if (!ok) {
-      console.error(`❌ ${scenario.id}: Binance ${label} API connection failed, please check credentials and network`);
+      console.error(`❌ ${scenarioId}: ${executor.exchangeName} ${label} API connection failed, please check credentials and network`);
       process.exit(1);
     }
     const balance = await executor.syncBalance();
-    log.info(`✅ ${scenario.id} [${label}]: Connection OK, USDT balance = $${balance.toFixed(2)}`);
+    log.info(`✅ ${scenarioId} [${label}]: Connection OK, USDT balance = $${balance.toFixed(2)}`);
 
     // ── Start reconciliation (P3.3) ──────────────────────────────
     try {
@@ -659,7 +761,7 @@ async function main(): Promise<void> {
     try {
       const cancelled = await executor.scanOpenOrders();
       if (cancelled > 0) {
-        log.info(`🧹 ${scenario.id}: Cancelled ${cancelled} orphan order(s)`);
+        log.info(`🧹 ${scenarioId}: Cancelled ${cancelled} orphan order(s)`);
       }
     } catch (err: unknown) {
       log.warn(`⚠️ Orphan order scan skipped: ${String(err)}`);
@@ -678,20 +780,32 @@ async function main(): Promise<void> {
   // ── Persistent DataProvider (one per scenario, reused across rounds, avoids re-fetching 4h candles every 60s) ──
   // staleSec set per timeframe, ensures data refresh within <60s after new candle forms
   const dataProviders = new Map<string, DataProvider>();
-  for (const scenario of scenarios) {
-    const cfg = buildPaperRuntime(base, paperCfg, scenario);
+  for (const cfg of runtimes) {
     const stale = tfStaleSec(cfg.timeframe);
-    dataProviders.set(scenario.id, new DataProvider(stale));
-    log.info(`📦 ${scenario.id}: DataProvider cache TTL ${stale}s (timeframe=${cfg.timeframe})`);
+    dataProviders.set(cfg.paper.scenarioId, new DataProvider(stale));
+    log.info(`📦 ${cfg.paper.scenarioId}: DataProvider cache TTL ${stale}s (timeframe=${cfg.timeframe})`);
   }
 
   // ── Persistent LiveExecutor (one per scenario, reused across rounds, preserves _exitRejectionLog cooldown state) ──
   const liveExecutors = new Map<string, LiveExecutor>();
-  for (const scenario of scenarios) {
-    const cfg = buildPaperRuntime(base, paperCfg, scenario);
-    liveExecutors.set(scenario.id, createLiveExecutor(cfg));
+  for (const cfg of runtimes) {
+    liveExecutors.set(cfg.paper.scenarioId, createLiveExecutor(cfg));
   }
 
+  // ── Config hot-reload: takes effect from the next scenario iteration ──
+  // Scenarios, timeframes and exchanges are restart-only, so the providers / executors above stay valid
+  const reloader = new ConfigHotReloader(runtimes, {
+    name: "live-monitor",
+    load: () => loadLiveRuntimes(scenarioArg),
+    log,
+    apply: (next) => {
+      for (const cfg of next) liveExecutors.get(cfg.paper.scenarioId)?.updateConfig(cfg);
+      cvdManager?.updateSymbols([...new Set(next.flatMap((r) => r.symbols))]);
+      runtimes = next;
+    },
+  });
+  reloader.watch();
+
   // Polling loop
   for (;;) {
     if (_state.shuttingDown) break;
@@ -725,16 +839,18 @@ async function main(): Promise<void> {
     // P6.2 On-chain stablecoin signal refresh (hourly, silently skip on failure)
     await refreshStablecoinSignal().catch(() => {});
 
-    for (const scenario of scenarios) {
+    for (const runtime of runtimes) {
       if (_state.shuttingDown) break; // eslint-disable-line @typescript-eslint/no-unnecessary-condition
+      const scenarioId = runtime.paper.scenarioId;
 
       // P6.7: Kill Switch check
       if (isKillSwitchActive()) {
-        log.warn(`⛔ Kill Switch activated, skipping scenario ${scenario.id}`);
+        log.warn(`⛔ Kill Switch activated, skipping scenario ${scenarioId}`);
         continue;
       }
 
-      const cfg = buildPaperRuntime(base, paperCfg, scenario);
+      // Copy: the dynamic pairlist below replaces symbols for this round only
+      const cfg: RuntimeConfig = { ...runtime };
 
       // ── P6.2 Dynamic pairlist: override static symbols from config if valid ──
       const account = loadAccount(cfg.paper.initial_usdt, cfg.paper.scenarioId);
@@ -746,8 +862,9 @@ async function main(): Promise<void> {
       const macdMinBars = cfg.strategy.macd.enabled
         ? cfg.strategy.macd.slow + cfg.strategy.macd.signal + 1
         : 0;
-      const klineLimit = Math.max(cfg.strategy.ma.long, cfg.strategy.rsi.period, macdMinBars) + 11;
-      const provider = dataProviders.get(scenario.id) ?? new DataProvider(tfStaleSec(cfg.timeframe));
+      const pairsBars = cfg.pairs ? (cfg.pairs.lookback ?? DEFAULT_PAIRS_LOOKBACK) + 1 : 0;
+      const klineLimit = Math.max(cfg.strategy.ma.long, cfg.strategy.rsi.period, macdMinBars, pairsBars, signalWarmupBars(cfg)) + 11;
+      const provider = dataProviders.get(scenarioId) ?? new DataProvider(tfStaleSec(cfg.timeframe));
       await provider.refresh(cfg.symbols, cfg.timeframe, klineLimit);
       // MTF pre-fetch
       if (cfg.trend_timeframe && cfg.trend_timeframe !== cfg.timeframe) {
@@ -771,22 +888,27 @@ async function main(): Promise<void> {
         if (lossPct >= cfg.risk.max_total_loss_percent) {
           totalLossBreached = true;
           log.warn(
-            `⛔ [${scenario.id}] Total loss ${lossPct.toFixed(2)}% exceeds limit ${cfg.risk.max_total_loss_percent}%, pausing new entries (exits still executed)`
+            `⛔ [${scenarioId}] Total loss ${lossPct.toFixed(2)}% exceeds limit ${cfg.risk.max_total_loss_percent}%, pausing new entries (exits still executed)`
           );
           // 30-minute cooldown, avoid notifying every round
-          const lastNotify = _totalLossNotifyAt.get(scenario.id) ?? 0;
+          const lastNotify = _totalLossNotifyAt.get(scenarioId) ?? 0;
           if (Date.now() - lastNotify >= TOTAL_LOSS_NOTIFY_COOLDOWN_MS) {
-            notifyError(scenario.id, new Error(
+            notifyError(scenarioId, new Error(
               `⛔ Total loss ${lossPct.toFixed(2)}% exceeds ${cfg.risk.max_total_loss_percent}% limit, new entries auto-paused`
             ));
-            _totalLossNotifyAt.set(scenario.id, Date.now());
+            _totalLossNotifyAt.set(scenarioId, Date.now());
           }
         }
       }
 
+      // ── Operator pause (dashboard): entries stop, exits keep running ──
+      const operatorPaused = loadScenarioState(scenarioId).paused;
+      if (operatorPaused) log.warn(`⏸ [${scenarioId}] Paused by operator, skipping new entries (exits still executed)`);
+      const entriesPaused = totalLossBreached || operatorPaused;
+
       try {
         // Check stop loss/take profit first (pass persistent executor, preserving _exitRejectionLog cross-round cooldown state)
-        await checkExits(cfg, liveExecutors.get(scenario.id));
+        await checkExits(cfg, liveExecutors.get(scenarioId));
 
         // P7.1 Portfolio exposure summary log (output when positions exist, aids risk monitoring)
         try {
@@ -806,17 +928,24 @@ async function main(): Promise<void> {
               if (kl) klinesBySymbol[sym] = kl;
             }
             const exposure = calcPortfolioExposure(posWeights, totalEquity, klinesBySymbol);
-            log.info(`[${scenario.id}] ${formatPortfolioExposure(exposure).replace(/\*\*/g, "")}`);
+            log.info(`[${scenarioId}] ${formatPortfolioExposure(exposure).replace(/\*\*/g, "")}`);
           }
         } catch { /* exposure summary failure does not affect main flow */ }
 
-        // Then detect buy/sell signals (skip entries when total loss exceeded)
-        if (totalLossBreached) continue;
+        // Multi-leg strategies (pairs): legs opened / closed together; closes still run when entries are paused
+        await processMultiLeg(cfg, provider, liveExecutors.get(scenarioId), entriesPaused).catch((err: unknown) => {
+          const msg = err instanceof Error ? err.message : String(err);
+          log.error(`❌ ${scenarioId} multi-leg: ${msg}`);
+          if (cfg.notify.on_error) notifyError("multi-leg", new Error(msg));
+        });
+
+        // Then detect buy/sell signals (skip entries when total loss exceeded or paused)
+        if (entriesPaused) continue;
         for (const symbol of cfg.symbols) {
           if (_state.shuttingDown) break; // eslint-disable-line @typescript-eslint/no-unnecessary-condition
           await processSymbol(symbol, cfg, provider).catch((err: unknown) => {
             const msg = err instanceof Error ? err.message : String(err);
-            log.error(`❌ ${scenario.id} ${symbol}: ${msg}`);
+            log.error(`❌ ${scenarioId} ${symbol}: ${msg}`);
             if (cfg.notify.on_error) notifyError(symbol, new Error(msg));
           });
           // Brief wait between symbols to avoid Binance rate limiting
@@ -824,7 +953,7 @@ async function main(): Promise<void> {
         }
       } catch (err: unknown) {
         const msg = err instanceof Error ? err.message : String(err);
-        log.error(`❌ Scenario ${scenario.id} runtime error: ${msg}`);
+        log.error(`❌ Scenario ${scenarioId} runtime error: ${msg}`);
       }
     }
 
@@ -833,6 +962,7 @@ async function main(): Promise<void> {
     await new Promise<void>((r) => setTimeout(r, POLL_INTERVAL_MS));
   }
 
+  reloader.close();
   cvdManager?.stop();
   log.info("✅ Live monitor safely exited.");
   process.exit(0);
@@ -5,7 +5,13 @@
  * Script responsibility: read signal history, call domain module analysis, write report
  * Business logic located at: src/analysis/attribution.ts
  *
- * Usage: npm run attribution
+ * Usage: npm run attribution -- [--min-samples 10] [--confidence 0.95] [--regime-from-klines] [--timeframe 1h]
+ *
+ * Parameters:
+ *   --min-samples         Closed trades needed on each side before a condition gets a keep/drop verdict (default 10)
+ *   --confidence          Confidence level of all intervals (default 0.95)
+ *   --regime-from-klines  Classify the entry regime from historical klines for records logged without one
+ *   --timeframe           Kline interval for --regime-from-klines (default 1h)
  */
 
 import fs from "fs";
@@ -13,31 +19,129 @@ import path from "path";
 import {
   loadAttributionHistory,
   analyzeGroups,
+  analyzeBreakdowns,
   formatAttributionReport,
+  formatMarginalReport,
+  regimeFromKlines,
   ATTRIBUTION_REPORT_PATH,
 } from "../analysis/attribution.js";
+import type { AttributionSignalRecord, BreakdownOptions } from "../analysis/attribution.js";
+import { fetchHistoricalKlines } from "../backtest/fetcher.js";
+import { candleMs } from "../strategy/signal-engine.js";
+import type { Kline } from "../types.js";
+
+// ─────────────────────────────────────────────────────
+// CLI Argument Parsing
+// ─────────────────────────────────────────────────────
+
+interface CliArgs {
+  minSamples: number;
+  confidence: number;
+  regimeFromKlines: boolean;
+  timeframe: string;
+}
+
+export function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { minSamples: 10, confidence: 0.95, regimeFromKlines: false, timeframe: "1h" };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] ?? "";
+    const next = (): string => {
+      const val = argv[++i];
+      if (val === undefined) throw new Error(`Argument ${arg} requires a value`);
+      return val;
+    };
+
+    switch (arg) {
+      case "--min-samples": {
+        const v = parseInt(next(), 10);
+        args.minSamples = Number.isNaN(v) ? 10 : v;
+        break;
+      }
+      case "--confidence": {
+        const v = parseFloat(next());
+        args.confidence = Number.isNaN(v) || v <= 0 || v >= 1 ? 0.95 : v;
+        break;
+      }
+      case "--regime-from-klines":
+        args.regimeFromKlines = true;
+        break;
+      case "--timeframe":
+        args.timeframe = next();
+        break;
+      default:
+        console.warn(`[attribution] Unknown argument: ${arg}`);
+    }
+  }
+  return args;
+}
 
-function main(): void {
+// ─────────────────────────────────────────────────────
+// Regime Backfill
+// ─────────────────────────────────────────────────────
+
+/** Regime lookback window in bars (classifyRegime recommends 100+) */
+const REGIME_LOOKBACK = 100;
+
+/** Fetch klines covering every closed entry that was logged without a regime */
+async function fetchEntryKlines(
+  records: AttributionSignalRecord[],
+  timeframe: string
+): Promise<Map<string, Kline[]>> {
+  const missing = records.filter((r) => r.status === "closed" && r.entryConditions.regime === undefined);
+  const bySymbol = new Map<string, Kline[]>();
+  for (const symbol of new Set(missing.map((r) => r.symbol))) {
+    const times = missing.filter((r) => r.symbol === symbol).map((r) => r.entryTime);
+    const startMs = Math.min(...times) - (REGIME_LOOKBACK + 1) * candleMs(timeframe);
+    const endMs = Math.max(...times);
+    try {
+      bySymbol.set(symbol, await fetchHistoricalKlines(symbol, timeframe, startMs, endMs));
+    } catch (err: unknown) {
+      console.warn(`[attribution] ${symbol}: kline fetch failed, regime left unknown (${String(err)})`);
+    }
+  }
+  return bySymbol;
+}
+
+// ─────────────────────────────────────────────────────
+// Main
+// ─────────────────────────────────────────────────────
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
   const records = loadAttributionHistory();
   console.log(`[attribution] Loaded ${records.length} signal records`);
 
   const stats = analyzeGroups(records);
   const report = formatAttributionReport(stats, records);
 
+  const opts: BreakdownOptions = { minSamples: args.minSamples, confidence: args.confidence };
+  if (args.regimeFromKlines) {
+    opts.regimeOf = regimeFromKlines(await fetchEntryKlines(records, args.timeframe), REGIME_LOOKBACK);
+  }
+  const breakdown = analyzeBreakdowns(records, opts);
+
   console.log("\n" + report);
+  console.log("\n" + formatMarginalReport(breakdown));
 
   // Save JSON report
   fs.mkdirSync(path.dirname(ATTRIBUTION_REPORT_PATH), { recursive: true });
   fs.writeFileSync(
     ATTRIBUTION_REPORT_PATH,
-    JSON.stringify({ generatedAt: new Date().toISOString(), stats }, null, 2)
+    JSON.stringify({ generatedAt: new Date().toISOString(), stats, breakdown }, null, 2)
   );
   console.log(`\n[attribution] JSON report written to: ${ATTRIBUTION_REPORT_PATH}`);
 }
 
+// Only run when executed directly (avoid triggering main on unit test imports)
 process.on("unhandledRejection", (reason: unknown) => {
   console.error("[FATAL] Unhandled Rejection:", reason);
   process.exit(1);
 });
 
-main();
+if (process.argv[1]?.endsWith("signal-attribution.ts") || process.argv[1]?.endsWith("signal-attribution.js")) {
+  main().catch((err: unknown) => {
+    console.error("❌ Signal attribution failed:", err);
+    process.exit(1);
+  });
+}
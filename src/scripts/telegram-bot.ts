@@ -11,14 +11,20 @@
  *    Write commands to logs/pending-commands.json,
  *    this script reads and clears them, writes responses to logs/command-responses.json.
  *
- * Note: If a real Telegram Bot Token is available (TELEGRAM_BOT_TOKEN env var),
- * this can be extended to long-polling mode (getUpdates).
+ * 3. Bot mode (long-lived control plane):
+ *    TELEGRAM_BOT_TOKEN=... npm run telegram-bot -- --poll
+ *    Long-polls the Bot API (getUpdates) and serves the chats in strategy.yaml
+ *    `telegram.chats`; trade commands ask for confirmation with inline buttons.
+ *    Stops on SIGINT / SIGTERM.
  */
 
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
 import { parseCommand, handleCommand } from "../telegram/command-handler.js";
+import { createTelegramApi } from "../telegram/bot-api.js";
+import { TelegramBot } from "../telegram/bot.js";
+import { assertValidConfig, loadStrategyConfig } from "../config/loader.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const LOGS_DIR = path.resolve(__dirname, "../../logs");
@@ -117,6 +123,28 @@ export function enqueueCommand(text: string): void {
   fs.writeFileSync(PENDING_COMMANDS_FILE, JSON.stringify(commands, null, 2));
 }
 
+/** Bot mode: serve Telegram until SIGINT / SIGTERM */
+async function runBot(): Promise<void> {
+  const token = process.env["TELEGRAM_BOT_TOKEN"];
+  if (!token) throw new Error("TELEGRAM_BOT_TOKEN is not set");
+  assertValidConfig();
+  const config = loadStrategyConfig().telegram;
+  if (!config || config.chats.length === 0) {
+    throw new Error("No chats allowed: add telegram.chats to config/strategy.yaml");
+  }
+
+  const controller = new AbortController();
+  const stop = (): void => {
+    console.log("[telegram-bot] Stopping");
+    controller.abort();
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  console.log(`[telegram-bot] Long polling for ${config.chats.length} chat(s)`);
+  await new TelegramBot(createTelegramApi(token), config).run(controller.signal);
+}
+
 // ─────────────────────────────────────────────────────
 // Entry: determine operating mode
 // ─────────────────────────────────────────────────────
@@ -128,7 +156,14 @@ process.on("unhandledRejection", (reason: unknown) => {
 
 const args = process.argv.slice(2);
 
-if (args.length > 0) {
+if (args[0] === "--poll") {
+  runBot()
+    .then(() => process.exit(0))
+    .catch((err: unknown) => {
+      console.error("[telegram-bot] Error:", err instanceof Error ? err.message : err);
+      process.exit(1);
+    });
+} else if (args.length > 0) {
   // CLI tool mode: npm run cmd -- "/profit"
   const text = args.join(" ");
   console.log(`\n🤖 Processing command: ${text}\n${"─".repeat(40)}`);
@@ -5,6 +5,11 @@
  * - Latency: 60s → <1s
  * - Only runs strategy on kline close (avoids decisions based on incomplete candles)
  * - Stop-loss/take-profit: polls price every 60s (independent of kline close)
+ * - Indicators update incrementally per closed kline (strategy/incremental-indicators.ts),
+ *   so each close costs O(1) per symbol instead of recomputing the whole buffer
+ *
+ * Config hot-reload: edits to config/ apply without a restart when they only touch risk,
+ * signals, notify or symbols (added symbols are preloaded and subscribed); see config/hot-reload.ts
  *
  * Start: npm run ws-monitor
  * Stop: Ctrl+C or SIGTERM
@@ -15,8 +20,9 @@ import path from "path";
 import { fileURLToPath } from "url";
 import { getKlines } from "../exchange/binance.js";
 import { BinanceWsManager } from "../exchange/ws.js";
-import { calculateIndicators } from "../strategy/indicators.js";
-import { detectSignal } from "../strategy/signals.js";
+import { calculateIndicators, addExtendedIndicators } from "../strategy/indicators.js";
+import { IncrementalIndicators } from "../strategy/incremental-indicators.js";
+import { detectSignal, signalWarmupBars, usesExtendedIndicators } from "../strategy/signals.js";
 import { notifySignal, notifyError, notifyPaperTrade, notifyStopLoss } from "../notify/openclaw.js";
 import {
   handleSignal,
@@ -29,7 +35,8 @@ import { loadNewsReport, evaluateSentimentGate } from "../news/sentiment-gate.js
 import { checkCorrelation } from "../strategy/correlation.js";
 import { loadAccount } from "../paper/account.js";
 import { ping } from "../health/heartbeat.js";
-import { loadRuntimeConfigs } from "../config/loader.js";
+import { assertValidConfig, loadRuntimeConfigs } from "../config/loader.js";
+import { ConfigHotReloader } from "../config/hot-reload.js";
 import { createLogger } from "../logger.js";
 import type { RuntimeConfig, Signal, Indicators, Kline } from "../types.js";
 
@@ -103,6 +110,56 @@ async function preloadKlines(
   return buffer;
 }
 
+/** Incremental indicator state per scenario + symbol (key: `${scenarioId}:${symbol}`) */
+type IndicatorStreams = Map<string, IncrementalIndicators>;
+
+function streamKey(cfg: RuntimeConfig, symbol: string): string {
+  return `${cfg.paper.scenarioId}:${symbol}`;
+}
+
+function createIndicatorStream(cfg: RuntimeConfig, klines: Kline[]): IncrementalIndicators {
+  const stream = new IncrementalIndicators({
+    maShort: cfg.strategy.ma.short,
+    maLong: cfg.strategy.ma.long,
+    rsiPeriod: cfg.strategy.rsi.period,
+    macd: cfg.strategy.macd,
+  });
+  stream.seed(klines);
+  return stream;
+}
+
+/** Seed one indicator stream per scenario + symbol from the preloaded klines */
+function createIndicatorStreams(runtimes: RuntimeConfig[], buffer: KlineBuffer): IndicatorStreams {
+  const streams: IndicatorStreams = new Map();
+  for (const cfg of runtimes) {
+    for (const symbol of cfg.symbols) {
+      streams.set(streamKey(cfg, symbol), createIndicatorStream(cfg, buffer.get(symbol) ?? []));
+    }
+  }
+  return streams;
+}
+
+/** Buffer length covering the longest warm-up of any scenario */
+function bufferLimit(runtimes: RuntimeConfig[]): number {
+  return Math.max(
+    ...runtimes.map((r) => {
+      const macdMin = r.strategy.macd.enabled ? r.strategy.macd.slow + r.strategy.macd.signal + 1 : 0;
+      return Math.max(r.strategy.ma.long, r.strategy.rsi.period, macdMin, signalWarmupBars(r)) + 20;
+    })
+  );
+}
+
+/** Symbols to stream: every scenario's symbols plus open positions (exits need prices after a symbol is dropped) */
+function watchedSymbols(runtimes: RuntimeConfig[]): string[] {
+  const symbols = new Set(runtimes.flatMap((r) => r.symbols));
+  for (const cfg of runtimes) {
+    for (const symbol of Object.keys(loadAccount(cfg.paper.initial_usdt, cfg.paper.scenarioId).positions)) {
+      symbols.add(symbol);
+    }
+  }
+  return [...symbols];
+}
+
 /** Append a new closed kline to the buffer, maintaining a fixed length */
 function appendKline(buffer: KlineBuffer, symbol: string, kline: Kline, maxLen: number): void {
   const existing = buffer.get(symbol) ?? [];
@@ -123,19 +180,14 @@ function appendKline(buffer: KlineBuffer, symbol: string, kline: Kline, maxLen:
 async function runStrategy(
   symbol: string,
   klines: Kline[],
+  indicators: Indicators,
   cfg: RuntimeConfig,
   state: MonitorState,
   currentPrices: Record<string, number>,
   buffer: KlineBuffer
 ): Promise<void> {
-  const indicators = calculateIndicators(
-    klines,
-    cfg.strategy.ma.short,
-    cfg.strategy.ma.long,
-    cfg.strategy.rsi.period,
-    cfg.strategy.macd
-  );
-  if (!indicators) return;
+  // Extended indicators are not streamed: compute them from the buffer only when a condition uses them
+  if (usesExtendedIndicators(cfg)) addExtendedIndicators(indicators, klines, cfg.strategy.indicators);
 
   currentPrices[symbol] = indicators.price;
 
@@ -167,7 +219,7 @@ async function runStrategy(
   // side is optional for backward compatibility: default to "long" when position exists but side is undefined
   const _wsPos = currentAccount.positions[symbol];
   const currentPosSide: "long" | "short" | undefined = _wsPos ? (_wsPos.side ?? "long") : undefined;
-  const signal = detectSignal(symbol, indicators, cfg, currentPosSide);
+  const signal = detectSignal(symbol, indicators, cfg, currentPosSide, { klines });
 
   // MTF filter
   if (signal.type === "buy" && mtfTrendBull === false) {
@@ -343,7 +395,8 @@ async function checkExits(
 async function main(): Promise<void> {
   log.info("─── WebSocket Monitor Started ───");
 
-  const runtimes = loadRuntimeConfigs();
+  assertValidConfig();
+  let runtimes = loadRuntimeConfigs();
   const firstRuntime = runtimes[0];
   if (!firstRuntime) { log.error("No available strategy config"); return; }
   if (!firstRuntime.strategy.enabled) {
@@ -352,22 +405,18 @@ async function main(): Promise<void> {
   }
 
   // Union (deduplicated) of all scenario symbols + same timeframe
-  const allSymbols = [...new Set(runtimes.flatMap((r) => r.symbols))];
+  const allSymbols = watchedSymbols(runtimes);
   const timeframe = firstRuntime.timeframe;
 
   // Calculate the maximum number of klines needed
-  const maxLimit = Math.max(
-    ...runtimes.map((r) => {
-      const macdMin = r.strategy.macd.enabled ? r.strategy.macd.slow + r.strategy.macd.signal + 1 : 0;
-      return Math.max(r.strategy.ma.long, r.strategy.rsi.period, macdMin) + 20;
-    })
-  );
+  let maxLimit = bufferLimit(runtimes);
 
   log.info(`Scenarios: ${runtimes.map((r) => r.paper.scenarioId).join(", ")}`);
   log.info(`Watching symbols: ${allSymbols.join(", ")} | Timeframe: ${timeframe} | Buffer: ${maxLimit} bars`);
 
   // Preload historical klines (REST)
   const buffer = await preloadKlines(allSymbols, timeframe, maxLimit);
+  const streams = createIndicatorStreams(runtimes, buffer);
 
   // Current price summary (for stop-loss/take-profit polling)
   const currentPrices: Record<string, number> = {};
@@ -389,16 +438,26 @@ async function main(): Promise<void> {
     log.info(`Kline closed: ${symbol} close=${kline.close.toFixed(4)}`);
     appendKline(buffer, symbol, kline, maxLimit);
 
+    // Advance every scenario's indicator stream first (also while paused / warming up)
+    // so each stream sees every closed kline
+    const indicatorsByScenario = new Map<string, Indicators | null>();
+    for (const cfg of runtimes) {
+      if (!cfg.symbols.includes(symbol)) continue;
+      const stream = streams.get(streamKey(cfg, symbol));
+      indicatorsByScenario.set(cfg.paper.scenarioId, stream?.update(kline, true) ?? null);
+    }
+
     const klines = buffer.get(symbol);
     if (!klines || klines.length < maxLimit / 2) return;
 
     // Run strategy for all scenarios
     for (const cfg of runtimes) {
       if (!cfg.symbols.includes(symbol)) continue;
+      const indicators = indicatorsByScenario.get(cfg.paper.scenarioId);
       const state = loadState(cfg.paper.scenarioId);
-      if (state.paused) continue;
+      if (state.paused || !indicators) continue;
       try {
-        await runStrategy(symbol, klines, cfg, state, currentPrices, buffer);
+        await runStrategy(symbol, klines, indicators, cfg, state, currentPrices, buffer);
         saveState(cfg.paper.scenarioId, state);
       } catch (err: unknown) {
         const error = err instanceof Error ? err : new Error(String(err));
@@ -410,6 +469,53 @@ async function main(): Promise<void> {
 
   wsManager.start();
 
+  // ── Config Hot-reload ─────────────────────────────────────────
+  // Everything the new runtimes need is prepared first; the swap itself is synchronous,
+  // so a kline event sees either the old or the new config, never a mix
+  const reloader = new ConfigHotReloader(runtimes, {
+    name: "ws-monitor",
+    load: loadRuntimeConfigs,
+    log,
+    apply: async (next) => {
+      const limit = bufferLimit(next);
+      const symbols = watchedSymbols(next);
+      // New symbols need history; a longer warm-up (new signal conditions) refetches all of it
+      const loaded = await preloadKlines(
+        limit > maxLimit ? symbols : symbols.filter((s) => !buffer.has(s)),
+        timeframe,
+        limit
+      );
+      const history = (symbol: string): Kline[] => loaded.get(symbol) ?? buffer.get(symbol) ?? [];
+
+      // Streams depend only on indicator periods (restart-only), so existing ones carry over
+      const nextStreams: IndicatorStreams = new Map();
+      for (const cfg of next) {
+        for (const symbol of cfg.symbols) {
+          const key = streamKey(cfg, symbol);
+          nextStreams.set(key, streams.get(key) ?? createIndicatorStream(cfg, history(symbol)));
+        }
+      }
+
+      for (const [symbol, klines] of loaded) {
+        buffer.set(symbol, klines);
+        const last = klines.at(-1);
+        if (last && currentPrices[symbol] === undefined) currentPrices[symbol] = last.close;
+      }
+      for (const symbol of [...buffer.keys()]) {
+        if (symbols.includes(symbol)) continue;
+        buffer.delete(symbol);
+        // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+        delete currentPrices[symbol];
+      }
+      streams.clear();
+      for (const [key, stream] of nextStreams) streams.set(key, stream);
+      maxLimit = limit;
+      runtimes = next;
+      wsManager.updateSymbols(symbols);
+    },
+  });
+  reloader.watch();
+
   // ── Stop-loss/Take-profit Polling (every 60s) ────────────────────────────
   const EXIT_POLL_MS = 60 * 1000;
   setInterval(() => {
@@ -422,6 +528,7 @@ async function main(): Promise<void> {
   // ── Graceful Shutdown ─────────────────────────────────────────
   function shutdown(signal: string): void {
     log.info(`Received ${signal}, shutting down...`);
+    reloader.close();
     wsManager.stop();
     process.exit(0);
   }
@@ -25,7 +25,8 @@ const defaultStrategy: Strategy = {
       "plugin_call",
       ctx.indicators,
       ctx.cfg,
-      ctx.currentPosSide
+      ctx.currentPosSide,
+      { klines: ctx.klines, extra: ctx.extra }
     );
     return signal.type;
   },
@@ -30,6 +30,13 @@ const ensembleStrategy: Strategy = {
   description:
     "Merges signals from multiple strategies via weighted voting. Supports threshold (minimum confidence) and unanimous (all-agree) modes.",
 
+  paramSpace: [
+    { path: "ensemble.strategies[*].weight", type: "float", min: 0,   max: 1 },
+    { path: "ensemble.threshold",            type: "float", min: 0.3, max: 0.9 },
+    { path: "risk.stop_loss_percent",        type: "float", min: 2,   max: 10 },
+    { path: "risk.take_profit_percent",      type: "float", min: 5,   max: 30 },
+  ],
+
   populateSignal(ctx: StrategyContext): SignalType {
     // Read ensemble config from configuration
     const ensembleCfg = (ctx.cfg as { ensemble?: EnsembleConfig }).ensemble;
@@ -0,0 +1,292 @@
+/**
+ * Grid Trading Strategy Plugin
+ *
+ * Strategy id = "grid"
+ * Lays out N price levels around a reference (center) price and trades a fixed slice per level:
+ *   - Price crosses down through an empty level -> buy one slice (adjustPosition > 0)
+ *   - Price reaches the level above a filled one -> sell that slice (adjustPosition < 0)
+ *   - Flat (no slices held) -> populateSignal returns "buy" to open the first slice
+ *
+ * The grid layout and per-level fill state live in the StateStore (key "grid"), so paper / live
+ * restarts resume the same grid; backtests use an in-memory store. Slice size = cost of the first
+ * grid entry (sized by risk.position_ratio), kept fixed until the grid is rebuilt.
+ *
+ * Level changes are recorded only once the engine has filled them: adjustPosition keeps the levels
+ * it traded as pending and settles them on the next call against the real position quantity;
+ * levels the fill did not cover (rejected / partial orders) are rolled back.
+ *
+ * Re-centering: when price stays outside [lowest level, highest level] for recenter_after_minutes,
+ * the grid is rebuilt around the current price; held slices move to the slots from the new center
+ * upward, so each one sells a level higher than the last. Time is taken from the last kline, so backtests re-center exactly like live runs.
+ *
+ * Configuration (config/strategies/grid.yaml):
+ *   strategy_id: "grid"
+ *   grid:
+ *     levels: 7
+ *     spacing_percent: 1
+ *     recenter_after_minutes: 240
+ *
+ * Long only: adjustPosition leaves short positions untouched.
+ */
+
+import type { Strategy, StrategyContext } from "./types.js";
+import type { GridConfig, SignalType } from "../types.js";
+import type { StateStore } from "./state-store.js";
+import { registerStrategy } from "./registry.js";
+
+const DEFAULT_RECENTER_MINUTES = 240;
+const STATE_KEY = "grid";
+
+// ─────────────────────────────────────────────────────
+// Grid State
+// ─────────────────────────────────────────────────────
+
+export interface GridState {
+  center: number;
+  /** Level prices, ascending */
+  levels: number[];
+  /** USDT per slice (0 until the first entry is registered) */
+  slice: number;
+  /** BASE quantity held per buy level; holdings[i] is sold at levels[i + 1] */
+  holdings: number[];
+  /** Price seen on the previous call (crossing detection) */
+  lastPrice: number;
+  /** Time price left the range (null = inside the range) */
+  outOfRangeSince: number | null;
+  /** Level trades requested by the last adjustPosition call, not yet confirmed by a fill */
+  pending?: GridPending;
+}
+
+export interface GridPending {
+  /** Position quantity when the trades were requested */
+  quantityBefore: number;
+  /** BASE quantity to add per buy level (0 = none) */
+  buys: number[];
+  /** BASE quantity to sell per slot (0 = none) */
+  sells: number[];
+}
+
+/**
+ * Geometric levels around center: center × (1 + spacing)^(i − (N − 1) / 2), i = 0..N−1
+ * Odd N puts a level exactly on the center.
+ */
+export function buildGridLevels(center: number, grid: GridConfig): number[] {
+  if (!Number.isInteger(grid.levels) || grid.levels < 2) {
+    throw new Error(`grid.levels must be an integer >= 2, got ${grid.levels}`);
+  }
+  if (!(grid.spacing_percent > 0)) {
+    throw new Error(`grid.spacing_percent must be > 0, got ${grid.spacing_percent}`);
+  }
+  const step = 1 + grid.spacing_percent / 100;
+  const mid = (grid.levels - 1) / 2;
+  return Array.from({ length: grid.levels }, (_, i) => center * step ** (i - mid));
+}
+
+function newGrid(center: number, grid: GridConfig, slice: number): GridState {
+  const levels = buildGridLevels(center, grid);
+  return {
+    center,
+    levels,
+    slice,
+    holdings: new Array<number>(levels.length - 1).fill(0),
+    lastPrice: center,
+    outOfRangeSince: null,
+  };
+}
+
+// ─────────────────────────────────────────────────────
+// Internal helpers
+// ─────────────────────────────────────────────────────
+
+function gridConfig(ctx: StrategyContext): GridConfig | undefined {
+  return ctx.cfg.grid;
+}
+
+function loadGrid(store: StateStore | undefined): GridState | null {
+  return store?.get<GridState | null>(STATE_KEY, null) ?? null;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((s, q) => s + q, 0);
+}
+
+function totalHeld(state: GridState): number {
+  return sum(state.holdings);
+}
+
+/**
+ * Apply the pending level trades that the position quantity confirms (0 when flat).
+ * The engine trades the net amount, so the smaller side is matched internally and only the
+ * dominant side depends on the fill. Buys fill from the highest crossed level down, sells from
+ * the lowest slot up; whatever the fill does not cover is rolled back.
+ */
+function settlePending(state: GridState, quantity: number): void {
+  const { pending } = state;
+  if (!pending) return;
+  delete state.pending;
+  const bought = sum(pending.buys);
+  const sold = sum(pending.sells);
+  const delta = quantity - pending.quantityBefore;
+  let buyFilled = bought > sold ? Math.min(Math.max(sold + delta, 0), bought) : bought;
+  let sellFilled = sold > bought ? Math.min(Math.max(bought - delta, 0), sold) : sold;
+  for (let i = pending.buys.length - 1; i >= 0; i--) {
+    const qty = Math.min(pending.buys[i] ?? 0, buyFilled);
+    state.holdings[i] = (state.holdings[i] ?? 0) + qty;
+    buyFilled -= qty;
+  }
+  pending.sells.forEach((want, i) => {
+    const qty = Math.min(want, sellFilled);
+    state.holdings[i] = Math.max((state.holdings[i] ?? 0) - qty, 0);
+    sellFilled -= qty;
+  });
+}
+
+/** Highest buy level at or below price (0 if price is below the grid) */
+function levelAtOrBelow(state: GridState, price: number): number {
+  let idx = 0;
+  for (let i = 0; i < state.holdings.length; i++) {
+    if ((state.levels[i] ?? Infinity) <= price * (1 + 1e-9)) idx = i;
+  }
+  return idx;
+}
+
+function nowOf(ctx: StrategyContext): number {
+  return ctx.klines.at(-1)?.closeTime ?? Date.now();
+}
+
+/**
+ * Track time outside the range; rebuild the grid around price once it has been out for
+ * recenter_after_minutes. Held slices are moved to the slots from the new center upward
+ * (their sell levels all sit above price; excess slices share the top slot).
+ * Returns the (possibly rebuilt) state and whether it was re-centered.
+ */
+function trackRange(
+  state: GridState,
+  price: number,
+  now: number,
+  grid: GridConfig
+): { state: GridState; recentered: boolean } {
+  const low = state.levels[0] ?? price;
+  const high = state.levels.at(-1) ?? price;
+  if (price >= low && price <= high) {
+    state.outOfRangeSince = null;
+    return { state, recentered: false };
+  }
+  state.outOfRangeSince ??= now;
+  const recenterMs = (grid.recenter_after_minutes ?? DEFAULT_RECENTER_MINUTES) * 60_000;
+  if (now - state.outOfRangeSince < recenterMs) return { state, recentered: false };
+
+  const rebuilt = newGrid(price, grid, state.slice);
+  const held = state.holdings.filter((q) => q > 0);
+  const top = rebuilt.holdings.length - 1;
+  let slot = levelAtOrBelow(rebuilt, price);
+  for (const qty of held) {
+    const target = Math.min(slot, top);
+    rebuilt.holdings[target] = (rebuilt.holdings[target] ?? 0) + qty;
+    slot++;
+  }
+  return { state: rebuilt, recentered: true };
+}
+
+// ─────────────────────────────────────────────────────
+// Strategy
+// ─────────────────────────────────────────────────────
+
+const gridStrategy: Strategy = {
+  id: "grid",
+  name: "Grid Trading",
+  description:
+    "Buys a fixed slice at each grid level crossed downward and sells it one level higher." +
+    " Re-centers the grid after price stays outside the range for recenter_after_minutes.",
+  adjustEveryCycle: true,
+  paramSpace: [
+    { path: "grid.levels",                 type: "int",   min: 3,   max: 15 },
+    { path: "grid.spacing_percent",        type: "float", min: 0.3, max: 3 },
+    { path: "grid.recenter_after_minutes", type: "int",   min: 60,  max: 1440, step: 60 },
+    { path: "risk.position_ratio",         type: "float", min: 0.05, max: 0.2 },
+  ],
+
+  populateSignal(ctx: StrategyContext): SignalType {
+    const grid = gridConfig(ctx);
+    if (!grid) {
+      console.warn("[grid] grid not configured, returning none");
+      return "none";
+    }
+    // Holding: the grid trades through adjustPosition
+    if (ctx.currentPosSide !== undefined) return "none";
+
+    const { stateStore } = ctx;
+    const state = loadGrid(stateStore);
+    // Flat: the last level trades either closed the position or were matched by the close
+    if (state) settlePending(state, 0);
+    // No grid yet, or slices still recorded while flat (closed by stop loss / manually) -> start over
+    if (!state || totalHeld(state) > 0) {
+      stateStore?.delete(STATE_KEY);
+      return "buy";
+    }
+
+    // Sold out: wait for price to cross back down through a level, or re-center
+    const price = ctx.indicators.price;
+    const { state: next, recentered } = trackRange(state, price, nowOf(ctx), grid);
+    if (recentered) {
+      stateStore?.delete(STATE_KEY);
+      return "buy";
+    }
+    const crossed = next.holdings.some((_, i) => {
+      const level = next.levels[i] ?? 0;
+      return price <= level && next.lastPrice > level;
+    });
+    next.lastPrice = price;
+    stateStore?.set(STATE_KEY, next);
+    return crossed ? "buy" : "none";
+  },
+
+  adjustPosition(position, ctx): number | null {
+    const grid = gridConfig(ctx);
+    const { stateStore } = ctx;
+    if (!grid || !stateStore || position.side !== "long" || position.quantity <= 0) return null;
+
+    const price = position.currentPrice;
+    let state = loadGrid(stateStore) ?? newGrid(position.entryPrice, grid, 0);
+    if (state.slice <= 0) state.slice = position.costBasis;
+
+    // Confirm last call's level trades against the real position, then register the opening slice
+    settlePending(state, position.quantity);
+    if (totalHeld(state) <= 0) {
+      state.holdings[levelAtOrBelow(state, position.entryPrice)] = position.quantity;
+    }
+
+    const tracked = trackRange(state, price, nowOf(ctx), grid);
+    state = tracked.state;
+    // Crossings are measured from the previous price; a fresh layout starts from here
+    const lastPrice = tracked.recentered ? price : state.lastPrice;
+
+    const buys = state.holdings.map(() => 0);
+    const sells = state.holdings.map(() => 0);
+    state.holdings.forEach((qty, i) => {
+      const level = state.levels[i] ?? 0;
+      const above = state.levels[i + 1] ?? Infinity;
+      if (qty > 0 && price >= above) {
+        sells[i] = qty;
+      } else if (qty <= 0 && price <= level && lastPrice > level) {
+        buys[i] = state.slice / price;
+      }
+    });
+    const buySlices = buys.filter((q) => q > 0).length;
+    const sellQty = sum(sells);
+    state.lastPrice = price;
+    if (buySlices > 0 || sellQty > 0) state.pending = { quantityBefore: position.quantity, buys, sells };
+    stateStore.set(STATE_KEY, state);
+
+    // Every slice sold -> close the whole position (no dust left behind)
+    const soldOut = buySlices === 0 && state.holdings.every((q, i) => q <= 0 || (sells[i] ?? 0) > 0);
+    if (soldOut) return -(position.quantity * price);
+    const net = buySlices * state.slice - sellQty * price;
+    return net === 0 ? null : net;
+  },
+};
+
+// Auto-register (triggered on import)
+registerStrategy(gridStrategy);
+
+export { gridStrategy };
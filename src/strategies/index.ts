@@ -10,7 +10,17 @@ import "./default.js";
 import "./rsi-reversal.js";
 import "./breakout.js";
 import "./ensemble-strategy.js";
+import "./grid.js";
+import "./pairs.js";
 
 // Re-export public API
 export { registerStrategy, getStrategy, listStrategies, listStrategyDetails } from "./registry.js";
-export type { Strategy, StrategyContext, ExtraIndicators, ExitResult } from "./types.js";
+export type {
+  Strategy,
+  StrategyContext,
+  ExtraIndicators,
+  ExitResult,
+  MultiSymbolContext,
+  MultiLeg,
+  MultiLegSignal,
+} from "./types.js";
@@ -0,0 +1,112 @@
+/**
+ * Pairs / Statistical Arbitrage Strategy Plugin
+ *
+ * Strategy id = "pairs"
+ * Market-neutral trading of the spread between two symbols A and B (strategy/pairs.ts):
+ *   - z >= entry_z  -> spread rich: short A / long B
+ *   - z <= -entry_z -> spread cheap: long A / short B
+ *   - |z| <= exit_z (reverted) or |z| >= stop_z (kept diverging) -> flatten both legs
+ * Leg notionals follow the hedge ratio (A : B = 1 : |β|). Entries also require the legs' return
+ * correlation to be at least min_correlation.
+ *
+ * The pair trades through populateMultiSignal(); the paper engine, live executor and backtest runner
+ * open and close both legs as one unit. populateSignal() returns "none" (no per-symbol trades).
+ * A leg held without its partner (e.g. closed manually) is flattened on the next cycle.
+ *
+ * Configuration (config/strategies/pairs.yaml):
+ *   strategy_id: "pairs"
+ *   pairs:
+ *     legs: ["ETHUSDT", "BTCUSDT"]
+ *     lookback: 60
+ *     entry_z: 2
+ *     exit_z: 0.5
+ *     stop_z: 4
+ */
+
+import type { MultiLegSignal, MultiSymbolContext, Strategy } from "./types.js";
+import type { SignalType } from "../types.js";
+import { calcSpreadStats, DEFAULT_PAIRS_LOOKBACK } from "../strategy/pairs.js";
+import { registerStrategy } from "./registry.js";
+
+const DEFAULT_ENTRY_Z = 2;
+const DEFAULT_EXIT_Z = 0.5;
+const DEFAULT_MIN_CORRELATION = 0.5;
+
+const pairsStrategy: Strategy = {
+  id: "pairs",
+  name: "Pairs Trading (Stat-Arb)",
+  description:
+    "Market-neutral spread trading between two symbols: long one / short the other when the spread z-score" +
+    " leaves ±entry_z (hedge-ratio weighted), flatten both legs together once it reverts inside ±exit_z.",
+
+  paramSpace: [
+    { path: "pairs.lookback",        type: "int",   min: 30,  max: 240, step: 10 },
+    { path: "pairs.entry_z",         type: "float", min: 1.5, max: 3 },
+    { path: "pairs.exit_z",          type: "float", min: 0,   max: 1 },
+    { path: "pairs.min_correlation", type: "float", min: 0.3, max: 0.9 },
+  ],
+
+  populateSignal(): SignalType {
+    // Both legs trade together through populateMultiSignal
+    return "none";
+  },
+
+  populateMultiSignal(ctx: MultiSymbolContext): MultiLegSignal | null {
+    const pairs = ctx.cfg.pairs;
+    if (!pairs) {
+      console.warn("[pairs] pairs not configured, returning none");
+      return null;
+    }
+    const [a, b] = pairs.legs;
+    const sideA = ctx.positions[a];
+    const sideB = ctx.positions[b];
+
+    // One leg without its partner: flatten it
+    if ((sideA === undefined) !== (sideB === undefined)) {
+      return { action: "close", symbols: [a, b], reason: "pairs: unmatched leg" };
+    }
+
+    const stats = calcSpreadStats(
+      ctx.klinesBySymbol[a] ?? [],
+      ctx.klinesBySymbol[b] ?? [],
+      pairs.lookback ?? DEFAULT_PAIRS_LOOKBACK
+    );
+    if (!stats) return null;
+    const z = stats.zScore;
+    const zLabel = `z=${z.toFixed(2)} β=${stats.hedgeRatio.toFixed(3)}`;
+
+    if (sideA !== undefined) {
+      if (Math.abs(z) <= (pairs.exit_z ?? DEFAULT_EXIT_Z)) {
+        return { action: "close", symbols: [a, b], reason: `pairs: spread reverted (${zLabel})` };
+      }
+      if (pairs.stop_z !== undefined && Math.abs(z) >= pairs.stop_z) {
+        return { action: "close", symbols: [a, b], reason: `pairs: spread stop (${zLabel})` };
+      }
+      return null;
+    }
+
+    const entryZ = pairs.entry_z ?? DEFAULT_ENTRY_Z;
+    if (Math.abs(z) < entryZ) return null;
+    // Beyond the stop band: don't re-enter the spread that was just stopped out
+    if (pairs.stop_z !== undefined && Math.abs(z) >= pairs.stop_z) return null;
+    if (!(stats.correlation >= (pairs.min_correlation ?? DEFAULT_MIN_CORRELATION))) return null;
+
+    // Notional A : B = 1 : |β|
+    const beta = Math.abs(stats.hedgeRatio);
+    const weightA = 1 / (1 + beta);
+    const richA = z > 0;
+    return {
+      action: "open",
+      legs: [
+        { symbol: a, side: richA ? "short" : "long", weight: weightA },
+        { symbol: b, side: richA ? "long" : "short", weight: 1 - weightA },
+      ],
+      reason: `pairs: ${richA ? `short ${a} / long ${b}` : `long ${a} / short ${b}`} (${zLabel})`,
+    };
+  },
+};
+
+// Auto-register (triggered on import)
+registerStrategy(pairsStrategy);
+
+export { pairsStrategy };
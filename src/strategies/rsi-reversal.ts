@@ -29,6 +29,14 @@ const rsiReversalStrategy: Strategy = {
     "RSI < oversold -> buy (oversold bottom fishing); RSI > overbought -> sell (overbought exit). Suitable for ranging/sideways markets." +
     " Pauses opening positions after >= 3 consecutive losses (risk reduction).",
 
+  paramSpace: [
+    { path: "strategy.rsi.period",        type: "int",   min: 7,  max: 21 },
+    { path: "strategy.rsi.oversold",      type: "float", min: 20, max: 40 },
+    { path: "strategy.rsi.overbought",    type: "float", min: 60, max: 80 },
+    { path: "risk.stop_loss_percent",     type: "float", min: 2,  max: 10 },
+    { path: "risk.take_profit_percent",   type: "float", min: 5,  max: 30 },
+  ],
+
   populateSignal(ctx: StrategyContext): SignalType {
     const { indicators, cfg, stateStore } = ctx;
 
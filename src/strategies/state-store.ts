@@ -123,3 +123,38 @@ export function createStateStore(
     },
   };
 }
+
+/**
+ * Scenario-scoped state store: {logsDir}/strategy-state/{strategyId}/{scenarioId}/{symbol}.json
+ * Paper scenarios and live trading running the same plugin on the same symbol keep separate state.
+ */
+export function createScenarioStateStore(
+  strategyId: string,
+  scenarioId: string,
+  symbol: string,
+  logsDir = "logs"
+): StateStore {
+  return createStateStore(path.join(strategyId, scenarioId), symbol, logsDir);
+}
+
+/**
+ * In-memory state store (nothing written to disk).
+ * Used by backtests, where every run must start from empty plugin state.
+ */
+export function createMemoryStateStore(): StateStore {
+  const state: Record<string, unknown> = {};
+  return {
+    get<T>(key: string, defaultValue: T): T {
+      return Object.prototype.hasOwnProperty.call(state, key) ? (state[key] as T) : defaultValue;
+    },
+    set(key: string, value: unknown): void {
+      state[key] = value;
+    },
+    delete(key: string): void {
+      Reflect.deleteProperty(state, key);
+    },
+    snapshot(): Record<string, unknown> {
+      return { ...state };
+    },
+  };
+}
@@ -6,7 +6,7 @@
  *   - strategy_id: "rsi-reversal" | "breakout" | custom -> uses plugin logic
  */
 
-import type { Kline, StrategyConfig, SignalType } from "../types.js";
+import type { Kline, StrategyConfig, SignalType, HyperoptParamSpec } from "../types.js";
 import type { Indicators } from "../types.js";
 import type { StateStore } from "./state-store.js";
 
@@ -32,6 +32,38 @@ export interface StrategyContext {
   stateStore?: StateStore;
 }
 
+// ─────────────────────────────────────────────────────
+// Multi-Symbol Context / Signal (strategies trading several symbols as one unit, e.g. pairs)
+// ─────────────────────────────────────────────────────
+
+export interface MultiSymbolContext {
+  /** Recent klines per symbol (cfg.symbols, same timeframe) */
+  klinesBySymbol: Record<string, Kline[]>;
+  cfg: StrategyConfig;
+  /** Held position side per symbol (absent = flat) */
+  positions: Record<string, "long" | "short">;
+}
+
+/** One leg of a multi-leg entry */
+export interface MultiLeg {
+  symbol: string;
+  side: "long" | "short";
+  /**
+   * Share of the combined notional (legs sum to 1). Combined notional = legs × risk.position_ratio
+   * × equity, so each leg averages one position_ratio slot.
+   */
+  weight: number;
+}
+
+/**
+ * Multi-leg signal: every leg is opened, or all of them closed, as one unit by the paper engine,
+ * live executor and backtest runner. Legs share a pairId on their positions, are exempt from per-position
+ * stop loss / take profit and are only closed together.
+ */
+export type MultiLegSignal =
+  | { action: "open"; legs: MultiLeg[]; reason: string }
+  | { action: "close"; symbols: string[]; reason: string };
+
 // ─────────────────────────────────────────────────────
 // Trade Result (trade close result, for onTradeClosed callback)
 // ─────────────────────────────────────────────────────
@@ -65,9 +97,16 @@ export interface Strategy {
   readonly name: string;
   readonly description?: string;
 
+  /**
+   * Optional: Hyperopt search space over the config fields this plugin reads
+   * (used when the profile / strategy.yaml declares no hyperopt_space).
+   */
+  readonly paramSpace?: HyperoptParamSpec[];
+
   /**
    * Optional: Compute additional indicators beyond built-in MA/RSI/MACD.
-   * Return values are merged into indicators (does not overwrite existing fields).
+   * Called before populateSignal(); return values are passed as ctx.extra and can be used
+   * in YAML signal expressions as extra.<name>.
    */
   populateIndicators?(ctx: StrategyContext): ExtraIndicators;
 
@@ -77,6 +116,13 @@ export interface Strategy {
    */
   populateSignal(ctx: StrategyContext): SignalType;
 
+  /**
+   * Optional: Multi-symbol signal, called once per cycle with every symbol's klines.
+   * Strategies implementing it (e.g. pairs) trade their symbols as one unit through
+   * MultiLegSignal and return "none" from populateSignal. Return null for no action.
+   */
+  populateMultiSignal?(ctx: MultiSymbolContext): MultiLegSignal | null;
+
   /**
    * Optional: Custom exit logic.
    * Return null to use default stop-loss/take-profit logic.
@@ -122,6 +168,13 @@ export interface Strategy {
     ctx: StrategyContext
   ): number | null;
 
+  /**
+   * Optional: Opt in to adjustPosition on every cycle for held longs (paper / live monitors and
+   * backtests), not only inside DCA tranche checks (risk.dca). Level-trading strategies such as
+   * grid set this; without it adjustPosition runs only where DCA is enabled.
+   */
+  readonly adjustEveryCycle?: boolean;
+
   /**
    * Optional: Custom dynamic stoploss logic (ref: Freqtrade custom_stoploss).
    * Return new stoploss price, return null to use default stoploss logic (including break_even_stop).
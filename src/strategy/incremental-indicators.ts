@@ -0,0 +1,419 @@
+/**
+ * Incremental (Streaming) Indicators
+ *
+ * calculateIndicators() recomputes everything from the full kline array. For long-running
+ * stream consumers (ws-monitor) that is O(history) per candle per symbol; these stateful
+ * indicators update in O(1) per candle instead and produce the same values as the batch
+ * functions in indicators.ts over the same history (enforced by incremental-indicators.test.ts):
+ *
+ *   IncrementalEma   ↔ ema()              IncrementalRsi  ↔ rsi()
+ *   IncrementalMacd  ↔ macd()             IncrementalAtr  ↔ atr()
+ *   IncrementalVwap  ↔ calcVwap()         IncrementalIndicators ↔ calculateIndicators() (base fields)
+ *
+ * In-progress candles: IncrementalIndicators.update(kline, false) previews the values as if the
+ * candle closed now, without committing it. A closed update for the last committed openTime
+ * (e.g. the REST preload ended on a still-open candle) replaces that candle instead of appending.
+ */
+
+import type { Indicators, Kline, MacdResult } from "../types.js";
+
+/** Volume average / CVD window (same as calculateIndicators) */
+const VOLUME_PERIOD = 20;
+const CVD_LOOKBACK = 20;
+/** ATR period used by calculateIndicators */
+const ATR_PERIOD = 14;
+const DAY_MS = 86_400_000;
+
+// ─────────────────────────────────────────────────────
+// Building Blocks
+// ─────────────────────────────────────────────────────
+
+/** EMA seeded with the SMA of the first `period` values (same as ema()) */
+export class IncrementalEma {
+  private count = 0;
+  private seedSum = 0;
+  private current = NaN;
+  private readonly k: number;
+
+  constructor(readonly period: number) {
+    this.k = 2 / (period + 1);
+  }
+
+  /** Add a value; returns the EMA (NaN until `period` values) */
+  update(value: number): number {
+    this.count++;
+    if (this.count < this.period) {
+      this.seedSum += value;
+    } else if (this.count === this.period) {
+      this.seedSum += value;
+      this.current = this.seedSum / this.period;
+    } else {
+      this.current = value * this.k + this.current * (1 - this.k);
+    }
+    return this.current;
+  }
+
+  get value(): number {
+    return this.current;
+  }
+
+  clone(): IncrementalEma {
+    return Object.assign(new IncrementalEma(this.period), this);
+  }
+}
+
+/** Wilder RSI (same as rsi()) */
+export class IncrementalRsi {
+  private changes = 0;
+  private prevClose = NaN;
+  private avgGain = 0;
+  private avgLoss = 0;
+
+  constructor(readonly period = 14) {}
+
+  /** Add a close; returns the RSI (NaN until period + 1 closes) */
+  update(close: number): number {
+    if (Number.isNaN(this.prevClose)) {
+      this.prevClose = close;
+      return NaN;
+    }
+    const change = close - this.prevClose;
+    this.prevClose = close;
+    this.changes++;
+    if (this.changes <= this.period) {
+      // Seed: plain sums, divided once the first `period` changes are in
+      if (change > 0) this.avgGain += change;
+      else this.avgLoss -= change;
+      if (this.changes === this.period) {
+        this.avgGain /= this.period;
+        this.avgLoss /= this.period;
+      }
+    } else {
+      const gain = change > 0 ? change : 0;
+      const loss = change < 0 ? -change : 0;
+      this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period;
+      this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period;
+    }
+    return this.value;
+  }
+
+  get value(): number {
+    if (this.changes < this.period) return NaN;
+    if (this.avgLoss === 0) return 100;
+    return 100 - 100 / (1 + this.avgGain / this.avgLoss);
+  }
+
+  clone(): IncrementalRsi {
+    return Object.assign(new IncrementalRsi(this.period), this);
+  }
+}
+
+/** Wilder ATR (same as atr()) */
+export class IncrementalAtr {
+  private ranges = 0;
+  private prevClose = NaN;
+  private seedRanges: number[] = [];
+  private current = NaN;
+
+  constructor(readonly period = 14) {}
+
+  /** Add a kline; returns the ATR (NaN until period + 1 klines) */
+  update(kline: Kline): number {
+    if (Number.isNaN(this.prevClose)) {
+      this.prevClose = kline.close;
+      return NaN;
+    }
+    const tr = Math.max(
+      kline.high - kline.low,
+      Math.abs(kline.high - this.prevClose),
+      Math.abs(kline.low - this.prevClose)
+    );
+    this.prevClose = kline.close;
+    this.ranges++;
+    if (this.ranges <= this.period) {
+      this.seedRanges.push(tr);
+      if (this.ranges === this.period) {
+        this.current = this.seedRanges.reduce((s, v) => s + v, 0) / this.period;
+        this.seedRanges = [];
+      }
+    } else {
+      this.current = (this.current * (this.period - 1) + tr) / this.period;
+    }
+    return this.current;
+  }
+
+  get value(): number {
+    return this.current;
+  }
+
+  clone(): IncrementalAtr {
+    const copy = Object.assign(new IncrementalAtr(this.period), this);
+    copy.seedRanges = [...this.seedRanges];
+    return copy;
+  }
+}
+
+/** MACD line / signal / histogram with the previous two bars (same as macd()) */
+export class IncrementalMacd {
+  private closes = 0;
+  private fast: IncrementalEma;
+  private slow: IncrementalEma;
+  private signal: IncrementalEma;
+  /** Last three MACD line / signal line values, oldest first */
+  private macdHist: number[] = [];
+  private signalHist: number[] = [];
+
+  constructor(
+    readonly fastPeriod = 12,
+    readonly slowPeriod = 26,
+    readonly signalPeriod = 9
+  ) {
+    this.fast = new IncrementalEma(fastPeriod);
+    this.slow = new IncrementalEma(slowPeriod);
+    this.signal = new IncrementalEma(signalPeriod);
+  }
+
+  update(close: number): MacdResult | null {
+    this.closes++;
+    const fast = this.fast.update(close);
+    const slow = this.slow.update(close);
+    if (!Number.isNaN(slow)) {
+      const line = fast - slow;
+      const sig = this.signal.update(line);
+      this.macdHist = [...this.macdHist, line].slice(-3);
+      this.signalHist = [...this.signalHist, sig].slice(-3);
+    }
+    return this.value;
+  }
+
+  get value(): MacdResult | null {
+    if (this.closes < this.slowPeriod + this.signalPeriod + 1) return null;
+    const [ppMacd = 0, prevMacd = 0, currentMacd = 0] = this.macdHist;
+    const [ppSignal = 0, prevSignal = 0, signalLine = 0] = this.signalHist;
+    return {
+      macd: currentMacd,
+      signal: signalLine,
+      histogram: currentMacd - signalLine,
+      prevMacd,
+      prevSignal,
+      prevHistogram: prevMacd - prevSignal,
+      prevPrevHistogram: ppMacd - ppSignal,
+    };
+  }
+
+  clone(): IncrementalMacd {
+    const copy = Object.assign(new IncrementalMacd(this.fastPeriod, this.slowPeriod, this.signalPeriod), this);
+    copy.fast = this.fast.clone();
+    copy.slow = this.slow.clone();
+    copy.signal = this.signal.clone();
+    return copy;
+  }
+}
+
+/**
+ * Intraday VWAP with ±1σ / ±2σ bands, reset at each UTC day (same as calcVwap())
+ * Volume-weighted variance uses West's running update (no catastrophic cancellation).
+ */
+export class IncrementalVwap {
+  private day = NaN;
+  private sumTpVol = 0;
+  private sumVol = 0;
+  private mean = 0;
+  private m2 = 0;
+
+  update(kline: Kline): ReturnType<IncrementalVwap["result"]> {
+    const day = Math.floor(kline.openTime / DAY_MS);
+    if (day !== this.day) {
+      this.day = day;
+      this.sumTpVol = 0;
+      this.sumVol = 0;
+      this.mean = 0;
+      this.m2 = 0;
+    }
+    const tp = (kline.high + kline.low + kline.close) / 3;
+    this.sumTpVol += tp * kline.volume;
+    this.sumVol += kline.volume;
+    if (kline.volume > 0) {
+      const delta = tp - this.mean;
+      this.mean += (kline.volume / this.sumVol) * delta;
+      this.m2 += kline.volume * delta * (tp - this.mean);
+    }
+    return this.result();
+  }
+
+  result(): { vwap: number; upper1: number; lower1: number; upper2: number; lower2: number } | null {
+    if (this.sumVol === 0) return null;
+    const vwap = this.sumTpVol / this.sumVol;
+    const sigma = Math.sqrt(Math.max(0, this.m2 / this.sumVol));
+    return {
+      vwap,
+      upper1: vwap + sigma,
+      lower1: vwap - sigma,
+      upper2: vwap + 2 * sigma,
+      lower2: vwap - 2 * sigma,
+    };
+  }
+
+  clone(): IncrementalVwap {
+    return Object.assign(new IncrementalVwap(), this);
+  }
+}
+
+// ─────────────────────────────────────────────────────
+// Indicator Set (calculateIndicators equivalent)
+// ─────────────────────────────────────────────────────
+
+export interface IncrementalIndicatorParams {
+  maShort: number;
+  maLong: number;
+  rsiPeriod: number;
+  macd?: { enabled: boolean; fast: number; slow: number; signal: number } | undefined;
+}
+
+/** Everything one committed candle changes; cloned to preview / roll back */
+class IndicatorState {
+  count = 0;
+  maShort: IncrementalEma;
+  maLong: IncrementalEma;
+  prevMaShort = NaN;
+  prevMaLong = NaN;
+  rsi: IncrementalRsi;
+  macd: IncrementalMacd | null;
+  atr = new IncrementalAtr(ATR_PERIOD);
+  vwap = new IncrementalVwap();
+  /** Last VOLUME_PERIOD + 1 volumes / last CVD_LOOKBACK signed volumes, oldest first */
+  volumes: number[] = [];
+  signedVolumes: number[] = [];
+  last: Kline | null = null;
+  prevClose: number | undefined;
+
+  constructor(readonly params: IncrementalIndicatorParams) {
+    this.maShort = new IncrementalEma(params.maShort);
+    this.maLong = new IncrementalEma(params.maLong);
+    this.rsi = new IncrementalRsi(params.rsiPeriod);
+    this.macd = params.macd?.enabled
+      ? new IncrementalMacd(params.macd.fast, params.macd.slow, params.macd.signal)
+      : null;
+  }
+
+  push(kline: Kline): void {
+    this.count++;
+    this.prevMaShort = this.maShort.value;
+    this.prevMaLong = this.maLong.value;
+    this.maShort.update(kline.close);
+    this.maLong.update(kline.close);
+    this.rsi.update(kline.close);
+    this.macd?.update(kline.close);
+    this.atr.update(kline);
+    this.vwap.update(kline);
+    this.volumes = [...this.volumes, kline.volume].slice(-(VOLUME_PERIOD + 1));
+    this.signedVolumes = [...this.signedVolumes, kline.close >= kline.open ? kline.volume : -kline.volume].slice(-CVD_LOOKBACK);
+    this.prevClose = this.last?.close;
+    this.last = kline;
+  }
+
+  result(): Indicators | null {
+    const last = this.last;
+    if (!last || this.count < this.params.maLong + 1) return null;
+    const maShort = this.maShort.value;
+    const maLong = this.maLong.value;
+    const rsiValue = this.rsi.value;
+    if (isNaN(maShort) || isNaN(maLong) || isNaN(rsiValue)) return null;
+
+    const window = this.count > VOLUME_PERIOD ? this.volumes.slice(-(VOLUME_PERIOD + 1), -1) : this.volumes;
+    const avgVol = window.reduce((a, b) => a + b, 0) / window.length;
+
+    const result: Indicators = {
+      maShort,
+      maLong,
+      rsi: rsiValue,
+      price: last.close,
+      volume: last.volume,
+      avgVolume: isNaN(avgVol) ? last.volume : avgVol,
+      prevMaShort: this.prevMaShort,
+      prevMaLong: this.prevMaLong,
+    };
+    const macd = this.macd?.value;
+    if (macd) result.macd = macd;
+    if (!isNaN(this.atr.value)) result.atr = this.atr.value;
+    result.cvd = this.signedVolumes.reduce((sum, v) => sum + v, 0);
+    const vwap = this.vwap.result();
+    if (vwap) {
+      result.vwap = vwap.vwap;
+      result.vwapUpper1 = vwap.upper1;
+      result.vwapLower1 = vwap.lower1;
+      result.vwapUpper2 = vwap.upper2;
+      result.vwapLower2 = vwap.lower2;
+    }
+    if (this.prevClose !== undefined) result.prevPrice = this.prevClose;
+    return result;
+  }
+
+  clone(): IndicatorState {
+    const copy = Object.assign(new IndicatorState(this.params), this);
+    copy.maShort = this.maShort.clone();
+    copy.maLong = this.maLong.clone();
+    copy.rsi = this.rsi.clone();
+    copy.macd = this.macd?.clone() ?? null;
+    copy.atr = this.atr.clone();
+    copy.vwap = this.vwap.clone();
+    return copy;
+  }
+}
+
+/**
+ * Streaming equivalent of calculateIndicators() for one symbol
+ *
+ * Produces the base indicator fields (MA / RSI / MACD / ATR / CVD / VWAP / volume / prevPrice).
+ * Extended indicators (strategy.indicators) still need the kline window: see addExtendedIndicators().
+ *
+ * @example
+ * const stream = new IncrementalIndicators({ maShort: 20, maLong: 60, rsiPeriod: 14, macd: cfg.strategy.macd });
+ * stream.seed(await getKlines(symbol, "1m", 200));
+ * ws.subscribe(({ kline, isClosed }) => { const ind = stream.update(kline, isClosed); ... });
+ */
+export class IncrementalIndicators {
+  private state: IndicatorState;
+  /** State before the last committed candle (for replacing it) */
+  private beforeLast: IndicatorState | null = null;
+  private lastOpenTime: number | null = null;
+
+  constructor(params: IncrementalIndicatorParams) {
+    this.state = new IndicatorState(params);
+  }
+
+  /** Commit historical candles (oldest first) */
+  seed(klines: Kline[]): Indicators | null {
+    let result: Indicators | null = null;
+    for (const k of klines) result = this.update(k, true);
+    return result;
+  }
+
+  /**
+   * Apply a candle update
+   * @param isClosed true = commit the candle; false = preview it without changing state
+   * @returns Indicators as calculateIndicators() would return them for the history incl. this candle
+   */
+  update(kline: Kline, isClosed = true): Indicators | null {
+    if (kline.openTime === this.lastOpenTime && this.beforeLast) {
+      // Same candle again (preloaded while still open): drop the committed version
+      this.state = this.beforeLast;
+      this.beforeLast = null;
+      this.lastOpenTime = null;
+    }
+    if (!isClosed) {
+      const preview = this.state.clone();
+      preview.push(kline);
+      return preview.result();
+    }
+    this.beforeLast = this.state.clone();
+    this.state.push(kline);
+    this.lastOpenTime = kline.openTime;
+    return this.state.result();
+  }
+
+  /** Indicators for the committed history */
+  get value(): Indicators | null {
+    return this.state.result();
+  }
+}
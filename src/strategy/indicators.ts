@@ -1,4 +1,4 @@
-import type { Kline, Indicators, MacdResult } from "../types.js";
+import type { Kline, Indicators, IndicatorConfig, MacdResult } from "../types.js";
 
 /** Simple Moving Average (SMA) */
 export function sma(values: number[], period: number): number {
@@ -292,12 +292,395 @@ export function calcVwap(klines: Kline[]): {
   };
 }
 
+// ─── Extended Indicators (full series) ──────────────────────────────────────
+//
+// Every *Series function scans the input once and returns arrays aligned with it
+// (result[i] belongs to klines[i]; NaN until enough history is available).
+
+/** Resolved extended indicator parameters (strategy.indicators with defaults filled in) */
+export interface ResolvedIndicatorConfig {
+  stochRsi: { rsiPeriod: number; stochPeriod: number; kSmooth: number; dSmooth: number; oversold: number; overbought: number };
+  ichimoku: { tenkan: number; kijun: number; senkouB: number };
+  supertrend: { period: number; multiplier: number };
+  keltner: { emaPeriod: number; atrPeriod: number; multiplier: number };
+  obv: { maPeriod: number };
+  donchian: { period: number };
+  mfi: { period: number; oversold: number; overbought: number };
+}
+
+export function resolveIndicatorConfig(cfg: IndicatorConfig = {}): ResolvedIndicatorConfig {
+  return {
+    stochRsi: {
+      rsiPeriod: cfg.stoch_rsi?.rsi_period ?? 14,
+      stochPeriod: cfg.stoch_rsi?.stoch_period ?? 14,
+      kSmooth: cfg.stoch_rsi?.k_smooth ?? 3,
+      dSmooth: cfg.stoch_rsi?.d_smooth ?? 3,
+      oversold: cfg.stoch_rsi?.oversold ?? 20,
+      overbought: cfg.stoch_rsi?.overbought ?? 80,
+    },
+    ichimoku: {
+      tenkan: cfg.ichimoku?.tenkan ?? 9,
+      kijun: cfg.ichimoku?.kijun ?? 26,
+      senkouB: cfg.ichimoku?.senkou_b ?? 52,
+    },
+    supertrend: { period: cfg.supertrend?.period ?? 10, multiplier: cfg.supertrend?.multiplier ?? 3 },
+    keltner: {
+      emaPeriod: cfg.keltner?.ema_period ?? 20,
+      atrPeriod: cfg.keltner?.atr_period ?? 10,
+      multiplier: cfg.keltner?.multiplier ?? 2,
+    },
+    obv: { maPeriod: cfg.obv?.ma_period ?? 20 },
+    donchian: { period: cfg.donchian?.period ?? 20 },
+    mfi: {
+      period: cfg.mfi?.period ?? 14,
+      oversold: cfg.mfi?.oversold ?? 20,
+      overbought: cfg.mfi?.overbought ?? 80,
+    },
+  };
+}
+
+/**
+ * Klines a signal condition / expression identifier needs for its extended indicator
+ * (matched by name prefix: "stoch_rsi_oversold" -> Stochastic RSI). 0 for everything else.
+ */
+export function indicatorWarmupBars(name: string, cfg?: IndicatorConfig): number {
+  const r = resolveIndicatorConfig(cfg);
+  if (name.startsWith("stoch_rsi")) {
+    return r.stochRsi.rsiPeriod + r.stochRsi.stochPeriod + r.stochRsi.kSmooth + r.stochRsi.dSmooth;
+  }
+  if (name.startsWith("ichimoku")) return Math.max(r.ichimoku.senkouB, r.ichimoku.kijun) + r.ichimoku.kijun;
+  if (name.startsWith("supertrend")) return r.supertrend.period + 2;
+  if (name.startsWith("keltner")) return Math.max(r.keltner.emaPeriod, r.keltner.atrPeriod + 1);
+  if (name.startsWith("obv")) return r.obv.maPeriod + 1;
+  if (name.startsWith("donchian")) return r.donchian.period + 1;
+  if (name.startsWith("mfi")) return r.mfi.period + 1;
+  if (name.startsWith("ha_")) return 2;
+  return 0;
+}
+
+/** Pad a series that starts late (e.g. emaArray) with leading NaN up to `length` */
+function alignRight(values: number[], length: number): number[] {
+  return [...new Array<number>(Math.max(0, length - values.length)).fill(NaN), ...values];
+}
+
+/** Rolling SMA; NaN while the window holds fewer than `period` finite values */
+function rollingMean(values: number[], period: number): number[] {
+  const out = new Array<number>(values.length).fill(NaN);
+  let sum = 0;
+  let valid = 0;
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i] ?? NaN;
+    if (Number.isFinite(v)) { sum += v; valid++; }
+    const old = i >= period ? values[i - period] ?? NaN : NaN;
+    if (i >= period && Number.isFinite(old)) { sum -= old; valid--; }
+    if (i >= period - 1 && valid === period) out[i] = sum / period;
+  }
+  return out;
+}
+
+/** Rolling max / min over the last `period` values (monotonic deque, O(n)) */
+function rollingExtreme(values: number[], period: number, kind: "max" | "min"): number[] {
+  const out = new Array<number>(values.length).fill(NaN);
+  const deque: number[] = [];
+  const better = (a: number, b: number): boolean => (kind === "max" ? a >= b : a <= b);
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i] ?? NaN;
+    while (deque.length > 0 && better(v, values[deque[deque.length - 1] ?? 0] ?? NaN)) deque.pop();
+    deque.push(i);
+    if ((deque[0] ?? 0) <= i - period) deque.shift();
+    if (i >= period - 1) out[i] = values[deque[0] ?? i] ?? NaN;
+  }
+  return out;
+}
+
+/** Full-series RSI (Wilder); last value equals rsi(closes, period) */
+export function rsiArray(closes: number[], period = 14): number[] {
+  const out = new Array<number>(closes.length).fill(NaN);
+  if (closes.length < period + 1) return out;
+  let avgGain = 0;
+  let avgLoss = 0;
+  const toRsi = (): number => (avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss));
+  for (let i = 1; i < closes.length; i++) {
+    const change = (closes[i] ?? 0) - (closes[i - 1] ?? 0);
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+    if (i <= period) {
+      avgGain += gain / period;
+      avgLoss += loss / period;
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+    }
+    if (i >= period) out[i] = toRsi();
+  }
+  return out;
+}
+
+/** Full-series ATR (Wilder); last value equals atr(klines, period) */
+export function atrArray(klines: Kline[], period = 14): number[] {
+  const out = new Array<number>(klines.length).fill(NaN);
+  if (klines.length < period + 1) return out;
+  let atrValue = 0;
+  for (let i = 1; i < klines.length; i++) {
+    const curr = klines[i];
+    const prev = klines[i - 1];
+    if (!curr || !prev) continue;
+    const tr = Math.max(
+      curr.high - curr.low,
+      Math.abs(curr.high - prev.close),
+      Math.abs(curr.low - prev.close)
+    );
+    atrValue = i <= period ? atrValue + tr / period : (atrValue * (period - 1) + tr) / period;
+    if (i >= period) out[i] = atrValue;
+  }
+  return out;
+}
+
+/**
+ * Stochastic RSI
+ * raw = (RSI − lowest RSI) / (highest RSI − lowest RSI) × 100 over stochPeriod,
+ * %K = SMA(raw, kSmooth), %D = SMA(%K, dSmooth). NaN while the RSI range is flat.
+ */
+export function stochRsiSeries(
+  closes: number[],
+  rsiPeriod = 14,
+  stochPeriod = 14,
+  kSmooth = 3,
+  dSmooth = 3
+): { k: number[]; d: number[] } {
+  const rsiValues = rsiArray(closes, rsiPeriod);
+  const highest = rollingExtreme(rsiValues, stochPeriod, "max");
+  const lowest = rollingExtreme(rsiValues, stochPeriod, "min");
+  const raw = rsiValues.map((v, i) => {
+    const hi = highest[i] ?? NaN;
+    const lo = lowest[i] ?? NaN;
+    return hi > lo ? ((v - lo) / (hi - lo)) * 100 : NaN;
+  });
+  const k = rollingMean(raw, kSmooth);
+  return { k, d: rollingMean(k, dSmooth) };
+}
+
+/**
+ * Ichimoku cloud
+ * tenkan / kijun = midpoint of the highest high and lowest low over their periods.
+ * spanA / spanB are the leading spans as plotted at each bar: computed `kijun` bars earlier
+ * from (tenkan + kijun) / 2 and the senkouB-period midpoint.
+ */
+export function ichimokuSeries(
+  klines: Kline[],
+  tenkanPeriod = 9,
+  kijunPeriod = 26,
+  senkouBPeriod = 52
+): { tenkan: number[]; kijun: number[]; spanA: number[]; spanB: number[] } {
+  const highs = klines.map((k) => k.high);
+  const lows = klines.map((k) => k.low);
+  const midpoint = (period: number): number[] => {
+    const hi = rollingExtreme(highs, period, "max");
+    const lo = rollingExtreme(lows, period, "min");
+    return hi.map((h, i) => (h + (lo[i] ?? NaN)) / 2);
+  };
+  const tenkan = midpoint(tenkanPeriod);
+  const kijun = midpoint(kijunPeriod);
+  const senkouB = midpoint(senkouBPeriod);
+  const shift = (values: number[]): number[] => klines.map((_, i) => (i >= kijunPeriod ? values[i - kijunPeriod] ?? NaN : NaN));
+  return {
+    tenkan,
+    kijun,
+    spanA: shift(tenkan.map((t, i) => (t + (kijun[i] ?? NaN)) / 2)),
+    spanB: shift(senkouB),
+  };
+}
+
+/**
+ * Supertrend
+ * Bands = (high + low) / 2 ± multiplier × ATR; the lower band only rises and the upper band only
+ * falls while price stays on their side. Direction flips when close crosses the active band.
+ * value = lower band in an uptrend (direction 1), upper band in a downtrend (direction -1).
+ */
+export function supertrendSeries(
+  klines: Kline[],
+  period = 10,
+  multiplier = 3
+): { value: number[]; direction: number[] } {
+  const atrValues = atrArray(klines, period);
+  const value = new Array<number>(klines.length).fill(NaN);
+  const direction = new Array<number>(klines.length).fill(NaN);
+  let upper = NaN;
+  let lower = NaN;
+  let dir = 0;
+  for (let i = 0; i < klines.length; i++) {
+    const k = klines[i];
+    const a = atrValues[i] ?? NaN;
+    if (!k || !Number.isFinite(a)) continue;
+    const prevClose = klines[i - 1]?.close ?? k.close;
+    const hl2 = (k.high + k.low) / 2;
+    const basicUpper = hl2 + multiplier * a;
+    const basicLower = hl2 - multiplier * a;
+    upper = Number.isNaN(upper) || basicUpper < upper || prevClose > upper ? basicUpper : upper;
+    lower = Number.isNaN(lower) || basicLower > lower || prevClose < lower ? basicLower : lower;
+    if (dir === 0) dir = k.close >= hl2 ? 1 : -1;
+    else if (dir === 1 && k.close < lower) dir = -1;
+    else if (dir === -1 && k.close > upper) dir = 1;
+    direction[i] = dir;
+    value[i] = dir === 1 ? lower : upper;
+  }
+  return { value, direction };
+}
+
+/** Keltner channels: EMA(close) ± multiplier × ATR */
+export function keltnerSeries(
+  klines: Kline[],
+  emaPeriod = 20,
+  atrPeriod = 10,
+  multiplier = 2
+): { upper: number[]; middle: number[]; lower: number[] } {
+  const middle = alignRight(emaArray(klines.map((k) => k.close), emaPeriod), klines.length);
+  const atrValues = atrArray(klines, atrPeriod);
+  return {
+    upper: middle.map((m, i) => m + multiplier * (atrValues[i] ?? NaN)),
+    middle,
+    lower: middle.map((m, i) => m - multiplier * (atrValues[i] ?? NaN)),
+  };
+}
+
+/** On-balance volume: running sum of volume signed by the close-to-close direction */
+export function obvSeries(klines: Kline[]): number[] {
+  const out = new Array<number>(klines.length).fill(NaN);
+  let total = 0;
+  for (let i = 0; i < klines.length; i++) {
+    const k = klines[i];
+    const prev = klines[i - 1];
+    if (!k) continue;
+    if (prev) total += k.close > prev.close ? k.volume : k.close < prev.close ? -k.volume : 0;
+    out[i] = total;
+  }
+  return out;
+}
+
+/** Donchian channels over the previous `period` bars (current bar excluded, so a close above upper is a breakout) */
+export function donchianSeries(klines: Kline[], period = 20): { upper: number[]; lower: number[] } {
+  const hi = rollingExtreme(klines.map((k) => k.high), period, "max");
+  const lo = rollingExtreme(klines.map((k) => k.low), period, "min");
+  return {
+    upper: klines.map((_, i) => (i >= 1 ? hi[i - 1] ?? NaN : NaN)),
+    lower: klines.map((_, i) => (i >= 1 ? lo[i - 1] ?? NaN : NaN)),
+  };
+}
+
+/**
+ * Money flow index (volume-weighted RSI of the typical price)
+ * 100 when there is no negative flow in the window, 50 when there is no flow at all.
+ */
+export function mfiSeries(klines: Kline[], period = 14): number[] {
+  const out = new Array<number>(klines.length).fill(NaN);
+  const pos = new Array<number>(klines.length).fill(0);
+  const neg = new Array<number>(klines.length).fill(0);
+  let posSum = 0;
+  let negSum = 0;
+  for (let i = 1; i < klines.length; i++) {
+    const k = klines[i];
+    const prev = klines[i - 1];
+    if (!k || !prev) continue;
+    const tp = (k.high + k.low + k.close) / 3;
+    const prevTp = (prev.high + prev.low + prev.close) / 3;
+    if (tp > prevTp) pos[i] = tp * k.volume;
+    else if (tp < prevTp) neg[i] = tp * k.volume;
+    posSum += pos[i] ?? 0;
+    negSum += neg[i] ?? 0;
+    if (i > period) {
+      posSum -= pos[i - period] ?? 0;
+      negSum -= neg[i - period] ?? 0;
+    }
+    if (i >= period) {
+      out[i] = negSum <= 0 ? (posSum > 0 ? 100 : 50) : 100 - 100 / (1 + posSum / negSum);
+    }
+  }
+  return out;
+}
+
+/** Heikin-Ashi candles (same openTime / closeTime / volume as the source klines) */
+export function heikinAshi(klines: Kline[]): Kline[] {
+  const out: Kline[] = [];
+  let prevOpen = NaN;
+  let prevClose = NaN;
+  for (const k of klines) {
+    const close = (k.open + k.high + k.low + k.close) / 4;
+    const open = Number.isNaN(prevOpen) ? (k.open + k.close) / 2 : (prevOpen + prevClose) / 2;
+    out.push({ ...k, open, close, high: Math.max(k.high, open, close), low: Math.min(k.low, open, close) });
+    prevOpen = open;
+    prevClose = close;
+  }
+  return out;
+}
+
+/** Set `key` from the last (back = 0) or previous (back = 1) series value when it is finite */
+type NumericIndicatorKey = {
+  [K in keyof Indicators]-?: number extends Indicators[K] ? K : never;
+}[keyof Indicators];
+
+function setLast(result: Indicators, key: NumericIndicatorKey, series: number[], back = 0): void {
+  const v = series[series.length - 1 - back];
+  if (v !== undefined && Number.isFinite(v)) result[key] = v;
+}
+
+/**
+ * Extended indicators (strategy.indicators) for the latest kline
+ * Called by calculateIndicators(); streaming consumers add them on top of IncrementalIndicators.
+ */
+export function addExtendedIndicators(result: Indicators, klines: Kline[], cfg?: IndicatorConfig): void {
+  const r = resolveIndicatorConfig(cfg);
+  const closes = klines.map((k) => k.close);
+
+  const stoch = stochRsiSeries(closes, r.stochRsi.rsiPeriod, r.stochRsi.stochPeriod, r.stochRsi.kSmooth, r.stochRsi.dSmooth);
+  setLast(result, "stochRsiK", stoch.k);
+  setLast(result, "stochRsiD", stoch.d);
+  setLast(result, "prevStochRsiK", stoch.k, 1);
+  setLast(result, "prevStochRsiD", stoch.d, 1);
+
+  const ichimoku = ichimokuSeries(klines, r.ichimoku.tenkan, r.ichimoku.kijun, r.ichimoku.senkouB);
+  setLast(result, "ichimokuTenkan", ichimoku.tenkan);
+  setLast(result, "ichimokuKijun", ichimoku.kijun);
+  setLast(result, "prevIchimokuTenkan", ichimoku.tenkan, 1);
+  setLast(result, "prevIchimokuKijun", ichimoku.kijun, 1);
+  setLast(result, "ichimokuSpanA", ichimoku.spanA);
+  setLast(result, "ichimokuSpanB", ichimoku.spanB);
+
+  const st = supertrendSeries(klines, r.supertrend.period, r.supertrend.multiplier);
+  setLast(result, "supertrend", st.value);
+  const dir = st.direction[st.direction.length - 1];
+  const prevDir = st.direction[st.direction.length - 2];
+  if (dir === 1 || dir === -1) result.supertrendDirection = dir;
+  if (prevDir === 1 || prevDir === -1) result.prevSupertrendDirection = prevDir;
+
+  const keltner = keltnerSeries(klines, r.keltner.emaPeriod, r.keltner.atrPeriod, r.keltner.multiplier);
+  setLast(result, "keltnerUpper", keltner.upper);
+  setLast(result, "keltnerMiddle", keltner.middle);
+  setLast(result, "keltnerLower", keltner.lower);
+
+  const obv = obvSeries(klines);
+  setLast(result, "obv", obv);
+  setLast(result, "obvMa", rollingMean(obv, r.obv.maPeriod));
+
+  const donchian = donchianSeries(klines, r.donchian.period);
+  setLast(result, "donchianUpper", donchian.upper);
+  setLast(result, "donchianLower", donchian.lower);
+
+  setLast(result, "mfi", mfiSeries(klines, r.mfi.period));
+
+  const ha = heikinAshi(klines);
+  setLast(result, "haOpen", ha.map((k) => k.open));
+  setLast(result, "haClose", ha.map((k) => k.close));
+  setLast(result, "prevHaOpen", ha.map((k) => k.open), 1);
+  setLast(result, "prevHaClose", ha.map((k) => k.close), 1);
+}
+
 export function calculateIndicators(
   klines: Kline[],
   maShortPeriod: number,
   maLongPeriod: number,
   rsiPeriod: number,
-  macdConfig?: { enabled: boolean; fast: number; slow: number; signal: number }
+  macdConfig?: { enabled: boolean; fast: number; slow: number; signal: number },
+  indicatorConfig?: IndicatorConfig
 ): Indicators | null {
   if (klines.length < maLongPeriod + 1) return null;
 
@@ -368,5 +751,8 @@ export function calculateIndicators(
   const prevClose = closes[closes.length - 2];
   if (prevClose !== undefined) result.prevPrice = prevClose;
 
+  // Stochastic RSI / Ichimoku / Supertrend / Keltner / OBV / Donchian / MFI / Heikin-Ashi
+  addExtendedIndicators(result, klines, indicatorConfig);
+
   return result;
 }
@@ -0,0 +1,121 @@
+/**
+ * Pairs / Statistical Arbitrage Module
+ *
+ * Spread between two symbols on log prices:
+ *   spread_t = ln(A_t) − β · ln(B_t)
+ * where the hedge ratio β is the OLS slope of ln(A) on ln(B) over the rolling window.
+ * The z-score of the latest spread against the window's mean / std drives the pairs strategy
+ * (strategies/pairs.ts); the correlation of log returns (correlation.ts) gates new entries.
+ */
+
+import type { Kline } from "../types.js";
+import { calcReturns, pearsonCorrelation } from "./correlation.js";
+
+/** Rolling window when pairs.lookback is not set */
+export const DEFAULT_PAIRS_LOOKBACK = 60;
+
+// ─────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────
+
+export interface SpreadStats {
+  /** β: OLS slope of ln(A) on ln(B) */
+  hedgeRatio: number;
+  /** Latest spread ln(A) − β·ln(B) */
+  spread: number;
+  /** Mean / standard deviation of the spread over the window */
+  mean: number;
+  std: number;
+  /** (spread − mean) / std */
+  zScore: number;
+  /** Pearson correlation of the legs' log returns over the window */
+  correlation: number;
+}
+
+// ─────────────────────────────────────────────────────
+// Calculation Utilities
+// ─────────────────────────────────────────────────────
+
+/**
+ * OLS slope of y on x
+ * @returns NaN when x has no variance or the series are too short
+ */
+export function calcHedgeRatio(y: number[], x: number[]): number {
+  const n = Math.min(y.length, x.length);
+  if (n < 2) return NaN;
+  const ys = y.slice(-n);
+  const xs = x.slice(-n);
+  const meanX = xs.reduce((s, v) => s + v, 0) / n;
+  const meanY = ys.reduce((s, v) => s + v, 0) / n;
+  let cov = 0;
+  let varX = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = (xs[i] ?? 0) - meanX;
+    cov += dx * ((ys[i] ?? 0) - meanY);
+    varX += dx * dx;
+  }
+  return varX === 0 ? NaN : cov / varX;
+}
+
+/** Candles both series have (matched on openTime), ascending */
+export function alignKlines(a: Kline[], b: Kline[]): [Kline[], Kline[]] {
+  const byTime = new Map(b.map((k) => [k.openTime, k]));
+  const outA: Kline[] = [];
+  const outB: Kline[] = [];
+  for (const ka of a) {
+    const kb = byTime.get(ka.openTime);
+    if (kb && ka.close > 0 && kb.close > 0) {
+      outA.push(ka);
+      outB.push(kb);
+    }
+  }
+  return [outA, outB];
+}
+
+/**
+ * Spread statistics over the last `lookback` common candles of A and B
+ * @returns null when there are fewer than lookback common candles or the spread is flat
+ */
+export function calcSpreadStats(a: Kline[], b: Kline[], lookback: number): SpreadStats | null {
+  if (lookback < 3) throw new Error(`pairs lookback must be >= 3, got ${lookback}`);
+  const [alignedA, alignedB] = alignKlines(a, b);
+  if (alignedA.length < lookback) return null;
+  const winA = alignedA.slice(-lookback);
+  const winB = alignedB.slice(-lookback);
+
+  const logA = winA.map((k) => Math.log(k.close));
+  const logB = winB.map((k) => Math.log(k.close));
+  const hedgeRatio = calcHedgeRatio(logA, logB);
+  if (!isFinite(hedgeRatio)) return null;
+
+  const spreads = logA.map((la, i) => la - hedgeRatio * (logB[i] ?? 0));
+  const mean = spreads.reduce((s, v) => s + v, 0) / spreads.length;
+  const variance = spreads.reduce((s, v) => s + (v - mean) ** 2, 0) / spreads.length;
+  const std = Math.sqrt(variance);
+  const spread = spreads[spreads.length - 1] ?? mean;
+  if (!(std > 1e-12)) return null;
+
+  const correlation = pearsonCorrelation(calcReturns(winA), calcReturns(winB));
+  return { hedgeRatio, spread, mean, std, zScore: (spread - mean) / std, correlation };
+}
+
+// ─────────────────────────────────────────────────────
+// Leg Sizing (shared by paper engine / live executor / backtest runner)
+// ─────────────────────────────────────────────────────
+
+/** Group ID stored on every leg position of one multi-leg entry */
+export function makePairId(symbols: string[], time: number): string {
+  return `${symbols.join("/")}@${time}`;
+}
+
+/**
+ * USDT notional of one leg: combined notional (legCount × positionRatio × equity) × weight
+ */
+export function calcLegUsdt(
+  weight: number,
+  legCount: number,
+  equity: number,
+  positionRatio: number
+): number {
+  return equity * positionRatio * legCount * weight;
+}
@@ -198,6 +198,9 @@ export function checkProtections(
 /**
  * Convert signal history records (signal-history.jsonl) format to TradeRecord[]
  * (for live mode reading recent trades from log files)
+ *
+ * signal-history.ts writes exitTime + pnlPercent as a ratio; older records carry closedAt +
+ * pnlPercent as a percentage. Both are accepted.
  */
 export function parseTradeRecords(
   jsonLines: string[],
@@ -210,20 +213,22 @@ export function parseTradeRecords(
         status?: string;
         symbol?: string;
         closedAt?: number;
+        exitTime?: number;
         pnlPercent?: number;
         exitReason?: string;
       };
+      const closedAt = entry.closedAt ?? entry.exitTime;
       if (
         entry.status === "closed" &&
         entry.symbol &&
-        entry.closedAt !== undefined &&
-        entry.closedAt >= sinceMs &&
+        closedAt !== undefined &&
+        closedAt >= sinceMs &&
         entry.pnlPercent !== undefined
       ) {
         records.push({
           symbol: entry.symbol,
-          closedAt: entry.closedAt,
-          pnlRatio: entry.pnlPercent / 100,
+          closedAt,
+          pnlRatio: entry.closedAt !== undefined ? entry.pnlPercent / 100 : entry.pnlPercent,
           wasStopLoss:
             entry.exitReason === "stop_loss" ||
             entry.exitReason === "trailing_stop",
@@ -7,6 +7,7 @@ import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
 import { parseTradeRecords, type TradeRecord } from "./protection-manager.js";
+import { stateDb } from "../persistence/store.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const HISTORY_PATH = path.resolve(__dirname, "../../logs/signal-history.jsonl");
@@ -15,13 +16,17 @@ const HISTORY_PATH = path.resolve(__dirname, "../../logs/signal-history.jsonl");
 const DEFAULT_LOOKBACK_MS = 7 * 24 * 3600_000;
 
 /**
- * Load recent closed trade records from signal-history.jsonl
+ * Load recent closed trade records from signal-history.jsonl (or the SQLite signals table)
  * @param lookbackMs Lookback time window (default 7 days)
+ * @param historyPath History file (default logs/signal-history.jsonl; replay backtests pass their own)
  */
-export function loadRecentTrades(lookbackMs = DEFAULT_LOOKBACK_MS): TradeRecord[] {
+export function loadRecentTrades(lookbackMs = DEFAULT_LOOKBACK_MS, historyPath?: string): TradeRecord[] {
   try {
-    if (!fs.existsSync(HISTORY_PATH)) return [];
-    const lines = fs.readFileSync(HISTORY_PATH, "utf-8").split("\n").filter(Boolean);
+    const db = historyPath === undefined ? stateDb() : null;
+    if (db) return parseTradeRecords(db.getSignals().map((r) => JSON.stringify(r)), Date.now() - lookbackMs);
+    const file = historyPath ?? HISTORY_PATH;
+    if (!fs.existsSync(file)) return [];
+    const lines = fs.readFileSync(file, "utf-8").split("\n").filter(Boolean);
     return parseTradeRecords(lines, Date.now() - lookbackMs);
   } catch {
     return [];
@@ -0,0 +1,544 @@
+/**
+ * Signal Condition Expressions (DSL)
+ *
+ * Entries of signals.buy / sell / short / cover are either a named condition from signals.ts
+ * ("ma_bullish") or an expression over the current indicators:
+ *   rsi < 28 and close > vwap_lower1
+ *   crosses_above(ema(9), ema(21))
+ *   ma_bullish and not (funding_rate > 0.1 or extra.ensembleConfidence < 0.6)
+ *
+ * Grammar (lowest to highest precedence):
+ *   or -> and -> not -> comparison (< <= > >= == !=) -> + - -> * / -> unary - -> primary
+ *   primary: number | true | false | identifier | extra.<name> | fn(args) | ( expr )
+ *
+ * Expressions are parsed and type-checked once (the config loader compiles every condition, so
+ * a typo fails at startup), then evaluated by detectSignal() — same code in monitor, live and backtest.
+ * A value that is not available (no VWAP, too few klines for ema(50), ...) makes the comparison
+ * using it unknown; unknown stays unknown through "not" and an unknown condition is not met,
+ * the same as the named conditions.
+ */
+
+import type { Indicators, Kline, StrategyConfig } from "../types.js";
+import type { ExtraIndicators } from "../strategies/types.js";
+import { ema, sma, rsi, atr } from "./indicators.js";
+
+// ─────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────
+
+/** Everything an expression can read */
+export interface ConditionEnv {
+  indicators: Indicators;
+  cfg: StrategyConfig;
+  /** Klines the indicators were computed from (needed by ema()/sma()/rsi()/atr(), open/high/low, history) */
+  klines?: Kline[] | undefined;
+  /** Plugin indicators (populateIndicators), read as extra.<name> */
+  extra?: ExtraIndicators | undefined;
+  /** Named condition lookup (signals.ts) */
+  named: (name: string) => boolean;
+}
+
+export interface CompiledCondition {
+  source: string;
+  /** Klines needed beyond the current bar's indicators (ema(50) -> 50; history adds one per bar back) */
+  lookback: number;
+  /** Indicator identifiers and named conditions the expression reads */
+  identifiers: string[];
+  evaluate(env: ConditionEnv): boolean;
+}
+
+type ValueType = "number" | "boolean" | "any";
+type Value = number | boolean | undefined;
+type CompareOp = "<" | "<=" | ">" | ">=" | "==" | "!=";
+type ArithOp = "+" | "-" | "*" | "/";
+
+type Node =
+  | { kind: "literal"; value: number | boolean }
+  | { kind: "ident"; name: string }
+  | { kind: "named"; name: string }
+  | { kind: "extra"; name: string }
+  | { kind: "call"; fn: string; args: Node[] }
+  | { kind: "neg"; arg: Node }
+  | { kind: "not"; arg: Node }
+  | { kind: "logic"; op: "and" | "or"; left: Node; right: Node }
+  | { kind: "compare"; op: CompareOp; left: Node; right: Node }
+  | { kind: "arith"; op: ArithOp; left: Node; right: Node };
+
+interface Token {
+  type: "num" | "ident" | "op" | "(" | ")" | "," | "." | "end";
+  text: string;
+  pos: number;
+}
+
+// ─────────────────────────────────────────────────────
+// Identifiers & Functions
+// ─────────────────────────────────────────────────────
+
+/** Kline `back` bars before the current one */
+function klineAt(env: ConditionEnv, back: number): Kline | undefined {
+  const klines = env.klines ?? [];
+  return klines[klines.length - 1 - back];
+}
+
+/** Closes up to `back` bars before the current one */
+function closesAt(env: ConditionEnv, back: number): number[] {
+  const klines = env.klines ?? [];
+  return klines.slice(0, klines.length - back).map((k) => k.close);
+}
+
+/** Only the current bar is known (external / snapshot values) */
+function current(get: (ind: Indicators) => number | undefined) {
+  return (env: ConditionEnv, back: number): number | undefined => (back === 0 ? get(env.indicators) : undefined);
+}
+
+/** Numeric identifiers: value `back` bars before the current one (undefined = not available) */
+const NUMERIC: Record<string, (env: ConditionEnv, back: number) => number | undefined> = {
+  close: (env, back) =>
+    back === 0 ? env.indicators.price : back === 1 && env.indicators.prevPrice !== undefined ? env.indicators.prevPrice : klineAt(env, back)?.close,
+  price: (env, back) => NUMERIC["close"]?.(env, back),
+  open: (env, back) => klineAt(env, back)?.open,
+  high: (env, back) => klineAt(env, back)?.high,
+  low: (env, back) => klineAt(env, back)?.low,
+  volume: (env, back) => (back === 0 ? env.indicators.volume : klineAt(env, back)?.volume),
+  avg_volume: current((ind) => ind.avgVolume),
+  ma_short: (env, back) => (back === 0 ? env.indicators.maShort : back === 1 ? env.indicators.prevMaShort : undefined),
+  ma_long: (env, back) => (back === 0 ? env.indicators.maLong : back === 1 ? env.indicators.prevMaLong : undefined),
+  rsi: (env, back) => (back === 0 ? env.indicators.rsi : rsi(closesAt(env, back), env.cfg.strategy.rsi.period)),
+  macd: (env, back) => (back === 0 ? env.indicators.macd?.macd : back === 1 ? env.indicators.macd?.prevMacd : undefined),
+  macd_signal: (env, back) =>
+    back === 0 ? env.indicators.macd?.signal : back === 1 ? env.indicators.macd?.prevSignal : undefined,
+  macd_histogram: (env, back) => {
+    const m = env.indicators.macd;
+    return back === 0 ? m?.histogram : back === 1 ? m?.prevHistogram : back === 2 ? m?.prevPrevHistogram : undefined;
+  },
+  atr: current((ind) => ind.atr),
+  cvd: current((ind) => ind.cvd),
+  funding_rate: current((ind) => ind.fundingRate),
+  vwap: current((ind) => ind.vwap),
+  vwap_upper1: current((ind) => ind.vwapUpper1),
+  vwap_lower1: current((ind) => ind.vwapLower1),
+  vwap_upper2: current((ind) => ind.vwapUpper2),
+  vwap_lower2: current((ind) => ind.vwapLower2),
+  btc_dominance: current((ind) => ind.btcDominance),
+  btc_dom_change: current((ind) => ind.btcDomChange),
+  put_call_ratio: current((ind) => ind.putCallRatio),
+  // Extended indicators (strategy.indicators)
+  stoch_rsi_k: (env, back) => (back === 0 ? env.indicators.stochRsiK : back === 1 ? env.indicators.prevStochRsiK : undefined),
+  stoch_rsi_d: (env, back) => (back === 0 ? env.indicators.stochRsiD : back === 1 ? env.indicators.prevStochRsiD : undefined),
+  ichimoku_tenkan: (env, back) =>
+    back === 0 ? env.indicators.ichimokuTenkan : back === 1 ? env.indicators.prevIchimokuTenkan : undefined,
+  ichimoku_kijun: (env, back) =>
+    back === 0 ? env.indicators.ichimokuKijun : back === 1 ? env.indicators.prevIchimokuKijun : undefined,
+  ichimoku_span_a: current((ind) => ind.ichimokuSpanA),
+  ichimoku_span_b: current((ind) => ind.ichimokuSpanB),
+  supertrend: current((ind) => ind.supertrend),
+  supertrend_direction: (env, back) =>
+    back === 0 ? env.indicators.supertrendDirection : back === 1 ? env.indicators.prevSupertrendDirection : undefined,
+  keltner_upper: current((ind) => ind.keltnerUpper),
+  keltner_middle: current((ind) => ind.keltnerMiddle),
+  keltner_lower: current((ind) => ind.keltnerLower),
+  obv: current((ind) => ind.obv),
+  obv_ma: current((ind) => ind.obvMa),
+  donchian_upper: current((ind) => ind.donchianUpper),
+  donchian_lower: current((ind) => ind.donchianLower),
+  mfi: current((ind) => ind.mfi),
+  ha_open: (env, back) => (back === 0 ? env.indicators.haOpen : back === 1 ? env.indicators.prevHaOpen : undefined),
+  ha_close: (env, back) => (back === 0 ? env.indicators.haClose : back === 1 ? env.indicators.prevHaClose : undefined),
+  // Config thresholds
+  oversold: (env) => env.cfg.strategy.rsi.oversold,
+  overbought: (env) => env.cfg.strategy.rsi.overbought,
+};
+
+interface FnSpec {
+  args: ValueType[];
+  returns: ValueType;
+  /** First argument must be a positive integer literal (indicator period) */
+  period?: boolean;
+}
+
+const FUNCTIONS: Record<string, FnSpec> = {
+  ema: { args: ["number"], returns: "number", period: true },
+  sma: { args: ["number"], returns: "number", period: true },
+  rsi: { args: ["number"], returns: "number", period: true },
+  atr: { args: ["number"], returns: "number", period: true },
+  crosses_above: { args: ["number", "number"], returns: "boolean" },
+  crosses_below: { args: ["number", "number"], returns: "boolean" },
+  prev: { args: ["number"], returns: "number" },
+  abs: { args: ["number"], returns: "number" },
+  min: { args: ["number", "number"], returns: "number" },
+  max: { args: ["number", "number"], returns: "number" },
+};
+
+// ─────────────────────────────────────────────────────
+// Tokenizer
+// ─────────────────────────────────────────────────────
+
+function tokenize(source: string, fail: (msg: string, pos: number) => never): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source.charAt(i);
+    if (/\s/.test(ch)) { i++; continue; }
+    const num = /^\d+(\.\d+)?|^\.\d+/.exec(source.slice(i));
+    if (num) {
+      tokens.push({ type: "num", text: num[0], pos: i });
+      i += num[0].length;
+      continue;
+    }
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (ident) {
+      tokens.push({ type: "ident", text: ident[0], pos: i });
+      i += ident[0].length;
+      continue;
+    }
+    const op = /^(<=|>=|==|!=|&&|\|\||[<>+\-*/!])/.exec(source.slice(i));
+    if (op) {
+      tokens.push({ type: "op", text: op[0], pos: i });
+      i += op[0].length;
+      continue;
+    }
+    if (ch === "(" || ch === ")" || ch === "," || ch === ".") {
+      tokens.push({ type: ch, text: ch, pos: i });
+      i++;
+      continue;
+    }
+    fail(`unexpected character "${ch}"`, i);
+  }
+  tokens.push({ type: "end", text: "end of expression", pos: source.length });
+  return tokens;
+}
+
+// ─────────────────────────────────────────────────────
+// Parser + type check
+// ─────────────────────────────────────────────────────
+
+/**
+ * Parse and type-check an expression (must evaluate to a boolean)
+ * @param isNamed  Whether an identifier is a named condition (used as a boolean)
+ * @throws Error naming the expression, the problem and its column
+ */
+export function compileCondition(source: string, isNamed: (name: string) => boolean): CompiledCondition {
+  const fail = (msg: string, pos: number): never => {
+    throw new Error(`Invalid signal condition "${source}": ${msg} (column ${pos + 1})`);
+  };
+  const tokens = tokenize(source, fail);
+  let at = 0;
+  const peek = (): Token => tokens[at] ?? { type: "end", text: "end of expression", pos: source.length };
+  const next = (): Token => {
+    const t = peek();
+    at++;
+    return t;
+  };
+  const isWord = (word: string): boolean => peek().type === "ident" && peek().text === word;
+  const isOp = (...ops: string[]): boolean => peek().type === "op" && ops.includes(peek().text);
+  const expect = (type: Token["type"], what: string): Token => {
+    const t = next();
+    if (t.type !== type) fail(`expected ${what} but found "${t.text}"`, t.pos);
+    return t;
+  };
+
+  const types = new Map<Node, ValueType>();
+  const identifiers = new Set<string>();
+  const typed = (node: Node, type: ValueType): Node => {
+    types.set(node, type);
+    return node;
+  };
+  const check = (node: Node, want: "number" | "boolean", pos: number, ctx: string): void => {
+    const got = types.get(node) ?? "any";
+    if (got !== "any" && got !== want) fail(`${ctx} needs a ${want}, got a ${got}`, pos);
+  };
+
+  function parseOr(): Node {
+    let left = parseAnd();
+    while (isWord("or") || isOp("||")) {
+      const pos = next().pos;
+      const right = parseAnd();
+      check(left, "boolean", pos, "\"or\"");
+      check(right, "boolean", pos, "\"or\"");
+      left = typed({ kind: "logic", op: "or", left, right }, "boolean");
+    }
+    return left;
+  }
+
+  function parseAnd(): Node {
+    let left = parseNot();
+    while (isWord("and") || isOp("&&")) {
+      const pos = next().pos;
+      const right = parseNot();
+      check(left, "boolean", pos, "\"and\"");
+      check(right, "boolean", pos, "\"and\"");
+      left = typed({ kind: "logic", op: "and", left, right }, "boolean");
+    }
+    return left;
+  }
+
+  function parseNot(): Node {
+    if (isWord("not") || isOp("!")) {
+      const pos = next().pos;
+      const arg = parseNot();
+      check(arg, "boolean", pos, "\"not\"");
+      return typed({ kind: "not", arg }, "boolean");
+    }
+    return parseComparison();
+  }
+
+  function parseComparison(): Node {
+    const left = parseSum();
+    if (!isOp("<", "<=", ">", ">=", "==", "!=")) return left;
+    const t = next();
+    const right = parseSum();
+    const op = t.text as CompareOp;
+    if (op === "==" || op === "!=") {
+      const lt = types.get(left) ?? "any";
+      const rt = types.get(right) ?? "any";
+      if (lt !== "any" && rt !== "any" && lt !== rt) fail(`cannot compare a ${lt} with a ${rt}`, t.pos);
+    } else {
+      check(left, "number", t.pos, `"${op}"`);
+      check(right, "number", t.pos, `"${op}"`);
+    }
+    if (isOp("<", "<=", ">", ">=", "==", "!=")) fail("comparisons cannot be chained, use \"and\"", peek().pos);
+    return typed({ kind: "compare", op, left, right }, "boolean");
+  }
+
+  function parseSum(): Node {
+    let left = parseProduct();
+    while (isOp("+", "-")) {
+      const t = next();
+      const right = parseProduct();
+      check(left, "number", t.pos, `"${t.text}"`);
+      check(right, "number", t.pos, `"${t.text}"`);
+      left = typed({ kind: "arith", op: t.text as ArithOp, left, right }, "number");
+    }
+    return left;
+  }
+
+  function parseProduct(): Node {
+    let left = parseUnary();
+    while (isOp("*", "/")) {
+      const t = next();
+      const right = parseUnary();
+      check(left, "number", t.pos, `"${t.text}"`);
+      check(right, "number", t.pos, `"${t.text}"`);
+      left = typed({ kind: "arith", op: t.text as ArithOp, left, right }, "number");
+    }
+    return left;
+  }
+
+  function parseUnary(): Node {
+    if (isOp("-")) {
+      const pos = next().pos;
+      const arg = parseUnary();
+      check(arg, "number", pos, "\"-\"");
+      return typed({ kind: "neg", arg }, "number");
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): Node {
+    const t = next();
+    if (t.type === "num") return typed({ kind: "literal", value: parseFloat(t.text) }, "number");
+    if (t.type === "(") {
+      const inner = parseOr();
+      expect(")", "\")\"");
+      return inner;
+    }
+    if (t.type !== "ident") return fail(`expected a value but found "${t.text}"`, t.pos);
+
+    const name = t.text;
+    if (name === "true" || name === "false") return typed({ kind: "literal", value: name === "true" }, "boolean");
+    if (name === "extra") {
+      expect(".", "\".\" after extra");
+      const field = expect("ident", "an indicator name after \"extra.\"");
+      return typed({ kind: "extra", name: field.text }, "any");
+    }
+    if (peek().type === "(") {
+      const spec = FUNCTIONS[name];
+      if (!spec) return fail(`unknown function "${name}"`, t.pos);
+      next();
+      const args: Node[] = [];
+      const argPos: number[] = [];
+      if (peek().type !== ")") {
+        for (;;) {
+          argPos.push(peek().pos);
+          args.push(parseOr());
+          if (peek().type !== ",") break;
+          next();
+        }
+      }
+      expect(")", "\")\"");
+      if (args.length !== spec.args.length) {
+        fail(`${name}() takes ${spec.args.length} argument${spec.args.length === 1 ? "" : "s"}, got ${args.length}`, t.pos);
+      }
+      args.forEach((arg, i) => {
+        const want = spec.args[i];
+        if (want === "number" || want === "boolean") check(arg, want, argPos[i] ?? t.pos, `${name}() argument ${i + 1}`);
+      });
+      const first = args[0];
+      if (spec.period && !(first?.kind === "literal" && Number.isInteger(first.value) && (first.value as number) >= 1)) {
+        fail(`${name}() period must be a whole number >= 1`, argPos[0] ?? t.pos);
+      }
+      return typed({ kind: "call", fn: name, args }, spec.returns);
+    }
+    if (name in NUMERIC) {
+      identifiers.add(name);
+      return typed({ kind: "ident", name }, "number");
+    }
+    if (isNamed(name)) {
+      identifiers.add(name);
+      return typed({ kind: "named", name }, "boolean");
+    }
+    if (["and", "or", "not"].includes(name)) return fail(`expected a value but found "${name}"`, t.pos);
+    return fail(`unknown indicator or condition "${name}"`, t.pos);
+  }
+
+  const root = parseOr();
+  const end = peek();
+  if (end.type !== "end") fail(`unexpected "${end.text}"`, end.pos);
+  check(root, "boolean", 0, "a signal condition");
+
+  return {
+    source,
+    lookback: lookbackOf(root, 0),
+    identifiers: [...identifiers],
+    evaluate: (env) => evaluate(root, env, 0) === true,
+  };
+}
+
+// ─────────────────────────────────────────────────────
+// Evaluation
+// ─────────────────────────────────────────────────────
+
+function finite(v: number | undefined): number | undefined {
+  return v !== undefined && Number.isFinite(v) ? v : undefined;
+}
+
+function num(v: Value): number | undefined {
+  return typeof v === "number" ? finite(v) : undefined;
+}
+
+/** Value of `node` evaluated `back` bars before the current one */
+function evaluate(node: Node, env: ConditionEnv, back: number): Value {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "ident":
+      return finite(NUMERIC[node.name]?.(env, back));
+    case "named":
+      return back === 0 ? env.named(node.name) : undefined;
+    case "extra":
+      return back === 0 ? env.extra?.[node.name] : undefined;
+    case "neg": {
+      const v = num(evaluate(node.arg, env, back));
+      return v === undefined ? undefined : -v;
+    }
+    case "not": {
+      const v = evaluate(node.arg, env, back);
+      return typeof v === "boolean" ? !v : undefined;
+    }
+    case "logic": {
+      // Three-valued: false and unknown = false, true or unknown = true, otherwise unknown
+      const l = evaluate(node.left, env, back);
+      const decided = node.op === "or";
+      if (l === decided) return decided;
+      const r = evaluate(node.right, env, back);
+      if (r === decided) return decided;
+      return l === undefined || r === undefined ? undefined : !decided;
+    }
+    case "compare": {
+      const l = evaluate(node.left, env, back);
+      const r = evaluate(node.right, env, back);
+      if (l === undefined || r === undefined) return undefined;
+      if (node.op === "==") return l === r;
+      if (node.op === "!=") return l !== r;
+      const ln = num(l);
+      const rn = num(r);
+      if (ln === undefined || rn === undefined) return undefined;
+      if (node.op === "<") return ln < rn;
+      if (node.op === "<=") return ln <= rn;
+      if (node.op === ">") return ln > rn;
+      return ln >= rn;
+    }
+    case "arith": {
+      const l = num(evaluate(node.left, env, back));
+      const r = num(evaluate(node.right, env, back));
+      if (l === undefined || r === undefined) return undefined;
+      if (node.op === "+") return l + r;
+      if (node.op === "-") return l - r;
+      if (node.op === "*") return l * r;
+      return r === 0 ? undefined : l / r;
+    }
+    case "call":
+      return evaluateCall(node.fn, node.args, env, back);
+  }
+}
+
+function evaluateCall(fn: string, args: Node[], env: ConditionEnv, back: number): Value {
+  const [a, b] = args;
+  if (!a) return undefined;
+  const period = a.kind === "literal" && typeof a.value === "number" ? a.value : 0;
+  switch (fn) {
+    case "ema":
+      return finite(ema(closesAt(env, back), period));
+    case "sma":
+      return finite(sma(closesAt(env, back), period));
+    case "rsi":
+      return finite(rsi(closesAt(env, back), period));
+    case "atr": {
+      const klines = env.klines ?? [];
+      return finite(atr(klines.slice(0, klines.length - back), period));
+    }
+    case "prev":
+      return evaluate(a, env, back + 1);
+    case "abs": {
+      const v = num(evaluate(a, env, back));
+      return v === undefined ? undefined : Math.abs(v);
+    }
+    case "min":
+    case "max": {
+      const x = num(evaluate(a, env, back));
+      const y = b ? num(evaluate(b, env, back)) : undefined;
+      if (x === undefined || y === undefined) return undefined;
+      return fn === "min" ? Math.min(x, y) : Math.max(x, y);
+    }
+    case "crosses_above":
+    case "crosses_below": {
+      if (!b) return undefined;
+      const x0 = num(evaluate(a, env, back));
+      const y0 = num(evaluate(b, env, back));
+      const x1 = num(evaluate(a, env, back + 1));
+      const y1 = num(evaluate(b, env, back + 1));
+      if (x0 === undefined || y0 === undefined || x1 === undefined || y1 === undefined) return undefined;
+      return fn === "crosses_above" ? x1 <= y1 && x0 > y0 : x1 >= y1 && x0 < y0;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/** Klines an expression needs when evaluated `back` bars before the current one */
+function lookbackOf(node: Node, back: number): number {
+  switch (node.kind) {
+    case "literal":
+    case "named":
+    case "extra":
+      return 0;
+    case "ident":
+      return back > 0 ? back + 1 : 0;
+    case "neg":
+    case "not":
+      return lookbackOf(node.arg, back);
+    case "logic":
+    case "compare":
+    case "arith":
+      return Math.max(lookbackOf(node.left, back), lookbackOf(node.right, back));
+    case "call": {
+      const [a] = node.args;
+      const period = a?.kind === "literal" && typeof a.value === "number" ? a.value : 0;
+      if (node.fn === "ema" || node.fn === "sma") return period + back;
+      if (node.fn === "rsi" || node.fn === "atr") return period + 1 + back;
+      if (node.fn === "prev") return a ? lookbackOf(a, back + 1) : 0;
+      const inner = node.fn === "crosses_above" || node.fn === "crosses_below" ? back + 1 : back;
+      return Math.max(0, ...node.args.map((arg) => Math.max(lookbackOf(arg, back), lookbackOf(arg, inner))));
+    }
+  }
+}
@@ -14,10 +14,13 @@
  *   reduced_size           -> allows all signals but halves position size
  */
 
-import type { Kline, StrategyConfig, Signal, Indicators, RiskConfig } from "../types.js";
+import type { Kline, StrategyConfig, RuntimeConfig, Signal, Indicators, RiskConfig } from "../types.js";
 import { calculateIndicators } from "./indicators.js";
-import { detectSignal } from "./signals.js";
+import { detectSignal, isNamedCondition } from "./signals.js";
 import { classifyRegime } from "./regime.js";
+import type { MarketRegime } from "./regime.js";
+import { logRejectedSignal } from "./signal-history.js";
+import type { RejectionFilter } from "./signal-history.js";
 import { checkRiskReward } from "./rr-filter.js";
 import { checkCorrelation } from "./correlation.js";
 import { checkProtections } from "./protection-manager.js";
@@ -28,6 +31,7 @@ import type { TradeRecord } from "./protection-manager.js";
 import "../strategies/index.js";
 import { getStrategy } from "../strategies/registry.js";
 import type { StrategyContext } from "../strategies/types.js";
+import type { StateStore } from "../strategies/state-store.js";
 
 // ─────────────────────────────────────────────────────
 // Regime Signal Condition Classification (P5.3)
@@ -80,6 +84,7 @@ type SignalConditionSet = StrategyConfig["signals"];
  *
  * - trend_signals_only: keep only conditions in TREND_CONDITIONS
  * - reversal_signals_only: keep only conditions in REVERSAL_CONDITIONS
+ *   (expression conditions can't be classified and are always kept)
  * - other: keep as-is (return original object)
  *
  * If cfg has regime_strategies[signalFilter] configured, explicit YAML override takes priority.
@@ -96,7 +101,7 @@ function applyRegimeSignalFilter(
 
   // Auto-categorization filter
   const filterFn = (keep: Set<string>) =>
-    (conditions: string[]): string[] => conditions.filter((c) => keep.has(c));
+    (conditions: string[]): string[] => conditions.filter((c) => keep.has(c) || !isNamedCondition(c));
 
   if (signalFilter === "trend_signals_only") {
     const f = filterFn(TREND_CONDITIONS);
@@ -152,6 +157,8 @@ export interface ExternalContext {
    * neutral = no clear direction
    */
   stablecoinSignal?: "accumulation" | "distribution" | "neutral";
+  /** Plugin state store for this symbol (plugin path only; omitted = stateless plugin) */
+  stateStore?: StateStore;
 }
 
 export interface SignalEngineResult {
@@ -167,8 +174,18 @@ export interface SignalEngineResult {
   rejected: boolean;
   /** Rejection reason (has value when rejected=true) */
   rejectionReason?: string;
+  /** Rejecting filter and the values it decided on (has value when rejected=true) */
+  rejection?: EngineRejection;
   /** Regime label (has value only for buy/short signals) */
   regimeLabel?: string;
+  /** Classified market regime at entry (buy/short signals only, regardless of confidence) */
+  regime?: MarketRegime;
+}
+
+export interface EngineRejection {
+  filter: RejectionFilter;
+  reason: string;
+  inputs: Record<string, unknown>;
 }
 
 // ─────────────────────────────────────────────────────
@@ -205,7 +222,8 @@ export function processSignal(
     cfg.strategy.ma.short,
     cfg.strategy.ma.long,
     cfg.strategy.rsi.period,
-    cfg.strategy.macd
+    cfg.strategy.macd,
+    cfg.strategy.indicators
   );
 
   if (!indicators) {
@@ -265,7 +283,9 @@ export function processSignal(
       cfg: cfgWithRegimeSignals,   // Pass regime-filtered signal conditions
       indicators,
       ...(external.currentPosSide !== undefined ? { currentPosSide: external.currentPosSide } : {}),
+      ...(external.stateStore !== undefined ? { stateStore: external.stateStore } : {}),
     };
+    if (plugin.populateIndicators) ctx.extra = plugin.populateIndicators(ctx);
     const signalType = plugin.populateSignal(ctx);
     signal = {
       symbol,
@@ -277,7 +297,7 @@ export function processSignal(
     };
   } else {
     // ── Default path (existing logic, completely unchanged) ──────────────
-    signal = detectSignal(symbol, indicators, cfgWithRegimeSignals, external.currentPosSide);
+    signal = detectSignal(symbol, indicators, cfgWithRegimeSignals, external.currentPosSide, { klines });
   }
 
   if (signal.type === "none" || signal.type === "sell" || signal.type === "cover") {
@@ -302,14 +322,19 @@ export function processSignal(
     regimeLabel = regime.label;
 
     if (regime.signalFilter === "breakout_watch") {
-      return {
-        indicators,
-        signal,
-        effectiveRisk,
-        rejected: true,
-        rejectionReason: `Regime filter [${regime.label}] ${regime.detail}`,
-        regimeLabel,
-      };
+      return buildResult(indicators, signal, effectiveRisk, {
+        filter: "regime",
+        reason: `Regime filter [${regime.label}] ${regime.detail}`,
+        inputs: {
+          regime: regime.regime,
+          confidence: regime.confidence,
+          adx: regime.adx,
+          bbWidth: regime.bbWidth,
+          bbWidthPercentile: regime.bbWidthPercentile,
+          structure: regime.structure,
+          signalFilter: regime.signalFilter,
+        },
+      }, regimeLabel, effectivePositionRatio, regime.regime);
     }
 
     if (regime.signalFilter === "reduced_size") {
@@ -333,7 +358,11 @@ export function processSignal(
       minRr
     );
     if (!rrResult.passed) {
-      return buildResult(indicators, signal, effectiveRisk, true, `R:R filter -- ${rrResult.reason}`, regimeLabel, effectivePositionRatio);
+      return buildResult(indicators, signal, effectiveRisk, {
+        filter: "rr",
+        reason: `R:R filter -- ${rrResult.reason}`,
+        inputs: { ratio: rrResult.ratio, minRr, support: rrResult.support, resistance: rrResult.resistance, price: indicators.price },
+      }, regimeLabel, effectivePositionRatio, regime.regime);
     }
   }
 
@@ -363,11 +392,15 @@ export function processSignal(
     const candleIntervalMs = candleMs(cfg.timeframe);
     const protResult = checkProtections(symbol, protectionCfg, recentTrades, candleIntervalMs);
     if (!protResult.allowed) {
-      return buildResult(indicators, signal, effectiveRisk, true, `Protection filter -- ${protResult.reason ?? "protection triggered"}`, regimeLabel, effectivePositionRatio);
+      return buildResult(indicators, signal, effectiveRisk, {
+        filter: "protection",
+        reason: `Protection filter -- ${protResult.reason ?? "protection triggered"}`,
+        inputs: { recentTrades: recentTrades.length, protections: protectionCfg },
+      }, regimeLabel, effectivePositionRatio, regime.regime);
     }
   }
 
-  return buildResult(indicators, signal, effectiveRisk, false, undefined, regimeLabel, effectivePositionRatio);
+  return buildResult(indicators, signal, effectiveRisk, undefined, regimeLabel, effectivePositionRatio, regime.regime);
 }
 
 // ─────────────────────────────────────────────────────
@@ -379,18 +412,64 @@ function buildResult(
   indicators: Indicators,
   signal: Signal,
   effectiveRisk: RiskConfig,
-  rejected: boolean,
-  rejectionReason: string | undefined,
+  rejection: EngineRejection | undefined,
   regimeLabel: string | undefined,
-  effectivePositionRatio: number | undefined
+  effectivePositionRatio: number | undefined,
+  regime: MarketRegime
 ): SignalEngineResult {
-  const base: SignalEngineResult = { indicators, signal, effectiveRisk, rejected };
-  if (rejectionReason !== undefined) base.rejectionReason = rejectionReason;
+  const base: SignalEngineResult = { indicators, signal, effectiveRisk, rejected: rejection !== undefined, regime };
+  if (rejection !== undefined) {
+    base.rejectionReason = rejection.reason;
+    base.rejection = rejection;
+  }
   if (regimeLabel !== undefined) base.regimeLabel = regimeLabel;
   if (effectivePositionRatio !== undefined) base.effectivePositionRatio = effectivePositionRatio;
   return base;
 }
 
+/**
+ * Persist a rejected entry signal to the signal history together with the SL/TP it
+ * would have traded with (monitors call this at every filter that drops a buy/short).
+ * At most one record per symbol / filter per candle; failures never affect the caller.
+ *
+ * @param risk  Effective risk config at the point of rejection (regime overrides applied)
+ */
+export function recordRejection(
+  signal: Signal,
+  cfg: RuntimeConfig,
+  risk: RiskConfig,
+  rejection: EngineRejection,
+  source: "paper" | "live",
+  regime?: MarketRegime
+): void {
+  if (signal.type !== "buy" && signal.type !== "short") return;
+  const ind = signal.indicators;
+  try {
+    logRejectedSignal({
+      symbol: signal.symbol,
+      type: signal.type,
+      entryPrice: signal.price,
+      conditions: {
+        maShort: ind.maShort,
+        maLong: ind.maLong,
+        rsi: ind.rsi,
+        ...(ind.atr !== undefined && { atr: ind.atr }),
+        ...(regime !== undefined && { regime }),
+        triggeredRules: signal.reason,
+      },
+      rejection: {
+        ...rejection,
+        stopLossPercent: risk.stop_loss_percent,
+        takeProfitPercent: risk.take_profit_percent,
+        timeframe: cfg.timeframe,
+      },
+      dedupWindowMs: candleMs(cfg.timeframe),
+      scenarioId: cfg.paper.scenarioId,
+      source,
+    });
+  } catch { /* does not affect main flow */ }
+}
+
 /** Convert timeframe string to milliseconds */
 export function candleMs(timeframe: string): number {
   const map: Record<string, number> = {
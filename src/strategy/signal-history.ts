@@ -10,31 +10,55 @@
  *   - Win rate difference between shorting in bear market vs ranging market
  *   - Entry quality across different time periods (08:00-12:00 vs 20:00-24:00)
  *
+ *   Entry signals that a filter rejected are stored too (status "rejected") with the
+ *   rejecting filter and its inputs; a counterfactual job later fills in what the trade
+ *   would have done under the configured SL/TP (src/scripts/counterfactual.ts).
+ *
  * Storage format: JSONL (one JSON per line), convenient for streaming reads and grep analysis
- * File location: logs/signal-history.jsonl
+ * File location: logs/signal-history.jsonl (the signals table when persistence.backend = sqlite)
  */
 
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { stateDb } from "../persistence/store.js";
+import type { TradeDB } from "../persistence/db.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 // Test environment uses isolated paths to avoid polluting production data
 const IS_TEST = process.env["VITEST"] === "true" || process.env["NODE_ENV"] === "test";
-const LOG_FILE = IS_TEST
+let LOG_FILE = IS_TEST
   ? path.resolve(__dirname, "../../logs/signal-history-test.jsonl")
   : path.resolve(__dirname, "../../logs/signal-history.jsonl");
-const INDEX_FILE = IS_TEST
+let INDEX_FILE = IS_TEST
   ? path.resolve(__dirname, "../../logs/signal-index-test.json")
   : path.resolve(__dirname, "../../logs/signal-index.json");
+/** Set while redirected: replay records stay in their own file, never in the state database */
+let redirected = false;
+
+/**
+ * Point the history at another file pair (replay backtests keep their records out of the live file)
+ * @returns Restores the previous paths
+ */
+export function redirectSignalHistory(logFile: string, indexFile: string): () => void {
+  const prev = { logFile: LOG_FILE, indexFile: INDEX_FILE, redirected };
+  LOG_FILE = logFile;
+  INDEX_FILE = indexFile;
+  redirected = true;
+  return () => {
+    LOG_FILE = prev.logFile;
+    INDEX_FILE = prev.indexFile;
+    redirected = prev.redirected;
+  };
+}
 
 // ─────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────
 
 export type SignalType = "buy" | "sell" | "short" | "cover";
-export type SignalStatus = "open" | "closed" | "expired";
+export type SignalStatus = "open" | "closed" | "expired" | "rejected";
 export type ExitReason = "signal" | "stop_loss" | "take_profit" | "trailing_stop" | "time_stop" | "manual" | "end_of_data";
 
 export interface SignalConditions {
@@ -54,6 +78,41 @@ export interface SignalConditions {
   triggeredRules?: string[]; // e.g. ["ma_bullish", "rsi_oversold"]
 }
 
+/** Filter that rejected an entry signal */
+export type RejectionFilter =
+  | "regime"
+  | "rr"
+  | "protection"
+  | "emergency_halt"
+  | "event_calendar"
+  | "mtf"
+  | "sentiment"
+  | "correlation";
+
+/** What a rejected signal would have done had it been taken */
+export interface CounterfactualOutcome {
+  exitPrice: number;
+  exitTime: number;
+  exitReason: "stop_loss" | "take_profit" | "time_stop";
+  /** Ratio format, like SignalRecord.pnlPercent */
+  pnlPercent: number;
+  holdingHours: number;
+}
+
+export interface SignalRejection {
+  filter: RejectionFilter;
+  reason: string;
+  /** The values the filter decided on (regime/ADX, R:R levels, MTF trend, gate decision...) */
+  inputs: Record<string, unknown>;
+  /** SL / TP the trade would have run with (percent, as in RiskConfig) */
+  stopLossPercent: number;
+  takeProfitPercent: number;
+  /** Kline interval the signal came from (used to replay the outcome) */
+  timeframe: string;
+  /** Filled in by the counterfactual job once the outcome is known */
+  counterfactual?: CounterfactualOutcome;
+}
+
 export interface SignalRecord {
   id: string;                    // Unique ID (timestamp + random)
   symbol: string;
@@ -73,6 +132,8 @@ export interface SignalRecord {
   scenarioId?: string;           // paper/live scenario
   source?: "paper" | "live" | "backtest";
   notes?: string;
+  /** Only on status "rejected" */
+  rejection?: SignalRejection;
 }
 
 // ─────────────────────────────────────────────────────
@@ -87,13 +148,24 @@ function ensureDir(): void {
   fs.mkdirSync(path.dirname(LOG_FILE), { recursive: true });
 }
 
+function historyDb(): TradeDB | null {
+  return redirected ? null : stateDb();
+}
+
 function appendRecord(record: SignalRecord): void {
+  const db = historyDb();
+  if (db) {
+    db.putSignals([record]);
+    return;
+  }
   ensureDir();
   fs.appendFileSync(LOG_FILE, JSON.stringify(record) + "\n", "utf-8");
   updateIndex(record);
 }
 
 function readAllRecords(): SignalRecord[] {
+  const db = historyDb();
+  if (db) return db.getSignals();
   if (!fs.existsSync(LOG_FILE)) return [];
   const lines = fs.readFileSync(LOG_FILE, "utf-8").split("\n").filter(Boolean);
   const records: SignalRecord[] = [];
@@ -106,6 +178,12 @@ function readAllRecords(): SignalRecord[] {
 }
 
 function rewriteAll(records: SignalRecord[]): void {
+  const db = historyDb();
+  if (db) {
+    // Records are never removed, so upserting the whole list is a rewrite
+    db.putSignals(records);
+    return;
+  }
   ensureDir();
   fs.writeFileSync(LOG_FILE, records.map((r) => JSON.stringify(r)).join("\n") + "\n", "utf-8");
   // Rebuild index
@@ -204,6 +282,81 @@ export function closeSignal(
   return records[idx];
 }
 
+/**
+ * Record an entry signal that a filter rejected.
+ *
+ * Monitors re-evaluate the same signal every poll, so at most one rejected record is
+ * kept per scenario / symbol / type / filter within `dedupWindowMs` (one candle).
+ *
+ * @returns Signal ID, or null when deduplicated
+ */
+export function logRejectedSignal(params: {
+  symbol: string;
+  type: "buy" | "short";
+  entryPrice: number;
+  conditions?: SignalConditions;
+  rejection: Omit<SignalRejection, "counterfactual">;
+  dedupWindowMs: number;
+  scenarioId?: string;
+  source?: SignalRecord["source"];
+}): string | null {
+  const now = Date.now();
+  const duplicate = readAllRecords().some((r) =>
+    r.status === "rejected" &&
+    r.symbol === params.symbol &&
+    r.type === params.type &&
+    r.scenarioId === params.scenarioId &&
+    r.rejection?.filter === params.rejection.filter &&
+    now - r.entryTime < params.dedupWindowMs
+  );
+  if (duplicate) return null;
+
+  const id = generateId();
+  appendRecord({
+    id,
+    symbol: params.symbol,
+    type: params.type,
+    entryPrice: params.entryPrice,
+    entryTime: now,
+    entryConditions: params.conditions ?? {},
+    status: "rejected",
+    source: params.source ?? "paper",
+    rejection: params.rejection,
+    ...(params.scenarioId !== undefined && { scenarioId: params.scenarioId }),
+  });
+  return id;
+}
+
+/** Every signal record, oldest first */
+export function readSignalHistory(): SignalRecord[] {
+  return readAllRecords();
+}
+
+/** All rejected signal records (optionally only those still awaiting a counterfactual outcome) */
+export function getRejectedSignals(pendingOnly = false): SignalRecord[] {
+  return readAllRecords().filter((r) =>
+    r.status === "rejected" && (!pendingOnly || r.rejection?.counterfactual === undefined)
+  );
+}
+
+/**
+ * Store counterfactual outcomes for rejected signals (one rewrite for the whole batch)
+ * @returns Number of records updated
+ */
+export function recordCounterfactuals(outcomes: Map<string, CounterfactualOutcome>): number {
+  if (outcomes.size === 0) return 0;
+  const records = readAllRecords();
+  let count = 0;
+  for (const r of records) {
+    const outcome = outcomes.get(r.id);
+    if (outcome === undefined || !r.rejection) continue;
+    r.rejection = { ...r.rejection, counterfactual: outcome };
+    count++;
+  }
+  if (count > 0) rewriteAll(records);
+  return count;
+}
+
 /**
  * Mark open signals as expired (e.g. when no matching position found after system restart)
  */
@@ -255,7 +408,8 @@ export interface SignalStats {
 export function getSignalStats(days = 30): SignalStats {
   const all = readAllRecords();
   const cutoff = Date.now() - days * 86400000;
-  const records = all.filter((r) => r.entryTime >= cutoff);
+  // Rejected signals were never traded
+  const records = all.filter((r) => r.entryTime >= cutoff && r.status !== "rejected");
 
   const closed = records.filter((r) => r.status === "closed");
   const wins = closed.filter((r) => (r.pnlPercent ?? 0) > 0);
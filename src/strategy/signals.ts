@@ -1,7 +1,13 @@
-import type { Indicators, Signal, StrategyConfig } from "../types.js";
+import type { Indicators, Kline, Signal, StrategyConfig } from "../types.js";
+import type { ExtraIndicators } from "../strategies/types.js";
+import { compileCondition, type CompiledCondition } from "./signal-dsl.js";
+import { indicatorWarmupBars, resolveIndicatorConfig } from "./indicators.js";
 
 type SignalChecker = (ind: Indicators, cfg: StrategyConfig) => boolean;
 
+const stochRsiCfg = (cfg: StrategyConfig) => resolveIndicatorConfig(cfg.strategy.indicators).stochRsi;
+const mfiCfg = (cfg: StrategyConfig) => resolveIndicatorConfig(cfg.strategy.indicators).mfi;
+
 /** All available signal detection functions */
 const SIGNAL_CHECKERS: Record<string, SignalChecker> = {
   // ── MA Trend ──────────────────────────────────────
@@ -265,24 +271,255 @@ const SIGNAL_CHECKERS: Record<string, SignalChecker> = {
    */
   stablecoin_not_accumulation: (ind) =>
     ind.stablecoinSignal === undefined || ind.stablecoinSignal !== "accumulation",
+
+  // ── Stochastic RSI (strategy.indicators.stoch_rsi) ─────────
+  /** %K below the oversold threshold (default 20) */
+  stoch_rsi_oversold: (ind, cfg) =>
+    ind.stochRsiK !== undefined && ind.stochRsiK < stochRsiCfg(cfg).oversold,
+
+  /** %K above the overbought threshold (default 80) */
+  stoch_rsi_overbought: (ind, cfg) =>
+    ind.stochRsiK !== undefined && ind.stochRsiK > stochRsiCfg(cfg).overbought,
+
+  /** %K crosses above %D */
+  stoch_rsi_golden_cross: (ind) =>
+    ind.stochRsiK !== undefined && ind.stochRsiD !== undefined &&
+    ind.prevStochRsiK !== undefined && ind.prevStochRsiD !== undefined &&
+    ind.prevStochRsiK <= ind.prevStochRsiD && ind.stochRsiK > ind.stochRsiD,
+
+  /** %K crosses below %D */
+  stoch_rsi_death_cross: (ind) =>
+    ind.stochRsiK !== undefined && ind.stochRsiD !== undefined &&
+    ind.prevStochRsiK !== undefined && ind.prevStochRsiD !== undefined &&
+    ind.prevStochRsiK >= ind.prevStochRsiD && ind.stochRsiK < ind.stochRsiD,
+
+  // ── Ichimoku ────────────────────────────────────
+  /** Price above the cloud (above both leading spans) */
+  ichimoku_above_cloud: (ind) =>
+    ind.ichimokuSpanA !== undefined && ind.ichimokuSpanB !== undefined &&
+    ind.price > Math.max(ind.ichimokuSpanA, ind.ichimokuSpanB),
+
+  /** Price below the cloud */
+  ichimoku_below_cloud: (ind) =>
+    ind.ichimokuSpanA !== undefined && ind.ichimokuSpanB !== undefined &&
+    ind.price < Math.min(ind.ichimokuSpanA, ind.ichimokuSpanB),
+
+  /** Tenkan crosses above kijun (TK bullish cross) */
+  ichimoku_tk_golden_cross: (ind) =>
+    ind.ichimokuTenkan !== undefined && ind.ichimokuKijun !== undefined &&
+    ind.prevIchimokuTenkan !== undefined && ind.prevIchimokuKijun !== undefined &&
+    ind.prevIchimokuTenkan <= ind.prevIchimokuKijun && ind.ichimokuTenkan > ind.ichimokuKijun,
+
+  /** Tenkan crosses below kijun (TK bearish cross) */
+  ichimoku_tk_death_cross: (ind) =>
+    ind.ichimokuTenkan !== undefined && ind.ichimokuKijun !== undefined &&
+    ind.prevIchimokuTenkan !== undefined && ind.prevIchimokuKijun !== undefined &&
+    ind.prevIchimokuTenkan >= ind.prevIchimokuKijun && ind.ichimokuTenkan < ind.ichimokuKijun,
+
+  // ── Supertrend ──────────────────────────────────
+  /** Supertrend in uptrend */
+  supertrend_bullish: (ind) => ind.supertrendDirection === 1,
+
+  /** Supertrend in downtrend */
+  supertrend_bearish: (ind) => ind.supertrendDirection === -1,
+
+  /** Supertrend flipped to uptrend on this bar */
+  supertrend_flip_up: (ind) => ind.prevSupertrendDirection === -1 && ind.supertrendDirection === 1,
+
+  /** Supertrend flipped to downtrend on this bar */
+  supertrend_flip_down: (ind) => ind.prevSupertrendDirection === 1 && ind.supertrendDirection === -1,
+
+  // ── Keltner Channels ────────────────────────────
+  /** Close above the upper Keltner band (volatility breakout up) */
+  keltner_breakout_up: (ind) => ind.keltnerUpper !== undefined && ind.price > ind.keltnerUpper,
+
+  /** Close below the lower Keltner band (volatility breakout down) */
+  keltner_breakout_down: (ind) => ind.keltnerLower !== undefined && ind.price < ind.keltnerLower,
+
+  /** Close back inside the channel, above the middle line */
+  keltner_above_middle: (ind) => ind.keltnerMiddle !== undefined && ind.price > ind.keltnerMiddle,
+
+  /** Close below the middle line */
+  keltner_below_middle: (ind) => ind.keltnerMiddle !== undefined && ind.price < ind.keltnerMiddle,
+
+  // ── OBV ─────────────────────────────────────────
+  /** OBV above its moving average (volume confirms buying) */
+  obv_rising: (ind) => ind.obv !== undefined && ind.obvMa !== undefined && ind.obv > ind.obvMa,
+
+  /** OBV below its moving average (volume confirms selling) */
+  obv_falling: (ind) => ind.obv !== undefined && ind.obvMa !== undefined && ind.obv < ind.obvMa,
+
+  // ── Donchian Channels ───────────────────────────
+  /** Close above the highest high of the previous N bars (turtle breakout) */
+  donchian_breakout_up: (ind) => ind.donchianUpper !== undefined && ind.price > ind.donchianUpper,
+
+  /** Close below the lowest low of the previous N bars */
+  donchian_breakout_down: (ind) => ind.donchianLower !== undefined && ind.price < ind.donchianLower,
+
+  // ── MFI ─────────────────────────────────────────
+  /** Money flow index below the oversold threshold (default 20) */
+  mfi_oversold: (ind, cfg) => ind.mfi !== undefined && ind.mfi < mfiCfg(cfg).oversold,
+
+  /** Money flow index above the overbought threshold (default 80) */
+  mfi_overbought: (ind, cfg) => ind.mfi !== undefined && ind.mfi > mfiCfg(cfg).overbought,
+
+  // ── Heikin-Ashi ─────────────────────────────────
+  /** Heikin-Ashi candle is bullish (close > open) */
+  ha_bullish: (ind) => ind.haOpen !== undefined && ind.haClose !== undefined && ind.haClose > ind.haOpen,
+
+  /** Heikin-Ashi candle is bearish (close < open) */
+  ha_bearish: (ind) => ind.haOpen !== undefined && ind.haClose !== undefined && ind.haClose < ind.haOpen,
+
+  /** Heikin-Ashi turned bullish on this bar */
+  ha_flip_up: (ind) =>
+    ind.haOpen !== undefined && ind.haClose !== undefined &&
+    ind.prevHaOpen !== undefined && ind.prevHaClose !== undefined &&
+    ind.prevHaClose <= ind.prevHaOpen && ind.haClose > ind.haOpen,
+
+  /** Heikin-Ashi turned bearish on this bar */
+  ha_flip_down: (ind) =>
+    ind.haOpen !== undefined && ind.haClose !== undefined &&
+    ind.prevHaOpen !== undefined && ind.prevHaClose !== undefined &&
+    ind.prevHaClose >= ind.prevHaOpen && ind.haClose < ind.haOpen,
 };
 
+/** Extra inputs for expression conditions (signal-dsl.ts) */
+export interface SignalContext {
+  /** Klines the indicators were computed from (ema(n) / crosses_above(...) / open / high / low) */
+  klines?: Kline[] | undefined;
+  /** Plugin indicators, read as extra.<name> */
+  extra?: ExtraIndicators | undefined;
+}
+
+/** Whether a condition is a named checker (anything else is an expression) */
+export function isNamedCondition(condition: string): boolean {
+  return condition in SIGNAL_CHECKERS;
+}
+
+const compiledCache = new Map<string, CompiledCondition>();
+
+/** A condition that is not a named checker is an expression; compiled once and cached */
+function compile(condition: string): CompiledCondition {
+  let compiled = compiledCache.get(condition);
+  if (!compiled) {
+    compiled = compileCondition(condition, (name) => name in SIGNAL_CHECKERS);
+    compiledCache.set(condition, compiled);
+  }
+  return compiled;
+}
+
+/** Why a condition cannot be evaluated (unknown name / malformed expression), undefined when it can */
+export function conditionError(condition: string): string | undefined {
+  if (condition in SIGNAL_CHECKERS) return undefined;
+  try {
+    compile(condition);
+    return undefined;
+  } catch (err: unknown) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+/**
+ * Validate signal conditions
+ * Every entry must be a named condition or a well-formed boolean expression.
+ * @throws Error listing every invalid entry
+ */
+export function validateSignalConditions(signals: Partial<Record<string, string[]>>, label: string): void {
+  const errors: string[] = [];
+  for (const [group, conditions] of Object.entries(signals)) {
+    for (const condition of conditions ?? []) {
+      const error = conditionError(condition);
+      if (error !== undefined) errors.push(`signals.${group}: ${error}`);
+    }
+  }
+  if (errors.length > 0) throw new Error(`${label}: ${errors.join("; ")}`);
+}
+
+/**
+ * Klines the signal conditions need beyond the built-in indicators
+ * (expression lookback such as ema(50) -> 50, extended indicators such as ichimoku_* -> 78)
+ * Added to the kline fetch / backtest warmup so every condition sees a full window.
+ */
+export function signalWarmupBars(cfg: StrategyConfig): number {
+  let bars = 0;
+  for (const condition of allConditions(cfg)) {
+    if (condition in SIGNAL_CHECKERS) {
+      bars = Math.max(bars, indicatorWarmupBars(condition, cfg.strategy.indicators));
+      continue;
+    }
+    try {
+      const compiled = compile(condition);
+      bars = Math.max(
+        bars,
+        compiled.lookback,
+        ...compiled.identifiers.map((id) => indicatorWarmupBars(id, cfg.strategy.indicators))
+      );
+    } catch {
+      // Invalid expressions are reported by checkConditions
+    }
+  }
+  return bars;
+}
+
+/**
+ * Named conditions and expression identifiers used anywhere in cfg.signals / regime_strategies
+ * (e.g. ["ma_bullish", "rsi", "supertrend_direction"]); used to pick the indicators hyperopt tunes
+ */
+export function signalIdentifiers(cfg: StrategyConfig): string[] {
+  const ids = new Set<string>();
+  for (const condition of allConditions(cfg)) {
+    if (condition in SIGNAL_CHECKERS) {
+      ids.add(condition);
+      continue;
+    }
+    try {
+      for (const id of compile(condition).identifiers) ids.add(id);
+    } catch {
+      // Invalid expressions are reported by checkConditions
+    }
+  }
+  return [...ids];
+}
+
+/** Whether any signal condition reads an extended indicator (Stochastic RSI, Ichimoku, ...) */
+export function usesExtendedIndicators(cfg: StrategyConfig): boolean {
+  return signalIdentifiers(cfg).some((id) => indicatorWarmupBars(id, cfg.strategy.indicators) > 0);
+}
+
+/** Every condition in cfg.signals and the regime_strategies overrides */
+function allConditions(cfg: StrategyConfig): string[] {
+  const groups = [cfg.signals, ...Object.values(cfg.regime_strategies ?? {}).flatMap((o) => (o ? [o.signals] : []))];
+  return groups.flatMap((signals) => (Object.values(signals) as (string[] | undefined)[]).flatMap((c) => c ?? []));
+}
+
 /** Internal helper: check if all conditions in a group are met, returns [allMet, metConditionNames] */
 function checkConditions(
   conditions: string[],
   indicators: Indicators,
   cfg: StrategyConfig,
-  label: string
+  label: string,
+  ctx: SignalContext
 ): [boolean, string[]] {
   if (conditions.length === 0) return [false, []];
   const reasons: string[] = [];
+  const named = (name: string): boolean => SIGNAL_CHECKERS[name]?.(indicators, cfg) ?? false;
   const met = conditions.every((name) => {
     const checker = SIGNAL_CHECKERS[name];
-    if (!checker) {
-      console.warn(`[signals] Unknown ${label} condition: "${name}", please check strategy config`);
-      return false;
+    let ok: boolean;
+    if (checker) {
+      ok = checker(indicators, cfg);
+    } else {
+      let compiled: CompiledCondition;
+      try {
+        compiled = compile(name);
+      } catch (err: unknown) {
+        console.warn(
+          `[signals] Unknown ${label} condition: "${name}", please check strategy config (${err instanceof Error ? err.message : String(err)})`
+        );
+        return false;
+      }
+      ok = compiled.evaluate({ indicators, cfg, klines: ctx.klines, extra: ctx.extra, named });
     }
-    const ok = checker(indicators, cfg);
     if (ok) reasons.push(name);
     return ok;
   });
@@ -301,12 +538,14 @@ function checkConditions(
  *              Note: don't check sell/cover (meaningless without a position)
  *
  * @param positionSide Current position direction (undefined = no position)
+ * @param ctx          Klines / plugin indicators for expression conditions
  */
 export function detectSignal(
   symbol: string,
   indicators: Indicators,
   cfg: StrategyConfig,
-  positionSide?: "long" | "short"
+  positionSide?: "long" | "short",
+  ctx: SignalContext = {}
 ): Signal {
   const makeSignal = (type: Signal["type"], reason: string[]): Signal => ({
     symbol,
@@ -322,23 +561,23 @@ export function detectSignal(
 
   if (positionSide === "long") {
     // Holding long: only check close-long signals
-    const [sellMet, sellReasons] = checkConditions(cfg.signals.sell, indicators, cfg, "sell");
+    const [sellMet, sellReasons] = checkConditions(cfg.signals.sell, indicators, cfg, "sell", ctx);
     if (sellMet) return makeSignal("sell", sellReasons);
     return makeSignal("none", []);
   }
 
   if (positionSide === "short") {
     // Holding short: only check close-short signals
-    const [coverMet, coverReasons] = checkConditions(coverConditions, indicators, cfg, "cover");
+    const [coverMet, coverReasons] = checkConditions(coverConditions, indicators, cfg, "cover", ctx);
     if (coverMet) return makeSignal("cover", coverReasons);
     return makeSignal("none", []);
   }
 
   // No position: check entry signals (long priority over short)
-  const [buyMet, buyReasons] = checkConditions(cfg.signals.buy, indicators, cfg, "buy");
+  const [buyMet, buyReasons] = checkConditions(cfg.signals.buy, indicators, cfg, "buy", ctx);
   if (buyMet) return makeSignal("buy", buyReasons);
 
-  const [shortMet, shortReasons] = checkConditions(shortConditions, indicators, cfg, "short");
+  const [shortMet, shortReasons] = checkConditions(shortConditions, indicators, cfg, "short", ctx);
   if (shortMet) return makeSignal("short", shortReasons);
 
   return makeSignal("none", []);
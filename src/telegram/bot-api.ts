@@ -0,0 +1,162 @@
+/**
+ * Minimal Telegram Bot API client
+ *
+ * Only what the control-plane bot needs: long-polling getUpdates, sendMessage with an
+ * inline keyboard, editMessageText and answerCallbackQuery. Uses the global fetch.
+ * https://core.telegram.org/bots/api
+ */
+
+// ─────────────────────────────────────────────────────
+// Types (subset of the Bot API objects)
+// ─────────────────────────────────────────────────────
+
+export interface TgUser {
+  id: number;
+  username?: string;
+  first_name?: string;
+}
+
+export interface TgChat {
+  id: number;
+  type: string;
+  title?: string;
+}
+
+export interface TgMessage {
+  message_id: number;
+  chat: TgChat;
+  from?: TgUser;
+  date: number;
+  text?: string;
+}
+
+export interface TgCallbackQuery {
+  id: string;
+  from: TgUser;
+  /** The bot message carrying the pressed button */
+  message?: TgMessage;
+  data?: string;
+}
+
+export interface TgUpdate {
+  update_id: number;
+  message?: TgMessage;
+  callback_query?: TgCallbackQuery;
+}
+
+export interface InlineButton {
+  text: string;
+  /** 1-64 bytes, echoed back in the callback query */
+  callback_data: string;
+}
+
+export interface TelegramApi {
+  /** Long poll: resolves when updates arrive or after `timeoutSec` with [] */
+  getUpdates(offset: number, timeoutSec: number, signal?: AbortSignal): Promise<TgUpdate[]>;
+  /** Markdown message; `buttons` rows become an inline keyboard */
+  sendMessage(chatId: number, text: string, buttons?: InlineButton[][]): Promise<TgMessage>;
+  /** Replace a message's text; its inline keyboard is removed */
+  editMessageText(chatId: number, messageId: number, text: string): Promise<void>;
+  /** Stop the button's loading spinner, optionally with a short toast */
+  answerCallbackQuery(callbackQueryId: string, text?: string): Promise<void>;
+}
+
+/** Bot API call answered with ok: false (or a non-JSON / network failure, code 0) */
+export class TelegramApiError extends Error {
+  constructor(
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "TelegramApiError";
+  }
+}
+
+/** The subset of fetch the client uses (tests pass a fake) */
+export type FetchFn = (url: string, init: RequestInit) => Promise<Response>;
+
+const API_BASE = "https://api.telegram.org";
+/** Timeout of every call except getUpdates, which waits its own long-poll time on top */
+const REQUEST_TIMEOUT_MS = 15_000;
+
+// ─────────────────────────────────────────────────────
+// Client
+// ─────────────────────────────────────────────────────
+
+export function createTelegramApi(token: string, fetchFn: FetchFn = fetch): TelegramApi {
+  async function call<T>(method: string, body: Record<string, unknown>, signal?: AbortSignal, timeoutMs = REQUEST_TIMEOUT_MS): Promise<T> {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    let response: Response;
+    try {
+      response = await fetchFn(`${API_BASE}/bot${token}/${method}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+    } catch (err: unknown) {
+      // Caller's abort passes through as-is (AbortError); other failures never include the
+      // request URL, which carries the bot token
+      if (signal?.aborted) throw err;
+      throw new TelegramApiError(0, `${method}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    let payload: { ok: boolean; result?: T; description?: string; error_code?: number };
+    try {
+      payload = (await response.json()) as typeof payload;
+    } catch {
+      throw new TelegramApiError(response.status, `${method}: HTTP ${response.status}`);
+    }
+    if (!payload.ok || payload.result === undefined) {
+      throw new TelegramApiError(payload.error_code ?? response.status, `${method}: ${payload.description ?? "unknown error"}`);
+    }
+    return payload.result;
+  }
+
+  return {
+    getUpdates: (offset, timeoutSec, signal) =>
+      call<TgUpdate[]>(
+        "getUpdates",
+        { offset, timeout: timeoutSec, allowed_updates: ["message", "callback_query"] },
+        signal,
+        REQUEST_TIMEOUT_MS + timeoutSec * 1000
+      ),
+
+    async sendMessage(chatId, text, buttons) {
+      const body = {
+        chat_id: chatId,
+        text,
+        ...(buttons && { reply_markup: { inline_keyboard: buttons } }),
+      };
+      try {
+        return await call<TgMessage>("sendMessage", { ...body, parse_mode: "Markdown" });
+      } catch (err: unknown) {
+        // Scenario IDs or reasons with "_" / "*" can break legacy Markdown: resend as plain text
+        if (err instanceof TelegramApiError && err.code === 400 && /parse entities/i.test(err.message)) {
+          return call<TgMessage>("sendMessage", body);
+        }
+        throw err;
+      }
+    },
+
+    async editMessageText(chatId, messageId, text) {
+      const body = { chat_id: chatId, message_id: messageId, text };
+      try {
+        await call<unknown>("editMessageText", { ...body, parse_mode: "Markdown" });
+      } catch (err: unknown) {
+        if (err instanceof TelegramApiError && err.code === 400 && /parse entities/i.test(err.message)) {
+          await call<unknown>("editMessageText", body);
+          return;
+        }
+        throw err;
+      }
+    },
+
+    async answerCallbackQuery(callbackQueryId, text) {
+      await call<unknown>("answerCallbackQuery", {
+        callback_query_id: callbackQueryId,
+        ...(text !== undefined && { text }),
+      });
+    },
+  };
+}
@@ -0,0 +1,296 @@
+/**
+ * Telegram control-plane bot (long polling)
+ *
+ * Receives updates through TelegramApi.getUpdates and answers them with command-handler:
+ *   - Only chats listed in strategy.yaml `telegram.chats` are served, each limited to its
+ *     command groups (read / control / trade, or single commands)
+ *   - Trade commands (position changes) are not run directly: the bot sends a preview with
+ *     Confirm / Cancel buttons and runs the command when Confirm is pressed. Unanswered
+ *     prompts expire after `confirm_timeout_seconds` and their buttons are removed
+ *   - Control and trade commands are recorded in the operator audit log (via: telegram)
+ *
+ * Pending confirmations live in memory; a restart drops them (their buttons then answer
+ * "expired").
+ */
+
+import { setTimeout as delay } from "timers/promises";
+import { loadStrategyConfig } from "../config/loader.js";
+import { appendAudit } from "../web/operator-actions.js";
+import type { TelegramConfig } from "../types.js";
+import type { TelegramApi, TgCallbackQuery, TgMessage, TgUpdate } from "./bot-api.js";
+import {
+  COMMAND_GROUPS,
+  handleCommand,
+  needsConfirmation,
+  parseCommand,
+  previewCommand,
+} from "./command-handler.js";
+import type { TelegramCommand } from "./command-handler.js";
+
+// ─────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────
+
+export interface BotOptions {
+  /** Paper account directory passed to the command handlers (default logs/) */
+  logsDir?: string;
+  now?: () => number;
+  /** Re-read the telegram section on /reload_config (default strategy.yaml) */
+  loadConfig?: () => TelegramConfig | undefined;
+}
+
+interface PendingConfirmation {
+  id: string;
+  chatId: number;
+  /** The prompt carrying the buttons */
+  messageId: number;
+  cmd: TelegramCommand;
+  requestedBy: string;
+  expiresAt: number;
+}
+
+const DEFAULT_CONFIRM_TIMEOUT_SECONDS = 60;
+/** getUpdates long-poll wait */
+const POLL_TIMEOUT_SECONDS = 30;
+/** How often unanswered prompts are checked for expiry */
+const EXPIRY_CHECK_MS = 5_000;
+const MAX_BACKOFF_MS = 60_000;
+
+// ─────────────────────────────────────────────────────
+// Access Control
+// ─────────────────────────────────────────────────────
+
+/** Whether `chatId` may run `command` ("/buy") under `config` */
+export function isCommandAllowed(config: TelegramConfig, chatId: number, command: string): boolean {
+  const chat = config.chats.find((c) => c.chat_id === chatId);
+  if (!chat) return false;
+  const group = COMMAND_GROUPS[command];
+  return chat.commands.some((c) => c === "*" || c === command || (group !== undefined && c === group));
+}
+
+function isKnownChat(config: TelegramConfig, chatId: number): boolean {
+  return config.chats.some((c) => c.chat_id === chatId);
+}
+
+function chatName(config: TelegramConfig, chatId: number): string {
+  return config.chats.find((c) => c.chat_id === chatId)?.name ?? `chat:${chatId}`;
+}
+
+function userLabel(msg: { from?: { id: number; username?: string } }): string {
+  return msg.from ? (msg.from.username ?? String(msg.from.id)) : "unknown";
+}
+
+/** Handlers answer failures with a leading ❌ */
+function isFailure(reply: string): boolean {
+  return reply.startsWith("❌");
+}
+
+// ─────────────────────────────────────────────────────
+// Bot
+// ─────────────────────────────────────────────────────
+
+export class TelegramBot {
+  private config: TelegramConfig;
+  private readonly pending = new Map<string, PendingConfirmation>();
+  private offset = 0;
+  private seq = 0;
+
+  constructor(
+    private readonly api: TelegramApi,
+    config: TelegramConfig,
+    private readonly opts: BotOptions = {}
+  ) {
+    this.config = config;
+  }
+
+  /** Prompts still waiting for an answer */
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  private now(): number {
+    return this.opts.now?.() ?? Date.now();
+  }
+
+  private confirmTimeoutMs(): number {
+    return (this.config.confirm_timeout_seconds ?? DEFAULT_CONFIRM_TIMEOUT_SECONDS) * 1000;
+  }
+
+  async handleUpdate(update: TgUpdate): Promise<void> {
+    if (update.callback_query) await this.onCallback(update.callback_query);
+    else if (update.message?.text !== undefined) await this.onMessage(update.message);
+  }
+
+  // ── Commands ────────────────────────────────────────
+
+  private async onMessage(msg: TgMessage): Promise<void> {
+    const chatId = msg.chat.id;
+    const text = msg.text ?? "";
+    if (!isKnownChat(this.config, chatId)) {
+      console.log(`[telegram-bot] Refused chat ${chatId} (${userLabel(msg)}): ${text}`);
+      await this.api.sendMessage(chatId, `⛔ This chat is not allowed to use this bot (chat id ${chatId}).`);
+      return;
+    }
+
+    const cmd = parseCommand(text);
+    if (!cmd) {
+      await this.api.sendMessage(chatId, "❓ Unknown command. Send /help to see the command list.");
+      return;
+    }
+    if (!isCommandAllowed(this.config, chatId, cmd.command)) {
+      await this.api.sendMessage(chatId, `⛔ ${cmd.command} is not allowed in this chat.`);
+      return;
+    }
+
+    if (needsConfirmation(cmd)) {
+      await this.askConfirmation(chatId, cmd, userLabel(msg));
+      return;
+    }
+    const reply = await this.execute(chatId, cmd, userLabel(msg));
+    await this.api.sendMessage(chatId, reply);
+  }
+
+  private async askConfirmation(chatId: number, cmd: TelegramCommand, requestedBy: string): Promise<void> {
+    const preview = await previewCommand(cmd, this.opts.logsDir).catch((err: unknown) => ({
+      ok: false,
+      text: `❌ Command failed: ${err instanceof Error ? err.message : String(err)}`,
+    }));
+    if (!preview.ok) {
+      await this.api.sendMessage(chatId, preview.text);
+      return;
+    }
+
+    const id = `${this.now().toString(36)}${(++this.seq).toString(36)}`;
+    const timeoutSec = Math.round(this.confirmTimeoutMs() / 1000);
+    const prompt = await this.api.sendMessage(chatId, `${preview.text}\n\n_Expires in ${timeoutSec}s_`, [[
+      { text: "✅ Confirm", callback_data: `confirm:${id}` },
+      { text: "❌ Cancel", callback_data: `cancel:${id}` },
+    ]]);
+    this.pending.set(id, {
+      id,
+      chatId,
+      messageId: prompt.message_id,
+      cmd,
+      requestedBy,
+      expiresAt: this.now() + this.confirmTimeoutMs(),
+    });
+  }
+
+  /** Run a command and audit it if it is not read-only */
+  private async execute(chatId: number, cmd: TelegramCommand, user: string): Promise<string> {
+    let reply: string;
+    try {
+      reply = await handleCommand(cmd, this.opts.logsDir);
+    } catch (err: unknown) {
+      reply = `❌ Command failed: ${err instanceof Error ? err.message : String(err)}`;
+    }
+    if (cmd.command === "/reload_config" && !isFailure(reply)) reply += this.reloadConfig();
+
+    if (COMMAND_GROUPS[cmd.command] !== "read") {
+      appendAudit({
+        time: new Date(this.now()).toISOString(),
+        actor: chatName(this.config, chatId),
+        role: "operator",
+        via: "telegram",
+        ip: `telegram:${chatId}`,
+        action: cmd.command.slice(1),
+        params: { text: cmd.rawText, user },
+        ok: !isFailure(reply),
+        ...(isFailure(reply) ? { error: reply.slice(2) } : { result: reply }),
+      });
+    }
+    return reply;
+  }
+
+  /** Swap in the reloaded telegram section; keep the current one if it vanished */
+  private reloadConfig(): string {
+    const next = (this.opts.loadConfig ?? (() => loadStrategyConfig().telegram))();
+    if (!next || next.chats.length === 0) {
+      return "\n\n⚠️ `telegram.chats` is empty in the new config, keeping the current allowlist.";
+    }
+    this.config = next;
+    return `\n\nBot allowlist reloaded (${next.chats.length} chats).`;
+  }
+
+  // ── Confirmations ───────────────────────────────────
+
+  private async onCallback(query: TgCallbackQuery): Promise<void> {
+    const [action, id] = (query.data ?? "").split(":");
+    const entry = id !== undefined ? this.pending.get(id) : undefined;
+    const chatId = query.message?.chat.id;
+
+    if (!entry || chatId !== entry.chatId) {
+      await this.api.answerCallbackQuery(query.id, "This confirmation has expired or was already answered");
+      return;
+    }
+    // The allowlist may have changed since the prompt was sent
+    if (!isCommandAllowed(this.config, chatId, entry.cmd.command)) {
+      await this.api.answerCallbackQuery(query.id, `${entry.cmd.command} is not allowed in this chat`);
+      return;
+    }
+
+    this.pending.delete(entry.id);
+    if (this.now() > entry.expiresAt) {
+      await this.api.answerCallbackQuery(query.id, "Expired");
+      await this.api.editMessageText(chatId, entry.messageId, `⌛ Expired, not run: \`${entry.cmd.rawText}\``);
+      return;
+    }
+    if (action !== "confirm") {
+      await this.api.answerCallbackQuery(query.id, "Cancelled");
+      await this.api.editMessageText(chatId, entry.messageId, `❎ Cancelled: \`${entry.cmd.rawText}\``);
+      return;
+    }
+
+    await this.api.answerCallbackQuery(query.id, "Running…");
+    const reply = await this.execute(chatId, entry.cmd, userLabel(query));
+    await this.api.editMessageText(chatId, entry.messageId, reply);
+  }
+
+  /** Remove the buttons of prompts past their deadline */
+  async expirePending(): Promise<void> {
+    const now = this.now();
+    for (const entry of [...this.pending.values()]) {
+      if (now <= entry.expiresAt) continue;
+      this.pending.delete(entry.id);
+      try {
+        await this.api.editMessageText(entry.chatId, entry.messageId, `⌛ Expired, not run: \`${entry.cmd.rawText}\``);
+      } catch (err: unknown) {
+        console.warn(`[telegram-bot] Could not mark prompt ${entry.id} expired: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+
+  // ── Long polling ────────────────────────────────────
+
+  /** Poll for updates until `signal` aborts; API errors back off up to a minute */
+  async run(signal: AbortSignal): Promise<void> {
+    const expiryTimer = setInterval(() => { void this.expirePending(); }, EXPIRY_CHECK_MS);
+    let backoffMs = 1_000;
+    try {
+      while (!signal.aborted) {
+        let updates: TgUpdate[];
+        try {
+          updates = await this.api.getUpdates(this.offset, POLL_TIMEOUT_SECONDS, signal);
+          backoffMs = 1_000;
+        } catch (err: unknown) {
+          if (err instanceof Error && err.name === "AbortError") break;
+          console.error(`[telegram-bot] getUpdates failed, retrying in ${backoffMs / 1000}s: ${err instanceof Error ? err.message : String(err)}`);
+          await delay(backoffMs, undefined, { signal }).catch(() => undefined);
+          backoffMs = Math.min(backoffMs * 2, MAX_BACKOFF_MS);
+          continue;
+        }
+
+        for (const update of updates) {
+          this.offset = update.update_id + 1;
+          try {
+            await this.handleUpdate(update);
+          } catch (err: unknown) {
+            console.error(`[telegram-bot] Update ${update.update_id} failed: ${err instanceof Error ? err.message : String(err)}`);
+          }
+        }
+      }
+    } finally {
+      clearInterval(expiryTimer);
+    }
+  }
+}
@@ -3,6 +3,11 @@
  *
  * Parses and handles commands from the user, returns Markdown formatted response text.
  * Does not send messages directly; the caller decides the delivery method.
+ *
+ * Commands fall into three groups (see COMMAND_GROUPS), which the bot's per-chat allowlist
+ * grants separately. "trade" commands change positions: the bot first shows
+ * previewCommand()'s summary with a confirm button and only calls handleCommand() once
+ * the button is pressed. The CLI runs them straight away.
  */
 
 import fs from "fs";
@@ -13,8 +18,16 @@ import {
   saveAccount,
   paperSell,
   paperCoverShort,
+  paperBuy,
+  paperOpenShort,
 } from "../paper/account.js";
+import type { PaperAccount, PaperPosition } from "../paper/account.js";
 import { getPrice } from "../exchange/binance.js";
+import { loadStrategyConfig, loadPaperConfig, loadRuntimeConfigs, loadEnabledPaperRuntimes } from "../config/loader.js";
+import { activateKillSwitch, deactivateKillSwitch, readKillSwitch } from "../health/kill-switch.js";
+import { loadScenarioState, setScenarioPaused } from "../paper/scenario-state.js";
+import type { RuntimeConfig, TelegramCommandGroup } from "../types.js";
+import { stateDb } from "../persistence/store.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const DEFAULT_LOGS_DIR = path.resolve(__dirname, "../../logs");
@@ -23,14 +36,31 @@ const DEFAULT_LOGS_DIR = path.resolve(__dirname, "../../logs");
 // Supported commands
 // ─────────────────────────────────────────────────────
 
-const SUPPORTED_COMMANDS = [
-  "/profit",
-  "/positions",
-  "/balance",
-  "/status",
-  "/forcesell",
-  "/help",
-];
+/** Access group of every supported command */
+export const COMMAND_GROUPS: Record<string, TelegramCommandGroup> = {
+  "/profit": "read",
+  "/positions": "read",
+  "/balance": "read",
+  "/status": "read",
+  "/performance": "read",
+  "/daily": "read",
+  "/whitelist": "read",
+  "/help": "read",
+  "/pause": "control",
+  "/resume": "control",
+  "/killswitch": "control",
+  "/reload_config": "control",
+  "/forcesell": "trade",
+  "/stoploss": "trade",
+  "/buy": "trade",
+  "/short": "trade",
+};
+
+const SUPPORTED_COMMANDS = Object.keys(COMMAND_GROUPS);
+
+/** /daily default and maximum window (days) */
+const DAILY_DEFAULT_DAYS = 7;
+const DAILY_MAX_DAYS = 30;
 
 // ─────────────────────────────────────────────────────
 // Type definitions
@@ -68,8 +98,10 @@ function defaultFetchPrice(symbol: string): Promise<number | null> {
 // Helper functions
 // ─────────────────────────────────────────────────────
 
-/** Scan logs directory and return all scenario ID list */
+/** Scan logs directory (or the SQLite state store) and return all scenario ID list */
 function listScenarioIds(logsDir: string): string[] {
+  const db = stateDb();
+  if (db) return db.listAccounts();
   try {
     const files = fs.readdirSync(logsDir);
     return files
@@ -80,6 +112,23 @@ function listScenarioIds(logsDir: string): string[] {
   }
 }
 
+/** Find the scenario holding `symbol`: the given one, or the first scenario in logsDir that has it */
+function findPositionScenario(symbol: string, scenarioId: string | null, logsDir: string): string | null {
+  const candidates = scenarioId !== null ? [scenarioId] : listScenarioIds(logsDir);
+  return candidates.find((sid) => loadAccount(1000, sid).positions[symbol] !== undefined) ?? null;
+}
+
+/** Positive finite number, or null */
+function parsePositive(text: string | undefined): number | null {
+  if (text === undefined) return null;
+  const n = Number(text);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function sideLabel(pos: PaperPosition): string {
+  return pos.side === "short" ? "Short" : "Long";
+}
+
 /** Format holding time (ms to human-readable string) */
 function formatHoldTime(entryTime: number): string {
   const ms = Date.now() - entryTime;
@@ -117,7 +166,8 @@ export function parseCommand(text: string): TelegramCommand | null {
   const rawCmd = parts[0];
   if (!rawCmd) return null;
 
-  const cmd = rawCmd.toLowerCase();
+  // Group chats address commands as /profit@SomeBot
+  const cmd = (rawCmd.split("@")[0] ?? "").toLowerCase();
   if (!SUPPORTED_COMMANDS.includes(cmd)) return null;
 
   return {
@@ -150,8 +200,28 @@ export async function handleCommand(
       return handleBalance(dir);
     case "/status":
       return handleStatus(dir);
+    case "/performance":
+      return handlePerformance(cmd.args, dir);
+    case "/daily":
+      return handleDaily(cmd.args, dir);
+    case "/whitelist":
+      return handleWhitelist(dir);
+    case "/pause":
+      return handlePause(cmd.args, true);
+    case "/resume":
+      return handlePause(cmd.args, false);
+    case "/killswitch":
+      return handleKillSwitch(cmd.args);
+    case "/reload_config":
+      return handleReloadConfig();
     case "/forcesell":
       return handleForceSell(cmd.args, dir);
+    case "/stoploss":
+      return handleStopLoss(cmd.args, dir);
+    case "/buy":
+      return handleOpen(cmd.args, "long");
+    case "/short":
+      return handleOpen(cmd.args, "short");
     case "/help":
       return handleHelp();
     default:
@@ -170,8 +240,20 @@ export function handleHelp(): string {
     `/positions — Current position details\n` +
     `/balance — USDT balance per scenario\n` +
     `/status — System status (uptime, signal dedup)\n` +
+    `/performance [scenarioId] — Realized PnL by symbol\n` +
+    `/daily [days] — Daily realized PnL table (UTC)\n` +
+    `/whitelist — Symbols traded per scenario\n` +
+    `/help — Show this help\n\n` +
+    `*Control*\n` +
+    `/pause <scenarioId> — Stop new entries of a scenario\n` +
+    `/resume <scenarioId> — Allow new entries again\n` +
+    `/killswitch [on [reason] | off] — Show / toggle the global Kill Switch\n` +
+    `/reload_config — Re-read and validate config/\n\n` +
+    `*Trade* (asks for confirmation)\n` +
     `/forcesell <symbol> [scenarioId] — Force close position\n` +
-    `/help — Show this help`
+    `/stoploss <symbol> <price> [scenarioId] — Move a position's stop-loss\n` +
+    `/buy <symbol> <usdt> [scenarioId] — Open a long of <usdt>\n` +
+    `/short <symbol> <usdt> [scenarioId] — Open a short of <usdt>`
   );
 }
 
@@ -337,6 +419,177 @@ export function handleStatus(logsDir: string): string {
   return lines.join("\n");
 }
 
+// ─────────────────────────────────────────────────────
+// /performance
+// ─────────────────────────────────────────────────────
+
+export function handlePerformance(args: string[], logsDir: string): string {
+  const scenarios = args[0] !== undefined ? [args[0]] : listScenarioIds(logsDir);
+  const bySymbol = new Map<string, { trades: number; wins: number; pnl: number; pnlPct: number }>();
+
+  for (const scenarioId of scenarios) {
+    for (const t of loadAccount(1000, scenarioId).trades) {
+      if ((t.side !== "sell" && t.side !== "cover") || t.pnl === undefined) continue;
+      const s = bySymbol.get(t.symbol) ?? { trades: 0, wins: 0, pnl: 0, pnlPct: 0 };
+      s.trades++;
+      s.pnl += t.pnl;
+      s.pnlPct += (t.pnlPercent ?? 0) * 100;
+      if (t.pnl > 0) s.wins++;
+      bySymbol.set(t.symbol, s);
+    }
+  }
+
+  const title = `🏆 *Performance by Symbol*${args[0] !== undefined ? ` (${args[0]})` : ""}`;
+  if (bySymbol.size === 0) return `${title}\n\nNo closed trades`;
+
+  const lines = [title, ""];
+  const rows = [...bySymbol.entries()].sort((a, b) => b[1].pnl - a[1].pnl);
+  for (const [symbol, s] of rows) {
+    const winRate = Math.round((s.wins / s.trades) * 100);
+    lines.push(`${symbol}：${fmtPnl(s.pnl)} | ${s.trades} trades | Win ${winRate}% | Avg ${fmtPct(s.pnlPct / s.trades)}`);
+  }
+  const total = rows.reduce((sum, [, s]) => sum + s.pnl, 0);
+  lines.push("", `*Total: ${fmtPnl(total)}*`);
+  return lines.join("\n");
+}
+
+// ─────────────────────────────────────────────────────
+// /daily
+// ─────────────────────────────────────────────────────
+
+export function handleDaily(args: string[], logsDir: string): string {
+  const requested = args[0] !== undefined ? Math.floor(Number(args[0])) : DAILY_DEFAULT_DAYS;
+  if (!Number.isFinite(requested) || requested < 1) {
+    return `❌ Usage: \`/daily [days]\` (1-${DAILY_MAX_DAYS})`;
+  }
+  const days = Math.min(requested, DAILY_MAX_DAYS);
+
+  // UTC day keys, newest first
+  const today = Date.UTC(new Date().getUTCFullYear(), new Date().getUTCMonth(), new Date().getUTCDate());
+  const keys = Array.from({ length: days }, (_, i) => new Date(today - i * 86_400_000).toISOString().slice(0, 10));
+  const byDay = new Map(keys.map((k) => [k, { trades: 0, pnl: 0 }]));
+
+  for (const scenarioId of listScenarioIds(logsDir)) {
+    for (const t of loadAccount(1000, scenarioId).trades) {
+      if ((t.side !== "sell" && t.side !== "cover") || t.pnl === undefined) continue;
+      const day = byDay.get(new Date(t.timestamp).toISOString().slice(0, 10));
+      if (!day) continue;
+      day.trades++;
+      day.pnl += t.pnl;
+    }
+  }
+
+  const rows = keys.map((k) => {
+    const d = byDay.get(k) ?? { trades: 0, pnl: 0 };
+    return `${k} ${String(d.trades).padStart(6)} ${fmtPnl(d.pnl).padStart(12)}`;
+  });
+  const total = [...byDay.values()].reduce((sum, d) => sum + d.pnl, 0);
+  return (
+    `📅 *Daily PnL* (last ${days} days, UTC)\n\n` +
+    "```\n" +
+    `${"Date".padEnd(10)} ${"Trades".padStart(6)} ${"PnL".padStart(12)}\n` +
+    rows.join("\n") +
+    "\n```\n" +
+    `*Total: ${fmtPnl(total)}*`
+  );
+}
+
+// ─────────────────────────────────────────────────────
+// /whitelist
+// ─────────────────────────────────────────────────────
+
+export function handleWhitelist(logsDir: string): string {
+  let runtimes: RuntimeConfig[];
+  try {
+    runtimes = loadRuntimeConfigs();
+  } catch (err: unknown) {
+    return `❌ Config could not be loaded: ${err instanceof Error ? err.message : String(err)}`;
+  }
+
+  const lines = ["📃 *Symbol Whitelist*", ""];
+  for (const cfg of runtimes) {
+    lines.push(`*${cfg.paper.scenarioId}* (${cfg.exchange.market}, ${cfg.symbols.length})`);
+    lines.push(cfg.symbols.join(", ") || "(none)");
+    lines.push("");
+  }
+
+  // Dynamic pairlist snapshot written by refresh-pairlist
+  try {
+    const snapshot = JSON.parse(fs.readFileSync(path.join(logsDir, "current-pairlist.json"), "utf-8")) as {
+      symbols: string[];
+      updatedAt: number;
+    };
+    const ageHours = Math.round((Date.now() - snapshot.updatedAt) / 3_600_000);
+    lines.push(`🔄 *Dynamic pairlist* (${ageHours}h ago): ${snapshot.symbols.join(", ")}`);
+  } catch { /* no dynamic pairlist */ }
+
+  return lines.join("\n").trimEnd();
+}
+
+// ─────────────────────────────────────────────────────
+// /pause /resume
+// ─────────────────────────────────────────────────────
+
+export function handlePause(args: string[], paused: boolean): string {
+  const command = paused ? "/pause" : "/resume";
+  const scenarioId = args[0];
+  const known = loadPaperConfig().scenarios.map((s) => s.id);
+  if (scenarioId === undefined) {
+    const states = known.map((id) => `${id}${loadScenarioState(id).paused ? " ⏸" : ""}`);
+    return `❌ Usage: \`${command} <scenarioId>\`\nScenarios: ${states.join(", ") || "none"}`;
+  }
+  if (!known.includes(scenarioId)) {
+    return `❌ Unknown scenario: ${scenarioId}\nScenarios: ${known.join(", ") || "none"}`;
+  }
+
+  setScenarioPaused(scenarioId, paused);
+  return paused
+    ? `⏸ *Scenario Paused*: ${scenarioId}\nNo new entries; exits and stop-losses keep running.`
+    : `▶️ *Scenario Resumed*: ${scenarioId}\nNew entries allowed again.`;
+}
+
+// ─────────────────────────────────────────────────────
+// /killswitch
+// ─────────────────────────────────────────────────────
+
+export function handleKillSwitch(args: string[]): string {
+  const action = args[0]?.toLowerCase();
+  if (action === "on") {
+    const reason = args.slice(1).join(" ") || "Telegram operator";
+    activateKillSwitch(reason);
+  } else if (action === "off") {
+    deactivateKillSwitch();
+  } else if (action !== undefined) {
+    return "❌ Usage: `/killswitch [on [reason] | off]`";
+  }
+
+  const state = readKillSwitch();
+  if (!state.active) return "🟢 *Kill Switch*: Off\nNew entries allowed.";
+  const since = new Date(state.triggeredAt).toISOString().slice(0, 16).replace("T", " ");
+  return `🔴 *Kill Switch*: On since ${since} UTC\nReason: ${state.reason}\nAll new entries are blocked.`;
+}
+
+// ─────────────────────────────────────────────────────
+// /reload_config
+// ─────────────────────────────────────────────────────
+
+/** Re-read config/ and report whether it is valid; the bot reloads its allowlist on success */
+export function handleReloadConfig(): string {
+  try {
+    const base = loadStrategyConfig();
+    const runtimes = loadRuntimeConfigs();
+    return (
+      `✅ *Config Reloaded*\n\n` +
+      `• Mode: ${base.mode}\n` +
+      `• Scenarios: ${runtimes.map((r) => r.paper.scenarioId).join(", ")}\n` +
+      `• Telegram chats: ${base.telegram?.chats.length ?? 0}\n\n` +
+      `Monitors started by cron use it from their next run; running ws-monitor / live-monitor need a restart.`
+    );
+  } catch (err: unknown) {
+    return `❌ Config invalid, nothing reloaded: ${err instanceof Error ? err.message : String(err)}`;
+  }
+}
+
 // ─────────────────────────────────────────────────────
 // /forcesell
 // ─────────────────────────────────────────────────────
@@ -354,23 +607,7 @@ export async function handleForceSell(
   const targetScenarioId = args[1] ?? null;
 
   // Find the scenario containing this position
-  let foundScenarioId: string | null = null;
-
-  if (targetScenarioId !== null) {
-    const account = loadAccount(1000, targetScenarioId);
-    if (account.positions[symbolUpper]) {
-      foundScenarioId = targetScenarioId;
-    }
-  } else {
-    const scenarios = listScenarioIds(logsDir);
-    for (const sid of scenarios) {
-      const account = loadAccount(1000, sid);
-      if (account.positions[symbolUpper]) {
-        foundScenarioId = sid;
-        break;
-      }
-    }
-  }
+  const foundScenarioId = findPositionScenario(symbolUpper, targetScenarioId, logsDir);
 
   if (foundScenarioId === null) {
     return `❌ Position not found: ${symbolUpper}${targetScenarioId !== null ? ` (${targetScenarioId})` : ""}`;
@@ -415,3 +652,249 @@ export async function handleForceSell(
     `• Account Balance: $${account.usdt.toFixed(2)}`
   );
 }
+
+// ─────────────────────────────────────────────────────
+// /stoploss /buy /short
+// ─────────────────────────────────────────────────────
+
+/** Rejected trade command; the message is shown to the user after "❌" */
+class CommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommandError";
+  }
+}
+
+interface StopLossPlan {
+  scenarioId: string;
+  account: PaperAccount;
+  pos: PaperPosition;
+  stopLoss: number;
+  /** Current price (entry price when the fetch failed) */
+  price: number;
+}
+
+interface EntryPlan {
+  cfg: RuntimeConfig;
+  account: PaperAccount;
+  symbol: string;
+  side: "long" | "short";
+  usdt: number;
+  price: number;
+}
+
+async function resolveStopLoss(args: string[], logsDir: string): Promise<StopLossPlan> {
+  const symbol = args[0]?.toUpperCase();
+  const stopLoss = parsePositive(args[1]);
+  if (symbol === undefined || stopLoss === null) {
+    throw new CommandError("Usage: `/stoploss <symbol> <price> [scenarioId]`\nExample: `/stoploss BTCUSDT 48500`");
+  }
+  const targetScenarioId = args[2] ?? null;
+  const scenarioId = findPositionScenario(symbol, targetScenarioId, logsDir);
+  if (scenarioId === null) {
+    throw new CommandError(`Position not found: ${symbol}${targetScenarioId !== null ? ` (${targetScenarioId})` : ""}`);
+  }
+
+  const account = loadAccount(1000, scenarioId);
+  const pos = account.positions[symbol];
+  if (!pos) throw new CommandError(`Position not found: ${symbol} (${scenarioId})`);
+
+  // The stop must sit on the losing side of the market, or the next monitor run exits at once
+  const price = (await _priceFetcher(symbol)) ?? pos.entryPrice;
+  const isShort = pos.side === "short";
+  if (isShort ? stopLoss <= price : stopLoss >= price) {
+    throw new CommandError(
+      `${sideLabel(pos)} stop-loss must be ${isShort ? "above" : "below"} the current price ($${price.toFixed(4)})`
+    );
+  }
+  return { scenarioId, account, pos, stopLoss, price };
+}
+
+/** Paper scenario a manual entry goes to: the named one, or the only enabled paper scenario */
+function resolveEntryScenario(scenarioId: string | undefined): RuntimeConfig {
+  const enabled = loadEnabledPaperRuntimes();
+  if (scenarioId !== undefined) {
+    const cfg = enabled.find((c) => c.paper.scenarioId === scenarioId);
+    if (!cfg) throw new CommandError(`Unknown or disabled scenario: ${scenarioId}`);
+    if (cfg.exchange.testnet === true) {
+      throw new CommandError(`Scenario ${scenarioId} trades on the exchange; use manual-trade to open positions`);
+    }
+    return cfg;
+  }
+  const paper = enabled.filter((cfg) => cfg.exchange.testnet !== true);
+  const [only, ...rest] = paper;
+  if (!only) throw new CommandError("No enabled paper scenario");
+  if (rest.length > 0) {
+    throw new CommandError(`Several paper scenarios are enabled, name one: ${paper.map((c) => c.paper.scenarioId).join(", ")}`);
+  }
+  return only;
+}
+
+async function resolveEntry(args: string[], side: "long" | "short"): Promise<EntryPlan> {
+  const command = side === "short" ? "/short" : "/buy";
+  const symbol = args[0]?.toUpperCase();
+  const usdt = parsePositive(args[1]);
+  if (symbol === undefined || usdt === null) {
+    throw new CommandError(`Usage: \`${command} <symbol> <usdt> [scenarioId]\`\nExample: \`${command} BTCUSDT 200\``);
+  }
+  if (readKillSwitch().active) {
+    throw new CommandError("Kill Switch is on, new entries are blocked (`/killswitch off` first)");
+  }
+
+  const cfg = resolveEntryScenario(args[2]);
+  const scenarioId = cfg.paper.scenarioId;
+  if (side === "short" && cfg.exchange.market === "spot") {
+    throw new CommandError(`Scenario ${scenarioId} is a spot market, shorts need futures or margin`);
+  }
+  const account = loadAccount(cfg.paper.initial_usdt, scenarioId);
+  if (account.positions[symbol]) throw new CommandError(`${symbol} already has an open position in ${scenarioId}`);
+  if (usdt < cfg.execution.min_order_usdt) {
+    throw new CommandError(`Size below the minimum order of $${cfg.execution.min_order_usdt}`);
+  }
+  if (usdt > account.usdt) {
+    throw new CommandError(`Size exceeds the free balance of $${account.usdt.toFixed(2)} in ${scenarioId}`);
+  }
+
+  // A manual entry must fill at market: no entry-price fallback here
+  const price = await _priceFetcher(symbol);
+  if (price === null) throw new CommandError(`Price unavailable for ${symbol}`);
+  return { cfg, account, symbol, side, usdt, price };
+}
+
+export async function handleStopLoss(args: string[], logsDir: string): Promise<string> {
+  try {
+    const plan = await resolveStopLoss(args, logsDir);
+    const previous = plan.pos.stopLoss;
+    plan.pos.stopLoss = plan.stopLoss;
+    saveAccount(plan.account, plan.scenarioId);
+    return (
+      `✅ *Stop-Loss Updated*\n\n` +
+      `• Symbol: ${plan.pos.symbol} (${sideLabel(plan.pos)})\n` +
+      `• Scenario: ${plan.scenarioId}\n` +
+      `• Stop-Loss: $${previous.toFixed(4)} → $${plan.stopLoss.toFixed(4)}`
+    );
+  } catch (err: unknown) {
+    if (err instanceof CommandError) return `❌ ${err.message}`;
+    throw err;
+  }
+}
+
+export async function handleOpen(args: string[], side: "long" | "short"): Promise<string> {
+  try {
+    const { cfg, account, symbol, usdt, price } = await resolveEntry(args, side);
+    const scenarioId = cfg.paper.scenarioId;
+    const opts = {
+      overridePositionUsdt: usdt,
+      feeRate: cfg.paper.fee_rate,
+      slippagePercent: cfg.paper.slippage_percent,
+      minOrderUsdt: cfg.execution.min_order_usdt,
+      stopLossPercent: cfg.risk.stop_loss_percent,
+      takeProfitPercent: cfg.risk.take_profit_percent,
+    };
+    const reason = side === "short" ? "telegram_short" : "telegram_buy";
+    const trade = side === "short"
+      ? paperOpenShort(account, symbol, price, reason, opts)
+      : paperBuy(account, symbol, price, reason, opts);
+    const pos = account.positions[symbol];
+    if (!trade || !pos) return `❌ Open position failed: ${symbol}`;
+
+    saveAccount(account, scenarioId);
+    return (
+      `✅ *${side === "short" ? "Short" : "Long"} Opened*\n\n` +
+      `• Symbol: ${symbol}\n` +
+      `• Scenario: ${scenarioId}\n` +
+      `• Fill Price: $${trade.price.toFixed(4)}\n` +
+      `• Size: $${trade.usdtAmount.toFixed(2)} (${trade.quantity} units)\n` +
+      `• Stop-Loss / Take-Profit: $${pos.stopLoss.toFixed(4)} / $${pos.takeProfit.toFixed(4)}\n` +
+      `• Account Balance: $${account.usdt.toFixed(2)}`
+    );
+  } catch (err: unknown) {
+    if (err instanceof CommandError) return `❌ ${err.message}`;
+    throw err;
+  }
+}
+
+// ─────────────────────────────────────────────────────
+// Confirmation previews
+// ─────────────────────────────────────────────────────
+
+/** Trade commands change positions and need an explicit confirmation in the bot */
+export function needsConfirmation(cmd: TelegramCommand): boolean {
+  return COMMAND_GROUPS[cmd.command] === "trade";
+}
+
+/**
+ * Describe what a trade command would do without doing it.
+ * `ok: false` means the command would fail (usage, missing position...); `text` then
+ * explains why and no confirmation should be asked.
+ */
+export async function previewCommand(
+  cmd: TelegramCommand,
+  logsDir?: string
+): Promise<{ ok: boolean; text: string }> {
+  const dir = logsDir ?? DEFAULT_LOGS_DIR;
+  try {
+    switch (cmd.command) {
+      case "/forcesell":
+        return { ok: true, text: await previewForceSell(cmd.args, dir) };
+      case "/stoploss": {
+        const plan = await resolveStopLoss(cmd.args, dir);
+        return {
+          ok: true,
+          text:
+            `⚠️ *Confirm Stop-Loss Change*\n\n` +
+            `• Symbol: ${plan.pos.symbol} (${sideLabel(plan.pos)})\n` +
+            `• Scenario: ${plan.scenarioId}\n` +
+            `• Stop-Loss: $${plan.pos.stopLoss.toFixed(4)} → $${plan.stopLoss.toFixed(4)}\n` +
+            `• Current Price: $${plan.price.toFixed(4)}`,
+        };
+      }
+      case "/buy":
+      case "/short": {
+        const plan = await resolveEntry(cmd.args, cmd.command === "/short" ? "short" : "long");
+        return {
+          ok: true,
+          text:
+            `⚠️ *Confirm ${plan.side === "short" ? "Short" : "Long"} Entry*\n\n` +
+            `• Symbol: ${plan.symbol}\n` +
+            `• Scenario: ${plan.cfg.paper.scenarioId}\n` +
+            `• Size: $${plan.usdt.toFixed(2)} at ~$${plan.price.toFixed(4)}\n` +
+            `• Stop-Loss / Take-Profit: ${plan.cfg.risk.stop_loss_percent}% / ${plan.cfg.risk.take_profit_percent}%`,
+        };
+      }
+      default:
+        return { ok: false, text: `❌ ${cmd.command} does not need confirmation` };
+    }
+  } catch (err: unknown) {
+    if (err instanceof CommandError) return { ok: false, text: `❌ ${err.message}` };
+    throw err;
+  }
+}
+
+async function previewForceSell(args: string[], logsDir: string): Promise<string> {
+  const symbol = args[0]?.toUpperCase();
+  if (symbol === undefined) {
+    throw new CommandError("Usage: `/forcesell <symbol> [scenarioId]`\nExample: `/forcesell BTCUSDT testnet-default`");
+  }
+  const targetScenarioId = args[1] ?? null;
+  const scenarioId = findPositionScenario(symbol, targetScenarioId, logsDir);
+  const pos = scenarioId !== null ? loadAccount(1000, scenarioId).positions[symbol] : undefined;
+  if (scenarioId === null || !pos) {
+    throw new CommandError(`Position not found: ${symbol}${targetScenarioId !== null ? ` (${targetScenarioId})` : ""}`);
+  }
+
+  const price = await _priceFetcher(symbol);
+  let market = "unavailable, fills at entry price";
+  if (price !== null) {
+    const pnl = (price - pos.entryPrice) * pos.quantity * (pos.side === "short" ? -1 : 1);
+    market = `$${price.toFixed(4)} (≈ ${fmtPnl(pnl)})`;
+  }
+  return (
+    `⚠️ *Confirm Force Close*\n\n` +
+    `• Symbol: ${symbol} (${sideLabel(pos)})\n` +
+    `• Scenario: ${scenarioId}\n` +
+    `• Quantity: ${pos.quantity}\n` +
+    `• Entry: $${pos.entryPrice.toFixed(4)}\n` +
+    `• Market: ${market}`
+  );
+}
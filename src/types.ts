@@ -62,6 +62,32 @@ export interface Indicators {
   putCallRatio?: number;  // Options PCR (> 1.5 = extreme bearish/reversal buy opportunity, < 0.5 = extreme bullish/reversal sell opportunity)
   /** On-chain stablecoin flow signal */
   stablecoinSignal?: "accumulation" | "distribution" | "neutral";
+  // ── Extended indicators (strategy.indicators; undefined while history is too short) ──
+  stochRsiK?: number;      // Stochastic RSI %K (0-100)
+  stochRsiD?: number;      // Stochastic RSI %D (0-100)
+  prevStochRsiK?: number;
+  prevStochRsiD?: number;
+  ichimokuTenkan?: number; // Conversion line
+  ichimokuKijun?: number;  // Base line
+  prevIchimokuTenkan?: number;
+  prevIchimokuKijun?: number;
+  ichimokuSpanA?: number;  // Leading span A at the current bar
+  ichimokuSpanB?: number;  // Leading span B at the current bar
+  supertrend?: number;     // Supertrend line (trailing stop level)
+  supertrendDirection?: 1 | -1; // 1 = uptrend, -1 = downtrend
+  prevSupertrendDirection?: 1 | -1;
+  keltnerUpper?: number;
+  keltnerMiddle?: number;
+  keltnerLower?: number;
+  obv?: number;            // On-balance volume
+  obvMa?: number;          // SMA of OBV
+  donchianUpper?: number;  // Highest high of the previous N bars (current bar excluded)
+  donchianLower?: number;  // Lowest low of the previous N bars (current bar excluded)
+  mfi?: number;            // Money flow index (0-100)
+  haOpen?: number;         // Heikin-Ashi candle of the current bar
+  haClose?: number;
+  prevHaOpen?: number;
+  prevHaClose?: number;
 }
 
 export interface Signal {
@@ -93,6 +119,83 @@ export interface EnsembleConfig {
   unanimous?: boolean;
 }
 
+// ─────────────────────────────────────────────────────
+// Grid Strategy Config
+// ─────────────────────────────────────────────────────
+
+/**
+ * Grid strategy config (used when strategy_id = "grid").
+ * Levels are spaced geometrically around the reference (center) price; each level below the
+ * top buys one slice when price crosses down through it and sells that slice at the next level up.
+ */
+export interface GridConfig {
+  /** Number of price levels (>= 2) */
+  levels: number;
+  /** Spacing between adjacent levels (%) */
+  spacing_percent: number;
+  /** Re-center the grid on the current price after it stays outside the range this long (minutes). Default 240 */
+  recenter_after_minutes?: number;
+}
+
+// ─────────────────────────────────────────────────────
+// Pairs Strategy Config
+// ─────────────────────────────────────────────────────
+
+/**
+ * Pairs / statistical-arbitrage config (used when strategy_id = "pairs").
+ * Spread = ln(A) − β·ln(B) with β the rolling hedge ratio; the pair opens (long one leg, short the
+ * other) when the spread's z-score leaves ±entry_z and both legs are flattened together once it
+ * reverts inside ±exit_z. Shorting a leg requires a futures / margin market.
+ */
+export interface PairsConfig {
+  /** The two symbols [A, B]; both must also be listed in symbols */
+  legs: [string, string];
+  /** Rolling window (candles) for the hedge ratio and the z-score. Default 60 */
+  lookback?: number;
+  /** Open when |z| >= entry_z (z > 0: short A / long B; z < 0: long A / short B). Default 2 */
+  entry_z?: number;
+  /** Flatten both legs when |z| <= exit_z. Default 0.5 */
+  exit_z?: number;
+  /** Optional: flatten both legs when |z| >= stop_z (spread kept diverging) */
+  stop_z?: number;
+  /** Minimum correlation of the legs' log returns over the window for new entries. Default 0.5 */
+  min_correlation?: number;
+}
+
+// ─────────────────────────────────────────────────────
+// Hyperopt Search Space Config
+// ─────────────────────────────────────────────────────
+
+/**
+ * One searchable parameter of a declarative hyperopt space (strategy.yaml / profile
+ * `hyperopt_space`, or a Strategy plugin's `paramSpace`).
+ *
+ * `path` is a dotted path into StrategyConfig; `*` expands over an object's keys and `[*]`
+ * over an array's elements, one parameter per match:
+ *   - path: risk.trailing_stop.callback_percent
+ *     type: float
+ *     min: 0.5
+ *     max: 3
+ *     when: { risk.trailing_stop.enabled: true }
+ *   - path: ensemble.strategies[*].weight
+ *     type: float
+ *     min: 0
+ *     max: 1
+ */
+export interface HyperoptParamSpec {
+  path: string;
+  type: "int" | "float" | "categorical" | "boolean";
+  /** int / float bounds (required for those types) */
+  min?: number;
+  max?: number;
+  /** int step size (default 1) */
+  step?: number;
+  /** categorical values */
+  choices?: (number | string | boolean)[];
+  /** Conditional parameter: only applied when every listed config path holds the given value */
+  when?: Record<string, number | string | boolean>;
+}
+
 // ─────────────────────────────────────────────────────
 // Shared Config Sections (strategy.yaml)
 // ─────────────────────────────────────────────────────
@@ -207,10 +310,20 @@ export interface RiskConfig {
 }
 
 export interface ExecutionConfig {
+  /** "market" = taker orders; "limit" = maker-first limit orders with reprice loop (live only) */
   order_type: OrderType;
+  /** Limit price offset from current price (%): BUY below, SELL above. e.g. 0.1 = 0.1% */
   limit_order_offset_percent: number;
   min_order_usdt: number;
+  /** Limit orders still unfilled after N seconds fall back to a market order for the remainder */
   limit_order_timeout_seconds: number;
+  /**
+   * Limit orders: cancel and re-post unfilled quantity at a refreshed price every N seconds (default 15).
+   * Working orders advance once per monitor loop, so the effective interval is at least the poll interval.
+   */
+  limit_order_reprice_seconds?: number;
+  /** Limit orders: post-only (maker-only) placement where the venue supports it (default true) */
+  limit_order_post_only?: boolean;
   /**
    * Pre-entry price deviation protection (inspired by Freqtrade confirm_trade_entry).
    * Cancel entry if current price deviates from signal price by more than this ratio (prevents flash crash false entries).
@@ -243,6 +356,57 @@ export interface NotifyConfig {
   min_interval_minutes: number;
 }
 
+// ─────────────────────────────────────────────────────
+// Extended Indicator Config
+// ─────────────────────────────────────────────────────
+
+/**
+ * Parameters of the extended indicators (strategy.indicators in YAML)
+ * Every field is optional; missing values use the conventional defaults listed here.
+ */
+export interface IndicatorConfig {
+  /** Stochastic RSI: stochastic of RSI over stoch_period, %K / %D smoothed by SMA */
+  stoch_rsi?: {
+    rsi_period?: number;   // default 14
+    stoch_period?: number; // default 14
+    k_smooth?: number;     // default 3
+    d_smooth?: number;     // default 3
+    oversold?: number;     // %K threshold, default 20
+    overbought?: number;   // %K threshold, default 80
+  };
+  /** Ichimoku cloud (spans are read where they are plotted, i.e. computed kijun bars ago) */
+  ichimoku?: {
+    tenkan?: number;   // default 9
+    kijun?: number;    // default 26
+    senkou_b?: number; // default 52
+  };
+  /** Supertrend: ATR band flipping with the trend */
+  supertrend?: {
+    period?: number;     // ATR period, default 10
+    multiplier?: number; // default 3
+  };
+  /** Keltner channels: EMA ± multiplier × ATR */
+  keltner?: {
+    ema_period?: number; // default 20
+    atr_period?: number; // default 10
+    multiplier?: number; // default 2
+  };
+  /** On-balance volume with a moving average for trend comparison */
+  obv?: {
+    ma_period?: number; // default 20
+  };
+  /** Donchian channels: highest high / lowest low of the previous `period` bars */
+  donchian?: {
+    period?: number; // default 20
+  };
+  /** Money flow index */
+  mfi?: {
+    period?: number;     // default 14
+    oversold?: number;   // default 20
+    overbought?: number; // default 80
+  };
+}
+
 /** strategy.yaml — Pure strategy config, without exchange/market info */
 export interface StrategyConfig {
   symbols: string[];
@@ -270,7 +434,13 @@ export interface StrategyConfig {
       long_threshold?: number;  // Long extreme threshold %, default 0.30
       short_threshold?: number; // Short extreme threshold % (absolute value), default 0.15
     };
+    /** Extended indicator parameters (optional, defaults in strategy/indicators.ts) */
+    indicators?: IndicatorConfig;
   };
+  /**
+   * Signal conditions (all must hold). Each entry is a named condition from strategy/signals.ts
+   * or an expression (strategy/signal-dsl.ts), e.g. "rsi < 28 and close > vwap_lower1"
+   */
   signals: {
     buy: string[];
     sell: string[];
@@ -346,6 +516,90 @@ export interface StrategyConfig {
   }>>;
   /** Ensemble voting config. Used when strategy_id = "ensemble" */
   ensemble?: EnsembleConfig;
+  /** Grid layout. Used when strategy_id = "grid" */
+  grid?: GridConfig;
+  /** Pair legs and z-score bands. Used when strategy_id = "pairs" */
+  pairs?: PairsConfig;
+  /** Hyperopt search space (default: the strategy plugin's paramSpace, then the built-in MA/RSI/risk space) */
+  hyperopt_space?: HyperoptParamSpec[];
+  /** Web dashboard login and operator access (unset = read-only, no login) */
+  dashboard?: DashboardConfig;
+  /** Telegram bot control plane (`npm run telegram-bot -- --poll`) */
+  telegram?: TelegramConfig;
+  /** Where runtime state (accounts, signal history, kill switch, caches...) is stored (default json) */
+  persistence?: PersistenceConfig;
+}
+
+// ─────────────────────────────────────────────────────
+// Runtime State Persistence
+// ─────────────────────────────────────────────────────
+
+/** json = one file per state under logs/ (legacy); sqlite = one transactional database */
+export type PersistenceBackend = "json" | "sqlite";
+
+export interface PersistenceConfig {
+  backend: PersistenceBackend;
+  /** SQLite file (default logs/openclaw.db); import existing JSON state with `npm run db:import` */
+  sqlite_path?: string;
+}
+
+// ─────────────────────────────────────────────────────
+// Telegram Bot Access
+// ─────────────────────────────────────────────────────
+
+/**
+ * read    = /profit /positions /balance /status /performance /daily /whitelist /help
+ * control = /pause /resume /killswitch /reload_config
+ * trade   = /forcesell /stoploss /buy /short (always confirmed with an inline button)
+ */
+export type TelegramCommandGroup = "read" | "control" | "trade";
+
+export interface TelegramChat {
+  /** Numeric chat ID (user or group); the bot replies to unknown chats with their ID */
+  chat_id: number;
+  /** Label recorded in the audit log */
+  name?: string;
+  /** Command groups and/or single commands ("/buy"); "*" = everything */
+  commands: (TelegramCommandGroup | "*" | `/${string}`)[];
+}
+
+export interface TelegramConfig {
+  /** Chats allowed to talk to the bot; everything else is refused */
+  chats: TelegramChat[];
+  /** Unanswered trade confirmations expire after this many seconds (default 60) */
+  confirm_timeout_seconds?: number;
+}
+
+// ─────────────────────────────────────────────────────
+// Web Dashboard Access
+// ─────────────────────────────────────────────────────
+
+/** viewer = read-only pages and GET API; operator = viewer + write actions */
+export type DashboardRole = "viewer" | "operator";
+
+export interface DashboardUser {
+  username: string;
+  /** "scrypt$<salt hex>$<hash hex>" — generate with `npm run dashboard -- --hash-password <pw>` */
+  password_hash: string;
+  role: DashboardRole;
+}
+
+export interface DashboardApiToken {
+  /** Label recorded in the audit log */
+  name: string;
+  /** "sha256$<hex>" — generate with `npm run dashboard -- --new-token` */
+  token_hash: string;
+  role: DashboardRole;
+}
+
+export interface DashboardConfig {
+  users?: DashboardUser[];
+  /** Sent as `Authorization: Bearer <token>`; not subject to CSRF checks */
+  tokens?: DashboardApiToken[];
+  /** Session cookie lifetime (default 12) */
+  session_ttl_hours?: number;
+  /** Add the Secure attribute to the session cookie (set when served behind HTTPS) */
+  secure_cookie?: boolean;
 }
 
 // ─────────────────────────────────────────────────────
@@ -353,9 +607,9 @@ export interface StrategyConfig {
 // ─────────────────────────────────────────────────────
 
 export interface ExchangeConfig {
-  name?: string;             // Default "binance"
-  credentials_path?: string; // API Key/Secret path
-  testnet?: boolean;         // true = use testapi.binance.vision, false = production
+  name?: string;             // "binance" (default) | "okx" — selects the ExchangeAdapter used by live trading
+  credentials_path?: string; // API Key/Secret path (default .secrets/{name}.json)
+  testnet?: boolean;         // true = Binance testnet / OKX demo trading, false = production
   market: MarketType;
   futures?: {
     contract_type: ContractType;
@@ -390,6 +644,7 @@ export interface StrategyProfile {
     rsi?: { period?: number; oversold?: number; overbought?: number; overbought_exit?: number };
     macd?: { enabled?: boolean; fast?: number; slow?: number; signal?: number };
     volume?: { surge_ratio?: number; low_ratio?: number };
+    indicators?: IndicatorConfig;
   };
   signals?: {
     buy?: string[];
@@ -398,6 +653,14 @@ export interface StrategyProfile {
     cover?: string[];
   };
   risk?: Partial<RiskConfig>;
+  /** Grid layout (strategy_id = "grid") */
+  grid?: GridConfig;
+  /** Pair legs and z-score bands (strategy_id = "pairs") */
+  pairs?: PairsConfig;
+  /** Ensemble voting config (strategy_id = "ensemble") */
+  ensemble?: EnsembleConfig;
+  /** Hyperopt search space for this profile (replaces strategy.yaml's) */
+  hyperopt_space?: HyperoptParamSpec[];
 }
 
 // ─────────────────────────────────────────────────────
@@ -0,0 +1,222 @@
+/**
+ * Web Dashboard Authentication
+ *
+ * Credentials come from strategy.yaml `dashboard`:
+ *   - users:  username + scrypt password hash → browser login with a session cookie
+ *   - tokens: sha256 hash of an API token    → `Authorization: Bearer <token>`
+ *
+ * Session cookies are HttpOnly + SameSite=Strict, and every write request made with a
+ * session must echo the session's CSRF token in the X-CSRF-Token header. Bearer tokens
+ * are never attached by the browser on its own, so they skip the CSRF check.
+ *
+ * Sessions live in memory: restarting the dashboard logs everyone out.
+ * With no users and no tokens configured, every request is an anonymous viewer.
+ */
+
+import crypto from "crypto";
+import type http from "http";
+import type { DashboardConfig, DashboardRole } from "../types.js";
+
+// ─────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────
+
+export const SESSION_COOKIE = "oc_session";
+export const CSRF_HEADER = "x-csrf-token";
+
+/** Who is making a request */
+export interface Principal {
+  /** Username, token name, or "anonymous" */
+  name: string;
+  role: DashboardRole;
+  via: "session" | "token" | "anonymous";
+  /** Set for session logins */
+  session?: Session;
+}
+
+export interface Session {
+  id: string;
+  username: string;
+  role: DashboardRole;
+  csrfToken: string;
+  expiresAt: number;
+}
+
+export type LoginResult =
+  | { ok: true; session: Session }
+  | { ok: false; reason: "invalid" | "locked" };
+
+const ROLE_RANK: Record<DashboardRole, number> = { viewer: 1, operator: 2 };
+
+export function hasRole(principal: Principal, role: DashboardRole): boolean {
+  return ROLE_RANK[principal.role] >= ROLE_RANK[role];
+}
+
+// ─────────────────────────────────────────────────────
+// Hashing
+// ─────────────────────────────────────────────────────
+
+const SCRYPT_KEYLEN = 64;
+
+/** Hash a password for `dashboard.users[].password_hash` */
+export function hashPassword(password: string, salt: Buffer = crypto.randomBytes(16)): string {
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEYLEN);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, saltHex, hashHex] = stored.split("$");
+  if (scheme !== "scrypt" || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  if (expected.length === 0) return false;
+  const actual = crypto.scryptSync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+/** New random API token (shown once; only its hash goes into the config) */
+export function generateToken(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+export function hashToken(token: string): string {
+  return `sha256$${crypto.createHash("sha256").update(token).digest("hex")}`;
+}
+
+function verifyToken(token: string, stored: string): boolean {
+  const actual = Buffer.from(hashToken(token));
+  const expected = Buffer.from(stored);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/** Constant-time string comparison */
+function safeEqual(a: string, b: string): boolean {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ab.length === bb.length && crypto.timingSafeEqual(ab, bb);
+}
+
+// ─────────────────────────────────────────────────────
+// Request Helpers
+// ─────────────────────────────────────────────────────
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header ?? "").split(";")) {
+    const eq = part.indexOf("=");
+    if (eq <= 0) continue;
+    const name = part.slice(0, eq).trim();
+    const value = part.slice(eq + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+}
+
+function bearerToken(req: http.IncomingMessage): string | null {
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(\S+)$/i.exec(header);
+  return match?.[1] ?? null;
+}
+
+// ─────────────────────────────────────────────────────
+// Authenticator
+// ─────────────────────────────────────────────────────
+
+const DEFAULT_SESSION_TTL_HOURS = 12;
+/** Failed logins per client before a lockout */
+const MAX_LOGIN_FAILURES = 5;
+const LOGIN_LOCKOUT_MS = 15 * 60_000;
+
+/** Compared against when the username is unknown, so lookups take the same time */
+const DUMMY_PASSWORD_HASH = hashPassword("", Buffer.alloc(16));
+
+export class DashboardAuth {
+  private readonly sessions = new Map<string, Session>();
+  private readonly failures = new Map<string, { count: number; firstAt: number }>();
+
+  constructor(private readonly cfg: DashboardConfig = {}, private readonly now: () => number = Date.now) {}
+
+  /** True once at least one user or token is configured */
+  get enabled(): boolean {
+    return (this.cfg.users?.length ?? 0) > 0 || (this.cfg.tokens?.length ?? 0) > 0;
+  }
+
+  get secureCookie(): boolean {
+    return this.cfg.secure_cookie ?? false;
+  }
+
+  /** Check a username / password; `client` (e.g. the remote IP) keys the lockout counter */
+  login(username: string, password: string, client: string): LoginResult {
+    const now = this.now();
+    const failed = this.failures.get(client);
+    if (failed && now - failed.firstAt < LOGIN_LOCKOUT_MS && failed.count >= MAX_LOGIN_FAILURES) {
+      return { ok: false, reason: "locked" };
+    }
+
+    const user = this.cfg.users?.find((u) => u.username === username);
+    const valid = verifyPassword(password, user?.password_hash ?? DUMMY_PASSWORD_HASH) && user !== undefined;
+    if (!valid) {
+      const fresh = !failed || now - failed.firstAt >= LOGIN_LOCKOUT_MS;
+      this.failures.set(client, { count: fresh ? 1 : failed.count + 1, firstAt: fresh ? now : failed.firstAt });
+      return { ok: false, reason: "invalid" };
+    }
+
+    this.failures.delete(client);
+    const session: Session = {
+      id: crypto.randomBytes(32).toString("hex"),
+      username: user.username,
+      role: user.role,
+      csrfToken: crypto.randomBytes(32).toString("hex"),
+      expiresAt: now + (this.cfg.session_ttl_hours ?? DEFAULT_SESSION_TTL_HOURS) * 3600_000,
+    };
+    this.sessions.set(session.id, session);
+    return { ok: true, session };
+  }
+
+  logout(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Resolve the caller from a Bearer token or the session cookie.
+   * @returns null when auth is enabled and the request carries no valid credential
+   */
+  authenticate(req: http.IncomingMessage): Principal | null {
+    if (!this.enabled) return { name: "anonymous", role: "viewer", via: "anonymous" };
+
+    const token = bearerToken(req);
+    if (token !== null) {
+      const match = this.cfg.tokens?.find((t) => verifyToken(token, t.token_hash));
+      return match ? { name: match.name, role: match.role, via: "token" } : null;
+    }
+
+    const sessionId = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+    if (sessionId === undefined) return null;
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+    if (session.expiresAt <= this.now()) {
+      this.sessions.delete(sessionId);
+      return null;
+    }
+    return { name: session.username, role: session.role, via: "session", session };
+  }
+
+  /** Session requests must echo the CSRF token; token and anonymous requests pass */
+  checkCsrf(principal: Principal, req: http.IncomingMessage): boolean {
+    if (!principal.session) return true;
+    const header = req.headers[CSRF_HEADER];
+    return typeof header === "string" && safeEqual(header, principal.session.csrfToken);
+  }
+
+  sessionCookie(session: Session): string {
+    const maxAge = Math.max(0, Math.floor((session.expiresAt - this.now()) / 1000));
+    return `${SESSION_COOKIE}=${session.id}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${maxAge}${this.secureCookie ? "; Secure" : ""}`;
+  }
+
+  clearCookie(): string {
+    return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0${this.secureCookie ? "; Secure" : ""}`;
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Web Dashboard Backtest Explorer
+ *
+ * Turns reports saved by backtest/report.ts (logs/backtest/*.json) into chart-ready views:
+ *   - equity curve with its drawdown (% below the running peak)
+ *   - per-symbol table and exit-reason breakdown (count, PnL, win rate per reason)
+ *   - candlesticks for one symbol over the report's range, with entry / exit markers
+ *
+ * Candles are not stored in reports; they come from the kline fetcher (disk cache first)
+ * and are merged into at most MAX_CANDLES bars so long ranges stay drawable.
+ */
+
+import { fetchHistoricalKlines } from "../backtest/fetcher.js";
+import type { SavedReport } from "../backtest/report.js";
+import type { BacktestMetrics, BacktestTrade } from "../backtest/metrics.js";
+import type { Kline } from "../types.js";
+
+// ─────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────
+
+export interface EquityDrawdownPoint {
+  time: number;
+  equity: number;
+  /** % below the running equity peak (0 at a new high) */
+  drawdownPct: number;
+}
+
+export interface ExitReasonStats {
+  reason: BacktestTrade["exitReason"];
+  count: number;
+  /** Share of all closed trades (0~1) */
+  share: number;
+  pnl: number;
+  winRate: number;
+}
+
+export interface SymbolRow {
+  symbol: string;
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  pnl: number;
+  fundingPaid: number;
+}
+
+export interface ReportView {
+  name: string;
+  config: SavedReport["config"];
+  metrics: Omit<BacktestMetrics, "equityCurve">;
+  totalFundingPaid: number;
+  fills?: SavedReport["fills"];
+  sleeves?: SavedReport["sleeves"];
+  equity: EquityDrawdownPoint[];
+  /** Sorted by PnL, best first */
+  perSymbol: SymbolRow[];
+  /** Sorted by count, most frequent first */
+  exitReasons: ExitReasonStats[];
+  /** Closed trades (sell / cover) */
+  trades: BacktestTrade[];
+}
+
+export interface Candle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface TradeMarker {
+  /** Index into `candles` of the bar containing the fill */
+  index: number;
+  kind: "entry" | "exit";
+  side: "long" | "short";
+  price: number;
+  time: number;
+  exitReason: BacktestTrade["exitReason"];
+  pnl: number;
+}
+
+export interface ReportCandles {
+  symbol: string;
+  timeframe: string;
+  /** Source bars merged into each candle (1 = native timeframe) */
+  barsPerCandle: number;
+  candles: Candle[];
+  markers: TradeMarker[];
+}
+
+export type KlineFetcher = (symbol: string, interval: string, startMs: number, endMs: number) => Promise<Kline[]>;
+
+/** Candles drawn per chart; longer ranges are merged into wider bars */
+export const MAX_CANDLES = 1500;
+
+// ─────────────────────────────────────────────────────
+// Report View
+// ─────────────────────────────────────────────────────
+
+export function equityWithDrawdown(curve: { time: number; equity: number }[]): EquityDrawdownPoint[] {
+  let peak = -Infinity;
+  return curve.map(({ time, equity }) => {
+    peak = Math.max(peak, equity);
+    const drawdownPct = peak > 0 ? ((peak - equity) / peak) * 100 : 0;
+    return { time, equity, drawdownPct };
+  });
+}
+
+export function exitReasonBreakdown(trades: BacktestTrade[]): ExitReasonStats[] {
+  const byReason = new Map<BacktestTrade["exitReason"], { count: number; pnl: number; wins: number }>();
+  for (const t of trades) {
+    const s = byReason.get(t.exitReason) ?? { count: 0, pnl: 0, wins: 0 };
+    s.count++;
+    s.pnl += t.pnl;
+    if (t.pnl > 0) s.wins++;
+    byReason.set(t.exitReason, s);
+  }
+  return [...byReason.entries()]
+    .map(([reason, s]) => ({
+      reason,
+      count: s.count,
+      share: s.count / trades.length,
+      pnl: s.pnl,
+      winRate: s.wins / s.count,
+    }))
+    .sort((a, b) => b.count - a.count);
+}
+
+export function buildReportView(name: string, report: SavedReport): ReportView {
+  const { equityCurve, ...metrics } = report.metrics;
+  const trades = report.trades.filter((t) => t.side === "sell" || t.side === "cover");
+  const perSymbol = Object.entries(report.perSymbol)
+    .map(([symbol, s]) => ({ symbol, ...s }))
+    .sort((a, b) => b.pnl - a.pnl);
+
+  return {
+    name,
+    config: report.config,
+    metrics,
+    totalFundingPaid: report.totalFundingPaid,
+    ...(report.fills && { fills: report.fills }),
+    ...(report.sleeves && { sleeves: report.sleeves }),
+    equity: equityWithDrawdown(equityCurve),
+    perSymbol,
+    exitReasons: exitReasonBreakdown(trades),
+    trades,
+  };
+}
+
+// ─────────────────────────────────────────────────────
+// Candles + Trade Markers
+// ─────────────────────────────────────────────────────
+
+/** Merge consecutive klines so that at most `max` candles remain */
+export function mergeCandles(klines: Kline[], max: number): { candles: Candle[]; barsPerCandle: number } {
+  const barsPerCandle = Math.max(1, Math.ceil(klines.length / max));
+  const candles: Candle[] = [];
+  for (let i = 0; i < klines.length; i += barsPerCandle) {
+    const group = klines.slice(i, i + barsPerCandle);
+    const first = group[0];
+    const last = group[group.length - 1];
+    if (!first || !last) continue;
+    candles.push({
+      time: first.openTime,
+      open: first.open,
+      high: Math.max(...group.map((k) => k.high)),
+      low: Math.min(...group.map((k) => k.low)),
+      close: last.close,
+    });
+  }
+  return { candles, barsPerCandle };
+}
+
+/** Index of the last candle opening at or before `time` (binary search; -1 = before the first) */
+function candleIndexAt(candles: Candle[], time: number): number {
+  let lo = 0;
+  let hi = candles.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if ((candles[mid]?.time ?? Infinity) <= time) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Candles of one report symbol with its trades' entries and exits
+ * @throws Error when the symbol is not part of the report
+ */
+export async function buildReportCandles(
+  report: SavedReport,
+  symbol: string,
+  fetchKlines: KlineFetcher = fetchHistoricalKlines,
+  maxCandles = MAX_CANDLES
+): Promise<ReportCandles> {
+  const { config } = report;
+  if (!config.symbols.includes(symbol)) {
+    throw new Error(`${symbol} is not part of this backtest (${config.symbols.join(", ")})`);
+  }
+
+  // startDate / endDate are UTC days; include the whole end day
+  const startMs = Date.parse(`${config.startDate}T00:00:00Z`);
+  const endMs = Date.parse(`${config.endDate}T00:00:00Z`) + 86_400_000;
+  const klines = (await fetchKlines(symbol, config.timeframe, startMs, endMs))
+    .filter((k) => k.openTime >= startMs && k.openTime < endMs);
+  const { candles, barsPerCandle } = mergeCandles(klines, maxCandles);
+
+  const markers: TradeMarker[] = [];
+  for (const t of report.trades) {
+    if (t.symbol !== symbol || (t.side !== "sell" && t.side !== "cover")) continue;
+    const side = t.side === "cover" ? "short" : "long";
+    const fills = [
+      { kind: "entry" as const, time: t.entryTime, price: t.entryPrice },
+      { kind: "exit" as const, time: t.exitTime, price: t.exitPrice },
+    ];
+    for (const fill of fills) {
+      const index = candleIndexAt(candles, fill.time);
+      if (index < 0) continue;
+      markers.push({ index, side, exitReason: t.exitReason, pnl: t.pnl, ...fill });
+    }
+  }
+
+  return { symbol, timeframe: config.timeframe, barsPerCandle, candles, markers };
+}
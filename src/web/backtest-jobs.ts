@@ -0,0 +1,296 @@
+/**
+ * Web Dashboard Backtest Jobs
+ *
+ * Backtests submitted from the dashboard run one at a time in a worker thread
+ * (web/backtest-worker.ts), so a long run never blocks the HTTP server or the live feed.
+ * The worker reports progress while it fetches candles and steps through them, then
+ * saves the result like `npm run backtest` does (logs/backtest/*.json) and answers with
+ * the report's file name.
+ *
+ * Jobs live in memory: the queue and job history are lost on restart, saved reports are not.
+ */
+
+import path from "path";
+import { Worker } from "worker_threads";
+import { fileURLToPath } from "url";
+import { listStrategyProfiles } from "../config/loader.js";
+import { tsxBootstrap } from "../optimization/worker-pool.js";
+import type { Timeframe } from "../types.js";
+
+// ─────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────
+
+/** What the dashboard form can set; mirrors the `npm run backtest` flags */
+export interface BacktestJobParams {
+  /** Strategy profile (config/strategies/<id>.yaml); undefined = strategy.yaml */
+  strategy?: string;
+  days: number;
+  timeframe?: Timeframe;
+  symbols?: string[];
+  initialUsdt: number;
+  spreadBps: number;
+  signalToNextOpen: boolean;
+  replay: boolean;
+  volumeCapPercent?: number;
+}
+
+export interface JobProgress {
+  phase: "queued" | "fetch" | "run" | "save";
+  done: number;
+  total: number;
+  detail: string;
+}
+
+export type JobStatus = "queued" | "running" | "done" | "failed";
+
+export interface BacktestJob {
+  id: string;
+  params: BacktestJobParams;
+  status: JobStatus;
+  progress: JobProgress;
+  submittedBy: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  /** Saved report file name (status "done") */
+  report?: string;
+  error?: string;
+}
+
+/** Messages a job worker posts back */
+export type JobWorkerMessage =
+  | { type: "progress"; progress: JobProgress }
+  | { type: "done"; report: string }
+  | { type: "error"; error: string };
+
+/** Runs one job to completion; resolves with the saved report's file name */
+export type JobRunner = (
+  job: { id: string; params: BacktestJobParams },
+  onProgress: (progress: JobProgress) => void
+) => Promise<string>;
+
+/** Rejected submission; `status` is the HTTP status to answer with */
+export class BacktestJobError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "BacktestJobError";
+  }
+}
+
+const TIMEFRAMES: readonly Timeframe[] = ["1m", "5m", "15m", "1h", "4h", "1d"];
+const MAX_DAYS = 730;
+const MAX_SYMBOLS = 20;
+/** Jobs waiting behind the running one */
+const MAX_QUEUED = 5;
+/** Finished jobs kept for the job list */
+const MAX_FINISHED = 20;
+
+// ─────────────────────────────────────────────────────
+// Parameter Validation
+// ─────────────────────────────────────────────────────
+
+function numberField(p: Record<string, unknown>, key: string, fallback: number, min: number, max: number): number {
+  const v = p[key];
+  if (v === undefined || v === null || v === "") return fallback;
+  const n = typeof v === "number" ? v : typeof v === "string" ? Number(v) : NaN;
+  if (!Number.isFinite(n) || n < min || n > max) {
+    throw new BacktestJobError(400, `"${key}" must be a number between ${min} and ${max}`);
+  }
+  return n;
+}
+
+function booleanField(p: Record<string, unknown>, key: string): boolean {
+  const v = p[key];
+  if (v === undefined) return false;
+  if (typeof v !== "boolean") throw new BacktestJobError(400, `"${key}" must be true or false`);
+  return v;
+}
+
+/** Symbols as an array or a comma-separated string; empty = strategy's own list */
+function symbolsField(v: unknown): string[] | undefined {
+  if (v === undefined || v === null) return undefined;
+  const raw = typeof v === "string" ? v.split(",") : Array.isArray(v) ? v : null;
+  if (raw === null) throw new BacktestJobError(400, `"symbols" must be a list or a comma-separated string`);
+  const symbols = raw.map((s) => (typeof s === "string" ? s.trim().toUpperCase() : "")).filter((s) => s !== "");
+  if (symbols.length > MAX_SYMBOLS) throw new BacktestJobError(400, `At most ${MAX_SYMBOLS} symbols per backtest`);
+  const bad = symbols.find((s) => !/^[A-Z0-9]{2,20}$/.test(s));
+  if (bad !== undefined) throw new BacktestJobError(400, `Invalid symbol: ${bad}`);
+  return symbols.length > 0 ? [...new Set(symbols)] : undefined;
+}
+
+/**
+ * Validate a submitted backtest form
+ * @param strategies Known strategy profiles (default: config/strategies/)
+ */
+export function parseJobParams(body: unknown, strategies: string[] = listStrategyProfiles()): BacktestJobParams {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new BacktestJobError(400, "Request body must be a JSON object");
+  }
+  const p = body as Record<string, unknown>;
+
+  const strategy = p["strategy"];
+  if (strategy !== undefined && strategy !== null && strategy !== "" &&
+      (typeof strategy !== "string" || !strategies.includes(strategy))) {
+    throw new BacktestJobError(400, `Unknown strategy: ${JSON.stringify(strategy)} (available: ${strategies.join(", ") || "none"})`);
+  }
+  const timeframe = p["timeframe"];
+  if (timeframe !== undefined && timeframe !== null && timeframe !== "" &&
+      !TIMEFRAMES.includes(timeframe as Timeframe)) {
+    throw new BacktestJobError(400, `"timeframe" must be one of ${TIMEFRAMES.join(", ")}`);
+  }
+  const symbols = symbolsField(p["symbols"]);
+  const volumeCap = p["volumeCapPercent"];
+  const replay = booleanField(p, "replay");
+  if (replay && volumeCap !== undefined && volumeCap !== null && volumeCap !== "") {
+    throw new BacktestJobError(400, "Replay mode does not support the volume fill model");
+  }
+
+  return {
+    ...(typeof strategy === "string" && strategy !== "" && { strategy }),
+    days: Math.round(numberField(p, "days", 90, 1, MAX_DAYS)),
+    ...(typeof timeframe === "string" && timeframe !== "" && { timeframe: timeframe as Timeframe }),
+    ...(symbols && { symbols }),
+    initialUsdt: numberField(p, "initialUsdt", 1000, 10, 1e9),
+    spreadBps: numberField(p, "spreadBps", 0, 0, 1000),
+    signalToNextOpen: booleanField(p, "signalToNextOpen"),
+    replay,
+    ...(volumeCap !== undefined && volumeCap !== null && volumeCap !== "" && {
+      volumeCapPercent: numberField(p, "volumeCapPercent", 0, 0.001, 100),
+    }),
+  };
+}
+
+// ─────────────────────────────────────────────────────
+// Worker Runner
+// ─────────────────────────────────────────────────────
+
+const THIS_FILE = fileURLToPath(import.meta.url);
+
+/** Worker entry next to this module (.ts under tsx, .js when compiled) */
+export const JOB_WORKER_URL = new URL(`./backtest-worker${path.extname(THIS_FILE)}`, import.meta.url);
+
+/** Run a job in its own worker thread */
+export const runJobInWorker: JobRunner = (job, onProgress) =>
+  new Promise((resolve, reject) => {
+    const worker = JOB_WORKER_URL.pathname.endsWith(".ts")
+      ? new Worker(tsxBootstrap(JOB_WORKER_URL), { workerData: job })
+      : new Worker(JOB_WORKER_URL, { workerData: job });
+    let settled = false;
+    const settle = (fn: () => void): void => {
+      if (settled) return;
+      settled = true;
+      fn();
+      void worker.terminate();
+    };
+
+    worker.on("message", (msg: JobWorkerMessage) => {
+      if (msg.type === "progress") onProgress(msg.progress);
+      else if (msg.type === "done") settle(() => { resolve(msg.report); });
+      else settle(() => { reject(new Error(msg.error)); });
+    });
+    worker.on("error", (err) => { settle(() => { reject(err); }); });
+    worker.on("exit", (code) => {
+      settle(() => { reject(new Error(`Backtest worker exited with code ${code}`)); });
+    });
+  });
+
+// ─────────────────────────────────────────────────────
+// Job Queue
+// ─────────────────────────────────────────────────────
+
+export class BacktestJobs {
+  private readonly jobs: BacktestJob[] = [];
+  private running = false;
+  private seq = 0;
+
+  /**
+   * @param runner    Executes a job (tests substitute an in-process fake)
+   * @param onChange  Called with a copy of the job on every status / progress change
+   */
+  constructor(
+    private readonly runner: JobRunner = runJobInWorker,
+    private readonly onChange: (job: BacktestJob) => void = () => undefined
+  ) {}
+
+  /**
+   * Queue a backtest
+   * @throws BacktestJobError 429 when the queue is full
+   */
+  submit(params: BacktestJobParams, submittedBy: string): BacktestJob {
+    if (this.jobs.filter((j) => j.status === "queued").length >= MAX_QUEUED) {
+      throw new BacktestJobError(429, `Backtest queue is full (${MAX_QUEUED} waiting), try again later`);
+    }
+    const job: BacktestJob = {
+      id: `${Date.now().toString(36)}${(++this.seq).toString(36)}`,
+      params,
+      status: "queued",
+      progress: { phase: "queued", done: 0, total: 0, detail: "Waiting for the running backtest" },
+      submittedBy,
+      createdAt: Date.now(),
+    };
+    this.jobs.push(job);
+    this.emit(job);
+    this.runNext();
+    return structuredClone(job);
+  }
+
+  /** Newest first */
+  list(): BacktestJob[] {
+    return this.jobs.map((j) => structuredClone(j)).reverse();
+  }
+
+  get(id: string): BacktestJob | undefined {
+    const job = this.jobs.find((j) => j.id === id);
+    return job && structuredClone(job);
+  }
+
+  private runNext(): void {
+    if (this.running) return;
+    const job = this.jobs.find((j) => j.status === "queued");
+    if (!job) return;
+
+    this.running = true;
+    job.status = "running";
+    job.startedAt = Date.now();
+    job.progress = { phase: "fetch", done: 0, total: 0, detail: "Starting" };
+    this.emit(job);
+
+    void this.runner({ id: job.id, params: job.params }, (progress) => {
+      job.progress = progress;
+      this.emit(job);
+    })
+      .then((report) => {
+        job.status = "done";
+        job.report = report;
+        job.progress = { phase: "save", done: 1, total: 1, detail: `Saved ${report}` };
+      })
+      .catch((err: unknown) => {
+        job.status = "failed";
+        job.error = err instanceof Error ? err.message : String(err);
+      })
+      .finally(() => {
+        job.finishedAt = Date.now();
+        this.running = false;
+        this.emit(job);
+        this.prune();
+        this.runNext();
+      });
+  }
+
+  private prune(): void {
+    const finished = this.jobs.filter((j) => j.status === "done" || j.status === "failed");
+    for (const old of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED))) {
+      this.jobs.splice(this.jobs.indexOf(old), 1);
+    }
+  }
+
+  private emit(job: BacktestJob): void {
+    try {
+      this.onChange(structuredClone(job));
+    } catch { /* a broken listener must not stall the queue */ }
+  }
+}
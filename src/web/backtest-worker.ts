@@ -0,0 +1,85 @@
+/**
+ * Web Dashboard Backtest Job (worker_threads entry)
+ *
+ * Started by runJobInWorker with { id, params } as workerData: fetches candles, runs the
+ * backtest (or replay), saves the report and posts progress / done / error messages.
+ * Same defaults as `npm run backtest`: 0.1% fee, 0.05% slippage.
+ */
+
+import path from "path";
+import { parentPort, workerData } from "worker_threads";
+import { fetchHistoricalKlines } from "../backtest/fetcher.js";
+import { runBacktest } from "../backtest/runner.js";
+import { runReplay } from "../backtest/replay.js";
+import { createVolumeFillModel } from "../backtest/fill-model.js";
+import { saveReport } from "../backtest/report.js";
+import { loadStrategyConfig, loadStrategyProfile, applyStrategyProfile } from "../config/loader.js";
+import type { Kline, StrategyConfig } from "../types.js";
+import type { BacktestJobParams, JobProgress, JobWorkerMessage } from "./backtest-jobs.js";
+
+const job = workerData as { id: string; params: BacktestJobParams };
+const port = parentPort;
+if (!port) throw new Error("backtest-worker must run in a worker thread");
+
+function post(msg: JobWorkerMessage): void {
+  port?.postMessage(msg);
+}
+
+function progress(phase: JobProgress["phase"], done: number, total: number, detail: string): void {
+  post({ type: "progress", progress: { phase, done, total, detail } });
+}
+
+async function run(params: BacktestJobParams): Promise<string> {
+  const base = loadStrategyConfig();
+  const profiled = params.strategy ? applyStrategyProfile(base, loadStrategyProfile(params.strategy)) : base;
+  const cfg: StrategyConfig = {
+    ...profiled,
+    symbols: params.symbols ?? profiled.symbols,
+    timeframe: params.timeframe ?? profiled.timeframe,
+  };
+
+  const endMs = Date.now();
+  const startMs = endMs - params.days * 86_400_000;
+  const fetches = cfg.symbols.length * (cfg.trend_timeframe ? 2 : 1);
+  let fetched = 0;
+  const fetchAll = async (timeframe: string): Promise<Record<string, Kline[]>> => {
+    const out: Record<string, Kline[]> = {};
+    for (const symbol of cfg.symbols) {
+      progress("fetch", fetched, fetches, `${symbol} ${timeframe}`);
+      out[symbol] = await fetchHistoricalKlines(symbol, timeframe, startMs, endMs, (n) => {
+        progress("fetch", fetched, fetches, `${symbol} ${timeframe}: ${n} bars`);
+      });
+      fetched++;
+    }
+    return out;
+  };
+
+  const klinesBySymbol = await fetchAll(cfg.timeframe);
+  const trendKlinesBySymbol = cfg.trend_timeframe ? await fetchAll(cfg.trend_timeframe) : undefined;
+
+  progress("run", 0, 1, params.replay ? "Replaying through the paper engine" : "Running backtest");
+  const result = params.replay
+    ? await runReplay(klinesBySymbol, cfg, {
+      initialUsdt: params.initialUsdt,
+      feeRate: 0.001,
+      slippagePercent: 0.05,
+    }, trendKlinesBySymbol)
+    : runBacktest(klinesBySymbol, cfg, {
+      initialUsdt: params.initialUsdt,
+      feeRate: 0.001,
+      slippagePercent: 0.05,
+      spreadBps: params.spreadBps,
+      signalToNextOpen: params.signalToNextOpen,
+      ...(params.volumeCapPercent !== undefined && {
+        fillModel: createVolumeFillModel({ maxVolumeFraction: params.volumeCapPercent / 100 }),
+      }),
+      onProgress: (done, total) => { progress("run", done, total, "Running backtest"); },
+    }, trendKlinesBySymbol);
+
+  progress("save", 0, 1, "Saving report");
+  return path.basename(saveReport(result, `job-${job.id}`));
+}
+
+run(job.params)
+  .then((report) => { post({ type: "done", report }); })
+  .catch((err: unknown) => { post({ type: "error", error: err instanceof Error ? err.message : String(err) }); });
@@ -8,7 +8,26 @@
  *   GET /api/perf       → Performance stats (by symbol / by date)
  *   GET /api/logs       → monitor.log tail lines
  *   GET /api/scenarios  → Scenario list
- *   GET /api/health     → Health check
+ *   GET /api/health     → Health check (no login required)
+ *   GET /api/stream     → Server-Sent Events: prices, positions, trades, signals, logs (see web/live-feed.ts)
+ *   GET /api/session    → Current user, role and CSRF token
+ *   GET /api/audit      → Operator audit log (operator)
+ *   GET /api/backtests                       → Saved backtest reports (logs/backtest/), newest first
+ *   GET /api/backtests/report?name=          → Report view: equity + drawdown, per-symbol, exit reasons, trades
+ *   GET /api/backtests/candles?name=&symbol= → Candles with entry / exit markers (see web/backtest-explorer.ts)
+ *   GET /api/backtests/strategies            → Strategy profiles for the backtest form
+ *   GET /api/backtests/jobs                  → Submitted backtest jobs with progress
+ *
+ *   POST /api/login                 → {username, password} → session cookie
+ *   POST /api/logout
+ *   POST /api/actions/kill-switch   → {active, reason?, autoResumeMinutes?}      (operator)
+ *   POST /api/actions/force-exit    → {scenarioId, symbol}                        (operator)
+ *   POST /api/actions/pause         → {scenarioId, paused}                        (operator)
+ *   POST /api/actions/sl-tp         → {scenarioId, symbol, stopLoss?, takeProfit?} (operator)
+ *   POST /api/backtests/jobs        → {strategy?, days, timeframe?, symbols?, ...}  (operator, see web/backtest-jobs.ts)
+ *
+ * Access: strategy.yaml `dashboard` (see web/auth.ts). Without users / tokens the
+ * dashboard stays read-only and open on localhost; every POST action returns 403.
  */
 
 import http from "http";
@@ -18,7 +37,26 @@ import path from "path";
 import { fileURLToPath } from "url";
 import { createLogger } from "../logger.js";
 import { loadAccount } from "../paper/account.js";
-import { loadPaperConfig } from "../config/loader.js";
+import { stateDb } from "../persistence/store.js";
+import { loadScenarioState } from "../paper/scenario-state.js";
+import { loadPaperConfig, loadStrategyConfig, listStrategyProfiles } from "../config/loader.js";
+import { readKillSwitch } from "../health/kill-switch.js";
+import { DashboardAuth, hasRole } from "./auth.js";
+import type { Principal } from "./auth.js";
+import {
+  OperatorActionError,
+  isOperatorAction,
+  runOperatorAction,
+  appendAudit,
+  readAuditLog,
+} from "./operator-actions.js";
+import type { ActionDeps } from "./operator-actions.js";
+import { DashboardFeed } from "./live-feed.js";
+import { buildReportView, buildReportCandles } from "./backtest-explorer.js";
+import { BacktestJobs, BacktestJobError, parseJobParams } from "./backtest-jobs.js";
+import { listReports, loadReport } from "../backtest/report.js";
+import { BinanceWsManager } from "../exchange/ws.js";
+import type { DashboardConfig } from "../types.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const LOGS_DIR = path.resolve(__dirname, "../../logs");
@@ -39,6 +77,8 @@ export interface AccountSummary {
   tradeCount: number;
   winRate: number;
   positionCount: number;
+  /** New entries paused (drawdown limit or operator) */
+  paused: boolean;
 }
 
 export interface PositionWithPnl {
@@ -94,6 +134,7 @@ export interface DashboardData {
   recentTrades: TradeRecord[];
   equityCurve: EquityPoint[];
   signalHistory: SignalRecord[];
+  killSwitch: { active: boolean; reason: string };
   lastUpdate: number;
 }
 
@@ -175,6 +216,7 @@ export function buildDashboardData(): DashboardData {
       tradeCount: account.trades.length,
       winRate,
       positionCount: positionList.length,
+      paused: loadScenarioState(scenario.id).paused,
     });
 
     for (const pos of positionList) {
@@ -230,7 +272,9 @@ export function buildDashboardData(): DashboardData {
   const equityCurve = buildEquityCurve(accounts, allTrades);
   const signalHistory = loadSignalHistory(50);
 
-  return { accounts, positions, recentTrades, equityCurve, signalHistory, lastUpdate: Date.now() };
+  const { active, reason } = readKillSwitch();
+
+  return { accounts, positions, recentTrades, equityCurve, signalHistory, killSwitch: { active, reason }, lastUpdate: Date.now() };
 }
 
 export function buildEquityCurve(accounts: AccountSummary[], trades: TradeRecord[]): EquityPoint[] {
@@ -413,20 +457,22 @@ export function getLogLines(tail = 200): string[] {
 
 function loadSignalHistory(limit = 50): SignalRecord[] {
   const signalFile = path.join(LOGS_DIR, "signal-history.jsonl");
+  const db = stateDb();
   try {
-    const content = fs.readFileSync(signalFile, "utf-8");
-    const lines = content
-      .trim()
-      .split("\n")
-      .filter(Boolean)
-      .map((line) => {
-        try {
-          return JSON.parse(line) as Record<string, unknown>;
-        } catch {
-          return null;
-        }
-      })
-      .filter(Boolean);
+    const records: (Record<string, unknown> | null)[] = db
+      ? (db.getSignals() as unknown as Record<string, unknown>[])
+      : fs.readFileSync(signalFile, "utf-8")
+        .trim()
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => {
+          try {
+            return JSON.parse(line) as Record<string, unknown>;
+          } catch {
+            return null;
+          }
+        });
+    const lines = records.filter((r) => r !== null && r["status"] !== "rejected"); // filtered signals were never traded
 
     return lines
       .slice(-limit)
@@ -526,6 +572,8 @@ body{display:flex;min-height:100vh;background:var(--bg);color:var(--text);font-f
 .badge-stopped{background:rgba(248,113,113,.15);color:var(--red)}
 .refresh-btn{background:none;border:1px solid var(--border);color:var(--muted);padding:4px 12px;border-radius:6px;cursor:pointer;font-size:0.8rem}
 .refresh-btn:hover{border-color:var(--blue);color:var(--blue)}
+.refresh-btn.danger:hover{border-color:var(--red);color:var(--red)}
+.user-badge{font-size:0.8rem;color:var(--muted)}
 #content{flex:1;padding:24px;overflow-y:auto}
 .page{display:none}.page.active{display:block}
 
@@ -585,6 +633,15 @@ tr:hover td{background:rgba(30,41,59,.6)}
 .log-controls label{display:flex;align-items:center;gap:6px;font-size:0.85rem;color:var(--muted);cursor:pointer}
 .log-controls input[type=checkbox]{accent-color:var(--blue)}
 
+/* ── Backtests ── */
+.bt-form{display:grid;grid-template-columns:repeat(4,1fr);gap:10px 14px;margin-bottom:14px}
+.bt-form label{display:flex;flex-direction:column;gap:4px;font-size:0.75rem;color:var(--muted)}
+.bt-form label.check{flex-direction:row;align-items:center;gap:6px}
+.bt-form input[type=text],.bt-form input[type=number],.bt-form select{background:var(--bg);border:1px solid var(--border);color:var(--text);padding:6px 8px;border-radius:6px;font-size:0.85rem}
+.progress{height:6px;background:var(--border);border-radius:3px;overflow:hidden;min-width:120px}
+.progress>div{height:100%;background:var(--blue)}
+tr.clickable{cursor:pointer}
+
 /* ── Loading skeleton ── */
 .skeleton{background:linear-gradient(90deg,#1e293b 25%,#243047 50%,#1e293b 75%);background-size:200% 100%;animation:shimmer 1.5s infinite;border-radius:6px;height:20px;margin-bottom:8px}
 @keyframes shimmer{0%{background-position:200% 0}100%{background-position:-200% 0}}
@@ -600,6 +657,7 @@ tr:hover td{background:rgba(30,41,59,.6)}
   #main{margin-left:0}
   .kpi-grid{grid-template-columns:1fr 1fr}
   .grid-2{grid-template-columns:1fr}
+  .bt-form{grid-template-columns:1fr 1fr}
 }
 </style>
 </head>
@@ -617,6 +675,7 @@ tr:hover td{background:rgba(30,41,59,.6)}
     <li onclick="switchPage('positions')"><span class="icon">💼</span>Positions</li>
     <li onclick="switchPage('trades')"><span class="icon">📋</span>Trades</li>
     <li onclick="switchPage('performance')"><span class="icon">📈</span>Performance</li>
+    <li onclick="switchPage('backtests')"><span class="icon">🧪</span>Backtests</li>
     <li onclick="switchPage('signals')"><span class="icon">🔔</span>Signals</li>
     <li onclick="switchPage('logs')"><span class="icon">📜</span>Logs</li>
   </ul>
@@ -632,7 +691,10 @@ tr:hover td{background:rgba(30,41,59,.6)}
     <span class="topbar-title" id="page-title">Overview</span>
     <div class="topbar-right">
       <span class="badge-status badge-running" id="bot-status">● RUNNING</span>
+      <button class="refresh-btn danger" id="kill-btn" style="display:none" onclick="toggleKillSwitch()">⛔ Kill Switch</button>
       <button class="refresh-btn" onclick="manualRefresh()">↻ Refresh</button>
+      <span class="user-badge" id="user-badge"></span>
+      <button class="refresh-btn" id="logout-btn" style="display:none" onclick="logout()">Logout</button>
     </div>
   </div>
   <div id="content">
@@ -658,6 +720,10 @@ tr:hover td{background:rgba(30,41,59,.6)}
         <div class="section-head">💼 Current Positions</div>
         <div class="table-wrap" id="positions-table"><div class="skeleton"></div></div>
       </div>
+      <div class="card">
+        <div class="section-head">🎛 Scenarios</div>
+        <div class="table-wrap" id="scenarios-table"><div class="skeleton"></div></div>
+      </div>
     </div>
 
     <!-- Trades -->
@@ -692,6 +758,66 @@ tr:hover td{background:rgba(30,41,59,.6)}
       </div>
     </div>
 
+    <!-- Backtests -->
+    <div id="page-backtests" class="page">
+      <div class="card" id="bt-run-card" style="display:none">
+        <div class="section-head">▶ Run Backtest</div>
+        <form class="bt-form" id="bt-form">
+          <label>Strategy<select name="strategy" id="bt-strategy"><option value="">strategy.yaml</option></select></label>
+          <label>Days<input type="number" name="days" value="90" min="1" max="730"/></label>
+          <label>Timeframe<select name="timeframe">
+            <option value="">Strategy default</option><option>5m</option><option>15m</option><option>1h</option><option>4h</option><option>1d</option>
+          </select></label>
+          <label>Symbols<input type="text" name="symbols" placeholder="Strategy default, e.g. BTCUSDT,ETHUSDT"/></label>
+          <label>Initial USDT<input type="number" name="initialUsdt" value="1000" min="10"/></label>
+          <label>Spread (bps)<input type="number" name="spreadBps" value="0" min="0"/></label>
+          <label>Volume cap (%)<input type="number" name="volumeCapPercent" placeholder="Off" min="0" max="100" step="any"/></label>
+          <div style="display:flex;flex-direction:column;justify-content:flex-end;gap:6px">
+            <label class="check"><input type="checkbox" name="signalToNextOpen"/> Fill at next open</label>
+            <label class="check"><input type="checkbox" name="replay"/> Replay through paper engine</label>
+          </div>
+        </form>
+        <button class="refresh-btn" id="bt-submit">▶ Run</button>
+        <div class="table-wrap" id="bt-jobs" style="margin-top:14px"></div>
+      </div>
+      <div class="card">
+        <div class="section-head">🧪 Saved Backtests</div>
+        <div class="table-wrap" id="bt-list"><div class="skeleton"></div></div>
+      </div>
+      <div id="bt-detail" style="display:none">
+        <div class="card">
+          <div style="display:flex;align-items:center;justify-content:space-between;margin-bottom:14px">
+            <div class="section-head" style="margin:0" id="bt-title"></div>
+            <select class="scenario-select" id="bt-compare"><option value="">Compare with…</option></select>
+          </div>
+          <div class="table-wrap" id="bt-metrics"></div>
+        </div>
+        <div class="card">
+          <div class="section-head" id="bt-equity-title">📈 Equity</div>
+          <div class="chart-wrap"><canvas id="bt-equity-chart"></canvas></div>
+          <div class="section-head" style="margin-top:14px">📉 Drawdown</div>
+          <div class="chart-wrap-sm"><canvas id="bt-dd-chart"></canvas></div>
+        </div>
+        <div class="card">
+          <div style="display:flex;align-items:center;justify-content:space-between;margin-bottom:14px">
+            <div class="section-head" style="margin:0">🕯 Candles &amp; Trades <small class="muted" id="bt-candle-note"></small></div>
+            <select class="scenario-select" id="bt-symbol"></select>
+          </div>
+          <div class="chart-wrap" style="height:360px"><canvas id="bt-candle-chart"></canvas></div>
+        </div>
+        <div class="grid-2">
+          <div class="card">
+            <div class="section-head">🪙 Per Symbol</div>
+            <div class="table-wrap" id="bt-symbols"></div>
+          </div>
+          <div class="card">
+            <div class="section-head">🚪 Exit Reasons</div>
+            <div class="table-wrap" id="bt-exits"></div>
+          </div>
+        </div>
+      </div>
+    </div>
+
     <!-- Signals -->
     <div id="page-signals" class="page">
       <div class="card">
@@ -722,8 +848,9 @@ var state = {
   prices: {},
   perf: null,
   currentPage: 'overview',
-  refreshInterval: null,
-  logInterval: null
+  logs: [],
+  stream: null,
+  session: null
 };
 var charts = {};
 
@@ -733,6 +860,7 @@ var PAGE_TITLES = {
   positions: 'Positions',
   trades: 'Trades',
   performance: 'Performance',
+  backtests: 'Backtests',
   signals: 'Signals',
   logs: 'Logs'
 };
@@ -743,15 +871,16 @@ function switchPage(name) {
   var page = document.getElementById('page-' + name);
   if (page) page.classList.add('active');
   var navItems = document.querySelectorAll('.nav-links li');
-  var idx = ['overview','positions','trades','performance','signals','logs'].indexOf(name);
+  var idx = ['overview','positions','trades','performance','backtests','signals','logs'].indexOf(name);
   if (navItems[idx]) navItems[idx].classList.add('active');
   document.getElementById('page-title').textContent = PAGE_TITLES[name] || name;
   state.currentPage = name;
 
   // per-page actions
   if (name === 'performance') loadPerf();
-  if (name === 'logs') { fetchLogs(); startLogRefresh(); } else stopLogRefresh();
-  if (name === 'trades') populateScenarioFilter();
+  if (name === 'backtests') loadBacktests();
+  if (name === 'logs') renderLogs(state.logs);
+  if (state.data) renderAll();
 }
 
 // ── Formatters ──
@@ -901,11 +1030,38 @@ function renderPositionsPage() {
       + '<td class="pos">' + fmt2(p.takeProfit) + '</td>'
       + '<td class="neg">' + slDist.toFixed(2) + '%</td>'
       + '<td class="muted">' + fmtDuration(p.entryTime) + '</td>'
+      + (isOperator()
+        ? '<td>' + actionBtn('sl-tp', p.scenarioId, p.symbol, 'SL/TP') + ' ' + actionBtn('force-exit', p.scenarioId, p.symbol, 'Close') + '</td>'
+        : '')
       + '</tr>';
   }).join('');
   wrap.innerHTML = '<table><thead><tr>'
     + '<th>Symbol</th><th>Side</th><th>Qty</th><th>Entry</th><th>Current</th>'
     + '<th>UPnL</th><th>UPnL%</th><th>SL</th><th>TP</th><th>SL Dist</th><th>Duration</th>'
+    + (isOperator() ? '<th>Actions</th>' : '')
+    + '</tr></thead><tbody>' + rows + '</tbody></table>';
+}
+
+function renderScenariosTable() {
+  var d = state.data;
+  var wrap = document.getElementById('scenarios-table');
+  if (!d || !d.accounts || d.accounts.length === 0) {
+    wrap.innerHTML = '<div class="no-data">No scenarios</div>';
+    return;
+  }
+  var rows = d.accounts.map(function(a) {
+    return '<tr>'
+      + '<td><strong>' + escHtml(a.scenarioId) + '</strong></td>'
+      + '<td>' + escHtml(a.name) + '</td>'
+      + '<td>' + fmtUsdt(a.totalEquity) + '</td>'
+      + '<td>' + a.positionCount + '</td>'
+      + '<td>' + (a.paused ? '<span class="neg">⏸ Paused</span>' : '<span class="pos">● Active</span>') + '</td>'
+      + (isOperator() ? '<td>' + actionBtn(a.paused ? 'resume' : 'pause', a.scenarioId, '', a.paused ? 'Resume' : 'Pause') + '</td>' : '')
+      + '</tr>';
+  }).join('');
+  wrap.innerHTML = '<table><thead><tr>'
+    + '<th>Scenario</th><th>Name</th><th>Equity</th><th>Positions</th><th>Entries</th>'
+    + (isOperator() ? '<th>Actions</th>' : '')
     + '</tr></thead><tbody>' + rows + '</tbody></table>';
 }
 
@@ -1045,6 +1201,271 @@ function renderPerfPage() {
   });
 }
 
+// ── Backtests page ──
+var bt = { reports: [], jobs: [], strategies: null, view: null, compare: null };
+var CHART_SCALE = { ticks: { color: '#94a3b8', font: { size: 11 } }, grid: { color: '#334155' } };
+
+function fmtDate(ts) { return new Date(ts).toISOString().slice(0, 10); }
+function btGet(path) {
+  return fetch(path).then(function(r) {
+    if (r.status === 401) { location.reload(); throw new Error('Session expired'); }
+    return r.json().then(function(j) {
+      if (!r.ok) throw new Error(j.error || ('HTTP ' + r.status));
+      return j;
+    });
+  });
+}
+
+function loadBacktests() {
+  document.getElementById('bt-run-card').style.display = isOperator() ? '' : 'none';
+  btGet('/api/backtests').then(function(list) {
+    bt.reports = list;
+    renderBacktestList();
+  }).catch(function(e) { console.error('backtests fetch failed', e); });
+  btGet('/api/backtests/jobs').then(function(jobs) {
+    bt.jobs = jobs;
+    renderBacktestJobs();
+  }).catch(function(e) { console.error('backtest jobs fetch failed', e); });
+  if (!bt.strategies && isOperator()) {
+    btGet('/api/backtests/strategies').then(function(list) {
+      bt.strategies = list;
+      var sel = document.getElementById('bt-strategy');
+      list.forEach(function(id) {
+        var opt = document.createElement('option');
+        opt.value = id; opt.textContent = id;
+        sel.appendChild(opt);
+      });
+    }).catch(function(e) { console.error('strategies fetch failed', e); });
+  }
+}
+
+function renderBacktestList() {
+  var wrap = document.getElementById('bt-list');
+  if (bt.reports.length === 0) {
+    wrap.innerHTML = '<div class="no-data">No saved backtests (npm run backtest, or run one above)</div>';
+    return;
+  }
+  wrap.innerHTML = '<table><thead><tr><th>Saved</th><th>Strategy</th><th>TF</th><th>Range</th><th>Symbols</th>'
+    + '<th>Return</th><th>Max DD</th><th>Sharpe</th><th>Trades</th><th>Win Rate</th></tr></thead><tbody>'
+    + bt.reports.map(function(r) {
+      return '<tr class="clickable" data-bt-open="' + escHtml(r.name) + '" title="' + escHtml(r.name) + '">'
+        + '<td>' + fmtTime(r.savedAt) + '</td>'
+        + '<td><strong>' + escHtml(r.strategy) + '</strong>' + (r.portfolio ? ' <small class="muted">portfolio</small>' : '') + '</td>'
+        + '<td>' + r.timeframe + '</td>'
+        + '<td>' + r.startDate + ' → ' + r.endDate + '</td>'
+        + '<td>' + r.symbols.length + '</td>'
+        + '<td>' + fmtPct(r.totalReturnPercent) + '</td>'
+        + '<td class="neg">-' + fmt2(r.maxDrawdown) + '%</td>'
+        + '<td>' + fmt2(r.sharpeRatio) + '</td>'
+        + '<td>' + r.totalTrades + '</td>'
+        + '<td>' + fmt2(r.winRate * 100) + '%</td>'
+        + '</tr>';
+    }).join('') + '</tbody></table>';
+
+  var sel = document.getElementById('bt-compare');
+  var current = sel.value;
+  sel.innerHTML = '<option value="">Compare with…</option>' + bt.reports.map(function(r) {
+    return '<option value="' + escHtml(r.name) + '">' + escHtml(r.strategy) + ' · ' + r.startDate + ' → ' + r.endDate + ' · ' + escHtml(r.name) + '</option>';
+  }).join('');
+  sel.value = current;
+}
+
+function openBacktest(name) {
+  btGet('/api/backtests/report?name=' + encodeURIComponent(name)).then(function(view) {
+    bt.view = view;
+    bt.compare = null;
+    document.getElementById('bt-compare').value = '';
+    var symSel = document.getElementById('bt-symbol');
+    symSel.innerHTML = view.config.symbols.map(function(s) { return '<option>' + escHtml(s) + '</option>'; }).join('');
+    renderBacktestDetail();
+    loadBacktestCandles(view.config.symbols[0]);
+    document.getElementById('bt-detail').scrollIntoView();
+  }).catch(function(e) { alert('❌ ' + e.message); });
+}
+
+function setBacktestCompare(name) {
+  if (!name) { bt.compare = null; renderBacktestDetail(); return; }
+  btGet('/api/backtests/report?name=' + encodeURIComponent(name)).then(function(view) {
+    bt.compare = view;
+    renderBacktestDetail();
+  }).catch(function(e) { alert('❌ ' + e.message); });
+}
+
+function renderBacktestDetail() {
+  var v = bt.view;
+  if (!v) return;
+  var c = bt.compare;
+  document.getElementById('bt-detail').style.display = '';
+  document.getElementById('bt-title').textContent = '🧪 ' + v.config.strategy + ' · ' + v.config.timeframe
+    + ' · ' + v.config.startDate + ' → ' + v.config.endDate;
+
+  // Metrics (side by side when comparing)
+  var rows = [
+    ['Total Return', function(x) { return fmtPct(x.metrics.totalReturnPercent) + ' <small class="muted">' + fmtPnl(x.metrics.totalReturn) + '</small>'; }],
+    ['Max Drawdown', function(x) { return '<span class="neg">-' + fmt2(x.metrics.maxDrawdown) + '%</span>'; }],
+    ['Sharpe / Sortino', function(x) { return fmt2(x.metrics.sharpeRatio) + ' / ' + fmt2(x.metrics.sortinoRatio); }],
+    ['Calmar', function(x) { return fmt2(x.metrics.calmarRatio); }],
+    ['Trades', function(x) { return x.metrics.totalTrades; }],
+    ['Win Rate', function(x) { return fmt2(x.metrics.winRate * 100) + '%'; }],
+    ['Profit Factor', function(x) { return fmt2(x.metrics.profitFactor); }],
+    ['Avg Hold', function(x) { return fmt2(x.metrics.avgHoldingHours) + 'h'; }],
+    ['Initial', function(x) { return fmtUsdt(x.config.initialUsdt); }]
+  ];
+  var head = '<th></th><th>' + escHtml(v.name) + '</th>' + (c ? '<th>' + escHtml(c.name) + '</th>' : '');
+  document.getElementById('bt-metrics').innerHTML = '<table><thead><tr>' + head + '</tr></thead><tbody>'
+    + rows.map(function(r) {
+      return '<tr><td class="muted">' + r[0] + '</td><td>' + r[1](v) + '</td>' + (c ? '<td>' + r[1](c) + '</td>' : '') + '</tr>';
+    }).join('') + '</tbody></table>';
+
+  // Equity: USDT for one report, % return when overlaying two
+  var toPoints = function(x, key) {
+    return x.equity.map(function(p) {
+      var y = key === 'pct' ? (p.equity / x.config.initialUsdt - 1) * 100 : key === 'dd' ? -p.drawdownPct : p.equity;
+      return { x: p.time, y: y };
+    });
+  };
+  var series = function(x, key, color) {
+    return { label: x.name, data: toPoints(x, key), borderColor: color, backgroundColor: color, borderWidth: 1.5, pointRadius: 0, fill: false };
+  };
+  var timeScale = { type: 'linear', ticks: { color: '#94a3b8', maxTicksLimit: 8, font: { size: 11 }, callback: function(t) { return fmtDate(t); } }, grid: { color: '#1e293b' } };
+  var lineOpts = { responsive: true, maintainAspectRatio: false, animation: false, plugins: { legend: { display: !!c, labels: { color: '#94a3b8' } } }, scales: { x: timeScale, y: CHART_SCALE } };
+  var eqKey = c ? 'pct' : 'usdt';
+  document.getElementById('bt-equity-title').textContent = c ? '📈 Return (%)' : '📈 Equity (USDT)';
+  if (charts.btEquity) charts.btEquity.destroy();
+  charts.btEquity = new Chart(document.getElementById('bt-equity-chart').getContext('2d'), {
+    type: 'line',
+    data: { datasets: [series(v, eqKey, '#38bdf8')].concat(c ? [series(c, eqKey, '#fbbf24')] : []) },
+    options: lineOpts
+  });
+  if (charts.btDd) charts.btDd.destroy();
+  charts.btDd = new Chart(document.getElementById('bt-dd-chart').getContext('2d'), {
+    type: 'line',
+    data: { datasets: [series(v, 'dd', '#f87171')].concat(c ? [series(c, 'dd', '#fbbf24')] : []) },
+    options: lineOpts
+  });
+
+  // Per-symbol + exit reasons
+  document.getElementById('bt-symbols').innerHTML = v.perSymbol.length === 0 ? '<div class="no-data">No trades</div>'
+    : '<table><thead><tr><th>Symbol</th><th>Trades</th><th>Wins</th><th>Losses</th><th>Win Rate</th><th>PnL</th><th>Funding</th></tr></thead><tbody>'
+      + v.perSymbol.map(function(s) {
+        return '<tr><td><strong>' + escHtml(s.symbol.replace('USDT','')) + '</strong></td><td>' + s.trades + '</td>'
+          + '<td class="pos">' + s.wins + '</td><td class="neg">' + s.losses + '</td>'
+          + '<td>' + fmt2(s.winRate * 100) + '%</td><td>' + fmtPnl(s.pnl) + '</td><td>' + fmt2(s.fundingPaid) + '</td></tr>';
+      }).join('') + '</tbody></table>';
+  document.getElementById('bt-exits').innerHTML = v.exitReasons.length === 0 ? '<div class="no-data">No trades</div>'
+    : '<table><thead><tr><th>Reason</th><th>Count</th><th>Share</th><th>Win Rate</th><th>PnL</th></tr></thead><tbody>'
+      + v.exitReasons.map(function(e) {
+        return '<tr><td>' + e.reason + '</td><td>' + e.count + '</td><td>' + fmt2(e.share * 100) + '%</td>'
+          + '<td>' + fmt2(e.winRate * 100) + '%</td><td>' + fmtPnl(e.pnl) + '</td></tr>';
+      }).join('') + '</tbody></table>';
+}
+
+// Candlesticks as floating bars (wick: low..high, body: open..close) + entry / exit markers
+function loadBacktestCandles(symbol) {
+  if (!bt.view || !symbol) return;
+  var note = document.getElementById('bt-candle-note');
+  note.textContent = 'loading…';
+  btGet('/api/backtests/candles?name=' + encodeURIComponent(bt.view.name) + '&symbol=' + encodeURIComponent(symbol)).then(function(d) {
+    note.textContent = d.barsPerCandle > 1 ? '(' + d.barsPerCandle + ' × ' + d.timeframe + ' per candle)' : '(' + d.timeframe + ')';
+    var up = function(k) { return k.close >= k.open; };
+    var colors = d.candles.map(function(k) { return up(k) ? '#34d399' : '#f87171'; });
+    var markers = function(kind, side) {
+      return d.markers.filter(function(m) { return m.kind === kind && (!side || m.side === side); })
+        .map(function(m) { return { x: m.index, y: m.price, m: m }; });
+    };
+    var markerSet = function(label, data, style, color, rotation) {
+      return { type: 'line', label: label, data: data, showLine: false, pointStyle: style, pointRotation: rotation || 0,
+        pointRadius: 7, pointHoverRadius: 9, borderColor: color, backgroundColor: color };
+    };
+    if (charts.btCandles) charts.btCandles.destroy();
+    charts.btCandles = new Chart(document.getElementById('bt-candle-chart').getContext('2d'), {
+      type: 'bar',
+      data: {
+        labels: d.candles.map(function(k) { return fmtTime(k.time); }),
+        datasets: [
+          { label: 'High/Low', data: d.candles.map(function(k) { return [k.low, k.high]; }), backgroundColor: colors, barPercentage: 0.15, grouped: false },
+          { label: 'Open/Close', data: d.candles.map(function(k) { return [k.open, k.close]; }), backgroundColor: colors, barPercentage: 0.8, grouped: false },
+          markerSet('Long entry', markers('entry', 'long'), 'triangle', '#38bdf8', 0),
+          markerSet('Short entry', markers('entry', 'short'), 'triangle', '#a78bfa', 180),
+          markerSet('Exit', markers('exit'), 'crossRot', '#fbbf24', 0)
+        ]
+      },
+      options: {
+        responsive: true, maintainAspectRatio: false, animation: false,
+        plugins: {
+          legend: { labels: { color: '#94a3b8', filter: function(item) { return item.datasetIndex > 1; } } },
+          tooltip: { filter: function(item) { return item.datasetIndex !== 0; }, callbacks: { label: function(ctx) {
+            var raw = ctx.raw;
+            if (raw && raw.m) {
+              var m = raw.m;
+              return m.kind + ' ' + m.side + ' @ ' + fmt4(m.price) + (m.kind === 'exit' ? ' (' + m.exitReason + ', PnL ' + fmt2(m.pnl) + ')' : '');
+            }
+            if (ctx.datasetIndex === 1) {
+              var k = d.candles[ctx.dataIndex];
+              return 'O ' + fmt4(k.open) + '  H ' + fmt4(k.high) + '  L ' + fmt4(k.low) + '  C ' + fmt4(k.close);
+            }
+            return '';
+          } } }
+        },
+        scales: { x: { ticks: { color: '#94a3b8', maxTicksLimit: 10, font: { size: 11 } }, grid: { color: '#1e293b' } }, y: CHART_SCALE }
+      }
+    });
+  }).catch(function(e) { note.textContent = '⚠️ ' + e.message; });
+}
+
+// Jobs (progress arrives over the live stream as 'backtestJob' events)
+function renderBacktestJobs() {
+  var wrap = document.getElementById('bt-jobs');
+  if (bt.jobs.length === 0) { wrap.innerHTML = ''; return; }
+  wrap.innerHTML = '<table><thead><tr><th>Submitted</th><th>By</th><th>Strategy</th><th>Days</th><th>Status</th><th>Progress</th><th></th></tr></thead><tbody>'
+    + bt.jobs.map(function(j) {
+      var pct = j.status === 'done' ? 100 : j.progress.total > 0 ? Math.round(j.progress.done / j.progress.total * 100) : 0;
+      var status = j.status === 'failed' ? '<span class="neg" title="' + escHtml(j.error || '') + '">failed</span>'
+        : j.status === 'done' ? '<span class="pos">done</span>' : j.status;
+      return '<tr><td>' + fmtTime(j.createdAt) + '</td><td>' + escHtml(j.submittedBy) + '</td>'
+        + '<td>' + escHtml(j.params.strategy || 'strategy.yaml') + '</td><td>' + j.params.days + '</td>'
+        + '<td>' + status + '</td>'
+        + '<td><div class="progress"><div style="width:' + pct + '%"></div></div><small class="muted">'
+        + escHtml(j.status === 'failed' ? (j.error || '') : j.progress.phase + ': ' + j.progress.detail) + '</small></td>'
+        + '<td>' + (j.report ? '<button class="refresh-btn" data-bt-open="' + escHtml(j.report) + '">Open</button>' : '') + '</td></tr>';
+    }).join('') + '</tbody></table>';
+}
+
+function onBacktestJob(job) {
+  var rest = bt.jobs.filter(function(j) { return j.id !== job.id; });
+  var known = rest.length < bt.jobs.length;
+  bt.jobs = known ? bt.jobs.map(function(j) { return j.id === job.id ? job : j; }) : [job].concat(rest);
+  if (state.currentPage !== 'backtests') return;
+  renderBacktestJobs();
+  if (job.status === 'done') loadBacktests();
+}
+
+function submitBacktest() {
+  var f = document.getElementById('bt-form');
+  var body = {
+    days: Number(f.days.value),
+    initialUsdt: Number(f.initialUsdt.value),
+    spreadBps: Number(f.spreadBps.value || 0),
+    signalToNextOpen: f.signalToNextOpen.checked,
+    replay: f.replay.checked
+  };
+  if (f.strategy.value) body.strategy = f.strategy.value;
+  if (f.timeframe.value) body.timeframe = f.timeframe.value;
+  if (f.symbols.value.trim()) body.symbols = f.symbols.value;
+  if (f.volumeCapPercent.value) body.volumeCapPercent = Number(f.volumeCapPercent.value);
+  postJson('/api/backtests/jobs', body)
+    .then(function(r) { onBacktestJob(r.job); })
+    .catch(function(e) { alert('❌ ' + e.message); });
+}
+
+document.getElementById('bt-submit').addEventListener('click', submitBacktest);
+document.getElementById('bt-compare').addEventListener('change', function(ev) { setBacktestCompare(ev.target.value); });
+document.getElementById('bt-symbol').addEventListener('change', function(ev) { loadBacktestCandles(ev.target.value); });
+document.addEventListener('click', function(ev) {
+  var el = ev.target.closest ? ev.target.closest('[data-bt-open]') : null;
+  if (el) openBacktest(el.getAttribute('data-bt-open'));
+});
+
 // ── Signals page ──
 function renderSignalsPage() {
   var d = state.data;
@@ -1069,16 +1490,11 @@ function renderSignalsPage() {
 }
 
 // ── Logs page ──
-function startLogRefresh() {
-  stopLogRefresh();
-  state.logInterval = setInterval(fetchLogs, 5000);
-}
-function stopLogRefresh() {
-  if (state.logInterval) { clearInterval(state.logInterval); state.logInterval = null; }
-}
+var MAX_LOG_LINES = 500;
 function fetchLogs() {
   fetch('/api/logs?tail=200').then(function(r) { return r.json(); }).then(function(res) {
-    renderLogs(res.lines || []);
+    state.logs = res.lines || [];
+    renderLogs(state.logs);
   }).catch(function(e) { console.warn("[dashboard] fetchLogs failed:", e); });
 }
 function renderLogs(lines) {
@@ -1099,26 +1515,174 @@ function escHtml(s) {
   return s.replace(/&/g,'&amp;').replace(/</g,'&lt;').replace(/>/g,'&gt;');
 }
 
+// ── Session / operator actions ──
+function isOperator() {
+  return !!state.session && state.session.authEnabled && state.session.role === 'operator';
+}
+function loadSession() {
+  return fetch('/api/session').then(checkAuth).then(function(s) {
+    state.session = s;
+    document.getElementById('user-badge').textContent = s.authEnabled ? s.user + ' · ' + s.role : '';
+    document.getElementById('logout-btn').style.display = s.via === 'session' ? '' : 'none';
+    document.getElementById('kill-btn').style.display = isOperator() ? '' : 'none';
+  }).catch(function(e) { console.error('session fetch failed', e); });
+}
+// Expired session: reload to get the login page
+function checkAuth(r) {
+  if (r.status === 401) { location.reload(); throw new Error('Session expired'); }
+  return r.json();
+}
+function postJson(path, body) {
+  var headers = { 'Content-Type': 'application/json' };
+  if (state.session && state.session.csrfToken) headers['X-CSRF-Token'] = state.session.csrfToken;
+  return fetch(path, { method: 'POST', headers: headers, body: JSON.stringify(body || {}) }).then(function(r) {
+    if (r.status === 401) { location.reload(); throw new Error('Session expired'); }
+    return r.json().then(function(j) {
+      if (!r.ok) throw new Error(j.error || ('HTTP ' + r.status));
+      return j;
+    });
+  });
+}
+function runAction(action, body, confirmMsg) {
+  if (confirmMsg && !confirm(confirmMsg)) return;
+  postJson('/api/actions/' + action, body)
+    .then(function() { fetchAll(); })
+    .catch(function(e) { alert('❌ ' + e.message); });
+}
+function actionBtn(action, scenarioId, symbol, label) {
+  return '<button class="refresh-btn' + (action === 'force-exit' ? ' danger' : '') + '" data-action="' + action
+    + '" data-scenario="' + escHtml(scenarioId) + '" data-symbol="' + escHtml(symbol) + '">' + label + '</button>';
+}
+function logout() {
+  postJson('/api/logout').catch(function() {}).then(function() { location.reload(); });
+}
+function toggleKillSwitch() {
+  var ks = state.data && state.data.killSwitch;
+  if (ks && ks.active) {
+    runAction('kill-switch', { active: false }, 'Deactivate the Kill Switch and allow new entries?');
+    return;
+  }
+  var reason = prompt('Activate the Kill Switch (blocks all new entries). Reason:', 'Manual halt');
+  if (reason !== null) runAction('kill-switch', { active: true, reason: reason });
+}
+function editSlTp(scenarioId, symbol) {
+  var p = (state.data.positions || []).filter(function(x) { return x.scenarioId === scenarioId && x.symbol === symbol; })[0];
+  if (!p) return;
+  var sl = prompt(symbol + ' stop-loss price:', p.stopLoss);
+  if (sl === null) return;
+  var tp = prompt(symbol + ' take-profit price:', p.takeProfit);
+  if (tp === null) return;
+  runAction('sl-tp', { scenarioId: scenarioId, symbol: symbol, stopLoss: parseFloat(sl), takeProfit: parseFloat(tp) });
+}
+document.addEventListener('click', function(ev) {
+  var btn = ev.target.closest ? ev.target.closest('[data-action]') : null;
+  if (!btn) return;
+  var sid = btn.getAttribute('data-scenario');
+  var sym = btn.getAttribute('data-symbol');
+  var action = btn.getAttribute('data-action');
+  if (action === 'force-exit') runAction('force-exit', { scenarioId: sid, symbol: sym }, 'Close ' + sym + ' in ' + sid + ' at market?');
+  if (action === 'sl-tp') editSlTp(sid, sym);
+  if (action === 'pause') runAction('pause', { scenarioId: sid, paused: true }, 'Pause new entries for ' + sid + '?');
+  if (action === 'resume') runAction('pause', { scenarioId: sid, paused: false }, 'Resume new entries for ' + sid + '?');
+});
+
 // ── Data fetching ──
 function fetchAll() {
   return Promise.all([
-    fetch('/api/data').then(function(r) { return r.json(); }),
-    fetch('/api/prices').then(function(r) { return r.json(); })
+    fetch('/api/data').then(checkAuth),
+    fetch('/api/prices').then(checkAuth)
   ]).then(function(results) {
     state.data = results[0];
     state.prices = results[1] || {};
-    var t = new Date(state.data.lastUpdate || Date.now());
-    document.getElementById('update-time').textContent =
-      t.getHours().toString().padStart(2,'0') + ':' + t.getMinutes().toString().padStart(2,'0') + ':' + t.getSeconds().toString().padStart(2,'0');
+    markUpdated();
     renderAll();
   }).catch(function(e) { console.error('fetch failed', e); });
 }
 
+function markUpdated() {
+  var t = new Date();
+  document.getElementById('update-time').textContent =
+    t.getHours().toString().padStart(2,'0') + ':' + t.getMinutes().toString().padStart(2,'0') + ':' + t.getSeconds().toString().padStart(2,'0');
+}
+
+// ── Live stream (/api/stream): one snapshot, then incremental events ──
+function onStream(es, name, handler) {
+  es.addEventListener(name, function(ev) {
+    var msg = JSON.parse(ev.data);
+    if (name !== 'snapshot' && !state.data) return;
+    handler(msg);
+    markUpdated();
+  });
+}
+
+function connectStream() {
+  var es = new EventSource('/api/stream');
+  state.stream = es;
+  onStream(es, 'snapshot', function(m) {
+    state.data = m.data;
+    state.prices = m.prices || {};
+    state.logs = m.logs || [];
+    renderAll();
+    if (state.currentPage === 'logs') renderLogs(state.logs);
+  });
+  onStream(es, 'prices', function(p) {
+    Object.keys(p).forEach(function(sym) { state.prices[sym] = p[sym]; });
+    renderPosCards();
+    if (state.currentPage === 'positions') renderPositionsPage();
+  });
+  onStream(es, 'positions', function(positions) {
+    state.data.positions = positions;
+    renderPosCards();
+    if (state.currentPage === 'positions') renderPositionsPage();
+  });
+  onStream(es, 'accounts', function(m) {
+    state.data.accounts = m.accounts;
+    state.data.equityCurve = m.equityCurve;
+    renderKpi();
+    renderEquityChart();
+    if (state.currentPage === 'positions') renderScenariosTable();
+  });
+  onStream(es, 'trade', function(t) {
+    state.data.recentTrades = [t].concat(state.data.recentTrades || []).slice(0, 50);
+    if (state.currentPage === 'trades') { populateScenarioFilter(); renderTradesPage(); }
+  });
+  onStream(es, 'signal', function(sig) {
+    var rest = (state.data.signalHistory || []).filter(function(x) { return x.id !== sig.id; });
+    state.data.signalHistory = [sig].concat(rest).slice(0, 50);
+    if (state.currentPage === 'signals') renderSignalsPage();
+  });
+  onStream(es, 'killSwitch', function(ks) {
+    state.data.killSwitch = ks;
+    renderStatus();
+  });
+  onStream(es, 'backtestJob', onBacktestJob);
+  onStream(es, 'log', function(m) {
+    state.logs = (m.reset ? [] : state.logs).concat(m.lines).slice(-MAX_LOG_LINES);
+    if (state.currentPage === 'logs') renderLogs(state.logs);
+  });
+  // The browser retries dropped connections itself; a refused one (e.g. expired session) closes
+  es.onerror = function() {
+    if (es.readyState !== EventSource.CLOSED) return;
+    loadSession().then(function() { setTimeout(connectStream, 5000); });
+  };
+}
+
+function renderStatus() {
+  var ks = state.data.killSwitch;
+  var halted = !!(ks && ks.active);
+  var badge = document.getElementById('bot-status');
+  badge.className = 'badge-status ' + (halted ? 'badge-stopped' : 'badge-running');
+  badge.textContent = halted ? '⛔ KILL SWITCH' : '● RUNNING';
+  badge.title = halted ? ks.reason : '';
+  document.getElementById('kill-btn').textContent = halted ? '▶ Release Kill Switch' : '⛔ Kill Switch';
+}
+
 function renderAll() {
+  renderStatus();
   renderKpi();
   renderPosCards();
   renderEquityChart();
-  if (state.currentPage === 'positions') renderPositionsPage();
+  if (state.currentPage === 'positions') { renderPositionsPage(); renderScenariosTable(); }
   if (state.currentPage === 'trades') { populateScenarioFilter(); renderTradesPage(); }
   if (state.currentPage === 'signals') renderSignalsPage();
 }
@@ -1127,11 +1691,52 @@ function manualRefresh() {
   fetchAll();
   if (state.currentPage === 'performance') loadPerf();
   if (state.currentPage === 'logs') fetchLogs();
+  if (state.currentPage === 'backtests') loadBacktests();
 }
 
 // ── Init ──
-fetchAll();
-state.refreshInterval = setInterval(fetchAll, 10000);
+loadSession().then(connectStream);
+</script>
+</body>
+</html>`;
+
+/** Served at / to unauthenticated visitors once dashboard users are configured */
+const LOGIN_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8"/>
+<meta name="viewport" content="width=device-width,initial-scale=1"/>
+<title>OpenClaw Trader — Login</title>
+<style>
+*{box-sizing:border-box;margin:0;padding:0}
+body{display:flex;align-items:center;justify-content:center;min-height:100vh;background:#0f172a;color:#e2e8f0;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;font-size:14px}
+form{background:#1e293b;border:1px solid #334155;border-radius:10px;padding:28px;width:300px;display:flex;flex-direction:column;gap:12px}
+.title{font-size:1.1rem;font-weight:700;color:#38bdf8}
+input{background:#0f172a;border:1px solid #334155;border-radius:6px;color:#e2e8f0;padding:8px 10px}
+button{background:#38bdf8;border:none;border-radius:6px;color:#0f172a;font-weight:600;padding:9px;cursor:pointer}
+#err{color:#f87171;font-size:0.8rem;min-height:1em}
+</style>
+</head>
+<body>
+<form id="login">
+  <div class="title">🚀 OpenClaw Trader</div>
+  <input id="username" placeholder="Username" autocomplete="username" required/>
+  <input id="password" type="password" placeholder="Password" autocomplete="current-password" required/>
+  <button type="submit">Log in</button>
+  <div id="err"></div>
+</form>
+<script>
+document.getElementById('login').addEventListener('submit', function(ev) {
+  ev.preventDefault();
+  fetch('/api/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username: document.getElementById('username').value, password: document.getElementById('password').value })
+  }).then(function(r) {
+    if (r.ok) { location.reload(); return; }
+    return r.json().then(function(j) { document.getElementById('err').textContent = j.error || ('HTTP ' + r.status); });
+  }).catch(function(e) { document.getElementById('err').textContent = e.message; });
+});
 </script>
 </body>
 </html>`;
@@ -1141,9 +1746,12 @@ state.refreshInterval = setInterval(fetchAll, 10000);
 // ─────────────────────────────────────────────────────
 
 let server: http.Server | null = null;
+let feed: DashboardFeed | null = null;
+
+const MAX_BODY_BYTES = 64 * 1024;
 
 function sendJson(res: http.ServerResponse, data: unknown, status = 200): void {
-  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8", "Access-Control-Allow-Origin": "*" });
+  res.writeHead(status, { "Content-Type": "application/json" });
   res.end(JSON.stringify(data));
 }
 
@@ -1151,114 +1759,421 @@ function sendError(res: http.ServerResponse, msg: string, status = 500): void {
   sendJson(res, { error: msg }, status);
 }
 
-export function startDashboardServer(port = 8080): void {
-  if (server) {
-    log.info("Server is already running");
+/** Parse a JSON request body; an empty body parses as {} */
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new OperatorActionError(413, "Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      if (size === 0) { resolve({}); return; }
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf-8")));
+      } catch {
+        reject(new OperatorActionError(400, "Invalid JSON body"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+/** Dashboard access settings from strategy.yaml (missing / unreadable = no login) */
+function loadDashboardAccess(): DashboardConfig {
+  try {
+    return loadStrategyConfig().dashboard ?? {};
+  } catch (e) {
+    log.warn(`strategy.yaml unreadable, dashboard login disabled: ${e instanceof Error ? e.message : String(e)}`);
+    return {};
+  }
+}
+
+/** Files whose changes the live feed pushes: paper accounts, scenario state, signals, kill switch */
+function feedWatchedFiles(): string[] {
+  // SQLite state: every commit lands in the write-ahead log first
+  const db = stateDb();
+  if (db) return [db.filePath, `${db.filePath}-wal`];
+  let names: string[] = [];
+  try {
+    names = fs.readdirSync(LOGS_DIR).filter((f) => /^(paper|state)-.+\.json$/.test(f));
+  } catch { /* logs/ not created yet */ }
+  return [...names, "signal-history.jsonl", "kill-switch-state.json"].map((f) => path.join(LOGS_DIR, f));
+}
+
+function createDashboardFeed(): DashboardFeed {
+  return new DashboardFeed({
+    buildData: buildDashboardData,
+    watchedFiles: feedWatchedFiles,
+    logFile: path.join(LOGS_DIR, "monitor.log"),
+    fetchPrices: fetchBinancePrices,
+    createPriceStream: (symbols, onPrice) => {
+      // Runtimes without a global WebSocket fall back to REST price polling
+      if (!("WebSocket" in globalThis)) return null;
+      const ws = new BinanceWsManager(symbols, "1m", (msg) => { log.debug(msg); });
+      ws.subscribe(({ symbol, kline }) => { onPrice(symbol, kline.close); });
+      return ws;
+    },
+  });
+}
+
+interface RequestContext {
+  auth: DashboardAuth;
+  feed: DashboardFeed;
+  jobs: BacktestJobs;
+  deps: ActionDeps;
+  port: number;
+}
+
+/** Read-only routes, open to every authenticated principal */
+function handleGet(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  url: URL,
+  principal: Principal,
+  ctx: RequestContext
+): void {
+  const pathname = url.pathname;
+  const { auth } = ctx;
+
+  if (pathname === "/" || pathname === "/index.html") {
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(HTML_PAGE);
     return;
   }
 
-  server = http.createServer((req, res) => {
-    const url = new URL(req.url ?? "/", `http://localhost:${port}`);
-    const pathname = url.pathname;
+  if (pathname === "/api/session") {
+    sendJson(res, {
+      authEnabled: auth.enabled,
+      user: principal.name,
+      role: principal.role,
+      via: principal.via,
+      csrfToken: principal.session?.csrfToken ?? null,
+    });
+    return;
+  }
 
-    res.setHeader("Access-Control-Allow-Origin", "*");
+  if (pathname === "/api/stream") {
+    ctx.feed.addClient(req, res);
+    return;
+  }
 
-    if (req.method !== "GET") {
-      res.writeHead(405); res.end("Method Not Allowed"); return;
+  if (pathname === "/api/data") {
+    try {
+      sendJson(res, buildDashboardData());
+    } catch (e) {
+      sendError(res, e instanceof Error ? e.message : String(e));
     }
+    return;
+  }
 
-    // ── Routes ──
-    if (pathname === "/" || pathname === "/index.html") {
-      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
-      res.end(HTML_PAGE);
-      return;
+  if (pathname === "/api/prices") {
+    // Lightweight fetch of current position trading pairs, batch fetch Binance real-time prices
+    const symbols = getActiveSymbols();
+    if (symbols.length === 0) {
+      sendJson(res, {}); return;
     }
+    fetchBinancePrices(symbols)
+      .then((prices) => sendJson(res, prices))
+      .catch(() => sendJson(res, {}));
+    return;
+  }
 
-    if (pathname === "/api/data") {
-      try {
-        sendJson(res, buildDashboardData());
-      } catch (e) {
-        sendError(res, e instanceof Error ? e.message : String(e));
-      }
-      return;
+  if (pathname === "/api/perf") {
+    try {
+      sendJson(res, buildPerfData());
+    } catch (e) {
+      sendError(res, e instanceof Error ? e.message : String(e));
     }
+    return;
+  }
 
-    if (pathname === "/api/prices") {
-      // Lightweight fetch of current position trading pairs, batch fetch Binance real-time prices
-      const symbols = getActiveSymbols();
-      if (symbols.length === 0) {
-        sendJson(res, {}); return;
-      }
-      fetchBinancePrices(symbols)
-        .then((prices) => sendJson(res, prices))
-        .catch(() => sendJson(res, {}));
-      return;
+  if (pathname === "/api/logs") {
+    const tail = parseInt(url.searchParams.get("tail") ?? "200", 10) || 200;
+    try {
+      const lines = getLogLines(tail);
+      sendJson(res, { lines, file: "monitor.log", tail });
+    } catch (e) {
+      sendError(res, e instanceof Error ? e.message : String(e));
     }
+    return;
+  }
 
-    if (pathname === "/api/perf") {
-      try {
-        sendJson(res, buildPerfData());
-      } catch (e) {
-        sendError(res, e instanceof Error ? e.message : String(e));
-      }
-      return;
+  if (pathname === "/api/scenarios") {
+    try {
+      const cfg = loadPaperConfig();
+      const scenarios = cfg.scenarios.map((s) => ({
+        id: s.id,
+        name: s.name,
+        enabled: s.enabled,
+        initial_usdt: s.initial_usdt,
+      }));
+      sendJson(res, scenarios);
+    } catch (e) {
+      sendError(res, e instanceof Error ? e.message : String(e));
     }
+    return;
+  }
 
-    if (pathname === "/api/logs") {
-      const tail = parseInt(url.searchParams.get("tail") ?? "200", 10) || 200;
-      try {
-        const lines = getLogLines(tail);
-        sendJson(res, { lines, file: "monitor.log", tail });
-      } catch (e) {
-        sendError(res, e instanceof Error ? e.message : String(e));
-      }
+  if (pathname === "/api/audit") {
+    if (!hasRole(principal, "operator")) { sendError(res, "Operator role required", 403); return; }
+    const limit = parseInt(url.searchParams.get("limit") ?? "100", 10) || 100;
+    sendJson(res, readAuditLog(limit));
+    return;
+  }
+
+  if (pathname.startsWith("/api/backtests")) {
+    handleBacktestGet(res, url, ctx);
+    return;
+  }
+
+  res.writeHead(404); res.end("Not Found");
+}
+
+/** Backtest explorer reads: saved reports, report views, candles, job list */
+function handleBacktestGet(res: http.ServerResponse, url: URL, ctx: RequestContext): void {
+  const pathname = url.pathname;
+  const name = url.searchParams.get("name") ?? "";
+
+  if (pathname === "/api/backtests") {
+    sendJson(res, listReports());
+    return;
+  }
+
+  if (pathname === "/api/backtests/strategies") {
+    sendJson(res, listStrategyProfiles());
+    return;
+  }
+
+  if (pathname === "/api/backtests/jobs") {
+    sendJson(res, ctx.jobs.list());
+    return;
+  }
+
+  if (pathname === "/api/backtests/report" || pathname === "/api/backtests/candles") {
+    const report = loadReport(name);
+    if (!report) { sendError(res, `Backtest report not found: ${name}`, 404); return; }
+    if (pathname === "/api/backtests/report") {
+      sendJson(res, buildReportView(name, report));
       return;
     }
-
-    if (pathname === "/api/scenarios") {
-      try {
-        const cfg = loadPaperConfig();
-        const scenarios = cfg.scenarios.map((s) => ({
-          id: s.id,
-          name: s.name,
-          enabled: s.enabled,
-          initial_usdt: s.initial_usdt,
-        }));
-        sendJson(res, scenarios);
-      } catch (e) {
-        sendError(res, e instanceof Error ? e.message : String(e));
-      }
+    const symbol = (url.searchParams.get("symbol") ?? "").toUpperCase();
+    if (!report.config.symbols.includes(symbol)) {
+      sendError(res, `${symbol || "symbol"} is not part of ${name}`, 400);
       return;
     }
+    buildReportCandles(report, symbol)
+      .then((candles) => { sendJson(res, candles); })
+      .catch((e: unknown) => { sendError(res, `Candles unavailable: ${e instanceof Error ? e.message : String(e)}`, 502); });
+    return;
+  }
 
-    if (pathname === "/api/health") {
-      sendJson(res, {
-        status: "ok",
-        timestamp: Date.now(),
-        uptime: process.uptime(),
-        memory: process.memoryUsage(),
-        version: process.version,
-      });
+  res.writeHead(404); res.end("Not Found");
+}
+
+/** POST /api/login: username / password → session cookie + CSRF token */
+async function handleLogin(req: http.IncomingMessage, res: http.ServerResponse, auth: DashboardAuth, ip: string): Promise<void> {
+  if (!auth.enabled) { sendError(res, "Login is not configured (strategy.yaml dashboard.users)", 404); return; }
+  const body = await readJsonBody(req) as { username?: unknown; password?: unknown };
+  const username = typeof body.username === "string" ? body.username : "";
+  const password = typeof body.password === "string" ? body.password : "";
+
+  const result = auth.login(username, password, ip);
+  const audit = { time: new Date().toISOString(), actor: username, ip, params: {} };
+  if (!result.ok) {
+    appendAudit({ ...audit, role: "viewer", via: "session", action: "login_failed", ok: false, error: result.reason });
+    if (result.reason === "locked") sendError(res, "Too many failed logins, try again later", 429);
+    else sendError(res, "Invalid username or password", 401);
+    return;
+  }
+
+  const { session } = result;
+  appendAudit({ ...audit, role: session.role, via: "session", action: "login", ok: true });
+  res.setHeader("Set-Cookie", auth.sessionCookie(session));
+  sendJson(res, { user: session.username, role: session.role, csrfToken: session.csrfToken });
+}
+
+/** POST routes other than login: logout and operator actions */
+async function handlePost(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  pathname: string,
+  principal: Principal,
+  ctx: RequestContext,
+  ip: string
+): Promise<void> {
+  if (!ctx.auth.checkCsrf(principal, req)) { sendError(res, "Missing or invalid CSRF token", 403); return; }
+
+  if (pathname === "/api/logout") {
+    if (principal.session) {
+      ctx.auth.logout(principal.session.id);
+      appendAudit({ time: new Date().toISOString(), actor: principal.name, role: principal.role, via: principal.via, ip, action: "logout", params: {}, ok: true });
+    }
+    res.setHeader("Set-Cookie", ctx.auth.clearCookie());
+    sendJson(res, { ok: true });
+    return;
+  }
+
+  if (pathname === "/api/backtests/jobs") {
+    await submitBacktest(req, res, principal, ctx, ip);
+    return;
+  }
+
+  const match = /^\/api\/actions\/([a-z-]+)$/.exec(pathname);
+  const action = match?.[1]?.replace(/-/g, "_") ?? "";
+  if (!isOperatorAction(action)) { res.writeHead(404); res.end("Not Found"); return; }
+
+  if (!ctx.auth.enabled) {
+    sendError(res, "Operator actions are disabled until strategy.yaml dashboard.users or dashboard.tokens is configured", 403);
+    return;
+  }
+  if (!hasRole(principal, "operator")) { sendError(res, "Operator role required", 403); return; }
+
+  const body = await readJsonBody(req);
+  const result = await runOperatorAction(action, body, { principal, ip }, ctx.deps);
+  log.info(`Operator action ${action} by ${principal.name} (${principal.via})`);
+  sendJson(res, { ok: true, result });
+}
+
+/** POST /api/backtests/jobs: queue a backtest run (operator; audited like operator actions) */
+async function submitBacktest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  principal: Principal,
+  ctx: RequestContext,
+  ip: string
+): Promise<void> {
+  if (!ctx.auth.enabled) {
+    sendError(res, "Backtest jobs are disabled until strategy.yaml dashboard.users or dashboard.tokens is configured", 403);
+    return;
+  }
+  if (!hasRole(principal, "operator")) { sendError(res, "Operator role required", 403); return; }
+
+  const body = await readJsonBody(req);
+  const audit = { time: new Date().toISOString(), actor: principal.name, role: principal.role, via: principal.via, ip, action: "backtest" };
+  const params = body !== null && typeof body === "object" ? body as Record<string, unknown> : {};
+  try {
+    const job = ctx.jobs.submit(parseJobParams(body), principal.name);
+    appendAudit({ ...audit, params, ok: true, result: { jobId: job.id } });
+    log.info(`Backtest job ${job.id} queued by ${principal.name}`);
+    sendJson(res, { ok: true, job }, 202);
+  } catch (e) {
+    appendAudit({ ...audit, params, ok: false, error: e instanceof Error ? e.message : String(e) });
+    throw e;
+  }
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse, ctx: RequestContext): Promise<void> {
+  const url = new URL(req.url ?? "/", `http://localhost:${ctx.port}`);
+  const pathname = url.pathname;
+  const ip = req.socket.remoteAddress ?? "";
+
+  // Cross-origin reads only while the dashboard is open anyway
+  if (!ctx.auth.enabled) res.setHeader("Access-Control-Allow-Origin", "*");
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.writeHead(405); res.end("Method Not Allowed"); return;
+  }
+
+  // Health check stays public for uptime probes
+  if (req.method === "GET" && pathname === "/api/health") {
+    sendJson(res, {
+      status: "ok",
+      timestamp: Date.now(),
+      uptime: process.uptime(),
+      memory: process.memoryUsage(),
+      version: process.version,
+    });
+    return;
+  }
+
+  // JSON-only writes: a cross-site form cannot send application/json without a CORS preflight
+  if (req.method === "POST" && !(req.headers["content-type"] ?? "").startsWith("application/json")) {
+    sendError(res, "Content-Type must be application/json", 415);
+    return;
+  }
+
+  if (req.method === "POST" && pathname === "/api/login") {
+    await handleLogin(req, res, ctx.auth, ip);
+    return;
+  }
+
+  const principal = ctx.auth.authenticate(req);
+  if (!principal) {
+    if (req.method === "GET" && (pathname === "/" || pathname === "/index.html")) {
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(LOGIN_PAGE);
       return;
     }
+    sendError(res, "Authentication required", 401);
+    return;
+  }
+
+  if (req.method === "POST") {
+    await handlePost(req, res, pathname, principal, ctx, ip);
+    return;
+  }
+  handleGet(req, res, url, principal, ctx);
+}
+
+/**
+ * Start the dashboard on 127.0.0.1.
+ * @param access Login / token settings (default: strategy.yaml `dashboard`)
+ */
+export function startDashboardServer(port = 8080, access?: DashboardConfig): http.Server {
+  if (server) {
+    log.info("Server is already running");
+    return server;
+  }
 
-    res.writeHead(404); res.end("Not Found");
+  const auth = new DashboardAuth(access ?? loadDashboardAccess());
+  const liveFeed = createDashboardFeed();
+  feed = liveFeed;
+  const ctx: RequestContext = {
+    auth,
+    feed: liveFeed,
+    jobs: new BacktestJobs(undefined, (job) => { liveFeed.publish("backtestJob", job); }),
+    port,
+    deps: {
+      priceOf: (symbol) => fetchBinancePrices([symbol]).then((p) => p[symbol] ?? null).catch(() => null),
+    },
+  };
+
+  server = http.createServer((req, res) => {
+    handleRequest(req, res, ctx).catch((e: unknown) => {
+      if (res.headersSent) { res.end(); return; }
+      if (e instanceof OperatorActionError || e instanceof BacktestJobError) sendError(res, e.message, e.status);
+      else sendError(res, e instanceof Error ? e.message : String(e));
+    });
   });
 
-  // Security: bind to localhost only, prevent external access (no authentication)
+  // Security: bind to localhost only; for remote access use an SSH tunnel or an HTTPS reverse proxy
   server.listen(port, "127.0.0.1", () => {
     log.info(`🚀 Dashboard running at: http://localhost:${port}`);
-    log.info("   Pages: Overview / Positions / Trades / Performance / Signals / Logs");
+    log.info("   Pages: Overview / Positions / Trades / Performance / Backtests / Signals / Logs");
+    log.info(auth.enabled
+      ? "   🔐 Login required (strategy.yaml dashboard); operator actions enabled"
+      : "   🔓 No dashboard users configured: read-only, operator actions disabled");
     log.info(`   ⚠️  Localhost only. For remote access use SSH tunnel: ssh -L ${port}:localhost:${port} user@server`);
   });
 
   server.on("error", (err) => {
     log.error(`Server error: ${err.message}`);
   });
+  return server;
 }
 
 export function stopDashboardServer(): void {
   if (!server) return;
+  // Open event streams would otherwise keep close() waiting
+  feed?.close();
+  feed = null;
   server.close(() => { log.info("Server stopped"); });
   server = null;
 }
@@ -0,0 +1,291 @@
+/**
+ * Web Dashboard Live Feed (Server-Sent Events)
+ *
+ * One feed serves every open dashboard: the files behind the dashboard are stat'ed once
+ * per poll tick and only re-read when their mtime changes, monitor.log is tailed from
+ * the last read offset, and prices come from a single Binance kline stream (1m) over
+ * the held symbols. Each change is pushed to all clients as an SSE event:
+ *
+ *   snapshot    → { data, prices, logs }            on connect
+ *   prices      → { [symbol]: price }               batched ticks
+ *   positions   → PositionWithPnl[]
+ *   accounts    → { accounts, equityCurve }
+ *   trade       → TradeRecord                       one per new trade
+ *   signal      → SignalRecord                      new or updated record
+ *   killSwitch  → { active, reason }
+ *   log         → { lines, reset? }                 appended monitor.log lines (reset = rotated)
+ *   backtestJob → BacktestJob                       dashboard backtest job status / progress (publish())
+ *
+ * The feed starts with the first client and stops (closing the kline stream) when the
+ * last one disconnects.
+ */
+
+import fs from "fs";
+import type http from "http";
+import type { DashboardData } from "./dashboard-server.js";
+
+// ─────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────
+
+export interface PriceStream {
+  start(): void;
+  stop(): void;
+}
+
+export interface FeedSource {
+  /** Full dashboard data (reads account / signal / state files) */
+  buildData: () => DashboardData;
+  /** Files whose mtime change triggers a rebuild */
+  watchedFiles: () => string[];
+  logFile: string;
+  /** REST prices, used for the snapshot and when no stream is available */
+  fetchPrices: (symbols: string[]) => Promise<Record<string, number>>;
+  /** Live price stream over `symbols` (null = unavailable, fall back to REST polling) */
+  createPriceStream: (symbols: string[], onPrice: (symbol: string, price: number) => void) => PriceStream | null;
+}
+
+export interface FeedOptions {
+  /** File change check interval */
+  pollMs: number;
+  /** Keep-alive comment interval (proxies drop idle connections) */
+  heartbeatMs: number;
+  /** Price batch interval */
+  priceFlushMs: number;
+  /** REST price interval when there is no stream */
+  pricePollMs: number;
+  /** monitor.log lines in the snapshot */
+  logTail: number;
+}
+
+export const DEFAULT_FEED_OPTIONS: FeedOptions = {
+  pollMs: 2000,
+  heartbeatMs: 25_000,
+  priceFlushMs: 1000,
+  pricePollMs: 10_000,
+  logTail: 200,
+};
+
+// ─────────────────────────────────────────────────────
+// Feed
+// ─────────────────────────────────────────────────────
+
+export class DashboardFeed {
+  private readonly clients = new Set<http.ServerResponse>();
+  private readonly timers: ReturnType<typeof setInterval>[] = [];
+  private readonly mtimes = new Map<string, number>();
+  private data: DashboardData | null = null;
+  private prices: Record<string, number> = {};
+  private pendingPrices: Record<string, number> = {};
+  private logLines: string[] = [];
+  private logOffset = -1;
+  private logRemainder = "";
+  private stream: PriceStream | null = null;
+  private streamKey = "";
+  private priceTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly src: FeedSource,
+    private readonly opts: FeedOptions = DEFAULT_FEED_OPTIONS
+  ) {}
+
+  get clientCount(): number {
+    return this.clients.size;
+  }
+
+  /** Turn a GET /api/stream request into an event stream */
+  addClient(req: http.IncomingMessage, res: http.ServerResponse): void {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.write("retry: 5000\n\n");
+
+    if (this.clients.size === 0) this.start();
+    this.clients.add(res);
+    this.send(res, "snapshot", { data: this.data, prices: this.prices, logs: this.logLines });
+
+    req.on("close", () => {
+      this.clients.delete(res);
+      if (this.clients.size === 0) this.stop();
+    });
+  }
+
+  /** End every client connection and stop polling */
+  close(): void {
+    for (const res of this.clients) res.end();
+    this.clients.clear();
+    this.stop();
+  }
+
+  /** Push an event that does not come from the watched files (e.g. backtest job progress) */
+  publish(event: string, payload: unknown): void {
+    this.broadcast(event, payload);
+  }
+
+  /** Check watched files and the log once; broadcast whatever changed */
+  poll(): void {
+    if (this.filesChanged() || !this.data) this.refreshData();
+    this.readNewLogLines();
+  }
+
+  // ── Lifecycle ──
+
+  private start(): void {
+    this.mtimes.clear();
+    this.data = null;
+    this.logOffset = -1;
+    this.logRemainder = "";
+    this.poll();
+    this.timers.push(setInterval(() => { this.poll(); }, this.opts.pollMs));
+    this.timers.push(setInterval(() => { this.broadcastRaw(": ping\n\n"); }, this.opts.heartbeatMs));
+    this.timers.push(setInterval(() => { this.flushPrices(); }, this.opts.priceFlushMs));
+  }
+
+  private stop(): void {
+    for (const t of this.timers) clearInterval(t);
+    this.timers.length = 0;
+    this.setPriceSymbols([]);
+  }
+
+  // ── Dashboard data ──
+
+  private filesChanged(): boolean {
+    let changed = false;
+    const seen = new Set<string>();
+    for (const file of this.src.watchedFiles()) {
+      seen.add(file);
+      let mtime = 0;
+      try {
+        mtime = fs.statSync(file).mtimeMs;
+      } catch { /* missing file = mtime 0 */ }
+      if (this.mtimes.get(file) !== mtime) changed = true;
+      this.mtimes.set(file, mtime);
+    }
+    for (const file of this.mtimes.keys()) {
+      if (!seen.has(file)) {
+        this.mtimes.delete(file);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  private refreshData(): void {
+    const prev = this.data;
+    const next = this.src.buildData();
+    this.data = next;
+    this.setPriceSymbols([...new Set(next.positions.map((p) => p.symbol))]);
+    if (!prev) return;
+
+    const same = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+    if (!same(prev.positions, next.positions)) this.broadcast("positions", next.positions);
+    if (!same(prev.accounts, next.accounts)) {
+      this.broadcast("accounts", { accounts: next.accounts, equityCurve: next.equityCurve });
+    }
+
+    const knownTrades = new Set(prev.recentTrades.map((t) => t.id));
+    for (const trade of next.recentTrades.filter((t) => !knownTrades.has(t.id)).reverse()) {
+      this.broadcast("trade", trade);
+    }
+
+    const prevSignals = new Map(prev.signalHistory.map((s) => [s.id, s]));
+    for (const signal of [...next.signalHistory].reverse()) {
+      if (!same(prevSignals.get(signal.id), signal)) this.broadcast("signal", signal);
+    }
+
+    if (!same(prev.killSwitch, next.killSwitch)) this.broadcast("killSwitch", next.killSwitch);
+  }
+
+  // ── monitor.log tail ──
+
+  private readNewLogLines(): void {
+    let size: number;
+    try {
+      size = fs.statSync(this.src.logFile).size;
+    } catch {
+      return;
+    }
+
+    // First read or log rotated: start over from the last `logTail` lines
+    if (this.logOffset < 0 || size < this.logOffset) {
+      const content = fs.readFileSync(this.src.logFile, "utf-8");
+      const reset = this.logOffset >= 0;
+      this.logLines = content.split("\n").filter(Boolean).slice(-this.opts.logTail);
+      this.logOffset = Buffer.byteLength(content);
+      this.logRemainder = content.endsWith("\n") ? "" : (this.logLines.pop() ?? "");
+      if (reset) this.broadcast("log", { lines: this.logLines, reset: true });
+      return;
+    }
+    if (size === this.logOffset) return;
+
+    const buf = Buffer.alloc(size - this.logOffset);
+    const fd = fs.openSync(this.src.logFile, "r");
+    try {
+      fs.readSync(fd, buf, 0, buf.length, this.logOffset);
+    } finally {
+      fs.closeSync(fd);
+    }
+    this.logOffset = size;
+
+    const parts = (this.logRemainder + buf.toString("utf-8")).split("\n");
+    this.logRemainder = parts.pop() ?? "";
+    const lines = parts.filter(Boolean);
+    if (lines.length === 0) return;
+    this.logLines = this.logLines.concat(lines).slice(-this.opts.logTail);
+    this.broadcast("log", { lines });
+  }
+
+  // ── Prices ──
+
+  private setPriceSymbols(symbols: string[]): void {
+    const key = [...symbols].sort().join(",");
+    if (key === this.streamKey) return;
+    this.streamKey = key;
+
+    this.stream?.stop();
+    this.stream = null;
+    if (this.priceTimer !== null) {
+      clearInterval(this.priceTimer);
+      this.priceTimer = null;
+    }
+    if (symbols.length === 0) return;
+
+    const fetchOnce = (): void => {
+      this.src.fetchPrices(symbols)
+        .then((prices) => { Object.assign(this.pendingPrices, prices); })
+        .catch(() => { /* next tick retries */ });
+    };
+    fetchOnce();
+    this.stream = this.src.createPriceStream(symbols, (symbol, price) => { this.pendingPrices[symbol] = price; });
+    if (this.stream) this.stream.start();
+    else this.priceTimer = setInterval(fetchOnce, this.opts.pricePollMs);
+  }
+
+  private flushPrices(): void {
+    const changed: Record<string, number> = {};
+    for (const [symbol, price] of Object.entries(this.pendingPrices)) {
+      if (this.prices[symbol] !== price) changed[symbol] = price;
+    }
+    this.pendingPrices = {};
+    if (Object.keys(changed).length === 0) return;
+    Object.assign(this.prices, changed);
+    this.broadcast("prices", changed);
+  }
+
+  // ── SSE framing ──
+
+  private send(res: http.ServerResponse, event: string, payload: unknown): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+  }
+
+  private broadcast(event: string, payload: unknown): void {
+    for (const res of this.clients) this.send(res, event, payload);
+  }
+
+  private broadcastRaw(chunk: string): void {
+    for (const res of this.clients) res.write(chunk);
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Web Dashboard Operator Actions
+ *
+ * Write actions behind the dashboard's operator role:
+ *   kill_switch  → activate / deactivate the global Kill Switch
+ *   force_exit   → close a paper position at the current market price
+ *   pause        → pause / resume new entries of a scenario (exits keep running)
+ *   sl_tp        → move a paper position's stop-loss / take-profit
+ *
+ * Every attempt, successful or not, is appended to logs/dashboard-audit.jsonl.
+ *
+ * Testnet scenarios (exchange.testnet: true) hold real exchange orders managed by
+ * live-monitor; force_exit and sl_tp refuse them (use manual-trade instead).
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { loadPaperConfig } from "../config/loader.js";
+import { activateKillSwitch, deactivateKillSwitch, readKillSwitch } from "../health/kill-switch.js";
+import { loadAccount, saveAccount, paperSell, paperCoverShort } from "../paper/account.js";
+import { setScenarioPaused } from "../paper/scenario-state.js";
+import { closeSignal } from "../strategy/signal-history.js";
+import type { PaperScenario } from "../types.js";
+import type { Principal } from "./auth.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+let AUDIT_LOG_PATH = path.resolve(__dirname, "../../logs/dashboard-audit.jsonl");
+
+/**
+ * Point the audit log at another file (tests)
+ * @returns Restores the previous path
+ */
+export function redirectAuditLog(file: string): () => void {
+  const prev = AUDIT_LOG_PATH;
+  AUDIT_LOG_PATH = file;
+  return () => {
+    AUDIT_LOG_PATH = prev;
+  };
+}
+
+// ─────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────
+
+export const OPERATOR_ACTIONS = ["kill_switch", "force_exit", "pause", "sl_tp"] as const;
+export type OperatorAction = (typeof OPERATOR_ACTIONS)[number];
+
+export interface AuditEntry {
+  time: string;
+  actor: string;
+  role: Principal["role"];
+  /** "telegram" = command from an allowed bot chat (telegram/bot.ts) */
+  via: Principal["via"] | "telegram";
+  ip: string;
+  /** Operator action, backtest, or login / login_failed / logout */
+  action: string;
+  params: Record<string, unknown>;
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+export interface ActionDeps {
+  /** Current market price (null = unavailable) */
+  priceOf: (symbol: string) => Promise<number | null>;
+}
+
+/** Rejected action; `status` is the HTTP status to answer with */
+export class OperatorActionError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "OperatorActionError";
+  }
+}
+
+// ─────────────────────────────────────────────────────
+// Audit Log
+// ─────────────────────────────────────────────────────
+
+export function appendAudit(entry: AuditEntry): void {
+  fs.mkdirSync(path.dirname(AUDIT_LOG_PATH), { recursive: true });
+  fs.appendFileSync(AUDIT_LOG_PATH, JSON.stringify(entry) + "\n", "utf-8");
+}
+
+/** Most recent entries first */
+export function readAuditLog(limit = 100): AuditEntry[] {
+  if (!fs.existsSync(AUDIT_LOG_PATH)) return [];
+  const entries: AuditEntry[] = [];
+  for (const line of fs.readFileSync(AUDIT_LOG_PATH, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as AuditEntry);
+    } catch { /* skip corrupted line */ }
+  }
+  return entries.slice(-limit).reverse();
+}
+
+// ─────────────────────────────────────────────────────
+// Parameter Validation
+// ─────────────────────────────────────────────────────
+
+type Params = Record<string, unknown>;
+
+function asParams(body: unknown): Params {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new OperatorActionError(400, "Request body must be a JSON object");
+  }
+  return body as Params;
+}
+
+function requireString(p: Params, key: string): string {
+  const v = p[key];
+  if (typeof v !== "string" || v.trim() === "") throw new OperatorActionError(400, `"${key}" must be a non-empty string`);
+  return v.trim();
+}
+
+function requireBoolean(p: Params, key: string): boolean {
+  const v = p[key];
+  if (typeof v !== "boolean") throw new OperatorActionError(400, `"${key}" must be true or false`);
+  return v;
+}
+
+function optionalPrice(p: Params, key: string): number | undefined {
+  const v = p[key];
+  if (v === undefined || v === null) return undefined;
+  if (typeof v !== "number" || !Number.isFinite(v) || v <= 0) {
+    throw new OperatorActionError(400, `"${key}" must be a positive number`);
+  }
+  return v;
+}
+
+function findScenario(scenarioId: string): PaperScenario {
+  const scenario = loadPaperConfig().scenarios.find((s) => s.id === scenarioId);
+  if (!scenario) throw new OperatorActionError(404, `Unknown scenario: ${scenarioId}`);
+  return scenario;
+}
+
+function requirePaperScenario(scenario: PaperScenario): void {
+  if (scenario.exchange.testnet === true) {
+    throw new OperatorActionError(
+      409,
+      `Scenario ${scenario.id} trades on the exchange; use manual-trade to change its positions`
+    );
+  }
+}
+
+// ─────────────────────────────────────────────────────
+// Actions
+// ─────────────────────────────────────────────────────
+
+function killSwitch(p: Params): unknown {
+  if (requireBoolean(p, "active")) {
+    const reason = typeof p["reason"] === "string" && p["reason"].trim() ? p["reason"].trim() : "Dashboard operator";
+    const minutes = p["autoResumeMinutes"];
+    const autoResumeMs = typeof minutes === "number" && minutes > 0 ? minutes * 60_000 : undefined;
+    activateKillSwitch(reason, autoResumeMs);
+  } else {
+    deactivateKillSwitch();
+  }
+  return readKillSwitch();
+}
+
+function pause(p: Params): unknown {
+  const scenario = findScenario(requireString(p, "scenarioId"));
+  const paused = requireBoolean(p, "paused");
+  setScenarioPaused(scenario.id, paused);
+  return { scenarioId: scenario.id, paused };
+}
+
+async function forceExit(p: Params, deps: ActionDeps): Promise<unknown> {
+  const scenario = findScenario(requireString(p, "scenarioId"));
+  requirePaperScenario(scenario);
+  const symbol = requireString(p, "symbol").toUpperCase();
+
+  const account = loadAccount(scenario.initial_usdt, scenario.id);
+  const pos = account.positions[symbol];
+  if (!pos) throw new OperatorActionError(404, `No open ${symbol} position in ${scenario.id}`);
+
+  // Unlike /forcesell there is no entry-price fallback: an operator close must fill at market
+  const price = await deps.priceOf(symbol);
+  if (price === null) throw new OperatorActionError(502, `Price unavailable for ${symbol}, position left open`);
+
+  const opts = { feeRate: scenario.fee_rate, slippagePercent: scenario.slippage_percent };
+  const trade = pos.side === "short"
+    ? paperCoverShort(account, symbol, price, "dashboard_force_exit", opts)
+    : paperSell(account, symbol, price, "dashboard_force_exit", opts);
+  if (!trade) throw new OperatorActionError(500, `Close position failed: ${symbol}`);
+
+  saveAccount(account, scenario.id);
+  if (pos.signalHistoryId) {
+    try { closeSignal(pos.signalHistoryId, trade.price, "manual", trade.pnl); } catch { /* skip */ }
+  }
+  return { scenarioId: scenario.id, symbol, side: pos.side ?? "long", price: trade.price, quantity: trade.quantity, pnl: trade.pnl };
+}
+
+async function setStopLossTakeProfit(p: Params, deps: ActionDeps): Promise<unknown> {
+  const scenario = findScenario(requireString(p, "scenarioId"));
+  requirePaperScenario(scenario);
+  const symbol = requireString(p, "symbol").toUpperCase();
+  const stopLoss = optionalPrice(p, "stopLoss");
+  const takeProfit = optionalPrice(p, "takeProfit");
+  if (stopLoss === undefined && takeProfit === undefined) {
+    throw new OperatorActionError(400, `Provide "stopLoss" and/or "takeProfit"`);
+  }
+
+  const account = loadAccount(scenario.initial_usdt, scenario.id);
+  const pos = account.positions[symbol];
+  if (!pos) throw new OperatorActionError(404, `No open ${symbol} position in ${scenario.id}`);
+
+  // Both levels must sit on their own side of the market, or the next monitor run exits at once
+  const sl = stopLoss ?? pos.stopLoss;
+  const tp = takeProfit ?? pos.takeProfit;
+  const price = (await deps.priceOf(symbol)) ?? pos.entryPrice;
+  const isShort = pos.side === "short";
+  const valid = isShort ? tp < price && price < sl : sl < price && price < tp;
+  if (!valid) {
+    throw new OperatorActionError(
+      400,
+      isShort
+        ? `Short needs takeProfit < price (${price}) < stopLoss; got TP ${tp}, SL ${sl}`
+        : `Long needs stopLoss < price (${price}) < takeProfit; got SL ${sl}, TP ${tp}`
+    );
+  }
+
+  const previous = { stopLoss: pos.stopLoss, takeProfit: pos.takeProfit };
+  pos.stopLoss = sl;
+  pos.takeProfit = tp;
+  saveAccount(account, scenario.id);
+  return { scenarioId: scenario.id, symbol, previous, stopLoss: sl, takeProfit: tp };
+}
+
+// ─────────────────────────────────────────────────────
+// Dispatch
+// ─────────────────────────────────────────────────────
+
+export function isOperatorAction(name: string): name is OperatorAction {
+  return (OPERATOR_ACTIONS as readonly string[]).includes(name);
+}
+
+/**
+ * Run an operator action and audit it.
+ * @throws OperatorActionError for invalid requests (already audited)
+ */
+export async function runOperatorAction(
+  action: OperatorAction,
+  body: unknown,
+  actor: { principal: Principal; ip: string },
+  deps: ActionDeps
+): Promise<unknown> {
+  const base = {
+    time: new Date().toISOString(),
+    actor: actor.principal.name,
+    role: actor.principal.role,
+    via: actor.principal.via,
+    ip: actor.ip,
+    action,
+  };
+  let params: Params = {};
+  try {
+    params = asParams(body);
+    let result: unknown;
+    switch (action) {
+      case "kill_switch": result = killSwitch(params); break;
+      case "force_exit": result = await forceExit(params, deps); break;
+      case "pause": result = pause(params); break;
+      case "sl_tp": result = await setStopLossTakeProfit(params, deps); break;
+    }
+    appendAudit({ ...base, params, ok: true, result });
+    return result;
+  } catch (err: unknown) {
+    appendAudit({ ...base, params, ok: false, error: err instanceof Error ? err.message : String(err) });
+    throw err;
+  }
+}